@@ -30,6 +30,7 @@ export class AnalyticsAggregator {
       bySource: {
         regex: 0,
         ml: 0,
+        dictionary: 0,
         manual: 0,
       },
       byConfidence: {
@@ -316,7 +317,7 @@ export class AnalyticsAggregator {
    */
   static filterBySource(
     items: RedactionItem[],
-    source: 'regex' | 'ml' | 'manual' | null
+    source: 'regex' | 'ml' | 'dictionary' | 'manual' | null
   ): RedactionItem[] {
     if (source === null) return items;
     return items.filter((item) => (item.source || 'manual') === source);
@@ -15,6 +15,7 @@ export interface DocumentStatistics {
   bySource: {
     regex: number;
     ml: number;
+    dictionary: number;
     manual: number;
   };
   byConfidence: {
@@ -67,7 +68,7 @@ export interface PageHotspot {
 export interface DetectionExportRow {
   page: number;
   type: DetectionType | string;
-  source: 'regex' | 'ml' | 'manual';
+  source: 'regex' | 'ml' | 'dictionary' | 'manual';
   confidence: number;
   text: string;
   x: number;
@@ -0,0 +1,179 @@
+/**
+ * Redaction Certificate
+ *
+ * A one-to-few page PDF summary of an audit record for people: what was
+ * exported, by whom and when, the file hashes and what was redacted.
+ * The record itself remains the machine-readable evidence.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { toEncodable, wrapText } from '../pdf/drawing';
+import { formatPageRanges } from '../exemptions';
+import type { AuditBox, AuditExportMode, AuditRecord } from './types';
+
+const MODE_LABELS: Record<AuditExportMode, string> = {
+  rasterize: 'PDF, rasterized pages',
+  'true-redaction': 'PDF, true redaction (content removed, text kept)',
+  image: 'Image',
+  document: 'Document'
+};
+
+const SANITIZATION_LABELS: Record<keyof NonNullable<AuditRecord['sanitization']>['removed'], string> = {
+  metadata: 'Document metadata',
+  annotations: 'Annotations',
+  formFields: 'Form fields',
+  hyperlinks: 'Hyperlinks',
+  xmpMetadata: 'XMP metadata',
+  attachments: 'Attachments',
+  javaScript: 'JavaScript actions',
+  embeddedFiles: 'Embedded files'
+};
+
+interface TypeSummary {
+  type: string;
+  count: number;
+  sources: Set<string>;
+  pages: number[];
+}
+
+/**
+ * Count boxes per detection type, in order of first appearance
+ */
+function summarizeBoxes(boxes: AuditBox[]): TypeSummary[] {
+  const byType = new Map<string, TypeSummary>();
+
+  for (const box of boxes) {
+    const type = box.type ?? (box.source === 'manual' ? 'manual' : 'match');
+    let summary = byType.get(type);
+    if (!summary) {
+      summary = { type, count: 0, sources: new Set(), pages: [] };
+      byType.set(type, summary);
+    }
+    summary.count++;
+    if (box.source) summary.sources.add(box.source);
+    if (!summary.pages.includes(box.page)) summary.pages.push(box.page);
+  }
+
+  return Array.from(byType.values()).map((summary) => ({
+    ...summary,
+    pages: summary.pages.sort((a, b) => a - b)
+  }));
+}
+
+/**
+ * Render the certificate for a record
+ */
+export async function createCertificatePdf(record: AuditRecord): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Redaction Certificate: ${record.exportName}`);
+  pdfDoc.setProducer('Aegis Redact');
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const mono = await pdfDoc.embedFont(StandardFonts.Courier);
+
+  // US Letter
+  const [width, height] = [612, 792];
+  const margin = 54;
+  const labelWidth = 130;
+  const black = rgb(0, 0, 0);
+  const grey = rgb(0.35, 0.35, 0.35);
+
+  let page: PDFPage = pdfDoc.addPage([width, height]);
+  let y = height - margin;
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed < margin) {
+      page = pdfDoc.addPage([width, height]);
+      y = height - margin;
+    }
+  };
+
+  const paragraph = (text: string, textFont: PDFFont = font, size = 10, x = margin, color = black) => {
+    const lineHeight = size * 1.35;
+    for (const line of wrapText(toEncodable(textFont, text), textFont, size, width - margin - x)) {
+      ensureSpace(lineHeight);
+      page.drawText(line, { x, y: y - size, size, font: textFont, color });
+      y -= lineHeight;
+    }
+  };
+
+  const heading = (text: string) => {
+    y -= 10;
+    ensureSpace(40);
+    page.drawText(text, { x: margin, y: y - 12, size: 12, font: bold, color: black });
+    y -= 18;
+    page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 0.5, color: grey });
+    y -= 8;
+  };
+
+  const field = (label: string, value: string, valueFont: PDFFont = font, size = 10) => {
+    ensureSpace(size * 1.35);
+    page.drawText(label, { x: margin, y: y - size, size: 10, font: bold, color: black });
+    paragraph(value, valueFont, size, margin + labelWidth);
+    y -= 3;
+  };
+
+  page.drawText('Redaction Certificate', { x: margin, y: y - 22, size: 22, font: bold, color: black });
+  y -= 36;
+  paragraph(
+    `This certificate summarizes entry ${record.sequence} of the audit log. The SHA-256 hashes identify the exact original and exported files. The text that was redacted is not recorded.`,
+    font,
+    10,
+    margin,
+    grey
+  );
+
+  heading('Export');
+  field('Original file', record.fileName);
+  field('Exported file', record.exportName);
+  field('Export type', MODE_LABELS[record.mode]);
+  field('Date', new Date(record.createdAt).toUTCString());
+  field('Performed by', record.user ? `${record.user.email} (${record.user.id})` : 'Not signed in');
+
+  heading('Integrity');
+  field('Original SHA-256', record.inputHash, mono, 8);
+  field('Export SHA-256', record.outputHash, mono, 8);
+  field('Record ID', record.id, mono, 8);
+  field('Record hash', record.hash, mono, 8);
+  field('Previous record', record.previousHash, mono, 8);
+
+  heading('Redactions');
+  const summaries = summarizeBoxes(record.boxes);
+  paragraph(`${record.boxes.length} redaction${record.boxes.length === 1 ? '' : 's'} in total.`);
+  y -= 4;
+  for (const summary of summaries) {
+    const sources = Array.from(summary.sources).join(', ');
+    field(
+      summary.type,
+      `${summary.count} on page${summary.pages.length === 1 ? '' : 's'} ${formatPageRanges(summary.pages)}${sources ? ` (found by ${sources})` : ''}`
+    );
+  }
+
+  heading('Sanitization');
+  if (!record.sanitization) {
+    paragraph('Not applied.');
+  } else {
+    const { removed, success, errors } = record.sanitization;
+    const items = (Object.keys(SANITIZATION_LABELS) as Array<keyof typeof SANITIZATION_LABELS>)
+      .filter((key) => removed[key])
+      .map((key) => typeof removed[key] === 'number' ? `${SANITIZATION_LABELS[key]}: ${removed[key]}` : SANITIZATION_LABELS[key]);
+    paragraph(success ? 'Completed.' : 'Incomplete; some steps failed.');
+    paragraph(items.length > 0 ? `Removed: ${items.join('; ')}.` : 'Nothing needed removing.');
+    if (errors.length > 0) {
+      paragraph(`Errors: ${errors.join('; ')}`);
+    }
+  }
+
+  if (record.warnings && record.warnings.length > 0) {
+    heading('Warnings');
+    record.warnings.forEach((warning) => paragraph(warning));
+  }
+
+  heading('Detectors');
+  field('Application', record.detectors.app);
+  field('ML model', record.detectors.ml ?? 'Not used');
+  field('OCR', record.detectors.ocr ?? 'Not used');
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,36 @@
+/**
+ * Audit Log Module
+ *
+ * Hash-chained records of every export, with certificates for people.
+ */
+
+export {
+  sha256Hex,
+  canonicalJson,
+  hashAuditRecord,
+  toAuditBoxes,
+  getDetectorVersions,
+  createAuditRecord,
+  verifyAuditChain,
+  serializeAuditRecord
+} from './record';
+export { AuditLog, auditLog } from './store';
+export { createCertificatePdf } from './certificate';
+export { uploadAuditRecord } from './upload';
+export {
+  isCertificateEnabled,
+  setCertificateEnabled,
+  isCloudUploadEnabled,
+  setCloudUploadEnabled
+} from './settings';
+export { AUDIT_RECORD_FORMAT, AUDIT_RECORD_VERSION, GENESIS_HASH } from './types';
+export type {
+  AuditBox,
+  AuditSanitization,
+  DetectorVersions,
+  AuditUser,
+  AuditExport,
+  AuditExportMode,
+  AuditRecord,
+  AuditChainResult
+} from './types';
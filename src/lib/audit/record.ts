@@ -0,0 +1,150 @@
+/**
+ * Audit Records
+ *
+ * Each export gets a record of what was redacted (never the redacted
+ * text), chained to the record before it by hash so that tampering with
+ * the log can be detected.
+ */
+
+import { version, dependencies } from '../../../package.json';
+import { getSelectedModel } from '../detect/models';
+import type { Box } from '../pdf/find';
+import { AUDIT_RECORD_FORMAT, AUDIT_RECORD_VERSION, GENESIS_HASH } from './types';
+import type { AuditBox, AuditChainResult, AuditExport, AuditRecord, DetectorVersions } from './types';
+
+/**
+ * Read a blob with FileReader (compatible with test environments)
+ */
+function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * SHA-256 of a file or string, as hex
+ */
+export async function sha256Hex(data: Blob | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string'
+    ? new TextEncoder().encode(data)
+    : new Uint8Array(data instanceof Blob ? await readBlobAsArrayBuffer(data) : data);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted and undefined fields dropped, so the same
+ * record always hashes the same however it was built or stored
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash a record's contents (every field but `hash`)
+ */
+export function hashAuditRecord(record: Omit<AuditRecord, 'hash'> & { hash?: string }): Promise<string> {
+  const { hash: _hash, ...contents } = record;
+  return sha256Hex(canonicalJson(contents));
+}
+
+/**
+ * Describe page boxes for a record, dropping the text they cover
+ */
+export function toAuditBoxes(pageBoxes: Map<number, Box[]>): AuditBox[] {
+  const pages = Array.from(pageBoxes.keys()).sort((a, b) => a - b);
+  return pages.flatMap((page) => (pageBoxes.get(page) ?? []).map((box) => ({
+    page,
+    type: box.type,
+    source: box.source,
+    confidence: box.confidence,
+    exemption: box.exemption,
+    x: box.x,
+    y: box.y,
+    w: box.w,
+    h: box.h
+  })));
+}
+
+/**
+ * Versions of the detectors an export used
+ */
+export function getDetectorVersions(used: { ml: boolean; ocr: boolean }): DetectorVersions {
+  return {
+    app: version,
+    ml: used.ml ? getSelectedModel().id : undefined,
+    ocr: used.ocr ? `tesseract.js ${dependencies['tesseract.js']}` : undefined
+  };
+}
+
+/**
+ * Build the record that follows `previous` in a log
+ */
+export async function createAuditRecord(entry: AuditExport, previous: AuditRecord | null): Promise<AuditRecord> {
+  const record: Omit<AuditRecord, 'hash'> = {
+    format: AUDIT_RECORD_FORMAT,
+    version: AUDIT_RECORD_VERSION,
+    sequence: previous ? previous.sequence + 1 : 1,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    fileName: entry.fileName,
+    exportName: entry.exportName,
+    mode: entry.mode,
+    inputHash: await sha256Hex(entry.original),
+    outputHash: await sha256Hex(entry.exported),
+    boxes: entry.boxes,
+    sanitization: entry.sanitization,
+    warnings: entry.warnings,
+    detectors: entry.detectors,
+    user: entry.user,
+    previousHash: previous ? previous.hash : GENESIS_HASH
+  };
+
+  return { ...record, hash: await hashAuditRecord(record) };
+}
+
+/**
+ * Check that records (oldest first) form an unbroken chain from the start
+ * of the log and that none was altered
+ */
+export async function verifyAuditChain(records: AuditRecord[]): Promise<AuditChainResult> {
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const fail = (reason: string): AuditChainResult => ({ valid: false, checked: i + 1, brokenAt: record.sequence, reason });
+
+    if (record.sequence !== i + 1) {
+      return fail(`Expected record ${i + 1}, found ${record.sequence}`);
+    }
+    if (record.previousHash !== previousHash) {
+      return fail('Does not follow the previous record');
+    }
+    if (await hashAuditRecord(record) !== record.hash) {
+      return fail('Contents do not match the record hash');
+    }
+    previousHash = record.hash;
+  }
+
+  return { valid: true, checked: records.length };
+}
+
+/**
+ * Serialize a record for saving or uploading
+ */
+export function serializeAuditRecord(record: AuditRecord): Blob {
+  return new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+}
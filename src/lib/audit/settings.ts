@@ -0,0 +1,44 @@
+/**
+ * Audit Log Settings
+ */
+
+const CERTIFICATE_KEY = 'audit-save-certificate';
+const CLOUD_UPLOAD_KEY = 'audit-cloud-upload';
+
+function readSetting(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeSetting(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+}
+
+/**
+ * Whether a certificate PDF is saved next to every export (default off)
+ */
+export function isCertificateEnabled(): boolean {
+  return readSetting(CERTIFICATE_KEY) === 'true';
+}
+
+export function setCertificateEnabled(enabled: boolean): void {
+  writeSetting(CERTIFICATE_KEY, String(enabled));
+}
+
+/**
+ * Whether records are uploaded to cloud storage when signed in (default off)
+ */
+export function isCloudUploadEnabled(): boolean {
+  return readSetting(CLOUD_UPLOAD_KEY) === 'true';
+}
+
+export function setCloudUploadEnabled(enabled: boolean): void {
+  writeSetting(CLOUD_UPLOAD_KEY, String(enabled));
+}
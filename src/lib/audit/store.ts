@@ -0,0 +1,92 @@
+/**
+ * Audit Log Storage
+ *
+ * Records are kept in IndexedDB, keyed by sequence, so they survive
+ * reloads and stay on this device unless uploaded.
+ */
+
+import { createAuditRecord, verifyAuditChain } from './record';
+import type { AuditChainResult, AuditExport, AuditRecord } from './types';
+
+const DB_NAME = 'aegis-audit';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Append-only audit log
+ */
+export class AuditLog {
+  private db: Promise<IDBDatabase> | null = null;
+  /** Appends run one at a time so each links to the one before */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private dbName: string = DB_NAME) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'sequence' });
+      };
+      this.db = requestToPromise(request);
+      // Allow a later retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async getLatest(db: IDBDatabase): Promise<AuditRecord | null> {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const cursor = await requestToPromise(store.openCursor(null, 'prev'));
+    return cursor ? (cursor.value as AuditRecord) : null;
+  }
+
+  /**
+   * Record an export
+   * @throws Error if IndexedDB is unavailable or the record can't be stored
+   */
+  append(entry: AuditExport): Promise<AuditRecord> {
+    const result = this.pending.then(async () => {
+      const db = await this.open();
+      const record = await createAuditRecord(entry, await this.getLatest(db));
+
+      // add() rejects a sequence another tab already took
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      await requestToPromise(transaction.objectStore(STORE_NAME).add(record));
+      return record;
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * All records, oldest first
+   */
+  async list(): Promise<AuditRecord[]> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return requestToPromise(store.getAll()) as Promise<AuditRecord[]>;
+  }
+
+  /**
+   * Check the stored chain for tampering
+   */
+  async verify(): Promise<AuditChainResult> {
+    return verifyAuditChain(await this.list());
+  }
+}
+
+export const auditLog = new AuditLog();
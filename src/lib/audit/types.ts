@@ -0,0 +1,119 @@
+/**
+ * Audit Log Types
+ */
+
+import type { SanitizeOptions, SanitizationResult } from '../pdf/sanitize';
+
+export const AUDIT_RECORD_FORMAT = 'aegis-audit-record';
+export const AUDIT_RECORD_VERSION = 1;
+
+/** previousHash of the first record in a log */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** How an export was produced */
+export type AuditExportMode = 'rasterize' | 'true-redaction' | 'image' | 'document';
+
+/**
+ * One redaction box, without the text it covered
+ * Coordinates are preview canvas pixels (PDF pages render at scale 2).
+ */
+export interface AuditBox {
+  /** 0-based page, sheet or slide */
+  page: number;
+  type?: string;
+  source?: 'regex' | 'ml' | 'dictionary' | 'manual';
+  confidence?: number;
+  exemption?: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * PDF sanitization applied after redaction
+ */
+export interface AuditSanitization {
+  options: SanitizeOptions;
+  success: boolean;
+  removed: SanitizationResult['removed'];
+  errors: string[];
+}
+
+/**
+ * Versions of the code that found the redactions
+ */
+export interface DetectorVersions {
+  /** App version; the pattern detectors ship with it */
+  app: string;
+  /** NER model ID, when ML detection was on */
+  ml?: string;
+  /** OCR engine, when OCR was on */
+  ocr?: string;
+}
+
+export interface AuditUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * What the caller knows about an export; hashes and chaining are added
+ * when it is appended to the log
+ */
+export interface AuditExport {
+  /** Name of the original file */
+  fileName: string;
+  /** Name the export is saved under */
+  exportName: string;
+  mode: AuditExportMode;
+  original: Blob | Uint8Array;
+  exported: Blob | Uint8Array;
+  boxes: AuditBox[];
+  sanitization?: AuditSanitization;
+  /** Format warnings the user accepted before exporting */
+  warnings?: string[];
+  detectors: DetectorVersions;
+  user?: AuditUser;
+}
+
+/**
+ * Stored audit record
+ * `hash` is the SHA-256 of the canonical JSON of every other field,
+ * including `previousHash`, so editing, removing or reordering records
+ * breaks the chain.
+ */
+export interface AuditRecord {
+  format: typeof AUDIT_RECORD_FORMAT;
+  version: number;
+  /** Position in the log, from 1 */
+  sequence: number;
+  id: string;
+  /** ISO timestamp */
+  createdAt: string;
+  fileName: string;
+  exportName: string;
+  mode: AuditExportMode;
+  /** SHA-256 (hex) of the original file */
+  inputHash: string;
+  /** SHA-256 (hex) of the exported file */
+  outputHash: string;
+  boxes: AuditBox[];
+  sanitization?: AuditSanitization;
+  /** Format warnings the user accepted before exporting */
+  warnings?: string[];
+  detectors: DetectorVersions;
+  user?: AuditUser;
+  /** Hash of the previous record, or GENESIS_HASH */
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditChainResult {
+  valid: boolean;
+  /** Records checked */
+  checked: number;
+  /** Sequence of the first record that fails */
+  brokenAt?: number;
+  reason?: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * Audit Record Upload
+ */
+
+import type { CloudSyncService } from '../cloud/sync';
+import type { AuditRecord } from './types';
+
+/**
+ * Upload a record to the signed-in user's cloud storage
+ * Records are encrypted client-side like any other file.
+ *
+ * @returns The cloud file ID
+ */
+export async function uploadAuditRecord(cloudSync: CloudSyncService, record: AuditRecord): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(record, null, 2));
+  return cloudSync.uploadFile(data, `audit-${String(record.sequence).padStart(6, '0')}-${record.id}.json`, 'application/json');
+}
@@ -82,7 +82,7 @@ export async function encryptFile(
  * Decrypt file data after download
  */
 export async function decryptFile(
-  encryptedData: ArrayBuffer,
+  encryptedData: ArrayBuffer | Uint8Array<ArrayBuffer>,
   password: string,
   metadata: EncryptedFileData['metadata']
 ): Promise<ArrayBuffer> {
@@ -152,6 +152,6 @@ function uint8ArrayToBase64(array: Uint8Array): string {
   return btoa(String.fromCharCode(...array));
 }
 
-function base64ToUint8Array(base64: string): Uint8Array {
+function base64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
   return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
 }
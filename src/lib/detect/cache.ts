@@ -37,10 +37,11 @@ export class DetectionCache {
   }
 
   /**
-   * Generate a cache key from document ID and page index
+   * Generate a cache key from document ID, page index and model
+   * Each model keeps its own entries, so switching models and back is a hit
    */
-  private generateKey(documentId: string, pageIndex: number): string {
-    return `${documentId}:${pageIndex}`;
+  private generateKey(documentId: string, pageIndex: number, modelName: string): string {
+    return `${documentId}:${pageIndex}:${modelName}`;
   }
 
   /**
@@ -71,7 +72,7 @@ export class DetectionCache {
     text: string,
     options: { minConfidence: number; modelName: string }
   ): MLEntity[] | null {
-    const key = this.generateKey(documentId, pageIndex);
+    const key = this.generateKey(documentId, pageIndex, options.modelName);
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -97,8 +98,7 @@ export class DetectionCache {
     }
 
     // Check if options changed
-    if (entry.options.minConfidence !== options.minConfidence ||
-        entry.options.modelName !== options.modelName) {
+    if (entry.options.minConfidence !== options.minConfidence) {
       console.log(`[DetectionCache] Options changed for ${key}`);
       this.cache.delete(key);
       return null;
@@ -133,7 +133,7 @@ export class DetectionCache {
       }
     }
 
-    const key = this.generateKey(documentId, pageIndex);
+    const key = this.generateKey(documentId, pageIndex, options.modelName);
     const textHash = this.hashText(text);
 
     this.cache.set(key, {
@@ -0,0 +1,225 @@
+/**
+ * Entity Coreference
+ *
+ * Once a reviewer redacts one mention of a person ("Jonathan Smith"),
+ * derive the other ways the document may refer to them ("Mr. Smith",
+ * "Jon", "J. Smith", jsmith@corp.com) so every mention can be proposed
+ * for redaction in one step.
+ */
+
+import { TermMatcher } from './custom/dictionary';
+import type { TermMatch } from './custom/types';
+
+/**
+ * Honorifics placed before a surname
+ */
+const HONORIFICS = ['Mr', 'Mrs', 'Ms', 'Miss', 'Mx', 'Dr', 'Prof', 'Sir', 'Dame'];
+
+/**
+ * Common short forms of given names
+ * Short forms are only derived from this table; taking arbitrary
+ * prefixes ("Mar" from "Mark") matches too many unrelated words
+ */
+const NICKNAMES: Record<string, string[]> = {
+  alexander: ['Alex'],
+  alexandra: ['Alex', 'Sasha'],
+  andrew: ['Andy', 'Drew'],
+  anthony: ['Tony'],
+  benjamin: ['Ben'],
+  catherine: ['Cathy', 'Kate'],
+  charles: ['Charlie', 'Chuck'],
+  christopher: ['Chris'],
+  daniel: ['Dan', 'Danny'],
+  david: ['Dave'],
+  edward: ['Ed', 'Ted'],
+  elizabeth: ['Liz', 'Beth', 'Eliza'],
+  jennifer: ['Jen', 'Jenny'],
+  jonathan: ['Jon', 'Jonny'],
+  joseph: ['Joe'],
+  katherine: ['Kathy', 'Kate'],
+  margaret: ['Maggie', 'Peggy'],
+  matthew: ['Matt'],
+  michael: ['Mike'],
+  nicholas: ['Nick'],
+  patricia: ['Pat', 'Patty'],
+  rebecca: ['Becky'],
+  richard: ['Rick', 'Dick'],
+  robert: ['Rob', 'Bob', 'Bobby'],
+  samuel: ['Sam'],
+  stephen: ['Steve'],
+  steven: ['Steve'],
+  susan: ['Sue'],
+  thomas: ['Tom'],
+  timothy: ['Tim'],
+  victoria: ['Vicky', 'Tori'],
+  william: ['Will', 'Bill', 'Billy']
+};
+
+/**
+ * Single words shorter than this are not proposed on their own
+ */
+const MIN_SINGLE_WORD_LENGTH = 3;
+
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+const HONORIFIC_PREFIX = new RegExp(`^(?:${HONORIFICS.join('|')})\\.?\\s+`, 'i');
+
+/**
+ * Split a name into words, dropping honorifics and possessive endings
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .trim()
+    .replace(HONORIFIC_PREFIX, '')
+    .replace(/['’]s?$/, '')
+    .split(/\s+/)
+    .map(token => token.replace(/[^\p{L}\p{N}.'’-]/gu, ''))
+    .filter(token => token.length > 0);
+}
+
+function isInitial(token: string): boolean {
+  return /^\p{L}\.?$/u.test(token);
+}
+
+/**
+ * Derive the ways a person may be referred to from their full name
+ * Possessives ("Smith's") are matched by the term matcher, not listed here
+ *
+ * @param name - Name as redacted, e.g. "Dr. Jonathan A. Smith"
+ * @returns Unique variants, longest first
+ */
+export function deriveNameVariants(name: string): string[] {
+  const tokens = nameTokens(name);
+  const variants = new Set<string>();
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  variants.add(tokens.join(' '));
+
+  const given = tokens.filter(token => !isInitial(token));
+  if (given.length >= 2) {
+    const first = given[0];
+    const last = given[given.length - 1];
+    const firstInitial = first[0].toUpperCase();
+
+    variants.add(`${first} ${last}`);
+    variants.add(`${firstInitial}. ${last}`);
+    variants.add(`${firstInitial} ${last}`);
+    variants.add(`${first} ${last[0].toUpperCase()}.`);
+
+    for (const honorific of HONORIFICS) {
+      variants.add(`${honorific}. ${last}`);
+      variants.add(`${honorific} ${last}`);
+    }
+
+    for (const nickname of NICKNAMES[first.toLowerCase()] ?? []) {
+      variants.add(`${nickname} ${last}`);
+      variants.add(nickname);
+    }
+
+    if (first.length >= MIN_SINGLE_WORD_LENGTH) {
+      variants.add(first);
+    }
+    if (last.length >= MIN_SINGLE_WORD_LENGTH) {
+      variants.add(last);
+    }
+  }
+
+  return Array.from(variants).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Derive likely email local parts for a person
+ *
+ * @param name - Full name, e.g. "Jonathan Smith"
+ * @returns Lowercase local parts such as "jonathan.smith" and "jsmith"
+ */
+export function deriveEmailLocalParts(name: string): string[] {
+  const given = nameTokens(name)
+    .filter(token => !isInitial(token))
+    .map(token => token.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]/g, ''))
+    .filter(token => token.length > 0);
+
+  if (given.length < 2) {
+    return given;
+  }
+
+  const first = given[0];
+  const last = given[given.length - 1];
+  const firstNames = [first, ...(NICKNAMES[first] ?? []).map(n => n.toLowerCase())];
+  const parts = new Set<string>();
+
+  for (const f of firstNames) {
+    parts.add(`${f}.${last}`);
+    parts.add(`${f}_${last}`);
+    parts.add(`${f}-${last}`);
+    parts.add(`${f}${last}`);
+  }
+  parts.add(`${first[0]}${last}`);
+  parts.add(`${first[0]}.${last}`);
+  parts.add(`${last}${first[0]}`);
+  parts.add(`${last}.${first}`);
+
+  return Array.from(parts);
+}
+
+/**
+ * Finds every mention of one entity in text
+ */
+export class MentionFinder {
+  private matcher: TermMatcher;
+  private localParts: Set<string>;
+
+  /**
+   * @param seed - Redacted text: a name or an email address
+   */
+  constructor(seed: string) {
+    const trimmed = seed.trim();
+    const email = trimmed.match(/^([^@\s]+)@[^@\s]+$/);
+
+    let name = trimmed;
+    const terms: string[] = [];
+    if (email) {
+      // "jonathan.smith@corp.com" also names Jonathan Smith
+      const words = email[1].split(/[._-]+/).filter(w => /^\p{L}{2,}$/u.test(w));
+      name = words.length >= 2 ? words.join(' ') : '';
+      terms.push(trimmed);
+    }
+
+    terms.push(...deriveNameVariants(name));
+    this.matcher = new TermMatcher(terms, { matchVariants: true });
+    this.localParts = new Set([
+      ...(email ? [email[1].toLowerCase()] : []),
+      ...deriveEmailLocalParts(name)
+    ]);
+  }
+
+  /**
+   * Find mentions in text
+   * Email addresses whose local part belongs to the entity are returned whole
+   */
+  find(text: string): TermMatch[] {
+    const emails: TermMatch[] = [];
+    for (const m of text.matchAll(EMAIL)) {
+      const localPart = m[0].split('@')[0].toLowerCase();
+      if (this.localParts.has(localPart)) {
+        emails.push({ term: localPart, text: m[0], start: m.index!, end: m.index! + m[0].length, distance: 0 });
+      }
+    }
+
+    // Name matches inside an email address are covered by the email match
+    const names = this.matcher.match(text).filter(name =>
+      !emails.some(email => name.start < email.end && name.end > email.start)
+    );
+
+    return [...emails, ...names].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Check whether text mentions the entity
+   */
+  test(text: string): boolean {
+    return this.find(text).length > 0;
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Allow-List Registry
+ *
+ * Known-safe values (support addresses, public phone numbers, test card
+ * numbers) that should never be redacted. Rules are checked after
+ * detections are merged, so they apply to every detector.
+ */
+
+import type { DetectionResult } from '../merger';
+import type { AllowListRule, SuppressedDetection } from './types';
+import { PatternValidator } from './validator';
+
+/**
+ * Characters either side of a detection searched for context words
+ */
+const CONTEXT_WINDOW = 50;
+
+/**
+ * Profile used when none has been selected
+ */
+export const DEFAULT_PROFILE = 'default';
+
+export interface AllowListResult {
+  /** Detections that matched no rule */
+  kept: DetectionResult[];
+  /** Detections dropped, with the rule responsible */
+  suppressed: SuppressedDetection[];
+}
+
+/**
+ * Check whether a detection matches an allow-list rule
+ *
+ * @param detection - Merged detection result
+ * @param rule - Rule to check
+ * @param text - Full text the detection came from (for context rules)
+ * @returns true if the detection is known to be safe
+ */
+export function matchesAllowRule(
+  detection: DetectionResult,
+  rule: AllowListRule,
+  text: string = ''
+): boolean {
+  if (rule.detectionType && rule.detectionType !== detection.type) {
+    return false;
+  }
+
+  switch (rule.kind) {
+    case 'exact':
+      return normalizeValue(detection.text) === normalizeValue(rule.value);
+
+    case 'regex':
+      try {
+        return new RegExp(`^(?:${rule.value})$`, 'i').test(detection.text.trim());
+      } catch {
+        return false;
+      }
+
+    case 'domain':
+      return matchesDomain(detection.text, rule.value);
+
+    case 'context':
+      return !!rule.detectionType && hasContext(detection, rule.context ?? [], text);
+  }
+}
+
+/**
+ * Compare values ignoring case, whitespace, and separators in numbers
+ * so "4111 1111 1111 1111" allows "4111-1111-1111-1111"
+ */
+function normalizeValue(value: string): string {
+  const trimmed = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (/^[\d\s().+-]+$/.test(trimmed) && /\d/.test(trimmed)) {
+    return trimmed.replace(/\D/g, '');
+  }
+  return trimmed;
+}
+
+/**
+ * Match emails, URLs and hostnames on a domain or any of its subdomains
+ */
+function matchesDomain(value: string, domain: string): boolean {
+  const target = domain.trim().toLowerCase().replace(/^[@.]+/, '');
+  if (!target) {
+    return false;
+  }
+
+  let host = value.trim().toLowerCase();
+  const at = host.lastIndexOf('@');
+  if (at >= 0) {
+    host = host.substring(at + 1);
+  } else {
+    host = host.replace(/^[a-z][a-z\d+.-]*:\/\//, '').split(/[/:?#]/)[0];
+  }
+
+  return host === target || host.endsWith(`.${target}`);
+}
+
+/**
+ * Check that every occurrence of the detection has a context word nearby
+ * Redaction applies to every occurrence of a term, so one occurrence
+ * without context keeps the detection
+ */
+function hasContext(detection: DetectionResult, context: string[], text: string): boolean {
+  const words = context.map(word => word.trim().toLowerCase()).filter(Boolean);
+  if (words.length === 0 || !text) {
+    return false;
+  }
+
+  const starts: number[] = [];
+  if (detection.positions) {
+    starts.push(detection.positions.start);
+  } else {
+    for (let index = text.indexOf(detection.text); index >= 0; index = text.indexOf(detection.text, index + 1)) {
+      starts.push(index);
+    }
+  }
+
+  if (starts.length === 0) {
+    return false;
+  }
+
+  const lowerText = text.toLowerCase();
+  return starts.every(start => {
+    const window = lowerText.substring(
+      Math.max(0, start - CONTEXT_WINDOW),
+      start + detection.text.length + CONTEXT_WINDOW
+    );
+    return words.some(word => window.includes(word));
+  });
+}
+
+function describeRule(rule: AllowListRule): string {
+  if (rule.reason) {
+    return rule.reason;
+  }
+
+  switch (rule.kind) {
+    case 'exact':
+      return `Allow-listed value "${rule.value}"`;
+    case 'regex':
+      return `Matches allowed pattern ${rule.value}`;
+    case 'domain':
+      return `Allowed domain ${rule.value.replace(/^[@.]+/, '')}`;
+    case 'context':
+      return `${rule.detectionType} near "${(rule.context ?? []).join('", "')}"`;
+  }
+}
+
+export class AllowListRegistry {
+  private rules = new Map<string, AllowListRule>();
+  private storageKey = 'aegis-allow-list';
+  private profileKey = 'aegis-allow-list-profile';
+  private activeProfile: string = DEFAULT_PROFILE;
+  private persist = true;
+
+  constructor() {
+    this.loadRules();
+  }
+
+  /**
+   * Add a new rule
+   */
+  addRule(rule: Omit<AllowListRule, 'id' | 'createdAt'>): string {
+    this.validateRule(rule);
+
+    const id = crypto.randomUUID();
+    this.rules.set(id, {
+      ...rule,
+      id,
+      createdAt: Date.now(),
+      suppressedCount: 0
+    });
+    this.saveRules();
+    return id;
+  }
+
+  /**
+   * Update an existing rule
+   */
+  updateRule(id: string, updates: Partial<Omit<AllowListRule, 'id' | 'createdAt'>>): void {
+    const rule = this.rules.get(id);
+    if (!rule) {
+      throw new Error('Rule not found');
+    }
+
+    this.validateRule({ ...rule, ...updates });
+    Object.assign(rule, updates);
+    this.saveRules();
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(id: string): void {
+    if (!this.rules.has(id)) {
+      throw new Error('Rule not found');
+    }
+
+    this.rules.delete(id);
+    this.saveRules();
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  getRule(id: string): AllowListRule | undefined {
+    return this.rules.get(id);
+  }
+
+  /**
+   * Get all rules
+   */
+  getAllRules(): AllowListRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Get enabled rules that apply to a profile
+   */
+  getRulesForProfile(profile: string = this.activeProfile): AllowListRule[] {
+    return this.getAllRules().filter(rule =>
+      rule.enabled && (!rule.profiles?.length || rule.profiles.includes(profile))
+    );
+  }
+
+  /**
+   * Toggle rule enabled state
+   */
+  toggleRule(id: string): void {
+    const rule = this.rules.get(id);
+    if (rule) {
+      rule.enabled = !rule.enabled;
+      this.saveRules();
+    }
+  }
+
+  /**
+   * Get the profile used when detection options don't name one
+   */
+  getActiveProfile(): string {
+    return this.activeProfile;
+  }
+
+  /**
+   * Select the active profile
+   */
+  setActiveProfile(profile: string): void {
+    this.activeProfile = profile.trim() || DEFAULT_PROFILE;
+    try {
+      localStorage.setItem(this.profileKey, this.activeProfile);
+    } catch (error) {
+      console.error('Failed to save allow-list profile:', error);
+    }
+  }
+
+  /**
+   * Get every profile named by a rule, plus the active profile
+   */
+  getProfiles(): string[] {
+    const profiles = new Set([DEFAULT_PROFILE, this.activeProfile]);
+    this.getAllRules().forEach(rule => rule.profiles?.forEach(p => profiles.add(p)));
+    return Array.from(profiles);
+  }
+
+  /**
+   * Drop detections that match an enabled rule for the profile
+   *
+   * @param results - Merged detection results
+   * @param text - Text the detections came from
+   * @param profile - Profile to scope rules to (defaults to the active profile)
+   */
+  apply(results: DetectionResult[], text: string, profile?: string): AllowListResult {
+    const rules = this.getRulesForProfile(profile ?? this.activeProfile);
+    if (rules.length === 0) {
+      return { kept: results, suppressed: [] };
+    }
+
+    const kept: DetectionResult[] = [];
+    const suppressed: SuppressedDetection[] = [];
+
+    for (const result of results) {
+      const rule = rules.find(r => matchesAllowRule(result, r, text));
+      if (rule) {
+        rule.suppressedCount = (rule.suppressedCount || 0) + 1;
+        suppressed.push({
+          text: result.text,
+          type: result.type,
+          ruleId: rule.id,
+          reason: describeRule(rule)
+        });
+      } else {
+        kept.push(result);
+      }
+    }
+
+    if (suppressed.length > 0) {
+      this.saveRules();
+    }
+
+    return { kept, suppressed };
+  }
+
+  /**
+   * Count suppressions made elsewhere (in a detection worker) against their rules
+   */
+  recordSuppressed(suppressed: SuppressedDetection[]): void {
+    if (suppressed.length === 0) {
+      return;
+    }
+
+    suppressed.forEach(({ ruleId }) => {
+      const rule = this.rules.get(ruleId);
+      if (rule) {
+        rule.suppressedCount = (rule.suppressedCount || 0) + 1;
+      }
+    });
+    this.saveRules();
+  }
+
+  /**
+   * Replace all rules and the active profile with a copy from the main thread
+   * Used by detection workers, which have no localStorage; the copy is
+   * never saved
+   */
+  restore(rules: AllowListRule[], activeProfile: string): void {
+    this.persist = false;
+    this.rules = new Map(rules.map(r => [r.id, { ...r }]));
+    this.activeProfile = activeProfile;
+  }
+
+  /**
+   * Import rules from JSON
+   */
+  importRules(json: string): number {
+    let imported: AllowListRule[];
+    try {
+      imported = JSON.parse(json) as AllowListRule[];
+    } catch (error) {
+      throw new Error('Invalid JSON format');
+    }
+
+    let count = 0;
+    for (const rule of imported) {
+      try {
+        this.validateRule(rule);
+      } catch {
+        continue;
+      }
+
+      // Generate new ID to avoid conflicts
+      const id = crypto.randomUUID();
+      this.rules.set(id, {
+        ...rule,
+        id,
+        createdAt: Date.now(),
+        suppressedCount: 0
+      });
+      count++;
+    }
+
+    this.saveRules();
+    return count;
+  }
+
+  /**
+   * Export rules to JSON
+   */
+  exportRules(): string {
+    return JSON.stringify(this.getAllRules(), null, 2);
+  }
+
+  /**
+   * Clear all rules
+   */
+  clearAll(): void {
+    this.rules.clear();
+    this.saveRules();
+  }
+
+  private validateRule(rule: Pick<AllowListRule, 'kind' | 'value' | 'detectionType' | 'context'>): void {
+    if (rule.kind !== 'context' && !rule.value?.trim()) {
+      throw new Error('Rule value cannot be empty');
+    }
+
+    if (rule.kind === 'regex') {
+      const validation = PatternValidator.validate(rule.value);
+      if (!validation.valid) {
+        throw new Error(validation.error || 'Invalid pattern');
+      }
+    }
+
+    if (rule.kind === 'context' && (!rule.detectionType || !rule.context?.length)) {
+      throw new Error('Context rules need a detection type and at least one context word');
+    }
+  }
+
+  /**
+   * Load rules from localStorage
+   */
+  private loadRules(): void {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const rules = JSON.parse(stored) as AllowListRule[];
+        rules.forEach(r => this.rules.set(r.id, r));
+      }
+      this.activeProfile = localStorage.getItem(this.profileKey) || DEFAULT_PROFILE;
+    } catch (error) {
+      console.error('Failed to load allow-list:', error);
+    }
+  }
+
+  /**
+   * Save rules to localStorage
+   */
+  private saveRules(): void {
+    if (!this.persist) return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.getAllRules()));
+    } catch (error) {
+      console.error('Failed to save allow-list:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const allowListRegistry = new AllowListRegistry();
@@ -0,0 +1,359 @@
+/**
+ * Dictionary Term Matching
+ *
+ * Matches user-supplied term lists (employee names, project codenames)
+ * against text. Terms and text are normalized the same way (Unicode NFKD,
+ * diacritics stripped, case folded, whitespace collapsed) and searched with
+ * an Aho-Corasick automaton so thousands of terms cost a single pass.
+ */
+
+import Papa from 'papaparse';
+import type { TermMatch } from './types';
+
+/**
+ * Terms shorter than this are never fuzzy-matched; one edit on a short
+ * word turns it into a different common word
+ */
+const MIN_FUZZY_LENGTH = 5;
+
+/**
+ * Suffixes accepted after a term when variants are enabled, longest first
+ */
+const VARIANT_SUFFIXES = ["'s", "s'", 'es', 's', "'"];
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+export interface TermMatcherOptions {
+  caseSensitive?: boolean;
+  maxEditDistance?: number;
+  matchVariants?: boolean;
+}
+
+/**
+ * Text normalized for matching, with a map back to source offsets
+ */
+export interface NormalizedText {
+  text: string;
+  /** Source offset where each normalized character starts */
+  starts: number[];
+  /** Source offset where each normalized character ends */
+  ends: number[];
+}
+
+/**
+ * Normalize text for term matching
+ * Each normalized character remembers which source character produced it,
+ * so matches can be mapped back to the original text
+ *
+ * @param text - Text to normalize
+ * @param caseSensitive - Keep letter case
+ */
+export function normalizeForMatching(text: string, caseSensitive: boolean = false): NormalizedText {
+  const result: NormalizedText = { text: '', starts: [], ends: [] };
+  let offset = 0;
+
+  for (const char of text) {
+    const start = offset;
+    offset += char.length;
+
+    let folded: string;
+    if (/\s/.test(char)) {
+      // Collapse whitespace runs (including OCR line breaks) to one space
+      if (result.text.endsWith(' ') || result.text.length === 0) {
+        continue;
+      }
+      folded = ' ';
+    } else if (char === '’' || char === '‘') {
+      folded = "'";
+    } else {
+      folded = char.normalize('NFKD').replace(/\p{M}/gu, '');
+      if (!caseSensitive) {
+        folded = folded.toLowerCase().replace(/ß/g, 'ss');
+      }
+    }
+
+    for (const out of folded) {
+      result.text += out;
+      result.starts.push(start);
+      result.ends.push(offset);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a pasted or uploaded term list
+ * TXT: one term per line. CSV: terms are read from the first column.
+ * Blank lines and lines starting with `#` are ignored.
+ *
+ * @param content - File or pasted content
+ * @param format - 'csv' or 'txt' (defaults to CSV when the content has commas)
+ * @returns Unique terms in list order
+ */
+export function parseTermList(content: string, format?: 'csv' | 'txt'): string[] {
+  const isCSV = format ? format === 'csv' : /,|\t/.test(content);
+
+  const rows = isCSV
+    ? (Papa.parse<string[]>(content.trim(), { skipEmptyLines: true }).data).map(row => row[0] ?? '')
+    : content.split(/\r?\n/);
+
+  const terms = rows
+    .map(term => term.trim())
+    .filter(term => term.length > 0 && !term.startsWith('#'));
+
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Bounded Levenshtein distance
+ * @returns The distance, or maxDistance + 1 once it is certain to exceed it
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Aho-Corasick automaton over normalized terms
+ */
+class AhoCorasick {
+  private transitions: Array<Map<string, number>> = [new Map()];
+  private failure: number[] = [0];
+  private outputs: number[][] = [[]];
+
+  add(pattern: string, id: number): void {
+    let state = 0;
+    for (const char of pattern) {
+      let next = this.transitions[state].get(char);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.failure.push(0);
+        this.outputs.push([]);
+        this.transitions[state].set(char, next);
+      }
+      state = next;
+    }
+    this.outputs[state].push(id);
+  }
+
+  build(): void {
+    const queue: number[] = [];
+    for (const next of this.transitions[0].values()) {
+      queue.push(next);
+    }
+
+    // Breadth-first, so every failure target is final before it is used
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      for (const [char, next] of this.transitions[state]) {
+        let fallback = this.failure[state];
+        while (fallback > 0 && !this.transitions[fallback].has(char)) {
+          fallback = this.failure[fallback];
+        }
+        const target = this.transitions[fallback].get(char);
+        this.failure[next] = target !== undefined && target !== next ? target : 0;
+        this.outputs[next].push(...this.outputs[this.failure[next]]);
+        queue.push(next);
+      }
+    }
+  }
+
+  /**
+   * @returns Pattern ids with the exclusive end index of each occurrence
+   */
+  search(text: string): Array<{ id: number; end: number }> {
+    const found: Array<{ id: number; end: number }> = [];
+    let state = 0;
+
+    // Normalized text is indexed by UTF-16 unit, like the starts/ends maps
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      while (state > 0 && !this.transitions[state].has(char)) {
+        state = this.failure[state];
+      }
+      state = this.transitions[state].get(char) ?? 0;
+      for (const id of this.outputs[state]) {
+        found.push({ id, end: i + 1 });
+      }
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Compiled matcher for one term list
+ */
+export class TermMatcher {
+  private terms: string[];
+  private normalizedTerms: string[];
+  private automaton = new AhoCorasick();
+  private caseSensitive: boolean;
+  private maxEditDistance: number;
+  private matchVariants: boolean;
+
+  constructor(terms: string[], options: TermMatcherOptions = {}) {
+    this.caseSensitive = options.caseSensitive ?? false;
+    this.maxEditDistance = options.maxEditDistance ?? 0;
+    this.matchVariants = options.matchVariants ?? true;
+
+    this.terms = [];
+    this.normalizedTerms = [];
+    const seen = new Set<string>();
+    for (const term of terms) {
+      const normalized = normalizeForMatching(term.trim(), this.caseSensitive).text.trim();
+      if (normalized.length === 0 || seen.has(normalized)) {
+        continue;
+      }
+      seen.add(normalized);
+      this.automaton.add(normalized, this.terms.length);
+      this.terms.push(term.trim());
+      this.normalizedTerms.push(normalized);
+    }
+    this.automaton.build();
+  }
+
+  /**
+   * Number of unique terms in the matcher
+   */
+  get size(): number {
+    return this.terms.length;
+  }
+
+  /**
+   * Find all term occurrences in text
+   * Matches must start and end on word boundaries; overlapping matches
+   * resolve to the earliest, then longest
+   */
+  match(text: string): TermMatch[] {
+    const normalized = normalizeForMatching(text, this.caseSensitive);
+    const candidates: Array<{ id: number; start: number; end: number; distance: number }> = [];
+
+    for (const { id, end } of this.automaton.search(normalized.text)) {
+      const start = end - this.normalizedTerms[id].length;
+      const variantEnd = this.extendVariant(normalized.text, end);
+      if (!isWordBoundary(normalized.text, start, variantEnd)) {
+        continue;
+      }
+      candidates.push({ id, start, end: variantEnd, distance: 0 });
+    }
+
+    if (this.maxEditDistance > 0) {
+      candidates.push(...this.fuzzyCandidates(normalized.text, candidates));
+    }
+
+    // Earliest first, then longest, then closest
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end || a.distance - b.distance);
+
+    const matches: TermMatch[] = [];
+    let lastEnd = -1;
+    for (const candidate of candidates) {
+      if (candidate.start < lastEnd) {
+        continue;
+      }
+      const start = normalized.starts[candidate.start];
+      const end = normalized.ends[candidate.end - 1];
+      matches.push({
+        term: this.terms[candidate.id],
+        text: text.substring(start, end),
+        start,
+        end,
+        distance: candidate.distance
+      });
+      lastEnd = candidate.end;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Extend a match over a possessive or plural suffix
+   */
+  private extendVariant(text: string, end: number): number {
+    if (!this.matchVariants) {
+      return end;
+    }
+
+    for (const suffix of VARIANT_SUFFIXES) {
+      if (text.startsWith(suffix, end) && !WORD_CHAR.test(text.charAt(end + suffix.length))) {
+        return end + suffix.length;
+      }
+    }
+
+    return end;
+  }
+
+  /**
+   * Compare word windows against terms of similar length, for OCR errors
+   * Allowed distance scales with term length (one edit per four characters)
+   */
+  private fuzzyCandidates(
+    text: string,
+    exact: Array<{ start: number; end: number }>
+  ): Array<{ id: number; start: number; end: number; distance: number }> {
+    const words = Array.from(text.matchAll(/[\p{L}\p{N}'*]+/gu), m => ({ start: m.index!, end: m.index! + m[0].length }));
+
+    // Bucket terms by word count and length
+    const buckets = new Map<number, Map<number, number[]>>();
+    this.normalizedTerms.forEach((term, id) => {
+      if (term.length < MIN_FUZZY_LENGTH) {
+        return;
+      }
+      const wordCount = term.split(' ').length;
+      const byLength = buckets.get(wordCount) ?? new Map<number, number[]>();
+      byLength.set(term.length, [...(byLength.get(term.length) ?? []), id]);
+      buckets.set(wordCount, byLength);
+    });
+
+    const covered = (start: number, end: number) => exact.some(m => start < m.end && end > m.start);
+    const found: Array<{ id: number; start: number; end: number; distance: number }> = [];
+
+    for (const [wordCount, byLength] of buckets) {
+      for (let i = 0; i + wordCount <= words.length; i++) {
+        const start = words[i].start;
+        const end = words[i + wordCount - 1].end;
+        if (covered(start, end)) {
+          continue;
+        }
+
+        const window = text.substring(start, end);
+        for (let length = window.length - this.maxEditDistance; length <= window.length + this.maxEditDistance; length++) {
+          for (const id of byLength.get(length) ?? []) {
+            const term = this.normalizedTerms[id];
+            const allowed = Math.min(this.maxEditDistance, Math.floor(term.length / 4));
+            const distance = boundedEditDistance(term, window, allowed);
+            if (distance > 0 && distance <= allowed) {
+              found.push({ id, start, end, distance });
+            }
+          }
+        }
+      }
+    }
+
+    return found;
+  }
+}
+
+function isWordBoundary(text: string, start: number, end: number): boolean {
+  return !WORD_CHAR.test(text.charAt(start - 1)) && !WORD_CHAR.test(text.charAt(end));
+}
@@ -1,9 +1,12 @@
 /**
  * Custom Pattern Detection Module
  *
- * Exports custom pattern management functionality.
+ * Exports custom pattern, term list and allow-list management functionality.
  */
 
 export { CustomPatternRegistry, customPatternRegistry } from './registry';
 export { PatternValidator } from './validator';
-export type { CustomPattern, PatternValidationResult, PatternTestResult } from './types';
+export { AllowListRegistry, allowListRegistry, matchesAllowRule, DEFAULT_PROFILE } from './allowlist';
+export type { AllowListResult } from './allowlist';
+export { TermMatcher, normalizeForMatching, parseTermList } from './dictionary';
+export type { CustomPattern, PatternValidationResult, PatternTestResult, TermList, TermMatch, AllowListRule, AllowListRuleKind, SuppressedDetection } from './types';
@@ -4,15 +4,21 @@
  * Manages user-defined detection patterns with localStorage persistence.
  */
 
-import type { CustomPattern } from './types';
+import type { CustomPattern, TermList } from './types';
 import { PatternValidator } from './validator';
+import { TermMatcher } from './dictionary';
 
 export class CustomPatternRegistry {
   private patterns = new Map<string, CustomPattern>();
   private storageKey = 'aegis-custom-patterns';
+  private termLists = new Map<string, TermList>();
+  private termListStorageKey = 'aegis-term-lists';
+  private matchers = new Map<string, TermMatcher>();
+  private persist = true;
 
   constructor() {
     this.loadPatterns();
+    this.loadTermLists();
   }
 
   /**
@@ -113,11 +119,11 @@ export class CustomPatternRegistry {
   /**
    * Record pattern usage
    */
-  recordUsage(id: string): void {
+  recordUsage(id: string, count: number = 1): void {
     const pattern = this.patterns.get(id);
     if (pattern) {
       pattern.lastUsed = Date.now();
-      pattern.usageCount = (pattern.usageCount || 0) + 1;
+      pattern.usageCount = (pattern.usageCount || 0) + count;
       this.savePatterns();
     }
   }
@@ -191,6 +197,130 @@ export class CustomPatternRegistry {
     return this.getEnabledPatterns().length;
   }
 
+  /**
+   * Add a new term list
+   */
+  addTermList(list: Omit<TermList, 'id' | 'createdAt'>): string {
+    if (list.terms.length === 0) {
+      throw new Error('Term list is empty');
+    }
+
+    const id = crypto.randomUUID();
+    this.termLists.set(id, {
+      ...list,
+      id,
+      createdAt: Date.now(),
+      usageCount: 0
+    });
+    this.saveTermLists();
+    return id;
+  }
+
+  /**
+   * Update an existing term list
+   */
+  updateTermList(id: string, updates: Partial<Omit<TermList, 'id' | 'createdAt'>>): void {
+    const list = this.termLists.get(id);
+    if (!list) {
+      throw new Error('Term list not found');
+    }
+
+    Object.assign(list, updates);
+    this.matchers.delete(id);
+    this.saveTermLists();
+  }
+
+  /**
+   * Delete a term list
+   */
+  deleteTermList(id: string): void {
+    if (!this.termLists.has(id)) {
+      throw new Error('Term list not found');
+    }
+
+    this.termLists.delete(id);
+    this.matchers.delete(id);
+    this.saveTermLists();
+  }
+
+  /**
+   * Get a term list by ID
+   */
+  getTermList(id: string): TermList | undefined {
+    return this.termLists.get(id);
+  }
+
+  /**
+   * Get all term lists
+   */
+  getAllTermLists(): TermList[] {
+    return Array.from(this.termLists.values());
+  }
+
+  /**
+   * Get enabled term lists only
+   */
+  getEnabledTermLists(): TermList[] {
+    return this.getAllTermLists().filter(l => l.enabled);
+  }
+
+  /**
+   * Toggle term list enabled state
+   */
+  toggleTermList(id: string): void {
+    const list = this.termLists.get(id);
+    if (list) {
+      list.enabled = !list.enabled;
+      this.saveTermLists();
+    }
+  }
+
+  /**
+   * Get the compiled matcher for a term list
+   * Matchers are built on first use and cached until the list changes
+   */
+  getTermMatcher(id: string): TermMatcher | undefined {
+    const list = this.termLists.get(id);
+    if (!list) {
+      return undefined;
+    }
+
+    let matcher = this.matchers.get(id);
+    if (!matcher) {
+      matcher = new TermMatcher(list.terms, {
+        caseSensitive: list.caseSensitive,
+        maxEditDistance: list.maxEditDistance,
+        matchVariants: list.matchVariants
+      });
+      this.matchers.set(id, matcher);
+    }
+    return matcher;
+  }
+
+  /**
+   * Record term list usage
+   */
+  recordTermListUsage(id: string, count: number = 1): void {
+    const list = this.termLists.get(id);
+    if (list) {
+      list.lastUsed = Date.now();
+      list.usageCount = (list.usageCount || 0) + count;
+      this.saveTermLists();
+    }
+  }
+
+  /**
+   * Replace all patterns and term lists with a copy from the main thread
+   * Used by detection workers, which have no localStorage; the copy is
+   * never saved
+   */
+  restore(patterns: CustomPattern[], termLists: TermList[]): void {
+    this.persist = false;
+    this.patterns = new Map(patterns.map(p => [p.id, { ...p }]));
+    this.termLists = new Map(termLists.map(l => [l.id, { ...l }]));
+    this.matchers.clear();
+  }
+
   /**
    * Load patterns from localStorage
    */
@@ -216,6 +346,8 @@ export class CustomPatternRegistry {
    * Save patterns to localStorage
    */
   private savePatterns(): void {
+    if (!this.persist) return;
+
     try {
       const patterns = this.getAllPatterns();
       localStorage.setItem(this.storageKey, JSON.stringify(patterns));
@@ -223,6 +355,39 @@ export class CustomPatternRegistry {
       console.error('Failed to save custom patterns:', error);
     }
   }
+
+  /**
+   * Load term lists from localStorage
+   */
+  private loadTermLists(): void {
+    try {
+      const stored = localStorage.getItem(this.termListStorageKey);
+      if (stored) {
+        const lists = JSON.parse(stored) as TermList[];
+        lists.forEach(l => {
+          if (Array.isArray(l.terms)) {
+            this.termLists.set(l.id, l);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load term lists:', error);
+    }
+  }
+
+  /**
+   * Save term lists to localStorage
+   */
+  private saveTermLists(): void {
+    if (!this.persist) return;
+
+    try {
+      const lists = this.getAllTermLists();
+      localStorage.setItem(this.termListStorageKey, JSON.stringify(lists));
+    } catch (error) {
+      console.error('Failed to save term lists:', error);
+    }
+  }
 }
 
 // Export singleton instance
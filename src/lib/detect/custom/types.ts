@@ -26,3 +26,66 @@ export interface PatternTestResult {
   matches: string[];
   count: number;
 }
+
+export interface TermList {
+  id: string;
+  name: string;
+  terms: string[];
+  type: string; // 'name', 'project', 'custom', etc.
+  caseSensitive: boolean;
+  /** Maximum edit distance for OCR-tolerant matching (0 disables fuzzy matching) */
+  maxEditDistance: number;
+  /** Also match possessive and plural forms ("Falcon's", "Falcons") */
+  matchVariants: boolean;
+  enabled: boolean;
+  description?: string;
+  createdAt: number;
+  lastUsed?: number;
+  usageCount?: number;
+}
+
+export interface TermMatch {
+  /** The list term that matched */
+  term: string;
+  /** The matched text as it appears in the source */
+  text: string;
+  start: number;
+  end: number;
+  /** Edit distance between the term and the match (0 for exact matches) */
+  distance: number;
+}
+
+/**
+ * How an allow-list rule is compared against a detection
+ * - exact: the detection text equals the value (case and separators ignored)
+ * - regex: the whole detection text matches the value
+ * - domain: an email, URL or hostname on the value's domain or a subdomain
+ * - context: detections of `detectionType` next to one of the `context` words
+ */
+export type AllowListRuleKind = 'exact' | 'regex' | 'domain' | 'context';
+
+export interface AllowListRule {
+  id: string;
+  kind: AllowListRuleKind;
+  value: string;
+  /** Only suppress detections of this type (required for context rules) */
+  detectionType?: string;
+  /** Words that mark a detection as safe when they appear nearby (context rules) */
+  context?: string[];
+  /** Profiles the rule applies to; empty or missing applies to every profile */
+  profiles?: string[];
+  /** Why the match is safe, shown next to the suppression count */
+  reason?: string;
+  enabled: boolean;
+  createdAt: number;
+  suppressedCount?: number;
+}
+
+export interface SuppressedDetection {
+  /** The detection that was dropped */
+  text: string;
+  type: string;
+  /** The rule that suppressed it */
+  ruleId: string;
+  reason: string;
+}
@@ -179,7 +179,7 @@ export function smartMerge(
       // Check for overlap
       if (isOverlapping(mlResult, existing)) {
         // If ML detection is inside a regex detection, skip it
-        if (existing.source === 'regex') {
+        if (existing.source !== 'ml') {
           shouldAdd = false;
           break;
         }
@@ -11,8 +11,8 @@ export interface DetectionResult {
   type: string;
   /** Confidence score 0-1 (1 for regex, variable for ML) */
   confidence: number;
-  /** Source of detection */
-  source: 'regex' | 'ml';
+  /** Source of detection (dictionary matches are treated like regex) */
+  source: 'regex' | 'ml' | 'dictionary';
   /** Character positions (for ML detections) */
   positions?: { start: number; end: number };
 }
@@ -74,7 +74,7 @@ export function mergeDetections(
       const combined = combineConfidences(existing.confidence, result.confidence);
 
       // Keep the detection with more information (prefer regex for type accuracy)
-      const better = existing.source === 'regex' ? existing : result;
+      const better = existing.source !== 'ml' ? existing : result;
 
       merged[replacementIndex] = {
         ...better,
@@ -163,7 +163,8 @@ function mapMLEntityType(entityType: string): string {
     case 'MISC':
       return 'misc';
     default:
-      return 'unknown';
+      // PII models map their labels straight to detection types (see models.ts)
+      return entityType;
   }
 }
 
@@ -2,10 +2,18 @@ import { pipeline, env, type Pipeline } from '@xenova/transformers';
 import { filterAndEnhanceEntities } from './validation';
 import { detectionCache } from './cache';
 import { detectWithContext } from './context';
+import {
+  getSelectedModel,
+  getModelInfo,
+  setSelectedModel,
+  getLocalModelPath,
+  mapModelLabel,
+  type MLModelInfo
+} from './models';
 
 /**
  * ML-based PII detection using Named Entity Recognition (NER)
- * Uses Xenova/bert-base-NER model running locally in browser
+ * Runs the selected token-classification model (see models.ts) locally in browser
  */
 
 // Configure transformer.js environment
@@ -18,7 +26,7 @@ env.allowRemoteModels = true;
 export interface MLEntity {
   /** Entity text */
   text: string;
-  /** Entity type (PER, ORG, LOC, MISC) */
+  /** Entity type (PER, ORG, LOC, MISC, or a detection type from the model's label map) */
   entity: string;
   /** Confidence score 0-1 */
   score: number;
@@ -56,11 +64,44 @@ const CALIBRATED_THRESHOLDS: Record<string, number> = {
 export class MLDetector {
   private ner: Pipeline | null = null;
   private loading: boolean = false;
-  // Using Xenova/bert-base-NER: ONNX-converted dslim/bert-base-NER model for web compatibility
-  // This model has been fine-tuned on CoNLL-2003 and performs well on names, locations, and organizations
-  private modelName: string = 'Xenova/bert-base-NER';
+  private model: MLModelInfo = getSelectedModel();
   private loadPromise: Promise<void> | null = null;
 
+  private get modelName(): string {
+    return this.model.id;
+  }
+
+  /**
+   * Get the model used for detection
+   */
+  getModel(): MLModelInfo {
+    return this.model;
+  }
+
+  /**
+   * Switch to another registered model
+   * Unloads the current model; call loadModel() to load the new one
+   * @param id - Model ID from the registry
+   */
+  async setModel(id: string): Promise<void> {
+    if (id === this.model.id) {
+      return;
+    }
+
+    const model = getModelInfo(id);
+    if (!model) {
+      throw new Error(`Unknown ML model: ${id}`);
+    }
+    if (this.loading) {
+      throw new Error('Cannot switch models while a model is loading');
+    }
+
+    await this.unload();
+    this.model = model;
+    setSelectedModel(id);
+    console.log(`[MLDetector] Selected model: ${id}`);
+  }
+
   /**
    * Check if model is loaded and ready
    */
@@ -97,6 +138,15 @@ export class MLDetector {
       try {
         const startTime = performance.now();
 
+        // Load from the local model directory when one is configured (offline use)
+        const localPath = getLocalModelPath();
+        env.allowLocalModels = localPath !== null;
+        env.allowRemoteModels = localPath === null;
+        if (localPath) {
+          env.localModelPath = localPath;
+          console.log(`[MLDetector] Loading from local directory: ${localPath}`);
+        }
+
         // Load token classification pipeline
         this.ner = await pipeline('token-classification', this.modelName, {
           progress_callback: (progress: any) => {
@@ -341,28 +391,35 @@ export class MLDetector {
   /**
    * Group consecutive tokens into complete entities
    * Handles BIO tagging (B-PER, I-PER, etc.)
+   * Maps model labels through the model's label map
    * Uses calibrated thresholds per entity type
    */
   private groupEntities(output: any[], minConfidence: number): MLEntity[] {
     const grouped: MLEntity[] = [];
     let current: MLEntity | null = null;
+    let currentLabel = '';
 
     for (const item of output) {
-      const entityType = item.entity.replace(/^[BI]-/, ''); // Remove B- or I- prefix
+      const entityType = mapModelLabel(this.model, item.entity);
+      const label = item.entity.replace(/^[BIES]-/, '');
 
       // Use calibrated threshold for this entity type, fallback to global minConfidence
-      const threshold = CALIBRATED_THRESHOLDS[entityType] || minConfidence;
+      const threshold = (entityType && CALIBRATED_THRESHOLDS[entityType]) || minConfidence;
 
-      // Skip low confidence predictions
-      if (item.score < threshold) {
+      // Skip unmapped labels and low confidence predictions
+      if (!entityType || item.score < threshold) {
         if (current) {
           grouped.push(current);
           current = null;
         }
+        currentLabel = '';
         continue;
       }
 
-      const isBegin = item.entity.startsWith('B-');
+      // A new B- tag of a different label mapped to the same type continues
+      // the entity (B-GIVENNAME then B-SURNAME is one name)
+      const isBegin = item.entity.startsWith('B-') && label === currentLabel;
+      currentLabel = label;
 
       if (!current || isBegin || current.entity !== entityType) {
         // Start new entity
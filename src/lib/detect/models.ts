@@ -0,0 +1,193 @@
+/**
+ * ML Model Registry
+ *
+ * Token-classification models the ML detector can run, with the label
+ * mapping from each model's tags into our entity types. The selected
+ * model and an optional local model directory are stored in localStorage.
+ */
+
+/**
+ * A supported token-classification model
+ */
+export interface MLModelInfo {
+  /** Hugging Face model ID, also the folder name under a local model directory */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Short description shown in the model picker */
+  description: string;
+  /** Approximate download size in MB (quantized ONNX weights) */
+  sizeMB: number;
+  /** Languages the model was trained on */
+  languages: string[];
+  /**
+   * Model label (without B-/I- prefix) → entity type
+   * NER classes map to PER, ORG, LOC or MISC so validation applies;
+   * other PII classes map straight to a detection type such as 'email'.
+   * Labels not listed are ignored.
+   */
+  labelMap: Record<string, string>;
+  /**
+   * Whether an ONNX build is published on the Hub
+   * Models without one must be converted and served from a local directory
+   */
+  hosted: boolean;
+}
+
+/**
+ * Standard CoNLL-style NER labels
+ */
+const NER_LABELS: Record<string, string> = {
+  PER: 'PER',
+  ORG: 'ORG',
+  LOC: 'LOC',
+  MISC: 'MISC'
+};
+
+export const ML_MODELS: MLModelInfo[] = [
+  {
+    // ONNX-converted dslim/bert-base-NER, fine-tuned on CoNLL-2003
+    id: 'Xenova/bert-base-NER',
+    name: 'BERT NER (English)',
+    description: 'Names, organizations and locations in English text',
+    sizeMB: 110,
+    languages: ['English'],
+    labelMap: NER_LABELS,
+    hosted: true
+  },
+  {
+    // ONNX-converted Davlan/bert-base-multilingual-cased-ner-hrl
+    id: 'Xenova/bert-base-multilingual-cased-ner-hrl',
+    name: 'Multilingual BERT NER',
+    description: 'Names, organizations and locations in ten high-resource languages',
+    sizeMB: 180,
+    languages: ['Arabic', 'Chinese', 'Dutch', 'English', 'French', 'German', 'Italian', 'Latvian', 'Portuguese', 'Spanish'],
+    labelMap: {
+      PER: 'PER',
+      ORG: 'ORG',
+      LOC: 'LOC'
+    },
+    hosted: true
+  },
+  {
+    // mDeBERTa fine-tuned for personal information; needs a local ONNX export
+    id: 'iiiorg/piiranha-v1-detect-personal-information',
+    name: 'Piiranha PII',
+    description: 'Personal information such as names, emails, phone, ID and account numbers',
+    sizeMB: 280,
+    languages: ['Dutch', 'English', 'French', 'German', 'Italian', 'Spanish'],
+    labelMap: {
+      GIVENNAME: 'PER',
+      SURNAME: 'PER',
+      CITY: 'LOC',
+      STREET: 'address',
+      BUILDINGNUM: 'address',
+      ZIPCODE: 'address',
+      EMAIL: 'email',
+      TELEPHONENUM: 'phone',
+      SOCIALNUM: 'ssn',
+      CREDITCARDNUMBER: 'card',
+      ACCOUNTNUM: 'account',
+      DATEOFBIRTH: 'date',
+      DRIVERLICENSENUM: 'drivers-license',
+      IDCARDNUM: 'id-card',
+      TAXNUM: 'tax-id',
+      USERNAME: 'username',
+      PASSWORD: 'password'
+    },
+    hosted: false
+  }
+];
+
+export const DEFAULT_MODEL_ID = 'Xenova/bert-base-NER';
+
+const MODEL_KEY = 'ml-model-id';
+const LOCAL_PATH_KEY = 'ml-local-model-path';
+
+/**
+ * Settings for threads without localStorage (detection workers), where
+ * the main thread sends them instead
+ */
+const workerSettings = new Map<string, string>();
+
+function readSetting(key: string): string | null {
+  if (typeof localStorage === 'undefined') {
+    return workerSettings.get(key) ?? null;
+  }
+  try {
+    return localStorage.getItem(key);
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+function writeSetting(key: string, value: string | null): void {
+  if (typeof localStorage === 'undefined') {
+    if (value === null) {
+      workerSettings.delete(key);
+    } else {
+      workerSettings.set(key, value);
+    }
+    return;
+  }
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+}
+
+/**
+ * Look up a model by ID
+ */
+export function getModelInfo(id: string): MLModelInfo | undefined {
+  return ML_MODELS.find(model => model.id === id);
+}
+
+/**
+ * Get the model the user selected (or the default)
+ */
+export function getSelectedModel(): MLModelInfo {
+  const stored = readSetting(MODEL_KEY);
+  return (stored && getModelInfo(stored)) || getModelInfo(DEFAULT_MODEL_ID)!;
+}
+
+/**
+ * Remember the selected model
+ */
+export function setSelectedModel(id: string): void {
+  if (!getModelInfo(id)) {
+    throw new Error(`Unknown ML model: ${id}`);
+  }
+  writeSetting(MODEL_KEY, id);
+}
+
+/**
+ * Get the local model directory, or null to download from the Hub
+ */
+export function getLocalModelPath(): string | null {
+  return readSetting(LOCAL_PATH_KEY) || null;
+}
+
+/**
+ * Set the directory models are loaded from (URL path served alongside the app)
+ * Pass null to download from the Hub again
+ */
+export function setLocalModelPath(path: string | null): void {
+  const trimmed = path?.trim();
+  writeSetting(LOCAL_PATH_KEY, trimmed ? (trimmed.endsWith('/') ? trimmed : `${trimmed}/`) : null);
+}
+
+/**
+ * Map a raw model tag ("B-PER", "I-GIVENNAME", "O") to an entity type
+ * @returns Entity type, or null for outside tokens and unmapped labels
+ */
+export function mapModelLabel(model: MLModelInfo, tag: string): string | null {
+  const label = tag.replace(/^[BIES]-/, '');
+  return model.labelMap[label] ?? null;
+}
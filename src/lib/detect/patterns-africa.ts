@@ -0,0 +1,146 @@
+/**
+ * African PII Pattern Detection
+ * Covers South African ID, Nigerian NIN and BVN, and Kenyan national ID
+ */
+
+import { luhnCheck } from './luhn';
+
+/**
+ * South African ID number
+ * 13 digits with Luhn check digit
+ * Format: YYMMDD SSSS C A Z
+ * - YYMMDD: Date of birth
+ * - SSSS: Gender sequence (0000-4999 female, 5000-9999 male)
+ * - C: Citizenship (0 citizen, 1 permanent resident, 2 refugee)
+ * - A: Formerly race, now usually 8 or 9
+ * - Z: Luhn check digit
+ */
+export const ID_ZA = /\b\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\s?\d{4}\s?[012]\d{2}\b/g;
+
+/**
+ * Nigerian National Identification Number (with context)
+ * 11 digits with no public checksum, so a label must precede it
+ */
+export const NIN_NG = /\bNIN\b[\s#:.]*(?:no\.?|number)?[\s#:]*(\d{11})\b/gi;
+
+/**
+ * Nigerian Bank Verification Number (with context)
+ * 11 digits, issued starting with 22
+ */
+export const BVN_NG = /\bBVN\b[\s#:.]*(?:no\.?|number)?[\s#:]*(22\d{9})\b/gi;
+
+/**
+ * Kenyan national ID number (with context)
+ * 7-8 digits; too generic to match on shape alone
+ * Example: National ID No: 12345678, Huduma Namba 12345678
+ */
+export const NATIONAL_ID_KE = /\b(?:national\s+id(?:\s*card)?|huduma(?:\s+namba)?|kenyan\s+id)(?:\s*(?:no\.?|number|#))?[\s#:.]*(\d{7,8})\b/gi;
+
+/**
+ * Validate South African ID number
+ * @param id - 13-digit ID (spaces allowed)
+ * @returns true if valid
+ */
+export function validateSouthAfricanID(id: string): boolean {
+  const digits = id.replace(/\s/g, '');
+
+  if (!/^\d{13}$/.test(digits)) {
+    return false;
+  }
+
+  // Validate date of birth (century is not encoded, so check both)
+  const yy = parseInt(digits.substring(0, 2));
+  const month = parseInt(digits.substring(2, 4));
+  const day = parseInt(digits.substring(4, 6));
+  const validDate = [1900, 2000].some(century => {
+    const date = new Date(century + yy, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day;
+  });
+  if (!validDate) {
+    return false;
+  }
+
+  // Citizenship digit
+  if (!/[012]/.test(digits[10])) {
+    return false;
+  }
+
+  return luhnCheck(digits);
+}
+
+/**
+ * Validate Nigerian NIN
+ * @param nin - 11-digit NIN
+ * @returns true if the format is valid
+ */
+export function validateNIN(nin: string): boolean {
+  // No public checksum; reject placeholder values
+  return /^\d{11}$/.test(nin) && !/^(\d)\1{10}$/.test(nin);
+}
+
+/**
+ * Validate Nigerian BVN
+ * @param bvn - 11-digit BVN
+ * @returns true if the format is valid
+ */
+export function validateBVN(bvn: string): boolean {
+  return /^22\d{9}$/.test(bvn);
+}
+
+/**
+ * Validate Kenyan national ID number
+ * @param id - 7-8 digit ID
+ * @returns true if the format is valid
+ */
+export function validateKenyanID(id: string): boolean {
+  return /^\d{7,8}$/.test(id) && !/^0+$/.test(id);
+}
+
+/**
+ * Find South African ID numbers in text
+ */
+export function findSouthAfricanIDs(text: string): string[] {
+  const matches = Array.from(text.matchAll(ID_ZA), m => m[0]);
+  return matches.filter(validateSouthAfricanID);
+}
+
+/**
+ * Find Nigerian NINs with context labels
+ */
+export function findNINs(text: string): string[] {
+  const matches = Array.from(text.matchAll(NIN_NG), m => m[1]);
+  return matches.filter(validateNIN);
+}
+
+/**
+ * Find Nigerian BVNs with context labels
+ */
+export function findBVNs(text: string): string[] {
+  const matches = Array.from(text.matchAll(BVN_NG), m => m[1]);
+  return matches.filter(validateBVN);
+}
+
+/**
+ * Find Kenyan national IDs with context labels
+ */
+export function findKenyanIDs(text: string): string[] {
+  const matches = Array.from(text.matchAll(NATIONAL_ID_KE), m => m[1]);
+  return matches.filter(validateKenyanID);
+}
+
+/**
+ * Find all African national IDs
+ */
+export function findAllAfrican(text: string): {
+  southAfricanIDs: string[];
+  nigerianNINs: string[];
+  nigerianBVNs: string[];
+  kenyanIDs: string[];
+} {
+  return {
+    southAfricanIDs: findSouthAfricanIDs(text),
+    nigerianNINs: findNINs(text),
+    nigerianBVNs: findBVNs(text),
+    kenyanIDs: findKenyanIDs(text)
+  };
+}
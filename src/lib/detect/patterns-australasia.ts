@@ -0,0 +1,190 @@
+/**
+ * Australian and New Zealand PII Pattern Detection
+ * Covers TFN, ABN and Medicare (Australia) and IRD (New Zealand)
+ */
+
+/**
+ * Australian Tax File Number (TFN)
+ * 8 or 9 digits with weighted modulo 11 checksum
+ * Format: XXX XXX XXX or XXXXXXXXX
+ */
+export const TFN_AU = /\b\d{3}\s?\d{3}\s?\d{2,3}\b/g;
+
+/**
+ * Australian Business Number (ABN)
+ * 11 digits with weighted modulo 89 checksum
+ * Format: XX XXX XXX XXX or XXXXXXXXXXX
+ */
+export const ABN_AU = /\b\d{2}\s?\d{3}\s?\d{3}\s?\d{3}\b/g;
+
+/**
+ * Australian Medicare card number
+ * 10 digits (card number + check digit + issue number), optionally
+ * followed by the 1-digit individual reference number
+ * Format: XXXX XXXXX X or XXXXXXXXXX
+ * - First digit: 2-6
+ */
+export const MEDICARE_AU = /\b[2-6]\d{3}\s?\d{5}\s?\d(?:[\s-]?\d)?\b/g;
+
+/**
+ * New Zealand IRD number
+ * 8 or 9 digits with weighted modulo 11 checksum
+ * Format: XX-XXX-XXX, XXX-XXX-XXX or without hyphens
+ */
+export const IRD_NZ = /\b\d{2,3}-?\d{3}-?\d{3}\b/g;
+
+/**
+ * Validate Australian TFN
+ * @param tfn - TFN to validate (spaces allowed)
+ * @returns true if valid
+ */
+export function validateTFN(tfn: string): boolean {
+  const digits = tfn.replace(/\s/g, '');
+
+  if (!/^\d{8,9}$/.test(digits)) {
+    return false;
+  }
+
+  const weights = digits.length === 9
+    ? [1, 4, 3, 7, 5, 8, 6, 9, 10]
+    : [10, 7, 8, 4, 6, 3, 5, 1];
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    sum += parseInt(digits[i]) * weights[i];
+  }
+
+  return sum % 11 === 0;
+}
+
+/**
+ * Validate Australian ABN
+ * @param abn - ABN to validate (spaces allowed)
+ * @returns true if valid
+ */
+export function validateABN(abn: string): boolean {
+  const digits = abn.replace(/\s/g, '');
+
+  if (!/^\d{11}$/.test(digits) || digits[0] === '0') {
+    return false;
+  }
+
+  const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+  // Subtract 1 from the first digit before weighting
+  let sum = (parseInt(digits[0]) - 1) * weights[0];
+  for (let i = 1; i < 11; i++) {
+    sum += parseInt(digits[i]) * weights[i];
+  }
+
+  return sum % 89 === 0;
+}
+
+/**
+ * Validate Australian Medicare number
+ * @param medicare - Medicare number to validate (separators allowed)
+ * @returns true if valid
+ */
+export function validateMedicareAU(medicare: string): boolean {
+  const digits = medicare.replace(/[\s-]/g, '');
+
+  if (!/^[2-6]\d{9,10}$/.test(digits)) {
+    return false;
+  }
+
+  const weights = [1, 3, 7, 9, 1, 3, 7, 9];
+
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    sum += parseInt(digits[i]) * weights[i];
+  }
+
+  return sum % 10 === parseInt(digits[8]);
+}
+
+/**
+ * Validate New Zealand IRD number
+ * @param ird - IRD number to validate (hyphens allowed)
+ * @returns true if valid
+ */
+export function validateIRD(ird: string): boolean {
+  const digits = ird.replace(/-/g, '').padStart(9, '0');
+
+  if (!/^\d{9}$/.test(digits)) {
+    return false;
+  }
+
+  // Issued range is 10-000-000 to 150-000-000
+  const value = parseInt(digits);
+  if (value < 10000000 || value > 150000000) {
+    return false;
+  }
+
+  const base = digits.substring(0, 8);
+  const check = parseInt(digits[8]);
+
+  // If the primary weights give a check digit of 10, retry with the secondary weights
+  for (const weights of [[3, 2, 7, 6, 5, 4, 3, 2], [7, 4, 3, 2, 5, 2, 7, 6]]) {
+    let sum = 0;
+    for (let i = 0; i < 8; i++) {
+      sum += parseInt(base[i]) * weights[i];
+    }
+
+    const remainder = sum % 11;
+    const expected = remainder === 0 ? 0 : 11 - remainder;
+    if (expected !== 10) {
+      return expected === check;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find Australian TFNs in text
+ */
+export function findTFNs(text: string): string[] {
+  const matches = Array.from(text.matchAll(TFN_AU), m => m[0]);
+  return matches.filter(validateTFN);
+}
+
+/**
+ * Find Australian ABNs in text
+ */
+export function findABNs(text: string): string[] {
+  const matches = Array.from(text.matchAll(ABN_AU), m => m[0]);
+  return matches.filter(validateABN);
+}
+
+/**
+ * Find Australian Medicare numbers in text
+ */
+export function findMedicareNumbersAU(text: string): string[] {
+  const matches = Array.from(text.matchAll(MEDICARE_AU), m => m[0]);
+  return matches.filter(validateMedicareAU);
+}
+
+/**
+ * Find New Zealand IRD numbers in text
+ */
+export function findIRDs(text: string): string[] {
+  const matches = Array.from(text.matchAll(IRD_NZ), m => m[0]);
+  return matches.filter(validateIRD);
+}
+
+/**
+ * Find all Australian and New Zealand PII
+ */
+export function findAllAustralasian(text: string): {
+  tfn: string[];
+  abn: string[];
+  medicare: string[];
+  ird: string[];
+} {
+  return {
+    tfn: findTFNs(text),
+    abn: findABNs(text),
+    medicare: findMedicareNumbersAU(text),
+    ird: findIRDs(text)
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Canadian PII Pattern Detection
+ * Covers the Social Insurance Number (SIN)
+ */
+
+import { luhnCheck } from './luhn';
+
+/**
+ * Canadian Social Insurance Number
+ * 9 digits with Luhn check digit
+ * Format: XXX-XXX-XXX, XXX XXX XXX or XXXXXXXXX
+ * - First digit: province of registration (0 and 8 are not issued)
+ * - 9: temporary residents
+ */
+export const SIN_CA = /\b\d{3}([-\s]?)\d{3}\1\d{3}\b/g;
+
+/**
+ * Validate Canadian SIN
+ * @param sin - SIN to validate (separators allowed)
+ * @returns true if valid
+ */
+export function validateSIN(sin: string): boolean {
+  const digits = sin.replace(/[-\s]/g, '');
+
+  if (!/^\d{9}$/.test(digits)) {
+    return false;
+  }
+
+  // 0 and 8 are not assigned to any region
+  if (digits[0] === '0' || digits[0] === '8') {
+    return false;
+  }
+
+  return luhnCheck(digits);
+}
+
+/**
+ * Find Canadian SINs in text
+ */
+export function findSINs(text: string): string[] {
+  const matches = Array.from(text.matchAll(SIN_CA), m => m[0]);
+  return matches.filter(validateSIN);
+}
+
+/**
+ * Find all Canadian PII
+ */
+export function findAllCanadian(text: string): {
+  sin: string[];
+} {
+  return {
+    sin: findSINs(text)
+  };
+}
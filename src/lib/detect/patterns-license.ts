@@ -0,0 +1,324 @@
+/**
+ * US Driver's License and State ID Detection Patterns
+ * Per-state number formats gated on nearby labels, plus parsing of the
+ * AAMVA PDF417 barcode text printed on the back of US licenses
+ */
+
+/**
+ * Driver's license / state ID number formats by state (including DC)
+ * Numbers are compared without spaces or hyphens. Based on the formats
+ * published by each state's DMV; several states issue more than one.
+ */
+export const STATE_LICENSE_FORMATS: Record<string, RegExp> = {
+  AL: /^\d{1,8}$/,
+  AK: /^\d{1,7}$/,
+  AZ: /^(?:[A-Z]\d{8}|[A-Z]{2}\d{2,5}|\d{9})$/,
+  AR: /^\d{4,9}$/,
+  CA: /^[A-Z]\d{7}$/,
+  CO: /^(?:\d{9}|[A-Z]\d{3,6}|[A-Z]{2}\d{2,5})$/,
+  CT: /^\d{9}$/,
+  DE: /^\d{1,7}$/,
+  DC: /^(?:\d{7}|\d{9})$/,
+  FL: /^[A-Z]\d{12}$/,
+  GA: /^\d{7,9}$/,
+  HI: /^(?:[A-Z]\d{8}|\d{9})$/,
+  ID: /^(?:[A-Z]{2}\d{6}[A-Z]|\d{9})$/,
+  IL: /^[A-Z]\d{11,12}$/,
+  IN: /^(?:[A-Z]\d{9}|\d{9,10})$/,
+  IA: /^(?:\d{9}|\d{3}[A-Z]{2}\d{4})$/,
+  KS: /^(?:[A-Z]\d[A-Z]\d[A-Z]|[A-Z]\d{8}|\d{9})$/,
+  KY: /^(?:[A-Z]\d{8,9}|\d{9})$/,
+  LA: /^\d{1,9}$/,
+  ME: /^(?:\d{7,8}|\d{7}[A-Z])$/,
+  MD: /^[A-Z]\d{12}$/,
+  MA: /^(?:[A-Z]\d{8}|\d{9})$/,
+  MI: /^(?:[A-Z]\d{10}|[A-Z]\d{12})$/,
+  MN: /^[A-Z]\d{12}$/,
+  MS: /^\d{9}$/,
+  MO: /^(?:[A-Z]\d{5,9}|[A-Z]\d{6}R|\d{8}[A-Z]{2}|\d{9}[A-Z]?)$/,
+  MT: /^(?:[A-Z]\d{8}|\d{9}|\d{13,14})$/,
+  NE: /^[A-Z]\d{6,8}$/,
+  NV: /^(?:\d{9,10}|\d{12}|X\d{8})$/,
+  NH: /^\d{2}[A-Z]{3}\d{5}$/,
+  NJ: /^[A-Z]\d{14}$/,
+  NM: /^\d{8,9}$/,
+  NY: /^(?:[A-Z]\d{7}|[A-Z]\d{18}|\d{8,9}|\d{16})$/,
+  NC: /^\d{1,12}$/,
+  ND: /^(?:[A-Z]{3}\d{6}|\d{9})$/,
+  OH: /^(?:[A-Z]\d{4,8}|[A-Z]{2}\d{3,7}|\d{8})$/,
+  OK: /^(?:[A-Z]\d{9}|\d{9})$/,
+  OR: /^(?:\d{1,9}|[A-Z]\d{6}|[A-Z]{2}\d{5})$/,
+  PA: /^\d{8}$/,
+  RI: /^(?:\d{7}|[A-Z]\d{6})$/,
+  SC: /^\d{5,11}$/,
+  SD: /^(?:\d{6,10}|\d{12})$/,
+  TN: /^\d{7,9}$/,
+  TX: /^\d{7,8}$/,
+  UT: /^\d{4,10}$/,
+  VT: /^(?:\d{8}|\d{7}A)$/,
+  VA: /^(?:[A-Z]\d{8,11}|\d{9})$/,
+  WA: /^(?:[A-Z*]{7}\d{3}[A-Z0-9]{2}|WDL[A-Z0-9]{9})$/,
+  WV: /^(?:\d{7}|[A-Z]{1,2}\d{5,6})$/,
+  WI: /^[A-Z]\d{13}$/,
+  WY: /^\d{9,10}$/
+};
+
+/**
+ * Full state names, used to pick the format when a label names the state
+ */
+const STATE_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+  colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC',
+  florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL',
+  indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+  maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK',
+  oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+};
+
+/**
+ * Labels that introduce a license or state ID number
+ * Examples: DL, DLN, DL #, Driver's License No., Lic #, State ID
+ */
+export const LICENSE_LABEL = /\b(?:DLN?|driver'?s?\s+lic(?:en[cs]e)?|operator'?s?\s+lic(?:en[cs]e)?|lic(?:en[cs]e)?|state\s+id(?:entification)?(?:\s+card)?|id\s+card)(?:\s*(?:no\.?|num(?:ber)?|#))?(?![\w'])/gi;
+
+/**
+ * Candidate license number token
+ * Letters, digits and `*` (Washington pads short names with it), optionally
+ * split by hyphens or by spaces between digits: D123-4567, 123 456 789
+ */
+export const LICENSE_CANDIDATE = /(?<![A-Z0-9*-])[A-Z0-9*](?:[A-Z0-9*]|-(?=[A-Z0-9])|\s(?<=\d\s)(?=\d)){3,24}(?![A-Z0-9*])/g;
+
+/**
+ * AAMVA barcode header: compliance indicator followed by "ANSI " and the
+ * 6-digit issuer identification number
+ */
+export const AAMVA_HEADER = /ANSI ?(\d{6})(\d{2})/;
+
+/**
+ * Number of characters after a label in which a license number may appear
+ */
+const LABEL_PROXIMITY = 40;
+
+/**
+ * Shortest number accepted without a state hint; shorter formats
+ * (AL, AK, DE, LA, NC, OR) would otherwise match any small number
+ */
+const MIN_UNLABELED_STATE_LENGTH = 5;
+
+/**
+ * AAMVA data elements that identify the cardholder
+ */
+export const AAMVA_PII_ELEMENTS: Record<string, string> = {
+  DAQ: 'licenseNumber',
+  DCS: 'familyName',
+  DAC: 'firstName',
+  DAD: 'middleName',
+  DCT: 'givenNames',
+  DAA: 'fullName',
+  DBB: 'dateOfBirth',
+  DAG: 'street',
+  DAH: 'street2',
+  DAI: 'city',
+  DAK: 'postalCode',
+  DCF: 'documentDiscriminator',
+  DCK: 'inventoryControlNumber'
+};
+
+/**
+ * Parsed AAMVA barcode
+ */
+export interface AAMVABarcodeData {
+  issuerId: string;
+  version: number;
+  /** Raw data elements keyed by their 3-letter element ID */
+  elements: Record<string, string>;
+}
+
+/**
+ * Validate a license number against one state or all states
+ * @param license - License number (spaces and hyphens ignored)
+ * @param state - Optional 2-letter state code to restrict the check
+ * @returns true if the number matches a format issued by the state(s)
+ */
+export function validateDriversLicense(license: string, state?: string): boolean {
+  const compact = license.toUpperCase().replace(/[\s-]/g, '');
+
+  // Every state format contains at least one digit
+  if (!/\d/.test(compact)) {
+    return false;
+  }
+
+  if (state) {
+    const format = STATE_LICENSE_FORMATS[state.toUpperCase()];
+    return format !== undefined && format.test(compact);
+  }
+
+  if (compact.length < MIN_UNLABELED_STATE_LENGTH) {
+    return false;
+  }
+
+  return Object.values(STATE_LICENSE_FORMATS).some(format => format.test(compact));
+}
+
+/**
+ * Check if a candidate number follows a license label
+ * Same proximity idea as hasNearbyPIILabel, but only looks backwards
+ * since license labels precede the number
+ *
+ * @param text - Full text
+ * @param start - Candidate start position
+ * @returns The matching label and any state it names, or null
+ */
+export function findNearbyLicenseLabel(text: string, start: number): { label: string; state?: string } | null {
+  const windowStart = Math.max(0, start - LABEL_PROXIMITY);
+  const before = text.substring(windowStart, start);
+
+  const labels = Array.from(before.matchAll(LICENSE_LABEL));
+  if (labels.length === 0) {
+    return null;
+  }
+
+  // Only separators may sit between the closest label and the number
+  const label = labels[labels.length - 1];
+  const gap = before.substring(label.index! + label[0].length);
+  if (!/^[\s#:.\-]*$/.test(gap)) {
+    return null;
+  }
+
+  return { label: label[0], state: findStateHint(text, windowStart + label.index!) };
+}
+
+/**
+ * Parse AAMVA PDF417 barcode text
+ * Decoders and OCR output separate elements with newlines (or the
+ * record separator); each element is a 3-letter ID followed by its value
+ *
+ * @param text - Decoded barcode text
+ * @returns Parsed data, or null if the text has no AAMVA header
+ */
+export function parseAAMVA(text: string): AAMVABarcodeData | null {
+  const header = text.match(AAMVA_HEADER);
+  if (!header) {
+    return null;
+  }
+
+  const elements: Record<string, string> = {};
+  // Skip the jurisdiction version, entry count and subfile directory
+  const body = text
+    .substring(header.index! + header[0].length)
+    .replace(/^\d{2,4}(?:[A-Z]{2}\d{8})*/, '');
+
+  for (const rawLine of body.split(/[\r\n\x1e]+/)) {
+    // The first element of each subfile is prefixed with its type (DL or ID)
+    const line = rawLine.trim().replace(/^(?:DL|ID)(?=D[A-Z]{2})/, '');
+    const element = line.match(/^(D[A-Z]{2})(.+)$/);
+    if (element && !(element[1] in elements)) {
+      elements[element[1]] = element[2].trim();
+    }
+  }
+
+  if (Object.keys(elements).length === 0) {
+    return null;
+  }
+
+  return {
+    issuerId: header[1],
+    version: Number(header[2]),
+    elements
+  };
+}
+
+/**
+ * Find labeled driver's license and state ID numbers in text
+ */
+export function findDriversLicenses(text: string): string[] {
+  const matches: string[] = [];
+
+  for (const match of text.matchAll(LICENSE_CANDIDATE)) {
+    const candidate = match[0];
+
+    // Hyphenated dates (01-07-1985) are expiry or birth dates, not numbers
+    if (/^\d{1,2}-\d{1,2}-\d{2,4}$/.test(candidate)) {
+      continue;
+    }
+
+    const label = findNearbyLicenseLabel(text, match.index!);
+    if (label && validateDriversLicense(candidate, label.state)) {
+      matches.push(candidate);
+    }
+  }
+
+  // Return unique matches
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Find cardholder values encoded in AAMVA barcode text
+ */
+export function findAAMVAValues(text: string): string[] {
+  const barcode = parseAAMVA(text);
+  if (!barcode) {
+    return [];
+  }
+
+  const values = Object.keys(AAMVA_PII_ELEMENTS)
+    .map(id => barcode.elements[id])
+    .filter((value): value is string => value !== undefined && value.length > 0 && value !== 'NONE');
+
+  // Return unique matches
+  return Array.from(new Set(values));
+}
+
+/**
+ * Find all driver's license data in text
+ * Combines labeled numbers and AAMVA barcode values
+ *
+ * @param text - Text to analyze
+ * @returns Object with arrays of detected values
+ */
+export function findAllLicenses(text: string): {
+  licenseNumbers: string[];
+  barcodeValues: string[];
+} {
+  return {
+    licenseNumbers: findDriversLicenses(text),
+    barcodeValues: findAAMVAValues(text)
+  };
+}
+
+/**
+ * Find the state a license label refers to
+ * Accepts a full state name in the preceding text ("California Driver License")
+ * or an uppercase code directly before the label ("TX DL#")
+ */
+function findStateHint(text: string, labelStart: number): string | undefined {
+  const before = text.substring(Math.max(0, labelStart - LABEL_PROXIMITY), labelStart);
+
+  const code = before.match(/\b([A-Z]{2})\s*$/);
+  if (code && code[1] in STATE_LICENSE_FORMATS) {
+    return code[1];
+  }
+
+  // The name ending closest to the label wins; on a tie the longer name
+  // ("West Virginia" rather than "Virginia")
+  const lower = before.toLowerCase();
+  let best: { state: string; start: number; end: number } | undefined;
+  for (const [name, state] of Object.entries(STATE_NAMES)) {
+    const start = lower.lastIndexOf(name);
+    if (start < 0 || /\w/.test(lower.charAt(start - 1))) {
+      continue;
+    }
+
+    const end = start + name.length;
+    if (!best || end > best.end || (end === best.end && start < best.start)) {
+      best = { state, start, end };
+    }
+  }
+
+  return best?.state;
+}
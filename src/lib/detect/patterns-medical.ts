@@ -0,0 +1,211 @@
+/**
+ * Healthcare Identifier Detection Patterns
+ * Detects provider, prescriber and beneficiary identifiers, medical record
+ * numbers and (optionally) diagnosis and procedure codes
+ */
+
+import { luhnCheck } from './luhn';
+
+/**
+ * National Provider Identifier (with context)
+ * 10 digits starting with 1 (individual) or 2 (organization); bare 10-digit
+ * numbers are indistinguishable from phone numbers, so a label must precede it
+ */
+export const NPI = /\bNPI\b(?:\s*(?:number|no\.?|#))?[\s#:]*([12]\d{9})\b/gi;
+
+/**
+ * DEA registration number
+ * Format: registrant type letter + last-name initial (or 9) + 7 digits
+ * Example: AB1234563
+ */
+export const DEA_NUMBER = /\b[ABCDEFGHJKLMPRSTUX][A-Z9]\d{7}\b/g;
+
+/**
+ * Medicare Beneficiary Identifier (MBI)
+ * 11 characters: C A AN N A AN N A A N N, where letters exclude S, L, O, I, B, Z
+ * Printed with or without dashes: 1EG4-TE5-MK73
+ */
+export const MEDICARE_MBI = /\b[1-9][AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\d-?[AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\d-?[AC-HJKMNP-RT-Y]{2}\d{2}\b/g;
+
+/**
+ * Health plan beneficiary / member number (with context)
+ * Examples: Member ID: XYZ123456789, Subscriber #: 88412-0031
+ */
+export const HEALTH_PLAN_ID = /\b(?:member|subscriber|beneficiary|insurance|policy|health\s*plan)\s*(?:id|number|no\.?|#)[\s#:.]*([A-Z0-9][A-Z0-9-]{5,19})\b/gi;
+
+/**
+ * Medical record number (with context)
+ * Examples: MRN: 00482913, Medical Record #: A-2291044, Chart No. 55120
+ */
+export const MEDICAL_RECORD_NUMBER = /\b(?:MRN|medical\s+record(?:\s*(?:number|no\.?|#))?|patient\s*(?:id|number|no\.?|#)|chart\s*(?:number|no\.?|#))[\s#:.]*([A-Z0-9][A-Z0-9-]{3,19})\b/gi;
+
+/**
+ * ICD-10-CM diagnosis code
+ * Letter (U is reserved) + 2 characters, then a dot and up to 4 characters
+ * Undotted 3-character codes need a label (see ICD10_LABELED)
+ * Examples: E11.9, J45.909, S72.001A
+ */
+export const ICD10 = /\b[A-TV-Z]\d[0-9A-Z]\.[0-9A-Z]{1,4}\b/g;
+
+/**
+ * ICD-10-CM code after a diagnosis label
+ * Example: Dx: I10, ICD-10 code E119
+ */
+export const ICD10_LABELED = /\b(?:ICD(?:-?10)?(?:-?CM)?(?:\s*code)?|Dx|diagnosis(?:\s*code)?)[\s#:]*([A-TV-Z]\d[0-9A-Z](?:\.?[0-9A-Z]{1,4})?)\b/gi;
+
+/**
+ * CPT procedure codes after a label
+ * Category I codes are 5 digits; Category II/III end in F or T
+ * Example: CPT: 99213, 93000
+ */
+export const CPT_LABELED = /\bCPT(?:\s*codes?)?[\s#:]*(\d{4}[0-9FT](?:\s*,\s*\d{4}[0-9FT])*)\b/gi;
+
+/**
+ * Validate NPI using the Luhn check digit
+ * NPIs are checked as if prefixed with the 80840 health industry issuer code
+ * @param npi - 10-digit NPI
+ * @returns true if the prefix and check digit are valid
+ */
+export function validateNPI(npi: string): boolean {
+  if (!/^[12]\d{9}$/.test(npi)) {
+    return false;
+  }
+
+  return luhnCheck('80840' + npi);
+}
+
+/**
+ * Validate DEA registration number checksum
+ * (d1 + d3 + d5) + 2 * (d2 + d4 + d6) must end in the 7th digit
+ * @param dea - DEA number to validate
+ * @returns true if the format and check digit are valid
+ */
+export function validateDEA(dea: string): boolean {
+  const upper = dea.toUpperCase();
+  if (!/^[ABCDEFGHJKLMPRSTUX][A-Z9]\d{7}$/.test(upper)) {
+    return false;
+  }
+
+  const d = upper.slice(2).split('').map(Number);
+  const sum = d[0] + d[2] + d[4] + 2 * (d[1] + d[3] + d[5]);
+
+  return sum % 10 === d[6];
+}
+
+/**
+ * Validate Medicare Beneficiary Identifier
+ * @param mbi - MBI with or without dashes
+ * @returns true if every position holds an allowed character
+ */
+export function validateMBI(mbi: string): boolean {
+  const upper = mbi.toUpperCase();
+  // Dashes are either both present (4-3-4) or absent
+  if (upper.includes('-') && !/^.{4}-.{3}-.{4}$/.test(upper)) {
+    return false;
+  }
+
+  const compact = upper.replace(/-/g, '');
+  return /^[1-9][AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\d[AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\d[AC-HJKMNP-RT-Y]{2}\d{2}$/.test(compact);
+}
+
+/**
+ * Validate a labeled record or member number
+ * @param id - Identifier captured after a label
+ * @returns true if it contains enough digits to identify a record
+ */
+export function validateRecordNumber(id: string): boolean {
+  // Words following a label ("Patient ID: pending") are not identifiers
+  const digits = id.replace(/\D/g, '');
+  return digits.length >= 4;
+}
+
+/**
+ * Find NPIs with context labels
+ */
+export function findNPIs(text: string): string[] {
+  const candidates = Array.from(text.matchAll(NPI), m => m[1]);
+  return candidates.filter(validateNPI);
+}
+
+/**
+ * Find DEA registration numbers in text
+ */
+export function findDEANumbers(text: string): string[] {
+  const candidates = Array.from(text.matchAll(DEA_NUMBER), m => m[0]);
+  return candidates.filter(validateDEA);
+}
+
+/**
+ * Find Medicare Beneficiary Identifiers in text
+ */
+export function findMBIs(text: string): string[] {
+  const candidates = Array.from(text.matchAll(MEDICARE_MBI), m => m[0]);
+  return candidates.filter(validateMBI);
+}
+
+/**
+ * Find health plan beneficiary numbers with context labels
+ */
+export function findHealthPlanIDs(text: string): string[] {
+  const candidates = Array.from(text.matchAll(HEALTH_PLAN_ID), m => m[1]);
+  return candidates.filter(validateRecordNumber);
+}
+
+/**
+ * Find medical record numbers with context labels
+ */
+export function findMedicalRecordNumbers(text: string): string[] {
+  const candidates = Array.from(text.matchAll(MEDICAL_RECORD_NUMBER), m => m[1]);
+  return candidates.filter(validateRecordNumber);
+}
+
+/**
+ * Find ICD-10-CM diagnosis codes in text
+ */
+export function findICD10Codes(text: string): string[] {
+  const matches = [
+    ...Array.from(text.matchAll(ICD10), m => m[0]),
+    ...Array.from(text.matchAll(ICD10_LABELED), m => m[1].toUpperCase())
+  ];
+
+  // Return unique matches
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Find labeled CPT procedure codes in text
+ */
+export function findCPTCodes(text: string): string[] {
+  const matches = Array.from(text.matchAll(CPT_LABELED), m => m[1]).flatMap(list => list.split(/\s*,\s*/));
+
+  // Return unique matches
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Find all healthcare identifiers in text
+ * Combines all medical pattern detection
+ *
+ * @param text - Text to analyze
+ * @param includeCodes - Also report ICD-10 and CPT codes
+ * @returns Object with arrays of detected identifiers
+ */
+export function findAllMedical(text: string, includeCodes: boolean = false): {
+  npis: string[];
+  deaNumbers: string[];
+  mbis: string[];
+  healthPlanIDs: string[];
+  medicalRecordNumbers: string[];
+  icd10Codes: string[];
+  cptCodes: string[];
+} {
+  return {
+    npis: findNPIs(text),
+    deaNumbers: findDEANumbers(text),
+    mbis: findMBIs(text),
+    healthPlanIDs: findHealthPlanIDs(text),
+    medicalRecordNumbers: findMedicalRecordNumbers(text),
+    icd10Codes: includeCodes ? findICD10Codes(text) : [],
+    cptCodes: includeCodes ? findCPTCodes(text) : []
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Middle Eastern PII Pattern Detection
+ * Covers Emirates ID (UAE), national ID and Iqama (Saudi Arabia) and
+ * Teudat Zehut (Israel)
+ */
+
+import { luhnCheck } from './luhn';
+
+/**
+ * UAE Emirates ID
+ * 15 digits with Luhn check digit
+ * Format: 784-YYYY-NNNNNNN-C or 784YYYYNNNNNNNC
+ * - 784: ISO 3166 code for the UAE
+ * - YYYY: Year of birth
+ */
+export const EMIRATES_ID_AE = /\b784-?\d{4}-?\d{7}-?\d\b/g;
+
+/**
+ * Saudi national ID (citizens) and Iqama (residents)
+ * 10 digits with Luhn check digit
+ * - First digit: 1 for citizens, 2 for residents
+ */
+export const NATIONAL_ID_SA = /\b[12]\d{9}\b/g;
+
+/**
+ * Israeli Teudat Zehut (identity number)
+ * Up to 9 digits (left-padded with zeros) with check digit
+ * Format: XXXXXXXXX or XXXXXXXX-X
+ */
+export const TEUDAT_ZEHUT_IL = /\b\d{8}-?\d\b/g;
+
+/**
+ * Validate UAE Emirates ID
+ * @param id - Emirates ID to validate (hyphens allowed)
+ * @returns true if valid
+ */
+export function validateEmiratesID(id: string): boolean {
+  const digits = id.replace(/-/g, '');
+
+  if (!/^784\d{12}$/.test(digits)) {
+    return false;
+  }
+
+  // Year of birth must be plausible
+  const year = parseInt(digits.substring(3, 7));
+  if (year < 1900 || year > new Date().getFullYear()) {
+    return false;
+  }
+
+  return luhnCheck(digits);
+}
+
+/**
+ * Validate Saudi national ID / Iqama
+ * @param id - 10-digit ID
+ * @returns true if valid
+ */
+export function validateSaudiID(id: string): boolean {
+  if (!/^[12]\d{9}$/.test(id)) {
+    return false;
+  }
+
+  return luhnCheck(id);
+}
+
+/**
+ * Validate Israeli Teudat Zehut
+ * Digits are weighted 1, 2, 1, 2... and two-digit products are summed
+ * @param id - ID number to validate (hyphen before check digit allowed)
+ * @returns true if valid
+ */
+export function validateTeudatZehut(id: string): boolean {
+  const digits = id.replace(/-/g, '').padStart(9, '0');
+
+  if (!/^\d{9}$/.test(digits) || /^0+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    let n = parseInt(digits[i]) * ((i % 2) + 1);
+    if (n > 9) n -= 9;
+    sum += n;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Find UAE Emirates IDs in text
+ */
+export function findEmiratesIDs(text: string): string[] {
+  const matches = Array.from(text.matchAll(EMIRATES_ID_AE), m => m[0]);
+  return matches.filter(validateEmiratesID);
+}
+
+/**
+ * Find Saudi national IDs and Iqamas in text
+ */
+export function findSaudiIDs(text: string): string[] {
+  const matches = Array.from(text.matchAll(NATIONAL_ID_SA), m => m[0]);
+  return matches.filter(validateSaudiID);
+}
+
+/**
+ * Find Israeli Teudat Zehut numbers in text
+ */
+export function findTeudatZehut(text: string): string[] {
+  const matches = Array.from(text.matchAll(TEUDAT_ZEHUT_IL), m => m[0]);
+  return matches.filter(validateTeudatZehut);
+}
+
+/**
+ * Find all Middle Eastern national IDs
+ */
+export function findAllMiddleEast(text: string): {
+  emiratesIDs: string[];
+  saudiIDs: string[];
+  israeliIDs: string[];
+} {
+  return {
+    emiratesIDs: findEmiratesIDs(text),
+    saudiIDs: findSaudiIDs(text),
+    israeliIDs: findTeudatZehut(text)
+  };
+}
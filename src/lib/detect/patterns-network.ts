@@ -0,0 +1,353 @@
+/**
+ * Network and Device Identifier Detection Patterns
+ * Detects IP addresses, MAC addresses, IMEI/MEID device identifiers,
+ * internal hostnames and URLs that carry tokens or emails
+ */
+
+import { luhnCheck } from './luhn';
+
+/**
+ * IPv4 address with optional CIDR prefix
+ * Format: four dotted octets (0-255), e.g. 192.168.1.10 or 10.0.0.0/8
+ */
+export const IPV4 = /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\/(?:3[0-2]|[12]?\d))?(?![\w/]|\.\d)/g;
+
+/**
+ * IPv6 address candidate with optional CIDR prefix
+ * Covers full, compressed (::) and IPv4-mapped forms; the structure is
+ * checked by validateIPv6 since a single regex for all forms is unreadable
+ */
+export const IPV6 = /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}(?:[0-9A-Fa-f]{1,4}|(?:\d{1,3}\.){3}\d{1,3})?(?:\/\d{1,3})?(?![\w:])/g;
+
+/**
+ * MAC address (EUI-48)
+ * Formats: 00:1A:2B:3C:4D:5E, 00-1A-2B-3C-4D-5E, 001A.2B3C.4D5E (Cisco)
+ */
+export const MAC_ADDRESS = /(?<![\w:-])[0-9A-Fa-f]{2}([:-])(?:[0-9A-Fa-f]{2}\1){4}[0-9A-Fa-f]{2}(?![\w:-])|\b[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}\b/g;
+
+/**
+ * IMEI (International Mobile Equipment Identity)
+ * 15 digits: TAC (8) + serial (6) + Luhn check digit (1)
+ * Often printed as AA-BBBBBB-CCCCCC-D
+ */
+export const IMEI = /\b\d{2}[-\s]?\d{6}[-\s]?\d{6}[-\s]?\d\b/g;
+
+/**
+ * MEID (Mobile Equipment Identifier, CDMA) with context
+ * 14 hex digits, regional code A0-FF; an optional 15th character is a
+ * base-16 Luhn check digit
+ */
+export const MEID = /\bMEID\b[\s#:]*([A-Fa-f][0-9A-Fa-f]{13}[0-9A-Fa-f]?)\b/gi;
+
+/**
+ * Hostname under a private-use or internal domain
+ * Examples: db01.corp, build-7.ci.internal, ip-10-0-1-5.ec2.internal
+ */
+export const INTERNAL_HOSTNAME = /(?<![\w@.-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:local|localdomain|internal|intranet|corp|lan|home\.arpa|private)(?![\w-]|\.[a-z0-9])/gi;
+
+/**
+ * Fully qualified hostname with an environment label
+ * Example: api-02.prod.example.com, vpn.staging.acme.io
+ */
+export const ENVIRONMENT_FQDN = /(?<![\w@.-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:prod|production|staging|stage|stg|dev|qa|uat|int|mgmt|vpn|corp)\.(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z]{2,}(?![\w-]|\.[a-z0-9])/gi;
+
+/**
+ * URL with a query string
+ * Query parameters are checked by validateSensitiveURL
+ */
+export const URL_WITH_QUERY = /\bhttps?:\/\/[^\s"'<>?#]+\?[^\s"'<>]+/gi;
+
+/**
+ * Query parameter names that carry credentials or session state
+ */
+const SENSITIVE_PARAMS = /^(?:access_?token|id_?token|refresh_?token|token|auth|code|key|api_?key|apikey|secret|client_secret|password|passwd|pwd|session(?:_?id)?|sid|sig|signature|x-amz-(?:signature|credential|security-token)|x-goog-(?:signature|credential))$/i;
+
+const EMAIL_VALUE = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+/**
+ * Validate IPv4 address (with optional CIDR prefix)
+ * @param address - Address to validate
+ * @returns true if the address identifies a host or network
+ */
+export function validateIPv4(address: string): boolean {
+  const [ip, prefix] = address.split('/');
+  // Leading zeros are ambiguous (octal in some parsers) and usually version strings
+  if (!isDottedQuad(ip)) {
+    return false;
+  }
+
+  if (prefix !== undefined && (!/^\d{1,2}$/.test(prefix) || Number(prefix) > 32)) {
+    return false;
+  }
+
+  // Unspecified, loopback and netmask values do not identify anyone
+  const first = Number(ip.split('.')[0]);
+  if (ip === '0.0.0.0' || first === 127 || first === 255) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate IPv6 address structure (with optional CIDR prefix)
+ * @param address - Address to validate
+ * @returns true if the groups form a valid full, compressed or IPv4-mapped address
+ */
+export function validateIPv6(address: string): boolean {
+  const [ip, prefix, extra] = address.split('/');
+  if (extra !== undefined) {
+    return false;
+  }
+
+  if (prefix !== undefined && (!/^\d{1,3}$/.test(prefix) || Number(prefix) > 128)) {
+    return false;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap(half => (half === '' ? [] : half.split(':')));
+  let groupCount = groups.length;
+
+  // An embedded IPv4 address takes the place of two groups
+  const last = groups[groups.length - 1];
+  const embeddedIPv4 = last !== undefined && last.includes('.');
+  if (embeddedIPv4) {
+    if (!isDottedQuad(last)) {
+      return false;
+    }
+    groups.pop();
+    groupCount++;
+  }
+
+  if (!groups.every(group => /^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+
+  // Short hex pairs such as "a::b" are more likely code than addresses
+  if (!embeddedIPv4 && !groups.some(group => group.length >= 3)) {
+    return false;
+  }
+
+  if (halves.length === 2 ? groupCount > 7 : groupCount !== 8) {
+    return false;
+  }
+
+  // Unspecified (::) and loopback (::1) addresses do not identify anyone
+  return !/^::1?$/.test(ip);
+}
+
+/**
+ * Validate MAC address
+ * @param mac - MAC address to validate
+ * @returns true if the address is a unicast/multicast hardware address
+ */
+export function validateMAC(mac: string): boolean {
+  const hex = mac.replace(/[:.-]/g, '').toUpperCase();
+  if (!/^[0-9A-F]{12}$/.test(hex)) {
+    return false;
+  }
+
+  // All-zero and broadcast addresses are placeholders
+  return hex !== '000000000000' && hex !== 'FFFFFFFFFFFF';
+}
+
+/**
+ * Validate IMEI using the Luhn check digit
+ * @param imei - IMEI to validate (separators allowed)
+ * @returns true if 15 digits with a valid check digit
+ */
+export function validateIMEI(imei: string): boolean {
+  const digits = imei.replace(/[-\s]/g, '');
+  if (!/^\d{15}$/.test(digits)) {
+    return false;
+  }
+
+  // 34/37 prefixes are American Express card numbers, reported by the card detector
+  if (/^3[47]/.test(digits)) {
+    return false;
+  }
+
+  return luhnCheck(digits);
+}
+
+/**
+ * Validate MEID
+ * @param meid - 14 hex digits, optionally followed by a check digit
+ * @returns true if the regional code is valid and the check digit (if any) matches
+ */
+export function validateMEID(meid: string): boolean {
+  const hex = meid.toUpperCase();
+  if (!/^[A-F][0-9A-F]{13}[0-9A-F]?$/.test(hex)) {
+    return false;
+  }
+
+  if (hex.length === 14) {
+    return true;
+  }
+
+  // Luhn in base 16: double every second digit from the right of the 14-digit body
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    let n = parseInt(hex[13 - i], 16);
+    if (i % 2 === 0) {
+      n *= 2;
+      n = Math.floor(n / 16) + (n % 16);
+    }
+    sum += n;
+  }
+
+  return (16 - (sum % 16)) % 16 === parseInt(hex[14], 16);
+}
+
+/**
+ * Validate hostname label lengths
+ * @param hostname - Hostname to validate
+ * @returns true if every label is 1-63 characters and the name is at most 253
+ */
+export function validateHostname(hostname: string): boolean {
+  if (hostname.length > 253) {
+    return false;
+  }
+
+  const labels = hostname.split('.');
+  if (labels.length < 2) {
+    return false;
+  }
+
+  // Numeric-only names are version numbers or IP fragments
+  if (labels.every(label => /^\d+$/.test(label))) {
+    return false;
+  }
+
+  return labels.every(label => label.length > 0 && label.length <= 63 && !label.startsWith('-') && !label.endsWith('-'));
+}
+
+/**
+ * Validate that a URL carries a token or email in its query string
+ * @param url - URL to check
+ * @returns true if any query parameter is credential-like or holds an email
+ */
+export function validateSensitiveURL(url: string): boolean {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return false;
+  }
+
+  for (const [name, value] of params) {
+    if (value.length === 0) {
+      continue;
+    }
+    if (SENSITIVE_PARAMS.test(name) || EMAIL_VALUE.test(value)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find all IPv4 addresses and CIDR ranges in text
+ */
+export function findIPv4Addresses(text: string): string[] {
+  const candidates = Array.from(text.matchAll(IPV4), m => m[0]);
+  return candidates.filter(validateIPv4);
+}
+
+/**
+ * Find all IPv6 addresses and prefixes in text
+ */
+export function findIPv6Addresses(text: string): string[] {
+  const candidates = Array.from(text.matchAll(IPV6), m => m[0]);
+  return candidates.filter(validateIPv6);
+}
+
+/**
+ * Find all IPv4 and IPv6 addresses in text
+ */
+export function findIPAddresses(text: string): string[] {
+  return [...findIPv4Addresses(text), ...findIPv6Addresses(text)];
+}
+
+/**
+ * Find all MAC addresses in text
+ */
+export function findMACAddresses(text: string): string[] {
+  const candidates = Array.from(text.matchAll(MAC_ADDRESS), m => m[0]);
+  return candidates.filter(validateMAC);
+}
+
+/**
+ * Find all IMEI numbers in text
+ */
+export function findIMEIs(text: string): string[] {
+  const candidates = Array.from(text.matchAll(IMEI), m => m[0]);
+  return candidates.filter(validateIMEI);
+}
+
+/**
+ * Find MEIDs with context labels
+ */
+export function findMEIDs(text: string): string[] {
+  const candidates = Array.from(text.matchAll(MEID), m => m[1]);
+  return candidates.filter(validateMEID);
+}
+
+/**
+ * Find internal hostnames and environment-specific FQDNs in text
+ */
+export function findHostnames(text: string): string[] {
+  const matches = [
+    ...Array.from(text.matchAll(INTERNAL_HOSTNAME), m => m[0]),
+    ...Array.from(text.matchAll(ENVIRONMENT_FQDN), m => m[0])
+  ].filter(validateHostname);
+
+  // Return unique matches
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Find URLs whose query strings carry tokens or emails
+ */
+export function findSensitiveURLs(text: string): string[] {
+  // Trailing punctuation belongs to the sentence, not the URL
+  const candidates = Array.from(text.matchAll(URL_WITH_QUERY), m => m[0].replace(/[.,;:!)\]]+$/, ''));
+  return candidates.filter(validateSensitiveURL);
+}
+
+/**
+ * Find all network and device identifiers in text
+ * Combines all network pattern detection
+ *
+ * @param text - Text to analyze
+ * @returns Object with arrays of detected identifiers
+ */
+export function findAllNetwork(text: string): {
+  ipv4: string[];
+  ipv6: string[];
+  macAddresses: string[];
+  imeis: string[];
+  meids: string[];
+  hostnames: string[];
+  sensitiveURLs: string[];
+} {
+  return {
+    ipv4: findIPv4Addresses(text),
+    ipv6: findIPv6Addresses(text),
+    macAddresses: findMACAddresses(text),
+    imeis: findIMEIs(text),
+    meids: findMEIDs(text),
+    hostnames: findHostnames(text),
+    sensitiveURLs: findSensitiveURLs(text)
+  };
+}
+
+function isDottedQuad(ip: string): boolean {
+  const octets = ip.split('.');
+  return octets.length === 4 && octets.every(octet => /^(?:0|[1-9]\d{0,2})$/.test(octet) && Number(octet) <= 255);
+}
@@ -7,7 +7,10 @@ import {
   extractTerms,
   type DetectionResult
 } from './merger';
-import { customPatternRegistry } from './custom';
+import { customPatternRegistry, allowListRegistry } from './custom';
+import type { SuppressedDetection } from './custom';
+import { detectionService } from './service';
+import type { DetectionMode, DetectionOutcome, DetectionProgress, WorkerDetectionOptions } from './service';
 import { hybridDetection } from './hybrid';
 import {
   findSWIFTCodes,
@@ -44,6 +47,43 @@ import {
   findCURPs,
   findRUTs
 } from './patterns-latam';
+import {
+  findSINs
+} from './patterns-canada';
+import {
+  findTFNs,
+  findABNs,
+  findMedicareNumbersAU,
+  findIRDs
+} from './patterns-australasia';
+import {
+  findEmiratesIDs,
+  findSaudiIDs,
+  findTeudatZehut
+} from './patterns-middle-east';
+import {
+  findSouthAfricanIDs,
+  findNINs,
+  findBVNs,
+  findKenyanIDs
+} from './patterns-africa';
+import {
+  findAllSecrets
+} from './patterns-secrets';
+import {
+  findIPAddresses,
+  findMACAddresses,
+  findIMEIs,
+  findMEIDs,
+  findHostnames,
+  findSensitiveURLs
+} from './patterns-network';
+import {
+  findAllMedical
+} from './patterns-medical';
+import {
+  findAllLicenses
+} from './patterns-license';
 
 /**
  * PII Detection patterns
@@ -230,8 +270,129 @@ export interface DetectionOptions {
   findEuropeanIDs?: boolean;
   findAsianIDs?: boolean;
   findLatAmIDs?: boolean;
+  findCanadianIDs?: boolean;
+  findAustralasianIDs?: boolean;
+  findMiddleEastIDs?: boolean;
+  findAfricanIDs?: boolean;
+  // Credentials and secrets
+  findSecrets?: boolean;
+  // Network and device identifiers
+  findIPAddresses?: boolean;
+  findMACAddresses?: boolean;
+  findDeviceIDs?: boolean;
+  findHostnames?: boolean;
+  findSensitiveURLs?: boolean;
+  // Healthcare identifiers
+  findMedicalIDs?: boolean;
+  findMedicalCodes?: boolean;
+  // Driver's licenses and state IDs
+  findDriversLicenses?: boolean;
   // Custom patterns
   useCustomPatterns?: boolean;
+  // Allow-list
+  /** Allow-list profile to apply (defaults to the active profile) */
+  allowListProfile?: string;
+  /** Called with the detections the allow-list suppressed */
+  onSuppressed?: (suppressed: SuppressedDetection[]) => void;
+  // Detection service
+  /** Called as the request is queued, loads the ML model and runs */
+  onProgress?: (progress: DetectionProgress) => void;
+  /** Cancels the request; the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * HIPAA Safe Harbor preset
+ * Enables every detector that maps to one of the 18 identifiers in
+ * 45 CFR 164.514(b)(2); names rely on ML detection. Diagnosis and
+ * procedure codes are not identifiers and stay off
+ */
+export const HIPAA_SAFE_HARBOR_PRESET: DetectionOptions = {
+  findEmails: true,
+  findPhones: true,
+  findSSNs: true,
+  findCards: true,
+  findDates: true,
+  findAddresses: true,
+  useML: true,
+  findBankAccounts: true,
+  findIPAddresses: true,
+  findMACAddresses: true,
+  findDeviceIDs: true,
+  findHostnames: true,
+  findSensitiveURLs: true,
+  findMedicalIDs: true,
+  findMedicalCodes: false,
+  findDriversLicenses: true,
+  useCustomPatterns: true
+};
+
+/**
+ * Drop allow-listed detections and report what was suppressed
+ */
+function applyAllowList(
+  results: DetectionResult[],
+  text: string,
+  options: DetectionOptions
+): DetectionResult[] {
+  const { kept, suppressed } = allowListRegistry.apply(results, text, options.allowListProfile);
+  options.onSuppressed?.(suppressed);
+  return kept;
+}
+
+/**
+ * Run the secrets pack and label each result with its credential type
+ */
+function createSecretDetections(text: string): DetectionResult[] {
+  const secrets = findAllSecrets(text);
+
+  return [
+    ...createRegexDetections(secrets.awsAccessKeys, 'aws-key'),
+    ...createRegexDetections(secrets.awsSecretKeys, 'aws-secret'),
+    ...createRegexDetections(secrets.githubTokens, 'github-token'),
+    ...createRegexDetections(secrets.gitlabTokens, 'gitlab-token'),
+    ...createRegexDetections(secrets.slackTokens, 'slack-token'),
+    ...createRegexDetections(secrets.stripeKeys, 'stripe-key'),
+    ...createRegexDetections(secrets.jwts, 'jwt'),
+    ...createRegexDetections(secrets.privateKeys, 'private-key'),
+    ...createRegexDetections(secrets.connectionStrings, 'connection-string'),
+    ...createRegexDetections(secrets.keywordSecrets, 'secret')
+  ];
+}
+
+/**
+ * Run the healthcare pack and label each result with its identifier type
+ */
+function createMedicalDetections(text: string, options: DetectionOptions): DetectionResult[] {
+  const medical = findAllMedical(text, options.findMedicalCodes ?? false);
+  if (!options.findMedicalIDs) {
+    return [
+      ...createRegexDetections(medical.icd10Codes, 'icd10'),
+      ...createRegexDetections(medical.cptCodes, 'cpt')
+    ];
+  }
+
+  return [
+    ...createRegexDetections(medical.npis, 'npi'),
+    ...createRegexDetections(medical.deaNumbers, 'dea'),
+    ...createRegexDetections(medical.mbis, 'mbi'),
+    ...createRegexDetections(medical.healthPlanIDs, 'health-plan-id'),
+    ...createRegexDetections(medical.medicalRecordNumbers, 'mrn'),
+    ...createRegexDetections(medical.icd10Codes, 'icd10'),
+    ...createRegexDetections(medical.cptCodes, 'cpt')
+  ];
+}
+
+/**
+ * Run the driver's license pack, including AAMVA barcode values
+ */
+function createLicenseDetections(text: string): DetectionResult[] {
+  const licenses = findAllLicenses(text);
+
+  return [
+    ...createRegexDetections(licenses.licenseNumbers, 'drivers-license'),
+    ...createRegexDetections(licenses.barcodeValues, 'aamva')
+  ];
 }
 
 /**
@@ -245,6 +406,16 @@ export interface DetectionOptions {
 export async function detectAllPII(
   text: string,
   options: DetectionOptions
+): Promise<string[]> {
+  return detectionService.detect('basic', text, options);
+}
+
+/**
+ * detectAllPII on the calling thread
+ */
+async function runDetectAllPII(
+  text: string,
+  options: DetectionOptions
 ): Promise<string[]> {
   const regexResults: DetectionResult[] = [];
   const mlResults: DetectionResult[] = [];
@@ -300,6 +471,48 @@ export async function detectAllPII(
     regexResults.push(...createRegexDetections(cryptoAddresses, 'crypto'));
   }
 
+  if (options.findSecrets) {
+    regexResults.push(...createSecretDetections(text));
+  }
+
+  // Network and device identifier detection
+  if (options.findIPAddresses) {
+    const ips = findIPAddresses(text);
+    regexResults.push(...createRegexDetections(ips, 'ip'));
+  }
+
+  if (options.findMACAddresses) {
+    const macs = findMACAddresses(text);
+    regexResults.push(...createRegexDetections(macs, 'mac'));
+  }
+
+  if (options.findDeviceIDs) {
+    const imeis = findIMEIs(text);
+    const meids = findMEIDs(text);
+
+    regexResults.push(...createRegexDetections(imeis, 'imei'));
+    regexResults.push(...createRegexDetections(meids, 'meid'));
+  }
+
+  if (options.findHostnames) {
+    const hostnames = findHostnames(text);
+    regexResults.push(...createRegexDetections(hostnames, 'hostname'));
+  }
+
+  if (options.findSensitiveURLs) {
+    const urls = findSensitiveURLs(text);
+    regexResults.push(...createRegexDetections(urls, 'url'));
+  }
+
+  // Healthcare identifier detection
+  if (options.findMedicalIDs || options.findMedicalCodes) {
+    regexResults.push(...createMedicalDetections(text, options));
+  }
+
+  if (options.findDriversLicenses) {
+    regexResults.push(...createLicenseDetections(text));
+  }
+
   if (options.findInvestments) {
     const tickers = findStockTickers(text);
     const cusips = findCUSIPs(text);
@@ -351,6 +564,49 @@ export async function detectAllPII(
     regexResults.push(...createRegexDetections(ruts, 'cl-rut'));
   }
 
+  if (options.findCanadianIDs) {
+    const sins = findSINs(text);
+
+    regexResults.push(...createRegexDetections(sins, 'ca-sin'));
+  }
+
+  if (options.findAustralasianIDs) {
+    const tfns = findTFNs(text);
+    const abns = findABNs(text);
+    const medicare = findMedicareNumbersAU(text);
+    const irds = findIRDs(text);
+
+    regexResults.push(...createRegexDetections(tfns, 'au-tfn'));
+    regexResults.push(...createRegexDetections(abns, 'au-abn'));
+    regexResults.push(...createRegexDetections(medicare, 'au-medicare'));
+    regexResults.push(...createRegexDetections(irds, 'nz-ird'));
+  }
+
+  if (options.findMiddleEastIDs) {
+    const emiratesIDs = findEmiratesIDs(text);
+    const saudiIDs = findSaudiIDs(text);
+    const israeliIDs = findTeudatZehut(text);
+
+    regexResults.push(...createRegexDetections(emiratesIDs, 'ae-eid'));
+    regexResults.push(...createRegexDetections(saudiIDs, 'sa-id'));
+    regexResults.push(...createRegexDetections(israeliIDs, 'il-id'));
+  }
+
+  if (options.findAfricanIDs) {
+    const southAfricanIDs = findSouthAfricanIDs(text);
+    const nins = findNINs(text);
+    const bvns = findBVNs(text);
+    const kenyanIDs = findKenyanIDs(text);
+
+    regexResults.push(...createRegexDetections(southAfricanIDs, 'za-id'));
+    regexResults.push(...createRegexDetections(nins, 'ng-nin'));
+    regexResults.push(...createRegexDetections(bvns, 'ng-bvn'));
+    regexResults.push(...createRegexDetections(kenyanIDs, 'ke-id'));
+  }
+
+  // A cancelled request stops before the ML stage
+  options.signal?.throwIfAborted();
+
   // Run ML detection if enabled and available
   if (options.useML && isMLAvailable()) {
     try {
@@ -363,8 +619,8 @@ export async function detectAllPII(
     }
   }
 
-  // Merge and deduplicate
-  const merged = mergeDetections(regexResults, mlResults);
+  // Merge and deduplicate, then drop allow-listed values
+  const merged = applyAllowList(mergeDetections(regexResults, mlResults), text, options);
 
   // Extract just the text terms
   return extractTerms(merged);
@@ -377,6 +633,16 @@ export async function detectAllPII(
 export async function detectAllPIIWithMetadata(
   text: string,
   options: DetectionOptions
+): Promise<DetectionResult[]> {
+  return detectionService.detect('metadata', text, options);
+}
+
+/**
+ * detectAllPIIWithMetadata on the calling thread
+ */
+async function runDetectAllPIIWithMetadata(
+  text: string,
+  options: DetectionOptions
 ): Promise<DetectionResult[]> {
   const regexResults: DetectionResult[] = [];
   const mlResults: DetectionResult[] = [];
@@ -432,6 +698,48 @@ export async function detectAllPIIWithMetadata(
     regexResults.push(...createRegexDetections(cryptoAddresses, 'crypto'));
   }
 
+  if (options.findSecrets) {
+    regexResults.push(...createSecretDetections(text));
+  }
+
+  // Network and device identifier detection
+  if (options.findIPAddresses) {
+    const ips = findIPAddresses(text);
+    regexResults.push(...createRegexDetections(ips, 'ip'));
+  }
+
+  if (options.findMACAddresses) {
+    const macs = findMACAddresses(text);
+    regexResults.push(...createRegexDetections(macs, 'mac'));
+  }
+
+  if (options.findDeviceIDs) {
+    const imeis = findIMEIs(text);
+    const meids = findMEIDs(text);
+
+    regexResults.push(...createRegexDetections(imeis, 'imei'));
+    regexResults.push(...createRegexDetections(meids, 'meid'));
+  }
+
+  if (options.findHostnames) {
+    const hostnames = findHostnames(text);
+    regexResults.push(...createRegexDetections(hostnames, 'hostname'));
+  }
+
+  if (options.findSensitiveURLs) {
+    const urls = findSensitiveURLs(text);
+    regexResults.push(...createRegexDetections(urls, 'url'));
+  }
+
+  // Healthcare identifier detection
+  if (options.findMedicalIDs || options.findMedicalCodes) {
+    regexResults.push(...createMedicalDetections(text, options));
+  }
+
+  if (options.findDriversLicenses) {
+    regexResults.push(...createLicenseDetections(text));
+  }
+
   if (options.findInvestments) {
     const tickers = findStockTickers(text);
     const cusips = findCUSIPs(text);
@@ -483,6 +791,46 @@ export async function detectAllPIIWithMetadata(
     regexResults.push(...createRegexDetections(ruts, 'cl-rut'));
   }
 
+  if (options.findCanadianIDs) {
+    const sins = findSINs(text);
+
+    regexResults.push(...createRegexDetections(sins, 'ca-sin'));
+  }
+
+  if (options.findAustralasianIDs) {
+    const tfns = findTFNs(text);
+    const abns = findABNs(text);
+    const medicare = findMedicareNumbersAU(text);
+    const irds = findIRDs(text);
+
+    regexResults.push(...createRegexDetections(tfns, 'au-tfn'));
+    regexResults.push(...createRegexDetections(abns, 'au-abn'));
+    regexResults.push(...createRegexDetections(medicare, 'au-medicare'));
+    regexResults.push(...createRegexDetections(irds, 'nz-ird'));
+  }
+
+  if (options.findMiddleEastIDs) {
+    const emiratesIDs = findEmiratesIDs(text);
+    const saudiIDs = findSaudiIDs(text);
+    const israeliIDs = findTeudatZehut(text);
+
+    regexResults.push(...createRegexDetections(emiratesIDs, 'ae-eid'));
+    regexResults.push(...createRegexDetections(saudiIDs, 'sa-id'));
+    regexResults.push(...createRegexDetections(israeliIDs, 'il-id'));
+  }
+
+  if (options.findAfricanIDs) {
+    const southAfricanIDs = findSouthAfricanIDs(text);
+    const nins = findNINs(text);
+    const bvns = findBVNs(text);
+    const kenyanIDs = findKenyanIDs(text);
+
+    regexResults.push(...createRegexDetections(southAfricanIDs, 'za-id'));
+    regexResults.push(...createRegexDetections(nins, 'ng-nin'));
+    regexResults.push(...createRegexDetections(bvns, 'ng-bvn'));
+    regexResults.push(...createRegexDetections(kenyanIDs, 'ke-id'));
+  }
+
   // Custom pattern detection
   if (options.useCustomPatterns) {
     const enabledPatterns = customPatternRegistry.getEnabledPatterns();
@@ -505,8 +853,28 @@ export async function detectAllPIIWithMetadata(
         // Continue with other patterns
       }
     }
+
+    // Dictionary term lists
+    for (const list of customPatternRegistry.getEnabledTermLists()) {
+      const matches = customPatternRegistry.getTermMatcher(list.id)?.match(text) ?? [];
+
+      if (matches.length > 0) {
+        customPatternRegistry.recordTermListUsage(list.id);
+
+        regexResults.push(...matches.map(match => ({
+          text: match.text,
+          type: `dictionary:${list.type}`,
+          confidence: match.distance === 0 ? 1.0 : 0.9,
+          source: 'dictionary' as const,
+          positions: { start: match.start, end: match.end }
+        })));
+      }
+    }
   }
 
+  // A cancelled request stops before the ML stage
+  options.signal?.throwIfAborted();
+
   // Run ML detection if enabled and available
   if (options.useML && isMLAvailable()) {
     try {
@@ -519,8 +887,8 @@ export async function detectAllPIIWithMetadata(
     }
   }
 
-  // Merge and deduplicate
-  return mergeDetections(regexResults, mlResults);
+  // Merge and deduplicate, then drop allow-listed values
+  return applyAllowList(mergeDetections(regexResults, mlResults), text, options);
 }
 
 /**
@@ -534,6 +902,16 @@ export async function detectAllPIIWithMetadata(
 export async function detectAllPIIEnhanced(
   text: string,
   options: DetectionOptions
+): Promise<string[]> {
+  return detectionService.detect('enhanced', text, options);
+}
+
+/**
+ * detectAllPIIEnhanced on the calling thread
+ */
+async function runDetectAllPIIEnhanced(
+  text: string,
+  options: DetectionOptions
 ): Promise<string[]> {
   const regexResults: DetectionResult[] = [];
 
@@ -576,6 +954,48 @@ export async function detectAllPIIEnhanced(
     regexResults.push(...createRegexDetections(cryptoAddresses, 'crypto'));
   }
 
+  if (options.findSecrets) {
+    regexResults.push(...createSecretDetections(text));
+  }
+
+  // Network and device identifier detection
+  if (options.findIPAddresses) {
+    const ips = findIPAddresses(text);
+    regexResults.push(...createRegexDetections(ips, 'ip'));
+  }
+
+  if (options.findMACAddresses) {
+    const macs = findMACAddresses(text);
+    regexResults.push(...createRegexDetections(macs, 'mac'));
+  }
+
+  if (options.findDeviceIDs) {
+    const imeis = findIMEIs(text);
+    const meids = findMEIDs(text);
+
+    regexResults.push(...createRegexDetections(imeis, 'imei'));
+    regexResults.push(...createRegexDetections(meids, 'meid'));
+  }
+
+  if (options.findHostnames) {
+    const hostnames = findHostnames(text);
+    regexResults.push(...createRegexDetections(hostnames, 'hostname'));
+  }
+
+  if (options.findSensitiveURLs) {
+    const urls = findSensitiveURLs(text);
+    regexResults.push(...createRegexDetections(urls, 'url'));
+  }
+
+  // Healthcare identifier detection
+  if (options.findMedicalIDs || options.findMedicalCodes) {
+    regexResults.push(...createMedicalDetections(text, options));
+  }
+
+  if (options.findDriversLicenses) {
+    regexResults.push(...createLicenseDetections(text));
+  }
+
   // Add positions to regex results by finding them in text
   for (const result of regexResults) {
     if (!result.positions) {
@@ -592,6 +1012,9 @@ export async function detectAllPIIEnhanced(
   // Step 2: Run ML detection with hybrid validation (if enabled)
   let finalResults: DetectionResult[];
 
+  // A cancelled request stops before the ML stage
+  options.signal?.throwIfAborted();
+
   if (options.useML && isMLAvailable()) {
     try {
       const minConfidence = options.mlMinConfidence || 0.8;
@@ -616,8 +1039,8 @@ export async function detectAllPIIEnhanced(
     finalResults = regexResults;
   }
 
-  // Step 3: Extract just the text terms
-  return extractTerms(finalResults);
+  // Step 3: Drop allow-listed values and extract just the text terms
+  return extractTerms(applyAllowList(finalResults, text, options));
 }
 
 /**
@@ -627,6 +1050,16 @@ export async function detectAllPIIEnhanced(
 export async function detectAllPIIEnhancedWithMetadata(
   text: string,
   options: DetectionOptions
+): Promise<DetectionResult[]> {
+  return detectionService.detect('enhanced-metadata', text, options);
+}
+
+/**
+ * detectAllPIIEnhancedWithMetadata on the calling thread
+ */
+async function runDetectAllPIIEnhancedWithMetadata(
+  text: string,
+  options: DetectionOptions
 ): Promise<DetectionResult[]> {
   const regexResults: DetectionResult[] = [];
 
@@ -669,6 +1102,48 @@ export async function detectAllPIIEnhancedWithMetadata(
     regexResults.push(...createRegexDetections(cryptoAddresses, 'crypto'));
   }
 
+  if (options.findSecrets) {
+    regexResults.push(...createSecretDetections(text));
+  }
+
+  // Network and device identifier detection
+  if (options.findIPAddresses) {
+    const ips = findIPAddresses(text);
+    regexResults.push(...createRegexDetections(ips, 'ip'));
+  }
+
+  if (options.findMACAddresses) {
+    const macs = findMACAddresses(text);
+    regexResults.push(...createRegexDetections(macs, 'mac'));
+  }
+
+  if (options.findDeviceIDs) {
+    const imeis = findIMEIs(text);
+    const meids = findMEIDs(text);
+
+    regexResults.push(...createRegexDetections(imeis, 'imei'));
+    regexResults.push(...createRegexDetections(meids, 'meid'));
+  }
+
+  if (options.findHostnames) {
+    const hostnames = findHostnames(text);
+    regexResults.push(...createRegexDetections(hostnames, 'hostname'));
+  }
+
+  if (options.findSensitiveURLs) {
+    const urls = findSensitiveURLs(text);
+    regexResults.push(...createRegexDetections(urls, 'url'));
+  }
+
+  // Healthcare identifier detection
+  if (options.findMedicalIDs || options.findMedicalCodes) {
+    regexResults.push(...createMedicalDetections(text, options));
+  }
+
+  if (options.findDriversLicenses) {
+    regexResults.push(...createLicenseDetections(text));
+  }
+
   // Add positions
   for (const result of regexResults) {
     if (!result.positions) {
@@ -682,22 +1157,56 @@ export async function detectAllPIIEnhancedWithMetadata(
     }
   }
 
+  // A cancelled request stops before the ML stage
+  options.signal?.throwIfAborted();
+
   // Run hybrid detection if ML enabled
   if (options.useML && isMLAvailable()) {
     try {
       const minConfidence = options.mlMinConfidence || 0.8;
-      return await hybridDetection(
+      const merged = await hybridDetection(
         text,
         (t, conf) => mlDetector.detectEntities(t, conf),
         regexResults,
         minConfidence,
         true
       );
+      return applyAllowList(merged, text, options);
     } catch (error) {
       console.error('[detectAllPIIEnhancedWithMetadata] Hybrid detection failed:', error);
-      return regexResults;
+      return applyAllowList(regexResults, text, options);
     }
   }
 
-  return regexResults;
+  return applyAllowList(regexResults, text, options);
+}
+
+/**
+ * Run a detection entry point on the calling thread
+ * Used by detection workers, and by the DetectionService when workers are unavailable;
+ * signal is checked between stages and rejects with an AbortError
+ */
+export async function runDetection(
+  mode: DetectionMode,
+  text: string,
+  options: WorkerDetectionOptions,
+  signal?: AbortSignal
+): Promise<DetectionOutcome> {
+  const suppressed: SuppressedDetection[] = [];
+  const threadOptions: DetectionOptions = {
+    ...options,
+    onSuppressed: (dropped) => suppressed.push(...dropped),
+    signal
+  };
+
+  switch (mode) {
+    case 'basic':
+      return { results: await runDetectAllPII(text, threadOptions), suppressed };
+    case 'metadata':
+      return { results: await runDetectAllPIIWithMetadata(text, threadOptions), suppressed };
+    case 'enhanced':
+      return { results: await runDetectAllPIIEnhanced(text, threadOptions), suppressed };
+    case 'enhanced-metadata':
+      return { results: await runDetectAllPIIEnhancedWithMetadata(text, threadOptions), suppressed };
+  }
 }
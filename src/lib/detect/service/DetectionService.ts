@@ -0,0 +1,411 @@
+/**
+ * Detection Service
+ *
+ * Runs the detection pipeline (regex packs, merging, ML inference) in a
+ * pool of Web Workers so long documents don't block the main thread.
+ * Requests queue until a worker is free; each can report progress and be
+ * cancelled with an AbortSignal, which workers honour between stages. Without a worker factory (tests, or
+ * browsers without module workers) detection runs on the calling thread.
+ */
+
+import type { DetectionOptions } from '../patterns';
+import type { SuppressedDetection } from '../custom/types';
+import { customPatternRegistry, allowListRegistry } from '../custom';
+import { getSelectedModel, getLocalModelPath } from '../models';
+import type {
+  DetectionMode,
+  DetectionModeResults,
+  DetectionOutcome,
+  DetectionProgress,
+  DetectionServiceConfig,
+  DetectionSnapshot,
+  DetectionUsage,
+  DetectionWorker,
+  WorkerDetectionOptions,
+  WorkerResponse
+} from './types';
+
+const POOL_SIZE_KEY = 'detection-pool-size';
+const MAX_POOL_SIZE = 8;
+
+/** How long a cancelled worker may keep running before it is terminated */
+const CANCEL_TIMEOUT_MS = 5000;
+
+/**
+ * Counters that change on every run; ignored when deciding whether a
+ * worker's copy of the registries is current
+ */
+const VOLATILE_FIELDS = new Set(['usageCount', 'lastUsed', 'suppressedCount']);
+
+interface DetectionJob {
+  id: string;
+  mode: DetectionMode;
+  text: string;
+  options: WorkerDetectionOptions;
+  onProgress?: (progress: DetectionProgress) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (outcome: DetectionOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: DetectionWorker;
+  job: DetectionJob | null;
+  /** Snapshot last sent, to skip resending unchanged state */
+  snapshotKey: string;
+  /** Set while the job has been cancelled and the worker hasn't stopped yet */
+  cancelTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Default pool size: leave one core for the UI, and cap memory use
+ * (each worker loads its own copy of the ML model)
+ */
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+function clampPoolSize(size: number): number {
+  return Math.max(1, Math.min(MAX_POOL_SIZE, Math.round(size)));
+}
+
+function cancelledError(): Error {
+  return new DOMException('Detection cancelled', 'AbortError');
+}
+
+/**
+ * Check whether an error came from cancelling a detection
+ */
+export function isDetectionCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Strip callbacks and the signal, which can't be cloned into a worker
+ */
+function toWorkerOptions(options: DetectionOptions): WorkerDetectionOptions {
+  const { onSuppressed: _onSuppressed, onProgress: _onProgress, signal: _signal, ...rest } = options;
+  return rest;
+}
+
+export class DetectionService {
+  private workers: PoolWorker[] = [];
+  private queue: DetectionJob[] = [];
+  private poolSize: number;
+  private createWorker?: () => DetectionWorker;
+
+  constructor(config?: DetectionServiceConfig) {
+    this.poolSize = clampPoolSize(config?.poolSize ?? this.loadPoolSize() ?? defaultPoolSize());
+    this.createWorker = config?.createWorker;
+  }
+
+  /**
+   * Set how workers are created
+   * Pass undefined to run detection on the calling thread
+   */
+  setWorkerFactory(createWorker: (() => DetectionWorker) | undefined): void {
+    this.terminateIdleWorkers(0);
+    this.createWorker = createWorker;
+  }
+
+  /**
+   * Whether detection runs in workers
+   */
+  usesWorkers(): boolean {
+    return this.createWorker !== undefined;
+  }
+
+  getPoolSize(): number {
+    return this.poolSize;
+  }
+
+  /**
+   * Change the number of workers
+   * Busy workers above the new size finish their job before stopping
+   */
+  setPoolSize(size: number): void {
+    this.poolSize = clampPoolSize(size);
+    try {
+      localStorage.setItem(POOL_SIZE_KEY, String(this.poolSize));
+    } catch (error) {
+      console.error('Failed to save detection pool size:', error);
+    }
+    this.terminateIdleWorkers(this.poolSize);
+    this.dispatch();
+  }
+
+  /**
+   * Number of requests waiting for a worker
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run detection
+   * Callbacks in the options (onSuppressed, onProgress) run on this thread;
+   * options.signal cancels the request, rejecting with an AbortError
+   */
+  async detect<M extends DetectionMode>(
+    mode: M,
+    text: string,
+    options: DetectionOptions
+  ): Promise<DetectionModeResults[M]> {
+    if (options.signal?.aborted) {
+      throw cancelledError();
+    }
+
+    const outcome = this.createWorker
+      ? await this.enqueue(mode, text, options)
+      : await this.detectInThread(mode, text, options);
+
+    options.onSuppressed?.(outcome.suppressed);
+    return outcome.results as DetectionModeResults[M];
+  }
+
+  /**
+   * Stop all workers and reject queued requests
+   */
+  dispose(): void {
+    for (const job of this.queue) {
+      this.settle(job);
+      job.reject(cancelledError());
+    }
+    this.queue = [];
+
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+      if (entry.cancelTimer) {
+        clearTimeout(entry.cancelTimer);
+      } else if (entry.job) {
+        this.settle(entry.job);
+        entry.job.reject(cancelledError());
+      }
+    }
+    this.workers = [];
+  }
+
+  private async detectInThread(
+    mode: DetectionMode,
+    text: string,
+    options: DetectionOptions
+  ): Promise<DetectionOutcome> {
+    const { runDetection } = await import('../patterns');
+    options.onProgress?.({ stage: 'detecting', percent: 0 });
+    const outcome = await runDetection(mode, text, toWorkerOptions(options), options.signal);
+    options.onProgress?.({ stage: 'done', percent: 100 });
+    return outcome;
+  }
+
+  private enqueue(mode: DetectionMode, text: string, options: DetectionOptions): Promise<DetectionOutcome> {
+    return new Promise((resolve, reject) => {
+      const job: DetectionJob = {
+        id: crypto.randomUUID(),
+        mode,
+        text,
+        options: toWorkerOptions(options),
+        onProgress: options.onProgress,
+        signal: options.signal,
+        resolve,
+        reject
+      };
+
+      if (job.signal) {
+        job.onAbort = () => this.cancel(job);
+        job.signal.addEventListener('abort', job.onAbort);
+      }
+
+      this.queue.push(job);
+      job.onProgress?.({ stage: 'queued', percent: 0 });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued jobs to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    if (!this.createWorker || this.queue.length === 0) {
+      return;
+    }
+
+    let snapshot: DetectionSnapshot | null = null;
+    let snapshotKey = '';
+
+    while (this.queue.length > 0) {
+      let entry = this.workers.find(w => w.job === null);
+      if (!entry && this.workers.length < this.poolSize) {
+        entry = this.spawn();
+      }
+      if (!entry) {
+        return;
+      }
+
+      if (!snapshot) {
+        snapshot = this.createSnapshot();
+        snapshotKey = JSON.stringify(snapshot, (key, value) => (VOLATILE_FIELDS.has(key) ? undefined : value));
+      }
+      if (entry.snapshotKey !== snapshotKey) {
+        entry.worker.postMessage({ type: 'configure', snapshot });
+        entry.snapshotKey = snapshotKey;
+      }
+
+      const job = this.queue.shift()!;
+      entry.job = job;
+      entry.worker.postMessage({
+        type: 'detect',
+        id: job.id,
+        mode: job.mode,
+        text: job.text,
+        options: job.options
+      });
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: this.createWorker!(),
+      job: null,
+      snapshotKey: '',
+      cancelTimer: null
+    };
+
+    entry.worker.onmessage = (event) => this.handleMessage(entry, event.data);
+    entry.worker.onerror = (event) => {
+      event.preventDefault?.();
+      const job = entry.cancelTimer ? null : entry.job;
+      this.replace(entry);
+      if (job) {
+        this.settle(job);
+        job.reject(new Error(`Detection worker failed: ${event.message || 'unknown error'}`));
+      }
+      this.dispatch();
+    };
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private handleMessage(entry: PoolWorker, message: WorkerResponse): void {
+    const job = entry.job;
+    if (!job || job.id !== message.id) {
+      return;
+    }
+
+    if (message.type === 'progress') {
+      if (!entry.cancelTimer) {
+        job.onProgress?.(message.progress);
+      }
+      return;
+    }
+
+    entry.job = null;
+
+    if (entry.cancelTimer) {
+      // The job was already rejected when it was cancelled; drop the late reply
+      clearTimeout(entry.cancelTimer);
+      entry.cancelTimer = null;
+    } else {
+      this.settle(job);
+      if (message.type === 'result') {
+        this.recordUsage(message.usage, message.suppressed);
+        job.onProgress?.({ stage: 'done', percent: 100 });
+        job.resolve({ results: message.results, suppressed: message.suppressed });
+      } else {
+        job.reject(message.type === 'error' ? new Error(message.message) : cancelledError());
+      }
+    }
+
+    // Retire workers above a reduced pool size
+    if (this.workers.length > this.poolSize) {
+      this.terminateIdleWorkers(this.poolSize);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Cancel a job: drop it from the queue, or ask the worker running it to stop
+   * The worker stays busy until it answers, and is replaced if it doesn't in time
+   */
+  private cancel(job: DetectionJob): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      const entry = this.workers.find(w => w.job === job);
+      if (!entry || entry.cancelTimer) {
+        return;
+      }
+      entry.worker.postMessage({ type: 'cancel', id: job.id });
+      entry.cancelTimer = setTimeout(() => {
+        this.replace(entry);
+        this.dispatch();
+      }, CANCEL_TIMEOUT_MS);
+    }
+
+    this.settle(job);
+    job.reject(cancelledError());
+    this.dispatch();
+  }
+
+  /**
+   * Terminate a worker; a new one is started when needed
+   */
+  private replace(entry: PoolWorker): void {
+    if (entry.cancelTimer) {
+      clearTimeout(entry.cancelTimer);
+      entry.cancelTimer = null;
+    }
+    entry.worker.terminate();
+    entry.job = null;
+    this.workers = this.workers.filter(w => w !== entry);
+  }
+
+  private terminateIdleWorkers(keep: number): void {
+    for (const entry of [...this.workers]) {
+      if (this.workers.length <= keep) {
+        return;
+      }
+      if (entry.job === null) {
+        this.replace(entry);
+      }
+    }
+  }
+
+  private settle(job: DetectionJob): void {
+    if (job.signal && job.onAbort) {
+      job.signal.removeEventListener('abort', job.onAbort);
+    }
+  }
+
+  /**
+   * Apply counts from a worker to the main-thread registries, which persist them
+   */
+  private recordUsage(usage: DetectionUsage, suppressed: SuppressedDetection[]): void {
+    Object.entries(usage.patterns).forEach(([id, count]) => customPatternRegistry.recordUsage(id, count));
+    Object.entries(usage.termLists).forEach(([id, count]) => customPatternRegistry.recordTermListUsage(id, count));
+    allowListRegistry.recordSuppressed(suppressed);
+  }
+
+  private createSnapshot(): DetectionSnapshot {
+    return {
+      customPatterns: customPatternRegistry.getAllPatterns(),
+      termLists: customPatternRegistry.getAllTermLists(),
+      allowListRules: allowListRegistry.getAllRules(),
+      allowListProfile: allowListRegistry.getActiveProfile(),
+      modelId: getSelectedModel().id,
+      localModelPath: getLocalModelPath()
+    };
+  }
+
+  private loadPoolSize(): number | undefined {
+    try {
+      const stored = Number(localStorage.getItem(POOL_SIZE_KEY));
+      return stored > 0 ? stored : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
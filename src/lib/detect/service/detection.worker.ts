@@ -0,0 +1,112 @@
+/**
+ * Detection Worker
+ *
+ * Worker entry point for the DetectionService. Applies the registry and
+ * model snapshot sent by the main thread, then runs detection requests
+ * one at a time. A cancelled request stops at the next stage boundary, so
+ * the worker and its loaded model stay in use.
+ */
+
+import { runDetection } from '../patterns';
+import { customPatternRegistry, allowListRegistry } from '../custom';
+import { mlDetector } from '../ml';
+import { setLocalModelPath } from '../models';
+import type { DetectionSnapshot, DetectionUsage, WorkerRequest, WorkerResponse } from './types';
+
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+// Requests run in order; configure must finish before the next detect
+let pending: Promise<void> = Promise.resolve();
+
+// One controller per detect request, so a cancel can reach it while it waits or runs
+const controllers = new Map<string, AbortController>();
+
+async function configure(snapshot: DetectionSnapshot): Promise<void> {
+  customPatternRegistry.restore(snapshot.customPatterns, snapshot.termLists);
+  allowListRegistry.restore(snapshot.allowListRules, snapshot.allowListProfile);
+  setLocalModelPath(snapshot.localModelPath);
+  await mlDetector.setModel(snapshot.modelId);
+}
+
+/**
+ * Usage counts per pattern and term list, to report what a run added
+ */
+function usageCounts(): DetectionUsage {
+  const patterns: Record<string, number> = {};
+  const termLists: Record<string, number> = {};
+  customPatternRegistry.getAllPatterns().forEach(p => { patterns[p.id] = p.usageCount || 0; });
+  customPatternRegistry.getAllTermLists().forEach(l => { termLists[l.id] = l.usageCount || 0; });
+  return { patterns, termLists };
+}
+
+function usageSince(before: DetectionUsage): DetectionUsage {
+  const after = usageCounts();
+  const diff = (a: Record<string, number>, b: Record<string, number>) =>
+    Object.fromEntries(
+      Object.entries(b)
+        .map(([id, count]) => [id, count - (a[id] || 0)] as const)
+        .filter(([, count]) => count > 0)
+    );
+  return {
+    patterns: diff(before.patterns, after.patterns),
+    termLists: diff(before.termLists, after.termLists)
+  };
+}
+
+async function detect(request: Extract<WorkerRequest, { type: 'detect' }>): Promise<void> {
+  const { id, mode, text, options } = request;
+  const signal = controllers.get(id)!.signal;
+
+  try {
+    signal.throwIfAborted();
+
+    // Each worker has its own model instance; it loads from the browser cache
+    // the main thread filled when the model was downloaded
+    if (options.useML && !mlDetector.isReady()) {
+      try {
+        await mlDetector.loadModel((progress) => {
+          scope.postMessage({ type: 'progress', id, progress: { stage: 'loading-model', percent: progress.percent } });
+        });
+      } catch (error) {
+        console.warn('[DetectionWorker] ML model unavailable, continuing with regex only:', error);
+      }
+    }
+
+    signal.throwIfAborted();
+    scope.postMessage({ type: 'progress', id, progress: { stage: 'detecting', percent: 0 } });
+
+    const before = usageCounts();
+    const { results, suppressed } = await runDetection(mode, text, options, signal);
+    signal.throwIfAborted();
+
+    scope.postMessage({ type: 'result', id, results, suppressed, usage: usageSince(before) });
+  } catch (error) {
+    if (signal.aborted) {
+      scope.postMessage({ type: 'cancelled', id });
+    } else {
+      scope.postMessage({
+        type: 'error',
+        id,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  // Cancels are handled right away, not behind the request they cancel
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+  if (request.type === 'detect') {
+    controllers.set(request.id, new AbortController());
+  }
+  pending = pending.then(() => (request.type === 'configure' ? configure(request.snapshot) : detect(request)));
+};
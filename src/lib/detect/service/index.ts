@@ -0,0 +1,26 @@
+/**
+ * Detection Service Module
+ *
+ * Exports the worker-pool detection service.
+ */
+
+import { DetectionService } from './DetectionService';
+
+export { DetectionService, isDetectionCancelled } from './DetectionService';
+export type {
+  DetectionMode,
+  DetectionModeResults,
+  DetectionOutcome,
+  DetectionProgress,
+  DetectionServiceConfig,
+  DetectionSnapshot,
+  DetectionUsage,
+  DetectionWorker,
+  WorkerDetectionOptions,
+  WorkerRequest,
+  WorkerResponse
+} from './types';
+
+// Export singleton instance
+// Runs on the calling thread until the app provides a worker factory
+export const detectionService = new DetectionService();
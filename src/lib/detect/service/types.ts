@@ -0,0 +1,98 @@
+/**
+ * Detection Service Types
+ *
+ * Message protocol between the DetectionService and its workers.
+ */
+
+import type { DetectionResult } from '../merger';
+import type { DetectionOptions } from '../patterns';
+import type { AllowListRule, CustomPattern, SuppressedDetection, TermList } from '../custom/types';
+
+/**
+ * Which detection entry point to run
+ */
+export type DetectionMode = 'basic' | 'metadata' | 'enhanced' | 'enhanced-metadata';
+
+/**
+ * Result shape of each mode
+ */
+export interface DetectionModeResults {
+  basic: string[];
+  metadata: DetectionResult[];
+  enhanced: string[];
+  'enhanced-metadata': DetectionResult[];
+}
+
+/**
+ * Detection options without the callbacks and signal, which can't be
+ * sent to a worker
+ */
+export type WorkerDetectionOptions = Omit<DetectionOptions, 'onSuppressed' | 'onProgress' | 'signal'>;
+
+export interface DetectionProgress {
+  stage: 'queued' | 'loading-model' | 'detecting' | 'done';
+  /** 0-100 within the stage */
+  percent: number;
+}
+
+/**
+ * Main-thread state a worker needs to detect like the main thread would
+ * Workers have no localStorage, so registries and model settings are sent
+ */
+export interface DetectionSnapshot {
+  customPatterns: CustomPattern[];
+  termLists: TermList[];
+  allowListRules: AllowListRule[];
+  allowListProfile: string;
+  modelId: string;
+  localModelPath: string | null;
+}
+
+/**
+ * Custom pattern and term list matches counted in a worker, by ID
+ */
+export interface DetectionUsage {
+  patterns: Record<string, number>;
+  termLists: Record<string, number>;
+}
+
+export interface DetectionOutcome<M extends DetectionMode = DetectionMode> {
+  results: DetectionModeResults[M];
+  /** Detections the allow-list dropped */
+  suppressed: SuppressedDetection[];
+}
+
+export type WorkerRequest =
+  | { type: 'configure'; snapshot: DetectionSnapshot }
+  | { type: 'detect'; id: string; mode: DetectionMode; text: string; options: WorkerDetectionOptions }
+  /** Stop a request at the next stage boundary; the worker answers 'cancelled' */
+  | { type: 'cancel'; id: string };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: string; progress: DetectionProgress }
+  | {
+      type: 'result';
+      id: string;
+      results: string[] | DetectionResult[];
+      suppressed: SuppressedDetection[];
+      usage: DetectionUsage;
+    }
+  | { type: 'error'; id: string; message: string }
+  | { type: 'cancelled'; id: string };
+
+/**
+ * Minimal worker interface, so tests can supply a fake
+ */
+export interface DetectionWorker {
+  postMessage(message: WorkerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface DetectionServiceConfig {
+  /** Number of workers (default: cores - 1, at most 4) */
+  poolSize?: number;
+  /** Creates a worker; without one, detection runs on the calling thread */
+  createWorker?: () => DetectionWorker;
+}
@@ -126,7 +126,8 @@ function validatePersonName(entity: MLEntity, normalizedText: string, fullText:
   }
 
   // Reject if not capitalized (proper noun check)
-  if (!/^[A-Z]/.test(entity.text)) {
+  // Scripts without case (Chinese, Arabic) count as capitalized
+  if (!/^[\p{Lu}\p{Lo}]/u.test(entity.text)) {
     return false;
   }
 
@@ -210,7 +211,7 @@ function validateMisc(entity: MLEntity, normalizedText: string, fullText: string
   }
 
   // Reject if not capitalized
-  if (!/^[A-Z]/.test(entity.text)) {
+  if (!/^[\p{Lu}\p{Lo}]/u.test(entity.text)) {
     return false;
   }
 
@@ -0,0 +1,66 @@
+/**
+ * Built-in Exemption Code Sets
+ */
+
+import type { ExemptionCodeSet } from './types';
+
+export const FOIA_CODE_SET: ExemptionCodeSet = {
+  id: 'foia',
+  name: 'FOIA (5 U.S.C. § 552(b))',
+  builtIn: true,
+  codes: [
+    { code: '(b)(1)', description: 'Classified national defense or foreign policy information' },
+    { code: '(b)(2)', description: 'Internal personnel rules and practices' },
+    { code: '(b)(3)', description: 'Information exempted by another statute' },
+    { code: '(b)(4)', description: 'Trade secrets and confidential commercial or financial information' },
+    { code: '(b)(5)', description: 'Privileged inter- or intra-agency communications' },
+    { code: '(b)(6)', description: 'Personnel, medical and similar files; clearly unwarranted invasion of personal privacy' },
+    { code: '(b)(7)(A)', description: 'Law enforcement records: could interfere with enforcement proceedings' },
+    { code: '(b)(7)(B)', description: 'Law enforcement records: would deprive a person of a fair trial' },
+    { code: '(b)(7)(C)', description: 'Law enforcement records: unwarranted invasion of personal privacy' },
+    { code: '(b)(7)(D)', description: 'Law enforcement records: could disclose a confidential source' },
+    { code: '(b)(7)(E)', description: 'Law enforcement records: techniques, procedures or guidelines' },
+    { code: '(b)(7)(F)', description: 'Law enforcement records: could endanger life or physical safety' },
+    { code: '(b)(8)', description: 'Financial institution examination reports' },
+    { code: '(b)(9)', description: 'Geological and geophysical information about wells' }
+  ]
+};
+
+export const PRIVACY_ACT_CODE_SET: ExemptionCodeSet = {
+  id: 'privacy-act',
+  name: 'Privacy Act (5 U.S.C. § 552a)',
+  builtIn: true,
+  codes: [
+    { code: '(d)(5)', description: 'Information compiled in reasonable anticipation of a civil action or proceeding' },
+    { code: '(j)(2)', description: 'Records of criminal law enforcement agencies' },
+    { code: '(k)(1)', description: 'Classified information' },
+    { code: '(k)(2)', description: 'Investigatory material compiled for law enforcement purposes' },
+    { code: '(k)(3)', description: 'Records maintained in connection with protective services' },
+    { code: '(k)(4)', description: 'Records used only as statistical records' },
+    { code: '(k)(5)', description: 'Investigatory material identifying a confidential source for suitability determinations' },
+    { code: '(k)(6)', description: 'Testing or examination material for appointment or promotion' },
+    { code: '(k)(7)', description: 'Evaluation material for promotion in the armed services' }
+  ]
+};
+
+export const GDPR_ARTICLE_9_CODE_SET: ExemptionCodeSet = {
+  id: 'gdpr-art9',
+  name: 'GDPR Art. 9 (special categories)',
+  builtIn: true,
+  codes: [
+    { code: 'Art. 9 Ethnic', description: 'Racial or ethnic origin' },
+    { code: 'Art. 9 Political', description: 'Political opinions' },
+    { code: 'Art. 9 Religious', description: 'Religious or philosophical beliefs' },
+    { code: 'Art. 9 Union', description: 'Trade union membership' },
+    { code: 'Art. 9 Genetic', description: 'Genetic data' },
+    { code: 'Art. 9 Biometric', description: 'Biometric data processed to uniquely identify a person' },
+    { code: 'Art. 9 Health', description: 'Data concerning health' },
+    { code: 'Art. 9 Sexual', description: "Data concerning a person's sex life or sexual orientation" }
+  ]
+};
+
+export const BUILT_IN_CODE_SETS: ExemptionCodeSet[] = [
+  FOIA_CODE_SET,
+  PRIVACY_ACT_CODE_SET,
+  GDPR_ARTICLE_9_CODE_SET
+];
@@ -0,0 +1,116 @@
+/**
+ * Exemption Assignment
+ *
+ * A box's code is its own `exemption` if set, otherwise the default for
+ * its detection type. Resolution happens at render and export time so a
+ * changed type default applies to every box that has no code of its own.
+ */
+
+import type { Box } from '../pdf/find';
+import { getCodeSets, getTypeExemptions } from './settings';
+import type { ExemptionCodeSet, ExemptionSummaryEntry } from './types';
+
+/**
+ * Key a box's type defaults are stored under: its detection type, or
+ * "manual" for drawn boxes
+ */
+export function exemptionTypeKey(box: Pick<Box, 'type' | 'source'>): string {
+  if (box.type) return box.type.toLowerCase();
+  return box.source === 'manual' ? 'manual' : 'match';
+}
+
+/**
+ * Get the code printed on a box, if any
+ */
+export function resolveExemption(
+  box: Box,
+  typeExemptions: Record<string, string> = getTypeExemptions()
+): string | undefined {
+  return box.exemption || typeExemptions[exemptionTypeKey(box)] || undefined;
+}
+
+/**
+ * Copy page boxes with every box's code resolved into `exemption`
+ */
+export function resolvePageExemptions(
+  pageBoxes: Map<number, Box[]>,
+  typeExemptions: Record<string, string> = getTypeExemptions()
+): Map<number, Box[]> {
+  const resolved = new Map<number, Box[]>();
+  pageBoxes.forEach((boxes, page) => {
+    resolved.set(page, boxes.map(box => ({ ...box, exemption: resolveExemption(box, typeExemptions) })));
+  });
+  return resolved;
+}
+
+/**
+ * Find a code's description, preferring the given set
+ */
+export function describeExemption(
+  code: string,
+  preferred?: ExemptionCodeSet,
+  codeSets: ExemptionCodeSet[] = getCodeSets()
+): string | undefined {
+  const sets = preferred ? [preferred, ...codeSets] : codeSets;
+  for (const set of sets) {
+    const match = set.codes.find(c => c.code === code);
+    if (match?.description) return match.description;
+  }
+  return undefined;
+}
+
+/**
+ * Count the codes applied across a document, for the exemption index
+ * Boxes must already be resolved (see resolvePageExemptions). Entries
+ * follow the preferred set's order, then the rest alphabetically.
+ */
+export function summarizeExemptions(
+  pageBoxes: Map<number, Box[]>,
+  preferred?: ExemptionCodeSet,
+  codeSets: ExemptionCodeSet[] = getCodeSets()
+): ExemptionSummaryEntry[] {
+  const byCode = new Map<string, ExemptionSummaryEntry>();
+
+  for (const page of Array.from(pageBoxes.keys()).sort((a, b) => a - b)) {
+    for (const box of pageBoxes.get(page) ?? []) {
+      if (!box.exemption) continue;
+
+      let entry = byCode.get(box.exemption);
+      if (!entry) {
+        entry = {
+          code: box.exemption,
+          description: describeExemption(box.exemption, preferred, codeSets),
+          count: 0,
+          pages: []
+        };
+        byCode.set(box.exemption, entry);
+      }
+      entry.count++;
+      if (entry.pages[entry.pages.length - 1] !== page) entry.pages.push(page);
+    }
+  }
+
+  const order = (code: string) => {
+    const index = preferred?.codes.findIndex(c => c.code === code) ?? -1;
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+
+  return Array.from(byCode.values()).sort((a, b) =>
+    order(a.code) - order(b.code) || a.code.localeCompare(b.code, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Format 0-based page indices as 1-based ranges, e.g. "1–3, 5"
+ */
+export function formatPageRanges(pages: number[]): string {
+  const ranges: string[] = [];
+
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(pages[i] === start ? `${start + 1}` : `${start + 1}–${pages[i] + 1}`);
+  }
+
+  return ranges.join(', ');
+}
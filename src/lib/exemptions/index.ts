@@ -0,0 +1,44 @@
+/**
+ * Exemption Codes Module
+ *
+ * Reasons printed on redaction boxes (FOIA, Privacy Act, GDPR Art. 9 or
+ * custom codes) and the exemption index appended to exported PDFs.
+ */
+
+export {
+  FOIA_CODE_SET,
+  PRIVACY_ACT_CODE_SET,
+  GDPR_ARTICLE_9_CODE_SET,
+  BUILT_IN_CODE_SETS
+} from './codes';
+export {
+  parseCodeList,
+  getCustomCodeSets,
+  getCodeSets,
+  addCustomCodeSet,
+  deleteCustomCodeSet,
+  getActiveCodeSet,
+  setActiveCodeSet,
+  getTypeExemptions,
+  setTypeExemption,
+  getLabelPlacement,
+  setLabelPlacement,
+  isIndexPageEnabled,
+  setIndexPageEnabled
+} from './settings';
+export {
+  exemptionTypeKey,
+  resolveExemption,
+  resolvePageExemptions,
+  describeExemption,
+  summarizeExemptions,
+  formatPageRanges
+} from './exemptions';
+export {
+  INSIDE_LABEL_COLOR,
+  BESIDE_LABEL_COLOR,
+  layoutLabel,
+  drawExemptionLabel
+} from './labels';
+export type { LabelLayout } from './labels';
+export type { ExemptionCode, ExemptionCodeSet, LabelPlacement, ExemptionSummaryEntry } from './types';
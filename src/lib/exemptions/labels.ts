@@ -0,0 +1,81 @@
+/**
+ * Exemption Label Layout
+ *
+ * Places a code inside its box when it fits at a readable size, and
+ * beside the box otherwise. Shared by the canvas preview, rasterized
+ * exports and pdf-lib exports so all three put labels in the same place.
+ */
+
+import type { Box } from '../pdf/find';
+import type { LabelPlacement } from './types';
+
+/** Text color for labels inside the (black) box */
+export const INSIDE_LABEL_COLOR = '#ffffff';
+/** Text color for labels beside the box, drawn over the page */
+export const BESIDE_LABEL_COLOR = '#b00020';
+
+export interface LabelLayout {
+  /** Left edge of the text */
+  x: number;
+  /** Font size */
+  size: number;
+  /** Where the label ended up (inside falls back to beside when it doesn't fit) */
+  placement: LabelPlacement;
+}
+
+/**
+ * Lay out a label for a box
+ *
+ * @param widthPerUnit - Text width at font size 1
+ * @param box - Box position; only the horizontal extent and height are used
+ * @param placement - Preferred placement
+ * @param pageWidth - Page width, to keep beside labels on the page
+ * @param minSize - Smallest readable font size in the same units
+ */
+export function layoutLabel(
+  widthPerUnit: number,
+  box: { x: number; w: number; h: number },
+  placement: LabelPlacement,
+  pageWidth: number,
+  minSize: number
+): LabelLayout {
+  if (placement === 'inside' && widthPerUnit > 0) {
+    const size = Math.min(box.h * 0.7, (box.w * 0.9) / widthPerUnit);
+    if (size >= minSize) {
+      return { x: box.x + (box.w - widthPerUnit * size) / 2, size, placement: 'inside' };
+    }
+  }
+
+  const size = Math.max(minSize, Math.min(box.h * 0.7, minSize * 2));
+  const width = widthPerUnit * size;
+  const gap = size * 0.3;
+  let x = box.x + box.w + gap;
+  if (x + width > pageWidth) {
+    x = Math.max(0, box.x - gap - width);
+  }
+
+  return { x, size, placement: 'beside' };
+}
+
+/**
+ * Draw a box's code on a canvas (canvas pixels, top-left origin)
+ */
+export function drawExemptionLabel(
+  ctx: CanvasRenderingContext2D,
+  box: Box,
+  code: string,
+  placement: LabelPlacement,
+  minSize: number = 12
+): void {
+  ctx.save();
+  // Measured at a large size since browsers round tiny font sizes
+  ctx.font = 'bold 100px Arial, sans-serif';
+  const layout = layoutLabel(ctx.measureText(code).width / 100, box, placement, ctx.canvas.width, minSize);
+
+  ctx.font = `bold ${layout.size}px Arial, sans-serif`;
+  ctx.fillStyle = layout.placement === 'inside' ? INSIDE_LABEL_COLOR : BESIDE_LABEL_COLOR;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(code, layout.x, box.y + box.h / 2);
+  ctx.restore();
+}
@@ -0,0 +1,167 @@
+/**
+ * Exemption Code Settings
+ *
+ * Custom code sets, the active set, default codes per detection type and
+ * label layout, stored in localStorage.
+ */
+
+import { BUILT_IN_CODE_SETS, FOIA_CODE_SET } from './codes';
+import type { ExemptionCode, ExemptionCodeSet, LabelPlacement } from './types';
+
+const CUSTOM_SETS_KEY = 'exemption-custom-sets';
+const ACTIVE_SET_KEY = 'exemption-code-set';
+const TYPE_CODES_KEY = 'exemption-type-codes';
+const PLACEMENT_KEY = 'exemption-label-placement';
+const INDEX_PAGE_KEY = 'exemption-index-page';
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+}
+
+/**
+ * Parse pasted codes, one per line as "CODE - description" (or tab-separated)
+ */
+export function parseCodeList(text: string): ExemptionCode[] {
+  const codes: ExemptionCode[] = [];
+  const seen = new Set<string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const [code, ...rest] = line.split(/\t|\s+[-–—]\s+/);
+    const trimmed = code.trim();
+    if (!trimmed || seen.has(trimmed)) continue;
+
+    seen.add(trimmed);
+    codes.push({ code: trimmed, description: rest.join(' - ').trim() });
+  }
+
+  return codes;
+}
+
+export function getCustomCodeSets(): ExemptionCodeSet[] {
+  return readJson<ExemptionCodeSet[]>(CUSTOM_SETS_KEY, []);
+}
+
+/**
+ * Built-in sets followed by custom ones
+ */
+export function getCodeSets(): ExemptionCodeSet[] {
+  return [...BUILT_IN_CODE_SETS, ...getCustomCodeSets()];
+}
+
+/**
+ * Save a custom code set
+ * @throws Error if the set has no codes
+ */
+export function addCustomCodeSet(name: string, codes: ExemptionCode[]): ExemptionCodeSet {
+  if (codes.length === 0) {
+    throw new Error('A code set needs at least one code');
+  }
+
+  const set: ExemptionCodeSet = {
+    id: `custom-${crypto.randomUUID()}`,
+    name: name.trim() || 'Custom Codes',
+    codes,
+    builtIn: false
+  };
+  writeJson(CUSTOM_SETS_KEY, [...getCustomCodeSets(), set]);
+  return set;
+}
+
+export function deleteCustomCodeSet(id: string): void {
+  writeJson(CUSTOM_SETS_KEY, getCustomCodeSets().filter(set => set.id !== id));
+}
+
+/**
+ * Get the code set offered when assigning reasons (default: FOIA)
+ */
+export function getActiveCodeSet(): ExemptionCodeSet {
+  let id: string | null = null;
+  try {
+    id = localStorage.getItem(ACTIVE_SET_KEY);
+  } catch (error) {
+    console.error('Failed to read active code set:', error);
+  }
+  return getCodeSets().find(set => set.id === id) ?? FOIA_CODE_SET;
+}
+
+export function setActiveCodeSet(id: string): void {
+  try {
+    localStorage.setItem(ACTIVE_SET_KEY, id);
+  } catch (error) {
+    console.error('Failed to save active code set:', error);
+  }
+}
+
+/**
+ * Default codes keyed by detection type (see exemptionTypeKey)
+ */
+export function getTypeExemptions(): Record<string, string> {
+  return readJson<Record<string, string>>(TYPE_CODES_KEY, {});
+}
+
+/**
+ * Set or clear (null) the code every box of a type gets unless it has its own
+ */
+export function setTypeExemption(typeKey: string, code: string | null): void {
+  const codes = getTypeExemptions();
+  if (code) {
+    codes[typeKey] = code;
+  } else {
+    delete codes[typeKey];
+  }
+  writeJson(TYPE_CODES_KEY, codes);
+}
+
+/**
+ * Get where codes are printed (default: inside the box)
+ */
+export function getLabelPlacement(): LabelPlacement {
+  try {
+    return localStorage.getItem(PLACEMENT_KEY) === 'beside' ? 'beside' : 'inside';
+  } catch (error) {
+    console.error('Failed to read label placement:', error);
+    return 'inside';
+  }
+}
+
+export function setLabelPlacement(placement: LabelPlacement): void {
+  try {
+    localStorage.setItem(PLACEMENT_KEY, placement);
+  } catch (error) {
+    console.error('Failed to save label placement:', error);
+  }
+}
+
+/**
+ * Whether exported PDFs end with an exemption index page (default: on)
+ */
+export function isIndexPageEnabled(): boolean {
+  try {
+    return localStorage.getItem(INDEX_PAGE_KEY) !== 'false';
+  } catch (error) {
+    console.error('Failed to read index page setting:', error);
+    return true;
+  }
+}
+
+export function setIndexPageEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(INDEX_PAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Failed to save index page setting:', error);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Exemption Code Types
+ */
+
+/**
+ * A reason a redaction is lawful, e.g. FOIA "(b)(6)"
+ */
+export interface ExemptionCode {
+  /** Short label printed on the box */
+  code: string;
+  /** What the code covers, listed on the exemption index page */
+  description: string;
+}
+
+export interface ExemptionCodeSet {
+  id: string;
+  name: string;
+  codes: ExemptionCode[];
+  builtIn: boolean;
+}
+
+/**
+ * Where a box's code is printed
+ * - inside: white text centered in the box
+ * - beside: dark text just right of the box (left if there is no room)
+ */
+export type LabelPlacement = 'inside' | 'beside';
+
+/**
+ * One row of the exemption index: a code and where it was applied
+ */
+export interface ExemptionSummaryEntry {
+  code: string;
+  description?: string;
+  count: number;
+  /** Page indices (0-based, ascending) */
+  pages: number[];
+}
@@ -9,8 +9,11 @@ import type {
   DocumentMetadata,
   RenderOptions,
   ExportOptions,
+  RedactOptions,
+  RedactionRecord,
   TextExtractionResult,
-  FormatCapabilities
+  FormatCapabilities,
+  FormatDetection
 } from './types';
 
 export abstract class DocumentFormat {
@@ -84,9 +87,10 @@ export abstract class DocumentFormat {
    *
    * @param doc - The document to redact
    * @param boxes - Array of bounding boxes to redact
+   * @param options - Replacement text, for formats with capabilities.supportsReplacement
    * @returns Promise<void>
    */
-  abstract redact(doc: Document, boxes: BoundingBox[]): Promise<void>;
+  abstract redact(doc: Document, boxes: BoundingBox[], options?: RedactOptions): Promise<void>;
 
   /**
    * Export the redacted document
@@ -120,6 +124,54 @@ export abstract class DocumentFormat {
     return this.supportedExtensions.includes(extension);
   }
 
+  /**
+   * Detections found by the format while loading
+   * Added to the regex/ML detections; most formats leave detection to those
+   *
+   * @param doc - The loaded document
+   * @returns FormatDetection[] - Values found by the format itself
+   */
+  getFormatDetections(_doc: Document): FormatDetection[] {
+    return [];
+  }
+
+  /**
+   * Reasons an export may not be fully scrubbed, such as parts of the file
+   * detection never saw; the user must accept them before exporting
+   *
+   * @param doc - The loaded document
+   * @returns string[] - One message per gap
+   */
+  getExportWarnings(_doc: Document): string[] {
+    return [];
+  }
+
+  /**
+   * Boxes covering every data cell of a column, for whole-column redaction
+   * Only tabular formats have columns; others return none
+   *
+   * @param doc - The loaded document
+   * @param column - 0-based column index
+   * @param sheet - Sheet index, for workbooks
+   * @returns BoundingBox[] - One box per cell below the header row
+   */
+  getColumnBoxes(_doc: Document, _column: number, _sheet?: number): BoundingBox[] {
+    return [];
+  }
+
+  /**
+   * Restore redactions in a redacted document, from the records redact()
+   * reported (see RedactOptions.onRedacted)
+   * Only formats that rewrite text support this.
+   *
+   * @param doc - The redacted document, loaded from the exported file
+   * @param records - Redactions to restore
+   * @returns Promise<number> - How many were restored
+   */
+  async unredact(_doc: Document, _records: RedactionRecord[]): Promise<number> {
+    throw new Error(`${this.formatName} files cannot be unredacted`);
+  }
+
   /**
    * Get file extension from filename
    *
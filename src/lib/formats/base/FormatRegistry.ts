@@ -22,6 +22,12 @@
 import type { DocumentFormat } from './DocumentFormat';
 import { MIME_TYPES, FILE_EXTENSIONS } from './types';
 
+/**
+ * MIME types browsers report for many kinds of files (.log files are
+ * text/plain); a known extension is more specific
+ */
+const GENERIC_MIME_TYPES = new Set(['text/plain']);
+
 /**
  * Registry of all supported document formats
  *
@@ -56,14 +62,39 @@ export class FormatRegistry {
     this.register('txt', () => new PlainTextFormat());
     this.register('md', () => new PlainTextFormat());
 
+    const { LogFormat } = await import('../text/LogFormat');
+    this.register('log', () => new LogFormat());
+
     // Register CSV/TSV format (Phase 2)
     const { CsvFormat } = await import('../structured/CsvFormat');
     this.register('csv', () => new CsvFormat());
     this.register('tsv', () => new CsvFormat());
 
+    const { JsonFormat } = await import('../structured/JsonFormat');
+    this.register('json', () => new JsonFormat());
+    this.register('jsonl', () => new JsonFormat());
+
+    // Register Office formats (Phase 3)
+    const { DocxFormat } = await import('../office/DocxFormat');
+    this.register('docx', () => new DocxFormat());
+
+    const { XlsxFormat } = await import('../office/XlsxFormat');
+    this.register('xlsx', () => new XlsxFormat());
+
+    const { PptxFormat } = await import('../office/PptxFormat');
+    this.register('pptx', () => new PptxFormat());
+
+    // Register rich text formats (Phase 4)
+    const { HtmlFormat } = await import('../rich/HtmlFormat');
+    this.register('html', () => new HtmlFormat());
+
+    // Register email formats
+    const { EmailFormat } = await import('../email/EmailFormat');
+    this.register('eml', () => new EmailFormat());
+    this.register('mbox', () => new EmailFormat());
+
     // Future format registrations will go here
-    // Phase 3: DOCX, XLSX, PPTX
-    // Phase 4: RTF, HTML, EPUB
+    // Phase 4: RTF, EPUB
 
     this.initialized = true;
   }
@@ -115,8 +146,8 @@ export class FormatRegistry {
    * Detect format identifier from file without loading handler
    *
    * Examines MIME type and file extension to determine the format identifier.
-   * Prefers MIME type over extension as it's more reliable. Returns null if
-   * the format cannot be determined.
+   * Prefers MIME type over extension as it's more reliable, except for generic
+   * types such as text/plain. Returns null if the format cannot be determined.
    *
    * @param {File} file - The file to detect
    * @returns {string | null} Format identifier (e.g., 'pdf', 'txt', 'csv') or null
@@ -128,13 +159,15 @@ export class FormatRegistry {
    * ```
    */
   static detectFormat(file: File): string | null {
-    // Try MIME type first (most reliable)
-    if (file.type && MIME_TYPES[file.type]) {
+    const extension = this.getFileExtension(file.name);
+
+    // Try MIME type first (most reliable), unless it is generic
+    const refinedByExtension = GENERIC_MIME_TYPES.has(file.type) && Boolean(FILE_EXTENSIONS[extension]);
+    if (file.type && MIME_TYPES[file.type] && !refinedByExtension) {
       return MIME_TYPES[file.type];
     }
 
     // Fallback to file extension
-    const extension = this.getFileExtension(file.name);
     if (extension && FILE_EXTENSIONS[extension]) {
       return FILE_EXTENSIONS[extension];
     }
@@ -230,10 +263,15 @@ export class FormatRegistry {
       'pptx': 'PowerPoint Presentation',
       'txt': 'Plain Text',
       'md': 'Markdown',
+      'log': 'Log File',
       'csv': 'CSV File',
       'tsv': 'TSV File',
+      'json': 'JSON Data',
+      'jsonl': 'JSON Lines',
       'rtf': 'Rich Text Format',
       'html': 'HTML Document',
+      'eml': 'Email Message',
+      'mbox': 'Mailbox',
       'epub': 'EPUB eBook',
       'mobi': 'Mobi eBook'
     };
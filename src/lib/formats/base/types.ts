@@ -175,6 +175,49 @@ export interface ExportOptions {
   [key: string]: any;     // Format-specific options
 }
 
+/**
+ * Where a text-rewriting format wrote one redaction
+ *
+ * Enough to put the original back into the exported file (see
+ * DocumentFormat.unredact), so records must be kept apart from it.
+ *
+ * @interface RedactionRecord
+ * @property {string} id - Unique redaction ID
+ * @property {string} original - The text that was removed
+ * @property {string} replacement - The text written in its place
+ * @property {string} [type] - PII type identifier
+ * @property {number} [line] - Line index (line-based formats)
+ * @property {number} [offset] - Character offset of the replacement in the redacted line
+ * @property {number} [row] - Row index (table-based formats)
+ * @property {number} [column] - Column index (table-based formats)
+ */
+export interface RedactionRecord {
+  id: string;
+  original: string;
+  replacement: string;
+  type?: string;
+  line?: number;
+  offset?: number;
+  row?: number;
+  column?: number;
+}
+
+/**
+ * Options for applying redactions
+ *
+ * Formats that rewrite text (TXT, CSV) use `replace` for the replacement
+ * text instead of their mask characters, e.g. to write pseudonyms, and
+ * report each replacement to `onRedacted`.
+ *
+ * @interface RedactOptions
+ * @property {Function} [replace] - Returns the replacement for a redacted value and its PII type
+ * @property {Function} [onRedacted] - Called with the record of each replacement written
+ */
+export interface RedactOptions {
+  replace?: (text: string, type?: string) => Promise<string>;
+  onRedacted?: (record: RedactionRecord) => void;
+}
+
 /**
  * Document state during processing
  */
@@ -198,6 +241,17 @@ export interface TextExtractionResult {
   characterPositions?: CharacterPosition[]; // For precise mapping
 }
 
+/**
+ * Sensitive value found by a format handler itself
+ * Formats that understand their own structure (such as log fields) report
+ * values the shared detectors would miss
+ */
+export interface FormatDetection {
+  text: string;
+  type: string;       // PII type (ip, session, token, etc.)
+  confidence: number; // 0.0 to 1.0
+}
+
 /**
  * Character position for precise text mapping
  */
@@ -229,6 +283,7 @@ export interface CharacterPosition {
  * @property {boolean} supportsDirectExport - Can export in original format
  * @property {boolean} requiresFlattening - Must be flattened for security (e.g., PDFs)
  * @property {string[]} supportedExportFormats - List of available export formats
+ * @property {boolean} [supportsReplacement] - redact() honors RedactOptions (pseudonyms, vault records)
  *
  * @example
  * ```typescript
@@ -253,6 +308,7 @@ export interface FormatCapabilities {
   supportsDirectExport: boolean;  // Can export in original format
   requiresFlattening: boolean;    // Must flatten for security
   supportedExportFormats: string[];
+  supportsReplacement?: boolean;  // redact() honors RedactOptions
 }
 
 /**
@@ -281,13 +337,21 @@ export const MIME_TYPES: Record<string, string> = {
   // Text formats
   'text/plain': 'txt',
   'text/markdown': 'md',
+  'text/x-log': 'log',
   'text/csv': 'csv',
   'text/tab-separated-values': 'tsv',
+  'application/json': 'json',
+  'application/x-ndjson': 'jsonl',
+  'application/jsonl': 'jsonl',
   'application/rtf': 'rtf',
   'text/rtf': 'rtf',
   'text/html': 'html',
   'application/xhtml+xml': 'html',
 
+  // Email
+  'message/rfc822': 'eml',
+  'application/mbox': 'mbox',
+
   // E-books
   'application/epub+zip': 'epub',
   'application/x-mobipocket-ebook': 'mobi'
@@ -320,12 +384,20 @@ export const FILE_EXTENSIONS: Record<string, string> = {
   'txt': 'txt',
   'md': 'md',
   'markdown': 'md',
+  'log': 'log',
   'csv': 'csv',
   'tsv': 'tsv',
+  'json': 'json',
+  'jsonl': 'jsonl',
+  'ndjson': 'jsonl',
   'rtf': 'rtf',
   'html': 'html',
   'htm': 'html',
 
+  // Email
+  'eml': 'eml',
+  'mbox': 'mbox',
+
   // E-books
   'epub': 'epub',
   'mobi': 'mobi'
@@ -0,0 +1,690 @@
+/**
+ * Email format handler (.eml and .mbox)
+ * Parses RFC 5322 / MIME messages, runs detection across headers, bodies
+ * and attachments, and rebuilds the message with every part redacted by
+ * its own handler
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import type {
+  BoundingBox,
+  CharacterPosition,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+import { createPartHandler, type PartHandler } from './attachments';
+import {
+  binaryToBytes,
+  bytesToBinary,
+  decodeBody,
+  decodeCharset,
+  decodeHeaderValue,
+  encodeHeaderValue,
+  foldHeader,
+  getHeader,
+  joinMbox,
+  parseHeaderParams,
+  parseMessage,
+  removeHeaders,
+  serializeMessage,
+  setBody,
+  setHeader,
+  setHeaderParam,
+  splitMbox,
+  type MimeHeader,
+  type MimePart
+} from './mime';
+
+const EML_MIME = 'message/rfc822';
+const MBOX_MIME = 'application/mbox';
+const REDACTION_CHAR = '█';
+
+/** Replacement for addresses whose mailbox was redacted */
+const REDACTED_ADDRESS = 'redacted@redacted.invalid';
+
+/** Approximate layout used for box and character coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/** Headers that describe the MIME structure rather than the message */
+const STRUCTURAL_HEADERS = new Set([
+  'content-type', 'content-transfer-encoding', 'content-disposition', 'content-id', 'mime-version'
+]);
+
+/** Signatures that stop verifying after redaction and hash the original body */
+const SIGNATURE_HEADER = /^(dkim-signature|x-google-dkim-signature|domainkey-signature|arc-.*)$/;
+
+/** Headers holding address lists */
+const ADDRESS_HEADERS = new Set([
+  'from', 'to', 'cc', 'bcc', 'reply-to', 'sender', 'return-path', 'delivered-to',
+  'resent-from', 'resent-to', 'resent-cc', 'resent-bcc'
+]);
+
+/** File extensions for bodies without a filename, so handlers can be found */
+const BODY_EXTENSIONS: Record<string, string> = {
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'text/csv': 'csv',
+  'message/rfc822': 'eml'
+};
+
+/**
+ * A navigable block of a message
+ * - headers: the message's header fields, one per line
+ * - body: an inline text or HTML part
+ * - attachment: a file part (its filename is the first line)
+ */
+interface EmailSection {
+  kind: 'headers' | 'body' | 'attachment';
+  message: number;
+  title: string;
+  part: MimePart;
+  headers: MimeHeader[];        // Detectable headers (headers sections only)
+  filename: string | null;
+  handler: PartHandler | null;  // Null for headers and parts kept unchanged
+  lines: string[];
+}
+
+interface EmailMessage {
+  separator: string | null; // mbox "From " line
+  root: MimePart;
+}
+
+/**
+ * Internal content structure for email documents
+ */
+interface EmailContent {
+  mbox: boolean;
+  messages: EmailMessage[];
+  sections: EmailSection[];
+  lineMap: Array<{ section: number; line: number }>;
+  fullText: string;
+}
+
+export class EmailFormat extends DocumentFormat {
+  readonly formatId = 'eml';
+  readonly formatName = 'Email Message';
+  readonly supportedExtensions = ['eml', 'mbox'];
+  readonly mimeTypes = [EML_MIME, MBOX_MIME];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: true,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['eml', 'mbox']
+  };
+
+  /**
+   * Load an .eml message or an .mbox mailbox
+   * Every body and attachment is decoded and loaded through its own handler
+   */
+  async load(file: File): Promise<Document> {
+    const raw = bytesToBinary(await this.readFileAsBytes(file));
+    const mbox = /\.mbox$/i.test(file.name) || file.type === MBOX_MIME || raw.startsWith('From ');
+
+    const messages: EmailMessage[] = mbox
+      ? splitMbox(raw).map(({ separator, message }) => ({ separator, root: parseMessage(message) }))
+      : [{ separator: null, root: parseMessage(raw) }];
+
+    if (messages.length === 0) {
+      throw new Error(`${file.name} does not contain any messages`);
+    }
+
+    const content: EmailContent = { mbox, messages, sections: [], lineMap: [], fullText: '' };
+
+    for (let index = 0; index < messages.length; index++) {
+      const { root } = messages[index];
+      const headers = root.headers.filter((header) => isDetectableHeader(header.name));
+
+      content.sections.push({
+        kind: 'headers',
+        message: index,
+        title: 'Headers',
+        part: root,
+        headers,
+        filename: null,
+        handler: null,
+        lines: headers.map((header) => decodeHeaderValue(header.value))
+      });
+
+      await this.collectParts(content, index, root);
+    }
+
+    this.updateLines(content);
+
+    const subject = getHeader(messages[0].root, 'subject');
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || (mbox ? MBOX_MIME : EML_MIME),
+      messageCount: messages.length,
+      attachmentCount: content.sections.filter((section) => section.kind === 'attachment').length,
+      subject: subject ? decodeHeaderValue(subject) : undefined,
+      format: this.formatId,
+      privacyRisks: this.findPrivacyRisks(content)
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render messages as headers, bodies and attachments with a section list
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as EmailContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+
+    const emailContainer = document.createElement('div');
+    emailContainer.className = 'email-container';
+    emailContainer.style.cssText = `
+      display: flex;
+      gap: 16px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      background: #fafafa;
+      max-height: 700px;
+    `;
+
+    const nav = document.createElement('nav');
+    nav.className = 'email-sections';
+    nav.style.cssText = `
+      flex: 0 0 200px;
+      padding: 12px;
+      border-right: 1px solid #ddd;
+      overflow-y: auto;
+      font-size: 13px;
+    `;
+
+    const sectionsEl = document.createElement('div');
+    sectionsEl.style.cssText = 'flex: 1; padding: 12px 16px; overflow-y: auto;';
+
+    for (const [index, section] of content.sections.entries()) {
+      if (content.messages.length > 1 && section.kind === 'headers') {
+        const messageLabel = document.createElement('div');
+        messageLabel.textContent = `Message ${section.message + 1}`;
+        messageLabel.style.cssText = 'font-weight: 600; margin: 8px 0 4px;';
+        nav.appendChild(messageLabel);
+      }
+
+      const sectionEl = document.createElement('section');
+      sectionEl.className = `email-section email-${section.kind}`;
+      sectionEl.dataset.section = String(index);
+      sectionEl.style.cssText = 'margin-bottom: 20px;';
+
+      const heading = document.createElement('h3');
+      heading.textContent = section.title;
+      heading.style.cssText = 'font-size: 14px; margin: 0 0 8px; color: #333;';
+      sectionEl.appendChild(heading);
+      sectionEl.appendChild(await this.renderSection(section));
+      sectionsEl.appendChild(sectionEl);
+
+      const link = document.createElement('button');
+      link.type = 'button';
+      link.textContent = section.title;
+      link.style.cssText = `
+        display: block;
+        width: 100%;
+        text-align: left;
+        padding: 4px 6px;
+        border: none;
+        background: none;
+        cursor: pointer;
+        color: #0066cc;
+      `;
+      link.addEventListener('click', () => sectionEl.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+      nav.appendChild(link);
+    }
+
+    emailContainer.append(nav, sectionsEl);
+    container.appendChild(emailContainer);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text from every section, one header or body line per line
+   * Page text is grouped per message
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as EmailContent;
+    const characterPositions: CharacterPosition[] = [];
+    const pageText = new Map<number, string>();
+    const lineText: string[] = [];
+    let index = 0;
+
+    content.lineMap.forEach(({ section, line }, lineIndex) => {
+      const { message, lines } = content.sections[section];
+      const text = lines[line];
+      lineText.push(text);
+      pageText.set(message, pageText.has(message) ? `${pageText.get(message)}\n${text}` : text);
+
+      for (let column = 0; column < text.length; column++) {
+        characterPositions.push({
+          char: text[column],
+          index: index + column,
+          x: column * CHAR_WIDTH,
+          y: lineIndex * LINE_HEIGHT,
+          w: CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          page: message,
+          line: lineIndex,
+          column
+        });
+      }
+      index += text.length + 1; // Line separator
+    });
+
+    return {
+      fullText: content.fullText,
+      pageText,
+      lineText,
+      characterPositions
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms
+   * Searches every message unless one is given as the page
+   */
+  async findTextBoxes(doc: Document, terms: string[], page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as EmailContent;
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      content.lineMap.forEach(({ section, line }, lineIndex) => {
+        const { message, lines } = content.sections[section];
+        if (page !== undefined && message !== page) return;
+
+        const text = lines[line];
+        const lowerText = text.toLowerCase();
+        let startIndex = 0;
+
+        while (true) {
+          const index = lowerText.indexOf(lowerTerm, startIndex);
+          if (index === -1) break;
+
+          boxes.push({
+            x: index * CHAR_WIDTH,
+            y: lineIndex * LINE_HEIGHT,
+            w: term.length * CHAR_WIDTH,
+            h: LINE_HEIGHT,
+            text: text.substring(index, index + term.length),
+            page: message,
+            line: lineIndex,
+            source: 'regex'
+          });
+          startIndex = index + 1;
+        }
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Header values and filenames are rewritten here; bodies and attachments
+   * are redacted by their own handlers (every occurrence in that part)
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as EmailContent;
+
+    for (const box of boxes) {
+      if (!box.text) continue;
+
+      const targets = box.line !== undefined
+        ? [content.lineMap[box.line]].filter(Boolean)
+        : content.sections.flatMap((section, index) => section.lines.map((_text, line) => ({ section: index, line })));
+
+      for (const { section: sectionIndex, line } of targets) {
+        await this.redactLine(content.sections[sectionIndex], line, box.text);
+      }
+    }
+
+    this.updateLines(content);
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+  }
+
+  /**
+   * Export the redacted message (.eml) or mailbox (.mbox)
+   * Bodies and attachments are re-encoded from their handlers' exports and
+   * DKIM/ARC signatures are removed
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as EmailContent;
+
+    for (const section of content.sections) {
+      if (section.kind === 'headers' || !section.handler) continue;
+
+      setBody(section.part, await section.handler.export());
+
+      if (section.part.contentType.startsWith('text/')) {
+        const contentType = getHeader(section.part, 'content-type') ?? section.part.contentType;
+        setHeader(section.part, 'Content-Type', setHeaderParam(contentType, 'charset', 'utf-8'));
+      }
+    }
+
+    const messages = content.messages.map(({ separator, root }) => {
+      removeHeaders(root, (name) => SIGNATURE_HEADER.test(name));
+      if (!getHeader(root, 'mime-version')) {
+        setHeader(root, 'MIME-Version', '1.0');
+      }
+      return {
+        // The envelope sender is replaced; the date is kept
+        separator: (separator ?? 'From -').replace(/^From \S+/, 'From -'),
+        message: serializeMessage(root)
+      };
+    });
+
+    const output = content.mbox ? joinMbox(messages) : messages[0].message;
+    return new Blob([binaryToBytes(output) as BlobPart], { type: content.mbox ? MBOX_MIME : EML_MIME });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // Part handlers are released with the document
+  }
+
+  /**
+   * Walk a MIME tree in order, creating body and attachment sections
+   */
+  private async collectParts(content: EmailContent, message: number, part: MimePart): Promise<void> {
+    if (part.children.length > 0) {
+      for (const child of part.children) {
+        await this.collectParts(content, message, child);
+      }
+      return;
+    }
+
+    const disposition = parseHeaderParams(getHeader(part, 'content-disposition') ?? '');
+    const rawFilename = disposition.params.filename ?? part.params.name;
+    const filename = rawFilename !== undefined ? decodeHeaderValue(rawFilename) : null;
+    const isAttachment = disposition.value.toLowerCase() === 'attachment'
+      || (filename !== null && !part.contentType.startsWith('text/'));
+
+    const bytes = decodeBody(part);
+    const name = filename ?? `body.${BODY_EXTENSIONS[part.contentType] ?? 'bin'}`;
+    const file = part.contentType.startsWith('text/')
+      ? new File([decodeCharset(bytes, part.params.charset)], name, { type: part.contentType })
+      : new File([bytes as BlobPart], name, { type: part.contentType });
+
+    let handler: PartHandler | null = null;
+    let text = '';
+    try {
+      handler = await createPartHandler(file);
+      text = handler ? await handler.extractText() : '';
+    } catch (error) {
+      console.warn(`Could not read ${name}; it will be kept unchanged:`, error);
+      handler = null;
+    }
+
+    const lines = text.split('\n');
+    content.sections.push({
+      kind: isAttachment ? 'attachment' : 'body',
+      message,
+      title: isAttachment ? `Attachment: ${name}` : `Body (${part.contentType})`,
+      part,
+      headers: [],
+      filename,
+      handler,
+      lines: filename !== null ? [filename, ...lines] : lines
+    });
+  }
+
+  private updateLines(content: EmailContent): void {
+    content.lineMap = content.sections.flatMap((section, index) =>
+      section.lines.map((_text, line) => ({ section: index, line }))
+    );
+    content.fullText = content.lineMap
+      .map(({ section, line }) => content.sections[section].lines[line])
+      .join('\n');
+  }
+
+  private async redactLine(section: EmailSection, line: number, term: string): Promise<void> {
+    const redacted = replaceAll(section.lines[line], term);
+    if (redacted === section.lines[line]) return;
+
+    if (section.kind === 'headers') {
+      const header = section.headers[line];
+      let value = redacted;
+      if (ADDRESS_HEADERS.has(header.name.toLowerCase())) {
+        value = redactAddresses(value);
+      }
+      header.value = encodeHeaderValue(value);
+      header.raw = foldHeader(header.name, header.value);
+      section.lines[line] = redacted;
+      return;
+    }
+
+    if (section.filename !== null && line === 0) {
+      section.filename = redacted;
+      section.lines[0] = redacted;
+      const disposition = getHeader(section.part, 'content-disposition');
+      if (disposition) {
+        setHeader(section.part, 'Content-Disposition', setHeaderParam(disposition, 'filename', redacted));
+      }
+      const contentType = getHeader(section.part, 'content-type');
+      if (contentType && section.part.params.name) {
+        setHeader(section.part, 'Content-Type', setHeaderParam(contentType, 'name', redacted));
+      }
+      return;
+    }
+
+    if (section.handler) {
+      await section.handler.redact(term);
+      const text = await section.handler.extractText();
+      const lines = text.split('\n');
+      section.lines = section.filename !== null ? [section.filename, ...lines] : lines;
+    }
+  }
+
+  private async renderSection(section: EmailSection): Promise<HTMLElement> {
+    if (section.kind === 'headers') {
+      const table = document.createElement('table');
+      table.style.cssText = 'border-collapse: collapse; font-size: 13px; width: 100%;';
+
+      section.headers.forEach((header, index) => {
+        const row = document.createElement('tr');
+        const name = document.createElement('th');
+        name.textContent = header.name;
+        name.style.cssText = 'text-align: left; vertical-align: top; padding: 2px 12px 2px 0; color: #666; white-space: nowrap;';
+        const value = document.createElement('td');
+        value.style.cssText = 'padding: 2px 0; word-break: break-word;';
+        value.appendChild(highlightRedactions(section.lines[index]));
+        row.append(name, value);
+        table.appendChild(row);
+      });
+
+      return table;
+    }
+
+    const body = document.createElement('div');
+
+    if (section.handler?.render) {
+      await section.handler.render(body);
+      return body;
+    }
+
+    const pre = document.createElement('pre');
+    pre.style.cssText = 'white-space: pre-wrap; font-size: 13px; margin: 0;';
+    const lines = section.filename !== null ? section.lines.slice(1) : section.lines;
+
+    if (!section.handler) {
+      pre.textContent = `${section.part.contentType} — kept unchanged in the export (cannot be redacted)`;
+    } else if (section.handler.kind === 'image') {
+      pre.textContent = 'Image — metadata is stripped on export; text in the image is not checked';
+    } else {
+      pre.appendChild(highlightRedactions(lines.join('\n')));
+    }
+
+    body.appendChild(pre);
+    return body;
+  }
+
+  /**
+   * Report routing headers, parts that cannot be redacted and the risks
+   * found by each attachment's own handler
+   */
+  private findPrivacyRisks(content: EmailContent): PrivacyRisk[] {
+    const risks: PrivacyRisk[] = [];
+
+    const received = content.messages
+      .flatMap(({ root }) => root.headers)
+      .filter((header) => /^(received|x-originating-ip)$/i.test(header.name));
+
+    if (received.length > 0) {
+      risks.push({
+        id: 'email-routing-headers',
+        category: 'Device Info',
+        severity: 'medium',
+        title: 'Routing Headers',
+        description: 'Received headers record each server the message passed through, often including the sender\'s IP address. They are checked for PII like the rest of the message.',
+        found: true,
+        details: `${received.length} header(s)`
+      });
+    }
+
+    const attachments = content.sections.filter((section) => section.kind !== 'headers');
+    const unsupported = attachments.filter((section) => !section.handler);
+    const images = attachments.filter((section) => section.handler?.kind === 'image');
+    const describe = (sections: EmailSection[]) => sections
+      .map((section) => section.filename ?? section.part.contentType)
+      .join(', ');
+
+    if (unsupported.length > 0) {
+      risks.push({
+        id: 'email-unredacted-attachments',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Attachments That Cannot Be Redacted',
+        description: 'These parts are not a supported format and are kept unchanged in the export. Review or remove them separately.',
+        found: true,
+        details: describe(unsupported)
+      });
+    }
+
+    if (images.length > 0) {
+      risks.push({
+        id: 'email-image-attachments',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'Image Attachments',
+        description: 'Image metadata is stripped on export, but text inside images is not checked. Redact them in the image editor if needed.',
+        found: true,
+        details: describe(images)
+      });
+    }
+
+    for (const section of attachments) {
+      for (const risk of section.handler?.privacyRisks ?? []) {
+        risks.push({
+          ...risk,
+          id: `email-part-${risk.id}`,
+          details: `${section.filename ?? section.part.contentType}${risk.details ? `: ${risk.details}` : ''}`
+        });
+      }
+    }
+
+    return risks;
+  }
+
+  /**
+   * Read file as bytes using FileReader (compatible with test environments)
+   */
+  private readFileAsBytes(file: File): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(file);
+    });
+  }
+}
+
+function isDetectableHeader(name: string): boolean {
+  const lower = name.toLowerCase();
+  return !STRUCTURAL_HEADERS.has(lower) && !SIGNATURE_HEADER.test(lower);
+}
+
+function replaceAll(text: string, term: string): string {
+  const lowerTerm = term.toLowerCase();
+  let result = text;
+  let index = result.toLowerCase().indexOf(lowerTerm);
+
+  while (index >= 0 && lowerTerm.length > 0) {
+    result = result.substring(0, index) + REDACTION_CHAR.repeat(term.length) + result.substring(index + term.length);
+    index = result.toLowerCase().indexOf(lowerTerm, index + term.length);
+  }
+
+  return result;
+}
+
+/**
+ * Keep address headers parseable: a mailbox whose address was redacted is
+ * replaced with a placeholder address, display names keep their redaction
+ */
+function redactAddresses(value: string): string {
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((mailbox) => {
+      if (!mailbox.includes(REDACTION_CHAR)) return mailbox.trim();
+
+      const angle = mailbox.match(/^(.*)<([^>]*)>\s*$/);
+      if (!angle) return REDACTED_ADDRESS;
+
+      // Redacted display names are written as encoded words, which cannot be quoted
+      let name = angle[1].trim();
+      if (name.includes(REDACTION_CHAR)) {
+        name = name.replace(/^"(.*)"$/, '$1').replace(/[",;:<>@\\]/g, '');
+      }
+      const address = angle[2].includes(REDACTION_CHAR) ? REDACTED_ADDRESS : angle[2];
+      return name ? `${name} <${address}>` : `<${address}>`;
+    })
+    .join(', ');
+}
+
+/**
+ * Text with runs of redaction characters shown as black boxes
+ */
+function highlightRedactions(text: string): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+
+  for (const part of text.split(new RegExp(`(${REDACTION_CHAR}+)`))) {
+    if (!part) continue;
+    if (part.startsWith(REDACTION_CHAR)) {
+      const span = document.createElement('span');
+      span.className = 'redaction-box';
+      span.style.cssText = 'background-color: #000; color: #000; border-radius: 2px;';
+      span.textContent = part;
+      fragment.appendChild(span);
+    } else {
+      fragment.appendChild(document.createTextNode(part));
+    }
+  }
+
+  return fragment;
+}
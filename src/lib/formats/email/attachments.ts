@@ -0,0 +1,170 @@
+/**
+ * Redaction of message bodies and attachments through their own handlers
+ *
+ * Formats registered in FormatRegistry (text, CSV, Office, HTML, nested
+ * messages) are loaded and redacted with their DocumentFormat. PDFs go
+ * through the true-redaction export and images have their metadata
+ * stripped. Anything else is kept unchanged and reported.
+ */
+
+import { FormatRegistry } from '../base/FormatRegistry';
+import type { DocumentFormat } from '../base/DocumentFormat';
+import type { Document } from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+import { stripEmbeddedMetadata } from '../../images/exif';
+
+/** Scale used for PDF text boxes, matching the viewer */
+const PDF_SCALE = 2;
+
+/**
+ * A body or attachment that can be searched and redacted
+ */
+export interface PartHandler {
+  readonly kind: 'document' | 'pdf' | 'image';
+  /** Text used for detection */
+  extractText(): Promise<string>;
+  /** Redact every occurrence of a term */
+  redact(term: string): Promise<void>;
+  /** Redacted (or sanitized) bytes for the rebuilt message */
+  export(): Promise<Uint8Array>;
+  /** Render a preview, if the handler can */
+  render?(container: HTMLElement): Promise<void>;
+  /** Privacy risks reported by the part's own handler */
+  readonly privacyRisks: PrivacyRisk[];
+}
+
+/**
+ * Pick a handler for a decoded part, or null if it cannot be redacted
+ */
+export async function createPartHandler(file: File): Promise<PartHandler | null> {
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+    return new PdfPartHandler(file);
+  }
+
+  if (file.type.startsWith('image/')) {
+    return new ImagePartHandler(file);
+  }
+
+  if (await FormatRegistry.isSupported(file)) {
+    const format = await FormatRegistry.getFormat(file);
+    return new DocumentPartHandler(format, await format.load(file));
+  }
+
+  return null;
+}
+
+async function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  }));
+}
+
+/**
+ * Parts handled by a registered DocumentFormat
+ */
+class DocumentPartHandler implements PartHandler {
+  readonly kind = 'document';
+
+  constructor(private format: DocumentFormat, private doc: Document) {}
+
+  get privacyRisks(): PrivacyRisk[] {
+    return (this.doc.metadata.privacyRisks as PrivacyRisk[] | undefined) ?? [];
+  }
+
+  async extractText(): Promise<string> {
+    return (await this.format.extractText(this.doc)).fullText;
+  }
+
+  async redact(term: string): Promise<void> {
+    const boxes = await this.format.findTextBoxes(this.doc, [term]);
+    if (boxes.length > 0) {
+      await this.format.redact(this.doc, boxes);
+    }
+  }
+
+  async export(): Promise<Uint8Array> {
+    return readBytes(await this.format.export(this.doc));
+  }
+
+  async render(container: HTMLElement): Promise<void> {
+    await this.format.render(this.doc, { container });
+  }
+}
+
+/**
+ * PDF attachments: text is read with pdf.js and every text item containing
+ * a redacted term is removed with the true-redaction export
+ */
+class PdfPartHandler implements PartHandler {
+  readonly kind = 'pdf';
+  readonly privacyRisks: PrivacyRisk[] = [];
+  private terms: string[] = [];
+
+  constructor(private file: File) {}
+
+  async extractText(): Promise<string> {
+    const { loadPdf } = await import('../../pdf/load');
+    const { extractPageText } = await import('../../pdf/find');
+
+    const pdf = await loadPdf(await readBytes(this.file));
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      pages.push(await extractPageText(await pdf.getPage(i)));
+    }
+    return pages.join('\n');
+  }
+
+  async redact(term: string): Promise<void> {
+    this.terms.push(term.toLowerCase());
+  }
+
+  async export(): Promise<Uint8Array> {
+    const bytes = await readBytes(this.file);
+    if (this.terms.length === 0) return bytes;
+
+    const { loadPdf } = await import('../../pdf/load');
+    const { findTextBoxes } = await import('../../pdf/find');
+    const { exportPdfWithTrueRedaction } = await import('../../pdf/export');
+
+    // pdf.js may detach the buffer it is given, so load from a copy
+    const pdf = await loadPdf(bytes.slice());
+    const pageBoxes = new Map();
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: PDF_SCALE });
+      const boxes = await findTextBoxes(page, viewport, (text) => {
+        const lower = text.toLowerCase();
+        return this.terms.some((term) => lower.includes(term));
+      });
+      if (boxes.length > 0) pageBoxes.set(i - 1, boxes);
+    }
+
+    const { pdfBytes } = await exportPdfWithTrueRedaction(bytes.buffer as ArrayBuffer, pageBoxes, PDF_SCALE);
+    return pdfBytes;
+  }
+}
+
+/**
+ * Image attachments: EXIF/XMP/text metadata is stripped; pixels are kept
+ */
+class ImagePartHandler implements PartHandler {
+  readonly kind = 'image';
+  readonly privacyRisks: PrivacyRisk[] = [];
+
+  constructor(private file: File) {}
+
+  async extractText(): Promise<string> {
+    return '';
+  }
+
+  async redact(_term: string): Promise<void> {
+    // Text in images needs OCR and manual review in the image editor
+  }
+
+  async export(): Promise<Uint8Array> {
+    return stripEmbeddedMetadata(await readBytes(this.file));
+  }
+}
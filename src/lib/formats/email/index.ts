@@ -0,0 +1,5 @@
+/**
+ * Email format handlers (EML, MBOX)
+ */
+
+export * from './EmailFormat';
@@ -0,0 +1,395 @@
+/**
+ * Minimal RFC 5322 / MIME reader and writer for the email format
+ *
+ * Messages are handled as binary strings (one char per byte) so that
+ * 8-bit bodies survive parsing and serialization unchanged. Only the
+ * parts we rewrite are decoded and re-encoded.
+ */
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76;
+
+/** Characters per RFC 2047 encoded word (each █ is 3 bytes of UTF-8) */
+const ENCODED_WORD_CHARS = 12;
+
+/**
+ * A header field
+ */
+export interface MimeHeader {
+  name: string;
+  value: string; // Unfolded value, encoded words left as-is
+  raw: string;   // Header lines as written, reused unless the value changes
+}
+
+/**
+ * A MIME entity: a whole message, a multipart container or a leaf part
+ */
+export interface MimePart {
+  headers: MimeHeader[];
+  contentType: string;            // Lowercased type/subtype, e.g. 'text/plain'
+  params: Record<string, string>; // Content-Type parameters, names lowercased
+  children: MimePart[];           // Sub-parts of multipart entities
+  body: string;                   // Raw, still transfer-encoded body
+}
+
+/**
+ * Convert bytes to a binary string (one char per byte)
+ */
+export function bytesToBinary(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+export function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for unknown labels
+ */
+export function decodeCharset(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Parse a message or body part
+ */
+export function parseMessage(raw: string): MimePart {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerEnd = separator?.index ?? raw.length;
+  const headerBlock = raw.substring(0, headerEnd);
+  const body = separator ? raw.substring(headerEnd + separator[0].length) : '';
+
+  const headers: MimeHeader[] = [];
+  for (const line of headerBlock.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      const header = headers[headers.length - 1];
+      header.value += line.replace(/^[ \t]+/, ' ');
+      header.raw += CRLF + line;
+    } else if (line.includes(':')) {
+      const colon = line.indexOf(':');
+      headers.push({ name: line.substring(0, colon).trim(), value: line.substring(colon + 1).trim(), raw: line });
+    }
+  }
+
+  const contentTypeHeader = getHeader({ headers } as MimePart, 'content-type');
+  const { value, params } = parseHeaderParams(contentTypeHeader ?? 'text/plain');
+  const part: MimePart = { headers, contentType: value.toLowerCase(), params, children: [], body };
+
+  if (part.contentType.startsWith('multipart/') && params.boundary) {
+    part.children = splitMultipart(body, params.boundary).map(parseMessage);
+  }
+
+  return part;
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `--${boundary}--`) {
+      if (current) parts.push(current.join(CRLF));
+      current = null;
+      break;
+    }
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join(CRLF));
+      current = [];
+      continue;
+    }
+    current?.push(line); // Preamble lines are dropped
+  }
+
+  if (current) parts.push(current.join(CRLF)); // Unterminated multipart
+  return parts;
+}
+
+/**
+ * Serialize a part, regenerating multipart bodies from their children
+ */
+export function serializeMessage(part: MimePart): string {
+  const head = part.headers.map((header) => header.raw).join(CRLF);
+
+  if (part.children.length === 0) {
+    return `${head}${CRLF}${CRLF}${part.body}`;
+  }
+
+  const boundary = part.params.boundary;
+  const children = part.children
+    .map((child) => `--${boundary}${CRLF}${serializeMessage(child)}${CRLF}`)
+    .join('');
+  return `${head}${CRLF}${CRLF}${children}--${boundary}--${CRLF}`;
+}
+
+export function getHeader(part: MimePart, name: string): string | undefined {
+  return part.headers.find((header) => header.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Replace the first header with this name (or append it) and refold it
+ */
+export function setHeader(part: MimePart, name: string, value: string): void {
+  const header = part.headers.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+  if (header) {
+    header.value = value;
+    header.raw = foldHeader(header.name, value);
+  } else {
+    part.headers.push({ name, value, raw: foldHeader(name, value) });
+  }
+}
+
+export function removeHeaders(part: MimePart, predicate: (name: string) => boolean): void {
+  part.headers = part.headers.filter((header) => !predicate(header.name.toLowerCase()));
+}
+
+/**
+ * Split a structured header value into its main value and parameters,
+ * joining RFC 2231 continuations and decoding charset-tagged values
+ */
+export function parseHeaderParams(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = splitOutsideQuotes(header, ';');
+  const params: Record<string, string> = {};
+  const continuations: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals < 0) continue;
+
+    const key = param.substring(0, equals).trim().toLowerCase();
+    let paramValue = param.substring(equals + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const extended = key.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (extended && (extended[2] !== undefined || extended[3])) {
+      const name = extended[1];
+      (continuations[name] ??= []).push({
+        index: Number(extended[2] ?? 0),
+        value: paramValue,
+        encoded: Boolean(extended[3])
+      });
+    } else {
+      params[key] = paramValue;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continuations)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const joined = pieces.map((piece, position) => {
+      let text = piece.value;
+      if (piece.encoded && position === 0) {
+        const match = text.match(/^([^']*)'[^']*'(.*)$/);
+        if (match) {
+          charset = match[1] || charset;
+          text = match[2];
+        }
+      }
+      return piece.encoded ? text : encodeURIComponent(text);
+    }).join('');
+    params[name] = decodeCharset(percentDecode(joined), charset);
+  }
+
+  return { value: value.trim(), params };
+}
+
+/**
+ * Set a header parameter, using RFC 2231 encoding for non-ASCII values
+ */
+export function setHeaderParam(header: string, name: string, value: string): string {
+  const [main, ...rest] = splitOutsideQuotes(header, ';');
+  const kept = rest.filter((param) => {
+    const key = param.substring(0, param.indexOf('=')).trim().toLowerCase();
+    return key !== name && !key.startsWith(`${name}*`);
+  });
+
+  const encoded = /^[\x20-\x7e]*$/.test(value)
+    ? `${name}="${value.replace(/(["\\])/g, '\\$1')}"`
+    : `${name}*=utf-8''${encodeURIComponent(value)}`;
+
+  return [main.trim(), ...kept.map((param) => param.trim()), encoded].join('; ');
+}
+
+function percentDecode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(value.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(value.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted) {
+      current += char + (value[++i] ?? '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Decode a header value: raw 8-bit UTF-8 and RFC 2047 encoded words
+ */
+export function decodeHeaderValue(value: string): string {
+  const text = decodeCharset(binaryToBytes(value));
+
+  return text
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? binaryToBytes(atob(encoded))
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * Encode a header value for writing: runs of words with non-ASCII
+ * characters become UTF-8 encoded words, ASCII text is kept as-is
+ */
+export function encodeHeaderValue(text: string): string {
+  return text.replace(/\S*[^\x00-\x7f]\S*(?:\s+\S*[^\x00-\x7f]\S*)*/g, (run) => {
+    const chars = Array.from(run);
+    const words: string[] = [];
+    for (let i = 0; i < chars.length; i += ENCODED_WORD_CHARS) {
+      const chunk = chars.slice(i, i + ENCODED_WORD_CHARS).join('');
+      words.push(`=?UTF-8?B?${btoa(bytesToBinary(new TextEncoder().encode(chunk)))}?=`);
+    }
+    return words.join(' ');
+  });
+}
+
+/**
+ * Fold a header at whitespace so lines stay under 76 characters
+ */
+export function foldHeader(name: string, value: string): string {
+  const lines: string[] = [];
+  let line = `${name}:`;
+
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    if (line.length + word.length + 1 > MAX_LINE_LENGTH && line.length > name.length + 1) {
+      lines.push(line);
+      line = ` ${word}`;
+    } else {
+      line += ` ${word}`;
+    }
+  }
+
+  lines.push(line);
+  return lines.join(CRLF);
+}
+
+export function decodeQuotedPrintable(input: string): Uint8Array {
+  const text = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode a leaf part's body according to its Content-Transfer-Encoding
+ */
+export function decodeBody(part: MimePart): Uint8Array {
+  const encoding = (getHeader(part, 'content-transfer-encoding') || '7bit').toLowerCase();
+
+  if (encoding === 'base64') {
+    return binaryToBytes(atob(part.body.replace(/[^A-Za-z0-9+/=]/g, '')));
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeQuotedPrintable(part.body);
+  }
+  return binaryToBytes(part.body);
+}
+
+/**
+ * Replace a leaf part's body with base64-encoded bytes
+ */
+export function setBody(part: MimePart, bytes: Uint8Array): void {
+  const encoded = btoa(bytesToBinary(bytes));
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += MAX_LINE_LENGTH) {
+    lines.push(encoded.substring(i, i + MAX_LINE_LENGTH));
+  }
+
+  part.body = lines.join(CRLF);
+  setHeader(part, 'Content-Transfer-Encoding', 'base64');
+}
+
+/**
+ * Split an mbox file into messages (mboxrd: ">From " lines are unescaped)
+ * Returns each message with its "From " separator line
+ */
+export function splitMbox(raw: string): Array<{ separator: string; message: string }> {
+  const messages: Array<{ separator: string; message: string }> = [];
+  let current: { separator: string; lines: string[] } | null = null;
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith('From ')) {
+      if (current) messages.push({ separator: current.separator, message: trimMessage(current.lines) });
+      current = { separator: line, lines: [] };
+    } else if (current) {
+      current.lines.push(line.replace(/^>(>*From )/, '$1'));
+    }
+  }
+
+  if (current) messages.push({ separator: current.separator, message: trimMessage(current.lines) });
+  return messages;
+}
+
+function trimMessage(lines: string[]): string {
+  // The blank line before the next separator belongs to the mbox framing
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines.join(CRLF);
+}
+
+/**
+ * Join messages into an mbox, escaping body lines that start with "From "
+ */
+export function joinMbox(messages: Array<{ separator: string; message: string }>): string {
+  return messages
+    .map(({ separator, message }) => `${separator}${CRLF}${message.replace(/^(>*From )/gm, '>$1')}${CRLF}${CRLF}`)
+    .join('');
+}
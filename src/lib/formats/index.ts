@@ -6,3 +6,6 @@
 export * from './base';
 export * from './text';
 export * from './structured';
+export * from './office';
+export * from './rich';
+export * from './email';
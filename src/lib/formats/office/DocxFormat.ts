@@ -0,0 +1,784 @@
+/**
+ * DOCX format handler
+ * Reads the OOXML package directly, redacts text inside the runs themselves
+ * and strips comments, tracked changes, custom XML and author metadata on export.
+ * External hyperlink targets are searched and redacted alongside the text.
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import type {
+  BoundingBox,
+  CharacterPosition,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+import {
+  CUSTOM_PROPERTIES_PATH,
+  findPartsByRelationshipType,
+  getRelationships,
+  parseXmlPart,
+  readAuthorFields,
+  readPackage,
+  removePart,
+  removePartsUnder,
+  removeRelationship,
+  removeThumbnail,
+  scrubAuthorFields,
+  setXmlPart,
+  writePackage,
+  type OoxmlPackage
+} from './ooxml';
+import {
+  overwriteRange,
+  renderSegment,
+  segmentsToText,
+  type TextRange,
+  type TextSegment
+} from './text-runs';
+
+export const WORDML_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const OFFICE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DEFAULT_MAIN_PART = 'word/document.xml';
+
+/** Approximate layout used for box and character coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/** Secondary parts that carry document text */
+const TEXT_PART_TYPES = ['/header', '/footer', '/footnotes', '/endnotes'];
+
+/** Parts holding review comments and their authors */
+const COMMENT_PART_TYPES = ['/comments', '/commentsExtended', '/commentsIds', '/commentsExtensible', '/people'];
+
+/** Revision records dropped entirely (rejected content or formatting history) */
+const REMOVED_REVISIONS = [
+  'del', 'moveFrom', 'moveFromRangeStart', 'moveFromRangeEnd', 'moveToRangeStart', 'moveToRangeEnd',
+  'rPrChange', 'pPrChange', 'sectPrChange', 'tblPrChange', 'tblGridChange', 'trPrChange',
+  'tcPrChange', 'numberingChange', 'cellIns', 'cellDel', 'cellMerge'
+];
+
+/** Revision wrappers whose content is kept (accepted insertions) */
+const ACCEPTED_REVISIONS = ['ins', 'moveTo'];
+
+/** Comment anchors left behind in the text parts */
+const COMMENT_MARKERS = ['commentRangeStart', 'commentRangeEnd', 'commentReference'];
+
+/**
+ * A w:p paragraph flattened to text
+ */
+interface DocxParagraph {
+  part: string;
+  element: Element;
+  segments: TextSegment[];
+  text: string;
+}
+
+/**
+ * An external hyperlink (mailto: or URL) declared by a text part
+ * Its target is a line of its own, after the paragraphs.
+ */
+interface DocxLink {
+  part: string;
+  id: string;
+  target: string; // With redactions applied
+  redacted: boolean;
+}
+
+/**
+ * Internal content structure for DOCX documents
+ */
+interface DocxContent {
+  pkg: OoxmlPackage;
+  mainPart: string;
+  parts: Map<string, XMLDocument>; // Text-bearing parts, parsed and sanitized
+  paragraphs: DocxParagraph[];
+  links: DocxLink[];
+  paragraphIndex: Map<Element, number>;
+  fullText: string;
+  paragraphElements: Map<number, HTMLElement>; // Map of paragraph index to rendered element
+}
+
+export class DocxFormat extends DocumentFormat {
+  readonly formatId = 'docx';
+  readonly formatName = 'Word Document';
+  readonly supportedExtensions = ['docx'];
+  readonly mimeTypes = [DOCX_MIME];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: false,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['docx']
+  };
+
+  /**
+   * Load a DOCX file
+   * Tracked changes are accepted and comment anchors removed up front, so the
+   * text we detect on is exactly the text that will be exported
+   */
+  async load(file: File): Promise<Document> {
+    const pkg = await readPackage(file);
+
+    const mainPart = getRelationships(pkg, '')
+      .find((rel) => rel.type.endsWith('/officeDocument'))?.target || DEFAULT_MAIN_PART;
+
+    if (!pkg[mainPart]) {
+      throw new Error(`${file.name} has no main document part`);
+    }
+
+    const partPaths = [
+      mainPart,
+      ...getRelationships(pkg, mainPart)
+        .filter((rel) => !rel.external && TEXT_PART_TYPES.some((type) => rel.type.endsWith(type)))
+        .map((rel) => rel.target)
+        .filter((path) => pkg[path])
+    ];
+
+    const parts = new Map<string, XMLDocument>();
+    let trackedChanges = 0;
+
+    for (const path of partPaths) {
+      const xml = parseXmlPart(pkg, path)!;
+      trackedChanges += acceptTrackedChanges(xml);
+      removeCommentMarkers(xml);
+      unwrapCustomXml(xml);
+      parts.set(path, xml);
+    }
+
+    const links = partPaths.flatMap((part) => getRelationships(pkg, part)
+      .filter((rel) => rel.external && rel.type.endsWith('/hyperlink'))
+      .map((rel) => ({ part, id: rel.id, target: rel.target, redacted: false })));
+
+    const content: DocxContent = {
+      pkg,
+      mainPart,
+      parts,
+      paragraphs: [],
+      links,
+      paragraphIndex: new Map(),
+      fullText: '',
+      paragraphElements: new Map()
+    };
+    this.indexParagraphs(content);
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || DOCX_MIME,
+      lineCount: content.paragraphs.length,
+      format: this.formatId,
+      privacyRisks: this.findPrivacyRisks(pkg, trackedChanges)
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render a readable preview: body paragraphs and tables, then headers,
+   * footers and notes
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as DocxContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+    content.paragraphElements.clear();
+
+    const page = document.createElement('div');
+    page.className = 'docx-container';
+    page.style.cssText = `
+      font-family: 'Calibri', 'Segoe UI', Arial, sans-serif;
+      font-size: 15px;
+      line-height: 1.5;
+      padding: 40px 48px;
+      background: #fff;
+      color: #222;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      max-height: 600px;
+      overflow-y: auto;
+      word-wrap: break-word;
+    `;
+
+    const ranges = this.collectRedactionRanges(doc);
+
+    const body = content.parts.get(content.mainPart)!.getElementsByTagNameNS(WORDML_NS, 'body')[0];
+    if (body) {
+      this.renderBlock(body, page, content, ranges);
+    }
+
+    for (const [path, xml] of content.parts) {
+      if (path === content.mainPart) continue;
+
+      const section = document.createElement('div');
+      section.className = 'docx-secondary-part';
+      section.style.cssText = `
+        margin-top: 24px;
+        padding-top: 12px;
+        border-top: 1px dashed #ccc;
+        color: #555;
+        font-size: 13px;
+      `;
+
+      const label = document.createElement('div');
+      label.textContent = path.replace(/^.*\//, '').replace(/\d*\.xml$/, '');
+      label.style.cssText = 'font-size: 11px; text-transform: uppercase; color: #999; margin-bottom: 4px;';
+      section.appendChild(label);
+
+      this.renderBlock(xml.documentElement, section, content, ranges);
+      page.appendChild(section);
+    }
+
+    container.appendChild(page);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text from the document
+   * Each paragraph becomes one line, followed by one line per hyperlink
+   * target; character positions map back to line and offset within it
+   * (column)
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as DocxContent;
+    const lines = lineTexts(content);
+    const characterPositions: CharacterPosition[] = [];
+    let index = 0;
+
+    lines.forEach((text, line) => {
+      for (let column = 0; column < text.length; column++) {
+        characterPositions.push({
+          char: text[column],
+          index: index + column,
+          x: column * CHAR_WIDTH,
+          y: line * LINE_HEIGHT,
+          w: CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          line,
+          column
+        });
+      }
+      index += text.length + 1; // Line separator
+    });
+
+    return {
+      fullText: content.fullText,
+      lineText: lines,
+      characterPositions
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms
+   * Boxes are line-based (paragraphs, then hyperlink targets); coordinates
+   * use the approximate layout grid
+   */
+  async findTextBoxes(doc: Document, terms: string[], _page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as DocxContent;
+    const lines = lineTexts(content);
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      lines.forEach((text, lineIndex) => {
+        const lowerText = text.toLowerCase();
+        let startIndex = 0;
+
+        while (true) {
+          const index = lowerText.indexOf(lowerTerm, startIndex);
+          if (index === -1) break;
+
+          boxes.push({
+            x: index * CHAR_WIDTH,
+            y: lineIndex * LINE_HEIGHT,
+            w: term.length * CHAR_WIDTH,
+            h: LINE_HEIGHT,
+            text: text.substring(index, index + term.length),
+            line: lineIndex,
+            source: 'regex'
+          });
+          startIndex = index + 1;
+        }
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Replaces the characters inside the affected w:t runs, so the original
+   * text is gone from the XML rather than hidden by formatting.
+   * Hyperlinks whose target holds a redacted value, wherever it was found,
+   * are removed (their text stays).
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as DocxContent;
+
+    for (const box of boxes) {
+      if (!box.text) continue;
+
+      const targets = box.line !== undefined
+        ? [content.paragraphs[box.line]].filter(Boolean)
+        : content.paragraphs;
+
+      for (const paragraph of targets) {
+        const lowerTerm = box.text.toLowerCase();
+        let index = paragraph.text.toLowerCase().indexOf(lowerTerm);
+
+        // Boxes without a line apply to every occurrence in the document
+        while (index >= 0) {
+          this.redactRange(paragraph, index, index + box.text.length);
+          if (box.line !== undefined) break;
+          index = paragraph.text.toLowerCase().indexOf(lowerTerm, index + box.text.length);
+        }
+      }
+
+      for (const link of content.links) {
+        if (link.target.toLowerCase().includes(box.text.toLowerCase())) {
+          this.redactLink(content, link, box.text);
+        }
+      }
+    }
+
+    content.fullText = lineTexts(content).join('\n');
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.paragraphElements.clear();
+    }
+  }
+
+  /**
+   * Export the redacted document as DOCX
+   * Comment parts, custom XML, custom properties, the thumbnail, author
+   * fields and redacted hyperlinks are removed, and revision tracking is
+   * switched off
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as DocxContent;
+    const pkg: OoxmlPackage = { ...content.pkg };
+
+    for (const [path, xml] of content.parts) {
+      setXmlPart(pkg, path, xml);
+    }
+
+    for (const link of content.links) {
+      if (link.redacted) removeRelationship(pkg, link.part, link.id);
+    }
+
+    for (const type of COMMENT_PART_TYPES) {
+      findPartsByRelationshipType(pkg, type).forEach((path) => removePart(pkg, path));
+    }
+
+    removePartsUnder(pkg, 'customXml/');
+    if (pkg[CUSTOM_PROPERTIES_PATH]) {
+      removePart(pkg, CUSTOM_PROPERTIES_PATH);
+    }
+    scrubAuthorFields(pkg);
+    removeThumbnail(pkg);
+
+    const settingsPath = findPartsByRelationshipType(pkg, '/settings')[0];
+    const settings = settingsPath ? parseXmlPart(pkg, settingsPath) : null;
+    if (settings) {
+      removeElements(settings, ['trackRevisions']);
+      setXmlPart(pkg, settingsPath, settings);
+    }
+
+    return new Blob([writePackage(pkg) as BlobPart], { type: DOCX_MIME });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // Package bytes are released with the document
+  }
+
+  /**
+   * Flatten every w:p in the text parts into paragraphs and rebuild full text
+   */
+  private indexParagraphs(content: DocxContent): void {
+    content.paragraphs = [];
+    content.paragraphIndex.clear();
+
+    for (const [part, xml] of content.parts) {
+      for (const element of Array.from(xml.getElementsByTagNameNS(WORDML_NS, 'p'))) {
+        const segments = collectSegments(element);
+        const paragraph: DocxParagraph = {
+          part,
+          element,
+          segments,
+          text: segmentsToText(segments)
+        };
+        content.paragraphIndex.set(element, content.paragraphs.length);
+        content.paragraphs.push(paragraph);
+      }
+    }
+
+    content.fullText = lineTexts(content).join('\n');
+  }
+
+  /**
+   * Overwrite paragraph characters [start, end) in every run they touch
+   */
+  private redactRange(paragraph: DocxParagraph, start: number, end: number): void {
+    paragraph.text = overwriteRange(paragraph.segments, start, end, (node) => {
+      // Redacted text may now start or end with spaces Word would trim
+      node.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+    });
+  }
+
+  /**
+   * Mask a value in a hyperlink target and unwrap the w:hyperlink elements
+   * using it, so export can drop the relationship
+   */
+  private redactLink(content: DocxContent, link: DocxLink, text: string): void {
+    const lowerText = text.toLowerCase();
+    let index = link.target.toLowerCase().indexOf(lowerText);
+    while (index >= 0) {
+      link.target = link.target.slice(0, index) + '█'.repeat(text.length) + link.target.slice(index + text.length);
+      index = link.target.toLowerCase().indexOf(lowerText, index + text.length);
+    }
+
+    if (link.redacted) return;
+    link.redacted = true;
+
+    const xml = content.parts.get(link.part);
+    for (const hyperlink of Array.from(xml?.getElementsByTagNameNS(WORDML_NS, 'hyperlink') ?? [])) {
+      if (hyperlink.getAttributeNS(OFFICE_RELATIONSHIPS_NS, 'id') === link.id) unwrap(hyperlink);
+    }
+  }
+
+  /**
+   * Character ranges per paragraph covered by pending redaction boxes
+   */
+  private collectRedactionRanges(doc: Document): Map<number, TextRange[]> {
+    const content = doc.content as DocxContent;
+    const ranges = new Map<number, TextRange[]>();
+
+    for (const box of doc.boxes) {
+      if (box.line === undefined || !box.text) continue;
+      const paragraph = content.paragraphs[box.line];
+      if (!paragraph) continue;
+
+      const index = paragraph.text.toLowerCase().indexOf(box.text.toLowerCase());
+      if (index < 0) continue;
+
+      if (!ranges.has(box.line)) ranges.set(box.line, []);
+      ranges.get(box.line)!.push([index, index + box.text.length]);
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Render block-level children (paragraphs, tables, content controls)
+   */
+  private renderBlock(
+    node: Element,
+    target: HTMLElement,
+    content: DocxContent,
+    ranges: Map<number, TextRange[]>
+  ): void {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== WORDML_NS) continue;
+
+      switch (child.localName) {
+        case 'p':
+          target.appendChild(this.renderParagraph(child, content, ranges));
+          break;
+        case 'tbl':
+          target.appendChild(this.renderTable(child, content, ranges));
+          break;
+        case 'sdt':
+        case 'sdtContent':
+        case 'footnote':
+        case 'endnote':
+          this.renderBlock(child, target, content, ranges);
+          break;
+      }
+    }
+  }
+
+  private renderTable(
+    table: Element,
+    content: DocxContent,
+    ranges: Map<number, TextRange[]>
+  ): HTMLElement {
+    const tableEl = document.createElement('table');
+    tableEl.style.cssText = 'border-collapse: collapse; margin: 8px 0; width: 100%;';
+
+    for (const row of childElements(table, 'tr')) {
+      const tr = document.createElement('tr');
+      for (const cell of childElements(row, 'tc')) {
+        const td = document.createElement('td');
+        td.style.cssText = 'border: 1px solid #ccc; padding: 4px 8px; vertical-align: top;';
+        this.renderBlock(cell, td, content, ranges);
+        tr.appendChild(td);
+      }
+      tableEl.appendChild(tr);
+    }
+
+    return tableEl;
+  }
+
+  private renderParagraph(
+    element: Element,
+    content: DocxContent,
+    ranges: Map<number, TextRange[]>
+  ): HTMLElement {
+    const index = content.paragraphIndex.get(element)!;
+    const paragraph = content.paragraphs[index];
+
+    const style = element.getElementsByTagNameNS(WORDML_NS, 'pStyle')[0]?.getAttributeNS(WORDML_NS, 'val') || '';
+    const heading = /^Heading(\d)/i.exec(style);
+    const tag = style === 'Title' ? 'h1' : heading ? `h${Math.min(Number(heading[1]) + 1, 6)}` : 'p';
+
+    const paragraphEl = document.createElement(tag);
+    paragraphEl.className = 'docx-paragraph';
+    paragraphEl.dataset.lineNumber = String(index);
+    paragraphEl.style.cssText = 'margin: 0 0 8px; min-height: 1.5em; white-space: pre-wrap;';
+
+    const redacted = ranges.get(index) || [];
+
+    for (const segment of paragraph.segments) {
+      if (segment.hidden || segment.text.length === 0) continue;
+
+      const run = segment.node?.parentElement;
+      paragraphEl.appendChild(renderSegment(segment, redacted, run ? runStyle(run) : ''));
+    }
+
+    content.paragraphElements.set(index, paragraphEl);
+    return paragraphEl;
+  }
+
+  /**
+   * Report hidden content that export will remove
+   */
+  private findPrivacyRisks(pkg: OoxmlPackage, trackedChanges: number): PrivacyRisk[] {
+    const risks: PrivacyRisk[] = [];
+
+    const commentCount = findPartsByRelationshipType(pkg, '/comments')
+      .reduce((count, path) => count + (parseXmlPart(pkg, path)?.getElementsByTagNameNS(WORDML_NS, 'comment').length ?? 0), 0);
+
+    if (commentCount > 0) {
+      risks.push({
+        id: 'docx-comments',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Review Comments',
+        description: 'Comments and their authors are stored in the document and will be removed on export.',
+        found: true,
+        details: `${commentCount} comment(s)`
+      });
+    }
+
+    if (trackedChanges > 0) {
+      risks.push({
+        id: 'docx-tracked-changes',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Tracked Changes',
+        description: 'Deleted text and revision history were present; changes have been accepted and history removed.',
+        found: true,
+        details: `${trackedChanges} revision(s)`
+      });
+    }
+
+    const customXmlParts = Object.keys(pkg).filter((path) => path.startsWith('customXml/') && !path.endsWith('.rels'));
+    if (customXmlParts.length > 0 || pkg[CUSTOM_PROPERTIES_PATH]) {
+      risks.push({
+        id: 'docx-custom-xml',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'Custom XML Data',
+        description: 'Custom XML parts and document properties can carry data from other systems and will be removed.',
+        found: true,
+        details: `${customXmlParts.length} custom XML part(s)`
+      });
+    }
+
+    const authors = readAuthorFields(pkg);
+    if (Object.keys(authors).length > 0) {
+      risks.push({
+        id: 'docx-author',
+        category: 'Identity',
+        severity: 'medium',
+        title: 'Author Information',
+        description: 'Document properties identify who created or last edited the file and will be cleared.',
+        found: true,
+        details: Object.values(authors).join(', ')
+      });
+    }
+
+    return risks;
+  }
+}
+
+/**
+ * Walk a paragraph in document order collecting text segments,
+ * without descending into nested paragraphs (text boxes)
+ */
+function collectSegments(paragraph: Element): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let offset = 0;
+
+  const push = (node: Element | null, text: string, hidden = false) => {
+    segments.push({ node, text, start: offset, hidden });
+    offset += text.length;
+  };
+
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI === WORDML_NS) {
+        switch (child.localName) {
+          case 'p':
+            continue; // Indexed as its own paragraph
+          case 't':
+            push(child, child.textContent || '');
+            continue;
+          case 'instrText':
+            // Field codes (e.g. HYPERLINK "mailto:...") can hold PII too
+            push(child, child.textContent || '', true);
+            continue;
+          case 'tab':
+            push(null, '\t');
+            continue;
+          case 'br':
+          case 'cr':
+            push(null, ' ');
+            continue;
+          case 'noBreakHyphen':
+            push(null, '-');
+            continue;
+        }
+      }
+      walk(child);
+    }
+  };
+
+  walk(paragraph);
+  return segments;
+}
+
+/**
+ * Text of every searchable line: paragraphs, then hyperlink targets
+ */
+function lineTexts(content: DocxContent): string[] {
+  return [
+    ...content.paragraphs.map((paragraph) => paragraph.text),
+    ...content.links.map((link) => link.target)
+  ];
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children)
+    .filter((child) => child.namespaceURI === WORDML_NS && child.localName === localName);
+}
+
+/**
+ * Inline CSS for the basic run formatting of a w:r element
+ */
+function runStyle(run: Element): string {
+  const properties = childElements(run, 'rPr')[0];
+  if (!properties) return '';
+
+  const isOn = (name: string) => {
+    const element = childElements(properties, name)[0];
+    if (!element) return false;
+    const value = element.getAttributeNS(WORDML_NS, 'val');
+    return value !== 'false' && value !== '0' && value !== 'none';
+  };
+
+  const styles: string[] = [];
+  if (isOn('b')) styles.push('font-weight: bold');
+  if (isOn('i')) styles.push('font-style: italic');
+  if (isOn('u')) styles.push('text-decoration: underline');
+  if (isOn('strike')) styles.push('text-decoration: line-through');
+  return styles.join('; ');
+}
+
+function removeElements(xml: XMLDocument, localNames: string[]): number {
+  let removed = 0;
+  for (const name of localNames) {
+    for (const element of Array.from(xml.getElementsByTagNameNS(WORDML_NS, name))) {
+      if (!xml.documentElement.contains(element)) continue; // Already removed with an ancestor
+      element.parentNode?.removeChild(element);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function unwrap(element: Element): void {
+  const parent = element.parentNode;
+  if (!parent) return;
+  while (element.firstChild) {
+    parent.insertBefore(element.firstChild, element);
+  }
+  parent.removeChild(element);
+}
+
+/**
+ * Accept all tracked changes: keep insertions, drop deletions and
+ * formatting history
+ *
+ * @returns Number of revision records found
+ */
+function acceptTrackedChanges(xml: XMLDocument): number {
+  let count = removeElements(xml, REMOVED_REVISIONS);
+
+  for (const name of ACCEPTED_REVISIONS) {
+    for (const element of Array.from(xml.getElementsByTagNameNS(WORDML_NS, name))) {
+      if (!xml.documentElement.contains(element)) continue;
+      // Inside run properties these only mark the paragraph mark as inserted
+      if (element.parentElement?.localName === 'rPr') {
+        element.parentNode?.removeChild(element);
+      } else {
+        unwrap(element);
+      }
+      count++;
+    }
+  }
+
+  return count;
+}
+
+function removeCommentMarkers(xml: XMLDocument): number {
+  return removeElements(xml, COMMENT_MARKERS);
+}
+
+/**
+ * Unwrap inline custom XML elements and drop data bindings, since the
+ * custom XML parts they refer to are removed on export
+ */
+function unwrapCustomXml(xml: XMLDocument): void {
+  for (const element of Array.from(xml.getElementsByTagNameNS(WORDML_NS, 'customXml'))) {
+    childElements(element, 'customXmlPr').forEach((properties) => element.removeChild(properties));
+    unwrap(element);
+  }
+  removeElements(xml, ['dataBinding']);
+}
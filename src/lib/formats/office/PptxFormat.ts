@@ -0,0 +1,932 @@
+/**
+ * PPTX format handler
+ * Extracts text from slide shapes, tables and speaker notes, renders slide
+ * thumbnails, and exports with redacted runs replaced and notes, comments
+ * and embedded media metadata stripped
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import type {
+  BoundingBox,
+  CharacterPosition,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+import { stripEmbeddedMetadata } from '../../images/exif';
+import {
+  findPartsByRelationshipType,
+  getRelationships,
+  parseXmlPart,
+  readAuthorFields,
+  readPackage,
+  removePart,
+  removeThumbnail,
+  scrubAuthorFields,
+  writePackage,
+  setXmlPart,
+  type OoxmlPackage
+} from './ooxml';
+import {
+  overwriteRange,
+  renderSegment,
+  segmentsToText,
+  type TextRange,
+  type TextSegment
+} from './text-runs';
+
+export const PRESENTATIONML_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+export const DRAWINGML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const OFFICE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const DEFAULT_PRESENTATION_PART = 'ppt/presentation.xml';
+
+/** 914400 EMU per inch at 96 px per inch */
+const EMU_PER_PX = 9525;
+
+/** Default slide size (16:9, 13.333in x 7.5in) */
+const DEFAULT_SLIDE_WIDTH = 12192000;
+const DEFAULT_SLIDE_HEIGHT = 6858000;
+
+/** Width of rendered slide thumbnails */
+const THUMBNAIL_WIDTH = 480;
+
+/** Approximate layout used for box and character coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/** Parts holding review comments and their authors */
+const COMMENT_PART_TYPES = ['/comments', '/commentAuthors', '/authors'];
+
+/** Notes placeholders that hold generated text rather than notes */
+const NOTES_CHROME_PLACEHOLDERS = new Set(['sldNum', 'sldImg', 'dt', 'hdr', 'ftr']);
+
+/**
+ * Shape rectangle in EMU
+ */
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * A shape on a slide with the paragraphs it holds
+ */
+interface PptxShape {
+  kind: 'text' | 'table' | 'picture';
+  element: Element;
+  rect: Rect | null;
+  paragraphs: number[]; // Global paragraph indices
+}
+
+/**
+ * A DrawingML paragraph flattened to text
+ */
+interface PptxParagraph {
+  slide: number;
+  notes: boolean;
+  shape: number; // Index into the slide's shapes, -1 for notes
+  element: Element;
+  segments: TextSegment[];
+  text: string;
+}
+
+interface PptxSlide {
+  path: string;
+  xml: XMLDocument;
+  shapes: PptxShape[];
+  notesPath: string | null;
+  notesParagraphs: number[];
+}
+
+/**
+ * Internal content structure for PPTX documents
+ */
+interface PptxContent {
+  pkg: OoxmlPackage;
+  slideWidth: number;  // EMU
+  slideHeight: number; // EMU
+  slides: PptxSlide[];
+  paragraphs: PptxParagraph[];
+  fullText: string;
+  slideElements: Map<number, HTMLElement>; // Map of slide index to rendered card
+}
+
+export class PptxFormat extends DocumentFormat {
+  readonly formatId = 'pptx';
+  readonly formatName = 'PowerPoint Presentation';
+  readonly supportedExtensions = ['pptx'];
+  readonly mimeTypes = [PPTX_MIME];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: true,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['pptx']
+  };
+
+  /**
+   * Load a PPTX file
+   */
+  async load(file: File): Promise<Document> {
+    const pkg = await readPackage(file);
+
+    const presentationPath = getRelationships(pkg, '')
+      .find((rel) => rel.type.endsWith('/officeDocument'))?.target || DEFAULT_PRESENTATION_PART;
+    const presentation = parseXmlPart(pkg, presentationPath);
+
+    if (!presentation) {
+      throw new Error(`${file.name} has no presentation part`);
+    }
+
+    const slideSize = presentation.getElementsByTagNameNS(PRESENTATIONML_NS, 'sldSz')[0];
+    const content: PptxContent = {
+      pkg,
+      slideWidth: Number(slideSize?.getAttribute('cx')) || DEFAULT_SLIDE_WIDTH,
+      slideHeight: Number(slideSize?.getAttribute('cy')) || DEFAULT_SLIDE_HEIGHT,
+      slides: [],
+      paragraphs: [],
+      fullText: '',
+      slideElements: new Map()
+    };
+
+    const presentationRels = getRelationships(pkg, presentationPath);
+    const placeholderCache = new Map<string, XMLDocument | null>();
+
+    for (const slideId of Array.from(presentation.getElementsByTagNameNS(PRESENTATIONML_NS, 'sldId'))) {
+      const relId = slideId.getAttributeNS(OFFICE_RELATIONSHIPS_NS, 'id');
+      const path = presentationRels.find((rel) => rel.id === relId)?.target;
+      const xml = path ? parseXmlPart(pkg, path) : null;
+      if (!path || !xml) continue;
+
+      const slideIndex = content.slides.length;
+      const slide: PptxSlide = { path, xml, shapes: [], notesPath: null, notesParagraphs: [] };
+      content.slides.push(slide);
+
+      const tree = xml.getElementsByTagNameNS(PRESENTATIONML_NS, 'spTree')[0];
+      if (tree) {
+        this.collectShapes(content, slideIndex, tree, (rect) => rect, (shape) => {
+          return this.resolvePlaceholderRect(pkg, path, shape, placeholderCache);
+        });
+      }
+
+      slide.notesPath = getRelationships(pkg, path)
+        .find((rel) => !rel.external && rel.type.endsWith('/notesSlide'))?.target ?? null;
+      const notes = slide.notesPath ? parseXmlPart(pkg, slide.notesPath) : null;
+
+      if (notes) {
+        for (const shape of Array.from(notes.getElementsByTagNameNS(PRESENTATIONML_NS, 'sp'))) {
+          const placeholder = shape.getElementsByTagNameNS(PRESENTATIONML_NS, 'ph')[0];
+          if (placeholder && NOTES_CHROME_PLACEHOLDERS.has(placeholder.getAttribute('type') || '')) continue;
+
+          for (const element of Array.from(shape.getElementsByTagNameNS(DRAWINGML_NS, 'p'))) {
+            slide.notesParagraphs.push(this.addParagraph(content, slideIndex, element, true, -1));
+          }
+        }
+      }
+    }
+
+    this.updateFullText(content);
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || PPTX_MIME,
+      slideCount: content.slides.length,
+      format: this.formatId,
+      privacyRisks: this.findPrivacyRisks(content)
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render slide thumbnails with their speaker notes
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as PptxContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+    content.slideElements.clear();
+
+    const list = document.createElement('div');
+    list.className = 'pptx-container';
+    list.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+      padding: 20px;
+      background: #f1f3f5;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      max-height: 600px;
+      overflow-y: auto;
+      font-family: 'Calibri', 'Segoe UI', Arial, sans-serif;
+    `;
+
+    const ranges = this.collectRedactionRanges(doc);
+    const scale = THUMBNAIL_WIDTH / (content.slideWidth / EMU_PER_PX);
+
+    content.slides.forEach((slide, slideIndex) => {
+      const card = document.createElement('div');
+      card.className = 'pptx-slide';
+      card.dataset.slide = String(slideIndex);
+      card.style.cssText = `
+        align-self: center;
+        width: ${THUMBNAIL_WIDTH}px;
+      `;
+
+      const label = document.createElement('div');
+      label.textContent = `Slide ${slideIndex + 1}`;
+      label.style.cssText = 'font-size: 12px; color: #666; margin-bottom: 4px;';
+      card.appendChild(label);
+
+      const thumbnail = document.createElement('div');
+      thumbnail.className = 'pptx-thumbnail';
+      thumbnail.style.cssText = `
+        position: relative;
+        width: ${THUMBNAIL_WIDTH}px;
+        height: ${Math.round(THUMBNAIL_WIDTH * content.slideHeight / content.slideWidth)}px;
+        background: #fff;
+        border: 1px solid #ccc;
+        box-shadow: 0 1px 3px rgba(0, 0, 0, 0.15);
+        overflow: hidden;
+      `;
+
+      slide.shapes.forEach((shape, shapeIndex) => {
+        const rect = shape.rect ?? this.fallbackRect(content, shapeIndex, slide.shapes.length);
+        thumbnail.appendChild(this.renderShape(content, shape, rect, scale, ranges));
+      });
+
+      card.appendChild(thumbnail);
+
+      if (slide.notesParagraphs.length > 0) {
+        const notes = document.createElement('div');
+        notes.className = 'pptx-notes';
+        notes.style.cssText = `
+          margin-top: 6px;
+          padding: 8px 10px;
+          background: #fffbe6;
+          border: 1px solid #f0e0a0;
+          border-radius: 4px;
+          font-size: 13px;
+          color: #444;
+          white-space: pre-wrap;
+        `;
+
+        const heading = document.createElement('div');
+        heading.textContent = 'Speaker notes';
+        heading.style.cssText = 'font-size: 11px; text-transform: uppercase; color: #998a4a; margin-bottom: 4px;';
+        notes.appendChild(heading);
+
+        for (const index of slide.notesParagraphs) {
+          notes.appendChild(this.renderParagraph(content, index, ranges, 13));
+        }
+        card.appendChild(notes);
+      }
+
+      content.slideElements.set(slideIndex, card);
+      list.appendChild(card);
+    });
+
+    container.appendChild(list);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text per slide (shapes, tables and notes)
+   * Each paragraph becomes one line; character positions carry the slide
+   * as their page
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as PptxContent;
+    const pageText = new Map<number, string>();
+    const characterPositions: CharacterPosition[] = [];
+    let index = 0;
+
+    content.slides.forEach((_slide, slideIndex) => {
+      pageText.set(slideIndex, this.slideText(content, slideIndex));
+    });
+
+    content.paragraphs.forEach((paragraph, line) => {
+      for (let column = 0; column < paragraph.text.length; column++) {
+        characterPositions.push({
+          char: paragraph.text[column],
+          index: index + column,
+          x: column * CHAR_WIDTH,
+          y: line * LINE_HEIGHT,
+          w: CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          page: paragraph.slide,
+          line,
+          column
+        });
+      }
+      index += paragraph.text.length + 1; // Paragraph separator
+    });
+
+    return {
+      fullText: content.fullText,
+      pageText,
+      lineText: content.paragraphs.map((paragraph) => paragraph.text),
+      characterPositions
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms
+   * Searches every slide unless one is given; boxes are positioned inside
+   * their shape on the slide (notes are placed below the slide)
+   */
+  async findTextBoxes(doc: Document, terms: string[], page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as PptxContent;
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      content.paragraphs.forEach((paragraph, lineIndex) => {
+        if (page !== undefined && paragraph.slide !== page) return;
+
+        const lowerText = paragraph.text.toLowerCase();
+        let startIndex = 0;
+
+        while (true) {
+          const index = lowerText.indexOf(lowerTerm, startIndex);
+          if (index === -1) break;
+
+          const origin = this.paragraphOrigin(content, lineIndex);
+          boxes.push({
+            x: origin.x + index * CHAR_WIDTH,
+            y: origin.y,
+            w: term.length * CHAR_WIDTH,
+            h: LINE_HEIGHT,
+            text: paragraph.text.substring(index, index + term.length),
+            slide: paragraph.slide,
+            line: lineIndex,
+            source: 'regex'
+          });
+          startIndex = index + 1;
+        }
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Replaces the characters inside the affected a:t runs
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as PptxContent;
+
+    for (const box of boxes) {
+      if (!box.text) continue;
+
+      const targets = box.line !== undefined
+        ? [content.paragraphs[box.line]].filter(Boolean)
+        : content.paragraphs.filter((paragraph) => box.slide === undefined || paragraph.slide === box.slide);
+
+      for (const paragraph of targets) {
+        const lowerTerm = box.text.toLowerCase();
+        let index = paragraph.text.toLowerCase().indexOf(lowerTerm);
+
+        // Boxes without a line apply to every occurrence
+        while (index >= 0) {
+          paragraph.text = overwriteRange(paragraph.segments, index, index + box.text.length);
+          if (box.line !== undefined) break;
+          index = paragraph.text.toLowerCase().indexOf(lowerTerm, index + box.text.length);
+        }
+      }
+    }
+
+    this.updateFullText(content);
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.slideElements.clear();
+    }
+  }
+
+  /**
+   * Export the redacted presentation as PPTX
+   * Speaker notes, comments, comment authors and the thumbnail are
+   * removed, embedded images lose their EXIF/XMP/text metadata and author
+   * fields are cleared
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as PptxContent;
+    const pkg: OoxmlPackage = { ...content.pkg };
+
+    for (const slide of content.slides) {
+      setXmlPart(pkg, slide.path, slide.xml);
+      if (slide.notesPath && pkg[slide.notesPath]) {
+        removePart(pkg, slide.notesPath);
+      }
+    }
+
+    for (const type of COMMENT_PART_TYPES) {
+      findPartsByRelationshipType(pkg, type).forEach((path) => removePart(pkg, path));
+    }
+
+    for (const path of Object.keys(pkg)) {
+      if (path.startsWith('ppt/media/')) {
+        pkg[path] = stripEmbeddedMetadata(pkg[path]);
+      }
+    }
+
+    scrubAuthorFields(pkg);
+    removeThumbnail(pkg);
+
+    return new Blob([writePackage(pkg) as BlobPart], { type: PPTX_MIME });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // Package bytes are released with the document
+  }
+
+  private updateFullText(content: PptxContent): void {
+    content.fullText = content.paragraphs.map((paragraph) => paragraph.text).join('\n');
+  }
+
+  private slideText(content: PptxContent, slideIndex: number): string {
+    return content.paragraphs
+      .filter((paragraph) => paragraph.slide === slideIndex)
+      .map((paragraph) => paragraph.text)
+      .join('\n');
+  }
+
+  private addParagraph(
+    content: PptxContent,
+    slide: number,
+    element: Element,
+    notes: boolean,
+    shape: number
+  ): number {
+    const segments = collectSegments(element);
+    content.paragraphs.push({ slide, notes, shape, element, segments, text: segmentsToText(segments) });
+    return content.paragraphs.length - 1;
+  }
+
+  /**
+   * Walk a shape tree in z-order collecting text shapes, tables and pictures
+   *
+   * @param transform - Maps child coordinates through enclosing groups
+   * @param resolveRect - Finds geometry inherited from layout placeholders
+   */
+  private collectShapes(
+    content: PptxContent,
+    slideIndex: number,
+    tree: Element,
+    transform: (rect: Rect) => Rect,
+    resolveRect: (shape: Element) => Rect | null
+  ): void {
+    const slide = content.slides[slideIndex];
+
+    for (const child of Array.from(tree.children)) {
+      if (child.namespaceURI !== PRESENTATIONML_NS) continue;
+
+      if (child.localName === 'grpSp') {
+        const groupXfrm = childElement(childElement(child, PRESENTATIONML_NS, 'grpSpPr'), DRAWINGML_NS, 'xfrm');
+        const offset = readPoint(groupXfrm, 'off', 'x', 'y');
+        const extent = readPoint(groupXfrm, 'ext', 'cx', 'cy');
+        const childOffset = readPoint(groupXfrm, 'chOff', 'x', 'y');
+        const childExtent = readPoint(groupXfrm, 'chExt', 'cx', 'cy');
+
+        const groupTransform = offset && extent && childOffset && childExtent
+          ? (rect: Rect) => {
+              const scaleX = childExtent.x ? extent.x / childExtent.x : 1;
+              const scaleY = childExtent.y ? extent.y / childExtent.y : 1;
+              return transform({
+                x: offset.x + (rect.x - childOffset.x) * scaleX,
+                y: offset.y + (rect.y - childOffset.y) * scaleY,
+                w: rect.w * scaleX,
+                h: rect.h * scaleY
+              });
+            }
+          : transform;
+
+        this.collectShapes(content, slideIndex, child, groupTransform, resolveRect);
+        continue;
+      }
+
+      let kind: PptxShape['kind'];
+      let xfrm: Element | null;
+
+      switch (child.localName) {
+        case 'sp':
+          kind = 'text';
+          xfrm = childElement(childElement(child, PRESENTATIONML_NS, 'spPr'), DRAWINGML_NS, 'xfrm');
+          break;
+        case 'graphicFrame':
+          kind = 'table';
+          xfrm = childElement(child, PRESENTATIONML_NS, 'xfrm');
+          break;
+        case 'pic':
+          kind = 'picture';
+          xfrm = childElement(childElement(child, PRESENTATIONML_NS, 'spPr'), DRAWINGML_NS, 'xfrm');
+          break;
+        default:
+          continue;
+      }
+
+      const ownRect = readRect(xfrm);
+      const rect = ownRect ? transform(ownRect) : resolveRect(child);
+      const shapeIndex = slide.shapes.length;
+      const shape: PptxShape = { kind, element: child, rect, paragraphs: [] };
+
+      for (const element of Array.from(child.getElementsByTagNameNS(DRAWINGML_NS, 'p'))) {
+        shape.paragraphs.push(this.addParagraph(content, slideIndex, element, false, shapeIndex));
+      }
+
+      // Graphic frames also hold charts and diagrams; only keep tables with text
+      if (kind === 'table' && shape.paragraphs.length === 0) continue;
+      slide.shapes.push(shape);
+    }
+  }
+
+  /**
+   * Placeholders usually inherit their position from the slide layout,
+   * which in turn may inherit it from the slide master
+   */
+  private resolvePlaceholderRect(
+    pkg: OoxmlPackage,
+    slidePath: string,
+    shape: Element,
+    cache: Map<string, XMLDocument | null>
+  ): Rect | null {
+    const placeholder = shape.getElementsByTagNameNS(PRESENTATIONML_NS, 'ph')[0];
+    if (!placeholder) return null;
+
+    const type = placeholder.getAttribute('type') || 'body';
+    const idx = placeholder.getAttribute('idx');
+
+    let partPath = slidePath;
+    for (const relType of ['/slideLayout', '/slideMaster']) {
+      const next = getRelationships(pkg, partPath).find((rel) => rel.type.endsWith(relType))?.target;
+      if (!next) return null;
+      partPath = next;
+
+      if (!cache.has(partPath)) cache.set(partPath, parseXmlPart(pkg, partPath));
+      const xml = cache.get(partPath);
+      if (!xml) continue;
+
+      for (const candidate of Array.from(xml.getElementsByTagNameNS(PRESENTATIONML_NS, 'sp'))) {
+        const candidatePh = candidate.getElementsByTagNameNS(PRESENTATIONML_NS, 'ph')[0];
+        if (!candidatePh) continue;
+
+        const sameIdx = idx !== null && candidatePh.getAttribute('idx') === idx;
+        const sameType = (candidatePh.getAttribute('type') || 'body') === type;
+        if (!sameIdx && !sameType) continue;
+
+        const rect = readRect(childElement(childElement(candidate, PRESENTATIONML_NS, 'spPr'), DRAWINGML_NS, 'xfrm'));
+        if (rect) return rect;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Stack shapes without known geometry down the slide
+   */
+  private fallbackRect(content: PptxContent, shapeIndex: number, shapeCount: number): Rect {
+    const margin = content.slideWidth * 0.05;
+    const band = (content.slideHeight - margin * 2) / Math.max(shapeCount, 1);
+    return {
+      x: margin,
+      y: margin + band * shapeIndex,
+      w: content.slideWidth - margin * 2,
+      h: band
+    };
+  }
+
+  /**
+   * Top-left corner (in slide pixels) of a paragraph's first line
+   */
+  private paragraphOrigin(content: PptxContent, lineIndex: number): { x: number; y: number } {
+    const paragraph = content.paragraphs[lineIndex];
+    const slide = content.slides[paragraph.slide];
+
+    if (paragraph.notes) {
+      const position = slide.notesParagraphs.indexOf(lineIndex);
+      return { x: 0, y: content.slideHeight / EMU_PER_PX + position * LINE_HEIGHT };
+    }
+
+    const shape = slide.shapes[paragraph.shape];
+    const rect = shape?.rect ?? this.fallbackRect(content, paragraph.shape, slide.shapes.length);
+    const position = shape ? shape.paragraphs.indexOf(lineIndex) : 0;
+    return {
+      x: rect.x / EMU_PER_PX,
+      y: rect.y / EMU_PER_PX + position * LINE_HEIGHT
+    };
+  }
+
+  /**
+   * Character ranges per paragraph covered by pending redaction boxes
+   */
+  private collectRedactionRanges(doc: Document): Map<number, TextRange[]> {
+    const content = doc.content as PptxContent;
+    const ranges = new Map<number, TextRange[]>();
+
+    for (const box of doc.boxes) {
+      if (box.line === undefined || !box.text) continue;
+      const paragraph = content.paragraphs[box.line];
+      if (!paragraph) continue;
+
+      const index = paragraph.text.toLowerCase().indexOf(box.text.toLowerCase());
+      if (index < 0) continue;
+
+      if (!ranges.has(box.line)) ranges.set(box.line, []);
+      ranges.get(box.line)!.push([index, index + box.text.length]);
+    }
+
+    return ranges;
+  }
+
+  private renderShape(
+    content: PptxContent,
+    shape: PptxShape,
+    rect: Rect,
+    scale: number,
+    ranges: Map<number, TextRange[]>
+  ): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `pptx-shape pptx-shape-${shape.kind}`;
+    element.style.cssText = `
+      position: absolute;
+      left: ${(rect.x / EMU_PER_PX) * scale}px;
+      top: ${(rect.y / EMU_PER_PX) * scale}px;
+      width: ${(rect.w / EMU_PER_PX) * scale}px;
+      height: ${(rect.h / EMU_PER_PX) * scale}px;
+      overflow: hidden;
+      ${shape.kind === 'picture' ? 'background: #e9ecef; border: 1px dashed #adb5bd;' : ''}
+    `;
+
+    if (shape.kind === 'table') {
+      const table = document.createElement('table');
+      table.style.cssText = 'border-collapse: collapse; width: 100%;';
+
+      for (const row of Array.from(shape.element.getElementsByTagNameNS(DRAWINGML_NS, 'tr'))) {
+        const tr = document.createElement('tr');
+        for (const cell of Array.from(row.getElementsByTagNameNS(DRAWINGML_NS, 'tc'))) {
+          const td = document.createElement('td');
+          td.style.cssText = 'border: 1px solid #ccc; padding: 1px 3px; vertical-align: top;';
+          for (const paragraph of shape.paragraphs) {
+            if (cell.contains(content.paragraphs[paragraph].element)) {
+              td.appendChild(this.renderParagraph(content, paragraph, ranges, 18 * scale));
+            }
+          }
+          tr.appendChild(td);
+        }
+        table.appendChild(tr);
+      }
+
+      element.appendChild(table);
+      return element;
+    }
+
+    for (const paragraph of shape.paragraphs) {
+      element.appendChild(this.renderParagraph(content, paragraph, ranges, 18 * scale));
+    }
+
+    return element;
+  }
+
+  private renderParagraph(
+    content: PptxContent,
+    index: number,
+    ranges: Map<number, TextRange[]>,
+    defaultSize: number
+  ): HTMLElement {
+    const paragraph = content.paragraphs[index];
+    const paragraphEl = document.createElement('div');
+    paragraphEl.className = 'pptx-paragraph';
+    paragraphEl.dataset.lineNumber = String(index);
+    paragraphEl.style.cssText = 'min-height: 1.2em; line-height: 1.2; white-space: pre-wrap;';
+
+    const redacted = ranges.get(index) || [];
+
+    for (const segment of paragraph.segments) {
+      if (segment.hidden || segment.text.length === 0) continue;
+
+      const runProperties = segment.node?.parentElement
+        ? childElement(segment.node.parentElement, DRAWINGML_NS, 'rPr')
+        : null;
+      paragraphEl.appendChild(renderSegment(segment, redacted, runStyle(runProperties, defaultSize, paragraph.notes)));
+    }
+
+    return paragraphEl;
+  }
+
+  /**
+   * Report speaker notes, comments, image metadata, content that is not
+   * searched (SmartArt, charts, embedded files) and author fields
+   */
+  private findPrivacyRisks(content: PptxContent): PrivacyRisk[] {
+    const { pkg } = content;
+    const risks: PrivacyRisk[] = [];
+
+    const slidesWithNotes = content.slides
+      .map((slide, index) => ({ index, hasText: slide.notesParagraphs.some((p) => content.paragraphs[p].text.trim()) }))
+      .filter((slide) => slide.hasText)
+      .map((slide) => slide.index + 1);
+
+    if (slidesWithNotes.length > 0) {
+      risks.push({
+        id: 'pptx-speaker-notes',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Speaker Notes',
+        description: 'Speaker notes are not shown during a presentation but travel with the file. They are removed on export.',
+        found: true,
+        details: `Slide(s) ${slidesWithNotes.join(', ')}`
+      });
+    }
+
+    const commentCount = findPartsByRelationshipType(pkg, '/comments')
+      .reduce((count, path) => {
+        const xml = parseXmlPart(pkg, path);
+        return count + (xml ? xml.getElementsByTagNameNS('*', 'cm').length : 0);
+      }, 0);
+
+    if (commentCount > 0) {
+      risks.push({
+        id: 'pptx-comments',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Review Comments',
+        description: 'Comments and their authors are stored in the presentation and will be removed on export.',
+        found: true,
+        details: `${commentCount} comment(s)`
+      });
+    }
+
+    const mediaWithMetadata = Object.keys(pkg)
+      .filter((path) => path.startsWith('ppt/media/'))
+      .filter((path) => stripEmbeddedMetadata(pkg[path]).length !== pkg[path].length);
+
+    if (mediaWithMetadata.length > 0) {
+      risks.push({
+        id: 'pptx-media-metadata',
+        category: 'Device Info',
+        severity: 'medium',
+        title: 'Image Metadata',
+        description: 'Embedded images carry EXIF, XMP or text metadata (camera, location, software). It is stripped on export.',
+        found: true,
+        details: `${mediaWithMetadata.length} image(s)`
+      });
+    }
+
+    const slidesWith = (typeSuffix: string) => content.slides
+      .map((slide, index) => ({ index, rels: getRelationships(pkg, slide.path) }))
+      .filter(({ rels }) => rels.some((rel) => !rel.external && rel.type.endsWith(typeSuffix)))
+      .map(({ index }) => index + 1);
+
+    const smartArtSlides = slidesWith('/diagramData');
+    if (smartArtSlides.length > 0) {
+      risks.push({
+        id: 'pptx-smartart',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'SmartArt',
+        description: 'SmartArt text is not searched or redacted. Check these diagrams in PowerPoint, or convert them to shapes first.',
+        found: true,
+        details: `Slide(s) ${smartArtSlides.join(', ')}`
+      });
+    }
+
+    const chartSlides = slidesWith('/chart');
+    if (chartSlides.length > 0) {
+      risks.push({
+        id: 'pptx-charts',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Charts',
+        description: 'Chart titles, labels and data, and the workbook behind each chart, are not searched or redacted.',
+        found: true,
+        details: `Slide(s) ${chartSlides.join(', ')}`
+      });
+    }
+
+    const embeddings = Object.keys(pkg)
+      .filter((path) => path.startsWith('ppt/embeddings/') && !path.endsWith('.rels'));
+
+    if (embeddings.length > 0) {
+      risks.push({
+        id: 'pptx-embedded-files',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Embedded Files',
+        description: 'Embedded workbooks, documents and OLE objects travel with the presentation and are not searched or redacted.',
+        found: true,
+        details: `${embeddings.length} file(s)`
+      });
+    }
+
+    const authors = readAuthorFields(pkg);
+    if (Object.keys(authors).length > 0) {
+      risks.push({
+        id: 'pptx-author',
+        category: 'Identity',
+        severity: 'medium',
+        title: 'Author Information',
+        description: 'Document properties identify who created or last edited the file and will be cleared.',
+        found: true,
+        details: Object.values(authors).join(', ')
+      });
+    }
+
+    return risks;
+  }
+}
+
+function childElement(parent: Element | null, namespace: string, localName: string): Element | null {
+  if (!parent) return null;
+  return Array.from(parent.children)
+    .find((child) => child.namespaceURI === namespace && child.localName === localName) ?? null;
+}
+
+function readPoint(xfrm: Element | null, name: string, xAttr: string, yAttr: string): { x: number; y: number } | null {
+  const element = childElement(xfrm, DRAWINGML_NS, name);
+  if (!element) return null;
+  return { x: Number(element.getAttribute(xAttr)) || 0, y: Number(element.getAttribute(yAttr)) || 0 };
+}
+
+function readRect(xfrm: Element | null): Rect | null {
+  const offset = readPoint(xfrm, 'off', 'x', 'y');
+  const extent = readPoint(xfrm, 'ext', 'cx', 'cy');
+  if (!offset || !extent) return null;
+  return { x: offset.x, y: offset.y, w: extent.x, h: extent.y };
+}
+
+/**
+ * Flatten an a:p paragraph into text segments (runs, fields and breaks)
+ */
+function collectSegments(paragraph: Element): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let offset = 0;
+
+  for (const child of Array.from(paragraph.children)) {
+    if (child.namespaceURI !== DRAWINGML_NS) continue;
+
+    if (child.localName === 'r' || child.localName === 'fld') {
+      const t = childElement(child, DRAWINGML_NS, 't');
+      if (!t) continue;
+      const text = t.textContent || '';
+      segments.push({ node: t, text, start: offset, hidden: false });
+      offset += text.length;
+    } else if (child.localName === 'br') {
+      segments.push({ node: null, text: ' ', start: offset, hidden: false });
+      offset += 1;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Inline CSS for the basic run formatting of an a:rPr element
+ */
+function runStyle(properties: Element | null, defaultSize: number, notes: boolean): string {
+  const styles: string[] = [];
+  const size = Number(properties?.getAttribute('sz'));
+
+  // Run sizes are in hundredths of a point; notes keep their own font size
+  if (!notes) {
+    const scale = defaultSize / 18;
+    styles.push(`font-size: ${Math.max(6, (size ? size / 100 : 18) * scale * (96 / 72)).toFixed(1)}px`);
+  }
+  if (properties?.getAttribute('b') === '1') styles.push('font-weight: bold');
+  if (properties?.getAttribute('i') === '1') styles.push('font-style: italic');
+  if (properties?.getAttribute('u') && properties.getAttribute('u') !== 'none') {
+    styles.push('text-decoration: underline');
+  }
+
+  return styles.join('; ');
+}
@@ -0,0 +1,1011 @@
+/**
+ * XLSX format handler
+ * Reads every worksheet (hidden ones included) with shared strings, redacts
+ * whole cells like CsvFormat and neutralizes formulas that depend on them
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import { detectHeaderRow } from '../structured/headers';
+import type {
+  BoundingBox,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+import {
+  findPartsByRelationshipType,
+  getRelationships,
+  parseXmlPart,
+  readPackage,
+  removePart,
+  removeThumbnail,
+  setXmlPart,
+  writePackage,
+  type OoxmlPackage
+} from './ooxml';
+
+export const SPREADSHEETML_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const OFFICE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const DRAWINGML_CHART_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const DEFAULT_WORKBOOK_PART = 'xl/workbook.xml';
+
+/**
+ * Formula tokens: string literals (skipped), cell/range references with an
+ * optional sheet prefix, and bare identifiers (defined names, functions)
+ */
+const FORMULA_TOKEN_PATTERN =
+  /"(?:[^"]|"")*"|(?<![\w.$])((?:'(?:[^']|'')+'|[A-Za-z_][\w.]*)!)?(\$?[A-Z]{1,3}\$?\d+(?::\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)(?![\w(!])|(?<![\w.$])[A-Za-z_\\][\w.]*/g;
+
+const REFERENCE_PART_PATTERN = /^(\$?)([A-Z]{1,3})?(\$?)(\d+)?$/;
+
+type SheetState = 'visible' | 'hidden' | 'veryHidden';
+
+/**
+ * A worksheet with its parsed XML and a dense grid of display values
+ */
+interface XlsxSheet {
+  name: string;
+  path: string;
+  state: SheetState;
+  xml: XMLDocument;
+  data: string[][];
+  cells: Map<string, Element>; // Map of "row-col" to <c> element
+  hasHeaders: boolean;
+  headers: string[];
+}
+
+/**
+ * Internal content structure for XLSX documents
+ */
+interface XlsxContent {
+  pkg: OoxmlPackage;
+  workbookPath: string;
+  workbook: XMLDocument;
+  sharedStrings: string[];
+  sheets: XlsxSheet[];
+  redactedCells: Map<number, Set<string>>; // Sheet index to "row-col" keys
+  activeSheet: number;
+  fullText: string;
+  cellElements: Map<string, HTMLElement>; // Map of "sheet-row-col" to rendered cell element
+}
+
+/**
+ * Inclusive cell range; undefined bounds are open (whole rows/columns)
+ */
+interface CellRange {
+  rowStart?: number;
+  rowEnd?: number;
+  colStart?: number;
+  colEnd?: number;
+}
+
+export class XlsxFormat extends DocumentFormat {
+  readonly formatId = 'xlsx';
+  readonly formatName = 'Excel Spreadsheet';
+  readonly supportedExtensions = ['xlsx'];
+  readonly mimeTypes = [XLSX_MIME];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: true,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['xlsx']
+  };
+
+  /**
+   * Load an XLSX file
+   */
+  async load(file: File): Promise<Document> {
+    const pkg = await readPackage(file);
+
+    const workbookPath = getRelationships(pkg, '')
+      .find((rel) => rel.type.endsWith('/officeDocument'))?.target || DEFAULT_WORKBOOK_PART;
+    const workbook = parseXmlPart(pkg, workbookPath);
+
+    if (!workbook) {
+      throw new Error(`${file.name} has no workbook part`);
+    }
+
+    const workbookRels = getRelationships(pkg, workbookPath);
+    const sharedStringsPath = workbookRels.find((rel) => rel.type.endsWith('/sharedStrings'))?.target;
+    const sharedStrings = sharedStringsPath ? readSharedStrings(parseXmlPart(pkg, sharedStringsPath)) : [];
+
+    const sheets: XlsxSheet[] = [];
+
+    for (const sheetElement of Array.from(workbook.getElementsByTagNameNS(SPREADSHEETML_NS, 'sheet'))) {
+      const relId = sheetElement.getAttributeNS(OFFICE_RELATIONSHIPS_NS, 'id');
+      const rel = workbookRels.find((candidate) => candidate.id === relId);
+
+      // Chart sheets and dialog sheets have no cells
+      if (!rel || !rel.type.endsWith('/worksheet')) continue;
+
+      const xml = parseXmlPart(pkg, rel.target);
+      if (!xml) continue;
+
+      const { data, cells } = readSheetData(xml, sharedStrings);
+      expandSharedFormulas(cells);
+
+      const hasHeaders = detectHeaderRow(data);
+      sheets.push({
+        name: sheetElement.getAttribute('name') || `Sheet${sheets.length + 1}`,
+        path: rel.target,
+        state: (sheetElement.getAttribute('state') as SheetState) || 'visible',
+        xml,
+        data,
+        cells,
+        hasHeaders,
+        headers: hasHeaders && data.length > 0 ? data[0] : []
+      });
+    }
+
+    const content: XlsxContent = {
+      pkg,
+      workbookPath,
+      workbook,
+      sharedStrings,
+      sheets,
+      redactedCells: new Map(),
+      activeSheet: Math.max(0, sheets.findIndex((sheet) => sheet.state === 'visible')),
+      fullText: '',
+      cellElements: new Map()
+    };
+    this.updateFullText(content);
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || XLSX_MIME,
+      sheetCount: sheets.length,
+      sheetNames: sheets.map((sheet) => sheet.name),
+      format: this.formatId,
+      privacyRisks: this.findPrivacyRisks(content)
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render the active sheet as an HTML table, with a tab per sheet
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as XlsxContent;
+    const container = options.container;
+
+    if (options.sheet !== undefined && content.sheets[options.sheet]) {
+      content.activeSheet = options.sheet;
+    }
+
+    container.innerHTML = '';
+    content.cellElements.clear();
+
+    const tabs = document.createElement('div');
+    tabs.className = 'xlsx-sheet-tabs';
+    tabs.style.cssText = `
+      display: flex;
+      gap: 4px;
+      padding: 8px 8px 0;
+      background: #f1f3f5;
+      border: 1px solid #ddd;
+      border-bottom: none;
+      border-radius: 4px 4px 0 0;
+      overflow-x: auto;
+    `;
+
+    content.sheets.forEach((sheet, sheetIndex) => {
+      const tab = document.createElement('button');
+      tab.type = 'button';
+      tab.textContent = sheet.state === 'visible' ? sheet.name : `${sheet.name} (hidden)`;
+      tab.dataset.sheet = String(sheetIndex);
+      const active = sheetIndex === content.activeSheet;
+      tab.style.cssText = `
+        padding: 6px 12px;
+        border: 1px solid #ced4da;
+        border-bottom: none;
+        border-radius: 4px 4px 0 0;
+        background: ${active ? '#fff' : 'transparent'};
+        font-weight: ${active ? '600' : '400'};
+        font-style: ${sheet.state === 'visible' ? 'normal' : 'italic'};
+        cursor: pointer;
+      `;
+      tab.addEventListener('click', () => {
+        void this.render(doc, { ...options, sheet: sheetIndex });
+      });
+      tabs.appendChild(tab);
+    });
+
+    container.appendChild(tabs);
+
+    const sheet = content.sheets[content.activeSheet];
+    if (sheet) {
+      container.appendChild(this.renderSheet(content, content.activeSheet));
+    }
+
+    this.renderRedactionBoxes(doc);
+
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text from all sheets
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as XlsxContent;
+    const sheetText = new Map<number, string>();
+
+    content.sheets.forEach((sheet, sheetIndex) => {
+      sheetText.set(sheetIndex, sheetToText(sheet));
+    });
+
+    return {
+      fullText: content.fullText,
+      sheetText,
+      characterPositions: [] // Cells are redacted whole, like CSV
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms
+   * Maps terms to cell positions; searches all sheets unless one is given
+   */
+  async findTextBoxes(doc: Document, terms: string[], page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as XlsxContent;
+    const boxes: BoundingBox[] = [];
+
+    content.sheets.forEach((sheet, sheetIndex) => {
+      if (page !== undefined && page !== sheetIndex) return;
+
+      sheet.data.forEach((row, rowIndex) => {
+        row.forEach((cell, colIndex) => {
+          const cellLower = cell.toLowerCase();
+
+          for (const term of terms) {
+            if (!term || term.trim().length === 0) continue;
+            if (!cellLower.includes(term.toLowerCase())) continue;
+
+            boxes.push(this.cellBox(content, sheetIndex, rowIndex, colIndex, 'regex'));
+          }
+        });
+      });
+    });
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to cells
+   * Replaces the cell value (and any formula) with redaction characters,
+   * then neutralizes formulas that read redacted cells
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as XlsxContent;
+
+    for (const box of boxes) {
+      if (box.row === undefined || box.column === undefined) continue;
+      this.redactCell(content, box.sheet ?? 0, box.row, box.column);
+    }
+
+    const neutralized = this.neutralizeFormulas(content);
+    doc.metadata.neutralizedFormulas = (doc.metadata.neutralizedFormulas ?? 0) + neutralized;
+
+    this.updateFullText(content);
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.cellElements.clear();
+    }
+  }
+
+  /**
+   * Export the redacted workbook as XLSX
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as XlsxContent;
+    const pkg: OoxmlPackage = { ...content.pkg };
+
+    for (const sheet of content.sheets) {
+      setXmlPart(pkg, sheet.path, sheet.xml);
+    }
+
+    this.blankUnusedSharedStrings(pkg, content);
+
+    // Pivot caches and chart caches hold their own copies of cell values
+    if (content.redactedCells.size > 0) {
+      this.removePivotTables(pkg, content);
+      this.blankChartCaches(pkg);
+    }
+
+    // The calculation chain lists formula cells we may have removed;
+    // Excel rebuilds it on open
+    findPartsByRelationshipType(pkg, '/calcChain').forEach((path) => removePart(pkg, path));
+
+    removeThumbnail(pkg);
+
+    return new Blob([writePackage(pkg) as BlobPart], { type: XLSX_MIME });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // Package bytes are released with the document
+  }
+
+  /**
+   * Get column by header name (for column-based redaction)
+   */
+  getColumnIndex(doc: Document, columnName: string, sheetIndex?: number): number | null {
+    const content = doc.content as XlsxContent;
+    const sheet = content.sheets[sheetIndex ?? content.activeSheet];
+
+    if (!sheet || !sheet.hasHeaders) return null;
+
+    const index = sheet.headers.findIndex(
+      h => h.toLowerCase() === columnName.toLowerCase()
+    );
+
+    return index >= 0 ? index : null;
+  }
+
+  /**
+   * Redact entire column by header name or index
+   */
+  async redactColumn(doc: Document, columnIdentifier: string | number, sheetIndex?: number): Promise<void> {
+    const content = doc.content as XlsxContent;
+    const targetSheet = sheetIndex ?? content.activeSheet;
+    const sheet = content.sheets[targetSheet];
+
+    if (!sheet) {
+      throw new Error(`Sheet ${targetSheet} not found`);
+    }
+
+    let columnIndex: number;
+
+    if (typeof columnIdentifier === 'string') {
+      const index = this.getColumnIndex(doc, columnIdentifier, targetSheet);
+      if (index === null) {
+        throw new Error(`Column "${columnIdentifier}" not found`);
+      }
+      columnIndex = index;
+    } else {
+      columnIndex = columnIdentifier;
+    }
+
+    await this.redact(doc, this.getColumnBoxes(doc, columnIndex, targetSheet));
+  }
+
+  /**
+   * Boxes for every data cell of a column (header row excluded)
+   */
+  getColumnBoxes(doc: Document, column: number, sheetIndex?: number): BoundingBox[] {
+    const content = doc.content as XlsxContent;
+    const targetSheet = sheetIndex ?? content.activeSheet;
+    const sheet = content.sheets[targetSheet];
+    if (!sheet) return [];
+
+    const boxes: BoundingBox[] = [];
+    const startRow = sheet.hasHeaders ? 1 : 0;
+
+    for (let rowIndex = startRow; rowIndex < sheet.data.length; rowIndex++) {
+      if (sheet.cells.has(`${rowIndex}-${column}`)) {
+        boxes.push(this.cellBox(content, targetSheet, rowIndex, column, 'manual'));
+      }
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Box for a cell, placed over its rendered element when there is one
+   */
+  private cellBox(
+    content: XlsxContent,
+    sheetIndex: number,
+    row: number,
+    column: number,
+    source: BoundingBox['source']
+  ): BoundingBox {
+    const rect = content.cellElements.get(`${sheetIndex}-${row}-${column}`)?.getBoundingClientRect();
+
+    return {
+      x: rect ? rect.left : column * 100,
+      y: rect ? rect.top : row * 30,
+      w: rect ? rect.width : 100,
+      h: rect ? rect.height : 30,
+      text: content.sheets[sheetIndex].data[row][column],
+      sheet: sheetIndex,
+      row,
+      column,
+      source
+    };
+  }
+
+  private updateFullText(content: XlsxContent): void {
+    content.fullText = content.sheets.map(sheetToText).join('\n');
+  }
+
+  /**
+   * Overwrite a single cell with redaction characters as an inline string
+   */
+  private redactCell(content: XlsxContent, sheetIndex: number, row: number, column: number): void {
+    const sheet = content.sheets[sheetIndex];
+    if (!sheet || row >= sheet.data.length || column >= sheet.data[row].length) return;
+
+    const key = `${row}-${column}`;
+    const original = sheet.data[row][column];
+    const redacted = '█'.repeat(Math.max(3, Math.min(original.length, 20)));
+
+    sheet.data[row][column] = redacted;
+
+    const cell = sheet.cells.get(key);
+    if (cell) {
+      setInlineString(cell, redacted);
+    }
+
+    if (!content.redactedCells.has(sheetIndex)) {
+      content.redactedCells.set(sheetIndex, new Set());
+    }
+    content.redactedCells.get(sheetIndex)!.add(key);
+  }
+
+  /**
+   * Replace formulas that read redacted cells (directly, through defined
+   * names or through other neutralized formulas) with redaction characters,
+   * since their cached values are derived from the redacted data
+   *
+   * @returns Number of formula cells neutralized
+   */
+  private neutralizeFormulas(content: XlsxContent): number {
+    const taintedNames = new Set<string>();
+    const definedNames = Array.from(content.workbook.getElementsByTagNameNS(SPREADSHEETML_NS, 'definedName'));
+    let neutralized = 0;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const definedName of definedNames) {
+        const name = (definedName.getAttribute('name') || '').toLowerCase();
+        if (!name || taintedNames.has(name)) continue;
+
+        const localSheet = definedName.getAttribute('localSheetId');
+        const scope = localSheet !== null ? Number(localSheet) : null;
+        if (this.formulaReadsRedacted(content, definedName.textContent || '', scope, taintedNames)) {
+          taintedNames.add(name);
+          changed = true;
+        }
+      }
+
+      content.sheets.forEach((sheet, sheetIndex) => {
+        for (const [key, cell] of sheet.cells) {
+          const formula = childElement(cell, 'f');
+          if (!formula) continue;
+
+          if (this.formulaReadsRedacted(content, formula.textContent || '', sheetIndex, taintedNames)) {
+            const [row, column] = key.split('-').map(Number);
+            this.redactCell(content, sheetIndex, row, column);
+            neutralized++;
+            changed = true;
+          }
+        }
+      });
+    }
+
+    return neutralized;
+  }
+
+  private formulaReadsRedacted(
+    content: XlsxContent,
+    formula: string,
+    defaultSheet: number | null,
+    taintedNames: Set<string>
+  ): boolean {
+    for (const match of formula.matchAll(FORMULA_TOKEN_PATTERN)) {
+      const [token, sheetPrefix, reference] = match;
+      if (token.startsWith('"')) continue;
+
+      if (reference === undefined) {
+        if (taintedNames.has(token.toLowerCase())) return true;
+        continue;
+      }
+
+      let sheetIndex = defaultSheet;
+      if (sheetPrefix) {
+        const sheetName = sheetPrefix.slice(0, -1).replace(/^'|'$/g, '').replace(/''/g, "'").toLowerCase();
+        sheetIndex = content.sheets.findIndex((sheet) => sheet.name.toLowerCase() === sheetName);
+      }
+      if (sheetIndex === null || sheetIndex < 0) continue;
+
+      const redacted = content.redactedCells.get(sheetIndex);
+      if (!redacted || redacted.size === 0) continue;
+
+      const range = parseRange(reference);
+      for (const key of redacted) {
+        const [row, column] = key.split('-').map(Number);
+        if (rangeContains(range, row, column)) return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Blank shared strings no longer referenced by any cell, so redacted
+   * values do not survive in the string table
+   */
+  private blankUnusedSharedStrings(pkg: OoxmlPackage, content: XlsxContent): void {
+    const sharedStringsPath = getRelationships(pkg, content.workbookPath)
+      .find((rel) => rel.type.endsWith('/sharedStrings'))?.target;
+    const xml = sharedStringsPath ? parseXmlPart(pkg, sharedStringsPath) : null;
+    if (!sharedStringsPath || !xml) return;
+
+    const used = new Set<number>();
+    for (const sheet of content.sheets) {
+      for (const cell of sheet.cells.values()) {
+        if (cell.getAttribute('t') === 's') {
+          used.add(Number(childElement(cell, 'v')?.textContent));
+        }
+      }
+    }
+
+    const items = Array.from(xml.documentElement.children)
+      .filter((child) => child.localName === 'si');
+
+    items.forEach((item, index) => {
+      if (used.has(index)) return;
+      while (item.firstChild) item.removeChild(item.firstChild);
+      item.appendChild(xml.createElementNS(SPREADSHEETML_NS, 't'));
+    });
+
+    setXmlPart(pkg, sharedStringsPath, xml);
+  }
+
+  /**
+   * Remove pivot tables with their caches, which copy the source data
+   * (records) and its distinct values (shared items). The values a pivot
+   * table displays are ordinary cells and stay in the sheet.
+   */
+  private removePivotTables(pkg: OoxmlPackage, content: XlsxContent): void {
+    const parts = ['/pivotTable', '/pivotCacheDefinition', '/pivotCacheRecords']
+      .flatMap((type) => findPartsByRelationshipType(pkg, type));
+    if (parts.length === 0) return;
+
+    parts.forEach((path) => removePart(pkg, path));
+
+    const workbook = parseXmlPart(pkg, content.workbookPath);
+    if (!workbook) return;
+
+    for (const pivotCaches of Array.from(workbook.getElementsByTagNameNS(SPREADSHEETML_NS, 'pivotCaches'))) {
+      pivotCaches.parentNode?.removeChild(pivotCaches);
+    }
+    setXmlPart(pkg, content.workbookPath, workbook);
+  }
+
+  /**
+   * Empty the value caches of charts; Excel refills them from the
+   * referenced cells when the workbook opens
+   */
+  private blankChartCaches(pkg: OoxmlPackage): void {
+    for (const path of findPartsByRelationshipType(pkg, '/chart')) {
+      const xml = parseXmlPart(pkg, path);
+      if (!xml) continue;
+
+      const caches = ['strCache', 'numCache']
+        .flatMap((name) => Array.from(xml.getElementsByTagNameNS(DRAWINGML_CHART_NS, name)));
+
+      for (const cache of caches) {
+        for (const child of Array.from(cache.children)) {
+          if (child.localName === 'pt') cache.removeChild(child);
+          if (child.localName === 'ptCount') child.setAttribute('val', '0');
+        }
+      }
+
+      if (caches.length > 0) setXmlPart(pkg, path, xml);
+    }
+  }
+
+  private renderSheet(content: XlsxContent, sheetIndex: number): HTMLElement {
+    const sheet = content.sheets[sheetIndex];
+
+    const tableWrapper = document.createElement('div');
+    tableWrapper.style.cssText = `
+      overflow-x: auto;
+      max-height: 600px;
+      overflow-y: auto;
+      border: 1px solid #ddd;
+      border-radius: 0 0 4px 4px;
+    `;
+
+    const table = document.createElement('table');
+    table.style.cssText = `
+      width: 100%;
+      border-collapse: collapse;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 14px;
+    `;
+
+    const tbody = document.createElement('tbody');
+
+    sheet.data.forEach((row, rowIndex) => {
+      const tr = document.createElement('tr');
+      const isHeader = sheet.hasHeaders && rowIndex === 0;
+
+      if (isHeader || rowIndex % 2 === 1) {
+        tr.style.background = '#f8f9fa';
+      }
+
+      row.forEach((cell, colIndex) => {
+        const td = document.createElement(isHeader ? 'th' : 'td');
+        td.textContent = cell;
+        td.style.cssText = `
+          padding: 10px 12px;
+          border: 1px solid #dee2e6;
+          max-width: 300px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          text-align: left;
+          ${isHeader ? 'font-weight: 600;' : ''}
+        `;
+        td.title = cell;
+        td.dataset.sheet = String(sheetIndex);
+        td.dataset.row = String(rowIndex);
+        td.dataset.col = String(colIndex);
+
+        tr.appendChild(td);
+        content.cellElements.set(`${sheetIndex}-${rowIndex}-${colIndex}`, td);
+      });
+
+      tbody.appendChild(tr);
+    });
+
+    table.appendChild(tbody);
+    tableWrapper.appendChild(table);
+    return tableWrapper;
+  }
+
+  /**
+   * Render redaction boxes visually on the table
+   */
+  private renderRedactionBoxes(doc: Document): void {
+    const content = doc.content as XlsxContent;
+
+    for (const box of doc.boxes) {
+      if (box.row === undefined || box.column === undefined) continue;
+
+      const cellElement = content.cellElements.get(`${box.sheet ?? 0}-${box.row}-${box.column}`);
+      if (!cellElement) continue;
+
+      cellElement.style.background = '#000';
+      cellElement.style.color = '#000';
+      cellElement.textContent = '█████';
+    }
+  }
+
+  /**
+   * Report hidden sheets, comments, defined names and cached copies of
+   * cell values in pivot tables and charts
+   */
+  private findPrivacyRisks(content: XlsxContent): PrivacyRisk[] {
+    const risks: PrivacyRisk[] = [];
+
+    const hiddenSheets = content.sheets.filter((sheet) => sheet.state !== 'visible');
+    if (hiddenSheets.length > 0) {
+      risks.push({
+        id: 'xlsx-hidden-sheets',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Hidden Sheets',
+        description: 'Hidden sheets are not shown in Excel but travel with the file. They are included in detection.',
+        found: true,
+        details: hiddenSheets.map((sheet) => sheet.name).join(', ')
+      });
+    }
+
+    let commentCount = 0;
+    const commentedSheets: string[] = [];
+    for (const sheet of content.sheets) {
+      const count = getRelationships(content.pkg, sheet.path)
+        .filter((rel) => !rel.external && (rel.type.endsWith('/comments') || rel.type.endsWith('/threadedComment')))
+        .reduce((total, rel) => {
+          const xml = parseXmlPart(content.pkg, rel.target);
+          if (!xml) return total;
+          return total
+            + xml.getElementsByTagNameNS(SPREADSHEETML_NS, 'comment').length
+            + xml.getElementsByTagNameNS('*', 'threadedComment').length;
+        }, 0);
+
+      if (count > 0) {
+        commentCount += count;
+        commentedSheets.push(sheet.name);
+      }
+    }
+
+    if (commentCount > 0) {
+      risks.push({
+        id: 'xlsx-comments',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'Cell Comments',
+        description: 'Comments and notes record their authors and may contain sensitive remarks.',
+        found: true,
+        details: `${commentCount} comment(s) on ${commentedSheets.join(', ')}`
+      });
+    }
+
+    const definedNames = Array.from(content.workbook.getElementsByTagNameNS(SPREADSHEETML_NS, 'definedName'))
+      .filter((definedName) => !(definedName.getAttribute('name') || '').startsWith('_xlnm.'));
+
+    if (definedNames.length > 0) {
+      const hidden = definedNames.some((definedName) => definedName.getAttribute('hidden') === '1');
+      risks.push({
+        id: 'xlsx-defined-names',
+        category: 'Hidden Content',
+        severity: hidden ? 'medium' : 'low',
+        title: 'Defined Names',
+        description: 'Named ranges and constants can point at, or hold, data outside the visible cells.',
+        found: true,
+        details: definedNames
+          .map((definedName) => `${definedName.getAttribute('name')}${definedName.getAttribute('hidden') === '1' ? ' (hidden)' : ''}`)
+          .join(', ')
+      });
+    }
+
+    const pivotCaches = findPartsByRelationshipType(content.pkg, '/pivotCacheDefinition');
+    if (pivotCaches.length > 0) {
+      risks.push({
+        id: 'xlsx-pivot-caches',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Pivot Table Caches',
+        description: 'Pivot tables keep a full copy of their source data, including rows they do not show. Pivot tables are removed (their displayed values kept) when cells are redacted.',
+        found: true,
+        details: `${pivotCaches.length} pivot cache(s)`
+      });
+    }
+
+    const charts = findPartsByRelationshipType(content.pkg, '/chart');
+    if (charts.length > 0) {
+      risks.push({
+        id: 'xlsx-chart-caches',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'Chart Data Caches',
+        description: 'Charts store a copy of the values they plot. The copies are emptied when cells are redacted, and Excel refills them on open.',
+        found: true,
+        details: `${charts.length} chart(s)`
+      });
+    }
+
+    return risks;
+  }
+}
+
+function childElement(parent: Element, localName: string): Element | null {
+  return Array.from(parent.children)
+    .find((child) => child.namespaceURI === SPREADSHEETML_NS && child.localName === localName) ?? null;
+}
+
+function sheetToText(sheet: XlsxSheet): string {
+  return sheet.data.map(row => row.join(' ')).join('\n');
+}
+
+/**
+ * Convert column letters to a 0-based index (A -> 0, AA -> 26)
+ */
+export function columnToIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert a 0-based column index to letters (0 -> A, 26 -> AA)
+ */
+export function indexToColumn(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Parse an A1-style reference, range, whole column (A:C) or whole row (2:5)
+ */
+function parseRange(reference: string): CellRange {
+  const [start, end = start] = reference.split(':').map((part) => {
+    const match = REFERENCE_PART_PATTERN.exec(part);
+    return {
+      col: match?.[2] ? columnToIndex(match[2]) : undefined,
+      row: match?.[4] ? Number(match[4]) - 1 : undefined
+    };
+  });
+
+  return {
+    rowStart: start.row,
+    rowEnd: end.row,
+    colStart: start.col,
+    colEnd: end.col
+  };
+}
+
+function rangeContains(range: CellRange, row: number, column: number): boolean {
+  return (range.rowStart === undefined || row >= Math.min(range.rowStart, range.rowEnd ?? range.rowStart))
+    && (range.rowEnd === undefined || row <= Math.max(range.rowStart ?? range.rowEnd, range.rowEnd))
+    && (range.colStart === undefined || column >= Math.min(range.colStart, range.colEnd ?? range.colStart))
+    && (range.colEnd === undefined || column <= Math.max(range.colStart ?? range.colEnd, range.colEnd));
+}
+
+/**
+ * Shift the relative parts of every reference in a formula
+ * (used to expand shared formulas into per-cell formulas)
+ */
+function shiftFormula(formula: string, rowOffset: number, columnOffset: number): string {
+  return formula.replace(FORMULA_TOKEN_PATTERN, (token: string, sheetPrefix?: string, reference?: string) => {
+    if (reference === undefined) return token;
+
+    const shifted = reference.split(':').map((part) => {
+      const match = REFERENCE_PART_PATTERN.exec(part);
+      if (!match) return part;
+
+      const [, firstAbsolute, letters, secondAbsolute, digits] = match;
+
+      if (!letters) {
+        // Whole-row part ("5" or "$5")
+        const absolute = firstAbsolute || secondAbsolute;
+        return absolute + (absolute ? digits : String(Number(digits) + rowOffset));
+      }
+
+      const column = firstAbsolute ? letters : indexToColumn(columnToIndex(letters) + columnOffset);
+      const row = digits === undefined
+        ? ''
+        : secondAbsolute + (secondAbsolute ? digits : String(Number(digits) + rowOffset));
+
+      return firstAbsolute + column + row;
+    });
+
+    return (sheetPrefix ?? '') + shifted.join(':');
+  });
+}
+
+function readSharedStrings(xml: XMLDocument | null): string[] {
+  if (!xml) return [];
+
+  return Array.from(xml.documentElement.children)
+    .filter((child) => child.localName === 'si')
+    .map((item) => Array.from(item.getElementsByTagNameNS(SPREADSHEETML_NS, 't'))
+      // Phonetic guide text (rPh) is not part of the displayed value
+      .filter((t) => t.parentElement?.localName !== 'rPh')
+      .map((t) => t.textContent || '')
+      .join(''));
+}
+
+/**
+ * Build a dense grid of display values and an index of cell elements
+ */
+function readSheetData(xml: XMLDocument, sharedStrings: string[]): { data: string[][]; cells: Map<string, Element> } {
+  const data: string[][] = [];
+  const cells = new Map<string, Element>();
+  let rowIndex = -1;
+
+  for (const rowElement of Array.from(xml.getElementsByTagNameNS(SPREADSHEETML_NS, 'row'))) {
+    const rowAttr = rowElement.getAttribute('r');
+    rowIndex = rowAttr ? Number(rowAttr) - 1 : rowIndex + 1;
+    let colIndex = -1;
+
+    for (const cell of Array.from(rowElement.children)) {
+      if (cell.localName !== 'c') continue;
+
+      const ref = /^([A-Z]+)(\d+)$/.exec(cell.getAttribute('r') || '');
+      colIndex = ref ? columnToIndex(ref[1]) : colIndex + 1;
+
+      while (data.length <= rowIndex) data.push([]);
+      const row = data[rowIndex];
+      while (row.length <= colIndex) row.push('');
+
+      row[colIndex] = cellValue(cell, sharedStrings);
+      cells.set(`${rowIndex}-${colIndex}`, cell);
+    }
+  }
+
+  // Pad to a rectangle so columns line up
+  const width = Math.max(0, ...data.map((row) => row.length));
+  data.forEach((row) => {
+    while (row.length < width) row.push('');
+  });
+
+  return { data, cells };
+}
+
+function cellValue(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+  const value = childElement(cell, 'v')?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr': {
+      const inline = childElement(cell, 'is');
+      return inline
+        ? Array.from(inline.getElementsByTagNameNS(SPREADSHEETML_NS, 't')).map((t) => t.textContent || '').join('')
+        : '';
+    }
+    case 'b':
+      return value === '1' ? 'TRUE' : value === '0' ? 'FALSE' : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Replace a cell's formula and value with an inline string
+ */
+function setInlineString(cell: Element, text: string): void {
+  for (const name of ['f', 'v', 'is']) {
+    const child = childElement(cell, name);
+    if (child) cell.removeChild(child);
+  }
+
+  const xml = cell.ownerDocument;
+  const inline = xml.createElementNS(SPREADSHEETML_NS, 'is');
+  const t = xml.createElementNS(SPREADSHEETML_NS, 't');
+  t.textContent = text;
+  inline.appendChild(t);
+
+  // <is> must precede <extLst>
+  cell.insertBefore(inline, childElement(cell, 'extLst'));
+  cell.setAttribute('t', 'inlineStr');
+}
+
+/**
+ * Give every follower of a shared formula its own shifted copy, so
+ * formulas can be neutralized cell by cell
+ */
+function expandSharedFormulas(cells: Map<string, Element>): void {
+  const masters = new Map<string, { formula: string; row: number; column: number }>();
+  const shared: Array<{ formula: Element; row: number; column: number }> = [];
+
+  for (const [key, cell] of cells) {
+    const formula = childElement(cell, 'f');
+    if (!formula || formula.getAttribute('t') !== 'shared') continue;
+
+    const [row, column] = key.split('-').map(Number);
+    const groupId = formula.getAttribute('si') || '';
+    if (formula.getAttribute('ref') && formula.textContent) {
+      masters.set(groupId, { formula: formula.textContent, row, column });
+    }
+    shared.push({ formula, row, column });
+  }
+
+  for (const { formula, row, column } of shared) {
+    const master = masters.get(formula.getAttribute('si') || '');
+    if (!master) continue;
+
+    if (!formula.textContent) {
+      formula.textContent = shiftFormula(master.formula, row - master.row, column - master.column);
+    }
+    formula.removeAttribute('t');
+    formula.removeAttribute('si');
+    formula.removeAttribute('ref');
+  }
+}
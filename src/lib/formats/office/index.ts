@@ -0,0 +1,7 @@
+/**
+ * Office Open XML format handlers (DOCX, XLSX, etc.)
+ */
+
+export * from './DocxFormat';
+export * from './XlsxFormat';
+export * from './PptxFormat';
@@ -0,0 +1,288 @@
+/**
+ * Shared helpers for Office Open XML packages (DOCX, XLSX, PPTX)
+ *
+ * An OOXML file is a ZIP archive of XML "parts" wired together by
+ * relationship files (`_rels/*.rels`) and a `[Content_Types].xml` manifest.
+ * These helpers read and write the archive, parse and serialize parts, and
+ * remove parts cleanly so the resulting package still opens in Office.
+ */
+
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+
+/**
+ * Unzipped package: part path (no leading slash) to raw bytes
+ */
+export type OoxmlPackage = Record<string, Uint8Array>;
+
+export const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+export const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+export const CORE_PROPERTIES_PATH = 'docProps/core.xml';
+export const CUSTOM_PROPERTIES_PATH = 'docProps/custom.xml';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n';
+
+/** Core property elements that identify people */
+const AUTHOR_FIELDS = ['creator', 'lastModifiedBy'];
+
+/**
+ * Read a file into an unzipped package
+ */
+export async function readPackage(file: File): Promise<OoxmlPackage> {
+  const buffer = await readFileAsArrayBuffer(file);
+
+  try {
+    return unzipSync(new Uint8Array(buffer));
+  } catch (error) {
+    throw new Error(`${file.name} is not a valid Office document (could not unzip package)`);
+  }
+}
+
+/**
+ * Zip a package back into file bytes
+ */
+export function writePackage(pkg: OoxmlPackage): Uint8Array {
+  return zipSync(pkg, { level: 6 });
+}
+
+/**
+ * Parse an XML part, or return null if the part does not exist
+ */
+export function parseXmlPart(pkg: OoxmlPackage, path: string): XMLDocument | null {
+  const bytes = pkg[path];
+  if (!bytes) return null;
+
+  const xml = new DOMParser().parseFromString(strFromU8(bytes), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Malformed XML in package part ${path}`);
+  }
+  return xml;
+}
+
+/**
+ * Serialize an XML document back into a package part
+ */
+export function setXmlPart(pkg: OoxmlPackage, path: string, xml: XMLDocument): void {
+  let serialized = new XMLSerializer().serializeToString(xml);
+  // XMLSerializer drops the declaration; Office expects it
+  if (!serialized.startsWith('<?xml')) {
+    serialized = XML_DECLARATION + serialized;
+  }
+  pkg[path] = strToU8(serialized);
+}
+
+/**
+ * Get the relationships part path for a source part
+ * (e.g. word/document.xml -> word/_rels/document.xml.rels)
+ */
+export function relationshipsPathFor(partPath: string): string {
+  const slash = partPath.lastIndexOf('/');
+  const dir = slash >= 0 ? partPath.slice(0, slash + 1) : '';
+  const name = slash >= 0 ? partPath.slice(slash + 1) : partPath;
+  return `${dir}_rels/${name}.rels`;
+}
+
+/**
+ * Resolve a relationship target against the part that owns the relationship
+ */
+export function resolveTarget(sourcePart: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const slash = sourcePart.lastIndexOf('/');
+  const segments = slash >= 0 ? sourcePart.slice(0, slash).split('/') : [];
+
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Inverse of relationshipsPathFor: the part a .rels file describes
+ */
+function sourcePartForRelationships(relsPath: string): string {
+  const match = /^(.*?)_rels\/(.*)\.rels$/.exec(relsPath);
+  return match ? match[1] + match[2] : '';
+}
+
+/**
+ * List the relationships declared by a part
+ */
+export function getRelationships(
+  pkg: OoxmlPackage,
+  partPath: string
+): Array<{ id: string; type: string; target: string; external: boolean }> {
+  const rels = parseXmlPart(pkg, relationshipsPathFor(partPath));
+  if (!rels) return [];
+
+  return Array.from(rels.getElementsByTagNameNS(RELATIONSHIPS_NS, 'Relationship')).map((rel) => {
+    const external = rel.getAttribute('TargetMode') === 'External';
+    const target = rel.getAttribute('Target') || '';
+    return {
+      id: rel.getAttribute('Id') || '',
+      type: rel.getAttribute('Type') || '',
+      target: external ? target : resolveTarget(partPath, target),
+      external
+    };
+  });
+}
+
+/**
+ * Remove one relationship from a part's relationships
+ * Elements in the part that refer to it by id must be removed by the caller.
+ */
+export function removeRelationship(pkg: OoxmlPackage, partPath: string, id: string): void {
+  const relsPath = relationshipsPathFor(partPath);
+  const rels = parseXmlPart(pkg, relsPath);
+  if (!rels) return;
+
+  const matches = Array.from(rels.getElementsByTagNameNS(RELATIONSHIPS_NS, 'Relationship'))
+    .filter((rel) => rel.getAttribute('Id') === id);
+  matches.forEach((rel) => rel.parentNode?.removeChild(rel));
+  if (matches.length > 0) setXmlPart(pkg, relsPath, rels);
+}
+
+/**
+ * Remove a part together with its own relationships, every relationship
+ * pointing at it and its content type override
+ */
+export function removePart(pkg: OoxmlPackage, partPath: string): void {
+  delete pkg[partPath];
+  delete pkg[relationshipsPathFor(partPath)];
+
+  for (const relsPath of Object.keys(pkg)) {
+    if (!relsPath.endsWith('.rels')) continue;
+
+    const rels = parseXmlPart(pkg, relsPath);
+    if (!rels) continue;
+
+    const sourcePart = sourcePartForRelationships(relsPath);
+    let changed = false;
+
+    for (const rel of Array.from(rels.getElementsByTagNameNS(RELATIONSHIPS_NS, 'Relationship'))) {
+      if (rel.getAttribute('TargetMode') === 'External') continue;
+      if (resolveTarget(sourcePart, rel.getAttribute('Target') || '') === partPath) {
+        rel.parentNode?.removeChild(rel);
+        changed = true;
+      }
+    }
+
+    if (changed) setXmlPart(pkg, relsPath, rels);
+  }
+
+  const contentTypes = parseXmlPart(pkg, '[Content_Types].xml');
+  if (contentTypes) {
+    const overrides = Array.from(contentTypes.getElementsByTagNameNS(CONTENT_TYPES_NS, 'Override'))
+      .filter((override) => override.getAttribute('PartName') === `/${partPath}`);
+
+    overrides.forEach((override) => override.parentNode?.removeChild(override));
+    if (overrides.length > 0) setXmlPart(pkg, '[Content_Types].xml', contentTypes);
+  }
+}
+
+/**
+ * Remove every part under a folder prefix (e.g. "customXml/")
+ *
+ * @returns Number of parts removed (relationship parts excluded)
+ */
+export function removePartsUnder(pkg: OoxmlPackage, prefix: string): number {
+  const parts = Object.keys(pkg).filter((path) => path.startsWith(prefix) && !path.endsWith('.rels'));
+  parts.forEach((path) => removePart(pkg, path));
+
+  for (const path of Object.keys(pkg)) {
+    if (path.startsWith(prefix)) delete pkg[path];
+  }
+
+  return parts.length;
+}
+
+/**
+ * Find parts whose relationship type ends with the given suffix
+ * (e.g. "/comments"), searching every relationships file in the package
+ */
+export function findPartsByRelationshipType(pkg: OoxmlPackage, typeSuffix: string): string[] {
+  const found = new Set<string>();
+
+  for (const relsPath of Object.keys(pkg)) {
+    if (!relsPath.endsWith('.rels')) continue;
+
+    for (const rel of getRelationships(pkg, sourcePartForRelationships(relsPath))) {
+      if (!rel.external && rel.type.endsWith(typeSuffix) && pkg[rel.target]) {
+        found.add(rel.target);
+      }
+    }
+  }
+
+  return Array.from(found);
+}
+
+/**
+ * Remove the package thumbnail (usually docProps/thumbnail.jpeg), a
+ * picture of the first page, sheet or slide as it was before redaction
+ *
+ * @returns Whether a thumbnail was removed
+ */
+export function removeThumbnail(pkg: OoxmlPackage): boolean {
+  const parts = new Set([
+    ...findPartsByRelationshipType(pkg, '/metadata/thumbnail'),
+    ...Object.keys(pkg).filter((path) => path.startsWith('docProps/thumbnail.'))
+  ]);
+
+  parts.forEach((path) => removePart(pkg, path));
+  return parts.size > 0;
+}
+
+/**
+ * Read author-identifying fields from docProps/core.xml
+ */
+export function readAuthorFields(pkg: OoxmlPackage): Record<string, string> {
+  const core = parseXmlPart(pkg, CORE_PROPERTIES_PATH);
+  const fields: Record<string, string> = {};
+  if (!core) return fields;
+
+  for (const name of AUTHOR_FIELDS) {
+    const value = core.getElementsByTagNameNS('*', name)[0]?.textContent?.trim();
+    if (value) fields[name] = value;
+  }
+
+  return fields;
+}
+
+/**
+ * Blank author-identifying fields in docProps/core.xml
+ *
+ * @returns Names of the fields that were cleared
+ */
+export function scrubAuthorFields(pkg: OoxmlPackage): string[] {
+  const core = parseXmlPart(pkg, CORE_PROPERTIES_PATH);
+  if (!core) return [];
+
+  const cleared: string[] = [];
+  for (const name of AUTHOR_FIELDS) {
+    for (const element of Array.from(core.getElementsByTagNameNS('*', name))) {
+      if (element.textContent) {
+        element.textContent = '';
+        cleared.push(name);
+      }
+    }
+  }
+
+  if (cleared.length > 0) setXmlPart(pkg, CORE_PROPERTIES_PATH, core);
+  return cleared;
+}
+
+/**
+ * Read file as ArrayBuffer using FileReader (compatible with test environments)
+ */
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
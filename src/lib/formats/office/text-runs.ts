@@ -0,0 +1,101 @@
+/**
+ * Run-level text helpers shared by the OOXML handlers
+ *
+ * Word (w:t) and PowerPoint (a:t) both split a paragraph's text across
+ * runs. A paragraph is flattened into segments that remember their source
+ * element, so a character range can be overwritten in place even when it
+ * crosses run boundaries.
+ */
+
+export const REDACTION_CHAR = '█';
+
+/**
+ * A piece of paragraph text and the XML node it came from
+ */
+export interface TextSegment {
+  node: Element | null; // Text element, null for tabs and breaks
+  text: string;
+  start: number;        // Offset within the paragraph text
+  hidden: boolean;      // Not shown in the preview (e.g. field instructions)
+}
+
+/**
+ * Character range [start, end) within a paragraph
+ */
+export type TextRange = [number, number];
+
+export function segmentsToText(segments: TextSegment[]): string {
+  return segments.map((segment) => segment.text).join('');
+}
+
+/**
+ * Overwrite paragraph characters [start, end) in every text node they touch
+ *
+ * @param onWrite - Called for each rewritten element (e.g. to set xml:space)
+ * @returns The new paragraph text
+ */
+export function overwriteRange(
+  segments: TextSegment[],
+  start: number,
+  end: number,
+  onWrite?: (node: Element) => void
+): string {
+  for (const segment of segments) {
+    const segmentEnd = segment.start + segment.text.length;
+    if (!segment.node || segmentEnd <= start || segment.start >= end) continue;
+
+    const from = Math.max(start, segment.start) - segment.start;
+    const to = Math.min(end, segmentEnd) - segment.start;
+    segment.text = segment.text.substring(0, from)
+      + REDACTION_CHAR.repeat(to - from)
+      + segment.text.substring(to);
+
+    segment.node.textContent = segment.text;
+    onWrite?.(segment.node);
+  }
+
+  return segmentsToText(segments);
+}
+
+/**
+ * Render a segment as a span, wrapping the parts covered by pending
+ * redaction ranges in black overlays
+ */
+export function renderSegment(segment: TextSegment, ranges: TextRange[], cssText = ''): HTMLElement {
+  const span = document.createElement('span');
+  span.style.cssText = cssText;
+
+  const isRedacted = (offset: number) => {
+    const position = segment.start + offset;
+    return ranges.some(([s, e]) => position >= s && position < e);
+  };
+
+  // Split the segment at redaction boundaries
+  let cursor = 0;
+  while (cursor < segment.text.length) {
+    const inside = isRedacted(cursor);
+    let next = cursor + 1;
+    while (next < segment.text.length && isRedacted(next) === inside) {
+      next++;
+    }
+
+    const piece = segment.text.substring(cursor, next);
+    if (inside) {
+      const overlay = document.createElement('span');
+      overlay.className = 'redaction-box';
+      overlay.style.cssText = `
+        background-color: #000;
+        color: #000;
+        padding: 2px 0;
+        border-radius: 2px;
+      `;
+      overlay.textContent = piece;
+      span.appendChild(overlay);
+    } else {
+      span.appendChild(document.createTextNode(piece));
+    }
+    cursor = next;
+  }
+
+  return span;
+}
@@ -0,0 +1,617 @@
+/**
+ * HTML format handler
+ * Detects on visible text and on the places PII hides in saved pages:
+ * attribute values, comments, JSON data blocks and hidden elements.
+ * Exports sanitized HTML with redacted spans and scripts/trackers removed
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import type {
+  BoundingBox,
+  CharacterPosition,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+import type { PrivacyRisk } from '../../privacy/types';
+
+const REDACTION_CHAR = '█';
+const REDACTED_STYLE = 'background: #000; color: #000;';
+
+/** Approximate layout used for box and character coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/** Elements whose content is never shown as page text */
+const SKIPPED_ELEMENTS = new Set(['style', 'noscript', 'template']);
+
+/** Attributes that commonly carry names, emails and identifiers */
+const TEXT_ATTRIBUTES = new Set(['alt', 'title', 'placeholder', 'aria-label']);
+
+/** Script types that hold data rather than code */
+const DATA_SCRIPT_TYPE = /json/i;
+
+/** Inline styles that hide an element */
+const HIDDEN_STYLE = /(display\s*:\s*none|visibility\s*:\s*hidden)/i;
+
+/** Analytics, ad and email-open tracking hosts */
+const TRACKER_URL = /(google-analytics\.com|googletagmanager\.com|doubleclick\.net|facebook\.(com|net)\/tr|connect\.facebook\.net|hotjar\.com|mixpanel\.com|segment\.(io|com)|list-manage\.com\/track|mc\.yandex\.ru|bat\.bing\.com|clarity\.ms)/i;
+
+/** Link parameters added by campaign and click tracking */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid|_hsenc|_hsmi)$/i;
+
+/**
+ * Where a piece of detectable text lives in the DOM
+ * - text: a text node in the page
+ * - attribute: an attribute value (alt, title, data-*, mailto links...)
+ * - comment: an HTML comment
+ * - data: the body of a JSON <script> block
+ */
+type HtmlUnitKind = 'text' | 'attribute' | 'comment' | 'data';
+
+interface HtmlUnit {
+  kind: HtmlUnitKind;
+  node: Node;
+  attribute?: string;
+  label: string;   // Where the text came from, shown in the hidden content panel
+  hidden: boolean; // Not visible when the page is displayed
+  text: string;
+}
+
+/**
+ * Internal content structure for HTML documents
+ */
+interface HtmlContent {
+  dom: HTMLDocument;
+  units: HtmlUnit[];
+  fullText: string;
+  lineElements: Map<number, HTMLElement>; // Map of unit index to hidden content panel entry
+}
+
+/**
+ * Counts of active content removed on export
+ */
+interface ActiveContent {
+  scripts: number;
+  trackers: number;
+}
+
+export class HtmlFormat extends DocumentFormat {
+  readonly formatId = 'html';
+  readonly formatName = 'HTML Document';
+  readonly supportedExtensions = ['html', 'htm'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: false,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['html']
+  };
+
+  /**
+   * Load an HTML file
+   * The markup is parsed with DOMParser, which never runs scripts or loads
+   * resources
+   */
+  async load(file: File): Promise<Document> {
+    const text = await this.readFileAsText(file);
+    const dom = new DOMParser().parseFromString(text, 'text/html') as HTMLDocument;
+
+    const content: HtmlContent = {
+      dom,
+      units: [],
+      fullText: '',
+      lineElements: new Map()
+    };
+
+    this.collectUnits(content, dom, false);
+    this.updateFullText(content);
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || 'text/html',
+      title: dom.title || undefined,
+      format: this.formatId,
+      privacyRisks: this.findPrivacyRisks(content)
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render a sandboxed preview of the sanitized page, followed by a panel
+   * listing text that is not visible on the page
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as HtmlContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+    content.lineElements.clear();
+
+    const htmlContainer = document.createElement('div');
+    htmlContainer.className = 'html-container';
+    htmlContainer.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    `;
+
+    // An empty sandbox blocks scripts, forms, popups and same-origin access
+    const frame = document.createElement('iframe');
+    frame.className = 'html-preview';
+    frame.setAttribute('sandbox', '');
+    frame.setAttribute('referrerpolicy', 'no-referrer');
+    frame.srcdoc = this.serialize(content);
+    frame.style.cssText = `
+      width: 100%;
+      height: 600px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      background: #fff;
+    `;
+    htmlContainer.appendChild(frame);
+
+    const hiddenUnits = content.units
+      .map((unit, index) => ({ unit, index }))
+      .filter(({ unit }) => unit.kind !== 'text' || unit.hidden);
+
+    if (hiddenUnits.length > 0) {
+      const panel = document.createElement('div');
+      panel.className = 'html-hidden-content';
+      panel.style.cssText = `
+        padding: 12px 16px;
+        background: #fafafa;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        max-height: 300px;
+        overflow-y: auto;
+        font-size: 13px;
+      `;
+
+      const heading = document.createElement('div');
+      heading.textContent = 'Not visible on the page';
+      heading.style.cssText = 'font-weight: 600; color: #555; margin-bottom: 8px;';
+      panel.appendChild(heading);
+
+      for (const { unit, index } of hiddenUnits) {
+        const entry = document.createElement('div');
+        entry.dataset.lineNumber = String(index);
+        entry.style.cssText = 'display: flex; gap: 8px; padding: 2px 0;';
+
+        const label = document.createElement('span');
+        label.textContent = unit.label;
+        label.style.cssText = 'flex: 0 0 160px; color: #888; font-family: monospace; font-size: 12px;';
+
+        const value = document.createElement('span');
+        value.style.cssText = 'white-space: pre-wrap; word-break: break-word;';
+        value.appendChild(wrapRedactedText(document, unit.text.trim()));
+
+        entry.append(label, value);
+        content.lineElements.set(index, entry);
+        panel.appendChild(entry);
+      }
+
+      htmlContainer.appendChild(panel);
+    }
+
+    container.appendChild(htmlContainer);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text from every unit, one unit per line
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as HtmlContent;
+    const characterPositions: CharacterPosition[] = [];
+    let index = 0;
+
+    content.units.forEach((unit, line) => {
+      for (let column = 0; column < unit.text.length; column++) {
+        characterPositions.push({
+          char: unit.text[column],
+          index: index + column,
+          x: column * CHAR_WIDTH,
+          y: line * LINE_HEIGHT,
+          w: CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          line,
+          column
+        });
+      }
+      index += unit.text.length + 1; // Unit separator
+    });
+
+    return {
+      fullText: content.fullText,
+      lineText: content.units.map((unit) => unit.text),
+      characterPositions
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms in every unit
+   */
+  async findTextBoxes(doc: Document, terms: string[], _page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as HtmlContent;
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      content.units.forEach((unit, lineIndex) => {
+        const lowerText = unit.text.toLowerCase();
+        let startIndex = 0;
+
+        while (true) {
+          const index = lowerText.indexOf(lowerTerm, startIndex);
+          if (index === -1) break;
+
+          boxes.push({
+            x: index * CHAR_WIDTH,
+            y: lineIndex * LINE_HEIGHT,
+            w: term.length * CHAR_WIDTH,
+            h: LINE_HEIGHT,
+            text: unit.text.substring(index, index + term.length),
+            line: lineIndex,
+            source: 'regex'
+          });
+          startIndex = index + 1;
+        }
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Overwrites the characters in the text node, attribute, comment or data
+   * block itself; the export then wraps them in redacted spans
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as HtmlContent;
+
+    for (const box of boxes) {
+      if (!box.text) continue;
+
+      const targets = box.line !== undefined
+        ? [content.units[box.line]].filter(Boolean)
+        : content.units;
+
+      for (const unit of targets) {
+        const lowerTerm = box.text.toLowerCase();
+        let index = unit.text.toLowerCase().indexOf(lowerTerm);
+
+        // Boxes without a line apply to every occurrence
+        while (index >= 0) {
+          unit.text = unit.text.substring(0, index)
+            + REDACTION_CHAR.repeat(box.text.length)
+            + unit.text.substring(index + box.text.length);
+          if (box.line !== undefined) break;
+          index = unit.text.toLowerCase().indexOf(lowerTerm, index + box.text.length);
+        }
+
+        writeUnit(unit);
+      }
+    }
+
+    this.updateFullText(content);
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.lineElements.clear();
+    }
+  }
+
+  /**
+   * Export sanitized HTML
+   * Scripts (other than JSON data), trackers, event handlers and comments are
+   * removed, and redacted text is wrapped in black spans
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as HtmlContent;
+    return new Blob([this.serialize(content)], { type: 'text/html;charset=utf-8' });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // The parsed DOM is released with the document
+  }
+
+  private updateFullText(content: HtmlContent): void {
+    content.fullText = content.units.map((unit) => unit.text).join('\n');
+  }
+
+  /**
+   * Walk the DOM in document order collecting text units
+   */
+  private collectUnits(content: HtmlContent, parent: Node, hidden: boolean): void {
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = (node as Text).data;
+        if (text.trim()) {
+          content.units.push({ kind: 'text', node, label: 'Hidden text', hidden, text });
+        }
+        continue;
+      }
+
+      if (node.nodeType === Node.COMMENT_NODE) {
+        const text = (node as Comment).data;
+        if (text.trim()) {
+          content.units.push({ kind: 'comment', node, label: 'Comment', hidden: true, text });
+        }
+        continue;
+      }
+
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const element = node as Element;
+      const tag = element.localName;
+      const elementHidden = hidden || isHiddenElement(element);
+
+      for (const attribute of Array.from(element.attributes)) {
+        if (!isTextAttribute(element, attribute) || !attribute.value.trim()) continue;
+        content.units.push({
+          kind: 'attribute',
+          node: element,
+          attribute: attribute.name,
+          label: `<${tag} ${attribute.name}>`,
+          hidden: true,
+          text: attribute.value
+        });
+      }
+
+      if (tag === 'script') {
+        const text = element.textContent || '';
+        if (DATA_SCRIPT_TYPE.test(element.getAttribute('type') || '') && text.trim()) {
+          content.units.push({ kind: 'data', node: element, label: 'JSON data', hidden: true, text });
+        }
+        continue;
+      }
+
+      if (SKIPPED_ELEMENTS.has(tag)) continue;
+
+      this.collectUnits(content, element, elementHidden);
+    }
+  }
+
+  /**
+   * Serialize a sanitized copy of the document
+   */
+  private serialize(content: HtmlContent): string {
+    const dom = content.dom.cloneNode(true) as HTMLDocument;
+
+    removeActiveContent(dom);
+    removeComments(dom);
+
+    for (const element of Array.from(dom.querySelectorAll('meta[charset]'))) {
+      element.setAttribute('charset', 'utf-8');
+    }
+    dom.querySelectorAll('meta[http-equiv="Content-Type" i]').forEach((element) => element.remove());
+
+    // Wrap redacted characters in page text (not script data) in spans
+    const walker = dom.createTreeWalker(dom.body ?? dom.documentElement, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text;
+      const parentTag = node.parentElement?.localName ?? '';
+      if (node.data.includes(REDACTION_CHAR) && parentTag !== 'script' && parentTag !== 'style' && parentTag !== 'title') {
+        textNodes.push(node);
+      }
+    }
+    for (const node of textNodes) {
+      node.replaceWith(wrapRedactedText(dom, node.data));
+    }
+
+    return `<!DOCTYPE html>\n${dom.documentElement.outerHTML}`;
+  }
+
+  /**
+   * Report hidden elements, comments, attribute values, JSON data and
+   * scripts/trackers
+   */
+  private findPrivacyRisks(content: HtmlContent): PrivacyRisk[] {
+    const risks: PrivacyRisk[] = [];
+    const count = (predicate: (unit: HtmlUnit) => boolean) => content.units.filter(predicate).length;
+
+    const hiddenText = count((unit) => unit.kind === 'text' && unit.hidden);
+    if (hiddenText > 0) {
+      risks.push({
+        id: 'html-hidden-content',
+        category: 'Hidden Content',
+        severity: 'high',
+        title: 'Hidden Elements',
+        description: 'Text inside elements hidden with display:none, visibility:hidden or the hidden attribute is not shown on the page but is in the file.',
+        found: true,
+        details: `${hiddenText} text node(s)`
+      });
+    }
+
+    const comments = count((unit) => unit.kind === 'comment');
+    if (comments > 0) {
+      risks.push({
+        id: 'html-comments',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'HTML Comments',
+        description: 'Comments are invisible on the page and often hold template data or notes. They are removed on export.',
+        found: true,
+        details: `${comments} comment(s)`
+      });
+    }
+
+    const data = count((unit) => unit.kind === 'data' || unit.kind === 'attribute');
+    if (data > 0) {
+      risks.push({
+        id: 'html-embedded-data',
+        category: 'Hidden Content',
+        severity: 'medium',
+        title: 'Attributes and Embedded Data',
+        description: 'Attribute values (links, alt text, data-* attributes) and JSON data blocks are checked for PII alongside the page text.',
+        found: true,
+        details: `${data} value(s)`
+      });
+    }
+
+    const active = removeActiveContent(content.dom.cloneNode(true) as HTMLDocument);
+    if (active.scripts + active.trackers > 0) {
+      risks.push({
+        id: 'html-scripts-trackers',
+        category: 'Software',
+        severity: 'medium',
+        title: 'Scripts and Trackers',
+        description: 'Scripts, event handlers, tracking pixels and analytics tags can report that the page was opened. They are removed on export.',
+        found: true,
+        details: `${active.scripts} script(s), ${active.trackers} tracker(s)`
+      });
+    }
+
+    return risks;
+  }
+
+  /**
+   * Read file as text using FileReader (compatible with test environments)
+   */
+  private readFileAsText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(file);
+    });
+  }
+}
+
+function isHiddenElement(element: Element): boolean {
+  return element.hasAttribute('hidden')
+    || HIDDEN_STYLE.test(element.getAttribute('style') || '')
+    || (element.localName === 'input' && element.getAttribute('type')?.toLowerCase() === 'hidden');
+}
+
+/**
+ * Attribute values worth running detection on
+ */
+function isTextAttribute(element: Element, attribute: Attr): boolean {
+  const name = attribute.name.toLowerCase();
+
+  if (TEXT_ATTRIBUTES.has(name) || name.startsWith('data-')) return true;
+  if (name === 'value') return element.localName === 'input';
+  if (name === 'content') return element.localName === 'meta';
+  if (name === 'href' || name === 'src') {
+    // Contact links and URLs with query strings (tokens, emails, IDs)
+    return /^(mailto|tel|sms):/i.test(attribute.value) || attribute.value.includes('?');
+  }
+  return false;
+}
+
+function writeUnit(unit: HtmlUnit): void {
+  if (unit.kind === 'attribute') {
+    (unit.node as Element).setAttribute(unit.attribute!, unit.text);
+  } else {
+    unit.node.textContent = unit.text;
+  }
+}
+
+/**
+ * Split text into plain text and black spans around redacted characters
+ */
+function wrapRedactedText(dom: globalThis.Document, text: string): DocumentFragment {
+  const fragment = dom.createDocumentFragment();
+
+  for (const part of text.split(new RegExp(`(${REDACTION_CHAR}+)`))) {
+    if (!part) continue;
+    if (part.startsWith(REDACTION_CHAR)) {
+      const span = dom.createElement('span');
+      span.className = 'redacted';
+      span.setAttribute('style', REDACTED_STYLE);
+      span.textContent = part;
+      fragment.appendChild(span);
+    } else {
+      fragment.appendChild(dom.createTextNode(part));
+    }
+  }
+
+  return fragment;
+}
+
+/**
+ * Remove scripts, trackers, event handlers and tracking link parameters
+ */
+function removeActiveContent(dom: HTMLDocument): ActiveContent {
+  const removed: ActiveContent = { scripts: 0, trackers: 0 };
+
+  for (const script of Array.from(dom.querySelectorAll('script, noscript'))) {
+    if (script.localName === 'script' && DATA_SCRIPT_TYPE.test(script.getAttribute('type') || '')) continue;
+    script.remove();
+    removed.scripts++;
+  }
+
+  for (const element of Array.from(dom.querySelectorAll('img, iframe, link, source, embed, object'))) {
+    const url = element.getAttribute('src') || element.getAttribute('href') || element.getAttribute('data') || '';
+    const isPixel = element.localName === 'img'
+      && Number(element.getAttribute('width') ?? 2) <= 1
+      && Number(element.getAttribute('height') ?? 2) <= 1;
+
+    if (TRACKER_URL.test(url) || isPixel) {
+      element.remove();
+      removed.trackers++;
+    }
+  }
+
+  dom.querySelectorAll('meta[http-equiv="refresh" i], base').forEach((element) => element.remove());
+
+  for (const element of Array.from(dom.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on') || name === 'ping' || /^\s*javascript:/i.test(attribute.value)) {
+        element.removeAttribute(attribute.name);
+        removed.scripts++;
+      } else if (name === 'href' && attribute.value.includes('?')) {
+        const cleaned = stripTrackingParams(attribute.value);
+        if (cleaned !== attribute.value) {
+          element.setAttribute(attribute.name, cleaned);
+          removed.trackers++;
+        }
+      }
+    }
+  }
+
+  return removed;
+}
+
+function stripTrackingParams(href: string): string {
+  const [base, rest] = href.split('?', 2);
+  const [query, hash] = rest.split('#', 2);
+  const kept = query.split('&').filter((pair) => !TRACKING_PARAMS.test(pair.split('=')[0]));
+  return base + (kept.length > 0 ? `?${kept.join('&')}` : '') + (hash !== undefined ? `#${hash}` : '');
+}
+
+function removeComments(dom: HTMLDocument): void {
+  const walker = dom.createTreeWalker(dom, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+}
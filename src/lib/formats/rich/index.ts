@@ -0,0 +1,5 @@
+/**
+ * Rich text format handlers (HTML, etc.)
+ */
+
+export * from './HtmlFormat';
@@ -5,12 +5,15 @@
 
 import Papa from 'papaparse';
 import { DocumentFormat } from '../base/DocumentFormat';
+import { detectHeaderRow } from './headers';
 import type {
   BoundingBox,
   Document,
   DocumentMetadata,
   RenderOptions,
   ExportOptions,
+  RedactOptions,
+  RedactionRecord,
   TextExtractionResult,
   FormatCapabilities
 } from '../base/types';
@@ -49,7 +52,8 @@ export class CsvFormat extends DocumentFormat {
     requiresOCR: false,
     supportsDirectExport: true,
     requiresFlattening: false,
-    supportedExportFormats: ['csv', 'tsv', 'pdf']
+    supportedExportFormats: ['csv', 'tsv', 'pdf'],
+    supportsReplacement: true
   };
 
   /**
@@ -77,7 +81,7 @@ export class CsvFormat extends DocumentFormat {
     const data = parseResult.data as string[][];
 
     // Detect if first row is headers
-    const hasHeaders = this.detectHeaders(data);
+    const hasHeaders = detectHeaderRow(data);
 
     const headers = hasHeaders && data.length > 0 ? data[0] : [];
 
@@ -117,39 +121,6 @@ export class CsvFormat extends DocumentFormat {
     };
   }
 
-  /**
-   * Detect if first row is likely headers
-   * Heuristic: headers are usually shorter, contain no numbers, and are unique
-   */
-  private detectHeaders(data: string[][]): boolean {
-    if (data.length < 2) return false;
-
-    const firstRow = data[0];
-    const secondRow = data[1];
-
-    // If first row has significantly different characteristics from second row
-    // (e.g., shorter, no numbers), it's likely headers
-
-    const firstRowAvgLength = firstRow.reduce((sum, cell) => sum + cell.length, 0) / firstRow.length;
-    const secondRowAvgLength = secondRow.reduce((sum, cell) => sum + cell.length, 0) / secondRow.length;
-
-    // Headers are usually shorter
-    if (firstRowAvgLength < secondRowAvgLength * 0.7) {
-      return true;
-    }
-
-    // Check if first row contains mostly text (no numbers)
-    const firstRowNumeric = firstRow.filter(cell => /^\d+$/.test(cell.trim())).length;
-    const secondRowNumeric = secondRow.filter(cell => /^\d+$/.test(cell.trim())).length;
-
-    if (firstRowNumeric === 0 && secondRowNumeric > 0) {
-      return true;
-    }
-
-    // Default: assume no headers
-    return false;
-  }
-
   /**
    * Render CSV as HTML table
    */
@@ -292,39 +263,7 @@ export class CsvFormat extends DocumentFormat {
           const termLower = term.toLowerCase();
 
           if (cellLower.includes(termLower)) {
-            // Get cell element for dimensions
-            const cellKey = `${rowIndex}-${colIndex}`;
-            const cellElement = content.cellElements.get(cellKey);
-
-            let box: BoundingBox;
-
-            if (cellElement) {
-              const rect = cellElement.getBoundingClientRect();
-              box = {
-                x: rect.left,
-                y: rect.top,
-                w: rect.width,
-                h: rect.height,
-                text: cell,
-                row: rowIndex,
-                column: colIndex,
-                source: 'regex'
-              };
-            } else {
-              // Fallback: approximate dimensions
-              box = {
-                x: colIndex * 100,
-                y: rowIndex * 30,
-                w: 100,
-                h: 30,
-                text: cell,
-                row: rowIndex,
-                column: colIndex,
-                source: 'regex'
-              };
-            }
-
-            boxes.push(box);
+            boxes.push(this.cellBox(content, rowIndex, colIndex, 'regex'));
           }
         }
       }
@@ -335,9 +274,10 @@ export class CsvFormat extends DocumentFormat {
 
   /**
    * Apply redactions to CSV cells
-   * Replaces cell content with redaction characters
+   * Replaces cell content with redaction characters, or with
+   * options.replace's text (e.g. pseudonyms)
    */
-  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+  async redact(doc: Document, boxes: BoundingBox[], options?: RedactOptions): Promise<void> {
     const content = doc.content as CsvContent;
 
     // Group boxes by cell position
@@ -362,9 +302,13 @@ export class CsvFormat extends DocumentFormat {
           row < content.data.length &&
           column < content.data[row].length) {
 
-        // Replace cell content with redaction characters
-        const originalLength = content.data[row][column].length;
-        content.data[row][column] = '█'.repeat(Math.max(3, Math.min(originalLength, 20)));
+        // Replace cell content with redaction characters or its replacement
+        const original = content.data[row][column];
+        const replacement = options?.replace
+          ? await options.replace(original, box.type)
+          : '█'.repeat(Math.max(3, Math.min(original.length, 20)));
+        content.data[row][column] = replacement;
+        options?.onRedacted?.({ id: crypto.randomUUID(), original, replacement, type: box.type, row, column });
       }
     }
 
@@ -381,6 +325,27 @@ export class CsvFormat extends DocumentFormat {
     }
   }
 
+  /**
+   * Put original cell content back where redact() wrote a replacement
+   * Cells that no longer hold their replacement are skipped.
+   */
+  async unredact(doc: Document, records: RedactionRecord[]): Promise<number> {
+    const content = doc.content as CsvContent;
+    let restored = 0;
+
+    for (const record of records) {
+      if (record.row === undefined || record.column === undefined) continue;
+      if (content.data[record.row]?.[record.column] !== record.replacement) continue;
+
+      content.data[record.row][record.column] = record.original;
+      restored++;
+    }
+
+    content.fullText = content.data.map(row => row.join(' ')).join('\n');
+    doc.modified = doc.modified || restored > 0;
+    return restored;
+  }
+
   /**
    * Export CSV with redactions applied
    */
@@ -465,8 +430,6 @@ export class CsvFormat extends DocumentFormat {
    * Redact entire column by name or index
    */
   async redactColumn(doc: Document, columnIdentifier: string | number): Promise<void> {
-    const content = doc.content as CsvContent;
-
     let columnIndex: number;
 
     if (typeof columnIdentifier === 'string') {
@@ -479,25 +442,42 @@ export class CsvFormat extends DocumentFormat {
       columnIndex = columnIdentifier;
     }
 
-    // Create boxes for all cells in this column
+    await this.redact(doc, this.getColumnBoxes(doc, columnIndex));
+  }
+
+  /**
+   * Boxes for every data cell of a column (header row excluded)
+   */
+  getColumnBoxes(doc: Document, column: number): BoundingBox[] {
+    const content = doc.content as CsvContent;
     const boxes: BoundingBox[] = [];
     const startRow = content.hasHeaders ? 1 : 0;
 
     for (let rowIndex = startRow; rowIndex < content.data.length; rowIndex++) {
-      if (columnIndex < content.data[rowIndex].length) {
-        boxes.push({
-          x: 0,
-          y: 0,
-          w: 0,
-          h: 0,
-          text: content.data[rowIndex][columnIndex],
-          row: rowIndex,
-          column: columnIndex,
-          source: 'manual'
-        });
+      if (column < content.data[rowIndex].length) {
+        boxes.push(this.cellBox(content, rowIndex, column, 'manual'));
       }
     }
 
-    await this.redact(doc, boxes);
+    return boxes;
+  }
+
+  /**
+   * Box for a cell, placed over its rendered element when there is one
+   * (approximate dimensions otherwise)
+   */
+  private cellBox(content: CsvContent, row: number, column: number, source: BoundingBox['source']): BoundingBox {
+    const rect = content.cellElements.get(`${row}-${column}`)?.getBoundingClientRect();
+
+    return {
+      x: rect ? rect.left : column * 100,
+      y: rect ? rect.top : row * 30,
+      w: rect ? rect.width : 100,
+      h: rect ? rect.height : 30,
+      text: content.data[row][column],
+      row,
+      column,
+      source
+    };
   }
 }
@@ -0,0 +1,498 @@
+/**
+ * JSON / JSON Lines format handler
+ * Detects on string and number values, supports JSONPath rules such as
+ * $.users[*].email, and exports the same structure with redacted values
+ * masked or replaced by a placeholder of the same JSON type
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import {
+  parseJson,
+  serializeJson,
+  detectIndent,
+  walkLeaves,
+  formatJsonPath,
+  type JsonNode,
+  type JsonPathSegment
+} from './json-tree';
+import { parseJsonPath, matchesJsonPath } from './json-path';
+import type {
+  BoundingBox,
+  CharacterPosition,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities
+} from '../base/types';
+
+/** Approximate layout used for box and character coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/** Objects and arrays deeper than this start collapsed in the preview */
+const EXPANDED_DEPTH = 3;
+
+/**
+ * How redacted values are written
+ * - mask: matched characters in strings are overwritten with the mask
+ *   character, keeping the rest of the string
+ * - placeholder: the whole string is replaced with the placeholder text
+ *
+ * Numbers are replaced with 0 in both modes so they stay numbers.
+ */
+export type JsonRedactionMode = 'mask' | 'placeholder';
+
+export interface JsonRedactionOptions {
+  mode: JsonRedactionMode;
+  maskChar: string;
+  placeholder: string;
+}
+
+const DEFAULT_REDACTION_OPTIONS: JsonRedactionOptions = {
+  mode: 'mask',
+  maskChar: '█',
+  placeholder: '[REDACTED]'
+};
+
+/**
+ * A string or number value; one per line of extracted text
+ */
+interface JsonLeaf {
+  record: number;          // Line of a JSON Lines file (0 for plain JSON)
+  path: JsonPathSegment[]; // Path from the record root
+  node: Extract<JsonNode, { type: 'string' } | { type: 'number' }>;
+  redacted: boolean;
+}
+
+/**
+ * Internal content structure for JSON documents
+ */
+interface JsonContent {
+  records: JsonNode[];
+  isJsonLines: boolean;
+  indent: string;          // Indentation of the original file ('' when compact)
+  trailingNewline: boolean;
+  leaves: JsonLeaf[];
+  fullText: string;
+  lineElements: Map<number, HTMLElement>; // Map of leaf index to rendered value
+}
+
+export class JsonFormat extends DocumentFormat {
+  readonly formatId = 'json';
+  readonly formatName = 'JSON Data';
+  readonly supportedExtensions = ['json', 'jsonl', 'ndjson'];
+  readonly mimeTypes = ['application/json', 'application/x-ndjson', 'application/jsonl'];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: false,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['json', 'jsonl']
+  };
+
+  private options: JsonRedactionOptions;
+
+  constructor(options: Partial<JsonRedactionOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_REDACTION_OPTIONS, ...options };
+  }
+
+  /**
+   * Load a JSON or JSON Lines file
+   * .json files holding one object per line (common for log exports) are
+   * read as JSON Lines
+   */
+  async load(file: File): Promise<Document> {
+    const text = await this.readFileAsText(file);
+    const extension = this.getFileExtension(file.name);
+
+    let records: JsonNode[];
+    let isJsonLines = extension === 'jsonl' || extension === 'ndjson';
+
+    if (isJsonLines) {
+      records = parseJsonLines(text);
+    } else {
+      try {
+        records = [parseJson(text)];
+      } catch (error) {
+        const lines = text.split('\n').filter((line) => line.trim().length > 0);
+        if (lines.length < 2) throw error;
+        try {
+          records = parseJsonLines(text);
+        } catch {
+          throw error;
+        }
+        isJsonLines = true;
+      }
+    }
+
+    const leaves: JsonLeaf[] = [];
+    records.forEach((root, record) => {
+      walkLeaves(root, (node, path) => {
+        if (node.type === 'string' || node.type === 'number') {
+          leaves.push({ record, path, node, redacted: false });
+        }
+      });
+    });
+
+    const content: JsonContent = {
+      records,
+      isJsonLines,
+      indent: isJsonLines ? '' : detectIndent(text),
+      trailingNewline: text.endsWith('\n'),
+      leaves,
+      fullText: '',
+      lineElements: new Map()
+    };
+    this.updateFullText(content);
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || (isJsonLines ? 'application/x-ndjson' : 'application/json'),
+      lineCount: leaves.length,
+      recordCount: records.length,
+      isJsonLines,
+      format: this.formatId
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render a collapsible tree of every record
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as JsonContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+    content.lineElements.clear();
+
+    const tree = document.createElement('div');
+    tree.className = 'json-tree';
+    tree.style.cssText = `
+      padding: 16px;
+      background: #fafafa;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
+      font-size: 13px;
+      line-height: 1.6;
+      max-height: 600px;
+      overflow: auto;
+    `;
+
+    // Leaves are visited in the same order as on load
+    let leafIndex = 0;
+
+    const renderNode = (node: JsonNode, label: string, depth: number): HTMLElement => {
+      if (node.type === 'object' || node.type === 'array') {
+        const children = node.type === 'object'
+          ? node.entries.map((entry) => ({ label: entry.key, value: entry.value }))
+          : node.items.map((item, index) => ({ label: String(index), value: item }));
+
+        const details = document.createElement('details');
+        details.open = depth < EXPANDED_DEPTH;
+        details.style.cssText = depth > 0 ? 'margin-left: 16px;' : '';
+
+        const summary = document.createElement('summary');
+        summary.style.cssText = 'cursor: pointer; color: #555;';
+        summary.textContent = node.type === 'object'
+          ? `${label}{${children.length}}`
+          : `${label}[${children.length}]`;
+        details.appendChild(summary);
+
+        for (const child of children) {
+          details.appendChild(renderNode(child.value, `${child.label}: `, depth + 1));
+        }
+        return details;
+      }
+
+      const row = document.createElement('div');
+      row.style.cssText = depth > 0 ? 'margin-left: 16px;' : '';
+
+      const key = document.createElement('span');
+      key.textContent = label;
+      key.style.color = '#7c4dff';
+      row.appendChild(key);
+
+      const value = document.createElement('span');
+      value.textContent = node.type === 'string' ? JSON.stringify(node.value) : serializeJson(node);
+      value.style.color = node.type === 'string' ? '#2e7d32' : '#1565c0';
+
+      if (node.type === 'string' || node.type === 'number') {
+        const leaf = content.leaves[leafIndex];
+        value.dataset.lineNumber = String(leafIndex);
+        content.lineElements.set(leafIndex, value);
+        leafIndex++;
+
+        if (leaf.redacted) {
+          value.style.background = '#000';
+          value.style.color = '#000';
+        }
+      }
+
+      row.appendChild(value);
+      return row;
+    };
+
+    content.records.forEach((record, index) => {
+      const label = content.isJsonLines ? `Line ${index + 1}: ` : '';
+      tree.appendChild(renderNode(record, label, 0));
+    });
+
+    container.appendChild(tree);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract text from every string and number value, one value per line
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as JsonContent;
+    const lineText = content.leaves.map((leaf) => leafText(leaf));
+    const characterPositions: CharacterPosition[] = [];
+    let index = 0;
+
+    lineText.forEach((text, line) => {
+      for (let column = 0; column < text.length; column++) {
+        characterPositions.push({
+          char: text[column],
+          index: index + column,
+          x: column * CHAR_WIDTH,
+          y: line * LINE_HEIGHT,
+          w: CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          line,
+          column
+        });
+      }
+      index += text.length + 1; // Newline
+    });
+
+    return {
+      fullText: content.fullText,
+      lineText,
+      characterPositions
+    };
+  }
+
+  /**
+   * Find bounding boxes for text terms in every value
+   */
+  async findTextBoxes(doc: Document, terms: string[], _page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as JsonContent;
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      content.leaves.forEach((leaf, lineIndex) => {
+        const text = leafText(leaf);
+        const lowerText = text.toLowerCase();
+        let startIndex = 0;
+
+        while (true) {
+          const index = lowerText.indexOf(lowerTerm, startIndex);
+          if (index === -1) break;
+
+          boxes.push({
+            x: index * CHAR_WIDTH,
+            y: lineIndex * LINE_HEIGHT,
+            w: term.length * CHAR_WIDTH,
+            h: LINE_HEIGHT,
+            text: text.substring(index, index + term.length),
+            line: lineIndex,
+            source: 'regex'
+          });
+          startIndex = index + 1;
+        }
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Find boxes covering every value selected by JSONPath rules
+   * In JSON Lines files each line is its own root ($)
+   *
+   * @throws {Error} If a path is not valid
+   */
+  findPathBoxes(doc: Document, paths: string[]): BoundingBox[] {
+    const content = doc.content as JsonContent;
+    const rules = paths.map((path) => parseJsonPath(path));
+    const boxes: BoundingBox[] = [];
+
+    content.leaves.forEach((leaf, lineIndex) => {
+      if (!rules.some((rule) => matchesJsonPath(rule, leaf.path))) return;
+
+      const text = leafText(leaf);
+      boxes.push({
+        x: 0,
+        y: lineIndex * LINE_HEIGHT,
+        w: Math.max(text.length, 1) * CHAR_WIDTH,
+        h: LINE_HEIGHT,
+        text,
+        line: lineIndex,
+        source: 'manual'
+      });
+    });
+
+    return boxes;
+  }
+
+  /**
+   * Redact every value selected by JSONPath rules
+   *
+   * @throws {Error} If a path is not valid
+   */
+  async redactPaths(doc: Document, paths: string[]): Promise<void> {
+    await this.redact(doc, this.findPathBoxes(doc, paths));
+  }
+
+  /**
+   * Get the JSONPath of the value behind a box's line
+   */
+  getPath(doc: Document, line: number): string | null {
+    const leaf = (doc.content as JsonContent).leaves[line];
+    return leaf ? formatJsonPath(leaf.path) : null;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Strings are masked or replaced according to the redaction options;
+   * numbers become 0
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as JsonContent;
+
+    for (const box of boxes) {
+      if (!box.text) continue;
+
+      const targets = box.line !== undefined
+        ? [content.leaves[box.line]].filter(Boolean)
+        : content.leaves;
+
+      for (const leaf of targets) {
+        const lowerTerm = box.text.toLowerCase();
+        const text = leafText(leaf);
+        let index = text.toLowerCase().indexOf(lowerTerm);
+        if (index === -1) continue;
+
+        leaf.redacted = true;
+
+        if (leaf.node.type === 'number') {
+          leaf.node.raw = '0';
+          continue;
+        }
+
+        if (this.options.mode === 'placeholder') {
+          leaf.node.value = this.options.placeholder;
+          continue;
+        }
+
+        // Boxes without a line apply to every occurrence
+        let value = leaf.node.value;
+        while (index >= 0) {
+          value = value.substring(0, index)
+            + this.options.maskChar.repeat(box.text.length)
+            + value.substring(index + box.text.length);
+          if (box.line !== undefined) break;
+          index = value.toLowerCase().indexOf(lowerTerm, index + box.text.length);
+        }
+        leaf.node.value = value;
+      }
+    }
+
+    this.updateFullText(content);
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.lineElements.clear();
+    }
+  }
+
+  /**
+   * Export JSON with the original structure, key order, number formatting
+   * and indentation; JSON Lines files are written one record per line
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as JsonContent;
+
+    let text = content.isJsonLines
+      ? content.records.map((record) => serializeJson(record)).join('\n')
+      : serializeJson(content.records[0], content.indent);
+    if (content.trailingNewline) text += '\n';
+
+    const mimeType = content.isJsonLines
+      ? 'application/x-ndjson;charset=utf-8'
+      : 'application/json;charset=utf-8';
+
+    return new Blob([text], { type: mimeType });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // No external resources to clean up
+  }
+
+  /**
+   * Read file as text using FileReader
+   */
+  private readFileAsText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(file);
+    });
+  }
+
+  private updateFullText(content: JsonContent): void {
+    content.fullText = content.leaves.map((leaf) => leafText(leaf)).join('\n');
+  }
+}
+
+function leafText(leaf: JsonLeaf): string {
+  return leaf.node.type === 'string' ? leaf.node.value : leaf.node.raw;
+}
+
+/**
+ * Parse one JSON value per non-empty line
+ *
+ * @throws {Error} If a line is not valid JSON
+ */
+function parseJsonLines(text: string): JsonNode[] {
+  const records: JsonNode[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    try {
+      records.push(parseJson(line));
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+  return records;
+}
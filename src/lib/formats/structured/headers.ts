@@ -0,0 +1,36 @@
+/**
+ * Header row detection shared by tabular formats (CSV, TSV, XLSX)
+ */
+
+/**
+ * Detect if first row is likely headers
+ * Heuristic: headers are usually shorter, contain no numbers, and are unique
+ */
+export function detectHeaderRow(data: string[][]): boolean {
+  if (data.length < 2) return false;
+
+  const firstRow = data[0];
+  const secondRow = data[1];
+
+  // If first row has significantly different characteristics from second row
+  // (e.g., shorter, no numbers), it's likely headers
+
+  const firstRowAvgLength = firstRow.reduce((sum, cell) => sum + cell.length, 0) / firstRow.length;
+  const secondRowAvgLength = secondRow.reduce((sum, cell) => sum + cell.length, 0) / secondRow.length;
+
+  // Headers are usually shorter
+  if (firstRowAvgLength < secondRowAvgLength * 0.7) {
+    return true;
+  }
+
+  // Check if first row contains mostly text (no numbers)
+  const firstRowNumeric = firstRow.filter(cell => /^\d+$/.test(cell.trim())).length;
+  const secondRowNumeric = secondRow.filter(cell => /^\d+$/.test(cell.trim())).length;
+
+  if (firstRowNumeric === 0 && secondRowNumeric > 0) {
+    return true;
+  }
+
+  // Default: assume no headers
+  return false;
+}
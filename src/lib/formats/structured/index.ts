@@ -1,5 +1,9 @@
 /**
- * Structured data format handlers (CSV, TSV, etc.)
+ * Structured data format handlers (CSV, TSV, JSON, JSONL)
  */
 
 export * from './CsvFormat';
+export * from './JsonFormat';
+export * from './headers';
+export * from './json-tree';
+export * from './json-path';
@@ -0,0 +1,117 @@
+/**
+ * JSONPath rules for structured redaction
+ *
+ * Supports the subset used to point at fields in API responses and log
+ * exports: $.users[*].email, $..password, $.items[0]["first name"].
+ * A rule that selects an object or array covers every value inside it.
+ */
+
+import type { JsonPathSegment } from './json-tree';
+
+/**
+ * One step of a parsed path
+ * - key: an object member
+ * - index: an array element
+ * - wildcard: any member or element
+ * - descendant: the inner step at any depth below the current node
+ */
+export type JsonPathSelector =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; selector: JsonPathSelector };
+
+/**
+ * Parse a JSONPath expression
+ *
+ * @throws {Error} If the path is not supported
+ */
+export function parseJsonPath(path: string): JsonPathSelector[] {
+  const source = path.trim();
+  const fail = (): never => {
+    throw new Error(`Invalid JSON path "${path}"`);
+  };
+
+  if (!source.startsWith('$')) fail();
+
+  const selectors: JsonPathSelector[] = [];
+  let pos = 1;
+
+  const readName = (): JsonPathSelector => {
+    if (source[pos] === '*') {
+      pos++;
+      return { kind: 'wildcard' };
+    }
+    const match = /^[^.[\]\s]+/.exec(source.substring(pos));
+    if (!match) fail();
+    pos += match![0].length;
+    return { kind: 'key', key: match![0] };
+  };
+
+  const readBracket = (): JsonPathSelector => {
+    const match = /^\[\s*(\*|\d+|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\s*\]/.exec(source.substring(pos));
+    if (!match) fail();
+    pos += match![0].length;
+
+    const inner = match![1];
+    if (inner === '*') return { kind: 'wildcard' };
+    if (/^\d+$/.test(inner)) return { kind: 'index', index: Number(inner) };
+    const quoted = inner.slice(1, -1).replace(/\\(.)/g, '$1');
+    return { kind: 'key', key: quoted };
+  };
+
+  while (pos < source.length) {
+    if (source.startsWith('..', pos)) {
+      pos += 2;
+      selectors.push({ kind: 'descendant', selector: source[pos] === '[' ? readBracket() : readName() });
+    } else if (source[pos] === '.') {
+      pos++;
+      selectors.push(readName());
+    } else if (source[pos] === '[') {
+      selectors.push(readBracket());
+    } else {
+      fail();
+    }
+  }
+
+  return selectors;
+}
+
+/**
+ * Check whether a path (or one of its ancestors) is selected by a rule
+ */
+export function matchesJsonPath(selectors: JsonPathSelector[], path: JsonPathSegment[]): boolean {
+  const matchesStep = (selector: JsonPathSelector, depth: number): boolean => {
+    const segment = path[depth];
+    switch (selector.kind) {
+      case 'key':
+        return segment === selector.key;
+      case 'index':
+        return segment === selector.index;
+      case 'wildcard':
+        return true;
+      case 'descendant':
+        return false;
+    }
+  };
+
+  const match = (selectorIndex: number, depth: number): boolean => {
+    // Every step matched: the node at this depth, and all below it, is selected
+    if (selectorIndex === selectors.length) return true;
+    if (depth >= path.length) return false;
+
+    const selector = selectors[selectorIndex];
+    if (selector.kind !== 'descendant') {
+      return matchesStep(selector, depth) && match(selectorIndex + 1, depth + 1);
+    }
+
+    for (let next = depth; next < path.length; next++) {
+      if (matchesStep(selector.selector, next) && match(selectorIndex + 1, next + 1)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return match(0, 0);
+}
@@ -0,0 +1,213 @@
+/**
+ * Lossless JSON tree used by the JSON/JSONL handler
+ *
+ * JSON.parse rounds integers above 2^53 (account and order IDs) and merges
+ * duplicate keys, so an export through it would change data the user never
+ * redacted. This parser keeps numbers as written and entries in order.
+ */
+
+export type JsonNode =
+  | { type: 'object'; entries: JsonEntry[] }
+  | { type: 'array'; items: JsonNode[] }
+  | { type: 'string'; value: string }
+  | { type: 'number'; raw: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' };
+
+export interface JsonEntry {
+  key: string;
+  value: JsonNode;
+}
+
+/**
+ * Object key or array index on the way from the root to a node
+ */
+export type JsonPathSegment = string | number;
+
+const NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Parse JSON text into a tree
+ *
+ * @throws {Error} If the text is not valid JSON
+ */
+export function parseJson(text: string): JsonNode {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid JSON at position ${pos}: ${message}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) pos++;
+  };
+
+  const expect = (literal: string) => {
+    if (!text.startsWith(literal, pos)) fail(`expected "${literal}"`);
+    pos += literal.length;
+  };
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (true) {
+      if (pos >= text.length) fail('unterminated string');
+      const char = text[pos++];
+      if (char === '"') return result;
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+
+      const escape = text[pos++];
+      switch (escape) {
+        case '"': case '\\': case '/': result += escape; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'n': result += '\n'; break;
+        case 'r': result += '\r'; break;
+        case 't': result += '\t'; break;
+        case 'u': {
+          const hex = text.substring(pos, pos + 4);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('invalid unicode escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          pos += 4;
+          break;
+        }
+        default:
+          fail(`invalid escape "\\${escape}"`);
+      }
+    }
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const entries: JsonEntry[] = [];
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { type: 'object', entries };
+      }
+      while (true) {
+        skipWhitespace();
+        const key = parseString();
+        skipWhitespace();
+        expect(':');
+        entries.push({ key, value: parseValue() });
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect('}');
+        return { type: 'object', entries };
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { type: 'array', items };
+      }
+      while (true) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect(']');
+        return { type: 'array', items };
+      }
+    }
+
+    if (char === '"') return { type: 'string', value: parseString() };
+    if (text.startsWith('true', pos)) { pos += 4; return { type: 'boolean', value: true }; }
+    if (text.startsWith('false', pos)) { pos += 5; return { type: 'boolean', value: false }; }
+    if (text.startsWith('null', pos)) { pos += 4; return { type: 'null' }; }
+
+    NUMBER.lastIndex = pos;
+    const match = NUMBER.exec(text);
+    if (match) {
+      pos += match[0].length;
+      return { type: 'number', raw: match[0] };
+    }
+
+    return fail(pos >= text.length ? 'unexpected end of input' : `unexpected "${char}"`);
+  };
+
+  // A leading byte order mark is common in files saved on Windows
+  if (text.charCodeAt(0) === 0xfeff) pos = 1;
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail('unexpected content after value');
+  return root;
+}
+
+/**
+ * Serialize a tree back to JSON
+ *
+ * @param indent - Indentation per level; empty for compact output
+ */
+export function serializeJson(node: JsonNode, indent = ''): string {
+  const write = (current: JsonNode, depth: number): string => {
+    switch (current.type) {
+      case 'string': return JSON.stringify(current.value);
+      case 'number': return current.raw;
+      case 'boolean': return String(current.value);
+      case 'null': return 'null';
+    }
+
+    const open = current.type === 'object' ? '{' : '[';
+    const close = current.type === 'object' ? '}' : ']';
+    const parts = current.type === 'object'
+      ? current.entries.map((entry) => `${JSON.stringify(entry.key)}:${indent ? ' ' : ''}${write(entry.value, depth + 1)}`)
+      : current.items.map((item) => write(item, depth + 1));
+
+    if (parts.length === 0) return open + close;
+    if (!indent) return open + parts.join(',') + close;
+
+    const inner = '\n' + indent.repeat(depth + 1);
+    return open + inner + parts.join(',' + inner) + '\n' + indent.repeat(depth) + close;
+  };
+
+  return write(node, 0);
+}
+
+/**
+ * Guess the indentation of a JSON document ('' when it is compact)
+ */
+export function detectIndent(text: string): string {
+  const match = /^[[{]\s*?\n([ \t]+)\S/.exec(text.replace(/^\uFEFF/, '').trimStart());
+  return match ? match[1] : '';
+}
+
+/**
+ * Visit every string, number, boolean and null in document order
+ */
+export function walkLeaves(
+  node: JsonNode,
+  visit: (leaf: JsonNode, path: JsonPathSegment[]) => void,
+  path: JsonPathSegment[] = []
+): void {
+  if (node.type === 'object') {
+    node.entries.forEach((entry) => walkLeaves(entry.value, visit, [...path, entry.key]));
+  } else if (node.type === 'array') {
+    node.items.forEach((item, index) => walkLeaves(item, visit, [...path, index]));
+  } else {
+    visit(node, path);
+  }
+}
+
+/**
+ * Format a path as JSONPath, e.g. $.users[0].email or $["first name"]
+ */
+export function formatJsonPath(path: JsonPathSegment[]): string {
+  return '$' + path.map((segment) => {
+    if (typeof segment === 'number') return `[${segment}]`;
+    return IDENTIFIER.test(segment) ? `.${segment}` : `[${JSON.stringify(segment)}]`;
+  }).join('');
+}
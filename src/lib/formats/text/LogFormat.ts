@@ -0,0 +1,475 @@
+/**
+ * Application log format handler (.log)
+ * Streams the file in chunks, splits each line into fields (syslog,
+ * nginx/Apache, JSON, logfmt) and finds IPs, emails, users, user agents,
+ * session IDs and tokens per field. The export replaces each redacted value
+ * with the same token on every line, so one user or IP can still be followed
+ * through the scrubbed log
+ */
+
+import { DocumentFormat } from '../base/DocumentFormat';
+import {
+  detectLogKind,
+  parseLogLine,
+  findFieldValues,
+  classifyLogValue,
+  streamLines,
+  type LogKind,
+  type LogValueType
+} from './log-lines';
+import type {
+  BoundingBox,
+  Document,
+  DocumentMetadata,
+  RenderOptions,
+  ExportOptions,
+  TextExtractionResult,
+  FormatCapabilities,
+  FormatDetection
+} from '../base/types';
+
+/** Bytes read at a time */
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** Lines kept in memory for the preview */
+const PREVIEW_LINES = 500;
+
+/** Lines read before the line format is chosen */
+const KIND_SAMPLE_LINES = 50;
+
+/**
+ * Characters of distinct field values kept for detection; past this only
+ * the values found by the field detectors are kept
+ */
+const MAX_INDEXED_CHARS = 20_000_000;
+
+/** Fields that hold timestamps, levels and counters rather than content */
+const STRUCTURAL_FIELD = /(?:^|\.)(?:@?timestamp|time|ts|date|datetime|level|severity|status|bytes|pid|msgid|method|duration|latency|elapsed)$/i;
+
+/** Approximate layout used for box coordinates */
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 22;
+
+/**
+ * A value found by the field detectors
+ */
+interface LogFinding {
+  text: string;
+  type: LogValueType;
+  field: string;
+  count: number;
+  line: number; // Index in the extracted values
+}
+
+/**
+ * Compiled replacements: one alternation over every redacted value and its
+ * escaped form
+ */
+interface ReplacementPattern {
+  regex: RegExp;
+  tokens: Map<string, string>; // Lowercased variant to token
+}
+
+/**
+ * Internal content structure for log documents
+ * The text itself is not kept: the file is read again on export
+ */
+interface LogContent {
+  file: File;
+  kind: LogKind;
+  lineCount: number;
+  preview: string[];
+  values: string[];                   // Distinct field values, one per line of extracted text
+  findings: Map<string, LogFinding>;  // Keyed by text
+  replacements: Map<string, string>;  // Lowercased redacted text to its token
+  tokenCounts: Map<string, number>;   // Tokens issued per type
+  replacementPattern?: ReplacementPattern; // Built on first use after a redaction
+  indexTruncated: boolean;
+  lineElements: Map<number, HTMLElement>; // Map of finding index to rendered row
+}
+
+export class LogFormat extends DocumentFormat {
+  readonly formatId = 'log';
+  readonly formatName = 'Log File';
+  readonly supportedExtensions = ['log'];
+  readonly mimeTypes = ['text/x-log'];
+
+  readonly capabilities: FormatCapabilities = {
+    canRenderToCanvas: false,
+    canRenderToDOM: true,
+    supportsMultiPage: false,
+    supportsTextExtraction: true,
+    requiresOCR: false,
+    supportsDirectExport: true,
+    requiresFlattening: false,
+    supportedExportFormats: ['log', 'txt']
+  };
+
+  /** Characters of distinct field values kept for detection */
+  private maxIndexedChars: number;
+
+  constructor(maxIndexedChars: number = MAX_INDEXED_CHARS) {
+    super();
+    this.maxIndexedChars = maxIndexedChars;
+  }
+
+  /**
+   * Load a log file
+   * Lines are parsed as they are read; only the preview, the distinct field
+   * values and the findings are kept
+   */
+  async load(file: File): Promise<Document> {
+    const content: LogContent = {
+      file,
+      kind: 'plain',
+      lineCount: 0,
+      preview: [],
+      values: [],
+      findings: new Map(),
+      replacements: new Map(),
+      tokenCounts: new Map(),
+      indexTruncated: false,
+      lineElements: new Map()
+    };
+
+    const valueLines = new Map<string, number>();
+    let indexedChars = 0;
+    const pending: string[] = [];
+
+    const addValue = (value: string): number => {
+      const existing = valueLines.get(value);
+      if (existing !== undefined) return existing;
+      valueLines.set(value, content.values.length);
+      content.values.push(value);
+      indexedChars += value.length;
+      return content.values.length - 1;
+    };
+
+    const processLine = (line: string) => {
+      for (const field of parseLogLine(line, content.kind)) {
+        const value = field.value.trim();
+
+        for (const found of findFieldValues(field)) {
+          const finding = content.findings.get(found.text);
+          if (finding) {
+            finding.count++;
+          } else {
+            // Findings are always searchable, even past the index limit
+            content.findings.set(found.text, { ...found, count: 1, line: addValue(found.text) });
+          }
+        }
+
+        if (!value || STRUCTURAL_FIELD.test(field.name) || valueLines.has(value)) continue;
+        if (indexedChars + value.length > this.maxIndexedChars) {
+          content.indexTruncated = true;
+        } else {
+          addValue(value);
+        }
+      }
+    };
+
+    await streamLines(file, (rawLine) => {
+      const line = rawLine.replace(/\r?\n$/, '');
+      content.lineCount++;
+      if (content.preview.length < PREVIEW_LINES) content.preview.push(line);
+
+      // The format is chosen from the first lines, which are then processed
+      if (content.lineCount <= KIND_SAMPLE_LINES) {
+        pending.push(line);
+        if (content.lineCount === KIND_SAMPLE_LINES) {
+          content.kind = detectLogKind(pending);
+          pending.splice(0).forEach(processLine);
+        }
+        return;
+      }
+      processLine(line);
+    }, CHUNK_SIZE);
+
+    if (pending.length > 0) {
+      content.kind = detectLogKind(pending);
+      pending.forEach(processLine);
+    }
+
+    const metadata: DocumentMetadata = {
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || 'text/plain',
+      lineCount: content.lineCount,
+      logKind: content.kind,
+      findingCount: content.findings.size,
+      indexTruncated: content.indexTruncated,
+      format: this.formatId
+    };
+
+    return {
+      metadata,
+      content,
+      boxes: [],
+      currentPage: 0,
+      rendered: false,
+      modified: false
+    };
+  }
+
+  /**
+   * Render a summary of the findings and a preview of the first lines with
+   * replacements applied
+   */
+  async render(doc: Document, options: RenderOptions): Promise<void> {
+    const content = doc.content as LogContent;
+    const container = options.container;
+
+    container.innerHTML = '';
+    content.lineElements.clear();
+
+    const logContainer = document.createElement('div');
+    logContainer.className = 'log-container';
+    logContainer.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      font-size: 13px;
+    `;
+
+    const summary = document.createElement('div');
+    summary.className = 'log-summary';
+    summary.style.cssText = 'color: #555;';
+    summary.textContent = `${KIND_LABELS[content.kind]} · ${content.lineCount.toLocaleString()} lines · `
+      + `${content.findings.size} distinct sensitive value(s)`;
+    logContainer.appendChild(summary);
+
+    if (content.findings.size > 0) {
+      const table = document.createElement('table');
+      table.className = 'log-findings';
+      table.style.cssText = `
+        width: 100%;
+        border-collapse: collapse;
+        border: 1px solid #ddd;
+      `;
+
+      Array.from(content.findings.values()).forEach((finding) => {
+        const row = document.createElement('tr');
+        row.dataset.lineNumber = String(finding.line);
+
+        const token = content.replacements.get(finding.text.toLowerCase());
+        const cells = [finding.type, finding.field, token ?? finding.text, `×${finding.count}`];
+        cells.forEach((text, column) => {
+          const cell = document.createElement('td');
+          cell.textContent = text;
+          cell.style.cssText = `
+            padding: 4px 8px;
+            border-bottom: 1px solid #eee;
+            ${column === 2 ? "font-family: 'Monaco', 'Menlo', monospace; word-break: break-all;" : 'white-space: nowrap; color: #666;'}
+            ${column === 2 && token ? 'background: #000; color: #fff;' : ''}
+          `;
+          row.appendChild(cell);
+        });
+
+        content.lineElements.set(finding.line, row);
+        table.appendChild(row);
+      });
+
+      logContainer.appendChild(table);
+    }
+
+    const preview = document.createElement('pre');
+    preview.className = 'log-preview';
+    preview.style.cssText = `
+      margin: 0;
+      padding: 16px;
+      background: #fafafa;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      max-height: 600px;
+      overflow: auto;
+      font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+      line-height: 1.6;
+    `;
+    preview.textContent = this.applyReplacements(content, content.preview.join('\n'));
+    logContainer.appendChild(preview);
+
+    if (content.lineCount > content.preview.length) {
+      const more = document.createElement('div');
+      more.style.cssText = 'color: #888;';
+      more.textContent = `Showing the first ${content.preview.length} of ${content.lineCount.toLocaleString()} lines`;
+      logContainer.appendChild(more);
+    }
+
+    container.appendChild(logContainer);
+    doc.rendered = true;
+  }
+
+  /**
+   * Extract the distinct field values, one per line
+   * Logs repeat the same users, addresses and messages on many lines, so
+   * detection runs on each value once instead of on the whole file
+   */
+  async extractText(doc: Document, _page?: number): Promise<TextExtractionResult> {
+    const content = doc.content as LogContent;
+
+    return {
+      fullText: content.values.join('\n'),
+      lineText: content.values
+    };
+  }
+
+  /**
+   * Values found by the field detectors (IPs, user agents, sessions...)
+   */
+  getFormatDetections(doc: Document): FormatDetection[] {
+    const content = doc.content as LogContent;
+
+    return Array.from(content.findings.values(), (finding) => ({
+      text: finding.text,
+      type: finding.type,
+      // Whole-field values are classified by field name, not by shape
+      confidence: classifyLogValue(finding.text) === finding.type ? 1 : 0.9
+    }));
+  }
+
+  /**
+   * Warn when the file was too large to index every field value: regular
+   * detection (names, free-text PII) never saw the values past the limit
+   */
+  getExportWarnings(doc: Document): string[] {
+    const content = doc.content as LogContent;
+    if (!content.indexTruncated) return [];
+
+    return [
+      `Only the first ${this.maxIndexedChars.toLocaleString()} characters of distinct field values in ${content.file.name} `
+        + 'were searched for names and other personal data; the rest of the log was only checked for IPs, emails, '
+        + 'users, user agents, sessions and tokens, so the export may still contain personal data.'
+    ];
+  }
+
+  /**
+   * Find bounding boxes for text terms in the distinct values
+   */
+  async findTextBoxes(doc: Document, terms: string[], _page?: number): Promise<BoundingBox[]> {
+    const content = doc.content as LogContent;
+    const boxes: BoundingBox[] = [];
+
+    for (const term of terms) {
+      if (!term || term.trim().length === 0) continue;
+      const lowerTerm = term.toLowerCase();
+
+      content.values.forEach((value, lineIndex) => {
+        const index = value.toLowerCase().indexOf(lowerTerm);
+        if (index === -1) return;
+
+        boxes.push({
+          x: index * CHAR_WIDTH,
+          y: lineIndex * LINE_HEIGHT,
+          w: term.length * CHAR_WIDTH,
+          h: LINE_HEIGHT,
+          text: value.substring(index, index + term.length),
+          line: lineIndex,
+          type: content.findings.get(term)?.type,
+          source: 'regex'
+        });
+      });
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Apply redactions to the document
+   * Each redacted text gets a token such as [IP-1] or [EMAIL-2] that replaces
+   * every occurrence in the file, whichever line the box came from
+   */
+  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+    const content = doc.content as LogContent;
+
+    for (const box of boxes) {
+      if (!box.text || box.text.trim().length === 0) continue;
+
+      const key = box.text.toLowerCase();
+      if (content.replacements.has(key)) continue;
+
+      const type = content.findings.get(box.text)?.type ?? classifyLogValue(box.text) ?? 'redacted';
+      const count = (content.tokenCounts.get(type) ?? 0) + 1;
+      content.tokenCounts.set(type, count);
+      content.replacements.set(key, `[${type.toUpperCase()}-${count}]`);
+      content.replacementPattern = undefined;
+    }
+
+    doc.boxes = [...doc.boxes, ...boxes];
+    doc.modified = true;
+
+    if (doc.rendered) {
+      content.lineElements.clear();
+    }
+  }
+
+  /**
+   * Get the token that replaces a value in the export, if it is redacted
+   */
+  getReplacement(doc: Document, text: string): string | undefined {
+    return (doc.content as LogContent).replacements.get(text.toLowerCase());
+  }
+
+  /**
+   * Export the scrubbed log
+   * The file is read again in chunks and written line by line
+   */
+  async export(doc: Document, _options?: ExportOptions): Promise<Blob> {
+    const content = doc.content as LogContent;
+    const parts: string[] = [];
+    let chunk = '';
+
+    await streamLines(content.file, (line) => {
+      chunk += this.applyReplacements(content, line);
+      if (chunk.length >= CHUNK_SIZE) {
+        parts.push(chunk);
+        chunk = '';
+      }
+    }, CHUNK_SIZE);
+    parts.push(chunk);
+
+    return new Blob(parts, { type: 'text/plain;charset=utf-8' });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    // No external resources to clean up
+  }
+
+  /**
+   * Replace every redacted value (and its JSON/quoted escaped form) with
+   * its token; longer values win where they overlap
+   */
+  private applyReplacements(content: LogContent, text: string): string {
+    if (content.replacements.size === 0) return text;
+
+    if (!content.replacementPattern) {
+      const tokens = new Map<string, string>();
+      for (const [value, token] of content.replacements) {
+        tokens.set(value, token);
+        tokens.set(JSON.stringify(value).slice(1, -1), token);
+      }
+
+      const alternatives = Array.from(tokens.keys())
+        .sort((a, b) => b.length - a.length)
+        .map((value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+      content.replacementPattern = {
+        regex: new RegExp(alternatives.join('|'), 'gi'),
+        tokens
+      };
+    }
+
+    const { regex, tokens } = content.replacementPattern;
+    return text.replace(regex, (match) => tokens.get(match.toLowerCase()) ?? match);
+  }
+}
+
+const KIND_LABELS: Record<LogKind, string> = {
+  syslog: 'Syslog',
+  combined: 'Access log (nginx/Apache)',
+  json: 'JSON lines',
+  logfmt: 'logfmt',
+  plain: 'Plain log'
+};
@@ -10,6 +10,8 @@ import type {
   DocumentMetadata,
   RenderOptions,
   ExportOptions,
+  RedactOptions,
+  RedactionRecord,
   TextExtractionResult,
   FormatCapabilities
 } from '../base/types';
@@ -37,7 +39,8 @@ export class PlainTextFormat extends DocumentFormat {
     requiresOCR: false,
     supportsDirectExport: true,
     requiresFlattening: false,
-    supportedExportFormats: ['txt', 'text']
+    supportedExportFormats: ['txt', 'text'],
+    supportsReplacement: true
   };
 
   /**
@@ -240,9 +243,10 @@ export class PlainTextFormat extends DocumentFormat {
 
   /**
    * Apply redactions to the document
-   * Replaces matched text with redaction characters
+   * Replaces matched text with redaction characters, or with
+   * options.replace's text (e.g. pseudonyms)
    */
-  async redact(doc: Document, boxes: BoundingBox[]): Promise<void> {
+  async redact(doc: Document, boxes: BoundingBox[], options?: RedactOptions): Promise<void> {
     const content = doc.content as PlainTextContent;
 
     // Group boxes by line
@@ -270,16 +274,34 @@ export class PlainTextFormat extends DocumentFormat {
       });
 
       // Apply redactions
+      const records: RedactionRecord[] = [];
       for (const box of lineBoxes) {
         const index = line.toLowerCase().indexOf(box.text.toLowerCase());
         if (index >= 0) {
-          const redactionChar = '█';
-          const redactionText = redactionChar.repeat(box.text.length);
+          const original = line.substring(index, index + box.text.length);
+          const redactionText = options?.replace
+            ? await options.replace(original, box.type)
+            : '█'.repeat(box.text.length);
           line = line.substring(0, index) + redactionText + line.substring(index + box.text.length);
+
+          // Replacements of another length move the ones already written to their right
+          const shift = redactionText.length - original.length;
+          records.forEach((record) => {
+            if (record.offset! > index) record.offset! += shift;
+          });
+          records.push({
+            id: crypto.randomUUID(),
+            original,
+            replacement: redactionText,
+            type: box.type,
+            line: lineIndex,
+            offset: index
+          });
         }
       }
 
       content.lines[lineIndex] = line;
+      records.forEach((record) => options?.onRedacted?.(record));
     }
 
     // Update full text
@@ -295,6 +317,33 @@ export class PlainTextFormat extends DocumentFormat {
     }
   }
 
+  /**
+   * Put original text back where redact() wrote a replacement
+   * Records whose replacement is no longer at its offset are skipped.
+   */
+  async unredact(doc: Document, records: RedactionRecord[]): Promise<number> {
+    const content = doc.content as PlainTextContent;
+    let restored = 0;
+
+    // Right to left within each line, so earlier offsets stay valid
+    const sorted = records
+      .filter((record) => record.line !== undefined && record.offset !== undefined)
+      .sort((a, b) => a.line! - b.line! || b.offset! - a.offset!);
+
+    for (const record of sorted) {
+      const line = content.lines[record.line!];
+      const offset = record.offset!;
+      if (line?.substring(offset, offset + record.replacement.length) !== record.replacement) continue;
+
+      content.lines[record.line!] = line.substring(0, offset) + record.original + line.substring(offset + record.replacement.length);
+      restored++;
+    }
+
+    content.fullText = content.lines.join('\n');
+    doc.modified = doc.modified || restored > 0;
+    return restored;
+  }
+
   /**
    * Export the redacted document as plain text
    */
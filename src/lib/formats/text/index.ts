@@ -3,3 +3,5 @@
  */
 
 export * from './PlainTextFormat';
+export * from './LogFormat';
+export * from './log-lines';
@@ -0,0 +1,277 @@
+/**
+ * Line formats, per-field detectors and chunked reading for application logs
+ *
+ * Each line is split into named fields so values can be classified by where
+ * they appear (the client IP column of an access log, a "session" key in
+ * logfmt) and not only by their shape.
+ */
+
+/**
+ * Recognized line formats
+ * - syslog: RFC 3164 (`Oct  1 09:00:00 host app[42]: message`) and RFC 5424
+ * - combined: nginx/Apache common and combined access logs
+ * - json: one JSON object per line
+ * - logfmt: `key=value key="quoted value"` pairs
+ * - plain: anything else; the whole line is one message field
+ */
+export type LogKind = 'syslog' | 'combined' | 'json' | 'logfmt' | 'plain';
+
+/**
+ * Sensitive value types found in log fields
+ */
+export type LogValueType = 'ip' | 'email' | 'user' | 'user-agent' | 'session' | 'token';
+
+export interface LogField {
+  name: string;
+  value: string;
+}
+
+export interface LogValue {
+  type: LogValueType;
+  text: string;
+  field: string;
+}
+
+/** Lines sampled to pick the format of a file */
+const SAMPLE_SIZE = 50;
+
+const SYSLOG_3164 = /^(?:<\d{1,3}>)?([A-Z][a-z]{2} [ \d]\d \d\d:\d\d:\d\d) (\S+) ([^\s:[]+)(?:\[(\d+)\])?: ?(.*)$/;
+const SYSLOG_5424 = /^<\d{1,3}>\d (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[[^\]]*\])+) ?(.*)$/;
+const COMBINED = /^(\S+) (\S+) (\S+) \[([^\]]+)\] "((?:[^"\\]|\\.)*)" (\d{3}|-) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?/;
+const LOGFMT_PAIR = /([\w.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+const LOGFMT_LINE = /^\s*[\w.-]+=("(?:[^"\\]|\\.)*"|\S*)(\s+[\w.-]+=("(?:[^"\\]|\\.)*"|\S*))+\s*$/;
+
+const IPV4 = /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w.])/g;
+const IPV6 = /(?<![\w:])(?:(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}:){1,6}(?::[0-9a-f]{1,4}){1,6}|(?:[0-9a-f]{1,4}:){1,7}:|::(?:[0-9a-f]{1,4}:){0,5}[0-9a-f]{1,4})(?![\w:])/gi;
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const BEARER = /\bBearer\s+([A-Za-z0-9\-._~+/]{8,}=*)/g;
+const SESSION_ASSIGNMENT = /\b(?:JSESSIONID|PHPSESSID|ASP\.NET_SessionId|session_?id|sessid|sid)=([^;&\s",]{8,})/gi;
+const SECRET_PARAM = /[?&](?:access_token|id_token|refresh_token|token|api_?key|apikey|auth|key|signature|sig)=([^&\s"#]{8,})/gi;
+
+/** Field names whose whole value is one sensitive item */
+const FIELD_TYPES: Array<[RegExp, LogValueType]> = [
+  [/^(?:http_)?user[-_.]?agent$|^ua$/i, 'user-agent'],
+  [/session|^sess|^sid$|csrf|xsrf|cookie/i, 'session'],
+  [/authorization|token|secret|api[-_.]?key|password|passwd/i, 'token'],
+  [/^(?:remote_)?user(?:name|_?id)?$|^login$|^account$|\.user(?:name)?$/i, 'user']
+];
+
+/** Values that mean "no value" in log fields */
+const EMPTY_VALUES = new Set(['', '-', 'null', 'nil', 'none', 'undefined']);
+
+/**
+ * Pick the line format used by most of the sampled lines
+ */
+export function detectLogKind(lines: string[]): LogKind {
+  const sample = lines.filter((line) => line.trim().length > 0).slice(0, SAMPLE_SIZE);
+  if (sample.length === 0) return 'plain';
+
+  const counts = new Map<LogKind, number>();
+  for (const line of sample) {
+    const kind = classifyLine(line);
+    counts.set(kind, (counts.get(kind) ?? 0) + 1);
+  }
+
+  let best: LogKind = 'plain';
+  let bestCount = 0;
+  for (const [kind, count] of counts) {
+    if (kind !== 'plain' && count > bestCount) {
+      best = kind;
+      bestCount = count;
+    }
+  }
+
+  // Require a majority so a few stray lines do not decide the format
+  return bestCount * 2 > sample.length ? best : 'plain';
+}
+
+function classifyLine(line: string): LogKind {
+  const trimmed = line.trim();
+  if (trimmed.startsWith('{') && parseJsonObject(trimmed)) return 'json';
+  if (COMBINED.test(line)) return 'combined';
+  if (SYSLOG_3164.test(line) || SYSLOG_5424.test(line)) return 'syslog';
+  if (LOGFMT_LINE.test(line)) return 'logfmt';
+  return 'plain';
+}
+
+/**
+ * Split a line into named fields; lines that do not match the file's format
+ * become a single message field
+ */
+export function parseLogLine(line: string, kind: LogKind): LogField[] {
+  switch (kind) {
+    case 'combined': {
+      const match = COMBINED.exec(line);
+      if (!match) break;
+      return [
+        { name: 'client_ip', value: match[1] },
+        { name: 'ident', value: match[2] },
+        { name: 'user', value: match[3] },
+        { name: 'time', value: match[4] },
+        { name: 'request', value: unescapeQuoted(match[5]) },
+        { name: 'status', value: match[6] },
+        { name: 'bytes', value: match[7] },
+        { name: 'referer', value: unescapeQuoted(match[8] ?? '') },
+        { name: 'user_agent', value: unescapeQuoted(match[9] ?? '') }
+      ];
+    }
+
+    case 'syslog': {
+      const rfc5424 = SYSLOG_5424.exec(line);
+      if (rfc5424) {
+        return [
+          { name: 'time', value: rfc5424[1] },
+          { name: 'host', value: rfc5424[2] },
+          { name: 'app', value: rfc5424[3] },
+          { name: 'pid', value: rfc5424[4] },
+          { name: 'msgid', value: rfc5424[5] },
+          { name: 'structured_data', value: rfc5424[6] },
+          { name: 'message', value: rfc5424[7] }
+        ];
+      }
+      const rfc3164 = SYSLOG_3164.exec(line);
+      if (!rfc3164) break;
+      return [
+        { name: 'time', value: rfc3164[1] },
+        { name: 'host', value: rfc3164[2] },
+        { name: 'app', value: rfc3164[3] },
+        { name: 'pid', value: rfc3164[4] ?? '' },
+        { name: 'message', value: rfc3164[5] }
+      ];
+    }
+
+    case 'json': {
+      const record = parseJsonObject(line.trim());
+      if (!record) break;
+      const fields: LogField[] = [];
+      flattenJson(record, '', fields);
+      return fields;
+    }
+
+    case 'logfmt': {
+      const fields = Array.from(line.matchAll(LOGFMT_PAIR), (match) => ({
+        name: match[1],
+        value: match[2].startsWith('"') ? unescapeQuoted(match[2].slice(1, -1)) : match[2]
+      }));
+      if (fields.length > 0) return fields;
+      break;
+    }
+  }
+
+  return [{ name: 'message', value: line }];
+}
+
+/**
+ * Find sensitive values in one field
+ * The field name decides for whole-value fields (user agent, session,
+ * token, user); every field is also scanned for IPs, emails, bearer tokens,
+ * session cookies and secrets in URL parameters
+ */
+export function findFieldValues(field: LogField): LogValue[] {
+  const values: LogValue[] = [];
+  const value = field.value.trim();
+  if (EMPTY_VALUES.has(value.toLowerCase())) return values;
+
+  const add = (type: LogValueType, text: string) => {
+    if (!EMPTY_VALUES.has(text.toLowerCase())) {
+      values.push({ type, text, field: field.name });
+    }
+  };
+
+  const fieldType = FIELD_TYPES.find(([pattern]) => pattern.test(field.name))?.[1];
+  if (fieldType) {
+    // "Bearer abc..." keeps the scheme readable
+    const bearer = /^Bearer\s+(\S+)$/i.exec(value);
+    add(fieldType, bearer ? bearer[1] : value);
+    return values;
+  }
+
+  for (const match of value.matchAll(IPV4)) add('ip', match[0]);
+  for (const match of value.matchAll(IPV6)) add('ip', match[0]);
+  for (const match of value.matchAll(EMAIL)) add('email', match[0]);
+  for (const match of value.matchAll(BEARER)) add('token', match[1]);
+  for (const match of value.matchAll(SESSION_ASSIGNMENT)) add('session', match[1]);
+  for (const match of value.matchAll(SECRET_PARAM)) add('token', match[1]);
+
+  return values;
+}
+
+/**
+ * Classify a value that was not found by the field detectors
+ * (for example an email detected in free text by the shared detectors)
+ */
+export function classifyLogValue(text: string): LogValueType | null {
+  const single = (pattern: RegExp) => {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    return match !== null && match[0] === text;
+  };
+
+  if (single(IPV4) || single(IPV6)) return 'ip';
+  if (single(EMAIL)) return 'email';
+  return null;
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function flattenJson(value: unknown, name: string, fields: LogField[]): void {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      flattenJson(child, name ? `${name}.${key}` : key, fields);
+    }
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    fields.push({ name, value: String(value) });
+  }
+}
+
+function unescapeQuoted(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Read a file line by line without holding the whole text
+ * Lines are passed with their line ending so they can be written back
+ * unchanged; the last line may have none
+ */
+export async function streamLines(
+  file: Blob,
+  onLine: (line: string, index: number) => void,
+  chunkSize: number
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let remainder = '';
+  let index = 0;
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const bytes = await readBytes(file.slice(offset, offset + chunkSize));
+    const text = remainder + decoder.decode(bytes, { stream: true });
+
+    let start = 0;
+    let end = text.indexOf('\n');
+    while (end !== -1) {
+      onLine(text.substring(start, end + 1), index++);
+      start = end + 1;
+      end = text.indexOf('\n', start);
+    }
+    remainder = text.substring(start);
+  }
+
+  remainder += decoder.decode();
+  if (remainder.length > 0) onLine(remainder, index);
+}
+
+function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
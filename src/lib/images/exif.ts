@@ -50,3 +50,76 @@ export async function getImageDimensions(
     height: img.naturalHeight
   };
 }
+
+/** PNG chunks that carry text, EXIF or timestamps */
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+/**
+ * Strip metadata from encoded JPEG or PNG bytes without re-encoding
+ * Used for images embedded in documents, where a lossless copy is needed
+ * and no canvas is involved. Other formats are returned unchanged.
+ */
+export function stripEmbeddedMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return stripJpegMetadata(bytes);
+  }
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return stripPngMetadata(bytes);
+  }
+  return bytes;
+}
+
+/**
+ * Drop APP1-APP13/APP15 (EXIF, XMP, IPTC...) and comment segments,
+ * keeping JFIF, Adobe and ICC colour profile segments
+ */
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) break;
+
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const segment = bytes.subarray(pos, pos + 2 + length);
+    const isIccProfile = marker === 0xe2
+      && String.fromCharCode(...segment.subarray(4, 15)) === 'ICC_PROFILE';
+    const isMetadata = marker === 0xfe
+      || (marker >= 0xe1 && marker <= 0xef && marker !== 0xee && !isIccProfile);
+
+    if (!isMetadata) kept.push(segment);
+    pos += 2 + length;
+  }
+
+  kept.push(bytes.subarray(pos));
+  return concatBytes(kept);
+}
+
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let pos = 8;
+
+  while (pos + 8 <= bytes.length) {
+    const length = ((bytes[pos] << 24) | (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 0;
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length; // length + type + data + CRC
+
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(bytes.subarray(pos, end));
+    pos = end;
+  }
+
+  return concatBytes(kept);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,374 @@
+/**
+ * Machine-Readable Zone (MRZ) Detection
+ * Recognizes ICAO 9303 TD1 (ID card), TD2 and TD3 (passport) zones in OCR
+ * output, validates their check digits and parses the encoded fields so the
+ * matching visual-zone text can be redacted alongside the MRZ itself
+ */
+
+import type { DetectionResult } from '../detect/merger';
+
+export type MRZFormat = 'TD1' | 'TD2' | 'TD3';
+
+/**
+ * Line count and length for each ICAO 9303 layout
+ */
+const MRZ_LAYOUTS: Record<MRZFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 }
+};
+
+/**
+ * OCR commonly drops or adds a filler character or two per line
+ */
+const LENGTH_TOLERANCE = 2;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Fields encoded in an MRZ
+ */
+export interface MRZData {
+  format: MRZFormat;
+  documentType: string;
+  issuingCountry: string;
+  surname: string;
+  givenNames: string;
+  documentNumber: string;
+  nationality: string;
+  /** YYMMDD as encoded */
+  birthDate: string;
+  sex: string;
+  /** YYMMDD as encoded */
+  expiryDate: string;
+  optionalData: string;
+  /** True when every check digit (including the composite) matches */
+  checkDigitsValid: boolean;
+}
+
+/**
+ * MRZ block located in text
+ */
+export interface MRZMatch {
+  /** Raw lines as they appear in the source text */
+  lines: string[];
+  /** Character offsets of the block in the source text */
+  start: number;
+  end: number;
+  data: MRZData;
+}
+
+/**
+ * Compute an ICAO 9303 check digit
+ * Weights 7, 3, 1 repeat; digits count as themselves, A-Z as 10-35, `<` as 0
+ * @param value - Field to check
+ * @returns Check digit 0-9
+ */
+export function computeMRZCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let n = 0;
+    if (char >= '0' && char <= '9') {
+      n = char.charCodeAt(0) - 48;
+    } else if (char >= 'A' && char <= 'Z') {
+      n = char.charCodeAt(0) - 55;
+    }
+    sum += n * weights[i % 3];
+  }
+
+  return sum % 10;
+}
+
+/**
+ * Normalize an OCR line to MRZ characters
+ * Removes spaces and maps look-alike glyphs for the `<` filler
+ */
+export function normalizeMRZLine(line: string): string {
+  return line.toUpperCase().replace(/\s+/g, '').replace(/[«‹]/g, '<');
+}
+
+/**
+ * Parse normalized MRZ lines
+ * @param lines - Normalized lines of one MRZ block
+ * @returns Parsed fields, or null if the lines do not form a known layout
+ */
+export function parseMRZ(lines: string[]): MRZData | null {
+  const format = detectLayout(lines);
+  if (!format) {
+    return null;
+  }
+
+  // Pad or trim to the exact length so field offsets line up
+  const { length } = MRZ_LAYOUTS[format];
+  const fixed = lines.map(line => line.padEnd(length, '<').substring(0, length));
+
+  switch (format) {
+    case 'TD1':
+      return parseTD1(fixed);
+    case 'TD2':
+    case 'TD3':
+      return parseTD2OrTD3(fixed, format);
+  }
+}
+
+/**
+ * Find MRZ blocks in OCR text
+ * @param text - Full OCR text
+ * @returns Each block with its source offsets and parsed fields
+ */
+export function findMRZ(text: string): MRZMatch[] {
+  const lines: Array<{ raw: string; normalized: string; start: number; end: number }> = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    const start = offset + (raw.length - raw.trimStart().length);
+    lines.push({ raw: raw.trim(), normalized: normalizeMRZLine(raw), start, end: start + raw.trim().length });
+    offset += raw.length + 1;
+  }
+
+  const matches: MRZMatch[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    let matched = false;
+
+    // Try the three-line layout first so TD1 is not read as a TD2 fragment
+    for (const lineCount of [3, 2]) {
+      const block = lines.slice(i, i + lineCount);
+      if (block.length < lineCount) {
+        continue;
+      }
+
+      const data = parseMRZ(block.map(line => line.normalized));
+      if (data) {
+        matches.push({
+          lines: block.map(line => line.raw),
+          start: block[0].start,
+          end: block[block.length - 1].end,
+          data
+        });
+        i += lineCount;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Visual-zone renderings of the values encoded in an MRZ
+ * Names, document number and birth date in the formats passports print them
+ */
+export function getVisualZoneValues(data: MRZData): string[] {
+  const values: string[] = [];
+
+  const names = `${data.surname} ${data.givenNames}`.split(/\s+/).filter(name => name.length >= 2);
+  values.push(...names);
+
+  if (data.documentNumber.length > 0) {
+    values.push(data.documentNumber);
+  }
+
+  values.push(...formatBirthDate(data.birthDate));
+
+  return Array.from(new Set(values));
+}
+
+/**
+ * Find MRZ blocks and build detections for them
+ * The block is returned with explicit positions so its OCR words can be
+ * boxed as a whole. Visual-zone values are only added when the check digits
+ * validate, since fields parsed from misread lines would be garbage.
+ *
+ * @param text - Full OCR text
+ * @returns Detections for MRZ blocks and matching visual-zone values
+ */
+export function findMRZDetections(text: string): DetectionResult[] {
+  const detections: DetectionResult[] = [];
+
+  for (const match of findMRZ(text)) {
+    detections.push({
+      text: text.substring(match.start, match.end),
+      type: 'mrz',
+      confidence: match.data.checkDigitsValid ? 1.0 : 0.8,
+      source: 'regex',
+      positions: { start: match.start, end: match.end }
+    });
+
+    if (!match.data.checkDigitsValid) {
+      continue;
+    }
+
+    for (const value of getVisualZoneValues(match.data)) {
+      // Skip values that only occur inside the MRZ itself
+      if (!textOutsideRange(text, match.start, match.end).toUpperCase().includes(value.toUpperCase())) {
+        continue;
+      }
+      detections.push({
+        text: value,
+        type: 'mrz-field',
+        confidence: 1.0,
+        source: 'regex'
+      });
+    }
+  }
+
+  return detections;
+}
+
+/**
+ * Pick the layout whose line count and length fit the lines
+ */
+function detectLayout(lines: string[]): MRZFormat | null {
+  for (const format of ['TD1', 'TD2', 'TD3'] as MRZFormat[]) {
+    const layout = MRZ_LAYOUTS[format];
+    if (lines.length !== layout.lines) {
+      continue;
+    }
+
+    const fits = lines.every(line =>
+      Math.abs(line.length - layout.length) <= LENGTH_TOLERANCE &&
+      /^[A-Z0-9<]+$/.test(line)
+    );
+
+    // Every layout starts with a document type letter and has filler
+    if (fits && /^[A-Z]/.test(lines[0]) && lines.join('').includes('<<')) {
+      return format;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse TD2 and TD3 zones, which share the second-line layout
+ */
+function parseTD2OrTD3(lines: string[], format: MRZFormat): MRZData {
+  const [line1, line2] = lines;
+  const length = MRZ_LAYOUTS[format].length;
+  const { surname, givenNames } = parseName(line1.substring(5));
+
+  const checks = [
+    checkField(line2.substring(0, 9), line2[9]),
+    checkField(line2.substring(13, 19), line2[19]),
+    checkField(line2.substring(21, 27), line2[27]),
+    checkField(
+      line2.substring(0, 10) + line2.substring(13, 20) + line2.substring(21, length - 1),
+      line2[length - 1]
+    )
+  ];
+
+  // TD3 has a separate check digit for the personal number
+  if (format === 'TD3') {
+    const personal = line2.substring(28, 42);
+    checks.push(/^<+$/.test(personal) ? line2[42] === '<' || line2[42] === '0' : checkField(personal, line2[42]));
+  }
+
+  return {
+    format,
+    documentType: stripFiller(line1.substring(0, 2)),
+    issuingCountry: stripFiller(line1.substring(2, 5)),
+    surname,
+    givenNames,
+    documentNumber: stripFiller(line2.substring(0, 9)),
+    nationality: stripFiller(line2.substring(10, 13)),
+    birthDate: line2.substring(13, 19),
+    sex: stripFiller(line2.substring(20, 21)),
+    expiryDate: line2.substring(21, 27),
+    optionalData: stripFiller(line2.substring(28, format === 'TD3' ? 42 : length - 1)),
+    checkDigitsValid: checks.every(Boolean)
+  };
+}
+
+/**
+ * Parse a TD1 (ID card) zone
+ */
+function parseTD1(lines: string[]): MRZData {
+  const [line1, line2, line3] = lines;
+  const { surname, givenNames } = parseName(line3);
+
+  const checks = [
+    checkField(line1.substring(5, 14), line1[14]),
+    checkField(line2.substring(0, 6), line2[6]),
+    checkField(line2.substring(8, 14), line2[14]),
+    checkField(
+      line1.substring(5, 30) + line2.substring(0, 7) + line2.substring(8, 15) + line2.substring(18, 29),
+      line2[29]
+    )
+  ];
+
+  return {
+    format: 'TD1',
+    documentType: stripFiller(line1.substring(0, 2)),
+    issuingCountry: stripFiller(line1.substring(2, 5)),
+    surname,
+    givenNames,
+    documentNumber: stripFiller(line1.substring(5, 14)),
+    nationality: stripFiller(line2.substring(15, 18)),
+    birthDate: line2.substring(0, 6),
+    sex: stripFiller(line2.substring(7, 8)),
+    expiryDate: line2.substring(8, 14),
+    optionalData: stripFiller(line1.substring(15, 30) + line2.substring(18, 29)),
+    checkDigitsValid: checks.every(Boolean)
+  };
+}
+
+/**
+ * Split the name field: primary identifier, `<<`, then secondary identifier
+ */
+function parseName(field: string): { surname: string; givenNames: string } {
+  const [surname, ...rest] = field.split('<<');
+  return {
+    surname: stripFiller(surname),
+    givenNames: stripFiller(rest.join(' '))
+  };
+}
+
+function checkField(value: string, checkDigit: string | undefined): boolean {
+  return checkDigit !== undefined && /^\d$/.test(checkDigit) && computeMRZCheckDigit(value) === Number(checkDigit);
+}
+
+function stripFiller(value: string): string {
+  return value.replace(/<+/g, ' ').trim();
+}
+
+/**
+ * Common printed forms of an MRZ birth date (YYMMDD)
+ * Birth years later than the current year belong to the previous century
+ */
+function formatBirthDate(yymmdd: string): string[] {
+  if (!/^\d{6}$/.test(yymmdd)) {
+    return [];
+  }
+
+  const yy = Number(yymmdd.substring(0, 2));
+  const mm = yymmdd.substring(2, 4);
+  const dd = yymmdd.substring(4, 6);
+  const month = MONTHS[Number(mm) - 1];
+  if (!month) {
+    return [];
+  }
+
+  const currentYY = new Date().getFullYear() % 100;
+  const yyyy = String((yy > currentYY ? 1900 : 2000) + yy);
+
+  return [
+    `${dd} ${month} ${yyyy}`,
+    `${dd} ${month} ${yyyy.substring(2)}`,
+    `${dd}.${mm}.${yyyy}`,
+    `${dd}/${mm}/${yyyy}`,
+    `${mm}/${dd}/${yyyy}`,
+    `${yyyy}-${mm}-${dd}`
+  ];
+}
+
+function textOutsideRange(text: string, start: number, end: number): string {
+  return `${text.substring(0, start)}\n${text.substring(end)}`;
+}
@@ -0,0 +1,361 @@
+/**
+ * Minimal PDF content stream tokenizer and serializer
+ *
+ * Parses a decoded page (or form XObject) content stream into a flat list of
+ * operations so that individual operators can be inspected, rewritten or
+ * dropped, then writes the list back out as content stream bytes.
+ *
+ * Only the lexical level is handled here - operator semantics (graphics
+ * state, text positioning) live in the redaction engine.
+ */
+
+/**
+ * A single operand preceding a content stream operator
+ */
+export type ContentOperand =
+  | { type: 'number'; value: number; raw?: string }
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: string; hex?: boolean; raw?: string }
+  | { type: 'array'; items: ContentOperand[] }
+  | { type: 'dict'; raw: string }
+  | { type: 'keyword'; value: string };
+
+/**
+ * A content stream operation: operands followed by an operator
+ */
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+
+  /**
+   * Raw source for inline images (BI ... ID ... EI), kept verbatim
+   * because the image data is binary and not tokenizable
+   */
+  inlineImage?: string;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Convert bytes to a binary string (one char per byte) and back.
+ * Content streams are byte-oriented, so we never decode them as UTF-8.
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  let result = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return result;
+}
+
+export function binaryStringToBytes(str: string): Uint8Array {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) {
+    bytes[i] = str.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+class ContentLexer {
+  pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  get done(): boolean {
+    this.skipWhitespaceAndComments();
+    return this.pos >= this.src.length;
+  }
+
+  private code(offset = 0): number {
+    return this.src.charCodeAt(this.pos + offset);
+  }
+
+  skipWhitespaceAndComments(): void {
+    while (this.pos < this.src.length) {
+      const c = this.code();
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === 0x25) {
+        // Comment runs to end of line
+        while (this.pos < this.src.length && this.code() !== 0x0a && this.code() !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Read the next object. Returns either an operand or an operator keyword.
+   */
+  next(): ContentOperand | { type: 'operator'; value: string } | { type: 'close'; value: string } {
+    this.skipWhitespaceAndComments();
+    const start = this.pos;
+    const c = this.code();
+
+    if (c === 0x28) return this.readLiteralString();
+    if (c === 0x3c && this.code(1) === 0x3c) return this.readDict();
+    if (c === 0x3c) return this.readHexString();
+    if (c === 0x5b) {
+      this.pos++;
+      const items: ContentOperand[] = [];
+      for (;;) {
+        if (this.done) throw new Error('Unterminated array in content stream');
+        const item = this.next();
+        if (item.type === 'close' && item.value === ']') break;
+        if (item.type === 'operator' || item.type === 'close') {
+          // Operators are not legal inside arrays; keep them as keywords
+          items.push({ type: 'keyword', value: item.value });
+          continue;
+        }
+        items.push(item);
+      }
+      return { type: 'array', items };
+    }
+    if (c === 0x5d || c === 0x3e || c === 0x7d || c === 0x29) {
+      this.pos++;
+      return { type: 'close', value: this.src[start] };
+    }
+    if (c === 0x7b) {
+      // PostScript calculator braces never appear in page content; skip
+      this.pos++;
+      return { type: 'keyword', value: '{' };
+    }
+    if (c === 0x2f) {
+      this.pos++;
+      while (this.pos < this.src.length && !WHITESPACE.has(this.code()) && !DELIMITERS.has(this.code())) {
+        this.pos++;
+      }
+      return { type: 'name', value: this.src.slice(start, this.pos) };
+    }
+
+    while (this.pos < this.src.length && !WHITESPACE.has(this.code()) && !DELIMITERS.has(this.code())) {
+      this.pos++;
+    }
+    const token = this.src.slice(start, this.pos);
+
+    if (NUMBER_PATTERN.test(token)) {
+      return { type: 'number', value: parseFloat(token), raw: token };
+    }
+    if (token === 'true' || token === 'false' || token === 'null') {
+      return { type: 'keyword', value: token };
+    }
+    if (token.length === 0) {
+      // Stray delimiter - consume it so we always make progress
+      this.pos++;
+      return { type: 'keyword', value: this.src[start] };
+    }
+    return { type: 'operator', value: token };
+  }
+
+  private readLiteralString(): ContentOperand {
+    const start = this.pos;
+    this.pos++; // (
+    let depth = 1;
+    let value = '';
+
+    while (this.pos < this.src.length && depth > 0) {
+      const ch = this.src[this.pos];
+
+      if (ch === '\\') {
+        const esc = this.src[this.pos + 1];
+        this.pos += 2;
+        switch (esc) {
+          case 'n': value += '\n'; break;
+          case 'r': value += '\r'; break;
+          case 't': value += '\t'; break;
+          case 'b': value += '\b'; break;
+          case 'f': value += '\f'; break;
+          case '(': value += '('; break;
+          case ')': value += ')'; break;
+          case '\\': value += '\\'; break;
+          case '\r':
+            // Line continuation (\r or \r\n)
+            if (this.src[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (esc !== undefined && esc >= '0' && esc <= '7') {
+              let octal = esc;
+              while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+                octal += this.src[this.pos++];
+              }
+              value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else if (esc !== undefined) {
+              value += esc;
+            }
+        }
+        continue;
+      }
+
+      if (ch === '(') depth++;
+      if (ch === ')') depth--;
+      if (depth > 0) value += ch;
+      this.pos++;
+    }
+
+    return { type: 'string', value, raw: this.src.slice(start, this.pos) };
+  }
+
+  private readHexString(): ContentOperand {
+    const start = this.pos;
+    const end = this.src.indexOf('>', this.pos);
+    if (end === -1) throw new Error('Unterminated hex string in content stream');
+    this.pos = end + 1;
+
+    let hex = this.src.slice(start + 1, end).replace(/[^0-9a-fA-F]/g, '');
+    if (hex.length % 2 === 1) hex += '0';
+
+    let value = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      value += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    }
+
+    return { type: 'string', value, hex: true, raw: this.src.slice(start, this.pos) };
+  }
+
+  private readDict(): ContentOperand {
+    const start = this.pos;
+    this.pos += 2; // <<
+    for (;;) {
+      if (this.done) throw new Error('Unterminated dictionary in content stream');
+      if (this.code() === 0x3e && this.code(1) === 0x3e) {
+        this.pos += 2;
+        break;
+      }
+      this.next();
+    }
+    return { type: 'dict', raw: this.src.slice(start, this.pos) };
+  }
+
+  /**
+   * Read an inline image body after the BI operator.
+   * Returns the raw text from BI through EI inclusive.
+   */
+  readInlineImage(biStart: number): string {
+    const idMatch = /(^|[\s\0])ID[\s\0]/g;
+    idMatch.lastIndex = this.pos;
+    const id = idMatch.exec(this.src);
+    if (!id) throw new Error('Inline image without ID operator');
+
+    // A single whitespace char follows ID; the regex already consumed it
+    const eiPattern = /[\s\0]EI(?=[\s\0]|$)/g;
+    eiPattern.lastIndex = id.index + id[0].length;
+    const ei = eiPattern.exec(this.src);
+    if (!ei) throw new Error('Inline image without EI operator');
+
+    this.pos = ei.index + ei[0].length;
+    return this.src.slice(biStart, this.pos);
+  }
+}
+
+/**
+ * Parse decoded content stream bytes into operations
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const src = bytesToBinaryString(bytes);
+  const lexer = new ContentLexer(src);
+  const operations: ContentOperation[] = [];
+  let operands: ContentOperand[] = [];
+
+  while (!lexer.done) {
+    const tokenStart = lexer.pos;
+    const token = lexer.next();
+
+    if (token.type === 'operator') {
+      if (token.value === 'BI') {
+        operations.push({ operator: 'BI', operands: [], inlineImage: lexer.readInlineImage(tokenStart) });
+      } else {
+        operations.push({ operator: token.value, operands });
+      }
+      operands = [];
+    } else if (token.type === 'close') {
+      // Unbalanced closing delimiter; ignore it
+      continue;
+    } else {
+      operands.push(token);
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Remove entries from an inline dictionary operand (such as marked-content
+ * properties), keeping the rest of its source as written
+ *
+ * @param raw - Dictionary source, `<<` through `>>`
+ * @param keys - Names to remove, with their slash (`/ActualText`)
+ */
+export function removeDictEntries(raw: string, keys: string[]): string {
+  const lexer = new ContentLexer(raw);
+  const cuts: Array<[number, number]> = [];
+  lexer.pos = 2; // <<
+
+  while (!lexer.done && !raw.startsWith('>>', lexer.pos)) {
+    const start = lexer.pos;
+    const key = lexer.next();
+    if (lexer.done || raw.startsWith('>>', lexer.pos)) break;
+    lexer.next();
+    lexer.skipWhitespaceAndComments();
+    if (key.type === 'name' && keys.includes(key.value)) cuts.push([start, lexer.pos]);
+  }
+
+  let result = '';
+  let copied = 0;
+  for (const [start, end] of cuts) {
+    result += raw.slice(copied, start);
+    copied = end;
+  }
+  return result + raw.slice(copied);
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  // Avoid exponent notation, which PDF does not support
+  return value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+function encodeHexString(value: string): string {
+  let hex = '';
+  for (let i = 0; i < value.length; i++) {
+    hex += (value.charCodeAt(i) & 0xff).toString(16).padStart(2, '0');
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Serialize a single operand
+ */
+export function serializeOperand(operand: ContentOperand): string {
+  switch (operand.type) {
+    case 'number':
+      return operand.raw ?? formatNumber(operand.value);
+    case 'name':
+    case 'keyword':
+      return operand.value;
+    case 'string':
+      return operand.raw ?? encodeHexString(operand.value);
+    case 'array':
+      return `[${operand.items.map(serializeOperand).join(' ')}]`;
+    case 'dict':
+      return operand.raw;
+  }
+}
+
+/**
+ * Serialize operations back into content stream bytes
+ */
+export function serializeContentStream(operations: ContentOperation[]): Uint8Array {
+  const lines = operations.map((op) => {
+    if (op.inlineImage !== undefined) return op.inlineImage;
+    if (op.operands.length === 0) return op.operator;
+    return `${op.operands.map(serializeOperand).join(' ')} ${op.operator}`;
+  });
+  return binaryStringToBytes(lines.join('\n') + '\n');
+}
@@ -0,0 +1,42 @@
+/**
+ * Helpers for drawing with pdf-lib
+ */
+
+import { rgb, type PDFFont, type RGB } from 'pdf-lib';
+
+/**
+ * Convert a "#rrggbb" color (as used on canvas) to a pdf-lib color
+ */
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+/**
+ * Replace characters a standard font can't encode, since drawText throws on them
+ */
+export function toEncodable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text, (ch) => (supported.has(ch.codePointAt(0)!) ? ch : '?')).join('');
+}
+
+/**
+ * Break text into lines no wider than maxWidth at the given size
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines.length > 0 ? lines : [''];
+}
@@ -1,6 +1,28 @@
-import { PDFDocument, rgb } from 'pdf-lib';
-import { convertBoxesToPdfLib } from './coordinates';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import { convertBoxesToPdfLib, type PdfLibBox } from './coordinates';
+import { hexToRgb, toEncodable, wrapText } from './drawing';
 import type { Box } from './find';
+import {
+  BESIDE_LABEL_COLOR,
+  INSIDE_LABEL_COLOR,
+  formatPageRanges,
+  layoutLabel,
+  type ExemptionSummaryEntry,
+  type LabelPlacement
+} from '../exemptions';
+import {
+  StyleRegistry,
+  type PdfStyleResources,
+  type RedactionStyle,
+  type StyleOptions,
+  type StyleSelection
+} from '../redact';
+import {
+  createRedactionReport,
+  redactPageContent,
+  removeUnreferencedObjects,
+  type ContentRedactionReport
+} from './true-redact';
 
 /**
  * PDF metadata for the exported document
@@ -12,13 +34,218 @@ export interface PDFMetadata {
   keywords?: string[];
 }
 
+/**
+ * How redacted PDFs are produced
+ * - rasterize: every page becomes an image (no text layer survives)
+ * - true-redaction: content under boxes is removed, the rest stays vector and searchable
+ */
+export type PdfExportMode = 'rasterize' | 'true-redaction';
+
+/**
+ * Result of a true-redaction export
+ */
+export interface TrueRedactionExport {
+  pdfBytes: Uint8Array;
+  report: ContentRedactionReport;
+}
+
+/**
+ * Exemption codes printed on boxes and the index page listing them
+ */
+export interface ExemptionExportOptions {
+  /** Where each box's `exemption` code is printed (boxes without one stay plain) */
+  placement: LabelPlacement;
+  /** Rows of the exemption index page appended at the end; omit for no page */
+  index?: ExemptionSummaryEntry[];
+}
+
+/** Smallest label size in PDF points */
+const MIN_LABEL_SIZE = 6;
+
+/**
+ * Render a style's canvas export into an image the size of the box
+ * Returns null where no 2D canvas is available.
+ */
+async function rasterizeStyle(
+  pdfDoc: PDFDocument,
+  style: RedactionStyle,
+  box: Box,
+  options?: StyleOptions
+): Promise<PDFImage | null> {
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(box.w));
+  canvas.height = Math.max(1, Math.round(box.h));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  // The region is exactly the box, so any padding the style adds is clipped
+  style.export(ctx, { ...box, x: 0, y: 0 }, options);
+  return pdfDoc.embedPng(canvas.toDataURL('image/png'));
+}
+
+/**
+ * Draw a page's boxes in their redaction styles
+ * Styles that require rasterization have the content under them removed
+ * and are drawn as an image of their canvas export; the rest are drawn as
+ * vectors. Where no canvas is available the vector drawing is used for
+ * all styles, still over removed content.
+ *
+ * @param report - Collects what was removed under rasterized styles; null when
+ *   the content under every box was already removed
+ */
+async function drawStyledBoxes(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  boxes: Box[],
+  pdfLibBoxes: PdfLibBox[],
+  resources: PdfStyleResources,
+  selection: StyleSelection | undefined,
+  report: ContentRedactionReport | null
+): Promise<void> {
+  const styled = boxes.map((box, i) => ({ box, target: pdfLibBoxes[i], ...StyleRegistry.resolve(box, selection) }));
+
+  const rasterized = styled.filter(({ style }) => StyleRegistry.requiresRasterization(style));
+  if (report && rasterized.length > 0) {
+    redactPageContent(pdfDoc, page, rasterized.map(({ target }) => target), report);
+  }
+
+  for (const { box, target, style, options } of styled) {
+    const image = StyleRegistry.requiresRasterization(style)
+      ? await rasterizeStyle(pdfDoc, style, box, options)
+      : null;
+
+    if (image) {
+      page.drawImage(image, { x: target.x, y: target.y, width: target.width, height: target.height });
+    } else {
+      style.exportPdf(page, target, resources, options);
+    }
+  }
+}
+
+/**
+ * Print each box's exemption code inside or beside its rectangle
+ */
+function drawExemptionLabels(
+  page: PDFPage,
+  font: PDFFont,
+  boxes: Box[],
+  pdfLibBoxes: PdfLibBox[],
+  placement: LabelPlacement
+): void {
+  boxes.forEach((box, i) => {
+    const target = pdfLibBoxes[i];
+    if (!box.exemption || !target || isNaN(target.x) || isNaN(target.y)) return;
+
+    const code = toEncodable(font, box.exemption);
+    const layout = layoutLabel(
+      font.widthOfTextAtSize(code, 1),
+      { x: target.x, w: target.width, h: target.height },
+      placement,
+      page.getWidth(),
+      MIN_LABEL_SIZE
+    );
+
+    page.drawText(code, {
+      x: layout.x,
+      // drawText takes the baseline; cap height is about 0.7 of the size
+      y: target.y + target.height / 2 - layout.size * 0.35,
+      size: layout.size,
+      font,
+      color: hexToRgb(layout.placement === 'inside' ? INSIDE_LABEL_COLOR : BESIDE_LABEL_COLOR)
+    });
+  });
+}
+
+/**
+ * Append the exemption index: one row per code with its description,
+ * how many boxes carry it and on which pages. Continues onto further
+ * pages when the table is long.
+ */
+async function appendExemptionIndex(
+  pdfDoc: PDFDocument,
+  entries: ExemptionSummaryEntry[],
+  [width, height]: [number, number]
+): Promise<void> {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  // Lay out on a US Letter grid scaled to the document's page width
+  const unit = width / 612;
+  const margin = 54 * unit;
+  const size = 10 * unit;
+  const lineHeight = size * 1.35;
+  const columns = {
+    code: { x: margin, width: 110 * unit },
+    description: { x: margin + 120 * unit, width: width - 2 * margin - 250 * unit },
+    count: { x: width - margin - 120 * unit, width: 30 * unit },
+    pages: { x: width - margin - 80 * unit, width: 80 * unit }
+  };
+  const black = rgb(0, 0, 0);
+
+  let page = pdfDoc.addPage([width, height]);
+  let y = height - margin;
+
+  const drawHeader = () => {
+    for (const [key, label] of [['code', 'Code'], ['description', 'Description'], ['count', 'Count'], ['pages', 'Pages']] as const) {
+      page.drawText(label, { x: columns[key].x, y, size, font: bold, color: black });
+    }
+    y -= lineHeight * 0.6;
+    page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 0.75 * unit, color: black });
+    y -= lineHeight;
+  };
+
+  page.drawText('Exemption Index', { x: margin, y: y - 18 * unit, size: 18 * unit, font: bold, color: black });
+  y -= 18 * unit + lineHeight * 1.5;
+
+  const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+  page.drawText(`${total} redaction${total === 1 ? '' : 's'} under ${entries.length} exemption code${entries.length === 1 ? '' : 's'}`, {
+    x: margin, y, size, font, color: black
+  });
+  y -= lineHeight * 2;
+  drawHeader();
+
+  for (const entry of entries) {
+    const cells = {
+      code: wrapText(toEncodable(bold, entry.code), bold, size, columns.code.width),
+      description: wrapText(toEncodable(font, entry.description ?? ''), font, size, columns.description.width),
+      count: [String(entry.count)],
+      pages: wrapText(formatPageRanges(entry.pages), font, size, columns.pages.width)
+    };
+    const rows = Math.max(...Object.values(cells).map((lines) => lines.length));
+
+    if (y - rows * lineHeight < margin) {
+      page = pdfDoc.addPage([width, height]);
+      y = height - margin;
+      drawHeader();
+    }
+
+    for (const key of ['code', 'description', 'count', 'pages'] as const) {
+      cells[key].forEach((line, i) => {
+        page.drawText(line, {
+          x: columns[key].x,
+          y: y - i * lineHeight,
+          size,
+          font: key === 'code' ? bold : font,
+          color: black
+        });
+      });
+    }
+    y -= rows * lineHeight + lineHeight * 0.5;
+  }
+}
+
 /**
  * Export canvases as a new PDF with embedded rasterized images
  * This flattens all content - no hidden layers or selectable text
+ * (exemption labels must already be drawn on the canvases; only the
+ * index page, if any, is added as text)
  */
 export async function exportPdfFromCanvases(
   canvases: HTMLCanvasElement[],
-  meta?: PDFMetadata
+  meta?: PDFMetadata,
+  exemptionIndex?: ExemptionSummaryEntry[]
 ): Promise<Uint8Array> {
   const pdfDoc = await PDFDocument.create();
 
@@ -43,6 +270,11 @@ export async function exportPdfFromCanvases(
     });
   }
 
+  if (exemptionIndex && exemptionIndex.length > 0 && canvases.length > 0) {
+    const last = canvases[canvases.length - 1];
+    await appendExemptionIndex(pdfDoc, exemptionIndex, [last.width, last.height]);
+  }
+
   // Set metadata if provided
   if (meta?.title) pdfDoc.setTitle(meta.title);
   if (meta?.author) pdfDoc.setAuthor(meta.author);
@@ -59,19 +291,25 @@ export async function exportPdfFromCanvases(
 
 /**
  * Export PDF with redaction boxes drawn directly on pages (preserves rich text)
- * This maintains the original PDF structure and only adds black rectangles over sensitive areas
+ * This maintains the original PDF structure and only adds redactions over
+ * sensitive areas, drawn in each box's style (see StyleRegistry.resolve).
+ * Regions under styles that require rasterization are flattened.
  *
  * @param originalPdfBytes - Original PDF file bytes
  * @param pageBoxes - Map of page index to boxes for that page
  * @param scale - Scale factor used during rendering (default: 2)
  * @param meta - Optional PDF metadata
+ * @param exemptions - Optional exemption labels and index page
+ * @param style - Style for boxes without their own (default: the registry default)
  * @returns Modified PDF with redaction boxes as Uint8Array
  */
 export async function exportPdfWithRedactionBoxes(
   originalPdfBytes: ArrayBuffer,
   pageBoxes: Map<number, Box[]>,
   scale: number = 2,
-  meta?: PDFMetadata
+  meta?: PDFMetadata,
+  exemptions?: ExemptionExportOptions,
+  style?: StyleSelection
 ): Promise<Uint8Array> {
   // Validate inputs
   if (!originalPdfBytes || originalPdfBytes.byteLength === 0) {
@@ -86,6 +324,8 @@ export async function exportPdfWithRedactionBoxes(
     // Load the original PDF
     const pdfDoc = await PDFDocument.load(originalPdfBytes);
     const pages = pdfDoc.getPages();
+    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const report = createRedactionReport();
 
     console.log(`Exporting PDF with ${pages.length} pages, ${pageBoxes.size} pages have redactions`);
 
@@ -105,26 +345,22 @@ export async function exportPdfWithRedactionBoxes(
         const pdfLibBoxes = convertBoxesToPdfLib(boxes, height, scale);
         console.log(`Page ${pageIndex}: Converted boxes:`, pdfLibBoxes);
 
-        // Draw black rectangles over sensitive areas
-        for (let i = 0; i < pdfLibBoxes.length; i++) {
-          const box = pdfLibBoxes[i];
-          console.log(`Drawing box ${i}:`, box);
-
-          // Validate before drawing
+        // Validate before drawing
+        const validIndices = pdfLibBoxes.flatMap((box, i) => {
           if (isNaN(box.x) || isNaN(box.y) || isNaN(box.width) || isNaN(box.height)) {
             console.error(`Box ${i} has NaN values, skipping:`, box);
-            continue;
+            return [];
           }
+          return [i];
+        });
+        const valid = validIndices.map((i) => boxes[i]);
+        const validPdfLibBoxes = validIndices.map((i) => pdfLibBoxes[i]);
 
-          page.drawRectangle({
-            x: box.x,
-            y: box.y,
-            width: box.width,
-            height: box.height,
-            color: rgb(0, 0, 0), // Opaque black
-            opacity: 1.0,
-            borderWidth: 0
-          });
+        // Draw the styled redactions over sensitive areas
+        await drawStyledBoxes(pdfDoc, page, valid, validPdfLibBoxes, { font, scale }, style, report);
+
+        if (exemptions) {
+          drawExemptionLabels(page, font, valid, validPdfLibBoxes, exemptions.placement);
         }
       } catch (error) {
         console.error(`Error processing boxes for page ${pageIndex}:`, error);
@@ -132,6 +368,16 @@ export async function exportPdfWithRedactionBoxes(
       }
     }
 
+    if (exemptions?.index && exemptions.index.length > 0 && pages.length > 0) {
+      const { width, height } = pages[pages.length - 1].getSize();
+      await appendExemptionIndex(pdfDoc, exemptions.index, [width, height]);
+    }
+
+    if (report.glyphsRemoved > 0 || report.imagesBlanked > 0 || report.imagesRemoved > 0 || report.annotationsRemoved > 0) {
+      // The replaced originals would otherwise still be written on save
+      removeUnreferencedObjects(pdfDoc);
+    }
+
     // Set metadata if provided
     if (meta?.title) pdfDoc.setTitle(meta.title);
     if (meta?.author) pdfDoc.setAuthor(meta.author);
@@ -148,3 +394,81 @@ export async function exportPdfWithRedactionBoxes(
     throw new Error(`Failed to export PDF with redactions: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Export PDF with true redaction (preserves rich text outside the boxes)
+ * Text operators and image pixels under each box are removed from the page
+ * content streams before the styled redaction is drawn, so the redacted
+ * content cannot be copied or extracted from the result
+ *
+ * @param originalPdfBytes - Original PDF file bytes
+ * @param pageBoxes - Map of page index to boxes for that page
+ * @param scale - Scale factor used during rendering (default: 2)
+ * @param meta - Optional PDF metadata
+ * @param exemptions - Optional exemption labels and index page
+ * @param style - Style for boxes without their own (default: the registry default)
+ * @returns Redacted PDF bytes and a report of what was removed
+ */
+export async function exportPdfWithTrueRedaction(
+  originalPdfBytes: ArrayBuffer,
+  pageBoxes: Map<number, Box[]>,
+  scale: number = 2,
+  meta?: PDFMetadata,
+  exemptions?: ExemptionExportOptions,
+  style?: StyleSelection
+): Promise<TrueRedactionExport> {
+  if (!originalPdfBytes || originalPdfBytes.byteLength === 0) {
+    throw new Error('Invalid PDF bytes: empty or null');
+  }
+
+  if (scale <= 0) {
+    throw new Error(`Invalid scale factor: ${scale}`);
+  }
+
+  try {
+    const pdfDoc = await PDFDocument.load(originalPdfBytes);
+    const pages = pdfDoc.getPages();
+    const report = createRedactionReport();
+    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+      const boxes = pageBoxes.get(pageIndex);
+      if (!boxes || boxes.length === 0) continue;
+
+      const page = pages[pageIndex];
+      const converted = convertBoxesToPdfLib(boxes, page.getSize().height, scale);
+      const isValid = (box: PdfLibBox) => !isNaN(box.x) && !isNaN(box.y) && !isNaN(box.width) && !isNaN(box.height);
+      const valid = boxes.filter((_, i) => isValid(converted[i]));
+      const pdfLibBoxes = converted.filter(isValid);
+
+      // Remove the underlying content first, then paint the visible redactions
+      redactPageContent(pdfDoc, page, pdfLibBoxes, report);
+      await drawStyledBoxes(pdfDoc, page, valid, pdfLibBoxes, { font, scale }, style, null);
+
+      // Labels go on last so they sit on top of the fills
+      if (exemptions) {
+        drawExemptionLabels(page, font, valid, pdfLibBoxes, exemptions.placement);
+      }
+    }
+
+    if (exemptions?.index && exemptions.index.length > 0 && pages.length > 0) {
+      const { width, height } = pages[pages.length - 1].getSize();
+      await appendExemptionIndex(pdfDoc, exemptions.index, [width, height]);
+    }
+
+    if (meta?.title) pdfDoc.setTitle(meta.title);
+    if (meta?.author) pdfDoc.setAuthor(meta.author);
+    if (meta?.subject) pdfDoc.setSubject(meta.subject);
+    if (meta?.keywords) pdfDoc.setKeywords(meta.keywords);
+
+    pdfDoc.setModificationDate(new Date());
+
+    // The replaced content streams and XObjects would otherwise still be written on save
+    removeUnreferencedObjects(pdfDoc);
+
+    return { pdfBytes: await pdfDoc.save(), report };
+  } catch (error) {
+    console.error('Error in exportPdfWithTrueRedaction:', error);
+    throw new Error(`Failed to export PDF with true redaction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
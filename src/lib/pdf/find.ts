@@ -10,9 +10,17 @@ export type Box = {
   text: string;
   page?: number;
   type?: string;
-  source?: 'regex' | 'ml' | 'manual';
+  source?: 'regex' | 'ml' | 'dictionary' | 'manual';
   confidence?: number;
   detectionId?: string;
+  /** Exemption code printed on the box, e.g. "(b)(6)" (see lib/exemptions) */
+  exemption?: string;
+  // Positions within text and structured documents (see formats/base/types)
+  line?: number;
+  sheet?: number;
+  slide?: number;
+  row?: number;
+  column?: number;
 };
 
 /**
@@ -116,3 +124,46 @@ export async function findMatchingBoxes(
   const termSet = new Set(searchTerms);
   return findTextBoxes(page, viewport, (text) => termSet.has(text));
 }
+
+/**
+ * Recover the text lying under each box on a PDF page
+ * Character positions are estimated by spreading each text item's width
+ * evenly over its characters; a character belongs to a box when its
+ * center falls inside it. Returns one string per box (empty if none).
+ */
+export async function extractTextInBoxes(
+  page: any,
+  viewport: any,
+  boxes: Array<Pick<Box, 'x' | 'y' | 'w' | 'h'>>
+): Promise<string[]> {
+  const textContent = await page.getTextContent();
+  const results: string[][] = boxes.map(() => []);
+
+  for (const item of textContent.items as any[]) {
+    const str: string = item.str ?? '';
+    const transform = item.transform as number[];
+    if (!str.trim() || !transform || transform.length !== 6) continue;
+
+    const [, b, , d, e, f] = transform;
+    const [x, y] = viewport.convertToViewportPoint(e, f);
+    const height = Math.hypot(b, d) * viewport.scale;
+    const width = (item.width ?? 0) * viewport.scale;
+    const charWidth = width / str.length;
+    const centerY = y - height / 2;
+
+    boxes.forEach((box, boxIndex) => {
+      if (centerY < box.y || centerY > box.y + box.h) return;
+
+      let run = '';
+      for (let i = 0; i < str.length; i++) {
+        const centerX = x + charWidth * (i + 0.5);
+        if (centerX >= box.x && centerX <= box.x + box.w) {
+          run += str[i];
+        }
+      }
+      if (run.trim()) results[boxIndex].push(run.trim());
+    });
+  }
+
+  return results.map((parts) => parts.join(' '));
+}
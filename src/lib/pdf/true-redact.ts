@@ -0,0 +1,1132 @@
+/**
+ * True content redaction for PDF pages
+ *
+ * Drawing a black rectangle over text leaves the text operators in the page
+ * content stream, where any PDF tool can still extract them. This module
+ * walks each page's content stream, tracks the graphics and text state, and
+ * removes the glyphs and image pixels that fall under redaction boxes before
+ * the fill is drawn.
+ *
+ * - Glyphs under a box are cut out of Tj/TJ strings and replaced with
+ *   positioning adjustments, so the surrounding text keeps its layout
+ * - Image XObjects are blanked pixel-by-pixel when their data can be decoded
+ *   (uncompressed or Flate, 8 bits per component); otherwise the whole image
+ *   draw is dropped
+ * - Form XObjects are redacted recursively into page-private copies
+ * - Inline images intersecting a box are dropped
+ * - Marked-content spans that lose content also lose their ActualText, Alt
+ *   and E properties, which extraction and screen readers read instead of
+ *   the glyphs
+ * - Annotations overlapping a box are removed, with their form fields
+ * - The replaced streams and XObjects must then be deleted from the
+ *   document (removeUnreferencedObjects), or save() still writes them
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFDocument,
+  type PDFObject,
+  type PDFPage
+} from 'pdf-lib';
+import {
+  parseContentStream,
+  removeDictEntries,
+  serializeContentStream,
+  type ContentOperand,
+  type ContentOperation
+} from './content-stream';
+import type { PdfLibBox } from './coordinates';
+
+/**
+ * Affine transformation matrix [a b c d e f]
+ */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Maximum nesting depth for form XObjects (guards against cycles) */
+const MAX_FORM_DEPTH = 8;
+
+/** Marked-content properties holding a text equivalent of the content */
+const MARKED_CONTENT_TEXT_KEYS = ['ActualText', 'Alt', 'E'];
+
+/**
+ * Annotation entries that can hold its text: comment, rich text,
+ * appearance, field value and link action
+ */
+const ANNOTATION_TEXT_KEYS = ['Contents', 'RC', 'AP', 'V', 'DV', 'A'];
+
+/**
+ * Options for content redaction
+ */
+export interface TrueRedactionOptions {
+  /**
+   * Fraction of a glyph's area that must be covered by a box before the
+   * glyph is removed (0 removes any glyph that touches a box)
+   */
+  minOverlapRatio: number;
+}
+
+export const DEFAULT_TRUE_REDACTION_OPTIONS: TrueRedactionOptions = {
+  minOverlapRatio: 0.2
+};
+
+/**
+ * Summary of what was removed from a document
+ */
+export interface ContentRedactionReport {
+  /** Number of glyphs removed from text-show operators */
+  glyphsRemoved: number;
+
+  /** Number of text-show operators that were rewritten */
+  textOperatorsModified: number;
+
+  /** Number of images whose pixels under boxes were blanked */
+  imagesBlanked: number;
+
+  /** Number of image draws dropped because the image could not be decoded */
+  imagesRemoved: number;
+
+  /** Number of form XObjects rewritten into redacted copies */
+  formsRewritten: number;
+
+  /** Number of marked-content spans whose ActualText/Alt/E were removed */
+  markedContentCleared: number;
+
+  /** Number of annotations removed because they overlapped a box */
+  annotationsRemoved: number;
+
+  /** Non-fatal problems encountered */
+  warnings: string[];
+}
+
+interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface FontMetrics {
+  bytesPerCode: 1 | 2;
+  /** Glyph advance in text space units (1 = one em) */
+  widthOf(code: number): number;
+  ascent: number;
+  descent: number;
+}
+
+interface TextState {
+  tm: Matrix;
+  tlm: Matrix;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  fontSize: number;
+  rise: number;
+  font: FontMetrics;
+}
+
+interface RedactionScope {
+  context: PDFContext;
+  resources: PDFDict | undefined;
+  boxes: Rect[];
+  options: TrueRedactionOptions;
+  report: ContentRedactionReport;
+  fontCache: Map<string, FontMetrics>;
+  /** Lazily created page-private resource dict (XObject, Properties) for redacted copies */
+  ownResources: (category: string) => PDFDict;
+  depth: number;
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+function invert(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ];
+}
+
+function transformRect(m: Matrix, x0: number, y0: number, x1: number, y1: number): Rect {
+  const points = [
+    [x0, y0], [x1, y0], [x0, y1], [x1, y1]
+  ].map(([x, y]) => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]);
+
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  return {
+    x0: Math.min(...xs),
+    y0: Math.min(...ys),
+    x1: Math.max(...xs),
+    y1: Math.max(...ys)
+  };
+}
+
+function overlapArea(a: Rect, b: Rect): number {
+  const w = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+  const h = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+function intersectsAny(rect: Rect, boxes: Rect[]): boolean {
+  return boxes.some((box) => overlapArea(rect, box) > 0);
+}
+
+function isCoveredByBoxes(rect: Rect, boxes: Rect[], minRatio: number): boolean {
+  const area = Math.max((rect.x1 - rect.x0) * (rect.y1 - rect.y0), 1e-9);
+  return boxes.some((box) => {
+    const overlap = overlapArea(rect, box);
+    return overlap > 0 && overlap / area >= minRatio;
+  });
+}
+
+function numbersOf(operands: ContentOperand[]): number[] {
+  return operands.map((op) => (op.type === 'number' ? op.value : 0));
+}
+
+function num(value: number): ContentOperand {
+  return { type: 'number', value };
+}
+
+function lookupNumber(context: PDFContext, dict: PDFDict | undefined, key: string): number | undefined {
+  if (!dict) return undefined;
+  const value = context.lookup(dict.get(PDFName.of(key)));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function lookupNumberArray(context: PDFContext, value: unknown): number[] {
+  const array = context.lookup(value as PDFRef);
+  if (!(array instanceof PDFArray)) return [];
+  return array.asArray().map((item) => {
+    const resolved = context.lookup(item);
+    return resolved instanceof PDFNumber ? resolved.asNumber() : 0;
+  });
+}
+
+/**
+ * Build width metrics for a font resource. Falls back to a generous average
+ * width when the font carries no metrics (e.g. standard 14 fonts).
+ */
+function loadFontMetrics(context: PDFContext, fontDict: PDFDict | undefined): FontMetrics {
+  const fallback = 0.6;
+
+  if (!fontDict) {
+    return { bytesPerCode: 1, widthOf: () => fallback, ascent: 0.9, descent: -0.25 };
+  }
+
+  const subtype = fontDict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString();
+
+  if (subtype === '/Type0') {
+    const descendants = fontDict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+    const cidFont = descendants ? context.lookupMaybe(descendants.get(0), PDFDict) : undefined;
+    const defaultWidth = (lookupNumber(context, cidFont, 'DW') ?? 1000) / 1000;
+    const widths = new Map<number, number>();
+
+    const w = cidFont ? lookupNumberArrayRaw(context, cidFont.get(PDFName.of('W'))) : [];
+    for (let i = 0; i < w.length;) {
+      const first = w[i];
+      const next = w[i + 1];
+      if (typeof first !== 'number') break;
+      if (Array.isArray(next)) {
+        next.forEach((width, offset) => widths.set(first + offset, width / 1000));
+        i += 2;
+      } else if (typeof next === 'number' && typeof w[i + 2] === 'number') {
+        for (let cid = first; cid <= next; cid++) widths.set(cid, (w[i + 2] as number) / 1000);
+        i += 3;
+      } else {
+        break;
+      }
+    }
+
+    const descriptor = cidFont?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    return {
+      bytesPerCode: 2,
+      widthOf: (code) => widths.get(code) ?? defaultWidth,
+      ascent: (lookupNumber(context, descriptor, 'Ascent') ?? 900) / 1000,
+      descent: (lookupNumber(context, descriptor, 'Descent') ?? -250) / 1000
+    };
+  }
+
+  const firstChar = lookupNumber(context, fontDict, 'FirstChar') ?? 0;
+  const widths = lookupNumberArray(context, fontDict.get(PDFName.of('Widths')));
+  const descriptor = fontDict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const missingWidth = lookupNumber(context, descriptor, 'MissingWidth');
+
+  // Type 3 glyph widths are in glyph space, scaled by FontMatrix
+  let widthScale = 0.001;
+  if (subtype === '/Type3') {
+    const fontMatrix = lookupNumberArray(context, fontDict.get(PDFName.of('FontMatrix')));
+    widthScale = fontMatrix[0] || 0.001;
+  }
+
+  return {
+    bytesPerCode: 1,
+    widthOf: (code) => {
+      const width = widths[code - firstChar];
+      if (width !== undefined && width > 0) return width * widthScale;
+      return missingWidth ? missingWidth * widthScale : fallback;
+    },
+    ascent: (lookupNumber(context, descriptor, 'Ascent') ?? 900) / 1000,
+    descent: (lookupNumber(context, descriptor, 'Descent') ?? -250) / 1000
+  };
+}
+
+/**
+ * Read a CID font W array, preserving nested arrays
+ */
+function lookupNumberArrayRaw(context: PDFContext, value: unknown): Array<number | number[]> {
+  const array = context.lookup(value as PDFRef);
+  if (!(array instanceof PDFArray)) return [];
+  return array.asArray().map((item) => {
+    const resolved = context.lookup(item);
+    if (resolved instanceof PDFArray) return lookupNumberArray(context, resolved);
+    return resolved instanceof PDFNumber ? resolved.asNumber() : 0;
+  });
+}
+
+function resolveFont(scope: RedactionScope, name: string): FontMetrics {
+  const cached = scope.fontCache.get(name);
+  if (cached) return cached;
+
+  const fonts = scope.resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const fontDict = fonts?.lookupMaybe(PDFName.of(name.slice(1)), PDFDict);
+  const metrics = loadFontMetrics(scope.context, fontDict);
+  scope.fontCache.set(name, metrics);
+  return metrics;
+}
+
+function newTextState(font: FontMetrics): TextState {
+  return {
+    tm: IDENTITY,
+    tlm: IDENTITY,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    fontSize: 0,
+    rise: 0,
+    font
+  };
+}
+
+function moveTextLine(ts: TextState, tx: number, ty: number): void {
+  ts.tlm = multiply([1, 0, 0, 1, tx, ty], ts.tlm);
+  ts.tm = ts.tlm;
+}
+
+/**
+ * Walk the glyphs of a show-text string, advancing the text matrix and
+ * returning which byte ranges are kept and the advance of each removed run.
+ */
+function redactString(
+  value: string,
+  ts: TextState,
+  ctm: Matrix,
+  scope: RedactionScope
+): { segments: Array<string | number>; removed: number } {
+  const { font } = ts;
+  const segments: Array<string | number> = [];
+  let kept = '';
+  let removed = 0;
+  const emScale = ts.fontSize * ts.horizontalScale;
+
+  for (let i = 0; i + font.bytesPerCode <= value.length; i += font.bytesPerCode) {
+    const bytes = value.slice(i, i + font.bytesPerCode);
+    const code = font.bytesPerCode === 2
+      ? (bytes.charCodeAt(0) << 8) | bytes.charCodeAt(1)
+      : bytes.charCodeAt(0);
+
+    const w0 = font.widthOf(code);
+    const spacing = ts.charSpacing + (font.bytesPerCode === 1 && code === 32 ? ts.wordSpacing : 0);
+    const advance = (w0 * ts.fontSize + spacing) * ts.horizontalScale;
+
+    // Glyph box in text space, mapped to user space
+    const trm = multiply(ts.tm, ctm);
+    const glyphRect = transformRect(
+      trm,
+      0,
+      font.descent * ts.fontSize + ts.rise,
+      Math.max(w0 * ts.fontSize * ts.horizontalScale, 1e-6),
+      font.ascent * ts.fontSize + ts.rise
+    );
+
+    if (isCoveredByBoxes(glyphRect, scope.boxes, scope.options.minOverlapRatio)) {
+      if (kept) {
+        segments.push(kept);
+        kept = '';
+      }
+      // Replace the glyph by an equivalent TJ displacement (thousandths of an em)
+      const adjustment = emScale !== 0 ? -(advance / emScale) * 1000 : 0;
+      const last = segments[segments.length - 1];
+      if (typeof last === 'number') {
+        segments[segments.length - 1] = last + adjustment;
+      } else {
+        segments.push(adjustment);
+      }
+      removed++;
+    } else {
+      kept += bytes;
+    }
+
+    ts.tm = multiply([1, 0, 0, 1, advance, 0], ts.tm);
+  }
+
+  if (kept) segments.push(kept);
+  return { segments, removed };
+}
+
+/**
+ * Process a show-text operation. Returns replacement operations when glyphs
+ * were removed, or null when the operation can be kept as-is.
+ */
+function redactShowText(
+  op: ContentOperation,
+  ts: TextState,
+  ctm: Matrix,
+  scope: RedactionScope
+): ContentOperation[] | null {
+  const prefix: ContentOperation[] = [];
+  let elements: ContentOperand[];
+
+  switch (op.operator) {
+    case 'Tj':
+      elements = op.operands.slice(-1);
+      break;
+    case 'TJ': {
+      const array = op.operands[op.operands.length - 1];
+      elements = array?.type === 'array' ? array.items : [];
+      break;
+    }
+    case "'":
+      moveTextLine(ts, 0, -ts.leading);
+      prefix.push({ operator: 'T*', operands: [] });
+      elements = op.operands.slice(-1);
+      break;
+    case '"': {
+      const [aw, ac] = numbersOf(op.operands.slice(-3, -1));
+      ts.wordSpacing = aw;
+      ts.charSpacing = ac;
+      moveTextLine(ts, 0, -ts.leading);
+      prefix.push(
+        { operator: 'Tw', operands: [num(aw)] },
+        { operator: 'Tc', operands: [num(ac)] },
+        { operator: 'T*', operands: [] }
+      );
+      elements = op.operands.slice(-1);
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const items: Array<string | number> = [];
+  let removed = 0;
+
+  for (const element of elements) {
+    if (element.type === 'number') {
+      ts.tm = multiply(
+        [1, 0, 0, 1, -(element.value / 1000) * ts.fontSize * ts.horizontalScale, 0],
+        ts.tm
+      );
+      items.push(element.value);
+    } else if (element.type === 'string') {
+      const result = redactString(element.value, ts, ctm, scope);
+      removed += result.removed;
+      items.push(...result.segments);
+    }
+  }
+
+  if (removed === 0) return null;
+
+  scope.report.glyphsRemoved += removed;
+  scope.report.textOperatorsModified++;
+
+  // Merge adjacent numbers and rebuild a TJ array
+  const merged: ContentOperand[] = [];
+  for (const item of items) {
+    const last = merged[merged.length - 1];
+    if (typeof item === 'number') {
+      if (last?.type === 'number') {
+        merged[merged.length - 1] = num(last.value + item);
+      } else {
+        merged.push(num(item));
+      }
+    } else {
+      merged.push({ type: 'string', value: item });
+    }
+  }
+
+  return [...prefix, { operator: 'TJ', operands: [{ type: 'array', items: merged }] }];
+}
+
+function decodeStreamContents(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  return stream.getContents();
+}
+
+/**
+ * Blank the pixels of an image XObject under the boxes. Returns a new stream
+ * with redacted data, or null when the image encoding is not supported.
+ */
+function blankImagePixels(
+  stream: PDFRawStream,
+  ctm: Matrix,
+  scope: RedactionScope
+): PDFRawStream | null {
+  const { context } = scope;
+  const dict = stream.dict;
+
+  const filter = context.lookup(dict.get(PDFName.of('Filter')));
+  const filterName = filter instanceof PDFArray
+    ? (filter.size() === 1 ? context.lookup(filter.get(0)) : undefined)
+    : filter;
+  if (filter !== undefined && !(filterName instanceof PDFName && filterName.asString() === '/FlateDecode')) {
+    return null;
+  }
+  if (dict.get(PDFName.of('DecodeParms'))) return null;
+  if (lookupNumber(context, dict, 'BitsPerComponent') !== 8) return null;
+
+  const width = lookupNumber(context, dict, 'Width') ?? 0;
+  const height = lookupNumber(context, dict, 'Height') ?? 0;
+  const components = colorComponents(context, context.lookup(dict.get(PDFName.of('ColorSpace'))));
+  if (!width || !height || !components) return null;
+
+  let pixels: Uint8Array;
+  try {
+    pixels = new Uint8Array(decodeStreamContents(stream));
+  } catch {
+    return null;
+  }
+  if (pixels.length < width * height * components) return null;
+
+  const inverse = invert(ctm);
+  if (!inverse) return null;
+
+  for (const box of scope.boxes) {
+    // Box in image unit space (0..1), image row 0 is at the top (v = 1)
+    const unit = transformRect(inverse, box.x0, box.y0, box.x1, box.y1);
+    const colStart = Math.max(0, Math.floor(unit.x0 * width));
+    const colEnd = Math.min(width, Math.ceil(unit.x1 * width));
+    const rowStart = Math.max(0, Math.floor((1 - unit.y1) * height));
+    const rowEnd = Math.min(height, Math.ceil((1 - unit.y0) * height));
+
+    for (let row = rowStart; row < rowEnd; row++) {
+      const offset = (row * width + colStart) * components;
+      pixels.fill(0, offset, offset + (colEnd - colStart) * components);
+      if (components === 4) {
+        // DeviceCMYK black is full K
+        for (let col = colStart; col < colEnd; col++) {
+          pixels[(row * width + col) * 4 + 3] = 255;
+        }
+      }
+    }
+  }
+
+  const redacted = context.flateStream(pixels);
+  for (const [key, value] of dict.entries()) {
+    const name = key.asString();
+    if (name === '/Filter' || name === '/Length' || name === '/DecodeParms') continue;
+    redacted.dict.set(key, value);
+  }
+  return redacted;
+}
+
+function colorComponents(context: PDFContext, colorSpace: unknown): number | null {
+  if (colorSpace instanceof PDFName) {
+    switch (colorSpace.asString()) {
+      case '/DeviceGray': return 1;
+      case '/DeviceRGB': return 3;
+      case '/DeviceCMYK': return 4;
+      default: return null;
+    }
+  }
+  if (colorSpace instanceof PDFArray) {
+    const family = context.lookup(colorSpace.get(0));
+    if (family instanceof PDFName && family.asString() === '/ICCBased') {
+      const profile = context.lookup(colorSpace.get(1));
+      if (profile instanceof PDFStream) {
+        return lookupNumber(context, profile.dict, 'N') ?? null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Names of the XObjects drawn by a list of operations
+ */
+function drawnXObjects(operations: ContentOperation[]): Set<string> {
+  const names = new Set<string>();
+  for (const op of operations) {
+    const operand = op.operands[op.operands.length - 1];
+    if (op.operator === 'Do' && operand?.type === 'name') names.add(operand.value);
+  }
+  return names;
+}
+
+/**
+ * Names of the marked-content property lists used by a list of operations
+ */
+function usedProperties(operations: ContentOperation[]): Set<string> {
+  const names = new Set<string>();
+  for (const op of operations) {
+    const operand = op.operands[op.operands.length - 1];
+    if ((op.operator === 'BDC' || op.operator === 'DP') && operand?.type === 'name') names.add(operand.value);
+  }
+  return names;
+}
+
+/**
+ * Drop resources the rewritten content no longer uses, such as originals
+ * replaced by redacted copies, so nothing keeps them in the saved file
+ */
+function pruneResources(scope: RedactionScope, category: string, used: Set<string>): void {
+  const existing = scope.resources?.lookupMaybe(PDFName.of(category), PDFDict);
+  const isUnused = (key: PDFName) => !used.has(key.asString());
+  if (!existing?.keys().some(isUnused)) return;
+
+  const own = scope.ownResources(category);
+  for (const key of own.keys()) {
+    if (isUnused(key)) own.delete(key);
+  }
+}
+
+/**
+ * Register a redacted copy in a page-private resource dictionary and
+ * return the new resource name.
+ */
+function registerResource(scope: RedactionScope, category: string, baseName: string, object: PDFObject): string {
+  const own = scope.ownResources(category);
+  let index = 1;
+  let name = `${baseName}_R${index}`;
+  while (own.has(PDFName.of(name))) {
+    name = `${baseName}_R${++index}`;
+  }
+  own.set(PDFName.of(name), scope.context.register(object));
+  return `/${name}`;
+}
+
+/**
+ * Clone a resource dictionary and its sub-dictionaries on first write, so
+ * resources shared with other pages or forms stay untouched
+ *
+ * @param attach - Called once with the copy, to put it in place
+ */
+function createOwnResources(
+  context: PDFContext,
+  source: PDFDict | undefined,
+  attach: (resources: PDFDict) => void
+): (category: string) => PDFDict {
+  let resources: PDFDict | null = null;
+  const categories = new Map<string, PDFDict>();
+
+  return (category) => {
+    if (!resources) {
+      resources = source?.clone(context) ?? context.obj({});
+      attach(resources);
+    }
+    let own = categories.get(category);
+    if (!own) {
+      const existing = resources.lookupMaybe(PDFName.of(category), PDFDict);
+      own = existing ? existing.clone(context) : context.obj({});
+      resources.set(PDFName.of(category), own);
+      categories.set(category, own);
+    }
+    return own;
+  };
+}
+
+/**
+ * Remove the text equivalents (ActualText, Alt, E) from the properties of a
+ * BDC operation, inline or in the Properties resources
+ */
+function clearMarkedContent(op: ContentOperation, scope: RedactionScope): ContentOperation {
+  const properties = op.operands[op.operands.length - 1];
+  const operands = op.operands.slice(0, -1);
+
+  if (properties?.type === 'dict') {
+    const raw = removeDictEntries(properties.raw, MARKED_CONTENT_TEXT_KEYS.map((key) => `/${key}`));
+    if (raw === properties.raw) return op;
+    scope.report.markedContentCleared++;
+    return { operator: op.operator, operands: [...operands, { type: 'dict', raw }] };
+  }
+
+  if (properties?.type === 'name') {
+    const baseName = properties.value.slice(1);
+    const dict = scope.resources
+      ?.lookupMaybe(PDFName.of('Properties'), PDFDict)
+      ?.lookupMaybe(PDFName.of(baseName), PDFDict);
+    if (!dict || !MARKED_CONTENT_TEXT_KEYS.some((key) => dict.has(PDFName.of(key)))) return op;
+
+    const copy = dict.clone(scope.context);
+    MARKED_CONTENT_TEXT_KEYS.forEach((key) => copy.delete(PDFName.of(key)));
+    scope.report.markedContentCleared++;
+    return {
+      operator: op.operator,
+      operands: [...operands, { type: 'name', value: registerResource(scope, 'Properties', baseName, copy) }]
+    };
+  }
+
+  return op;
+}
+
+/**
+ * Everything redaction removes, for telling whether an operation removed any
+ */
+function removedCount(report: ContentRedactionReport): number {
+  return report.glyphsRemoved + report.imagesBlanked + report.imagesRemoved + report.formsRewritten;
+}
+
+/**
+ * Handle a Do operation. Returns the operation to emit (possibly renamed),
+ * or null when the draw should be dropped entirely.
+ */
+function redactXObject(
+  op: ContentOperation,
+  ctm: Matrix,
+  scope: RedactionScope
+): ContentOperation | null {
+  const nameOperand = op.operands[op.operands.length - 1];
+  if (nameOperand?.type !== 'name') return op;
+
+  const xobjects = scope.resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const baseName = nameOperand.value.slice(1);
+  const stream = xobjects?.lookupMaybe(PDFName.of(baseName), PDFStream);
+  if (!stream) return op;
+
+  const subtype = stream.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString();
+
+  if (subtype === '/Image') {
+    const bounds = transformRect(ctm, 0, 0, 1, 1);
+    if (!intersectsAny(bounds, scope.boxes)) return op;
+
+    const blanked = stream instanceof PDFRawStream ? blankImagePixels(stream, ctm, scope) : null;
+    if (!blanked) {
+      scope.report.imagesRemoved++;
+      scope.report.warnings.push(`Image ${nameOperand.value} could not be decoded and was removed`);
+      return null;
+    }
+
+    scope.report.imagesBlanked++;
+    return { operator: 'Do', operands: [{ type: 'name', value: registerResource(scope, 'XObject', baseName, blanked) }] };
+  }
+
+  if (subtype === '/Form') {
+    if (scope.depth >= MAX_FORM_DEPTH) {
+      scope.report.warnings.push(`Form ${nameOperand.value} nested too deeply, removed`);
+      return null;
+    }
+
+    const { context } = scope;
+    const formMatrix = lookupNumberArray(context, stream.dict.get(PDFName.of('Matrix')));
+    const formCtm = formMatrix.length === 6
+      ? multiply(formMatrix as Matrix, ctm)
+      : ctm;
+
+    const bbox = lookupNumberArray(context, stream.dict.get(PDFName.of('BBox')));
+    if (bbox.length === 4) {
+      const bounds = transformRect(formCtm, bbox[0], bbox[1], bbox[2], bbox[3]);
+      if (!intersectsAny(bounds, scope.boxes)) return op;
+    }
+
+    let contents: Uint8Array;
+    try {
+      contents = decodeStreamContents(stream);
+    } catch {
+      scope.report.warnings.push(`Form ${nameOperand.value} could not be decoded and was removed`);
+      return null;
+    }
+
+    const formResources = stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? scope.resources;
+    let formResourcesCopy: PDFDict | null = null;
+    const formScope: RedactionScope = {
+      ...scope,
+      resources: formResources,
+      fontCache: new Map(),
+      depth: scope.depth + 1,
+      ownResources: createOwnResources(context, formResources, (resources) => {
+        formResourcesCopy = resources;
+      })
+    };
+
+    const before = { ...scope.report };
+    const rewritten = redactOperations(parseContentStream(contents), formCtm, formScope);
+    if (removedCount(scope.report) === removedCount(before)) return op;
+    pruneResources(formScope, 'XObject', drawnXObjects(rewritten));
+    if (scope.report.markedContentCleared !== before.markedContentCleared) {
+      pruneResources(formScope, 'Properties', usedProperties(rewritten));
+    }
+
+    const copy = context.flateStream(serializeContentStream(rewritten));
+    for (const [key, value] of stream.dict.entries()) {
+      const name = key.asString();
+      if (name === '/Filter' || name === '/Length' || name === '/DecodeParms') continue;
+      copy.dict.set(key, value);
+    }
+    // Nested redacted copies live in a private copy of the form's resources
+    if (formResourcesCopy) {
+      copy.dict.set(PDFName.of('Resources'), formResourcesCopy);
+    }
+
+    scope.report.formsRewritten++;
+    return { operator: 'Do', operands: [{ type: 'name', value: registerResource(scope, 'XObject', baseName, copy) }] };
+  }
+
+  return op;
+}
+
+/**
+ * Redact a list of content stream operations in the given scope
+ */
+function redactOperations(
+  operations: ContentOperation[],
+  initialCtm: Matrix,
+  scope: RedactionScope
+): ContentOperation[] {
+  const output: ContentOperation[] = [];
+  const stack: Matrix[] = [];
+  const defaultFont = loadFontMetrics(scope.context, undefined);
+  let ctm = initialCtm;
+  const ts = newTextState(defaultFont);
+
+  // Open marked-content spans: where their BDC/BMC was written, and
+  // whether anything inside them was removed
+  const spans: Array<{ index: number; touched: boolean }> = [];
+  let removed = removedCount(scope.report);
+  const markTouched = () => {
+    const now = removedCount(scope.report);
+    if (now === removed) return;
+    spans.forEach((span) => { span.touched = true; });
+    removed = now;
+  };
+  const closeSpan = (span: { index: number; touched: boolean } | undefined) => {
+    if (span?.touched) output[span.index] = clearMarkedContent(output[span.index], scope);
+  };
+
+  for (const op of operations) {
+    const n = numbersOf(op.operands);
+    markTouched();
+
+    switch (op.operator) {
+      case 'q':
+        stack.push(ctm);
+        break;
+      case 'Q':
+        ctm = stack.pop() ?? initialCtm;
+        break;
+      case 'cm':
+        if (n.length >= 6) ctm = multiply(n.slice(-6) as Matrix, ctm);
+        break;
+      case 'BT':
+        ts.tm = IDENTITY;
+        ts.tlm = IDENTITY;
+        break;
+      case 'Tf': {
+        const fontName = op.operands.find((operand) => operand.type === 'name');
+        if (fontName?.type === 'name') ts.font = resolveFont(scope, fontName.value);
+        ts.fontSize = n[n.length - 1] ?? 0;
+        break;
+      }
+      case 'Tc':
+        ts.charSpacing = n[0] ?? 0;
+        break;
+      case 'Tw':
+        ts.wordSpacing = n[0] ?? 0;
+        break;
+      case 'Tz':
+        ts.horizontalScale = (n[0] ?? 100) / 100;
+        break;
+      case 'TL':
+        ts.leading = n[0] ?? 0;
+        break;
+      case 'Ts':
+        ts.rise = n[0] ?? 0;
+        break;
+      case 'Td':
+        moveTextLine(ts, n[0] ?? 0, n[1] ?? 0);
+        break;
+      case 'TD':
+        ts.leading = -(n[1] ?? 0);
+        moveTextLine(ts, n[0] ?? 0, n[1] ?? 0);
+        break;
+      case 'Tm':
+        if (n.length >= 6) {
+          ts.tlm = n.slice(-6) as Matrix;
+          ts.tm = ts.tlm;
+        }
+        break;
+      case 'T*':
+        moveTextLine(ts, 0, -ts.leading);
+        break;
+      case 'Tj':
+      case 'TJ':
+      case "'":
+      case '"': {
+        const replacement = redactShowText(op, ts, ctm, scope);
+        if (replacement) {
+          output.push(...replacement);
+          continue;
+        }
+        break;
+      }
+      case 'Do': {
+        const replacement = redactXObject(op, ctm, scope);
+        if (replacement) output.push(replacement);
+        continue;
+      }
+      case 'BI':
+        if (intersectsAny(transformRect(ctm, 0, 0, 1, 1), scope.boxes)) {
+          scope.report.imagesRemoved++;
+          continue;
+        }
+        break;
+      case 'BDC':
+      case 'BMC':
+        spans.push({ index: output.length, touched: false });
+        break;
+      case 'EMC':
+        closeSpan(spans.pop());
+        break;
+    }
+
+    output.push(op);
+  }
+
+  // Spans left open at the end of the stream
+  markTouched();
+  spans.forEach(closeSpan);
+
+  return output;
+}
+
+function toRect(box: PdfLibBox): Rect {
+  return {
+    x0: Math.min(box.x, box.x + box.width),
+    y0: Math.min(box.y, box.y + box.height),
+    x1: Math.max(box.x, box.x + box.width),
+    y1: Math.max(box.y, box.y + box.height)
+  };
+}
+
+/**
+ * Take a widget annotation out of the form: from its parent field's kids,
+ * or from the AcroForm fields, and the same for parents left without kids
+ */
+function removeFormField(pdfDoc: PDFDocument, widget: PDFRef): void {
+  const context = pdfDoc.context;
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  let child = widget;
+
+  for (let depth = 0; depth < MAX_FORM_DEPTH; depth++) {
+    const parentRef = context.lookupMaybe(child, PDFDict)?.get(PDFName.of('Parent'));
+    const parent = parentRef instanceof PDFRef ? context.lookupMaybe(parentRef, PDFDict) : undefined;
+    const siblings = parent
+      ? parent.lookupMaybe(PDFName.of('Kids'), PDFArray)
+      : acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+
+    const index = siblings?.indexOf(child);
+    if (siblings && index !== undefined) siblings.remove(index);
+    if (!parent || !(parentRef instanceof PDFRef) || (siblings && siblings.size() > 0)) return;
+    child = parentRef;
+  }
+}
+
+/**
+ * Remove the annotations overlapping any box, with their popups and form
+ * fields: their /Contents, appearance streams and field values would
+ * otherwise still carry the redacted text
+ */
+function redactAnnotations(pdfDoc: PDFDocument, page: PDFPage, boxes: Rect[], report: ContentRedactionReport): void {
+  const context = pdfDoc.context;
+  const annots = page.node.Annots();
+  if (!annots) return;
+
+  const refs = annots.asArray();
+  const overlapping = new Set<PDFObject>();
+  for (const ref of refs) {
+    const annot = context.lookupMaybe(ref, PDFDict);
+    const rect = lookupNumberArray(context, annot?.get(PDFName.of('Rect')));
+    if (rect.length === 4 && intersectsAny(toRect({
+      x: rect[0],
+      y: rect[1],
+      width: rect[2] - rect[0],
+      height: rect[3] - rect[1]
+    }), boxes)) {
+      overlapping.add(ref);
+    }
+  }
+  if (overlapping.size === 0) return;
+
+  // A popup shows its parent's text wherever it sits
+  const removed = refs.filter((ref) => {
+    if (overlapping.has(ref)) return true;
+    const annot = context.lookupMaybe(ref, PDFDict);
+    const isPopup = annot?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString() === '/Popup';
+    const parent = annot?.get(PDFName.of('Parent'));
+    return isPopup && parent !== undefined && overlapping.has(parent);
+  });
+
+  for (const ref of removed) {
+    const annot = context.lookupMaybe(ref, PDFDict);
+    const subtype = annot?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString();
+    if (subtype === '/Widget' && ref instanceof PDFRef) removeFormField(pdfDoc, ref);
+    // The structure tree may still point at the annotation
+    ANNOTATION_TEXT_KEYS.forEach((key) => annot?.delete(PDFName.of(key)));
+  }
+
+  const kept = refs.filter((ref) => !removed.includes(ref));
+  if (kept.length > 0) {
+    page.node.set(PDFName.of('Annots'), context.obj(kept));
+  } else {
+    page.node.delete(PDFName.of('Annots'));
+  }
+  report.annotationsRemoved += removed.length;
+}
+
+/**
+ * Create an empty redaction report
+ */
+export function createRedactionReport(): ContentRedactionReport {
+  return {
+    glyphsRemoved: 0,
+    textOperatorsModified: 0,
+    imagesBlanked: 0,
+    imagesRemoved: 0,
+    formsRewritten: 0,
+    markedContentCleared: 0,
+    annotationsRemoved: 0,
+    warnings: []
+  };
+}
+
+/**
+ * Remove all text and image content under the given boxes from a page.
+ * Boxes are in pdf-lib page coordinates (see convertBoxesToPdfLib).
+ *
+ * The page's content streams are replaced by a single rewritten stream; the
+ * caller is still responsible for drawing the visible redaction fill.
+ */
+export function redactPageContent(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  boxes: PdfLibBox[],
+  report: ContentRedactionReport = createRedactionReport(),
+  options: Partial<TrueRedactionOptions> = {}
+): ContentRedactionReport {
+  if (boxes.length === 0) return report;
+
+  redactAnnotations(pdfDoc, page, boxes.map(toRect), report);
+
+  const context = pdfDoc.context;
+  const node = page.node;
+  const contents = node.Contents();
+  if (!contents) return report;
+
+  // Concatenate all content streams; operators never span stream boundaries
+  const streams: PDFStream[] = contents instanceof PDFArray
+    ? contents.asArray()
+      .map((ref) => context.lookup(ref))
+      .filter((obj): obj is PDFStream => obj instanceof PDFStream)
+    : [contents];
+
+  const parts = streams.map(decodeStreamContents);
+  const totalLength = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const combined = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    combined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+
+  const cleared = report.markedContentCleared;
+  const scope: RedactionScope = {
+    context,
+    resources: node.Resources(),
+    boxes: boxes.map(toRect),
+    options: { ...DEFAULT_TRUE_REDACTION_OPTIONS, ...options },
+    report,
+    fontCache: new Map(),
+    depth: 0,
+    // Give the page its own resource dicts so shared or inherited
+    // resources used by other pages stay untouched
+    ownResources: createOwnResources(context, node.Resources(), (resources) => {
+      node.set(PDFName.of('Resources'), resources);
+    })
+  };
+
+  const operations = redactOperations(parseContentStream(combined), IDENTITY, scope);
+  pruneResources(scope, 'XObject', drawnXObjects(operations));
+  if (report.markedContentCleared !== cleared) {
+    pruneResources(scope, 'Properties', usedProperties(operations));
+  }
+  const rewritten = context.flateStream(serializeContentStream(operations));
+  node.set(PDFName.of('Contents'), context.register(rewritten));
+
+  return report;
+}
+
+/**
+ * Delete every object that can no longer be reached from the document
+ * trailer. pdf-lib writes all registered objects on save, so without this
+ * the content streams and XObjects replaced by redactPageContent would
+ * still be in the file, unredacted. Call once after redacting, before save.
+ *
+ * @returns Number of objects deleted
+ */
+export function removeUnreferencedObjects(pdfDoc: PDFDocument): number {
+  const context = pdfDoc.context;
+  const reachable = new Set<string>();
+  const pending: unknown[] = Object.values(context.trailerInfo);
+
+  while (pending.length > 0) {
+    const obj = pending.pop();
+    if (obj instanceof PDFRef) {
+      const key = obj.toString();
+      if (reachable.has(key)) continue;
+      reachable.add(key);
+      pending.push(context.lookup(obj));
+    } else if (obj instanceof PDFDict) {
+      pending.push(...obj.values());
+    } else if (obj instanceof PDFArray) {
+      pending.push(...obj.asArray());
+    } else if (obj instanceof PDFStream) {
+      pending.push(obj.dict);
+    }
+  }
+
+  let deleted = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.toString())) {
+      context.delete(ref);
+      deleted++;
+    }
+  }
+  return deleted;
+}
@@ -0,0 +1,130 @@
+/**
+ * Pseudonymizer
+ *
+ * Replaces detected values with stable surrogates. Each surrogate is
+ * derived from an HMAC of the value under the project secret, so the same
+ * value maps to the same surrogate across pages, files and exports made
+ * with the same secret, and nobody without the secret can recompute it.
+ */
+
+import { generateSurrogate, inferKind, normalizeValue } from './surrogates';
+import type { Random, SurrogateKind } from './types';
+
+/** Retries before giving up on a surrogate no other value uses (names never give up) */
+const MAX_ATTEMPTS = 32;
+
+/** Dates move by 1-365 days, earlier or later */
+const MAX_DATE_SHIFT_DAYS = 365;
+
+/**
+ * Small seeded PRNG (sfc32), fed from HMAC bytes
+ */
+function createRandom(bytes: Uint8Array): Random {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let a = view.getUint32(0);
+  let b = view.getUint32(4);
+  let c = view.getUint32(8);
+  let d = view.getUint32(12);
+
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    const t = (a + b + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
+
+export class Pseudonymizer {
+  private key: Promise<CryptoKey>;
+  private dateShift: Promise<number> | null = null;
+  /** `${kind}:${normalized}` → attempt that produced its surrogate */
+  private attempts = new Map<string, number>();
+  /** Normalized surrogate → the value key that owns it */
+  private taken = new Map<string, string>();
+
+  /**
+   * @param secret - Per-project secret; the same secret reproduces the same mapping
+   */
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('Pseudonymization requires a project secret');
+    }
+
+    this.key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+
+  /**
+   * Get the surrogate for a detected value
+   * Variants of a value ("123-45-6789" / "123456789") share a surrogate,
+   * written in each variant's own format.
+   * @param type - Detection type, used when the value's shape is ambiguous
+   */
+  async pseudonymize(value: string, type?: string): Promise<string> {
+    const kind = inferKind(value, type);
+    const normalized = normalizeValue(value, kind);
+    const valueKey = `${kind}:${normalized}`;
+    const dateShiftDays = kind === 'date' ? await this.getDateShiftDays() : 0;
+
+    const known = this.attempts.get(valueKey);
+    if (known !== undefined) {
+      return this.generate(value, kind, normalized, known, dateShiftDays, type);
+    }
+
+    let surrogate = value;
+    // The name space grows with each round of retries (see fakeName)
+    for (let attempt = 0; kind === 'name' || attempt < MAX_ATTEMPTS; attempt++) {
+      surrogate = await this.generate(value, kind, normalized, attempt, dateShiftDays, type);
+      const surrogateKey = `${kind}:${normalizeValue(surrogate, kind)}`;
+      const owner = this.taken.get(surrogateKey);
+
+      // Dates shift one-to-one, so they can't collide
+      if (kind === 'date' || (surrogateKey !== valueKey && (owner === undefined || owner === valueKey))) {
+        this.attempts.set(valueKey, attempt);
+        this.taken.set(surrogateKey, valueKey);
+        return surrogate;
+      }
+    }
+
+    throw new Error(`Could not find an unused ${kind} surrogate`);
+  }
+
+  /**
+   * Days every date is shifted by, so intervals between dates are kept
+   */
+  getDateShiftDays(): Promise<number> {
+    if (!this.dateShift) {
+      this.dateShift = this.hmac('date-shift').then((bytes) => {
+        const n = new DataView(bytes.buffer).getUint32(0) % (2 * MAX_DATE_SHIFT_DAYS);
+        return n < MAX_DATE_SHIFT_DAYS ? -(n + 1) : n - MAX_DATE_SHIFT_DAYS + 1;
+      });
+    }
+    return this.dateShift;
+  }
+
+  private async generate(
+    value: string,
+    kind: SurrogateKind,
+    normalized: string,
+    attempt: number,
+    dateShiftDays: number,
+    type?: string
+  ): Promise<string> {
+    const bytes = await this.hmac(`${kind}\u0000${normalized}\u0000${attempt}`);
+    return generateSurrogate(value, kind, createRandom(bytes), dateShiftDays, type, attempt);
+  }
+
+  private async hmac(message: string): Promise<Uint8Array> {
+    const signature = await crypto.subtle.sign('HMAC', await this.key, new TextEncoder().encode(message));
+    return new Uint8Array(signature);
+  }
+}
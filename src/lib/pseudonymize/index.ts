@@ -0,0 +1,17 @@
+/**
+ * Pseudonymization Module
+ *
+ * Consistent surrogates for detected values, as an alternative to
+ * black-box masking in text-based exports.
+ */
+
+export { Pseudonymizer } from './Pseudonymizer';
+export { inferKind, normalizeValue, parseDate, shiftDate, luhnCheckDigit } from './surrogates';
+export {
+  getExportMode,
+  setExportMode,
+  getProjectSecret,
+  setProjectSecret,
+  generateProjectSecret
+} from './settings';
+export type { ExportMode, SurrogateKind, Random } from './types';
@@ -0,0 +1,68 @@
+/**
+ * Pseudonymization Settings
+ *
+ * Export mode and project secret, stored in localStorage. Teams that need
+ * the same mapping on several machines share the secret.
+ */
+
+import type { ExportMode } from './types';
+
+const MODE_KEY = 'export-mode';
+const SECRET_KEY = 'pseudonym-secret';
+
+/**
+ * Get the export mode (default: mask)
+ */
+export function getExportMode(): ExportMode {
+  try {
+    return localStorage.getItem(MODE_KEY) === 'pseudonymize' ? 'pseudonymize' : 'mask';
+  } catch (error) {
+    console.error('Failed to read export mode:', error);
+    return 'mask';
+  }
+}
+
+export function setExportMode(mode: ExportMode): void {
+  try {
+    localStorage.setItem(MODE_KEY, mode);
+  } catch (error) {
+    console.error('Failed to save export mode:', error);
+  }
+}
+
+/**
+ * Generate a random 256-bit secret (hex)
+ */
+export function generateProjectSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get the project secret, creating one on first use
+ */
+export function getProjectSecret(): string {
+  try {
+    const stored = localStorage.getItem(SECRET_KEY);
+    if (stored) return stored;
+
+    const secret = generateProjectSecret();
+    localStorage.setItem(SECRET_KEY, secret);
+    return secret;
+  } catch (error) {
+    console.error('Failed to read project secret:', error);
+    return generateProjectSecret();
+  }
+}
+
+/**
+ * Replace the project secret
+ * Surrogates from earlier exports no longer match after a change.
+ */
+export function setProjectSecret(secret: string): void {
+  const trimmed = secret.trim();
+  if (!trimmed) {
+    throw new Error('Project secret cannot be empty');
+  }
+  localStorage.setItem(SECRET_KEY, trimmed);
+}
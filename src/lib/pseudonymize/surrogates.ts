@@ -0,0 +1,381 @@
+/**
+ * Surrogate Generators
+ *
+ * Turn a value and a seeded random source into a fake value of the same
+ * kind and shape: names stay names, SSNs and card numbers keep their
+ * separators (cards still pass Luhn), dates keep their format.
+ */
+
+import { luhnCheck } from '../detect/luhn';
+import type { Random, SurrogateKind } from './types';
+
+const FIRST_NAMES = [
+  'Alex', 'Bailey', 'Cameron', 'Dana', 'Elliot', 'Frankie', 'Gray', 'Harper',
+  'Indira', 'Jordan', 'Kai', 'Logan', 'Morgan', 'Noor', 'Oakley', 'Parker',
+  'Quinn', 'Reese', 'Sasha', 'Taylor', 'Umar', 'Val', 'Wren', 'Yael',
+  'Zion', 'Amara', 'Bruno', 'Chiara', 'Dmitri', 'Esme', 'Farah', 'Goran',
+  'Hana', 'Ivo', 'Jun', 'Kenji', 'Lena', 'Mateo', 'Nadia', 'Otto'
+];
+
+const LAST_NAMES = [
+  'Abbott', 'Barros', 'Castell', 'Dorsey', 'Eklund', 'Fairbanks', 'Garrow', 'Halden',
+  'Ingram', 'Jansen', 'Kovac', 'Lindqvist', 'Marlow', 'Novak', 'Okafor', 'Prescott',
+  'Quarles', 'Rinaldi', 'Sorensen', 'Thorne', 'Ulrich', 'Vance', 'Whitlock', 'Yardley',
+  'Zeller', 'Achebe', 'Brandt', 'Calloway', 'Delacroix', 'Ferreira', 'Gallo', 'Hollis',
+  'Iversen', 'Kimura', 'Lowell', 'Moreau', 'Nakamura', 'Osei', 'Petrov', 'Rasmussen'
+];
+
+/** Appended to listed names once those collide, so the name space keeps growing */
+const NAME_SYLLABLES = [
+  'ra', 'lo', 'mi', 'ne', 'ta', 'vi', 'ko', 'sa', 'de', 'lu',
+  'ren', 'dor', 'mar', 'bel', 'tin', 'cal', 'fen', 'gil', 'hal', 'jor'
+];
+
+/** Retries at each name length: listed names first, then one more syllable per round */
+const NAME_ATTEMPTS_PER_LENGTH = 8;
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Detection types that hold a person's name */
+const NAME_TYPES = new Set(['person', 'per', 'name']);
+
+const EMAIL_SHAPE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SSN_SHAPE = /^\d{3}-?\d{2}-?\d{4}$/;
+const PHONE_SHAPE = /^\+?[\d\s().-]+$/;
+/** Two to four capitalized words, optionally "Last, First" */
+const NAME_SHAPE = /^\p{Lu}[\p{L}'’-]*(?:,?\s+\p{Lu}[\p{L}'’.-]*){1,3}$/u;
+
+/**
+ * Pick the surrogate kind for a value
+ * The value's shape wins over the detection type, so the same value gets the
+ * same surrogate whichever detector (or CSV column) it came from.
+ */
+export function inferKind(value: string, type?: string): SurrogateKind {
+  const text = value.trim();
+  const hint = type?.toLowerCase();
+  const digits = text.replace(/\D/g, '');
+  const numeric = /^[\d\s-]+$/.test(text);
+
+  if (EMAIL_SHAPE.test(text)) return 'email';
+  if (SSN_SHAPE.test(text)) return 'ssn';
+  if (numeric && digits.length >= 12 && digits.length <= 19 && (hint === 'card' || luhnCheck(digits))) return 'card';
+  if (parseDate(text)) return 'date';
+  if (PHONE_SHAPE.test(text) && digits.length >= 10 && digits.length <= 15) return 'phone';
+  if (hint === 'phone' && PHONE_SHAPE.test(text) && digits.length >= 7) return 'phone';
+  if (hint && NAME_TYPES.has(hint)) return 'name';
+  if ((!hint || hint === 'manual') && NAME_SHAPE.test(text)) return 'name';
+  return 'text';
+}
+
+/**
+ * Canonical form of a value, so spelling variants share a surrogate
+ * ("Smith, John" and "john  smith"; "123-45-6789" and "123456789")
+ */
+export function normalizeValue(value: string, kind: SurrogateKind): string {
+  const text = value.normalize('NFKC').trim();
+
+  switch (kind) {
+    case 'email':
+      return text.toLowerCase();
+    case 'ssn':
+    case 'card':
+    case 'phone':
+      return text.replace(/\D/g, '');
+    case 'date': {
+      const parsed = parseDate(text);
+      return parsed ? toISODate(parsed.date) : text;
+    }
+    case 'name': {
+      const [last, first] = text.split(/\s*,\s*/);
+      const ordered = first ? `${first} ${last}` : text;
+      return ordered.toLowerCase().replace(/\s+/g, ' ');
+    }
+    default:
+      return text.toLowerCase().replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Generate a surrogate for a value
+ * @param dateShiftDays - Offset applied to every date (see Pseudonymizer)
+ * @param attempt - Retry number after collisions; later retries draw names
+ *   from a larger space
+ */
+export function generateSurrogate(
+  value: string,
+  kind: SurrogateKind,
+  random: Random,
+  dateShiftDays: number,
+  type?: string,
+  attempt = 0
+): string {
+  switch (kind) {
+    case 'name':
+      return fakeName(value, random, attempt);
+    case 'email':
+      return `user_${1 + pick(random, 99999)}@example.invalid`;
+    case 'ssn':
+      return fakeSSN(value, random);
+    case 'card':
+      return fakeCard(value, random);
+    case 'phone':
+      return fakePhone(value, random);
+    case 'date':
+      return shiftDate(value, dateShiftDays) ?? fakeText(value, random, type);
+    default:
+      return fakeText(value, random, type);
+  }
+}
+
+function pick(random: Random, n: number): number {
+  return Math.floor(random() * n);
+}
+
+/**
+ * Keep the token layout of the original: one word → first name,
+ * three or more → middle initial, "Last, First" stays reversed
+ * After the first retries the listed names get syllables appended, one
+ * more per round, so there is always an unused name to find.
+ */
+function fakeName(value: string, random: Random, attempt: number): string {
+  const syllables = Math.floor(attempt / NAME_ATTEMPTS_PER_LENGTH);
+  const first = FIRST_NAMES[pick(random, FIRST_NAMES.length)];
+  const last = LAST_NAMES[pick(random, LAST_NAMES.length)];
+  const initial = String.fromCharCode(65 + pick(random, 26));
+  const extend = (name: string) =>
+    name + Array.from({ length: syllables }, () => NAME_SYLLABLES[pick(random, NAME_SYLLABLES.length)]).join('');
+  const text = value.trim();
+  const words = text.split(/[\s,]+/).filter(Boolean);
+
+  const firstName = extend(first);
+  const lastName = extend(last);
+
+  let name: string;
+  if (words.length === 1) {
+    name = firstName;
+  } else if (text.includes(',')) {
+    name = `${lastName}, ${firstName}`;
+  } else if (words.length >= 3) {
+    name = `${firstName} ${initial}. ${lastName}`;
+  } else {
+    name = `${firstName} ${lastName}`;
+  }
+
+  return text === text.toUpperCase() ? name.toUpperCase() : name;
+}
+
+/**
+ * Write digits into the original's digit positions, keeping separators
+ */
+function fillDigits(template: string, digits: string): string {
+  let index = 0;
+  return template.trim().replace(/\d/g, () => digits[index++] ?? '0');
+}
+
+/**
+ * Structurally valid SSN: area 001-899 except 666, group 01-99, serial 0001-9999
+ */
+function fakeSSN(value: string, random: Random): string {
+  let area = 1 + pick(random, 899);
+  if (area === 666) area = 667;
+  const group = 1 + pick(random, 99);
+  const serial = 1 + pick(random, 9999);
+
+  const digits = `${String(area).padStart(3, '0')}${String(group).padStart(2, '0')}${String(serial).padStart(4, '0')}`;
+  return fillDigits(value, digits);
+}
+
+/**
+ * Same length and first digit (so the card network still reads right),
+ * random body, valid Luhn check digit
+ */
+function fakeCard(value: string, random: Random): string {
+  const original = value.replace(/\D/g, '');
+  let body = original[0];
+  while (body.length < original.length - 1) {
+    body += String(pick(random, 10));
+  }
+
+  return fillDigits(value, body + luhnCheckDigit(body));
+}
+
+/**
+ * Check digit that makes body + digit pass the Luhn check
+ */
+export function luhnCheckDigit(body: string): string {
+  for (let digit = 0; digit <= 9; digit++) {
+    if (luhnCheck(body + digit)) {
+      return String(digit);
+    }
+  }
+  return '0';
+}
+
+/**
+ * Keep an explicit country code and the separators; area and exchange
+ * don't start with 0 or 1
+ */
+function fakePhone(value: string, random: Random): string {
+  const text = value.trim();
+  const countryCode = text.match(/^\+\d{1,3}(?=\D)/)?.[0] ?? '';
+  const rest = text.slice(countryCode.length);
+
+  let first = true;
+  return countryCode + rest.replace(/\d/g, () => {
+    const digit = first ? 2 + pick(random, 8) : pick(random, 10);
+    first = false;
+    return String(digit);
+  });
+}
+
+/**
+ * Same character classes as the original for identifiers; a labelled
+ * token for longer free text such as addresses
+ */
+function fakeText(value: string, random: Random, type?: string): string {
+  const text = value.trim();
+
+  if (!/\s/.test(text) && text.length <= 64) {
+    return text.replace(/[A-Z]|[a-z]|\d/g, (ch) => {
+      if (/\d/.test(ch)) return String(pick(random, 10));
+      const letter = String.fromCharCode(97 + pick(random, 26));
+      return ch === ch.toUpperCase() ? letter.toUpperCase() : letter;
+    });
+  }
+
+  const label = (type || 'value').toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const suffix = Array.from({ length: 6 }, () => pick(random, 16).toString(16)).join('');
+  return `${label}_${suffix}`;
+}
+
+interface ParsedDate {
+  date: Date;
+  render: (date: Date) => string;
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function toISODate(date: Date): string {
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1, 2)}-${pad(date.getUTCDate(), 2)}`;
+}
+
+function ordinal(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+}
+
+function makeDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31 April and the like
+  return date.getUTCMonth() === month - 1 ? date : null;
+}
+
+function parseMonthName(word: string): { month: number; render: (month: number) => string } | null {
+  const bare = word.replace(/\.$/, '');
+  const index = MONTHS.findIndex(m => m.toLowerCase().startsWith(bare.toLowerCase()));
+  if (index < 0 || bare.length < 3) return null;
+
+  const abbreviated = bare.length < MONTHS[index].length;
+  const upper = bare === bare.toUpperCase();
+  const dot = word.endsWith('.') ? '.' : '';
+
+  return {
+    month: index + 1,
+    render: (month) => {
+      const name = abbreviated ? MONTHS[month - 1].slice(0, 3) : MONTHS[month - 1];
+      return (upper ? name.toUpperCase() : name) + (abbreviated ? dot : '');
+    }
+  };
+}
+
+/**
+ * Parse the date formats detection finds, keeping enough of the layout to
+ * write a different date the same way
+ * Numeric dates are read month-first unless that can't be valid or the
+ * separator is a dot.
+ */
+export function parseDate(value: string): ParsedDate | null {
+  const text = value.trim();
+
+  // 2024-03-15, 2024/3/15
+  let match = text.match(/^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})$/);
+  if (match) {
+    const [, y, sep, m, d] = match;
+    const date = makeDate(Number(y), Number(m), Number(d));
+    return date && {
+      date,
+      render: (next) =>
+        [pad(next.getUTCFullYear(), 4), pad(next.getUTCMonth() + 1, m.length), pad(next.getUTCDate(), d.length)].join(sep)
+    };
+  }
+
+  // 03/15/2024, 15.03.2024, 3-15-24
+  match = text.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{2}|\d{4})$/);
+  if (match) {
+    const [, a, sep, b, y] = match;
+    const dayFirst = sep === '.' || Number(a) > 12;
+    const [m, d] = dayFirst ? [b, a] : [a, b];
+    const shortYear = y.length === 2;
+    const year = shortYear ? (Number(y) < 50 ? 2000 : 1900) + Number(y) : Number(y);
+    const date = makeDate(year, Number(m), Number(d));
+    return date && {
+      date,
+      render: (next) => {
+        const month = pad(next.getUTCMonth() + 1, m.length);
+        const day = pad(next.getUTCDate(), d.length);
+        const nextYear = shortYear ? pad(next.getUTCFullYear() % 100, 2) : pad(next.getUTCFullYear(), 4);
+        return (dayFirst ? [day, month, nextYear] : [month, day, nextYear]).join(sep);
+      }
+    };
+  }
+
+  // March 15, 2024 / Mar. 15th 2024
+  match = text.match(/^([A-Za-z]+\.?)\s+(\d{1,2})(st|nd|rd|th)?(,?)\s+(\d{4})$/);
+  if (match) {
+    const [, word, d, suffix, comma, y] = match;
+    const month = parseMonthName(word);
+    const date = month && makeDate(Number(y), month.month, Number(d));
+    return date && {
+      date,
+      render: (next) => {
+        const day = next.getUTCDate();
+        return `${month.render(next.getUTCMonth() + 1)} ${pad(day, d.length)}${suffix ? ordinal(day) : ''}${comma} ${next.getUTCFullYear()}`;
+      }
+    };
+  }
+
+  // 15 March 2024 / 15th Mar 2024
+  match = text.match(/^(\d{1,2})(st|nd|rd|th)?\s+([A-Za-z]+\.?)(,?)\s+(\d{4})$/);
+  if (match) {
+    const [, d, suffix, word, comma, y] = match;
+    const month = parseMonthName(word);
+    const date = month && makeDate(Number(y), month.month, Number(d));
+    return date && {
+      date,
+      render: (next) => {
+        const day = next.getUTCDate();
+        return `${pad(day, d.length)}${suffix ? ordinal(day) : ''} ${month.render(next.getUTCMonth() + 1)}${comma} ${next.getUTCFullYear()}`;
+      }
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Move a date by a number of days, keeping its format
+ * @returns null if the value isn't a date we can parse
+ */
+export function shiftDate(value: string, days: number): string | null {
+  const parsed = parseDate(value);
+  if (!parsed) return null;
+  return parsed.render(new Date(parsed.date.getTime() + days * DAY_MS));
+}
@@ -0,0 +1,21 @@
+/**
+ * Pseudonymization Types
+ */
+
+/**
+ * How redacted text is replaced in text-based exports
+ * - mask: runs of █ (default)
+ * - pseudonymize: stable, type-appropriate surrogate values
+ */
+export type ExportMode = 'mask' | 'pseudonymize';
+
+/**
+ * Kind of surrogate generated for a value
+ */
+export type SurrogateKind = 'name' | 'email' | 'ssn' | 'card' | 'phone' | 'date' | 'text';
+
+/**
+ * Uniform random source in [0, 1), seeded from the project secret
+ */
+export type Random = () => number;
+
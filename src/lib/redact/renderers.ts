@@ -286,7 +286,7 @@ export const PixelateStyle: RedactionStyle = {
     ctx.font = '10px monospace';
     ctx.fillText('SECRET', 5, 18);
 
-    this.render(ctx, { x: 5, y: 10, width: 40, height = 15 }, 4);
+    this.render(ctx, { x: 5, y: 10, width: 40, height: 15 }, 4);
 
     return canvas.toDataURL();
   },
@@ -2,10 +2,17 @@
  * Pattern-based redaction styles (diagonal lines, crosshatch, dots)
  */
 
+import { rgb, type PDFPage } from 'pdf-lib';
 import type { Box } from '../../pdf/find';
-import type { RedactionStyle, StyleOptions } from '../styles';
+import type { PdfLibBox } from '../../pdf/coordinates';
+import type { PdfStyleResources, RedactionStyle, StyleOptions } from '../styles';
 import { createPreviewCanvas } from '../styles';
 
+/** Pattern spacing and dot radius in canvas pixels */
+const LINE_SPACING = 10;
+const DOT_SPACING = 8;
+const DOT_RADIUS = 2;
+
 export class PatternRedactionStyle implements RedactionStyle {
   id = 'pattern';
   name = 'Pattern Fill';
@@ -26,8 +33,11 @@ export class PatternRedactionStyle implements RedactionStyle {
     ctx.fillStyle = '#000000';
     ctx.fillRect(x, y, w, h);
 
-    // Then draw pattern on top (for visual variety, but exports as solid)
+    // Then draw the pattern on top, kept inside the box
     ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
     ctx.strokeStyle = '#000000';
     ctx.lineWidth = 2;
 
@@ -47,11 +57,52 @@ export class PatternRedactionStyle implements RedactionStyle {
   }
 
   export(ctx: CanvasRenderingContext2D, box: Box, options?: StyleOptions): void {
-    // Export is always solid black, no transparency
-    const padding = options?.padding || 0;
+    // The pattern is drawn over an opaque fill, so the preview is already safe to export
+    this.render(ctx, box, options);
+  }
 
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(box.x - padding, box.y - padding, box.w + padding * 2, box.h + padding * 2);
+  exportPdf(page: PDFPage, box: PdfLibBox, resources: PdfStyleResources, options?: StyleOptions): void {
+    const pattern = options?.pattern || 'diagonal';
+    const padding = (options?.padding || 0) / resources.scale;
+    const unit = 1 / resources.scale;
+
+    const x = box.x - padding;
+    const y = box.y - padding;
+    const w = box.width + padding * 2;
+    const h = box.height + padding * 2;
+
+    page.drawRectangle({ x, y, width: w, height: h, color: rgb(0, 0, 0), opacity: 1.0, borderWidth: 0 });
+
+    const white = rgb(1, 1, 1);
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+      page.drawLine({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, thickness: unit, color: white });
+
+    if (pattern === 'dots') {
+      const spacing = DOT_SPACING * unit;
+      const radius = DOT_RADIUS * unit;
+      for (let dx = spacing / 2; dx + radius <= w; dx += spacing) {
+        for (let dy = spacing / 2; dy + radius <= h; dy += spacing) {
+          // Rows run from the top, as on canvas
+          page.drawCircle({ x: x + dx, y: y + h - dy, size: radius, color: white });
+        }
+      }
+      return;
+    }
+
+    // 45° lines clipped to the box (pdf-lib has no clipping path helper)
+    const spacing = LINE_SPACING * unit;
+    for (let i = -h; i < w; i += spacing) {
+      const start = Math.max(0, -i);
+      const end = Math.min(h, w - i);
+      if (end <= start) continue;
+
+      // Forward diagonal: top-left to bottom-right
+      line(x + i + start, y + h - start, x + i + end, y + h - end);
+      if (pattern === 'crosshatch') {
+        // Backward diagonal: bottom-left to top-right
+        line(x + i + start, y + start, x + i + end, y + end);
+      }
+    }
   }
 
   getPreview(): string {
@@ -82,7 +133,7 @@ export class PatternRedactionStyle implements RedactionStyle {
     w: number,
     h: number
   ): void {
-    const spacing = 10;
+    const spacing = LINE_SPACING;
 
     ctx.strokeStyle = '#ffffff';
     ctx.lineWidth = 1;
@@ -103,7 +154,7 @@ export class PatternRedactionStyle implements RedactionStyle {
     w: number,
     h: number
   ): void {
-    const spacing = 10;
+    const spacing = LINE_SPACING;
 
     ctx.strokeStyle = '#ffffff';
     ctx.lineWidth = 1;
@@ -131,8 +182,8 @@ export class PatternRedactionStyle implements RedactionStyle {
     w: number,
     h: number
   ): void {
-    const spacing = 8;
-    const radius = 2;
+    const spacing = DOT_SPACING;
+    const radius = DOT_RADIUS;
 
     ctx.fillStyle = '#ffffff';
 
@@ -2,8 +2,11 @@
  * Solid black box redaction style (current default)
  */
 
+import type { PDFPage } from 'pdf-lib';
 import type { Box } from '../../pdf/find';
-import type { RedactionStyle, StyleOptions } from '../styles';
+import type { PdfLibBox } from '../../pdf/coordinates';
+import { hexToRgb } from '../../pdf/drawing';
+import type { PdfStyleResources, RedactionStyle, StyleOptions } from '../styles';
 import { createPreviewCanvas } from '../styles';
 
 export class SolidRedactionStyle implements RedactionStyle {
@@ -22,11 +25,22 @@ export class SolidRedactionStyle implements RedactionStyle {
   }
 
   export(ctx: CanvasRenderingContext2D, box: Box, options?: StyleOptions): void {
-    // Export is always solid black, no transparency
-    const padding = options?.padding || 0;
+    // Any opaque color hides the content equally well
+    this.render(ctx, box, options);
+  }
 
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(box.x - padding, box.y - padding, box.w + padding * 2, box.h + padding * 2);
+  exportPdf(page: PDFPage, box: PdfLibBox, resources: PdfStyleResources, options?: StyleOptions): void {
+    const padding = (options?.padding || 0) / resources.scale;
+
+    page.drawRectangle({
+      x: box.x - padding,
+      y: box.y - padding,
+      width: box.width + padding * 2,
+      height: box.height + padding * 2,
+      color: hexToRgb(options?.color || '#000000'),
+      opacity: 1.0,
+      borderWidth: 0
+    });
   }
 
   getPreview(): string {
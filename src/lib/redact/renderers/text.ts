@@ -2,8 +2,11 @@
  * Text replacement redaction style
  */
 
+import { rgb, type PDFPage } from 'pdf-lib';
 import type { Box } from '../../pdf/find';
-import type { RedactionStyle, StyleOptions } from '../styles';
+import type { PdfLibBox } from '../../pdf/coordinates';
+import { toEncodable } from '../../pdf/drawing';
+import type { PdfStyleResources, RedactionStyle, StyleOptions } from '../styles';
 import { createPreviewCanvas } from '../styles';
 
 export class TextRedactionStyle implements RedactionStyle {
@@ -66,6 +69,34 @@ export class TextRedactionStyle implements RedactionStyle {
     ctx.fillText(text, x + w / 2, y + h / 2);
   }
 
+  exportPdf(page: PDFPage, box: PdfLibBox, resources: PdfStyleResources, options?: StyleOptions): void {
+    const { font, scale } = resources;
+    const text = toEncodable(font, options?.text || 'REDACTED');
+    const padding = (options?.padding || 4) / scale;
+
+    const x = box.x - padding;
+    const y = box.y - padding;
+    const w = box.width + padding * 2;
+    const h = box.height + padding * 2;
+
+    page.drawRectangle({ x, y, width: w, height: h, color: rgb(0, 0, 0), opacity: 1.0, borderWidth: 0 });
+
+    // Same sizing as on canvas, in points
+    const fontSize = options?.fontSize
+      ? options.fontSize / scale
+      : this.fitFontSize((size) => font.widthOfTextAtSize(text, size / scale), w * scale, h * scale) / scale;
+    const width = font.widthOfTextAtSize(text, fontSize);
+
+    page.drawText(text, {
+      x: x + (w - width) / 2,
+      // drawText takes the baseline; cap height is about 0.7 of the size
+      y: y + h / 2 - fontSize * 0.35,
+      size: fontSize,
+      font,
+      color: rgb(1, 1, 1)
+    });
+  }
+
   getPreview(): string {
     const { canvas, ctx } = createPreviewCanvas();
 
@@ -91,6 +122,16 @@ export class TextRedactionStyle implements RedactionStyle {
     maxWidth: number,
     maxHeight: number
   ): number {
+    return this.fitFontSize((fontSize) => {
+      ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+      return ctx.measureText(text).width;
+    }, maxWidth, maxHeight);
+  }
+
+  /**
+   * Largest font size (in canvas pixels) whose text fits the box
+   */
+  private fitFontSize(measure: (fontSize: number) => number, maxWidth: number, maxHeight: number): number {
     const minFontSize = 8;
     const maxFontSize = 48;
 
@@ -98,9 +139,7 @@ export class TextRedactionStyle implements RedactionStyle {
 
     // Try progressively smaller font sizes until it fits
     while (fontSize > minFontSize) {
-      ctx.font = `bold ${fontSize}px Arial, sans-serif`;
-      const metrics = ctx.measureText(text);
-      const textWidth = metrics.width;
+      const textWidth = measure(fontSize);
       const textHeight = fontSize * 1.2; // Approximate height
 
       if (textWidth <= maxWidth * 0.9 && textHeight <= maxHeight * 0.9) {
@@ -2,7 +2,12 @@
  * Redaction style system - pluggable renderers for different redaction styles
  */
 
+import type { PDFFont, PDFPage } from 'pdf-lib';
 import type { Box } from '../pdf/find';
+import type { PdfLibBox } from '../pdf/coordinates';
+
+const DEFAULT_STYLE_KEY = 'redaction-style-default';
+const STYLE_OPTIONS_KEY = 'redaction-style-options';
 
 /**
  * Options for redaction styling
@@ -15,6 +20,24 @@ export interface StyleOptions {
   padding?: number;
 }
 
+/**
+ * Resources shared by every box drawn into one PDF
+ */
+export interface PdfStyleResources {
+  /** Bold standard font embedded in the document */
+  font: PDFFont;
+  /** Canvas pixels per PDF point, for sizes given in canvas pixels (fontSize, padding) */
+  scale: number;
+}
+
+/**
+ * A style and its options, as chosen in the style picker
+ */
+export interface StyleSelection {
+  styleId: string;
+  options?: StyleOptions;
+}
+
 /**
  * Redaction style interface
  */
@@ -47,6 +70,13 @@ export interface RedactionStyle {
    */
   export(ctx: CanvasRenderingContext2D, box: Box, options?: StyleOptions): void;
 
+  /**
+   * Render the redaction into a PDF page as vector content
+   * The box is in pdf-lib coordinates (bottom-left origin, points). Must
+   * look like export() and be just as opaque.
+   */
+  exportPdf(page: PDFPage, box: PdfLibBox, resources: PdfStyleResources, options?: StyleOptions): void;
+
   /**
    * Get a preview thumbnail for this style (50x30px)
    */
@@ -131,6 +161,26 @@ export class StyleRegistry {
     return this.getAll().filter(style => style.securityScore >= 90);
   }
 
+  /**
+   * Get the style for a box: its own, else the selection, else the default
+   */
+  static resolve(box: BoxWithStyle, selection?: StyleSelection): { style: RedactionStyle; options?: StyleOptions } {
+    const style = (box.styleId && this.get(box.styleId))
+      || (selection && this.get(selection.styleId))
+      || this.getDefault();
+    return { style, options: box.styleOptions ?? selection?.options };
+  }
+
+  /**
+   * Whether vector exports must rasterize the region a style covers
+   * Anything short of a perfect score leaves the covered region as pixels
+   * with the content underneath removed, rather than trusting vector
+   * drawing on top of the original content.
+   */
+  static requiresRasterization(style: RedactionStyle): boolean {
+    return style.securityScore < 100;
+  }
+
   /**
    * Get security warning for a style
    */
@@ -154,7 +204,7 @@ export class StyleRegistry {
    */
   static loadDefaultFromStorage(): string {
     try {
-      return localStorage.getItem('redaction-style-default') || this.defaultStyleId;
+      return localStorage.getItem(DEFAULT_STYLE_KEY) || this.defaultStyleId;
     } catch (error) {
       return this.defaultStyleId;
     }
@@ -165,7 +215,7 @@ export class StyleRegistry {
    */
   static saveDefaultToStorage(styleId: string): void {
     try {
-      localStorage.setItem('redaction-style-default', styleId);
+      localStorage.setItem(DEFAULT_STYLE_KEY, styleId);
       if (this.styles.has(styleId)) {
         this.defaultStyleId = styleId;
       }
@@ -173,6 +223,36 @@ export class StyleRegistry {
       console.warn('Failed to save default style:', error);
     }
   }
+
+  /**
+   * Load the options of the default style from localStorage
+   */
+  static loadOptionsFromStorage(): StyleOptions {
+    try {
+      const stored = localStorage.getItem(STYLE_OPTIONS_KEY);
+      return stored ? JSON.parse(stored) as StyleOptions : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * Save the options of the default style to localStorage
+   */
+  static saveOptionsToStorage(options: StyleOptions): void {
+    try {
+      localStorage.setItem(STYLE_OPTIONS_KEY, JSON.stringify(options));
+    } catch (error) {
+      console.warn('Failed to save style options:', error);
+    }
+  }
+
+  /**
+   * Load the style picker's selection from localStorage
+   */
+  static loadSelectionFromStorage(): StyleSelection {
+    return { styleId: this.loadDefaultFromStorage(), options: this.loadOptionsFromStorage() };
+  }
 }
 
 /**
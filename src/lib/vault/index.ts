@@ -0,0 +1,17 @@
+/**
+ * Redaction Vault Module
+ *
+ * Encrypted re-identification key for reversible redaction.
+ */
+
+export {
+  MIN_PASSPHRASE_LENGTH,
+  createVault,
+  serializeVault,
+  parseVault,
+  openVault,
+  vaultMatchesFile,
+  restoreFromVault
+} from './vault';
+export { VAULT_FORMAT, VAULT_VERSION } from './types';
+export type { RedactionVault, VaultContents, RestoreResult } from './types';
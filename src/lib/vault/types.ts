@@ -0,0 +1,41 @@
+/**
+ * Redaction Vault Types
+ */
+
+import type { EncryptedFileData } from '../crypto/encryption';
+import type { RedactionRecord } from '../formats/base/types';
+
+export const VAULT_FORMAT = 'aegis-redaction-vault';
+export const VAULT_VERSION = 1;
+
+/**
+ * Sidecar file saved next to a redacted export
+ * Only `data` holds redacted text, and it is encrypted with the passphrase.
+ */
+export interface RedactionVault {
+  format: typeof VAULT_FORMAT;
+  version: number;
+  /** Name of the redacted file the vault belongs to */
+  fileName: string;
+  /** SHA-256 (hex) of the redacted file, to catch a mismatched pair */
+  fileHash: string;
+  /** ISO timestamp */
+  createdAt: string;
+  encryption: EncryptedFileData['metadata'];
+  /** Base64 AES-GCM ciphertext of the VaultContents JSON */
+  data: string;
+}
+
+/**
+ * Decrypted vault contents
+ */
+export interface VaultContents {
+  records: RedactionRecord[];
+}
+
+export interface RestoreResult {
+  /** The file with the selected redactions restored */
+  blob: Blob;
+  /** How many redactions were restored */
+  restored: number;
+}
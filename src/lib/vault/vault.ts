@@ -0,0 +1,144 @@
+/**
+ * Redaction Vault
+ *
+ * Encrypted sidecar that maps each redaction ID to the text it removed
+ * and where, so selected redactions can be reversed later by whoever
+ * holds the passphrase. The redacted file itself is unchanged and stays
+ * safe on its own.
+ */
+
+import { encryptFile, decryptFile } from '../crypto/encryption';
+import { FormatRegistry } from '../formats/base/FormatRegistry';
+import type { RedactionRecord } from '../formats/base/types';
+import { VAULT_FORMAT, VAULT_VERSION } from './types';
+import type { RedactionVault, RestoreResult, VaultContents } from './types';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked, since spreading a large array overflows the call stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Read a blob with FileReader (compatible with test environments)
+ */
+function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(await readBlobAsArrayBuffer(blob)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encrypt the redaction records of an export into a vault
+ *
+ * @param records - Records reported while redacting (RedactOptions.onRedacted)
+ * @param redactedFile - The exported file, which the vault is bound to
+ * @param fileName - Name the redacted file is saved under
+ * @param passphrase - At least MIN_PASSPHRASE_LENGTH characters
+ */
+export async function createVault(
+  records: RedactionRecord[],
+  redactedFile: Blob,
+  fileName: string,
+  passphrase: string
+): Promise<RedactionVault> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Vault passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const contents: VaultContents = { records };
+  const plaintext = new TextEncoder().encode(JSON.stringify(contents));
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const encrypted = await encryptFile(plaintext.buffer, passphrase, salt);
+
+  return {
+    format: VAULT_FORMAT,
+    version: VAULT_VERSION,
+    fileName,
+    fileHash: await hashBlob(redactedFile),
+    createdAt: new Date().toISOString(),
+    encryption: encrypted.metadata,
+    data: toBase64(new Uint8Array(encrypted.encryptedData))
+  };
+}
+
+/**
+ * Serialize a vault for download
+ */
+export function serializeVault(vault: RedactionVault): Blob {
+  return new Blob([JSON.stringify(vault, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Parse a vault file
+ * @throws Error if the text isn't a vault this version can read
+ */
+export function parseVault(text: string): RedactionVault {
+  let vault: Partial<RedactionVault>;
+  try {
+    vault = JSON.parse(text);
+  } catch {
+    throw new Error('Not a redaction vault: invalid JSON');
+  }
+
+  if (vault?.format !== VAULT_FORMAT || typeof vault.data !== 'string' || !vault.encryption) {
+    throw new Error('Not a redaction vault');
+  }
+  if (vault.version !== VAULT_VERSION) {
+    throw new Error(`Unsupported vault version: ${vault.version}`);
+  }
+
+  return vault as RedactionVault;
+}
+
+/**
+ * Decrypt a vault's records
+ * @throws Error if the passphrase is wrong or the vault was tampered with
+ */
+export async function openVault(vault: RedactionVault, passphrase: string): Promise<RedactionRecord[]> {
+  const decrypted = await decryptFile(fromBase64(vault.data), passphrase, vault.encryption);
+  const contents = JSON.parse(new TextDecoder().decode(decrypted)) as VaultContents;
+  return contents.records;
+}
+
+/**
+ * Check that a file is the redacted export the vault was made for
+ */
+export async function vaultMatchesFile(vault: RedactionVault, file: Blob): Promise<boolean> {
+  return (await hashBlob(file)) === vault.fileHash;
+}
+
+/**
+ * Restore selected redactions in a redacted file
+ *
+ * @param file - The redacted export
+ * @param records - Decrypted records to restore (a subset of the vault's)
+ */
+export async function restoreFromVault(file: File, records: RedactionRecord[]): Promise<RestoreResult> {
+  const format = await FormatRegistry.getFormat(file);
+
+  try {
+    const doc = await format.load(file);
+    const restored = await format.unredact(doc, records);
+    return { blob: await format.export(doc), restored };
+  } finally {
+    format.cleanup();
+  }
+}
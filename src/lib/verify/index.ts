@@ -0,0 +1,20 @@
+/**
+ * Leak Verification Module
+ *
+ * Re-opens exported files and checks that redacted strings are gone.
+ */
+
+export {
+  collectRedactedTerms,
+  verifyExtractedText,
+  verifyPdfExport,
+  verifyTextExport,
+  verifyImageExport
+} from './verifier';
+export type {
+  VerificationMethod,
+  RedactedTerm,
+  TermCheckResult,
+  PageVerificationResult,
+  LeakVerificationReport
+} from './types';
@@ -0,0 +1,61 @@
+/**
+ * Leak Verification Types
+ *
+ * Types for post-export checks that prove redacted text is gone.
+ */
+
+/**
+ * How text was recovered from the exported file
+ */
+export type VerificationMethod = 'pdf-text' | 'decoded-text' | 'ocr';
+
+/**
+ * A string that was redacted and must not appear in the export
+ */
+export interface RedactedTerm {
+  text: string;
+  /** Page the term was redacted on (0-indexed), if known */
+  page?: number;
+  type?: string;
+}
+
+/**
+ * Result of checking one term across the whole export
+ */
+export interface TermCheckResult {
+  term: string;
+  type?: string;
+  sourcePage?: number;
+  passed: boolean;
+  /** Terms too short to search reliably are skipped and never fail */
+  skipped: boolean;
+  /** Pages (0-indexed) where the term was still found */
+  foundOnPages: number[];
+}
+
+/**
+ * Result for a single page of the export
+ */
+export interface PageVerificationResult {
+  page: number;
+  passed: boolean;
+  /** Terms still present on this page */
+  leakedTerms: string[];
+  /** Number of characters recovered from this page */
+  extractedLength: number;
+}
+
+/**
+ * Complete leak verification report for an export
+ */
+export interface LeakVerificationReport {
+  passed: boolean;
+  method: VerificationMethod;
+  pages: PageVerificationResult[];
+  terms: TermCheckResult[];
+  checkedTermCount: number;
+  leakCount: number;
+  /** Verification errors; any error makes the report fail */
+  errors: string[];
+  timestamp: number;
+}
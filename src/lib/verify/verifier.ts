@@ -0,0 +1,214 @@
+/**
+ * Leak Verifier
+ *
+ * Re-opens exported bytes, recovers whatever text is still in them
+ * (pdf.js text extraction, decoded text, or OCR) and checks that none of the
+ * redacted strings can still be found.
+ */
+
+import type {
+  LeakVerificationReport,
+  PageVerificationResult,
+  RedactedTerm,
+  TermCheckResult,
+  VerificationMethod
+} from './types';
+
+/** Normalized terms shorter than this match too much unrelated text */
+const MIN_TERM_LENGTH = 3;
+
+/** Placeholder text used for hand-drawn boxes with no known content */
+const MANUAL_PLACEHOLDER = 'manual';
+
+function normalizeForSearch(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\u00A0]+/g, '')
+    .replace(/[\u200B-\u200D\uFEFF]/g, '');
+}
+
+/**
+ * Separators that extraction or OCR may add or drop inside numbers
+ * (e.g. "123-45-6789" extracted as "123 45 6789")
+ */
+function stripSeparators(value: string): string {
+  return value.replace(/[-.()/\\_]/g, '');
+}
+
+/**
+ * Build the de-duplicated list of terms to check from redaction items
+ */
+export function collectRedactedTerms(
+  items: Array<{ text?: string; page?: number; type?: string; enabled?: boolean }>
+): RedactedTerm[] {
+  const seen = new Set<string>();
+  const terms: RedactedTerm[] = [];
+
+  for (const item of items) {
+    if (item.enabled === false) continue;
+
+    const text = item.text?.trim();
+    if (!text || text === MANUAL_PLACEHOLDER) continue;
+
+    const key = `${item.page ?? ''}:${normalizeForSearch(text)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    terms.push({ text, page: item.page, type: item.type });
+  }
+
+  return terms;
+}
+
+/**
+ * Check recovered page texts against redacted terms
+ *
+ * @param pageTexts - Text recovered from each page of the export
+ * @param terms - Redacted terms that must not appear
+ * @param method - How the text was recovered
+ */
+export function verifyExtractedText(
+  pageTexts: string[],
+  terms: RedactedTerm[],
+  method: VerificationMethod
+): LeakVerificationReport {
+  const normalizedPages = pageTexts.map(normalizeForSearch);
+  const strippedPages = normalizedPages.map(stripSeparators);
+
+  const pages: PageVerificationResult[] = pageTexts.map((text, page) => ({
+    page,
+    passed: true,
+    leakedTerms: [],
+    extractedLength: text.length
+  }));
+
+  const results: TermCheckResult[] = terms.map((term) => {
+    const normalized = normalizeForSearch(term.text);
+    const result: TermCheckResult = {
+      term: term.text,
+      type: term.type,
+      sourcePage: term.page,
+      passed: true,
+      skipped: normalized.length < MIN_TERM_LENGTH,
+      foundOnPages: []
+    };
+    if (result.skipped) return result;
+
+    const hasDigits = /\d/.test(normalized);
+    const stripped = stripSeparators(normalized);
+
+    normalizedPages.forEach((pageText, page) => {
+      const found = pageText.includes(normalized)
+        || (hasDigits && stripped.length >= MIN_TERM_LENGTH && strippedPages[page].includes(stripped));
+
+      if (found) {
+        result.foundOnPages.push(page);
+        pages[page].passed = false;
+        pages[page].leakedTerms.push(term.text);
+      }
+    });
+
+    result.passed = result.foundOnPages.length === 0;
+    return result;
+  });
+
+  const leakCount = results.filter((result) => !result.passed).length;
+
+  return {
+    passed: leakCount === 0,
+    method,
+    pages,
+    terms: results,
+    checkedTermCount: results.filter((result) => !result.skipped).length,
+    leakCount,
+    errors: [],
+    timestamp: Date.now()
+  };
+}
+
+function failedReport(method: VerificationMethod, terms: RedactedTerm[], error: unknown): LeakVerificationReport {
+  const report = verifyExtractedText([], terms, method);
+  report.passed = false;
+  report.errors.push(error instanceof Error ? error.message : String(error));
+  return report;
+}
+
+/**
+ * Verify an exported PDF using pdf.js text extraction
+ */
+export async function verifyPdfExport(
+  pdfBytes: Uint8Array,
+  terms: RedactedTerm[]
+): Promise<LeakVerificationReport> {
+  try {
+    const { loadPdf, getPageCount } = await import('../pdf/load');
+    const { extractPageText } = await import('../pdf/find');
+
+    // pdf.js may detach the buffer it is given, so hand it a copy
+    const doc = await loadPdf(pdfBytes.slice());
+    const pageTexts: string[] = [];
+
+    for (let i = 0; i < getPageCount(doc); i++) {
+      const page = await doc.getPage(i + 1);
+      pageTexts.push(await extractPageText(page));
+    }
+
+    await doc.destroy?.();
+    return verifyExtractedText(pageTexts, terms, 'pdf-text');
+  } catch (error) {
+    console.error('PDF leak verification failed:', error);
+    return failedReport('pdf-text', terms, error);
+  }
+}
+
+/**
+ * Verify an exported text-based document (TXT, CSV, DOCX, ...) by decoding it
+ *
+ * @param decode - Recovers the text of exports that are not plain text
+ *                 (e.g. zipped Office packages); defaults to blob.text()
+ */
+export async function verifyTextExport(
+  blob: Blob,
+  terms: RedactedTerm[],
+  decode?: (blob: Blob) => Promise<string>
+): Promise<LeakVerificationReport> {
+  try {
+    const text = decode ? await decode(blob) : await blob.text();
+    return verifyExtractedText([text], terms, 'decoded-text');
+  } catch (error) {
+    console.error('Text leak verification failed:', error);
+    return failedReport('decoded-text', terms, error);
+  }
+}
+
+/**
+ * Verify an exported image by running OCR on it
+ *
+ * @param ocr - OCR implementation (defaults to Tesseract via ocrImageCanvas)
+ */
+export async function verifyImageExport(
+  blob: Blob,
+  terms: RedactedTerm[],
+  ocr?: (canvas: HTMLCanvasElement) => Promise<string>
+): Promise<LeakVerificationReport> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const recognize = ocr ?? (async (target: HTMLCanvasElement) => {
+      const { ocrImageCanvas } = await import('../images/ocr');
+      return (await ocrImageCanvas(target)).text;
+    });
+
+    const text = await recognize(canvas);
+    return verifyExtractedText([text], terms, 'ocr');
+  } catch (error) {
+    console.error('Image leak verification failed:', error);
+    return failedReport('ocr', terms, error);
+  }
+}
@@ -7,7 +7,7 @@ import { DropZone } from './components/DropZone';
 import { Toolbar, type ToolbarOptions } from './components/Toolbar';
 import { FileList, type FileItem } from './components/FileList';
 import { CanvasStage } from './components/CanvasStage';
-import { RedactionList, type RedactionItem } from './components/RedactionList';
+import { RedactionList, toRedactionBox, type RedactionItem } from './components/RedactionList';
 import { Toast } from './components/Toast';
 import { SuccessAnimation } from './components/SuccessAnimation';
 import { ProgressBar } from './components/ProgressBar';
@@ -16,6 +16,11 @@ import { Settings } from './components/Settings';
 import { MLDownloadPrompt } from './components/MLDownloadPrompt';
 import { TextViewer } from './components/TextViewer';
 import { SanitizeOptionsModal } from './components/SanitizeOptions';
+import { LeakReportModal } from './components/LeakReportModal';
+import { MentionProposalModal } from './components/MentionProposalModal';
+import { VaultPassphraseModal } from './components/VaultPassphraseModal';
+import { UnredactModal } from './components/UnredactModal';
+import { StylePicker } from './components/StylePicker';
 import { themeManager } from '../lib/theme/ThemeManager';
 
 import type { AuthSession } from '../lib/auth/session';
@@ -24,25 +29,67 @@ import type { AuthModal } from './components/auth/AuthModal';
 import type { UserMenu } from './components/auth/UserMenu';
 
 import { loadPdf, renderPageToCanvas, getPageCount } from '../lib/pdf/load';
-import { findTextBoxes, extractPageText } from '../lib/pdf/find';
+import { findTextBoxes, extractPageText, extractTextInBoxes } from '../lib/pdf/find';
 import { expandBoxes } from '../lib/pdf/redact';
-import { exportPdfFromCanvases } from '../lib/pdf/export';
+import {
+  exportPdfFromCanvases,
+  exportPdfWithTrueRedaction,
+  type ExemptionExportOptions,
+  type PdfExportMode
+} from '../lib/pdf/export';
 import { ocrCanvas, shouldSuggestOCR } from '../lib/pdf/ocr';
 import { sanitizePDF, type SanitizeOptions } from '../lib/pdf/sanitize';
 
 import { loadImage } from '../lib/images/exif';
 import { exportRedactedImage } from '../lib/images/redact';
-import { ocrImageCanvas } from '../lib/images/ocr';
+import { ocrImageCanvas, type OCRResult } from '../lib/images/ocr';
 
 import { detectAllPIIWithMetadata, type DetectionOptions } from '../lib/detect/patterns';
+import { detectionService, isDetectionCancelled } from '../lib/detect/service';
+import type { SuppressedDetection } from '../lib/detect/custom';
+import { MentionFinder } from '../lib/detect/coreference';
+import { HistoryManager, ToggleMultipleDetectionsCommand } from '../lib/history';
 import type { DetectionResult } from '../lib/detect/merger';
 // Lazy-loaded: ML detection module (~280KB)
 // import { loadMLModel, isMLAvailable } from '../lib/detect/ml';
 import { saveBlob } from '../lib/fs/io';
+import {
+  collectRedactedTerms,
+  verifyPdfExport,
+  verifyTextExport,
+  verifyImageExport,
+  type LeakVerificationReport,
+  type RedactedTerm
+} from '../lib/verify';
 import { mapPIIToOCRBoxes, expandBoxes as expandOCRBoxes } from '../lib/ocr/mapper';
+import { findMRZDetections } from '../lib/ocr/mrz';
 
 import { FormatRegistry } from '../lib/formats/base/FormatRegistry';
-import type { Document, BoundingBox as FormatBoundingBox, DocumentFormat } from '../lib/formats/base/types';
+import type { Document, BoundingBox as FormatBoundingBox, DocumentFormat, RedactOptions, RedactionRecord } from '../lib/formats/base/types';
+import { Pseudonymizer, getProjectSecret } from '../lib/pseudonymize';
+import { createVault, serializeVault } from '../lib/vault';
+import {
+  auditLog,
+  createCertificatePdf,
+  getDetectorVersions,
+  isCertificateEnabled,
+  isCloudUploadEnabled,
+  toAuditBoxes,
+  uploadAuditRecord,
+  type AuditExport,
+  type AuditExportMode,
+  type AuditRecord,
+  type AuditSanitization
+} from '../lib/audit';
+import {
+  drawExemptionLabel,
+  getActiveCodeSet,
+  getLabelPlacement,
+  isIndexPageEnabled,
+  resolvePageExemptions,
+  summarizeExemptions
+} from '../lib/exemptions';
+import { StyleRegistry } from '../lib/redact';
 
 import { TaskQueue, TaskStatus } from '../lib/queue';
 import type { ProcessingTask } from '../lib/queue';
@@ -60,10 +107,12 @@ export class App {
   private fileList: FileList;
   private canvasStage: CanvasStage;
   private redactionList: RedactionList;
+  private stylePicker: StylePicker;
   private toast: Toast;
   private pdfViewer: PdfViewer;
   private textViewer: TextViewer;
   private lastExportedPdfBytes: Uint8Array | null = null;
+  private lastExportAudit: AuditRecord | null = null;
   private authSession: AuthSession | null = null;
   private cloudSync: CloudSyncService | null = null;
   private userMenu: UserMenu | null = null;
@@ -81,14 +130,21 @@ export class App {
   private totalPages: number = 0;
   private processedPages: Set<number> = new Set();
   private documentDetections: RedactionItem[] = [];
+  private suppressedByPage: Map<number, SuppressedDetection[]> = new Map();
   private autoDetectionsByPage: Map<number, RedactionItem[]> = new Map();
   private manualBoxesByPage: Map<number, Box[]> = new Map();
+  private ocrResultsByPage: Map<number, OCRResult> = new Map();
+  private historyManager = new HistoryManager();
+  // Aborted when the document changes or detection restarts
+  private detectionAbort = new AbortController();
   private useML: boolean = false; // ML detection toggle
   private mlLoadPromise: Promise<boolean> | null = null;
 
   // Batch processing
   private taskQueue: TaskQueue;
   private batchProgressPanel: BatchProgressPanel | null = null;
+  // Shared by every file in a batch so their surrogates line up
+  private batchPseudonymizer: Pseudonymizer | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -117,7 +173,8 @@ export class App {
       () => this.openSettings(),
       () => void this.handleShowAuth(),
       () => void this.handleShowDashboard(),
-      () => this.handleBatchExport()
+      () => this.handleBatchExport(),
+      () => void this.handleUnredact()
     );
 
     // Default to showing the login CTA until auth session is resolved
@@ -145,10 +202,20 @@ export class App {
       },
       (item) => {
         void this.navigateToDetection(item);
+      },
+      (item) => {
+        void this.proposeMentions(item.detectedText ?? item.text, item.type, item.source);
+      },
+      (item) => {
+        this.redactColumn(item);
       }
     );
     this.redactionList.setItems([]);
     this.redactionList.setActivePage(0);
+    this.stylePicker = new StylePicker((styleId, options) => {
+      StyleRegistry.saveDefaultToStorage(styleId);
+      StyleRegistry.saveOptionsToStorage(options);
+    });
     this.pdfViewer = new PdfViewer(
       () => this.handlePdfDownload(),
       () => this.handlePdfViewerBack(),
@@ -156,6 +223,18 @@ export class App {
     );
     this.textViewer = new TextViewer();
 
+    // Run detection in a worker pool so long documents don't freeze the UI
+    if (typeof Worker !== 'undefined') {
+      detectionService.setWorkerFactory(() => new Worker(
+        new URL('../lib/detect/service/detection.worker.ts', import.meta.url),
+        { type: 'module' }
+      ));
+    }
+
+    // Undo/redo for detection changes
+    this.historyManager.addListener(() => this.handleHistoryChange());
+    document.addEventListener('keydown', (e) => this.handleHistoryShortcut(e));
+
     this.render();
   }
 
@@ -180,6 +259,7 @@ export class App {
     const sidebar = document.createElement('div');
     sidebar.className = 'app-sidebar';
     sidebar.appendChild(this.toolbar.getElement());
+    sidebar.appendChild(this.stylePicker.getElement());
     sidebar.appendChild(this.fileList.getElement());
     sidebar.appendChild(this.redactionList.getElement());
 
@@ -297,14 +377,14 @@ export class App {
     }
 
     // Dynamic import: Load ML module only when needed (~280KB)
-    const { loadMLModel, isMLAvailable } = await import('../lib/detect/ml');
+    const { loadMLModel, isMLAvailable, mlDetector } = await import('../lib/detect/ml');
 
     if (isMLAvailable()) {
       return true;
     }
 
     if (!this.mlLoadPromise) {
-      this.toast.info('Downloading ML model (~110MB). This happens once per browser and may take a minute.');
+      this.toast.info(`Downloading ML model (~${mlDetector.getModel().sizeMB}MB). This happens once per browser and may take a minute.`);
 
       const loadPromise = loadMLModel()
         .then(() => {
@@ -348,7 +428,7 @@ export class App {
       } else if (file.type.startsWith('image/')) {
         fileItems.push({ file });
       } else if (FormatRegistry.isSupported(file)) {
-        // Text and structured formats (TXT, MD, CSV, TSV)
+        // Text, structured and Office formats (TXT, MD, LOG, CSV, TSV, JSON, JSONL, DOCX, XLSX, PPTX, HTML, EML, MBOX)
         fileItems.push({ file });
       }
     }
@@ -401,6 +481,9 @@ export class App {
     } else if (FormatRegistry.isSupported(item.file)) {
       await this.loadTextDocument(item.file);
     }
+
+    const isDocument = item.file.type !== 'application/pdf' && !item.file.type.startsWith('image/');
+    this.toolbar.setReplacementAvailable(isDocument && !!this.currentFormat?.capabilities.supportsReplacement);
   }
 
   private async loadPdf(file: File) {
@@ -445,6 +528,7 @@ export class App {
       2
     );
 
+    this.canvasStage.setExemptionLabelsVisible(true);
     this.canvasStage.setImage(canvas);
 
     // Store for detection
@@ -498,6 +582,7 @@ export class App {
       const ctx = canvas.getContext('2d')!;
       ctx.drawImage(img, 0, 0);
 
+      this.canvasStage.setExemptionLabelsVisible(false);
       this.canvasStage.setImage(canvas);
 
       // Images ALWAYS require OCR (no embedded text like PDFs)
@@ -545,6 +630,11 @@ export class App {
       // Render document in text viewer
       await this.textViewer.renderDocument(doc, format);
 
+      // Warn early about parts detection won't see; export asks again
+      if (format.getExportWarnings(doc).length > 0) {
+        this.toast.warning('Parts of this file could not be fully checked for personal data. Review it before exporting.');
+      }
+
       // Extract text for PII detection
       const options = this.toolbar.getOptions();
       const mlReady = this.useML ? await this.ensureMLModelReady() : false;
@@ -566,17 +656,26 @@ export class App {
     this.pageBoxes.clear();
     this.documentDetections = [];
     this.autoDetectionsByPage.clear();
+    this.cancelPendingDetections();
     this.manualBoxesByPage.clear();
+    this.ocrResultsByPage.clear();
+    this.historyManager.clear();
     this.processedPages.clear();
+    this.suppressedByPage.clear();
+    this.redactionList.setSuppressed([]);
     this.redactionList.setItems([]);
     this.redactionList.setActivePage(0);
     this.canvasStage.setBoxes([]);
   }
 
   private clearAutoDetectionsPreservingManual() {
+    this.cancelPendingDetections();
     this.documentDetections = [];
+    this.historyManager.clear();
     this.autoDetectionsByPage.clear();
     this.processedPages.clear();
+    this.suppressedByPage.clear();
+    this.redactionList.setSuppressed([]);
     this.redactionList.setItems([]);
     this.redactionList.setActivePage(this.currentPageIndex);
     this.pageBoxes.clear();
@@ -589,6 +688,30 @@ export class App {
     this.refreshCanvasForCurrentPage();
   }
 
+  /**
+   * Cancel detection still queued or running for the previous state
+   */
+  private cancelPendingDetections() {
+    this.detectionAbort.abort();
+    this.detectionAbort = new AbortController();
+  }
+
+  /**
+   * Run detection, or return null if it was cancelled before finishing
+   */
+  private async detectForPage(text: string, options: DetectionOptions): Promise<DetectionResult[] | null> {
+    const signal = this.detectionAbort.signal;
+    try {
+      const results = await detectAllPIIWithMetadata(text, { ...options, signal });
+      return signal.aborted ? null : results;
+    } catch (error) {
+      if (isDetectionCancelled(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   private async detectCurrentPageDetections() {
     if (!this.pdfDoc) return;
     const stage = this.canvasStage as any;
@@ -654,12 +777,26 @@ export class App {
       findCards: options.findCards,
       findDates: options.findDates,
       findAddresses: options.findAddresses,
+      findSecrets: options.findSecrets,
+      findIPAddresses: options.findIPAddresses,
+      findMACAddresses: options.findMACAddresses,
+      findDeviceIDs: options.findDeviceIDs,
+      findHostnames: options.findHostnames,
+      findSensitiveURLs: options.findSensitiveURLs,
+      findMedicalIDs: options.findMedicalIDs,
+      findMedicalCodes: options.findMedicalCodes,
+      findDriversLicenses: options.findDriversLicenses,
       useML: this.useML && mlReady,
       mlMinConfidence: this.settings.getMLConfidenceThreshold(),
-      useCustomPatterns: true
+      useCustomPatterns: true,
+      onSuppressed: (suppressed) => this.recordSuppressed(pageIndex, suppressed)
     };
 
-    const detectionResults = await detectAllPIIWithMetadata(combinedText, detectionOptions);
+    const detectionResults = await this.detectForPage(combinedText, detectionOptions);
+    if (!detectionResults) {
+      return;
+    }
+
     const normalizedDetections: DetectionWithNormalization[] = detectionResults.map((result) => ({
       ...result,
       normalizedText: normalizeDetectionText(result.text),
@@ -743,6 +880,9 @@ export class App {
         return;
       }
 
+      // Keep OCR words so other mentions of a redacted name can be located later
+      this.ocrResultsByPage.set(pageIndex, ocrResult);
+
       // Wait for ML model to be ready (may already be done if it loaded during OCR)
       const mlReady = await mlReadyPromise;
 
@@ -754,13 +894,31 @@ export class App {
         findCards: options.findCards,
         findDates: options.findDates,
         findAddresses: options.findAddresses,
+        findSecrets: options.findSecrets,
+        findIPAddresses: options.findIPAddresses,
+        findMACAddresses: options.findMACAddresses,
+        findDeviceIDs: options.findDeviceIDs,
+        findHostnames: options.findHostnames,
+        findSensitiveURLs: options.findSensitiveURLs,
+        findMedicalIDs: options.findMedicalIDs,
+        findMedicalCodes: options.findMedicalCodes,
+        findDriversLicenses: options.findDriversLicenses,
         useML: this.useML && mlReady,
         mlMinConfidence: this.settings.getMLConfidenceThreshold(),
-        useCustomPatterns: true
+        useCustomPatterns: true,
+        onSuppressed: (suppressed) => this.recordSuppressed(pageIndex, suppressed)
       };
 
       // Detect PII in OCR text
-      const detectionResults = await detectAllPIIWithMetadata(ocrResult.text, detectionOptions);
+      const piiResults = await this.detectForPage(ocrResult.text, detectionOptions);
+      if (!piiResults) {
+        return;
+      }
+
+      // MRZ blocks are kept out of the merge so the contained name and
+      // number fields are not deduplicated away
+      const mrzResults = options.findMRZ ? findMRZDetections(ocrResult.text) : [];
+      const detectionResults = [...mrzResults, ...piiResults];
 
       if (detectionResults.length === 0) {
         this.toast.info('No sensitive information detected');
@@ -849,13 +1007,34 @@ export class App {
         findCards: options.findCards,
         findDates: options.findDates,
         findAddresses: options.findAddresses,
+        findSecrets: options.findSecrets,
+        findIPAddresses: options.findIPAddresses,
+        findMACAddresses: options.findMACAddresses,
+        findDeviceIDs: options.findDeviceIDs,
+        findHostnames: options.findHostnames,
+        findSensitiveURLs: options.findSensitiveURLs,
+        findMedicalIDs: options.findMedicalIDs,
+        findMedicalCodes: options.findMedicalCodes,
+        findDriversLicenses: options.findDriversLicenses,
         useML: this.useML && mlReady,
         mlMinConfidence: this.settings.getMLConfidenceThreshold(),
-        useCustomPatterns: true
+        useCustomPatterns: true,
+        onSuppressed: (suppressed) => this.recordSuppressed(pageIndex, suppressed)
       };
 
       // Detect PII in text
-      const detectionResults = await detectAllPIIWithMetadata(textResult.fullText, detectionOptions);
+      const detectionResults = await this.detectForPage(textResult.fullText, detectionOptions);
+      if (!detectionResults) {
+        return;
+      }
+
+      // Add values the format found from its own structure (log fields)
+      const detectedTexts = new Set(detectionResults.map((d) => d.text));
+      for (const detection of format.getFormatDetections(doc)) {
+        if (!detectedTexts.has(detection.text)) {
+          detectionResults.push({ ...detection, source: 'regex' });
+        }
+      }
 
       if (detectionResults.length === 0) {
         this.toast.info('No sensitive information detected');
@@ -866,7 +1045,8 @@ export class App {
       const searchTerms = detectionResults.map((d) => d.text);
 
       // Find bounding boxes using format-specific logic
-      const boxes = await format.findTextBoxes(doc, searchTerms, pageIndex);
+      // (across every sheet or slide, which are shown as a single page)
+      const boxes = await format.findTextBoxes(doc, searchTerms);
 
       // Normalize detections for matching
       const normalizedDetections: DetectionWithNormalization[] = detectionResults.map((result) => ({
@@ -897,6 +1077,11 @@ export class App {
     }
   }
 
+  private recordSuppressed(pageIndex: number, suppressed: SuppressedDetection[]) {
+    this.suppressedByPage.set(pageIndex, suppressed);
+    this.redactionList.setSuppressed(Array.from(this.suppressedByPage.values()).flat());
+  }
+
   private storeDetectionItems(pageIndex: number, items: RedactionItem[]) {
     if (items.length === 0) {
       this.autoDetectionsByPage.delete(pageIndex);
@@ -925,9 +1110,11 @@ export class App {
         id,
         page: pageIndex,
         enabled: previous ? previous.enabled : true,
+        exemption: previous?.exemption,
         type: detectionMeta?.type ?? box.type,
-        source: (detectionMeta?.source ?? 'regex') as 'regex' | 'ml',
-        confidence: detectionMeta?.confidence ?? box.confidence
+        source: (detectionMeta?.source ?? 'regex') as 'regex' | 'ml' | 'dictionary',
+        confidence: detectionMeta?.confidence ?? box.confidence,
+        detectedText: detectionMeta?.text
       };
     });
   }
@@ -946,25 +1133,17 @@ export class App {
 
   private createDetectionId(pageIndex: number, box: Box): string {
     const normalizedText = normalizeDetectionText(box.text || '');
-    return `det-${pageIndex}-${Math.round(box.x)}-${Math.round(box.y)}-${normalizedText}`;
+    // Workbook sheets and presentation slides share one page and the same coordinates
+    const sheet = box.sheet !== undefined ? `s${box.sheet}-` : '';
+    const slide = box.slide !== undefined ? `p${box.slide}-` : '';
+    return `det-${pageIndex}-${sheet}${slide}${Math.round(box.x)}-${Math.round(box.y)}-${normalizedText}`;
   }
 
   private mergePageBoxes(page: number) {
     const manual = this.manualBoxesByPage.get(page) || [];
     const detectionBoxes = (this.autoDetectionsByPage.get(page) || [])
       .filter((item) => item.enabled)
-      .map((item) => ({
-        x: item.x,
-        y: item.y,
-        w: item.w,
-        h: item.h,
-        text: item.text,
-        page: item.page,
-        type: item.type,
-        source: item.source,
-        confidence: item.confidence,
-        detectionId: item.id
-      }));
+      .map(toRedactionBox);
 
     const combined = [...detectionBoxes, ...manual];
 
@@ -1038,23 +1217,40 @@ export class App {
       progressBar.show(progressMessage);
     }
 
+    const pending: number[] = [];
     for (let i = 0; i < pageCount; i++) {
-      if (i === this.currentPageIndex || this.processedPages.has(i)) {
-        continue;
+      if (i !== this.currentPageIndex && !this.processedPages.has(i)) {
+        pending.push(i);
       }
+    }
 
-      if (showProgress) {
-        const progress = ((i + 1) / pageCount) * 100;
-        progressBar.update(progress, i + 1, pageCount);
+    // Analyze pages in parallel, one per detection worker
+    const pdfDoc = this.pdfDoc;
+    const signal = this.detectionAbort.signal;
+    const lanes = detectionService.usesWorkers() ? detectionService.getPoolSize() : 1;
+    let completed = pageCount - pending.length;
+    let next = 0;
+
+    const runLane = async () => {
+      while (next < pending.length && !signal.aborted) {
+        const pageIndex = pending[next++];
+        const { page, canvas, viewport } = await renderPageToCanvas(pdfDoc, pageIndex, 2);
+        // Suppress toasts during batch processing to avoid spam
+        await this.analyzePageDetections(pageIndex, page, viewport, options, mlReady, canvas, true);
+
+        completed++;
+        if (showProgress) {
+          progressBar.update((completed / pageCount) * 100, completed, pageCount);
+        }
       }
+    };
 
-      const { page, canvas, viewport } = await renderPageToCanvas(this.pdfDoc, i, 2);
-      // Suppress toasts during batch processing to avoid spam
-      await this.analyzePageDetections(i, page, viewport, options, mlReady, canvas, true);
-    }
-
-    if (showProgress) {
-      progressBar.hide();
+    try {
+      await Promise.all(Array.from({ length: Math.min(lanes, pending.length) }, runLane));
+    } finally {
+      if (showProgress) {
+        progressBar.hide();
+      }
     }
   }
 
@@ -1086,9 +1282,244 @@ export class App {
         page: this.currentPageIndex
       }));
 
+    const previousCount = this.manualBoxesByPage.get(this.currentPageIndex)?.length ?? 0;
     this.manualBoxesByPage.set(this.currentPageIndex, manual);
     this.mergePageBoxes(this.currentPageIndex);
     this.processedPages.add(this.currentPageIndex);
+
+    // A newly drawn box: offer to redact the other mentions of what it covers
+    if (manual.length > previousCount) {
+      void this.proposeMentionsForBox(this.currentPageIndex, manual[manual.length - 1]);
+    }
+  }
+
+  /**
+   * Recover the text under a manual box and propose its other mentions
+   */
+  private async proposeMentionsForBox(page: number, box: Box) {
+    let text = '';
+
+    try {
+      const ocr = this.ocrResultsByPage.get(page);
+      if (ocr) {
+        text = ocr.words
+          .filter((word) => {
+            const centerX = word.bbox.x + word.bbox.width / 2;
+            const centerY = word.bbox.y + word.bbox.height / 2;
+            return centerX >= box.x && centerX <= box.x + box.w && centerY >= box.y && centerY <= box.y + box.h;
+          })
+          .map((word) => word.text)
+          .join(' ');
+      } else if (this.pdfDoc) {
+        const pdfPage = await this.pdfDoc.getPage(page + 1);
+        const viewport = pdfPage.getViewport({ scale: 2 });
+        [text] = await extractTextInBoxes(pdfPage, viewport, [box]);
+      }
+    } catch (error) {
+      console.warn('Could not recover text under manual box:', error);
+      return;
+    }
+
+    // Too little text to identify an entity
+    if (text.replace(/\W/g, '').length < 3) {
+      return;
+    }
+
+    await this.proposeMentions(text, undefined, 'manual');
+  }
+
+  /**
+   * Find every other mention of an entity across the document and offer
+   * to redact them together as one undoable step
+   */
+  private async proposeMentions(seed: string, type?: string, source?: RedactionItem['source']) {
+    const finder = new MentionFinder(seed);
+    const boxesByPage = await this.findMentionBoxes(finder);
+    if (!boxesByPage) {
+      this.toast.info('Finding other mentions is available for PDFs and images');
+      return;
+    }
+
+    const group: RedactionItem[] = [];
+    const added: RedactionItem[] = [];
+
+    boxesByPage.forEach((boxes, page) => {
+      const manual = this.manualBoxesByPage.get(page) || [];
+
+      boxes.forEach((box) => {
+        // Already covered by a box the reviewer drew
+        const covered = manual.some((m) =>
+          box.x < m.x + m.w && box.x + box.w > m.x && box.y < m.y + m.h && box.y + box.h > m.y
+        );
+        if (covered) return;
+
+        const id = this.createDetectionId(page, box);
+        const existing = this.documentDetections.find((item) => item.id === id) ??
+          group.find((item) => item.id === id);
+        if (existing) {
+          if (!existing.enabled && !group.includes(existing)) {
+            group.push(existing);
+          }
+          return;
+        }
+
+        const item: RedactionItem = {
+          ...box,
+          id,
+          page,
+          enabled: false,
+          type: type ?? box.type,
+          source: source ?? 'manual',
+          confidence: 1.0,
+          detectedText: box.detectedText
+        };
+        group.push(item);
+        added.push(item);
+      });
+    });
+
+    if (group.length === 0) {
+      this.toast.info(`No other mentions of "${seed}" found`);
+      return;
+    }
+
+    // Show the proposals in the list while the reviewer decides
+    this.documentDetections = [...this.documentDetections, ...added];
+    this.autoDetectionsByPage = this.groupDetectionsByPage(this.documentDetections);
+    this.redactionList.setItems(this.documentDetections);
+
+    const accepted = await MentionProposalModal.confirm(seed, group);
+    if (accepted) {
+      this.historyManager.execute(new ToggleMultipleDetectionsCommand(group, true));
+      this.toast.success(`Redacted ${group.length} other mention(s) of "${seed}"`);
+      ariaAnnouncer.announce(`Redacted ${group.length} other mentions`, { priority: 'polite' });
+    } else {
+      this.documentDetections = this.documentDetections.filter((item) => !added.includes(item));
+      this.autoDetectionsByPage = this.groupDetectionsByPage(this.documentDetections);
+      this.redactionList.setItems(this.documentDetections);
+    }
+  }
+
+  /**
+   * Redact every cell in a detection's spreadsheet column as one
+   * undoable step
+   */
+  private redactColumn(item: RedactionItem) {
+    if (!this.currentDocument || !this.currentFormat || item.column === undefined) {
+      return;
+    }
+
+    const boxes = this.currentFormat.getColumnBoxes(this.currentDocument, item.column, item.sheet);
+    const group: RedactionItem[] = [];
+    const added: RedactionItem[] = [];
+
+    boxes.forEach((box: Box) => {
+      const id = this.createDetectionId(item.page, box);
+      const existing = this.documentDetections.find((detection) => detection.id === id);
+      if (existing) {
+        if (!existing.enabled) group.push(existing);
+        return;
+      }
+
+      const cell: RedactionItem = {
+        ...box,
+        id,
+        page: item.page,
+        enabled: false,
+        type: item.type,
+        source: 'manual',
+        confidence: 1.0
+      };
+      group.push(cell);
+      added.push(cell);
+    });
+
+    if (group.length === 0) {
+      this.toast.info('Every cell in this column is already redacted');
+      return;
+    }
+
+    this.documentDetections = [...this.documentDetections, ...added];
+    this.autoDetectionsByPage = this.groupDetectionsByPage(this.documentDetections);
+    this.historyManager.execute(new ToggleMultipleDetectionsCommand(group, true));
+    this.toast.success(`Redacted ${group.length} more cell(s) in this column`);
+    ariaAnnouncer.announce(`Redacted ${group.length} cells in the column`, { priority: 'polite' });
+  }
+
+  /**
+   * Locate mentions on every page, from OCR words where a page was
+   * scanned and from the PDF text layer otherwise
+   * @returns Boxes per page, or null when the document type is not supported
+   */
+  private async findMentionBoxes(finder: MentionFinder): Promise<Map<number, Array<Box & { detectedText?: string }>> | null> {
+    const boxesByPage = new Map<number, Array<Box & { detectedText?: string }>>();
+
+    const fromOCR = (page: number, ocr: OCRResult) => {
+      const detections: DetectionResult[] = finder.find(ocr.text).map((match) => ({
+        text: match.text,
+        type: 'mention',
+        confidence: 1.0,
+        source: 'regex',
+        positions: { start: match.start, end: match.end }
+      }));
+      const boxes = expandOCRBoxes(mapPIIToOCRBoxes(detections, ocr.words, ocr.text, page, 1.0), 4);
+      boxesByPage.set(page, boxes.map((box) => ({ ...box, detectedText: box.text })));
+    };
+
+    if (this.pdfDoc) {
+      const pageCount = this.totalPages || getPageCount(this.pdfDoc);
+      for (let i = 0; i < pageCount; i++) {
+        const ocr = this.ocrResultsByPage.get(i);
+        if (ocr) {
+          fromOCR(i, ocr);
+          continue;
+        }
+
+        const pdfPage = await this.pdfDoc.getPage(i + 1);
+        const viewport = pdfPage.getViewport({ scale: 2 });
+        const boxes = await findTextBoxes(pdfPage, viewport, (str) => finder.test(str));
+        boxesByPage.set(i, expandBoxes(boxes, 4).map((box) => ({
+          ...box,
+          page: i,
+          detectedText: finder.find(box.text).map((match) => match.text).join(', ')
+        })));
+      }
+      return boxesByPage;
+    }
+
+    const ocr = this.ocrResultsByPage.get(0);
+    if (this.currentImage && ocr) {
+      fromOCR(0, ocr);
+      return boxesByPage;
+    }
+
+    return null;
+  }
+
+  private handleHistoryChange() {
+    this.redactionList.setItems(this.documentDetections);
+    this.refreshCombinedBoxesForAllPages();
+  }
+
+  private handleHistoryShortcut(e: KeyboardEvent) {
+    if (!(e.ctrlKey || e.metaKey) || this.appView?.style.display !== 'flex') {
+      return;
+    }
+
+    // Leave text fields to their own undo
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.historyManager.undo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      this.historyManager.redo();
+    }
   }
 
   private async handleExport() {
@@ -1104,10 +1535,16 @@ export class App {
     this.toast.info('Exporting...');
 
     try {
+      let exported = false;
       if (item.file.type.startsWith('image/')) {
-        await this.exportImage();
+        exported = await this.exportImage();
       } else if (FormatRegistry.isSupported(item.file)) {
-        await this.exportTextDocument();
+        exported = await this.exportTextDocument();
+      }
+
+      if (!exported) {
+        this.toast.info('Export cancelled');
+        return;
       }
 
       // Show success animation
@@ -1126,11 +1563,15 @@ export class App {
 
     const modal = new SanitizeOptionsModal(
       pdfBytes,
-      async (options: SanitizeOptions) => {
+      async (options: SanitizeOptions, exportMode: PdfExportMode) => {
         // Export with sanitization
         this.toast.info('Exporting with sanitization...');
         try {
-          await this.exportPdf(options);
+          const exported = await this.exportPdf(options, exportMode);
+          if (!exported) {
+            this.toast.info('Export cancelled');
+            return;
+          }
 
           // Show success animation
           const successAnim = new SuccessAnimation();
@@ -1150,12 +1591,13 @@ export class App {
     modal.show();
   }
 
-  private async exportPdf(sanitizeOptions?: SanitizeOptions) {
+  private async exportPdf(
+    sanitizeOptions?: SanitizeOptions,
+    exportMode: PdfExportMode = 'rasterize'
+  ): Promise<boolean> {
     console.log('=== PDF Export Start ===');
     console.log('pdfDoc exists:', !!this.pdfDoc);
     console.log('pdfBytes exists:', !!this.pdfBytes);
-    console.log('pdfBytes type:', typeof this.pdfBytes);
-    console.log('pdfBytes value:', this.pdfBytes);
     console.log('Sanitization enabled:', !!sanitizeOptions);
 
     if (!this.pdfDoc || !this.pdfBytes) {
@@ -1163,7 +1605,7 @@ export class App {
       console.error('pdfDoc:', this.pdfDoc);
       console.error('pdfBytes:', this.pdfBytes);
       this.toast.error('PDF not loaded properly. Please reload the file.');
-      return;
+      return false;
     }
 
     const pageCount = this.totalPages || getPageCount(this.pdfDoc);
@@ -1173,65 +1615,24 @@ export class App {
     console.log('Total pages:', pageCount);
 
     try {
-      // CRITICAL SECURITY: Rasterize pages to remove text layer completely
-      // This ensures redacted information cannot be recovered
-      const canvases: HTMLCanvasElement[] = [];
-
-      console.log('🔥🔥🔥 SECURITY MODE: RASTERIZATION 🔥🔥🔥');
-      console.log('Rendering', pageCount, 'pages as images to DESTROY text layer...');
-
-      for (let i = 0; i < pageCount; i++) {
-        console.log(`\n📄 Processing page ${i + 1}/${pageCount}...`);
-
-        // Render page to canvas at scale 2 for quality
-        const { page, canvas, viewport } = await renderPageToCanvas(this.pdfDoc, i, 2);
-        console.log(`  ✓ Rendered page to canvas: ${canvas.width}x${canvas.height}px`);
-
-        // Get boxes for this page
-        const boxes = this.pageBoxes.get(i) || [];
-        console.log(`  ✓ Found ${boxes.length} redaction boxes for this page`);
-
-        // Draw redaction boxes directly on canvas (IRREVERSIBLE)
-        if (boxes.length > 0) {
-          const ctx = canvas.getContext('2d')!;
-          ctx.fillStyle = '#000000'; // Opaque black
-
-          for (let j = 0; j < boxes.length; j++) {
-            const box = boxes[j];
-            console.log(`    🖤 Drawing BLACK BOX ${j + 1}: x=${box.x.toFixed(1)}, y=${box.y.toFixed(1)}, w=${box.w.toFixed(1)}, h=${box.h.toFixed(1)}`);
-            console.log(`       Text being DESTROYED: "${box.text}"`);
-
-            // Draw filled black rectangle (no transparency)
-            ctx.fillRect(box.x, box.y, box.w, box.h);
-          }
-          console.log(`  ✅ Applied ${boxes.length} IRREVERSIBLE black boxes directly to pixels`);
-        } else {
-          console.log(`  ℹ️  No redactions on this page`);
-        }
-
-        canvases.push(canvas);
-      }
-
-      console.log('\n🔒 Converting canvases to PNG images (text is now gone)...');
-
-      // Export as new PDF with rasterized pages (NO TEXT LAYER)
-      const pdfBytes = await exportPdfFromCanvases(canvases, {
-        title: 'Redacted Document',
-        author: 'Aegis Redact'
-      });
-
-      console.log('✅ SUCCESS: Created NEW PDF from images only');
-      console.log('📊 Original PDF had text layer: YES');
-      console.log('📊 New PDF has text layer: NO - DESTROYED');
-      console.log('📊 Redacted information is: PERMANENTLY GONE');
+      const pdfBytes = exportMode === 'true-redaction'
+        ? await this.exportPdfTrueRedaction()
+        : await this.exportPdfRasterized(pageCount);
 
       console.log('Export successful, output size:', pdfBytes.length);
 
       // Apply sanitization if requested
       let finalPdfBytes = pdfBytes;
+      let sanitization: AuditSanitization | undefined;
       if (sanitizeOptions) {
         console.log('🧹 Applying PDF sanitization...');
         const sanitizeResult = await sanitizePDF(pdfBytes, sanitizeOptions);
+        sanitization = {
+          options: sanitizeOptions,
+          success: sanitizeResult.success,
+          removed: sanitizeResult.removed,
+          errors: sanitizeResult.errors
+        };
 
         if (sanitizeResult.success && sanitizeResult.pdfBytes) {
           finalPdfBytes = sanitizeResult.pdfBytes;
@@ -1248,6 +1649,24 @@ export class App {
         }
       }
 
+      // Prove the redacted text is gone before releasing the file
+      this.toast.info('Verifying redactions...');
+      const report = await verifyPdfExport(finalPdfBytes, await this.collectVerificationTerms());
+      if (!(await this.confirmLeakVerification(report))) {
+        return false;
+      }
+
+      const originalName = this.files[this.currentFileIndex].file.name;
+      this.lastExportAudit = await this.recordExport({
+        fileName: originalName,
+        exportName: originalName.replace('.pdf', '-redacted.pdf'),
+        mode: exportMode,
+        original: new Uint8Array(this.pdfBytes),
+        exported: finalPdfBytes,
+        boxes: toAuditBoxes(resolvePageExemptions(this.pageBoxes)),
+        sanitization
+      });
+
       // Store the exported PDF bytes for download
       this.lastExportedPdfBytes = finalPdfBytes;
 
@@ -1267,6 +1686,7 @@ export class App {
       }
 
       console.log('=== PDF Export End ===');
+      return true;
     } catch (error) {
       console.error('=== PDF Export Failed ===');
       console.error('Error details:', error);
@@ -1274,27 +1694,149 @@ export class App {
     }
   }
 
-  private async exportImage() {
-    if (!this.currentImage) return;
+  /**
+   * Produce a PDF with content under the boxes removed and everything else
+   * kept as vector text (searchable, small)
+   */
+  private async exportPdfTrueRedaction(): Promise<Uint8Array> {
+    const pageBoxes = resolvePageExemptions(this.pageBoxes);
+    const { pdfBytes, report } = await exportPdfWithTrueRedaction(
+      this.pdfBytes!,
+      pageBoxes,
+      2,
+      { title: 'Redacted Document', author: 'Aegis Redact' },
+      this.getExemptionExportOptions(pageBoxes),
+      StyleRegistry.loadSelectionFromStorage()
+    );
+
+    if (report.imagesRemoved > 0) {
+      this.toast.warning(
+        `${report.imagesRemoved} image(s) under redaction boxes could not be edited and were removed entirely.`
+      );
+    }
+
+    return pdfBytes;
+  }
+
+  /**
+   * Exemption labels and index page for a PDF export
+   * @param pageBoxes - Boxes with codes resolved (see resolvePageExemptions)
+   */
+  private getExemptionExportOptions(pageBoxes: Map<number, Box[]>): ExemptionExportOptions {
+    return {
+      placement: getLabelPlacement(),
+      index: isIndexPageEnabled() ? summarizeExemptions(pageBoxes, getActiveCodeSet()) : undefined
+    };
+  }
+
+  /**
+   * Produce a PDF whose pages are flattened images with boxes burned in
+   */
+  private async exportPdfRasterized(pageCount: number): Promise<Uint8Array> {
+    // CRITICAL SECURITY: Rasterize pages to remove text layer completely
+    // This ensures redacted information cannot be recovered
+    const canvases: HTMLCanvasElement[] = [];
+    const pageBoxes = resolvePageExemptions(this.pageBoxes);
+    const exemptions = this.getExemptionExportOptions(pageBoxes);
+    const selection = StyleRegistry.loadSelectionFromStorage();
+
+    console.log('🔥🔥🔥 SECURITY MODE: RASTERIZATION 🔥🔥🔥');
+    console.log('Rendering', pageCount, 'pages as images to DESTROY text layer...');
+
+    for (let i = 0; i < pageCount; i++) {
+      console.log(`\n📄 Processing page ${i + 1}/${pageCount}...`);
+
+      // Render page to canvas at scale 2 for quality
+      const { page, canvas, viewport } = await renderPageToCanvas(this.pdfDoc, i, 2);
+      console.log(`  ✓ Rendered page to canvas: ${canvas.width}x${canvas.height}px`);
+
+      // Get boxes for this page
+      const boxes = pageBoxes.get(i) || [];
+      console.log(`  ✓ Found ${boxes.length} redaction boxes for this page`);
+
+      // Draw redaction boxes directly on canvas (IRREVERSIBLE)
+      if (boxes.length > 0) {
+        const ctx = canvas.getContext('2d')!;
+
+        for (let j = 0; j < boxes.length; j++) {
+          const box = boxes[j];
+          const { style, options } = StyleRegistry.resolve(box, selection);
+          console.log(`    🖤 Drawing ${style.name} BOX ${j + 1}: x=${box.x.toFixed(1)}, y=${box.y.toFixed(1)}, w=${box.w.toFixed(1)}, h=${box.h.toFixed(1)}`);
+          console.log(`       Text being DESTROYED: "${box.text}"`);
+
+          // Draw the opaque export rendering of the style
+          style.export(ctx, box, options);
+
+          if (box.exemption) {
+            drawExemptionLabel(ctx, box, box.exemption, exemptions.placement);
+          }
+        }
+        console.log(`  ✅ Applied ${boxes.length} IRREVERSIBLE redaction boxes directly to pixels`);
+      } else {
+        console.log(`  ℹ️  No redactions on this page`);
+      }
+
+      canvases.push(canvas);
+    }
+
+    console.log('\n🔒 Converting canvases to PNG images (text is now gone)...');
+
+    // Export as new PDF with rasterized pages (NO TEXT LAYER)
+    const pdfBytes = await exportPdfFromCanvases(canvases, {
+      title: 'Redacted Document',
+      author: 'Aegis Redact'
+    }, exemptions.index);
+
+    console.log('✅ SUCCESS: Created NEW PDF from images only');
+    console.log('📊 Original PDF had text layer: YES');
+    console.log('📊 New PDF has text layer: NO - DESTROYED');
+    console.log('📊 Redacted information is: PERMANENTLY GONE');
+
+    return pdfBytes;
+  }
+
+  private async exportImage(): Promise<boolean> {
+    if (!this.currentImage) return false;
 
     const boxes = this.canvasStage.getBoxes();
     const blob = await exportRedactedImage(this.currentImage, boxes);
 
-    const originalName = this.files[this.currentFileIndex].file.name;
-    const ext = originalName.split('.').pop();
-    const newName = originalName.replace(`.${ext}`, `-redacted.${ext}`);
+    this.toast.info('Verifying redactions with OCR...');
+    const report = await verifyImageExport(blob, await this.collectVerificationTerms());
+    if (!(await this.confirmLeakVerification(report))) {
+      return false;
+    }
+
+    const original = this.files[this.currentFileIndex].file;
+    const ext = original.name.split('.').pop();
+    const newName = original.name.replace(`.${ext}`, `-redacted.${ext}`);
 
     await saveBlob(blob, newName);
+    await this.saveCertificate(await this.recordExport({
+      fileName: original.name,
+      exportName: newName,
+      mode: 'image',
+      original,
+      exported: blob,
+      boxes: toAuditBoxes(new Map([[0, boxes]]))
+    }));
+    return true;
   }
 
-  private async exportTextDocument() {
+  private async exportTextDocument(): Promise<boolean> {
     if (!this.currentDocument || !this.currentFormat) {
       this.toast.error('Document not loaded');
-      return;
+      return false;
+    }
+
+    const warnings = this.currentFormat.getExportWarnings(this.currentDocument);
+    if (!this.confirmExportWarnings(warnings)) {
+      return false;
     }
 
     // Apply redactions to the document
     const boxes = this.pageBoxes.get(0) || [];
+    const records: RedactionRecord[] = [];
     if (boxes.length > 0) {
       // Convert Box[] to FormatBoundingBox[]
       const formatBoxes: FormatBoundingBox[] = boxes.map((box) => ({
@@ -1304,22 +1846,172 @@ export class App {
         h: box.h,
         text: box.text,
         line: box.line,
+        sheet: box.sheet,
+        slide: box.slide,
         row: box.row,
         column: box.column,
+        type: box.type,
         source: 'manual' as const
       }));
-      await this.currentFormat.redact(this.currentDocument, formatBoxes);
+      await this.currentFormat.redact(this.currentDocument, formatBoxes, this.getRedactOptions(null, (record) => records.push(record)));
     }
 
     // Export the document
-    const blob = await this.currentFormat.export(this.currentDocument);
+    const format = this.currentFormat;
+    const blob = await format.export(this.currentDocument);
+    const originalName = this.files[this.currentFileIndex].file.name;
+
+    const decode = this.getTextExportDecoder(format, blob, originalName);
+    const report = await verifyTextExport(blob, await this.collectVerificationTerms(), decode);
+    if (!(await this.confirmLeakVerification(report))) {
+      return false;
+    }
 
     // Generate filename
-    const originalName = this.files[this.currentFileIndex].file.name;
     const ext = originalName.split('.').pop();
     const newName = originalName.replace(`.${ext}`, `-redacted.${ext}`);
 
-    await saveBlob(blob, newName);
+    if (this.toolbar.isVaultEnabled()) {
+      if (!(await this.saveWithVault(blob, newName, records))) {
+        return false;
+      }
+    } else {
+      await saveBlob(blob, newName);
+    }
+
+    await this.saveCertificate(await this.recordExport({
+      fileName: originalName,
+      exportName: newName,
+      mode: 'document',
+      original: this.files[this.currentFileIndex].file,
+      exported: blob,
+      boxes: toAuditBoxes(new Map([[0, boxes]])),
+      warnings: warnings.length > 0 ? warnings : undefined
+    }));
+    return true;
+  }
+
+  /**
+   * Add an export to the audit log, and upload the record when signed in
+   * and turned on. Problems are reported but never stop the export.
+   */
+  private async recordExport(entry: Omit<AuditExport, 'detectors' | 'user'>): Promise<AuditRecord | null> {
+    const user = this.authSession?.getUser();
+    let record: AuditRecord;
+    try {
+      record = await auditLog.append({
+        ...entry,
+        detectors: getDetectorVersions({ ml: this.useML, ocr: this.toolbar.getOptions().useOCR }),
+        user: user ? { id: user.id, email: user.email } : undefined
+      });
+    } catch (error) {
+      console.error('Failed to write audit record:', error);
+      this.toast.warning('This export could not be added to the audit log');
+      return null;
+    }
+
+    if (isCloudUploadEnabled() && this.cloudSync) {
+      uploadAuditRecord(this.cloudSync, record).catch((error) => {
+        console.error('Failed to upload audit record:', error);
+        this.toast.warning('The audit record was kept on this device but could not be uploaded');
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Save the redaction certificate next to an export, when turned on
+   */
+  private async saveCertificate(record: AuditRecord | null): Promise<void> {
+    if (!record || !isCertificateEnabled()) return;
+
+    const bytes = await createCertificatePdf(record);
+    await saveBlob(new Blob([bytes as BlobPart], { type: 'application/pdf' }), `${record.exportName}.certificate.pdf`);
+  }
+
+  /**
+   * Save the export and an encrypted vault that can reverse its redactions
+   * The vault is a separate file; the export is the same as without one.
+   */
+  private async saveWithVault(blob: Blob, fileName: string, records: RedactionRecord[]): Promise<boolean> {
+    if (records.length === 0) {
+      this.toast.warning('This export has no redactions that can be restored, so no vault was saved');
+      await saveBlob(blob, fileName);
+      return true;
+    }
+
+    const passphrase = await VaultPassphraseModal.prompt();
+    if (!passphrase) {
+      return false;
+    }
+
+    const vault = await createVault(records, blob, fileName, passphrase);
+    await saveBlob(blob, fileName);
+    await saveBlob(serializeVault(vault), `${fileName}.vault.json`);
+    ariaAnnouncer.announce(`Saved vault with ${records.length} redactions`);
+    return true;
+  }
+
+  /**
+   * Restore redactions in an earlier export from its vault
+   */
+  private async handleUnredact(): Promise<void> {
+    const restored = await UnredactModal.open();
+    if (restored !== null) {
+      this.toast.success(`Restored ${restored} redaction(s)`);
+    }
+  }
+
+  /**
+   * Gather every redacted string that must be absent from the export:
+   * enabled detections, plus the original text under manual boxes
+   */
+  private async collectVerificationTerms(): Promise<RedactedTerm[]> {
+    const items: Array<{ text?: string; page?: number; type?: string; enabled?: boolean }> = [
+      ...this.documentDetections
+    ];
+
+    for (const [page, boxes] of this.manualBoxesByPage) {
+      if (boxes.length === 0) continue;
+
+      if (this.pdfDoc) {
+        try {
+          const pdfPage = await this.pdfDoc.getPage(page + 1);
+          const viewport = pdfPage.getViewport({ scale: 2 });
+          const texts = await extractTextInBoxes(pdfPage, viewport, boxes);
+          texts.forEach((text) => items.push({ text, page, type: 'manual' }));
+        } catch (error) {
+          console.warn(`Could not recover text under manual boxes on page ${page + 1}:`, error);
+        }
+      } else {
+        boxes.forEach((box) => items.push({ text: box.text, page, type: 'manual' }));
+      }
+    }
+
+    return collectRedactedTerms(items);
+  }
+
+  /**
+   * Ask the user to accept format warnings before a document is exported
+   */
+  private confirmExportWarnings(warnings: string[]): boolean {
+    if (warnings.length === 0) return true;
+    ariaAnnouncer.announce('This export may not be fully scrubbed.', { priority: 'assertive' });
+    return confirm(`${warnings.join('\n\n')}\n\nExport anyway?`);
+  }
+
+  /**
+   * Show the leak verification report and ask whether to continue
+   */
+  private async confirmLeakVerification(report: LeakVerificationReport): Promise<boolean> {
+    if (report.passed) {
+      ariaAnnouncer.announce(`Leak check passed. ${report.checkedTermCount} redacted terms verified.`);
+    } else {
+      ariaAnnouncer.announce(`Leak check failed. ${report.leakCount} redacted terms still found.`, { priority: 'assertive' });
+    }
+
+    return LeakReportModal.confirm(report);
   }
 
   private handleReset() {
@@ -1368,6 +2060,7 @@ export class App {
       this.currentDocument = null;
       this.currentFormat = null;
       this.lastExportedPdfBytes = null;
+      this.lastExportAudit = null;
       this.totalPages = 0;
       this.resetDetectionMaps();
       this.fileList.setFiles([]);
@@ -1633,6 +2326,7 @@ export class App {
       const newName = originalName.replace('.pdf', '-redacted.pdf');
 
       await saveBlob(blob, newName);
+      await this.saveCertificate(this.lastExportAudit);
 
       // Show success animation
       const successAnim = new SuccessAnimation();
@@ -1726,8 +2420,7 @@ export class App {
         this.batchProgressPanel.updateTask(task);
 
         // Auto-download the file
-        const fileName = task.fileName.replace(/\.(pdf|png|jpg|jpeg|webp)$/i, '-redacted.$1');
-        saveBlob(result, fileName);
+        saveBlob(result, this.batchExportName(task.fileName));
       }
     };
 
@@ -1763,6 +2456,8 @@ export class App {
       return;
     }
 
+    this.batchPseudonymizer = new Pseudonymizer(getProjectSecret());
+
     // Create and show batch progress panel
     this.batchProgressPanel = new BatchProgressPanel();
 
@@ -1831,15 +2526,41 @@ export class App {
     }
 
     // Export based on file type
+    let blob: Blob;
+    let mode: AuditExportMode;
     if (item.file.type === 'application/pdf') {
-      return await this.exportPdfToBlob();
+      const exportMode = SanitizeOptionsModal.loadExportMode();
+      blob = await this.exportPdfToBlob(exportMode);
+      mode = exportMode;
     } else if (item.file.type.startsWith('image/')) {
-      return await this.exportImageToBlob();
+      blob = await this.exportImageToBlob();
+      mode = 'image';
     } else if (FormatRegistry.isSupported(item.file)) {
-      return await this.exportTextDocumentToBlob();
+      blob = await this.exportTextDocumentToBlob();
+      mode = 'document';
+    } else {
+      throw new Error('Unsupported file type');
     }
 
-    throw new Error('Unsupported file type');
+    await this.saveCertificate(await this.recordExport({
+      fileName: item.file.name,
+      exportName: this.batchExportName(item.file.name),
+      mode,
+      original: item.file,
+      exported: blob,
+      boxes: toAuditBoxes(item.file.type === 'application/pdf'
+        ? resolvePageExemptions(this.pageBoxes)
+        : new Map([[0, this.pageBoxes.get(0) || []]]))
+    }));
+
+    return blob;
+  }
+
+  /**
+   * Name a batch export is saved under
+   */
+  private batchExportName(fileName: string): string {
+    return fileName.replace(/\.(pdf|png|jpg|jpeg|webp)$/i, '-redacted.$1');
   }
 
   /**
@@ -1852,6 +2573,10 @@ export class App {
     if (!item) return;
 
     this.currentFileIndex = index;
+    // The previous file must not feed this one's leak check
+    this.pdfDoc = null;
+    this.currentImage = null;
+    this.currentDocument = null;
 
     if (item.file.type === 'application/pdf') {
       const arrayBuffer = await item.file.arrayBuffer();
@@ -1861,40 +2586,37 @@ export class App {
       this.currentPageIndex = 0;
     } else if (item.file.type.startsWith('image/')) {
       this.currentImage = await loadImage(item.file);
+    } else if (await FormatRegistry.isSupported(item.file)) {
+      this.currentFormat = await FormatRegistry.getFormat(item.file);
+      this.currentDocument = await this.currentFormat.load(item.file);
     }
   }
 
+  /**
+   * Fail a batch file whose export did not pass the leak check
+   * There is no one to confirm a failed check in a batch, as the single-file
+   * exports do.
+   */
+  private assertLeakCheckPassed(report: LeakVerificationReport): void {
+    if (report.passed) return;
+    throw new Error(report.leakCount > 0
+      ? `Leak check failed: ${report.leakCount} redacted term(s) still found`
+      : `Leak check failed: ${report.errors.join('; ')}`);
+  }
+
   /**
    * Export PDF as Blob (without showing PDF viewer)
    */
-  private async exportPdfToBlob(): Promise<Blob> {
+  private async exportPdfToBlob(exportMode: PdfExportMode): Promise<Blob> {
     if (!this.pdfDoc || !this.pdfBytes) {
       throw new Error('PDF not loaded');
     }
 
-    const pageCount = this.totalPages || getPageCount(this.pdfDoc);
-    const canvases: HTMLCanvasElement[] = [];
-
-    for (let i = 0; i < pageCount; i++) {
-      const { canvas } = await renderPageToCanvas(this.pdfDoc, i, 2);
-      const boxes = this.pageBoxes.get(i) || [];
-
-      if (boxes.length > 0) {
-        const ctx = canvas.getContext('2d')!;
-        ctx.fillStyle = '#000000';
+    const pdfBytes = exportMode === 'true-redaction'
+      ? await this.exportPdfTrueRedaction()
+      : await this.exportPdfRasterized(this.totalPages || getPageCount(this.pdfDoc));
 
-        for (const box of boxes) {
-          ctx.fillRect(box.x, box.y, box.w, box.h);
-        }
-      }
-
-      canvases.push(canvas);
-    }
-
-    const pdfBytes = await exportPdfFromCanvases(canvases, {
-      title: 'Redacted Document',
-      author: 'Aegis Redact'
-    });
+    this.assertLeakCheckPassed(await verifyPdfExport(pdfBytes, await this.collectVerificationTerms()));
 
     return new Blob([pdfBytes], { type: 'application/pdf' });
   }
@@ -1908,7 +2630,9 @@ export class App {
     }
 
     const boxes = this.pageBoxes.get(0) || [];
-    return await exportRedactedImage(this.currentImage, boxes);
+    const blob = await exportRedactedImage(this.currentImage, boxes);
+    this.assertLeakCheckPassed(await verifyImageExport(blob, await this.collectVerificationTerms()));
+    return blob;
   }
 
   /**
@@ -1919,12 +2643,63 @@ export class App {
       throw new Error('Document not loaded');
     }
 
+    // Batch exports can't ask, so warnings block them; export the file on its own to accept them
+    const warnings = this.currentFormat.getExportWarnings(this.currentDocument);
+    if (warnings.length > 0) {
+      throw new Error(`Export blocked: ${warnings.join(' ')}`);
+    }
+
     const boxes = this.pageBoxes.get(0) || [];
     if (boxes.length > 0) {
-      await this.currentFormat.redact(this.currentDocument, boxes);
+      await this.currentFormat.redact(this.currentDocument, boxes, this.getRedactOptions(this.batchPseudonymizer));
+    }
+
+    const blob = await this.currentFormat.export(this.currentDocument);
+    const fileName = this.files[this.currentFileIndex].file.name;
+    this.assertLeakCheckPassed(await verifyTextExport(
+      blob,
+      await this.collectVerificationTerms(),
+      this.getTextExportDecoder(this.currentFormat, blob, fileName)
+    ));
+    return blob;
+  }
+
+  /**
+   * How the leak check reads a text export: binary exports (DOCX) and HTML,
+   * where entities can hide text from a raw search, are re-read through
+   * their format handler
+   */
+  private getTextExportDecoder(
+    format: DocumentFormat,
+    blob: Blob,
+    fileName: string
+  ): ((exported: Blob) => Promise<string>) | undefined {
+    if (blob.type.startsWith('text/') && !blob.type.startsWith('text/html')) {
+      return undefined;
+    }
+
+    return async (exported: Blob) => {
+      const reloaded = await format.load(new File([exported], fileName, { type: exported.type }));
+      return (await format.extractText(reloaded)).fullText;
+    };
+  }
+
+  /**
+   * Replacement text for text exports in the selected export mode
+   * Without a pseudonymizer to share, a fresh one uses the project secret,
+   * so the surrogates still match earlier exports.
+   * onRedacted receives where each replacement went, for the vault.
+   */
+  private getRedactOptions(
+    pseudonymizer?: Pseudonymizer | null,
+    onRedacted?: (record: RedactionRecord) => void
+  ): RedactOptions {
+    if (this.toolbar.getExportMode() !== 'pseudonymize') {
+      return { onRedacted };
     }
 
-    return await this.currentFormat.export(this.currentDocument);
+    const engine = pseudonymizer ?? new Pseudonymizer(getProjectSecret());
+    return { replace: (text, type) => engine.pseudonymize(text, type), onRedacted };
   }
 }
 
@@ -6,6 +6,7 @@ import {
   MoveBoxCommand,
   ResizeBoxCommand,
 } from '../../lib/history/commands';
+import { drawExemptionLabel, getLabelPlacement, getTypeExemptions, resolveExemption } from '../../lib/exemptions';
 
 interface CanvasStageOptions {
   onPrevPage?: () => void;
@@ -43,6 +44,7 @@ export class CanvasStage {
   private sourceImage: HTMLImageElement | HTMLCanvasElement | null = null;
   private historyManager?: HistoryManager;
   private snapToGrid: number = 0;
+  private showExemptionLabels: boolean = false;
   private positionTooltip: HTMLDivElement | null = null;
   private isDragging: boolean = false;
   private dragStart: { x: number; y: number; boxX: number; boxY: number } | null = null;
@@ -357,6 +359,14 @@ export class CanvasStage {
     this.render();
   }
 
+  /**
+   * Show exemption codes on the boxes (only for documents whose export prints them)
+   */
+  setExemptionLabelsVisible(visible: boolean) {
+    this.showExemptionLabels = visible;
+    this.render();
+  }
+
   setBoxes(boxes: Box[]) {
     this.boxes = boxes;
     this.render();
@@ -390,7 +400,9 @@ export class CanvasStage {
       this.ctx.drawImage(this.sourceImage, 0, 0);
     }
 
-    // Draw boxes on top
+    // Draw boxes on top, with their exemption codes as they will be exported
+    const typeExemptions = getTypeExemptions();
+    const placement = getLabelPlacement();
     this.boxes.forEach((box, index) => {
       if (index === this.selectedBoxIndex) {
         this.ctx.strokeStyle = '#4a90e2';
@@ -403,6 +415,11 @@ export class CanvasStage {
       this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
       this.ctx.fillRect(box.x, box.y, box.w, box.h);
       this.ctx.strokeRect(box.x, box.y, box.w, box.h);
+
+      const code = this.showExemptionLabels ? resolveExemption(box, typeExemptions) : undefined;
+      if (code) {
+        drawExemptionLabel(this.ctx, box, code, placement);
+      }
     });
 
     // Apply scale
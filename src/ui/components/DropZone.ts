@@ -31,7 +31,14 @@ export class DropZone {
           <span class="drop-zone-badge">PNG</span>
           <span class="drop-zone-badge">WebP</span>
           <span class="drop-zone-badge">TXT</span>
+          <span class="drop-zone-badge">LOG</span>
           <span class="drop-zone-badge">CSV</span>
+          <span class="drop-zone-badge">JSON</span>
+          <span class="drop-zone-badge">DOCX</span>
+          <span class="drop-zone-badge">XLSX</span>
+          <span class="drop-zone-badge">PPTX</span>
+          <span class="drop-zone-badge">HTML</span>
+          <span class="drop-zone-badge">EML</span>
         </div>
       </div>
     `;
@@ -72,7 +79,7 @@ export class DropZone {
     const input = document.createElement('input');
     input.type = 'file';
     input.multiple = true;
-    input.accept = '.pdf,.jpg,.jpeg,.png,.webp,.txt,.md,.csv,.tsv';
+    input.accept = '.pdf,.jpg,.jpeg,.png,.webp,.txt,.md,.log,.csv,.tsv,.json,.jsonl,.ndjson,.docx,.xlsx,.pptx,.html,.htm,.eml,.mbox';
     input.style.display = 'none';
 
     input.addEventListener('change', () => {
@@ -97,9 +104,17 @@ export class DropZone {
         'text/plain',
         'text/markdown',
         'text/csv',
-        'text/tab-separated-values'
+        'text/tab-separated-values',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'text/html',
+        'application/json',
+        'application/x-ndjson',
+        'message/rfc822',
+        'application/mbox'
       ];
-      return validTypes.includes(file.type) || file.name.match(/\.(txt|md|csv|tsv)$/i);
+      return validTypes.includes(file.type) || file.name.match(/\.(txt|md|log|csv|tsv|json|jsonl|ndjson|docx|xlsx|pptx|html?|eml|mbox)$/i);
     });
 
     if (validFiles.length > 0) {
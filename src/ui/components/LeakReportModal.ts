@@ -0,0 +1,155 @@
+/**
+ * Leak Report Modal
+ *
+ * Shows the post-export leak verification report before the file is
+ * released. A failed report blocks the export unless the user explicitly
+ * overrides it.
+ */
+
+import type { LeakVerificationReport } from '../../lib/verify';
+
+const METHOD_LABELS: Record<LeakVerificationReport['method'], string> = {
+  'pdf-text': 'PDF text extraction',
+  'decoded-text': 'decoded file text',
+  ocr: 'OCR'
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class LeakReportModal {
+  private element: HTMLElement;
+  private report: LeakVerificationReport;
+  private onProceed: () => void;
+  private onCancel: () => void;
+
+  constructor(
+    report: LeakVerificationReport,
+    onProceed: () => void,
+    onCancel: () => void
+  ) {
+    this.report = report;
+    this.onProceed = onProceed;
+    this.onCancel = onCancel;
+    this.element = this.createModal();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Show the report and resolve with whether the export should continue
+   */
+  static confirm(report: LeakVerificationReport): Promise<boolean> {
+    return new Promise((resolve) => {
+      const modal = new LeakReportModal(report, () => resolve(true), () => resolve(false));
+      modal.show();
+    });
+  }
+
+  private createModal(): HTMLElement {
+    const { report } = this;
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay leak-report-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-labelledby', 'leak-report-title');
+    modal.setAttribute('aria-modal', 'true');
+
+    const summary = report.passed
+      ? `Verified with ${METHOD_LABELS[report.method]}: none of the ${report.checkedTermCount} redacted term(s) can be found in the exported file.`
+      : `Verified with ${METHOD_LABELS[report.method]}: ${report.leakCount} of ${report.checkedTermCount} redacted term(s) can still be found in the exported file.`;
+
+    const leakedPages = report.pages.filter((page) => !page.passed);
+    const skipped = report.terms.filter((term) => term.skipped).length;
+
+    modal.innerHTML = `
+      <div class="modal-content">
+        <div class="modal-header">
+          <h3 id="leak-report-title">${report.passed ? 'Leak Check Passed' : 'Leak Check Failed'}</h3>
+          <button class="modal-close" aria-label="Close" data-action="cancel">✕</button>
+        </div>
+        <div class="modal-body">
+          <p class="leak-report-summary leak-report-summary--${report.passed ? 'pass' : 'fail'}">${summary}</p>
+          ${report.errors.length > 0 ? `
+            <div class="leak-report-errors">
+              <strong>Verification could not complete:</strong>
+              <ul>${report.errors.map((error) => `<li>${escapeHtml(error)}</li>`).join('')}</ul>
+            </div>
+          ` : ''}
+          ${leakedPages.length > 0 ? `
+            <ul class="leak-report-pages">
+              ${leakedPages.map((page) => `
+                <li>
+                  <strong>Page ${page.page + 1}</strong>
+                  <ul>${page.leakedTerms.map((term) => `<li><code>${escapeHtml(term)}</code></li>`).join('')}</ul>
+                </li>
+              `).join('')}
+            </ul>
+          ` : ''}
+          ${skipped > 0 ? `<p class="leak-report-note">${skipped} term(s) were too short to check reliably.</p>` : ''}
+        </div>
+        <div class="modal-footer">
+          ${report.passed ? `
+            <button class="btn-primary" data-action="proceed">Continue</button>
+          ` : `
+            <button class="btn-secondary" data-action="proceed">Export Anyway</button>
+            <button class="btn-primary" data-action="cancel">Cancel Export</button>
+          `}
+        </div>
+      </div>
+    `;
+
+    return modal;
+  }
+
+  private attachEventListeners(): void {
+    this.element.querySelectorAll('[data-action="cancel"]').forEach((button) => {
+      button.addEventListener('click', () => this.cancel());
+    });
+
+    this.element.querySelector('[data-action="proceed"]')?.addEventListener('click', () => this.proceed());
+
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.cancel();
+      }
+    });
+  }
+
+  private proceed(): void {
+    this.onProceed();
+    this.destroy();
+  }
+
+  private cancel(): void {
+    this.onCancel();
+    this.destroy();
+  }
+
+  /**
+   * Show the modal
+   */
+  show(): void {
+    document.body.appendChild(this.element);
+
+    const primary = this.element.querySelector('.btn-primary') as HTMLElement;
+    primary?.focus();
+  }
+
+  /**
+   * Destroy the modal
+   */
+  destroy(): void {
+    this.element.remove();
+  }
+
+  /**
+   * Get the modal element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+}
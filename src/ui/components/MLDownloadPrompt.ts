@@ -7,6 +7,7 @@
 
 import type { ProgressCallback } from '../../lib/detect/ml';
 import { mlDetector } from '../../lib/detect/ml';
+import { ML_MODELS, getLocalModelPath } from '../../lib/detect/models';
 
 export interface MLDownloadPromptCallbacks {
   onDownloadAndContinue: () => void;
@@ -22,6 +23,8 @@ export class MLDownloadPrompt {
   private downloadBtn: HTMLButtonElement | null = null;
   private skipBtn: HTMLButtonElement | null = null;
   private cancelBtn: HTMLButtonElement | null = null;
+  private modelSelect: HTMLSelectElement | null = null;
+  private modelInfo: HTMLElement | null = null;
   private isDownloading = false;
 
   constructor(private callbacks: MLDownloadPromptCallbacks) {
@@ -82,11 +85,19 @@ export class MLDownloadPrompt {
         </p>
         <p style="margin: 0; color: #95a5a6; font-size: 13px; line-height: 1.5;">
           ✓ 100% private (runs in your browser)<br>
-          ✓ One-time download (~110MB)<br>
+          ✓ One-time download<br>
           ✓ Cached for future use
         </p>
       </div>
 
+      <div style="margin-bottom: 16px;">
+        <label for="ml-prompt-model" style="display: block; color: #95a5a6; font-size: 13px; margin-bottom: 6px;">Model</label>
+        <select id="ml-prompt-model" style="width: 100%; padding: 8px; background: rgba(255,255,255,0.05); color: #ecf0f1; border: 1px solid rgba(255,255,255,0.1); border-radius: 6px; font-size: 14px;">
+          ${ML_MODELS.map(model => `<option value="${model.id}" ${model.id === mlDetector.getModel().id ? 'selected' : ''}>${model.name}</option>`).join('')}
+        </select>
+        <div id="ml-prompt-model-info" style="margin-top: 8px; color: #95a5a6; font-size: 12px; line-height: 1.6;"></div>
+      </div>
+
       <div style="display: flex; gap: 16px; margin-bottom: 16px;">
         <div style="flex: 1; background: rgba(46, 204, 113, 0.1); border: 1px solid rgba(46, 204, 113, 0.3); padding: 12px; border-radius: 8px; text-align: center;">
           <div style="font-size: 20px; margin-bottom: 4px;">⚡</div>
@@ -103,6 +114,11 @@ export class MLDownloadPrompt {
       </div>
     `;
 
+    this.modelSelect = content.querySelector('#ml-prompt-model');
+    this.modelInfo = content.querySelector('#ml-prompt-model-info');
+    this.modelSelect?.addEventListener('change', () => this.handleModelChange());
+    this.renderModelInfo();
+
     // Progress container (hidden initially)
     this.progressContainer = document.createElement('div');
     this.progressContainer.style.cssText = 'display: none; margin-bottom: 16px;';
@@ -222,6 +238,37 @@ export class MLDownloadPrompt {
     return overlay;
   }
 
+  /**
+   * Show size, languages and source of the selected model
+   */
+  private renderModelInfo(): void {
+    if (!this.modelInfo) return;
+
+    const model = mlDetector.getModel();
+    const localPath = getLocalModelPath();
+    const source = localPath
+      ? `Loaded from ${localPath}${model.id}/`
+      : model.hosted ? 'Downloaded from Hugging Face Hub' : 'Needs a local model directory (see Settings)';
+
+    this.modelInfo.innerHTML = `
+      ${model.description}<br>
+      Size: ~${model.sizeMB}MB · Languages: ${model.languages.join(', ')}<br>
+      ${source}
+    `;
+  }
+
+  private async handleModelChange(): Promise<void> {
+    if (!this.modelSelect || this.isDownloading) return;
+
+    try {
+      await mlDetector.setModel(this.modelSelect.value);
+    } catch (error) {
+      console.error('Failed to switch ML model:', error);
+      this.modelSelect.value = mlDetector.getModel().id;
+    }
+    this.renderModelInfo();
+  }
+
   private async handleDownload(): Promise<void> {
     if (this.isDownloading) return;
 
@@ -234,6 +281,7 @@ export class MLDownloadPrompt {
     this.skipBtn!.style.cursor = 'not-allowed';
     this.cancelBtn!.disabled = true;
     this.cancelBtn!.style.opacity = '0.3';
+    this.modelSelect!.disabled = true;
 
     // Show progress
     this.progressContainer!.style.display = 'block';
@@ -281,6 +329,7 @@ export class MLDownloadPrompt {
       this.skipBtn!.style.cursor = 'pointer';
       this.cancelBtn!.disabled = false;
       this.cancelBtn!.style.opacity = '1';
+      this.modelSelect!.disabled = false;
 
       // Hide progress after 2 seconds
       setTimeout(() => {
@@ -0,0 +1,150 @@
+/**
+ * Mention Proposal Modal
+ *
+ * After a reviewer redacts one mention of an entity, lists the other
+ * mentions found across the document so they can all be redacted in one
+ * step.
+ */
+
+import type { RedactionItem } from './RedactionList';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class MentionProposalModal {
+  private element: HTMLElement;
+  private seed: string;
+  private proposals: RedactionItem[];
+  private onAccept: () => void;
+  private onReject: () => void;
+
+  constructor(
+    seed: string,
+    proposals: RedactionItem[],
+    onAccept: () => void,
+    onReject: () => void
+  ) {
+    this.seed = seed;
+    this.proposals = proposals;
+    this.onAccept = onAccept;
+    this.onReject = onReject;
+    this.element = this.createModal();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Show the proposals and resolve with whether the user accepted them
+   */
+  static confirm(seed: string, proposals: RedactionItem[]): Promise<boolean> {
+    return new Promise((resolve) => {
+      const modal = new MentionProposalModal(seed, proposals, () => resolve(true), () => resolve(false));
+      modal.show();
+    });
+  }
+
+  private createModal(): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay mention-proposal-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-labelledby', 'mention-proposal-title');
+    modal.setAttribute('aria-modal', 'true');
+
+    // Group by page, then count each distinct mention
+    const byPage = new Map<number, Map<string, number>>();
+    this.proposals.forEach((item) => {
+      const counts = byPage.get(item.page) ?? new Map<string, number>();
+      const text = item.detectedText ?? item.text;
+      counts.set(text, (counts.get(text) || 0) + 1);
+      byPage.set(item.page, counts);
+    });
+
+    const pages = Array.from(byPage.keys()).sort((a, b) => a - b);
+    const noun = this.proposals.length === 1 ? 'mention' : 'mentions';
+
+    modal.innerHTML = `
+      <div class="modal-content">
+        <div class="modal-header">
+          <h3 id="mention-proposal-title">Redact Other Mentions?</h3>
+          <button class="modal-close" aria-label="Close" data-action="reject">✕</button>
+        </div>
+        <div class="modal-body">
+          <p class="mention-proposal-summary">
+            Found ${this.proposals.length} other ${noun} of <code>${escapeHtml(this.seed)}</code>
+            on ${pages.length} page(s).
+          </p>
+          <ul class="mention-proposal-pages">
+            ${pages.map((page) => `
+              <li>
+                <strong>Page ${page + 1}</strong>
+                <ul>
+                  ${Array.from(byPage.get(page)!).map(([text, count]) => `
+                    <li><code>${escapeHtml(text)}</code>${count > 1 ? ` ×${count}` : ''}</li>
+                  `).join('')}
+                </ul>
+              </li>
+            `).join('')}
+          </ul>
+        </div>
+        <div class="modal-footer">
+          <button class="btn-secondary" data-action="reject">Skip</button>
+          <button class="btn-primary" data-action="accept">Redact All</button>
+        </div>
+      </div>
+    `;
+
+    return modal;
+  }
+
+  private attachEventListeners(): void {
+    this.element.querySelectorAll('[data-action="reject"]').forEach((button) => {
+      button.addEventListener('click', () => this.reject());
+    });
+
+    this.element.querySelector('[data-action="accept"]')?.addEventListener('click', () => this.accept());
+
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.reject();
+      }
+    });
+  }
+
+  private accept(): void {
+    this.onAccept();
+    this.destroy();
+  }
+
+  private reject(): void {
+    this.onReject();
+    this.destroy();
+  }
+
+  /**
+   * Show the modal
+   */
+  show(): void {
+    document.body.appendChild(this.element);
+
+    const primary = this.element.querySelector('.btn-primary') as HTMLElement;
+    primary?.focus();
+  }
+
+  /**
+   * Destroy the modal
+   */
+  destroy(): void {
+    this.element.remove();
+  }
+
+  /**
+   * Get the modal element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+}
@@ -1,5 +1,13 @@
 import type { Box } from '../../lib/pdf/find';
 import { AnalyticsAggregator } from '../../lib/analytics/aggregator';
+import type { SuppressedDetection } from '../../lib/detect/custom';
+import {
+  exemptionTypeKey,
+  getActiveCodeSet,
+  getTypeExemptions,
+  setTypeExemption,
+  type ExemptionCode
+} from '../../lib/exemptions';
 
 /**
  * Redaction list component showing matches across the whole document
@@ -10,20 +18,58 @@ export interface RedactionItem extends Box {
   enabled: boolean;
   page: number;
   type?: string;
-  source?: 'regex' | 'ml' | 'manual';
+  source?: 'regex' | 'ml' | 'dictionary' | 'manual';
   confidence?: number;
+  /** The detected value, when `text` is the whole line containing it */
+  detectedText?: string;
+}
+
+/**
+ * The box an enabled item is redacted with
+ * Positions within structured documents are kept, since handlers such as
+ * XLSX and PPTX locate the text to redact by them.
+ */
+export function toRedactionBox(item: RedactionItem): Box {
+  return {
+    x: item.x,
+    y: item.y,
+    w: item.w,
+    h: item.h,
+    text: item.text,
+    page: item.page,
+    type: item.type,
+    source: item.source,
+    confidence: item.confidence,
+    detectionId: item.id,
+    exemption: item.exemption,
+    line: item.line,
+    sheet: item.sheet,
+    slide: item.slide,
+    row: item.row,
+    column: item.column
+  };
 }
 
 export class RedactionList {
   private element: HTMLDivElement;
   private items: RedactionItem[] = [];
+  private suppressed: SuppressedDetection[] = [];
   private activePage: number = 0;
   private onChange: (items: RedactionItem[]) => void;
   private onNavigate: (item: RedactionItem) => void;
+  private onFindMentions?: (item: RedactionItem) => void;
+  private onRedactColumn?: (item: RedactionItem) => void;
 
-  constructor(onChange: (items: RedactionItem[]) => void, onNavigate: (item: RedactionItem) => void) {
+  constructor(
+    onChange: (items: RedactionItem[]) => void,
+    onNavigate: (item: RedactionItem) => void,
+    onFindMentions?: (item: RedactionItem) => void,
+    onRedactColumn?: (item: RedactionItem) => void
+  ) {
     this.onChange = onChange;
     this.onNavigate = onNavigate;
+    this.onFindMentions = onFindMentions;
+    this.onRedactColumn = onRedactColumn;
     this.element = this.createList();
   }
 
@@ -39,6 +85,14 @@ export class RedactionList {
     this.render();
   }
 
+  /**
+   * Show how many matches the allow-list suppressed, grouped by reason
+   */
+  setSuppressed(suppressed: SuppressedDetection[]) {
+    this.suppressed = suppressed;
+    this.renderSuppressed();
+  }
+
   setActivePage(page: number) {
     this.activePage = page;
     this.highlightActivePage();
@@ -67,6 +121,10 @@ export class RedactionList {
     const oldEmpty = this.element.querySelector('.redaction-list-empty');
     if (oldEmpty) oldEmpty.remove();
 
+    const oldExemptions = this.element.querySelector<HTMLDetailsElement>('.redaction-list-exemptions');
+    const exemptionsOpen = oldExemptions?.open ?? false;
+    if (oldExemptions) oldExemptions.remove();
+
     if (this.items.length === 0) {
       const empty = document.createElement('p');
       empty.className = 'redaction-list-empty';
@@ -75,6 +133,12 @@ export class RedactionList {
       return;
     }
 
+    const codes = getActiveCodeSet().codes;
+    const typeExemptions = getTypeExemptions();
+    const exemptions = this.renderTypeExemptions(codes, typeExemptions);
+    exemptions.open = exemptionsOpen;
+    this.element.appendChild(exemptions);
+
     const list = document.createElement('ul');
     list.className = 'redaction-list-items';
 
@@ -123,18 +187,63 @@ export class RedactionList {
       label.textContent = this.truncate(item.text || '', 80);
       label.title = item.text;
 
+      const typeDefault = typeExemptions[exemptionTypeKey(item)];
+      const exemption = this.createExemptionSelect(
+        codes,
+        item.exemption,
+        typeDefault ? `${typeDefault} (type default)` : 'No exemption code'
+      );
+      exemption.className = 'redaction-list-item-exemption';
+      exemption.title = 'Exemption code printed on this box';
+      exemption.addEventListener('change', (event) => {
+        event.stopPropagation();
+        item.exemption = exemption.value || undefined;
+        this.onChange(this.items);
+      });
+
       li.appendChild(checkbox);
       li.appendChild(meta);
       li.appendChild(label);
+      li.appendChild(exemption);
+
+      if (this.onFindMentions && item.enabled) {
+        const findMentions = document.createElement('button');
+        findMentions.type = 'button';
+        findMentions.className = 'redaction-list-item-mentions';
+        findMentions.textContent = 'Find all mentions';
+        findMentions.title = `Find other mentions of "${item.text}"`;
+        findMentions.addEventListener('click', (event) => {
+          event.stopPropagation();
+          this.onFindMentions?.(item);
+        });
+        li.appendChild(findMentions);
+      }
+
+      // Spreadsheet cells: redact the rest of the column too
+      if (this.onRedactColumn && item.column !== undefined) {
+        const redactColumn = document.createElement('button');
+        redactColumn.type = 'button';
+        redactColumn.className = 'redaction-list-item-column';
+        redactColumn.textContent = 'Redact column';
+        redactColumn.title = 'Redact every cell in this column';
+        redactColumn.addEventListener('click', (event) => {
+          event.stopPropagation();
+          this.onRedactColumn?.(item);
+        });
+        li.appendChild(redactColumn);
+      }
 
       li.addEventListener('click', (event) => {
-        if ((event.target as HTMLElement).tagName === 'INPUT') {
+        if (['INPUT', 'BUTTON', 'SELECT'].includes((event.target as HTMLElement).tagName)) {
           return;
         }
         this.onNavigate(item);
       });
 
       li.addEventListener('keydown', (event) => {
+        if (event.target !== li) {
+          return;
+        }
         if (event.key === 'Enter' || event.key === ' ') {
           event.preventDefault();
           this.onNavigate(item);
@@ -148,6 +257,91 @@ export class RedactionList {
     this.element.appendChild(list);
   }
 
+  /**
+   * Default exemption codes per detection type, applied to every box of
+   * that type that has no code of its own
+   */
+  private renderTypeExemptions(codes: ExemptionCode[], typeExemptions: Record<string, string>): HTMLDetailsElement {
+    const details = document.createElement('details');
+    details.className = 'redaction-list-exemptions';
+
+    const summary = document.createElement('summary');
+    summary.textContent = 'Exemption codes by type';
+    details.appendChild(summary);
+
+    const typeKeys = new Set(this.items.map((item) => exemptionTypeKey(item)));
+    typeKeys.add('manual');
+
+    const rows = document.createElement('ul');
+    typeKeys.forEach((typeKey) => {
+      const row = document.createElement('li');
+
+      const label = document.createElement('span');
+      label.textContent = typeKey === 'manual' ? 'Drawn boxes' : typeKey.toUpperCase();
+
+      const select = this.createExemptionSelect(codes, typeExemptions[typeKey], 'No default');
+      select.setAttribute('aria-label', `Exemption code for ${label.textContent}`);
+      select.addEventListener('change', () => {
+        setTypeExemption(typeKey, select.value || null);
+        this.render();
+        this.onChange(this.items);
+      });
+
+      row.appendChild(label);
+      row.appendChild(select);
+      rows.appendChild(row);
+    });
+    details.appendChild(rows);
+
+    return details;
+  }
+
+  private createExemptionSelect(codes: ExemptionCode[], current: string | undefined, emptyLabel: string): HTMLSelectElement {
+    const select = document.createElement('select');
+    const options = current && !codes.some((c) => c.code === current)
+      ? [...codes, { code: current, description: '' }]
+      : codes;
+
+    select.appendChild(new Option(emptyLabel, ''));
+    options.forEach(({ code, description }) => {
+      const option = new Option(code, code, false, code === current);
+      option.title = description;
+      select.appendChild(option);
+    });
+
+    return select;
+  }
+
+  private renderSuppressed() {
+    const oldSummary = this.element.querySelector('.redaction-list-suppressed');
+    if (oldSummary) oldSummary.remove();
+
+    if (this.suppressed.length === 0) {
+      return;
+    }
+
+    const byReason = new Map<string, number>();
+    this.suppressed.forEach(({ reason }) => byReason.set(reason, (byReason.get(reason) || 0) + 1));
+
+    const details = document.createElement('details');
+    details.className = 'redaction-list-suppressed';
+
+    const summary = document.createElement('summary');
+    const noun = this.suppressed.length === 1 ? 'match' : 'matches';
+    summary.textContent = `${this.suppressed.length} allow-listed ${noun} suppressed`;
+    details.appendChild(summary);
+
+    const reasons = document.createElement('ul');
+    byReason.forEach((count, reason) => {
+      const li = document.createElement('li');
+      li.textContent = `${reason} (${count})`;
+      reasons.appendChild(li);
+    });
+    details.appendChild(reasons);
+
+    this.element.querySelector('.redaction-list-title')!.after(details);
+  }
+
   private truncate(text: string, max: number): string {
     if (text.length <= max) return text;
     return `${text.substring(0, max)}…`;
@@ -7,6 +7,7 @@
 
 import type { SanitizeOptions } from '../../lib/pdf/sanitize';
 import { analyzePDF } from '../../lib/pdf/sanitize';
+import type { PdfExportMode } from '../../lib/pdf/export';
 
 export interface SanitizeOptionsConfig extends SanitizeOptions {
   // UI state
@@ -15,7 +16,8 @@ export interface SanitizeOptionsConfig extends SanitizeOptions {
 export class SanitizeOptionsModal {
   private element: HTMLElement;
   private options: SanitizeOptions;
-  private onApply: (options: SanitizeOptions) => void;
+  private exportMode: PdfExportMode;
+  private onApply: (options: SanitizeOptions, exportMode: PdfExportMode) => void;
   private onCancel: () => void;
 
   // Analysis results
@@ -32,7 +34,7 @@ export class SanitizeOptionsModal {
 
   constructor(
     pdfBytes: Uint8Array | null,
-    onApply: (options: SanitizeOptions) => void,
+    onApply: (options: SanitizeOptions, exportMode: PdfExportMode) => void,
     onCancel: () => void
   ) {
     this.onApply = onApply;
@@ -40,6 +42,7 @@ export class SanitizeOptionsModal {
 
     // Load saved options or use defaults
     this.options = this.loadOptions();
+    this.exportMode = SanitizeOptionsModal.loadExportMode();
 
     // Analyze PDF if provided
     if (pdfBytes) {
@@ -339,6 +342,41 @@ export class SanitizeOptionsModal {
             </label>
           </div>
 
+          <!-- Export Mode -->
+          <fieldset class="export-mode-options">
+            <legend class="option-title">Redaction Mode</legend>
+            <label class="sanitize-option">
+              <input
+                type="radio"
+                name="exportMode"
+                value="rasterize"
+                ${this.exportMode === 'rasterize' ? 'checked' : ''}
+                aria-describedby="desc-rasterize"
+              />
+              <div class="option-content">
+                <div class="option-title">Flatten to Images</div>
+                <div class="option-description" id="desc-rasterize">
+                  Convert every page to an image. No text layer survives, but text is no longer searchable
+                </div>
+              </div>
+            </label>
+            <label class="sanitize-option">
+              <input
+                type="radio"
+                name="exportMode"
+                value="true-redaction"
+                ${this.exportMode === 'true-redaction' ? 'checked' : ''}
+                aria-describedby="desc-true-redaction"
+              />
+              <div class="option-content">
+                <div class="option-title">True Redaction (Keep Text)</div>
+                <div class="option-description" id="desc-true-redaction">
+                  Remove text and images under each box and keep the rest of the document selectable and searchable
+                </div>
+              </div>
+            </label>
+          </fieldset>
+
           <!-- Quick Actions -->
           <div class="sanitize-quick-actions">
             <button class="btn-text" data-action="select-all">Select All</button>
@@ -394,6 +432,14 @@ export class SanitizeOptionsModal {
       checkbox.addEventListener('change', () => this.updateOptions());
     });
 
+    // Export mode
+    const modeRadios = this.element.querySelectorAll('input[name="exportMode"]');
+    modeRadios.forEach(radio => {
+      radio.addEventListener('change', () => {
+        this.exportMode = (radio as HTMLInputElement).value as PdfExportMode;
+      });
+    });
+
     // Keyboard navigation
     this.element.addEventListener('keydown', (e) => {
       if (e.key === 'Escape') {
@@ -473,7 +519,7 @@ export class SanitizeOptionsModal {
    */
   private apply(): void {
     this.saveOptions();
-    this.onApply(this.options);
+    this.onApply(this.options, this.exportMode);
     this.destroy();
   }
 
@@ -511,12 +557,23 @@ export class SanitizeOptionsModal {
     };
   }
 
+  /**
+   * Load export mode from localStorage
+   * Batch export reads it too, so that it uses the last mode chosen here
+   */
+  static loadExportMode(): PdfExportMode {
+    return localStorage.getItem('pdf-export-mode') === 'true-redaction'
+      ? 'true-redaction'
+      : 'rasterize';
+  }
+
   /**
    * Save options to localStorage
    */
   private saveOptions(): void {
     try {
       localStorage.setItem('sanitize-options', JSON.stringify(this.options));
+      localStorage.setItem('pdf-export-mode', this.exportMode);
     } catch (error) {
       console.warn('Failed to save sanitize options:', error);
     }
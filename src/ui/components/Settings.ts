@@ -1,9 +1,33 @@
 import { mlDetector, type ProgressCallback } from '../../lib/detect/ml';
+import { ML_MODELS, getLocalModelPath, setLocalModelPath } from '../../lib/detect/models';
+import { detectionService } from '../../lib/detect/service';
 import { themeManager } from '../../lib/theme';
 import { ariaAnnouncer } from '../../lib/a11y';
-import { customPatternRegistry } from '../../lib/detect/custom';
-import type { CustomPattern } from '../../lib/detect/custom';
+import { customPatternRegistry, allowListRegistry, parseTermList } from '../../lib/detect/custom';
+import type { AllowListRuleKind } from '../../lib/detect/custom';
 import { PatternBuilder } from './PatternBuilder';
+import { getProjectSecret, setProjectSecret, generateProjectSecret } from '../../lib/pseudonymize';
+import {
+  getCodeSets,
+  getCustomCodeSets,
+  getActiveCodeSet,
+  setActiveCodeSet,
+  addCustomCodeSet,
+  deleteCustomCodeSet,
+  parseCodeList,
+  getLabelPlacement,
+  setLabelPlacement,
+  isIndexPageEnabled,
+  setIndexPageEnabled,
+  type LabelPlacement
+} from '../../lib/exemptions';
+import {
+  auditLog,
+  isCertificateEnabled,
+  setCertificateEnabled,
+  isCloudUploadEnabled,
+  setCloudUploadEnabled
+} from '../../lib/audit';
 
 /**
  * Settings modal for ML detection configuration and theme selection
@@ -99,19 +123,24 @@ export class Settings {
                 <span>Model: Not Loaded</span>
               </div>
 
-              <div class="model-details">
-                <div class="model-detail">
-                  <span class="detail-label">Model:</span>
-                  <span class="detail-value">Xenova/bert-base-NER</span>
-                </div>
-                <div class="model-detail">
-                  <span class="detail-label">Size:</span>
-                  <span class="detail-value">~110MB</span>
-                </div>
-                <div class="model-detail">
-                  <span class="detail-label">Cache:</span>
-                  <span class="detail-value" id="cache-status">Browser Storage</span>
-                </div>
+              <div class="form-group">
+                <label for="ml-model-select">Model</label>
+                <select id="ml-model-select">
+                  ${ML_MODELS.map(model => `
+                    <option value="${this.escapeHtml(model.id)}" ${model.id === mlDetector.getModel().id ? 'selected' : ''}>
+                      ${this.escapeHtml(model.name)}
+                    </option>
+                  `).join('')}
+                </select>
+              </div>
+
+              <div class="model-details" id="model-details">
+                ${this.renderModelDetails()}
+              </div>
+
+              <div class="form-group">
+                <label for="ml-local-path">Local Model Directory (optional, for offline use)</label>
+                <input type="text" id="ml-local-path" value="${this.escapeHtml(getLocalModelPath() ?? '')}" placeholder="e.g., /models/" />
               </div>
 
               <!-- Progress Bar (hidden by default) -->
@@ -156,6 +185,17 @@ export class Settings {
                 <span class="slider-label">High (95%)</span>
               </div>
             </div>
+
+            <!-- Detection Workers -->
+            <div class="settings-subsection">
+              <label for="detection-pool-size" class="subsection-label">Detection Workers</label>
+              <p class="settings-description">
+                Pages are analyzed in parallel in background workers. More workers finish long documents sooner but use more memory, since each loads its own copy of the ML model.
+              </p>
+              <div class="form-group">
+                <input type="number" id="detection-pool-size" min="1" max="8" value="${detectionService.getPoolSize()}" />
+              </div>
+            </div>
           </div>
 
           <!-- Privacy Notice -->
@@ -217,6 +257,278 @@ export class Settings {
               </button>
             </div>
           </div>
+
+          <div class="settings-section">
+            <div class="settings-section-header">
+              <h3>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"/>
+                  <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"/>
+                </svg>
+                Term Lists
+              </h3>
+            </div>
+
+            <p class="settings-description">
+              Redact known names and codenames wherever they appear. Matching ignores case, accents and possessives, and can tolerate OCR typos.
+            </p>
+
+            <!-- Term List List -->
+            <div id="term-list-list" class="pattern-list">
+              ${this.renderTermLists()}
+            </div>
+
+            <!-- New Term List -->
+            <div class="term-list-form">
+              <div class="form-group">
+                <label for="term-list-name">List Name</label>
+                <input type="text" id="term-list-name" placeholder="e.g., Employee Names" maxlength="50" />
+              </div>
+              <div class="form-group">
+                <label for="term-list-terms">Terms (one per line)</label>
+                <textarea id="term-list-terms" rows="4" placeholder="Jane Doe&#10;Project Falcon"></textarea>
+              </div>
+              <div class="form-group checkbox-group">
+                <label>
+                  <input type="checkbox" id="term-list-fuzzy" />
+                  <span>Tolerate OCR typos</span>
+                </label>
+              </div>
+            </div>
+
+            <div class="pattern-actions">
+              <button class="btn-primary" id="add-term-list-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <line x1="12" y1="5" x2="12" y2="19"/>
+                  <line x1="5" y1="12" x2="19" y2="12"/>
+                </svg>
+                Add List
+              </button>
+              <button class="btn-secondary" id="upload-term-list-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                  <polyline points="7 10 12 15 17 10"/>
+                  <line x1="12" y1="15" x2="12" y2="3"/>
+                </svg>
+                Upload CSV/TXT
+              </button>
+            </div>
+          </div>
+
+          <div class="settings-section">
+            <div class="settings-section-header">
+              <h3>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
+                  <polyline points="9 12 11 14 15 10"/>
+                </svg>
+                Allow-List
+              </h3>
+            </div>
+
+            <p class="settings-description">
+              Never redact known-safe values such as your support email, public phone number or test card numbers.
+            </p>
+
+            <div class="form-group">
+              <label for="allow-list-profile">Active Profile</label>
+              <input type="text" id="allow-list-profile" list="allow-list-profiles" value="${this.escapeHtml(allowListRegistry.getActiveProfile())}" maxlength="50" />
+              <datalist id="allow-list-profiles">
+                ${allowListRegistry.getProfiles().map(p => `<option value="${this.escapeHtml(p)}"></option>`).join('')}
+              </datalist>
+            </div>
+
+            <!-- Rule List -->
+            <div id="allow-rule-list" class="pattern-list">
+              ${this.renderAllowRules()}
+            </div>
+
+            <!-- New Rule -->
+            <div class="term-list-form">
+              <div class="form-group">
+                <label for="allow-rule-kind">Match</label>
+                <select id="allow-rule-kind">
+                  <option value="exact">Exact value</option>
+                  <option value="domain">Email/URL domain</option>
+                  <option value="regex">Regular expression</option>
+                  <option value="context">Type near words</option>
+                </select>
+              </div>
+              <div class="form-group">
+                <label for="allow-rule-value">Value</label>
+                <input type="text" id="allow-rule-value" placeholder="e.g., support@example.com or @example.com" />
+              </div>
+              <div class="form-group">
+                <label for="allow-rule-type">Detection Type (optional)</label>
+                <input type="text" id="allow-rule-type" placeholder="e.g., phone" />
+              </div>
+              <div class="form-group">
+                <label for="allow-rule-context">Context Words (comma-separated, for "Type near words")</label>
+                <input type="text" id="allow-rule-context" placeholder="e.g., customer service, call us" />
+              </div>
+              <div class="form-group">
+                <label for="allow-rule-reason">Reason (optional)</label>
+                <input type="text" id="allow-rule-reason" placeholder="e.g., Public support line" maxlength="100" />
+              </div>
+              <div class="form-group checkbox-group">
+                <label>
+                  <input type="checkbox" id="allow-rule-profile-only" />
+                  <span>Only for the active profile</span>
+                </label>
+              </div>
+            </div>
+
+            <div class="pattern-actions">
+              <button class="btn-primary" id="add-allow-rule-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <line x1="12" y1="5" x2="12" y2="19"/>
+                  <line x1="5" y1="12" x2="19" y2="12"/>
+                </svg>
+                Add Rule
+              </button>
+              <button class="btn-secondary" id="import-allow-rules-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                  <polyline points="7 10 12 15 17 10"/>
+                  <line x1="12" y1="15" x2="12" y2="3"/>
+                </svg>
+                Import
+              </button>
+              <button class="btn-secondary" id="export-allow-rules-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                  <polyline points="17 8 12 3 7 8"/>
+                  <line x1="12" y1="3" x2="12" y2="15"/>
+                </svg>
+                Export
+              </button>
+            </div>
+          </div>
+
+          <div class="settings-section">
+            <div class="settings-section-header">
+              <h3>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"/>
+                </svg>
+                Pseudonymization
+              </h3>
+            </div>
+
+            <p class="settings-description">
+              With "Pseudonymize text exports" on, TXT and CSV exports replace each redacted value with a consistent fake one. The project secret decides the mapping: share it to get matching pseudonyms on another machine, and keep it private, since anyone with it and a guessed value can confirm the match.
+            </p>
+
+            <div class="form-group">
+              <label for="project-secret">Project Secret</label>
+              <input type="text" id="project-secret" value="${this.escapeHtml(getProjectSecret())}" spellcheck="false" autocomplete="off" />
+            </div>
+
+            <div class="pattern-actions">
+              <button class="btn-secondary" id="generate-project-secret-btn">New Secret</button>
+            </div>
+          </div>
+
+          <div class="settings-section">
+            <div class="settings-section-header">
+              <h3>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"/>
+                  <line x1="7" y1="7" x2="7.01" y2="7"/>
+                </svg>
+                Exemption Codes
+              </h3>
+            </div>
+
+            <p class="settings-description">
+              Print the legal basis for each redaction on its box, such as FOIA "(b)(6)". Assign codes per detection or per type in the Detections list; exported PDFs end with an index of the codes used and where.
+            </p>
+
+            <div class="form-group">
+              <label for="exemption-code-set">Code Set</label>
+              <select id="exemption-code-set">
+                ${this.renderCodeSetOptions()}
+              </select>
+            </div>
+
+            <div class="form-group">
+              <label for="exemption-label-placement">Label Position</label>
+              <select id="exemption-label-placement">
+                <option value="inside" ${getLabelPlacement() === 'inside' ? 'selected' : ''}>Inside the box (beside it when too small)</option>
+                <option value="beside" ${getLabelPlacement() === 'beside' ? 'selected' : ''}>Beside the box</option>
+              </select>
+            </div>
+
+            <div class="form-group checkbox-group">
+              <label>
+                <input type="checkbox" id="exemption-index-page" ${isIndexPageEnabled() ? 'checked' : ''} />
+                <span>Append an exemption index page to exported PDFs</span>
+              </label>
+            </div>
+
+            <div id="code-set-list" class="pattern-list">
+              ${this.renderCustomCodeSets()}
+            </div>
+
+            <div class="term-list-form">
+              <div class="form-group">
+                <label for="code-set-name">Custom Set Name</label>
+                <input type="text" id="code-set-name" placeholder="e.g., Litigation" maxlength="50" />
+              </div>
+              <div class="form-group">
+                <label for="code-set-codes">Codes (one per line, "CODE - description")</label>
+                <textarea id="code-set-codes" rows="4" placeholder="PRIVILEGED - Attorney-client privilege&#10;WORK PRODUCT - Attorney work product"></textarea>
+              </div>
+            </div>
+
+            <div class="pattern-actions">
+              <button class="btn-primary" id="add-code-set-btn">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <line x1="12" y1="5" x2="12" y2="19"/>
+                  <line x1="5" y1="12" x2="19" y2="12"/>
+                </svg>
+                Add Code Set
+              </button>
+            </div>
+          </div>
+
+          <div class="settings-section">
+            <div class="settings-section-header">
+              <h3>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                  <polyline points="14 2 14 8 20 8"/>
+                  <polyline points="9 15 11 17 15 13"/>
+                </svg>
+                Audit Log
+              </h3>
+            </div>
+
+            <p class="settings-description">
+              Every export is recorded on this device: file hashes before and after, each box's type, source, confidence and position (never the redacted text), sanitization, detector versions and who was signed in. Each record includes the hash of the one before, so edited or deleted records are detected.
+            </p>
+
+            <div class="form-group checkbox-group">
+              <label>
+                <input type="checkbox" id="audit-certificate" ${isCertificateEnabled() ? 'checked' : ''} />
+                <span>Save a redaction certificate (PDF) with each export</span>
+              </label>
+            </div>
+
+            <div class="form-group checkbox-group">
+              <label>
+                <input type="checkbox" id="audit-cloud-upload" ${isCloudUploadEnabled() ? 'checked' : ''} />
+                <span>Upload audit records to cloud storage when signed in</span>
+              </label>
+            </div>
+
+            <div id="audit-log-status" class="settings-description" aria-live="polite"></div>
+
+            <div class="pattern-actions">
+              <button class="btn-secondary" id="verify-audit-log-btn">Verify Log</button>
+              <button class="btn-secondary" id="download-audit-log-btn">Download Log</button>
+            </div>
+          </div>
         </div>
 
         <div class="settings-footer">
@@ -242,6 +554,89 @@ export class Settings {
     const mlToggle = this.element.querySelector('#ml-enabled-toggle') as HTMLInputElement;
     mlToggle?.addEventListener('change', () => this.handleMLToggle(mlToggle.checked));
 
+    // Model selection
+    const modelSelect = this.element.querySelector('#ml-model-select') as HTMLSelectElement | null;
+    modelSelect?.addEventListener('change', () => this.handleModelChange(modelSelect.value));
+
+    const localPathInput = this.element.querySelector('#ml-local-path') as HTMLInputElement | null;
+    localPathInput?.addEventListener('change', () => {
+      setLocalModelPath(localPathInput.value);
+      localPathInput.value = getLocalModelPath() ?? '';
+      this.refreshModelDetails();
+    });
+
+    // Detection worker pool
+    const poolSizeInput = this.element.querySelector('#detection-pool-size') as HTMLInputElement | null;
+    poolSizeInput?.addEventListener('change', () => {
+      detectionService.setPoolSize(Number(poolSizeInput.value) || 1);
+      poolSizeInput.value = String(detectionService.getPoolSize());
+    });
+
+    // Pseudonymization secret
+    const secretInput = this.element.querySelector('#project-secret') as HTMLInputElement | null;
+    secretInput?.addEventListener('change', () => {
+      try {
+        setProjectSecret(secretInput.value);
+        ariaAnnouncer.announce('Project secret updated', { priority: 'polite' });
+      } catch (error) {
+        alert((error as Error).message);
+      }
+      secretInput.value = getProjectSecret();
+    });
+
+    const generateSecretBtn = this.element.querySelector('#generate-project-secret-btn');
+    generateSecretBtn?.addEventListener('click', () => {
+      if (!confirm('Pseudonyms from earlier exports will no longer match. Create a new secret?')) return;
+      setProjectSecret(generateProjectSecret());
+      if (secretInput) secretInput.value = getProjectSecret();
+      ariaAnnouncer.announce('New project secret created', { priority: 'polite' });
+    });
+
+    // Exemption codes
+    const codeSetSelect = this.element.querySelector('#exemption-code-set') as HTMLSelectElement | null;
+    codeSetSelect?.addEventListener('change', () => {
+      setActiveCodeSet(codeSetSelect.value);
+      ariaAnnouncer.announce(`Using ${getActiveCodeSet().name} exemption codes`, { priority: 'polite' });
+    });
+
+    const placementSelect = this.element.querySelector('#exemption-label-placement') as HTMLSelectElement | null;
+    placementSelect?.addEventListener('change', () => {
+      setLabelPlacement(placementSelect.value as LabelPlacement);
+    });
+
+    const indexPageToggle = this.element.querySelector('#exemption-index-page') as HTMLInputElement | null;
+    indexPageToggle?.addEventListener('change', () => {
+      setIndexPageEnabled(indexPageToggle.checked);
+    });
+
+    this.element.querySelector('#add-code-set-btn')?.addEventListener('click', () => this.handleAddCodeSet());
+
+    // Audit log
+    const certificateToggle = this.element.querySelector('#audit-certificate') as HTMLInputElement | null;
+    certificateToggle?.addEventListener('change', () => {
+      setCertificateEnabled(certificateToggle.checked);
+    });
+
+    const cloudUploadToggle = this.element.querySelector('#audit-cloud-upload') as HTMLInputElement | null;
+    cloudUploadToggle?.addEventListener('change', () => {
+      setCloudUploadEnabled(cloudUploadToggle.checked);
+    });
+
+    this.element.querySelector('#verify-audit-log-btn')?.addEventListener('click', () => {
+      void this.handleVerifyAuditLog();
+    });
+    this.element.querySelector('#download-audit-log-btn')?.addEventListener('click', () => {
+      void this.handleDownloadAuditLog();
+    });
+
+    this.element.querySelector('#code-set-list')?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('[data-action="delete"]');
+      const setId = button?.getAttribute('data-code-set-id');
+      if (setId) {
+        this.handleDeleteCodeSet(setId);
+      }
+    });
+
     // Load model button
     const loadBtn = this.element.querySelector('#load-model-btn');
     loadBtn?.addEventListener('click', () => this.handleLoadModel());
@@ -310,6 +705,76 @@ export class Settings {
         }
       }
     });
+
+    // Term list buttons
+    const addTermListBtn = this.element.querySelector('#add-term-list-btn');
+    addTermListBtn?.addEventListener('click', () => this.handleAddTermList());
+
+    const uploadTermListBtn = this.element.querySelector('#upload-term-list-btn');
+    uploadTermListBtn?.addEventListener('click', () => this.handleUploadTermList());
+
+    // Term list event delegation
+    const termListList = this.element.querySelector('#term-list-list');
+    termListList?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button[data-action="delete"]');
+      const listId = button?.getAttribute('data-term-list-id');
+      if (listId) {
+        this.handleDeleteTermList(listId);
+      }
+    });
+
+    // Allow-list
+    const profileInput = this.element.querySelector('#allow-list-profile') as HTMLInputElement | null;
+    profileInput?.addEventListener('change', () => {
+      allowListRegistry.setActiveProfile(profileInput.value);
+      profileInput.value = allowListRegistry.getActiveProfile();
+      this.refreshAllowRules();
+      ariaAnnouncer.announce(`Allow-list profile set to ${profileInput.value}`, { priority: 'polite' });
+    });
+
+    const addAllowRuleBtn = this.element.querySelector('#add-allow-rule-btn');
+    addAllowRuleBtn?.addEventListener('click', () => this.handleAddAllowRule());
+
+    const importAllowRulesBtn = this.element.querySelector('#import-allow-rules-btn');
+    importAllowRulesBtn?.addEventListener('click', () => this.handleImportAllowRules());
+
+    const exportAllowRulesBtn = this.element.querySelector('#export-allow-rules-btn');
+    exportAllowRulesBtn?.addEventListener('click', () => this.handleExportAllowRules());
+
+    const allowRuleList = this.element.querySelector('#allow-rule-list');
+    allowRuleList?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button[data-action="delete"]');
+      const ruleId = button?.getAttribute('data-rule-id');
+      if (ruleId) {
+        allowListRegistry.deleteRule(ruleId);
+        this.refreshAllowRules();
+        ariaAnnouncer.announce('Allow-list rule deleted', { priority: 'polite' });
+      }
+    });
+
+    allowRuleList?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.classList.contains('allow-rule-enabled-toggle')) {
+        const ruleId = target.getAttribute('data-rule-id');
+        if (ruleId) {
+          allowListRegistry.toggleRule(ruleId);
+          this.refreshAllowRules();
+          ariaAnnouncer.announce(`Allow-list rule ${target.checked ? 'enabled' : 'disabled'}`, { priority: 'polite' });
+        }
+      }
+    });
+
+    termListList?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.classList.contains('term-list-enabled-toggle')) {
+        const listId = target.getAttribute('data-term-list-id');
+        if (listId) {
+          customPatternRegistry.toggleTermList(listId);
+          this.refreshTermLists();
+          ariaAnnouncer.announce(`Term list ${target.checked ? 'enabled' : 'disabled'}`, { priority: 'polite' });
+        }
+      }
+    });
   }
 
   private renderThemeOptions(): string {
@@ -384,6 +849,98 @@ export class Settings {
     `).join('');
   }
 
+  private renderTermLists(): string {
+    const lists = customPatternRegistry.getAllTermLists();
+
+    if (lists.length === 0) {
+      return `
+        <div class="pattern-empty">
+          <p>No term lists yet</p>
+          <p class="empty-hint">Paste names or upload a CSV/TXT file to redact them everywhere</p>
+        </div>
+      `;
+    }
+
+    return lists.map(list => `
+      <div class="pattern-item ${list.enabled ? '' : 'pattern-disabled'}" data-term-list-id="${list.id}">
+        <div class="pattern-header">
+          <div class="pattern-info">
+            <h4 class="pattern-name">${this.escapeHtml(list.name)}</h4>
+            <code class="pattern-regex">${this.escapeHtml(this.truncateText(list.terms.join(', '), 50))}</code>
+          </div>
+          <label class="pattern-toggle">
+            <input type="checkbox" class="term-list-enabled-toggle" data-term-list-id="${list.id}" ${list.enabled ? 'checked' : ''}>
+            <span class="toggle-slider-small"></span>
+          </label>
+        </div>
+        <div class="pattern-meta">
+          <span class="pattern-type badge-${list.type}">${list.terms.length} terms</span>
+          ${list.maxEditDistance > 0 ? '<span class="pattern-usage">Fuzzy</span>' : ''}
+          ${list.usageCount ? `<span class="pattern-usage">Used ${list.usageCount}×</span>` : ''}
+        </div>
+        <div class="pattern-actions-inline">
+          <button class="btn-icon btn-danger" data-action="delete" data-term-list-id="${list.id}" title="Delete term list">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <polyline points="3 6 5 6 21 6"/>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+            </svg>
+          </button>
+        </div>
+      </div>
+    `).join('');
+  }
+
+  private renderAllowRules(): string {
+    const rules = allowListRegistry.getAllRules();
+
+    if (rules.length === 0) {
+      return `
+        <div class="pattern-empty">
+          <p>No allow-list rules yet</p>
+          <p class="empty-hint">Add values that should never be redacted</p>
+        </div>
+      `;
+    }
+
+    const activeProfile = allowListRegistry.getActiveProfile();
+
+    return rules.map(rule => {
+      const inProfile = !rule.profiles?.length || rule.profiles.includes(activeProfile);
+      const label = rule.kind === 'context'
+        ? `${rule.detectionType} near ${(rule.context ?? []).join(', ')}`
+        : rule.value;
+
+      return `
+        <div class="pattern-item ${rule.enabled && inProfile ? '' : 'pattern-disabled'}" data-rule-id="${rule.id}">
+          <div class="pattern-header">
+            <div class="pattern-info">
+              <h4 class="pattern-name">${this.escapeHtml(this.truncateText(label, 50))}</h4>
+              ${rule.reason ? `<span class="pattern-description">${this.escapeHtml(rule.reason)}</span>` : ''}
+            </div>
+            <label class="pattern-toggle">
+              <input type="checkbox" class="allow-rule-enabled-toggle" data-rule-id="${rule.id}" ${rule.enabled ? 'checked' : ''}>
+              <span class="toggle-slider-small"></span>
+            </label>
+          </div>
+          <div class="pattern-meta">
+            <span class="pattern-type">${rule.kind}</span>
+            ${rule.detectionType && rule.kind !== 'context' ? `<span class="pattern-usage">${this.escapeHtml(rule.detectionType)} only</span>` : ''}
+            ${rule.profiles?.length ? `<span class="pattern-usage">${this.escapeHtml(rule.profiles.join(', '))}</span>` : ''}
+            ${rule.suppressedCount ? `<span class="pattern-usage">Suppressed ${rule.suppressedCount}×</span>` : ''}
+          </div>
+          <div class="pattern-actions-inline">
+            <button class="btn-icon btn-danger" data-action="delete" data-rule-id="${rule.id}" title="Delete rule">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <polyline points="3 6 5 6 21 6"/>
+                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+      `;
+    }).join('');
+  }
+
   private truncateText(text: string, maxLength: number): string {
     if (text.length <= maxLength) return text;
     return text.substring(0, maxLength) + '...';
@@ -465,6 +1022,65 @@ export class Settings {
     this.onMLToggle(enabled);
   }
 
+  private renderModelDetails(): string {
+    const model = mlDetector.getModel();
+    const localPath = getLocalModelPath();
+    const source = localPath
+      ? `${localPath}${model.id}/`
+      : model.hosted ? 'Hugging Face Hub' : 'Local directory required';
+
+    return `
+      <div class="model-detail">
+        <span class="detail-label">Model:</span>
+        <span class="detail-value">${this.escapeHtml(model.id)}</span>
+      </div>
+      <div class="model-detail">
+        <span class="detail-label">Size:</span>
+        <span class="detail-value">~${model.sizeMB}MB</span>
+      </div>
+      <div class="model-detail">
+        <span class="detail-label">Languages:</span>
+        <span class="detail-value">${this.escapeHtml(model.languages.join(', '))}</span>
+      </div>
+      <div class="model-detail">
+        <span class="detail-label">Source:</span>
+        <span class="detail-value">${this.escapeHtml(source)}</span>
+      </div>
+      <div class="model-detail">
+        <span class="detail-label">Cache:</span>
+        <span class="detail-value" id="cache-status">Browser Storage</span>
+      </div>
+    `;
+  }
+
+  private refreshModelDetails(): void {
+    const details = this.element.querySelector('#model-details');
+    if (details) {
+      details.innerHTML = this.renderModelDetails();
+    }
+  }
+
+  private async handleModelChange(id: string): Promise<void> {
+    const modelSelect = this.element.querySelector('#ml-model-select') as HTMLSelectElement;
+
+    try {
+      await mlDetector.setModel(id);
+    } catch (error) {
+      console.error('[Settings] Failed to switch model:', error);
+      alert(error instanceof Error ? error.message : 'Failed to switch model');
+      modelSelect.value = mlDetector.getModel().id;
+      return;
+    }
+
+    this.refreshModelDetails();
+    this.updateStatus();
+
+    // Load the new model straight away if ML detection is on
+    if (this.mlEnabled) {
+      void this.handleLoadModel();
+    }
+  }
+
   private async handleLoadModel(): Promise<void> {
     const loadBtn = this.element.querySelector('#load-model-btn') as HTMLButtonElement;
     const progressEl = this.element.querySelector('#model-progress') as HTMLElement;
@@ -517,7 +1133,7 @@ export class Settings {
   private async handleClearCache(): Promise<void> {
     const clearBtn = this.element.querySelector('#clear-cache-btn') as HTMLButtonElement;
 
-    if (!confirm('Clear ML model cache? You will need to download the model again (110MB).')) {
+    if (!confirm(`Clear ML model cache? You will need to download the model again (${mlDetector.getModel().sizeMB}MB).`)) {
       return;
     }
 
@@ -714,6 +1330,307 @@ export class Settings {
     }
   }
 
+  /**
+   * Check the audit log's hash chain
+   */
+  private async handleVerifyAuditLog(): Promise<void> {
+    const status = this.element.querySelector('#audit-log-status');
+    try {
+      const result = await auditLog.verify();
+      const message = result.valid
+        ? `Audit log intact: ${result.checked} record${result.checked === 1 ? '' : 's'} verified.`
+        : `Audit log broken at record ${result.brokenAt}: ${result.reason}.`;
+      if (status) status.textContent = message;
+      ariaAnnouncer.announce(message, { priority: result.valid ? 'polite' : 'assertive' });
+    } catch (error) {
+      alert(`Verification failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Download every audit record as JSON
+   */
+  private async handleDownloadAuditLog(): Promise<void> {
+    try {
+      const records = await auditLog.list();
+      const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `aegis-audit-log-${Date.now()}.json`;
+      a.click();
+
+      URL.revokeObjectURL(url);
+      ariaAnnouncer.announce(`Downloaded ${records.length} audit records`, { priority: 'polite' });
+    } catch (error) {
+      alert(`Download failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Handle add term list button (pasted terms)
+   */
+  private handleAddTermList(): void {
+    const nameInput = this.element.querySelector('#term-list-name') as HTMLInputElement;
+    const termsInput = this.element.querySelector('#term-list-terms') as HTMLTextAreaElement;
+
+    const terms = parseTermList(termsInput.value, 'txt');
+    if (terms.length === 0) {
+      alert('Enter at least one term');
+      return;
+    }
+
+    this.saveTermList(nameInput.value.trim() || 'Term List', terms);
+    nameInput.value = '';
+    termsInput.value = '';
+  }
+
+  /**
+   * Handle upload term list button
+   */
+  private handleUploadTermList(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.txt';
+
+    input.addEventListener('change', async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const text = await file.text();
+        const terms = parseTermList(text, file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'txt');
+        const nameInput = this.element.querySelector('#term-list-name') as HTMLInputElement;
+        this.saveTermList(nameInput.value.trim() || file.name.replace(/\.\w+$/, ''), terms);
+        nameInput.value = '';
+      } catch (error) {
+        alert(`Upload failed: ${(error as Error).message}`);
+      }
+    });
+
+    input.click();
+  }
+
+  private saveTermList(name: string, terms: string[]): void {
+    const fuzzyInput = this.element.querySelector('#term-list-fuzzy') as HTMLInputElement;
+
+    try {
+      customPatternRegistry.addTermList({
+        name,
+        terms,
+        type: 'custom',
+        caseSensitive: false,
+        maxEditDistance: fuzzyInput.checked ? 1 : 0,
+        matchVariants: true,
+        enabled: true
+      });
+      this.refreshTermLists();
+      ariaAnnouncer.announce(`Term list added with ${terms.length} terms`, { priority: 'polite' });
+    } catch (error) {
+      alert(`Failed to add term list: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Handle delete term list button
+   */
+  private handleDeleteTermList(listId: string): void {
+    const list = customPatternRegistry.getTermList(listId);
+    if (!list) return;
+
+    if (confirm(`Delete term list "${list.name}"?`)) {
+      customPatternRegistry.deleteTermList(listId);
+      this.refreshTermLists();
+      ariaAnnouncer.announce('Term list deleted', { priority: 'polite' });
+    }
+  }
+
+  /**
+   * Refresh term list UI
+   */
+  private refreshTermLists(): void {
+    const termListList = this.element.querySelector('#term-list-list');
+    if (termListList) {
+      termListList.innerHTML = this.renderTermLists();
+    }
+  }
+
+  private renderCodeSetOptions(): string {
+    const activeId = getActiveCodeSet().id;
+    return getCodeSets().map(set => `
+      <option value="${this.escapeHtml(set.id)}" ${set.id === activeId ? 'selected' : ''}>${this.escapeHtml(set.name)}</option>
+    `).join('');
+  }
+
+  private renderCustomCodeSets(): string {
+    const sets = getCustomCodeSets();
+
+    if (sets.length === 0) {
+      return `
+        <div class="pattern-empty">
+          <p>No custom code sets yet</p>
+          <p class="empty-hint">Add your own codes, e.g. PRIVILEGED or state statute citations</p>
+        </div>
+      `;
+    }
+
+    return sets.map(set => `
+      <div class="pattern-item" data-code-set-id="${this.escapeHtml(set.id)}">
+        <div class="pattern-header">
+          <div class="pattern-info">
+            <h4 class="pattern-name">${this.escapeHtml(set.name)}</h4>
+            <code class="pattern-regex">${this.escapeHtml(this.truncateText(set.codes.map(c => c.code).join(', '), 50))}</code>
+          </div>
+        </div>
+        <div class="pattern-meta">
+          <span class="pattern-type">${set.codes.length} codes</span>
+        </div>
+        <div class="pattern-actions-inline">
+          <button class="btn-icon btn-danger" data-action="delete" data-code-set-id="${this.escapeHtml(set.id)}" title="Delete code set">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <polyline points="3 6 5 6 21 6"/>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+            </svg>
+          </button>
+        </div>
+      </div>
+    `).join('');
+  }
+
+  /**
+   * Handle add code set button
+   */
+  private handleAddCodeSet(): void {
+    const nameInput = this.element.querySelector('#code-set-name') as HTMLInputElement;
+    const codesInput = this.element.querySelector('#code-set-codes') as HTMLTextAreaElement;
+
+    try {
+      const set = addCustomCodeSet(nameInput.value, parseCodeList(codesInput.value));
+      setActiveCodeSet(set.id);
+      nameInput.value = '';
+      codesInput.value = '';
+      this.refreshCodeSets();
+      ariaAnnouncer.announce(`Code set added with ${set.codes.length} codes`, { priority: 'polite' });
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  }
+
+  /**
+   * Handle delete code set button
+   */
+  private handleDeleteCodeSet(setId: string): void {
+    const set = getCustomCodeSets().find(s => s.id === setId);
+    if (!set) return;
+
+    if (confirm(`Delete code set "${set.name}"? Boxes keep codes already assigned from it.`)) {
+      deleteCustomCodeSet(setId);
+      this.refreshCodeSets();
+      ariaAnnouncer.announce('Code set deleted', { priority: 'polite' });
+    }
+  }
+
+  /**
+   * Refresh code set UI
+   */
+  private refreshCodeSets(): void {
+    const select = this.element.querySelector('#exemption-code-set');
+    if (select) {
+      select.innerHTML = this.renderCodeSetOptions();
+    }
+    const list = this.element.querySelector('#code-set-list');
+    if (list) {
+      list.innerHTML = this.renderCustomCodeSets();
+    }
+  }
+
+  /**
+   * Handle add allow-list rule button
+   */
+  private handleAddAllowRule(): void {
+    const field = (id: string) => this.element.querySelector(`#${id}`) as HTMLInputElement;
+    const kind = (this.element.querySelector('#allow-rule-kind') as HTMLSelectElement).value as AllowListRuleKind;
+    const context = field('allow-rule-context').value.split(',').map(word => word.trim()).filter(Boolean);
+
+    try {
+      allowListRegistry.addRule({
+        kind,
+        value: field('allow-rule-value').value.trim(),
+        detectionType: field('allow-rule-type').value.trim() || undefined,
+        context: context.length > 0 ? context : undefined,
+        profiles: field('allow-rule-profile-only').checked ? [allowListRegistry.getActiveProfile()] : undefined,
+        reason: field('allow-rule-reason').value.trim() || undefined,
+        enabled: true
+      });
+
+      ['allow-rule-value', 'allow-rule-type', 'allow-rule-context', 'allow-rule-reason'].forEach(id => {
+        field(id).value = '';
+      });
+      this.refreshAllowRules();
+      ariaAnnouncer.announce('Allow-list rule added', { priority: 'polite' });
+    } catch (error) {
+      alert(`Failed to add rule: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Handle import allow-list rules
+   */
+  private handleImportAllowRules(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+
+    input.addEventListener('change', async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const text = await file.text();
+        const count = allowListRegistry.importRules(text);
+        this.refreshAllowRules();
+        alert(`Successfully imported ${count} rule(s)`);
+        ariaAnnouncer.announce(`Imported ${count} allow-list rules`, { priority: 'polite' });
+      } catch (error) {
+        alert(`Import failed: ${(error as Error).message}`);
+      }
+    });
+
+    input.click();
+  }
+
+  /**
+   * Handle export allow-list rules
+   */
+  private handleExportAllowRules(): void {
+    try {
+      const json = allowListRegistry.exportRules();
+      const blob = new Blob([json], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `aegis-allow-list-${Date.now()}.json`;
+      a.click();
+
+      URL.revokeObjectURL(url);
+      ariaAnnouncer.announce('Allow-list exported', { priority: 'polite' });
+    } catch (error) {
+      alert(`Export failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Refresh allow-list rule UI
+   */
+  private refreshAllowRules(): void {
+    const ruleList = this.element.querySelector('#allow-rule-list');
+    if (ruleList) {
+      ruleList.innerHTML = this.renderAllowRules();
+    }
+  }
+
   /**
    * Refresh pattern list UI
    */
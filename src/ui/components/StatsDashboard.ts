@@ -115,6 +115,12 @@ export class StatsDashboard {
             <span class="stat-number">${stats.bySource.regex}</span>
             <span class="stat-percent">(${Math.round((stats.bySource.regex / stats.totalDetections) * 100)}%)</span>
           </div>
+          <div class="stat-row">
+            <span class="stat-icon">📖</span>
+            <span class="stat-text">Dictionary</span>
+            <span class="stat-number">${stats.bySource.dictionary}</span>
+            <span class="stat-percent">(${Math.round((stats.bySource.dictionary / stats.totalDetections) * 100)}%)</span>
+          </div>
           <div class="stat-row">
             <span class="stat-icon">✏️</span>
             <span class="stat-text">Manual</span>
@@ -15,6 +15,9 @@ export class StylePicker {
 
   constructor(onChange: (styleId: string, options: StyleOptions) => void) {
     this.onChange = onChange;
+    // Start from the saved selection so exports and the picker agree
+    this.currentStyleId = StyleRegistry.loadDefaultFromStorage();
+    this.currentOptions = StyleRegistry.loadOptionsFromStorage();
     this.element = this.createPicker();
   }
 
@@ -25,7 +28,7 @@ export class StylePicker {
     container.innerHTML = `
       <button class="style-picker-toggle" aria-label="Select redaction style">
         <span class="style-picker-icon">▨</span>
-        <span class="style-picker-label">Solid Black</span>
+        <span class="style-picker-label">${StyleRegistry.get(this.currentStyleId)?.name ?? 'Solid Black'}</span>
         <span class="style-picker-arrow">▼</span>
       </button>
       <div class="style-picker-dropdown" style="display: none;">
@@ -2,6 +2,10 @@
  * Toolbar component with detection toggles and actions
  */
 
+import { HIPAA_SAFE_HARBOR_PRESET } from '../../lib/detect/patterns';
+import { getExportMode, setExportMode } from '../../lib/pseudonymize';
+import type { ExportMode } from '../../lib/pseudonymize';
+
 export interface ToolbarOptions {
   findEmails: boolean;
   findPhones: boolean;
@@ -9,6 +13,16 @@ export interface ToolbarOptions {
   findCards: boolean;
   findDates: boolean;
   findAddresses: boolean;
+  findSecrets: boolean;
+  findIPAddresses: boolean;
+  findMACAddresses: boolean;
+  findDeviceIDs: boolean;
+  findHostnames: boolean;
+  findSensitiveURLs: boolean;
+  findMedicalIDs: boolean;
+  findMedicalCodes: boolean;
+  findDriversLicenses: boolean;
+  findMRZ: boolean;
   useOCR: boolean;
 }
 
@@ -23,6 +37,7 @@ export class Toolbar {
   private onShowAuth: (() => void) | null = null;
   private onShowDashboard: (() => void) | null = null;
   private onBatchExport: (() => void) | null = null;
+  private onUnredact: (() => void) | null = null;
 
   constructor(
     onChange: (options: ToolbarOptions) => void,
@@ -32,7 +47,8 @@ export class Toolbar {
     onSettings: () => void,
     onShowAuth?: () => void,
     onShowDashboard?: () => void,
-    onBatchExport?: () => void
+    onBatchExport?: () => void,
+    onUnredact?: () => void
   ) {
     this.options = {
       findEmails: true,
@@ -41,6 +57,16 @@ export class Toolbar {
       findCards: true,
       findDates: true,
       findAddresses: true,
+      findSecrets: true,
+      findIPAddresses: true,
+      findMACAddresses: true,
+      findDeviceIDs: true,
+      findHostnames: true,
+      findSensitiveURLs: true,
+      findMedicalIDs: true,
+      findMedicalCodes: false,
+      findDriversLicenses: true,
+      findMRZ: true,
       useOCR: false
     };
     this.onChange = onChange;
@@ -51,6 +77,7 @@ export class Toolbar {
     this.onShowAuth = onShowAuth || null;
     this.onShowDashboard = onShowDashboard || null;
     this.onBatchExport = onBatchExport || null;
+    this.onUnredact = onUnredact || null;
     this.element = this.createToolbar();
   }
 
@@ -77,6 +104,18 @@ export class Toolbar {
           </svg>
           <span>Batch Export All</span>
         </button>
+        <label class="toolbar-checkbox" title="Replace redacted text in TXT and CSV exports with consistent fake values instead of black boxes">
+          <input type="checkbox" id="export-pseudonymize" ${getExportMode() === 'pseudonymize' ? 'checked' : ''} aria-label="Export pseudonyms instead of black boxes">
+          <span>Pseudonymize text exports</span>
+        </label>
+        <label class="toolbar-checkbox" title="Also save an encrypted vault that can restore selected redactions in TXT and CSV exports">
+          <input type="checkbox" id="export-vault" aria-label="Save an encrypted re-identification vault with the export">
+          <span>Save re-identification vault</span>
+        </label>
+        <div id="export-replacement-warning" class="toolbar-warning" hidden>
+          <strong>Not available for this file</strong>
+          Pseudonyms and re-identification vaults only apply to TXT and CSV exports. This file is exported with black boxes and no vault.
+        </div>
         <button id="btn-new-file" class="btn btn-secondary" style="display: none;" aria-label="Start with a new file">
           <svg class="btn-icon-svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <path d="M12 5v14M5 12h14"/>
@@ -89,6 +128,13 @@ export class Toolbar {
           </svg>
           <span>Load New Files</span>
         </button>
+        <button id="btn-unredact" class="btn btn-secondary" aria-label="Restore redactions from a vault">
+          <svg class="btn-icon-svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
+            <path d="M7 11V7a5 5 0 0 1 9.9-1"/>
+          </svg>
+          <span>Unredact…</span>
+        </button>
       </div>
       <div class="toolbar-section">
         <h3 style="font-size: 0.875rem; margin: 0 0 0.5rem 0; color: var(--text-secondary);">Detection</h3>
@@ -116,10 +162,53 @@ export class Toolbar {
           <input type="checkbox" id="find-addresses" checked aria-label="Detect addresses">
           <span>Addresses</span>
         </label>
+        <label class="toolbar-checkbox" title="API keys, access tokens, private keys and passwords">
+          <input type="checkbox" id="find-secrets" checked aria-label="Detect secrets and credentials">
+          <span>Secrets & API Keys</span>
+        </label>
+        <label class="toolbar-checkbox">
+          <input type="checkbox" id="find-ips" checked aria-label="Detect IP addresses">
+          <span>IP Addresses</span>
+        </label>
+        <label class="toolbar-checkbox">
+          <input type="checkbox" id="find-macs" checked aria-label="Detect MAC addresses">
+          <span>MAC Addresses</span>
+        </label>
+        <label class="toolbar-checkbox" title="IMEI and MEID mobile device identifiers">
+          <input type="checkbox" id="find-devices" checked aria-label="Detect device identifiers">
+          <span>Device IDs (IMEI/MEID)</span>
+        </label>
+        <label class="toolbar-checkbox" title="Internal hostnames and environment-specific domains">
+          <input type="checkbox" id="find-hostnames" checked aria-label="Detect internal hostnames">
+          <span>Hostnames</span>
+        </label>
+        <label class="toolbar-checkbox" title="URLs whose query strings carry tokens or emails">
+          <input type="checkbox" id="find-urls" checked aria-label="Detect URLs with tokens or emails">
+          <span>Sensitive URLs</span>
+        </label>
+        <label class="toolbar-checkbox" title="NPI, DEA, Medicare MBI, member and medical record numbers">
+          <input type="checkbox" id="find-medical" checked aria-label="Detect healthcare identifiers">
+          <span>Healthcare IDs</span>
+        </label>
+        <label class="toolbar-checkbox" title="ICD-10 diagnosis and CPT procedure codes">
+          <input type="checkbox" id="find-medical-codes" aria-label="Detect diagnosis and procedure codes">
+          <span>Diagnosis & Procedure Codes</span>
+        </label>
+        <label class="toolbar-checkbox" title="US driver's license and state ID numbers next to a label, and ID card barcodes">
+          <input type="checkbox" id="find-licenses" checked aria-label="Detect driver's license numbers">
+          <span>Driver's Licenses</span>
+        </label>
+        <label class="toolbar-checkbox" title="Machine-readable zones on passports and ID cards, plus the printed fields they encode">
+          <input type="checkbox" id="find-mrz" checked aria-label="Detect passport and ID card MRZ">
+          <span>Passport MRZ</span>
+        </label>
         <label class="toolbar-checkbox" title="Enable OCR for scanned documents and images">
           <input type="checkbox" id="use-ocr" aria-label="Enable OCR for scanned documents">
           <span>Use OCR (scanned docs)</span>
         </label>
+        <button id="btn-preset-hipaa" class="btn btn-secondary" title="Enable every detector needed for the 18 HIPAA Safe Harbor identifiers" aria-label="Apply HIPAA Safe Harbor preset">
+          <span>HIPAA Safe Harbor</span>
+        </button>
       </div>
       <div class="toolbar-section" style="margin-top: auto; padding-top: 1rem; border-top: 1px solid var(--border-color);">
         <button id="btn-settings" class="btn btn-secondary" aria-label="Detection settings">
@@ -136,7 +225,7 @@ export class Toolbar {
     `;
 
     // Wire up event listeners
-    const checkboxes = ['emails', 'phones', 'ssns', 'cards', 'dates', 'addresses', 'ocr'];
+    const checkboxes = ['emails', 'phones', 'ssns', 'cards', 'dates', 'addresses', 'secrets', 'ips', 'macs', 'devices', 'hostnames', 'urls', 'medical', 'medical-codes', 'licenses', 'mrz', 'ocr'];
     checkboxes.forEach((name) => {
       const checkbox = toolbar.querySelector(`#find-${name}`) as HTMLInputElement;
       if (checkbox) {
@@ -147,6 +236,10 @@ export class Toolbar {
       }
     });
 
+    toolbar.querySelector('#btn-preset-hipaa')?.addEventListener('click', () => {
+      this.applyPreset(HIPAA_SAFE_HARBOR_PRESET);
+    });
+
     toolbar.querySelector('#btn-export')?.addEventListener('click', () => {
       this.onExport();
     });
@@ -155,6 +248,11 @@ export class Toolbar {
       this.onBatchExport?.();
     });
 
+    const pseudonymizeCheckbox = toolbar.querySelector('#export-pseudonymize') as HTMLInputElement | null;
+    pseudonymizeCheckbox?.addEventListener('change', () => {
+      setExportMode(pseudonymizeCheckbox.checked ? 'pseudonymize' : 'mask');
+    });
+
     toolbar.querySelector('#btn-new-file')?.addEventListener('click', () => {
       this.onNewFile();
     });
@@ -163,6 +261,10 @@ export class Toolbar {
       this.onReset();
     });
 
+    toolbar.querySelector('#btn-unredact')?.addEventListener('click', () => {
+      this.onUnredact?.();
+    });
+
     toolbar.querySelector('#btn-settings')?.addEventListener('click', () => {
       this.onSettings();
     });
@@ -177,9 +279,55 @@ export class Toolbar {
     this.options.findCards = (this.element.querySelector('#find-cards') as HTMLInputElement)?.checked || false;
     this.options.findDates = (this.element.querySelector('#find-dates') as HTMLInputElement)?.checked || false;
     this.options.findAddresses = (this.element.querySelector('#find-addresses') as HTMLInputElement)?.checked || false;
+    this.options.findSecrets = (this.element.querySelector('#find-secrets') as HTMLInputElement)?.checked || false;
+    this.options.findIPAddresses = (this.element.querySelector('#find-ips') as HTMLInputElement)?.checked || false;
+    this.options.findMACAddresses = (this.element.querySelector('#find-macs') as HTMLInputElement)?.checked || false;
+    this.options.findDeviceIDs = (this.element.querySelector('#find-devices') as HTMLInputElement)?.checked || false;
+    this.options.findHostnames = (this.element.querySelector('#find-hostnames') as HTMLInputElement)?.checked || false;
+    this.options.findSensitiveURLs = (this.element.querySelector('#find-urls') as HTMLInputElement)?.checked || false;
+    this.options.findMedicalIDs = (this.element.querySelector('#find-medical') as HTMLInputElement)?.checked || false;
+    this.options.findMedicalCodes = (this.element.querySelector('#find-medical-codes') as HTMLInputElement)?.checked || false;
+    this.options.findDriversLicenses = (this.element.querySelector('#find-licenses') as HTMLInputElement)?.checked || false;
+    this.options.findMRZ = (this.element.querySelector('#find-mrz') as HTMLInputElement)?.checked || false;
     this.options.useOCR = (this.element.querySelector('#use-ocr') as HTMLInputElement)?.checked || false;
   }
 
+  /**
+   * Set the detection checkboxes from a preset and notify listeners
+   * Toggles the preset does not mention keep their current state
+   */
+  applyPreset(preset: Partial<Record<keyof ToolbarOptions, unknown>>) {
+    const checkboxIds: Partial<Record<keyof ToolbarOptions, string>> = {
+      findEmails: 'find-emails',
+      findPhones: 'find-phones',
+      findSSNs: 'find-ssns',
+      findCards: 'find-cards',
+      findDates: 'find-dates',
+      findAddresses: 'find-addresses',
+      findSecrets: 'find-secrets',
+      findIPAddresses: 'find-ips',
+      findMACAddresses: 'find-macs',
+      findDeviceIDs: 'find-devices',
+      findHostnames: 'find-hostnames',
+      findSensitiveURLs: 'find-urls',
+      findMedicalIDs: 'find-medical',
+      findMedicalCodes: 'find-medical-codes',
+      findDriversLicenses: 'find-licenses',
+      findMRZ: 'find-mrz'
+    };
+
+    for (const [key, id] of Object.entries(checkboxIds)) {
+      const value = preset[key as keyof ToolbarOptions];
+      const checkbox = this.element.querySelector(`#${id}`) as HTMLInputElement;
+      if (checkbox && typeof value === 'boolean') {
+        checkbox.checked = value;
+      }
+    }
+
+    this.updateOptions();
+    this.onChange(this.options);
+  }
+
   getElement(): HTMLDivElement {
     return this.element;
   }
@@ -188,6 +336,42 @@ export class Toolbar {
     return this.options;
   }
 
+  /**
+   * How text-based exports replace redacted values
+   */
+  getExportMode(): ExportMode {
+    const checkbox = this.element.querySelector('#export-pseudonymize') as HTMLInputElement | null;
+    return checkbox?.checked ? 'pseudonymize' : 'mask';
+  }
+
+  /**
+   * Enable pseudonymization and the vault for files whose format can write
+   * replacement text; for other files both are disabled, with a warning
+   * when either was selected
+   */
+  setReplacementAvailable(available: boolean) {
+    const checkboxes = ['#export-pseudonymize', '#export-vault']
+      .map((selector) => this.element.querySelector(selector) as HTMLInputElement | null);
+    const warning = this.element.querySelector('#export-replacement-warning') as HTMLElement | null;
+
+    checkboxes.forEach((checkbox) => {
+      if (checkbox) {
+        checkbox.disabled = !available;
+      }
+    });
+    if (warning) {
+      warning.hidden = available || !checkboxes.some((checkbox) => checkbox?.checked);
+    }
+  }
+
+  /**
+   * Whether text exports should also save a re-identification vault
+   */
+  isVaultEnabled(): boolean {
+    const checkbox = this.element.querySelector('#export-vault') as HTMLInputElement | null;
+    return !!checkbox?.checked && !checkbox.disabled;
+  }
+
   enableExport(enabled: boolean) {
     const btn = this.element.querySelector('#btn-export') as HTMLButtonElement;
     if (btn) {
@@ -0,0 +1,228 @@
+/**
+ * Unredact Modal
+ *
+ * Takes a redacted export, its vault and the passphrase, lists the
+ * redactions the vault holds and saves a copy of the file with the
+ * selected ones restored.
+ */
+
+import { parseVault, openVault, vaultMatchesFile, restoreFromVault } from '../../lib/vault';
+import type { RedactionRecord } from '../../lib/formats/base/types';
+import { saveBlob } from '../../lib/fs/io';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeLocation(record: RedactionRecord): string {
+  if (record.line !== undefined) return `Line ${record.line + 1}`;
+  if (record.row !== undefined && record.column !== undefined) return `Row ${record.row + 1}, column ${record.column + 1}`;
+  return '';
+}
+
+export class UnredactModal {
+  private element: HTMLElement;
+  private records: RedactionRecord[] = [];
+  private onDone: (restored: number | null) => void;
+
+  constructor(onDone: (restored: number | null) => void) {
+    this.onDone = onDone;
+    this.element = this.createModal();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Run the unredact flow and resolve with how many redactions were
+   * restored, or null if closed without saving
+   */
+  static open(): Promise<number | null> {
+    return new Promise((resolve) => {
+      const modal = new UnredactModal(resolve);
+      modal.show();
+    });
+  }
+
+  private createModal(): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay unredact-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-labelledby', 'unredact-title');
+    modal.setAttribute('aria-modal', 'true');
+
+    modal.innerHTML = `
+      <div class="modal-content">
+        <div class="modal-header">
+          <h3 id="unredact-title">Restore Redactions</h3>
+          <button class="modal-close" aria-label="Close" data-action="close">✕</button>
+        </div>
+        <div class="modal-body">
+          <p class="vault-note">
+            Vaults are saved for TXT, Markdown and CSV exports only; PDF, image, Office, HTML, JSON, log and email exports cannot be restored.
+          </p>
+          <div class="form-group">
+            <label for="unredact-file">Redacted File</label>
+            <input type="file" id="unredact-file" accept=".txt,.md,.markdown,.csv,.tsv" />
+          </div>
+          <div class="form-group">
+            <label for="unredact-vault">Vault</label>
+            <input type="file" id="unredact-vault" accept=".json,application/json" />
+          </div>
+          <div class="form-group">
+            <label for="unredact-passphrase">Passphrase</label>
+            <input type="password" id="unredact-passphrase" autocomplete="current-password" />
+          </div>
+          <p class="vault-error" role="alert"></p>
+          <div class="unredact-records"></div>
+        </div>
+        <div class="modal-footer">
+          <button class="btn-secondary" data-action="close">Close</button>
+          <button class="btn-secondary" data-action="open-vault">Open Vault</button>
+          <button class="btn-primary" data-action="restore" disabled>Restore Selected</button>
+        </div>
+      </div>
+    `;
+
+    return modal;
+  }
+
+  private attachEventListeners(): void {
+    this.element.querySelectorAll('[data-action="close"]').forEach((button) => {
+      button.addEventListener('click', () => this.close(null));
+    });
+
+    this.element.querySelector('[data-action="open-vault"]')?.addEventListener('click', () => void this.openVault());
+    this.element.querySelector('[data-action="restore"]')?.addEventListener('click', () => void this.restore());
+
+    this.element.querySelector('.unredact-records')?.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.id === 'unredact-select-all') {
+        this.element.querySelectorAll<HTMLInputElement>('.unredact-record-toggle').forEach((checkbox) => {
+          checkbox.checked = target.checked;
+        });
+      }
+      this.updateRestoreButton();
+    });
+
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.close(null);
+      }
+    });
+  }
+
+  private getFile(id: string): File | undefined {
+    return (this.element.querySelector(`#${id}`) as HTMLInputElement).files?.[0];
+  }
+
+  private showError(message: string): void {
+    (this.element.querySelector('.vault-error') as HTMLElement).textContent = message;
+  }
+
+  private async openVault(): Promise<void> {
+    const file = this.getFile('unredact-file');
+    const vaultFile = this.getFile('unredact-vault');
+    const passphrase = (this.element.querySelector('#unredact-passphrase') as HTMLInputElement).value;
+
+    if (!file || !vaultFile || !passphrase) {
+      this.showError('Choose the redacted file and its vault, and enter the passphrase.');
+      return;
+    }
+
+    try {
+      const vault = parseVault(await vaultFile.text());
+      this.records = await openVault(vault, passphrase);
+      const matches = await vaultMatchesFile(vault, file);
+
+      this.showError(matches
+        ? ''
+        : `This vault was made for "${vault.fileName}" and the file has changed since; only redactions still in place can be restored.`);
+      this.renderRecords();
+    } catch (error) {
+      this.records = [];
+      this.renderRecords();
+      this.showError((error as Error).message);
+    }
+  }
+
+  private renderRecords(): void {
+    const list = this.element.querySelector('.unredact-records') as HTMLElement;
+
+    list.innerHTML = this.records.length === 0 ? '' : `
+      <label class="toolbar-checkbox">
+        <input type="checkbox" id="unredact-select-all" />
+        <span>Select all ${this.records.length} redactions</span>
+      </label>
+      <ul class="unredact-record-list">
+        ${this.records.map((record, index) => `
+          <li>
+            <label>
+              <input type="checkbox" class="unredact-record-toggle" data-index="${index}" />
+              <code>${escapeHtml(record.original)}</code>
+              <span class="unredact-record-meta">${escapeHtml([record.type, describeLocation(record)].filter(Boolean).join(' · '))}</span>
+            </label>
+          </li>
+        `).join('')}
+      </ul>
+    `;
+
+    this.updateRestoreButton();
+  }
+
+  private getSelected(): RedactionRecord[] {
+    return Array.from(this.element.querySelectorAll<HTMLInputElement>('.unredact-record-toggle:checked'))
+      .map((checkbox) => this.records[Number(checkbox.dataset.index)]);
+  }
+
+  private updateRestoreButton(): void {
+    const button = this.element.querySelector('[data-action="restore"]') as HTMLButtonElement;
+    button.disabled = this.getSelected().length === 0;
+  }
+
+  private async restore(): Promise<void> {
+    const file = this.getFile('unredact-file');
+    const selected = this.getSelected();
+    if (!file || selected.length === 0) return;
+
+    try {
+      const { blob, restored } = await restoreFromVault(file, selected);
+      const ext = file.name.split('.').pop();
+      await saveBlob(blob, file.name.replace(`.${ext}`, `-restored.${ext}`));
+      this.close(restored);
+    } catch (error) {
+      this.showError((error as Error).message);
+    }
+  }
+
+  private close(restored: number | null): void {
+    this.onDone(restored);
+    this.destroy();
+  }
+
+  /**
+   * Show the modal
+   */
+  show(): void {
+    document.body.appendChild(this.element);
+
+    const input = this.element.querySelector('#unredact-file') as HTMLElement;
+    input?.focus();
+  }
+
+  /**
+   * Destroy the modal
+   */
+  destroy(): void {
+    this.element.remove();
+  }
+
+  /**
+   * Get the modal element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+}
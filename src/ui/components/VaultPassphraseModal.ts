@@ -0,0 +1,133 @@
+/**
+ * Vault Passphrase Modal
+ *
+ * Asks for the passphrase that encrypts a redaction vault, entered twice
+ * since a lost passphrase makes the vault useless.
+ */
+
+import { MIN_PASSPHRASE_LENGTH } from '../../lib/vault';
+
+export class VaultPassphraseModal {
+  private element: HTMLElement;
+  private onSubmit: (passphrase: string) => void;
+  private onCancel: () => void;
+
+  constructor(onSubmit: (passphrase: string) => void, onCancel: () => void) {
+    this.onSubmit = onSubmit;
+    this.onCancel = onCancel;
+    this.element = this.createModal();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Ask for a passphrase and resolve with it, or null if cancelled
+   */
+  static prompt(): Promise<string | null> {
+    return new Promise((resolve) => {
+      const modal = new VaultPassphraseModal((passphrase) => resolve(passphrase), () => resolve(null));
+      modal.show();
+    });
+  }
+
+  private createModal(): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay vault-passphrase-modal';
+    modal.setAttribute('role', 'dialog');
+    modal.setAttribute('aria-labelledby', 'vault-passphrase-title');
+    modal.setAttribute('aria-modal', 'true');
+
+    modal.innerHTML = `
+      <div class="modal-content">
+        <div class="modal-header">
+          <h3 id="vault-passphrase-title">Encrypt Re-identification Vault</h3>
+          <button class="modal-close" aria-label="Close" data-action="cancel">✕</button>
+        </div>
+        <form class="modal-body">
+          <p class="vault-note">
+            The vault holds the redacted text and is saved next to the export. Anyone with the vault and this passphrase can undo the redactions; without the passphrase it cannot be recovered.
+          </p>
+          <div class="form-group">
+            <label for="vault-passphrase">Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)</label>
+            <input type="password" id="vault-passphrase" autocomplete="new-password" />
+          </div>
+          <div class="form-group">
+            <label for="vault-passphrase-confirm">Confirm Passphrase</label>
+            <input type="password" id="vault-passphrase-confirm" autocomplete="new-password" />
+          </div>
+          <p class="vault-error" role="alert"></p>
+        </form>
+        <div class="modal-footer">
+          <button class="btn-secondary" data-action="cancel">Cancel Export</button>
+          <button class="btn-primary" data-action="submit">Encrypt & Export</button>
+        </div>
+      </div>
+    `;
+
+    return modal;
+  }
+
+  private attachEventListeners(): void {
+    this.element.querySelectorAll('[data-action="cancel"]').forEach((button) => {
+      button.addEventListener('click', () => this.cancel());
+    });
+
+    this.element.querySelector('[data-action="submit"]')?.addEventListener('click', () => this.submit());
+    this.element.querySelector('form')?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.submit();
+    });
+
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.cancel();
+      }
+    });
+  }
+
+  private submit(): void {
+    const passphrase = (this.element.querySelector('#vault-passphrase') as HTMLInputElement).value;
+    const confirmation = (this.element.querySelector('#vault-passphrase-confirm') as HTMLInputElement).value;
+    const error = this.element.querySelector('.vault-error') as HTMLElement;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      error.textContent = `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+      return;
+    }
+    if (passphrase !== confirmation) {
+      error.textContent = 'The passphrases do not match.';
+      return;
+    }
+
+    this.onSubmit(passphrase);
+    this.destroy();
+  }
+
+  private cancel(): void {
+    this.onCancel();
+    this.destroy();
+  }
+
+  /**
+   * Show the modal
+   */
+  show(): void {
+    document.body.appendChild(this.element);
+
+    const input = this.element.querySelector('#vault-passphrase') as HTMLElement;
+    input?.focus();
+  }
+
+  /**
+   * Destroy the modal
+   */
+  destroy(): void {
+    this.element.remove();
+  }
+
+  /**
+   * Get the modal element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+}
@@ -6,6 +6,8 @@ import { describe, it, expect } from 'vitest';
 import { FormatRegistry } from '../../src/lib/formats/base/FormatRegistry';
 import { PlainTextFormat } from '../../src/lib/formats/text/PlainTextFormat';
 import { CsvFormat } from '../../src/lib/formats/structured/CsvFormat';
+import { zipSync, strToU8 } from 'fflate';
+import { toRedactionBox, type RedactionItem } from '../../src/ui/components/RedactionList';
 
 // Helper to read blob as text in test environment
 async function readBlobAsText(blob: Blob): Promise<string> {
@@ -17,6 +19,43 @@ async function readBlobAsText(blob: Blob): Promise<string> {
   });
 }
 
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Minimal workbook: one sheet with a header row and two contacts
+function createXlsx(): File {
+  const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+  const rel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<workbook ${ns} xmlns:r="${rel}"><sheets><sheet name="Contacts" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${rel}/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="${rel}/sharedStrings" Target="sharedStrings.xml"/>
+</Relationships>`,
+    'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<sst ${ns}><si><t>Name</t></si><si><t>Email</t></si><si><t>John Doe</t></si><si><t>john@example.com</t></si><si><t>Jane Smith</t></si><si><t>jane@test.org</t></si></sst>`,
+    'xl/worksheets/sheet1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet ${ns}><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+  <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c></row>
+  <row r="3"><c r="A3" t="s"><v>4</v></c><c r="B3" t="s"><v>5</v></c></row>
+</sheetData></worksheet>`
+  };
+
+  const zipped = zipSync(Object.fromEntries(Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])));
+  return new File([zipped], 'contacts.xlsx', { type: XLSX_MIME });
+}
+
 describe('App Format Integration', () => {
   describe('Format Detection', () => {
     it('should detect TXT files', async () => {
@@ -38,7 +77,7 @@ describe('App Format Integration', () => {
     });
 
     it('should reject unsupported files', async () => {
-      const file = new File(['test'], 'test.docx', { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+      const file = new File(['test'], 'test.rtf', { type: 'application/rtf' });
       const isSupported = await FormatRegistry.isSupported(file);
       expect(isSupported).toBe(false);
     });
@@ -163,6 +202,41 @@ Jane Smith,jane@test.org,555-9876`;
     });
   });
 
+  describe('XLSX Format Workflow', () => {
+    it('should redact cells through the detection list: load → detect → export → reload', async () => {
+      const file = createXlsx();
+      const format = await FormatRegistry.getFormat(file);
+      const doc = await format.load(file);
+
+      // Simulate PII detection on the extracted text
+      const textResult = await format.extractText(doc);
+      const searchTerms = textResult.fullText.match(/[\w.]+@[\w.]+/g) ?? [];
+      expect(searchTerms).toEqual(['john@example.com', 'jane@test.org']);
+
+      // Boxes go through the detection list like in App.ts
+      // (mapBoxesToDetectionItems, then mergePageBoxes)
+      const items: RedactionItem[] = (await format.findTextBoxes(doc, searchTerms)).map((box, i) => ({
+        ...box,
+        id: `det-0-${i}`,
+        page: 0,
+        enabled: true,
+        source: 'regex'
+      }));
+      const boxes = items.filter((item) => item.enabled).map(toRedactionBox);
+      expect(boxes.every((box) => box.row !== undefined && box.column !== undefined)).toBe(true);
+
+      // exportTextDocument hands them to the format as manual boxes
+      await format.redact(doc, boxes.map((box) => ({ ...box, source: 'manual' as const })));
+      const exported = await format.export(doc);
+
+      const reloaded = await format.load(new File([exported], 'contacts-redacted.xlsx', { type: XLSX_MIME }));
+      const reloadedText = (await format.extractText(reloaded)).fullText;
+      expect(reloadedText).not.toContain('john@example.com');
+      expect(reloadedText).not.toContain('jane@test.org');
+      expect(reloadedText).toContain('John Doe');
+    });
+  });
+
   describe('Format Registry Integration', () => {
     it('should return correct format for each file type', async () => {
       const txtFile = new File(['test'], 'test.txt', { type: 'text/plain' });
@@ -190,7 +264,7 @@ Jane Smith,jane@test.org,555-9876`;
 
   describe('Error Handling', () => {
     it('should throw error for unsupported format', async () => {
-      const file = new File(['test'], 'test.docx', { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+      const file = new File(['test'], 'test.rtf', { type: 'application/rtf' });
 
       await expect(FormatRegistry.getFormat(file)).rejects.toThrow('no handler registered');
     });
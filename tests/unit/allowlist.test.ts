@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AllowListRegistry, matchesAllowRule } from '../../src/lib/detect/custom/allowlist';
+import type { AllowListRule } from '../../src/lib/detect/custom/types';
+import type { DetectionResult } from '../../src/lib/detect/merger';
+
+function detection(text: string, type: string, start?: number): DetectionResult {
+  return {
+    text,
+    type,
+    confidence: 1.0,
+    source: 'regex',
+    positions: start === undefined ? undefined : { start, end: start + text.length }
+  };
+}
+
+function rule(overrides: Partial<AllowListRule>): AllowListRule {
+  return {
+    id: 'rule',
+    kind: 'exact',
+    value: '',
+    enabled: true,
+    createdAt: 0,
+    ...overrides
+  };
+}
+
+describe('Allow-list', () => {
+  describe('matchesAllowRule', () => {
+    it('should match exact values ignoring case', () => {
+      const r = rule({ kind: 'exact', value: 'Support@Example.com' });
+      expect(matchesAllowRule(detection('support@example.com', 'email'), r)).toBe(true);
+      expect(matchesAllowRule(detection('sales@example.com', 'email'), r)).toBe(false);
+    });
+
+    it('should match numbers regardless of separators', () => {
+      const r = rule({ kind: 'exact', value: '4111 1111 1111 1111' });
+      expect(matchesAllowRule(detection('4111-1111-1111-1111', 'card'), r)).toBe(true);
+      expect(matchesAllowRule(detection('(555) 010-0199', 'phone'), rule({ kind: 'exact', value: '555-010-0199' }))).toBe(true);
+    });
+
+    it('should match whole values against regex rules', () => {
+      const r = rule({ kind: 'regex', value: '4242[\\s-]?4242[\\s-]?4242[\\s-]?4242' });
+      expect(matchesAllowRule(detection('4242 4242 4242 4242', 'card'), r)).toBe(true);
+      expect(matchesAllowRule(detection('4242 4242 4242 4242 1', 'card'), r)).toBe(false);
+    });
+
+    it('should match emails, URLs and hostnames on a domain', () => {
+      const r = rule({ kind: 'domain', value: '@ourcompany.com' });
+      expect(matchesAllowRule(detection('help@ourcompany.com', 'email'), r)).toBe(true);
+      expect(matchesAllowRule(detection('ops@mail.ourcompany.com', 'email'), r)).toBe(true);
+      expect(matchesAllowRule(detection('https://status.ourcompany.com/incidents?id=1', 'url'), r)).toBe(true);
+      expect(matchesAllowRule(detection('jane@notourcompany.com', 'email'), r)).toBe(false);
+    });
+
+    it('should restrict rules to a detection type', () => {
+      const r = rule({ kind: 'exact', value: '555-010-0199', detectionType: 'phone' });
+      expect(matchesAllowRule(detection('555-010-0199', 'phone'), r)).toBe(true);
+      expect(matchesAllowRule(detection('555-010-0199', 'us-bank-account'), r)).toBe(false);
+    });
+
+    it('should match types near context words', () => {
+      const text = `For help call customer service at 555-010-0199.${' '.repeat(80)}Jane: 555-010-7777.`;
+      const r = rule({ kind: 'context', detectionType: 'phone', context: ['customer service'] });
+      expect(matchesAllowRule(detection('555-010-0199', 'phone'), r, text)).toBe(true);
+      expect(matchesAllowRule(detection('555-010-7777', 'phone', text.indexOf('555-010-7777')), r, text)).toBe(false);
+      expect(matchesAllowRule(detection('555-010-0199', 'email'), r, text)).toBe(false);
+    });
+
+    it('should keep a context match if any occurrence lacks context', () => {
+      const text = `Customer service: 555-010-0199.${' '.repeat(80)}Personal cell 555-010-0199.`;
+      const r = rule({ kind: 'context', detectionType: 'phone', context: ['customer service'] });
+      expect(matchesAllowRule(detection('555-010-0199', 'phone'), r, text)).toBe(false);
+    });
+  });
+
+  describe('AllowListRegistry', () => {
+    let registry: AllowListRegistry;
+
+    beforeEach(() => {
+      localStorage.clear();
+      registry = new AllowListRegistry();
+    });
+
+    it('should suppress matching detections and report why', () => {
+      registry.addRule({ kind: 'domain', value: 'ourcompany.com', reason: 'Company addresses', enabled: true });
+
+      const results = [detection('help@ourcompany.com', 'email'), detection('jane@gmail.com', 'email')];
+      const { kept, suppressed } = registry.apply(results, 'help@ourcompany.com jane@gmail.com');
+
+      expect(kept.map(r => r.text)).toEqual(['jane@gmail.com']);
+      expect(suppressed).toHaveLength(1);
+      expect(suppressed[0].reason).toBe('Company addresses');
+      expect(registry.getAllRules()[0].suppressedCount).toBe(1);
+    });
+
+    it('should skip disabled rules', () => {
+      const id = registry.addRule({ kind: 'exact', value: 'jane@gmail.com', enabled: true });
+      registry.toggleRule(id);
+
+      const { kept } = registry.apply([detection('jane@gmail.com', 'email')], '');
+      expect(kept).toHaveLength(1);
+    });
+
+    it('should scope rules to profiles', () => {
+      registry.addRule({ kind: 'exact', value: '4111111111111111', profiles: ['qa'], enabled: true });
+      const results = [detection('4111111111111111', 'card')];
+
+      expect(registry.apply(results, '').kept).toHaveLength(1);
+      expect(registry.apply(results, '', 'qa').kept).toHaveLength(0);
+
+      registry.setActiveProfile('qa');
+      expect(registry.apply(results, '').kept).toHaveLength(0);
+      expect(new AllowListRegistry().getActiveProfile()).toBe('qa');
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => registry.addRule({ kind: 'exact', value: ' ', enabled: true })).toThrow();
+      expect(() => registry.addRule({ kind: 'regex', value: '.*', enabled: true })).toThrow();
+      expect(() => registry.addRule({ kind: 'context', value: '', context: ['help'], enabled: true })).toThrow();
+    });
+
+    it('should persist rules and round-trip through export and import', () => {
+      registry.addRule({ kind: 'exact', value: 'support@example.com', enabled: true });
+      expect(new AllowListRegistry().getAllRules()).toHaveLength(1);
+
+      const json = registry.exportRules();
+      registry.clearAll();
+      expect(registry.importRules(json)).toBe(1);
+      expect(registry.getAllRules()[0].value).toBe('support@example.com');
+      expect(() => registry.importRules('not json')).toThrow('Invalid JSON format');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFArray, PDFStream, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import {
+  GENESIS_HASH,
+  canonicalJson,
+  createAuditRecord,
+  createCertificatePdf,
+  sha256Hex,
+  toAuditBoxes,
+  verifyAuditChain,
+  type AuditExport,
+  type AuditRecord
+} from '../../src/lib/audit';
+import { bytesToBinaryString } from '../../src/lib/pdf/content-stream';
+
+function entry(overrides: Partial<AuditExport> = {}): AuditExport {
+  return {
+    fileName: 'report.pdf',
+    exportName: 'report-redacted.pdf',
+    mode: 'true-redaction',
+    original: new TextEncoder().encode('original'),
+    exported: new Blob(['exported']),
+    boxes: [{ page: 0, type: 'email', source: 'regex', confidence: 1, x: 10, y: 20, w: 100, h: 12 }],
+    detectors: { app: '1.0.0' },
+    user: { id: 'u1', email: 'reviewer@example.com' },
+    ...overrides
+  };
+}
+
+async function createChain(length: number): Promise<AuditRecord[]> {
+  const records: AuditRecord[] = [];
+  for (let i = 0; i < length; i++) {
+    records.push(await createAuditRecord(entry({ fileName: `file-${i}.pdf` }), records[i - 1] ?? null));
+  }
+  return records;
+}
+
+function pageContent(pdfDoc: PDFDocument, pageIndex: number): string {
+  const contents = pdfDoc.getPages()[pageIndex].node.Contents();
+  if (!contents) return '';
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref) as PDFStream)
+    : [contents as PDFStream];
+
+  return streams
+    .map((stream) => bytesToBinaryString(
+      stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+    ))
+    .join('\n');
+}
+
+/** pdf-lib writes standard-font text as WinAnsi hex strings */
+function hex(text: string): RegExp {
+  return new RegExp(`<${Array.from(text, (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('')}>`, 'i');
+}
+
+describe('Audit records', () => {
+  it('should hash the files and chain records from the genesis hash', async () => {
+    const [first, second] = await createChain(2);
+
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(first.inputHash).toBe(await sha256Hex('original'));
+    expect(first.outputHash).toBe(await sha256Hex(new Blob(['exported'])));
+    expect(second).toMatchObject({ sequence: 2, previousHash: first.hash });
+  });
+
+  it('should hash the same whatever the key order', () => {
+    expect(canonicalJson({ b: 1, a: [{ d: 2, c: undefined }] })).toBe(canonicalJson({ a: [{ d: 2 }], b: 1 }));
+  });
+
+  it('should record boxes without their text', () => {
+    const boxes = toAuditBoxes(new Map([
+      [1, [{ x: 1, y: 2, w: 3, h: 4, text: 'jane@example.com', type: 'email', source: 'regex' as const }]],
+      [0, [{ x: 5, y: 6, w: 7, h: 8, text: 'Jane', source: 'manual' as const }]]
+    ]));
+
+    expect(boxes.map((box) => box.page)).toEqual([0, 1]);
+    expect(JSON.stringify(boxes)).not.toContain('jane');
+  });
+
+  it('should verify an untouched chain', async () => {
+    expect(await verifyAuditChain(await createChain(3))).toEqual({ valid: true, checked: 3 });
+  });
+
+  it('should detect edited, removed and reordered records', async () => {
+    const records = await createChain(3);
+
+    const edited = records.map((record) => ({ ...record }));
+    edited[1].boxes = [];
+    expect(await verifyAuditChain(edited)).toMatchObject({ valid: false, brokenAt: 2 });
+
+    expect(await verifyAuditChain([records[0], records[2]])).toMatchObject({ valid: false, brokenAt: 3 });
+    expect(await verifyAuditChain([records[1], records[0], records[2]])).toMatchObject({ valid: false });
+    expect(await verifyAuditChain(records.slice(1))).toMatchObject({ valid: false, brokenAt: 2 });
+  });
+});
+
+describe('Redaction certificate', () => {
+  it('should print the export, hashes and redaction counts', async () => {
+    const record = await createAuditRecord(entry({
+      sanitization: {
+        options: {
+          stripMetadata: true,
+          removeAnnotations: true,
+          removeFormFields: false,
+          stripHyperlinks: false,
+          removeXMPMetadata: false,
+          removeAttachments: false,
+          removeJavaScript: false,
+          removeEmbeddedFiles: false
+        },
+        success: true,
+        removed: {
+          metadata: true,
+          annotations: 2,
+          formFields: 0,
+          hyperlinks: 0,
+          xmpMetadata: false,
+          attachments: 0,
+          javaScript: 0,
+          embeddedFiles: 0
+        },
+        errors: []
+      }
+    }), null);
+
+    const pdfDoc = await PDFDocument.load(await createCertificatePdf(record));
+    const content = Array.from({ length: pdfDoc.getPageCount() }, (_, i) => pageContent(pdfDoc, i)).join('\n');
+
+    expect(content).toMatch(hex('Redaction Certificate'));
+    expect(content).toMatch(hex('report-redacted.pdf'));
+    expect(content).toMatch(hex(record.outputHash));
+    expect(content).toMatch(hex(record.hash));
+    expect(content).toMatch(hex('reviewer@example.com (u1)'));
+    expect(content).toMatch(hex('Removed: Document metadata; Annotations: 2.'));
+  });
+});
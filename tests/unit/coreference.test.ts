@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveNameVariants,
+  deriveEmailLocalParts,
+  MentionFinder
+} from '../../src/lib/detect/coreference';
+
+describe('Entity coreference', () => {
+  describe('deriveNameVariants', () => {
+    it('should derive surname, initials, honorifics and nicknames', () => {
+      const variants = deriveNameVariants('Jonathan Smith');
+      expect(variants).toEqual(expect.arrayContaining([
+        'Jonathan Smith',
+        'Smith',
+        'Jonathan',
+        'J. Smith',
+        'Jonathan S.',
+        'Mr. Smith',
+        'Dr Smith',
+        'Jon Smith',
+        'Jon'
+      ]));
+    });
+
+    it('should drop honorifics, middle initials and possessives from the seed', () => {
+      const variants = deriveNameVariants("Dr. Jonathan A. Smith's");
+      expect(variants[0]).toBe('Jonathan A. Smith');
+      expect(variants).toContain('Jonathan Smith');
+      expect(variants).not.toContain('A.');
+    });
+
+    it('should keep single names as they are', () => {
+      expect(deriveNameVariants('Smith')).toEqual(['Smith']);
+    });
+  });
+
+  describe('deriveEmailLocalParts', () => {
+    it('should derive common corporate formats', () => {
+      expect(deriveEmailLocalParts('Jonathan Smith')).toEqual(expect.arrayContaining([
+        'jonathan.smith',
+        'jsmith',
+        'smithj',
+        'jon.smith'
+      ]));
+    });
+  });
+
+  describe('MentionFinder', () => {
+    it('should find other mentions of a name', () => {
+      const finder = new MentionFinder('Jonathan Smith');
+      const text = "Mr. Smith's claim was reviewed. Jon called J. Smith back; ask jsmith@acme.com. Smithers was absent.";
+      expect(finder.find(text).map(m => m.text)).toEqual([
+        "Mr. Smith's",
+        'Jon',
+        'J. Smith',
+        'jsmith@acme.com'
+      ]);
+    });
+
+    it('should find name mentions from an email seed', () => {
+      const finder = new MentionFinder('jonathan.smith@acme.com');
+      const text = 'Contact Jonathan Smith (jonathan.smith@acme.com) or jsmith@acme.com';
+      expect(finder.find(text).map(m => m.text)).toEqual([
+        'Jonathan Smith',
+        'jonathan.smith@acme.com',
+        'jsmith@acme.com'
+      ]);
+    });
+
+    it('should not match unrelated emails or words', () => {
+      const finder = new MentionFinder('Jonathan Smith');
+      expect(finder.test('Email blacksmith@forge.com about Jonas')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DetectionService, isDetectionCancelled } from '../../src/lib/detect/service/DetectionService';
+import type { DetectionWorker, WorkerRequest, WorkerResponse } from '../../src/lib/detect/service/types';
+import type { DetectionOptions } from '../../src/lib/detect/patterns';
+import { allowListRegistry } from '../../src/lib/detect/custom';
+
+class FakeWorker implements DetectionWorker {
+  messages: WorkerRequest[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(message: WorkerRequest): void {
+    this.messages.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  get detectRequests() {
+    return this.messages.filter((m): m is Extract<WorkerRequest, { type: 'detect' }> => m.type === 'detect');
+  }
+
+  reply(response: WorkerResponse): void {
+    this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+  }
+
+  /** Answer the most recent detect request */
+  finish(results: string[], suppressed: Extract<WorkerResponse, { type: 'result' }>['suppressed'] = []): void {
+    const request = this.detectRequests[this.detectRequests.length - 1];
+    this.reply({ type: 'result', id: request.id, results, suppressed, usage: { patterns: {}, termLists: {} } });
+  }
+}
+
+const options: DetectionOptions = {
+  findEmails: true,
+  findPhones: true,
+  findSSNs: true,
+  findCards: true,
+  findDates: true,
+  findAddresses: true,
+  useML: false
+};
+
+describe('DetectionService', () => {
+  let workers: FakeWorker[];
+  let service: DetectionService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    workers = [];
+    service = new DetectionService({
+      poolSize: 2,
+      createWorker: () => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker;
+      }
+    });
+  });
+
+  it('should run requests in parallel up to the pool size and queue the rest', async () => {
+    const first = service.detect('basic', 'a', options);
+    const second = service.detect('basic', 'b', options);
+    const third = service.detect('basic', 'c', options);
+
+    expect(workers).toHaveLength(2);
+    expect(service.getQueueLength()).toBe(1);
+    expect(workers[0].messages[0].type).toBe('configure');
+
+    workers[0].finish(['a@example.com']);
+    await expect(first).resolves.toEqual(['a@example.com']);
+
+    // The freed worker takes the queued request without being reconfigured
+    expect(workers).toHaveLength(2);
+    expect(workers[0].detectRequests.map(r => r.text)).toEqual(['a', 'c']);
+    expect(workers[0].messages.filter(m => m.type === 'configure')).toHaveLength(1);
+
+    workers[1].finish([]);
+    workers[0].finish(['c']);
+    await expect(second).resolves.toEqual([]);
+    await expect(third).resolves.toEqual(['c']);
+  });
+
+  it('should strip callbacks before posting and call them on this thread', async () => {
+    const progress: string[] = [];
+    const suppressedTexts: string[] = [];
+    const result = service.detect('metadata', 'text', {
+      ...options,
+      onProgress: (p) => progress.push(p.stage),
+      onSuppressed: (s) => suppressedTexts.push(...s.map(d => d.text))
+    });
+
+    const request = workers[0].detectRequests[0];
+    expect(request.options).not.toHaveProperty('onProgress');
+    expect(request.options).not.toHaveProperty('onSuppressed');
+
+    workers[0].reply({ type: 'progress', id: request.id, progress: { stage: 'detecting', percent: 0 } });
+    workers[0].finish([], [{ text: 'help@example.com', type: 'email', ruleId: 'r', reason: 'Support' }]);
+    await result;
+
+    expect(progress).toEqual(['queued', 'detecting', 'done']);
+    expect(suppressedTexts).toEqual(['help@example.com']);
+  });
+
+  it('should count suppressions from workers against allow-list rules', async () => {
+    const ruleId = allowListRegistry.addRule({ kind: 'exact', value: 'help@example.com', enabled: true });
+
+    const result = service.detect('basic', 'text', options);
+    workers[0].finish([], [{ text: 'help@example.com', type: 'email', ruleId, reason: 'Support' }]);
+    await result;
+
+    expect(allowListRegistry.getRule(ruleId)?.suppressedCount).toBe(1);
+    allowListRegistry.deleteRule(ruleId);
+  });
+
+  it('should drop cancelled requests from the queue', async () => {
+    const controller = new AbortController();
+    void service.detect('basic', 'a', options);
+    void service.detect('basic', 'b', options);
+    const queued = service.detect('basic', 'c', { ...options, signal: controller.signal });
+
+    controller.abort();
+    const error = await queued.catch(e => e);
+    expect(isDetectionCancelled(error)).toBe(true);
+    expect(service.getQueueLength()).toBe(0);
+  });
+
+  it('should ask a busy worker to stop and keep it for the next request', async () => {
+    const controller = new AbortController();
+    const running = service.detect('basic', 'a', { ...options, signal: controller.signal });
+    const request = workers[0].detectRequests[0];
+
+    controller.abort();
+    expect(isDetectionCancelled(await running.catch(e => e))).toBe(true);
+    expect(workers[0].terminated).toBe(false);
+    expect(workers[0].messages[workers[0].messages.length - 1]).toEqual({ type: 'cancel', id: request.id });
+
+    // The worker stays busy until it answers; its late result is dropped
+    const next = service.detect('basic', 'b', options);
+    expect(workers).toHaveLength(2);
+    const third = service.detect('basic', 'c', options);
+    expect(service.getQueueLength()).toBe(1);
+
+    workers[0].reply({ type: 'result', id: request.id, results: ['a'], suppressed: [], usage: { patterns: {}, termLists: {} } });
+    expect(workers[0].detectRequests.map(r => r.text)).toEqual(['a', 'c']);
+
+    workers[1].finish(['b']);
+    workers[0].finish(['c']);
+    await expect(next).resolves.toEqual(['b']);
+    await expect(third).resolves.toEqual(['c']);
+    expect(workers).toHaveLength(2);
+  });
+
+  it('should terminate a cancelled worker that does not stop in time', async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const running = service.detect('basic', 'a', { ...options, signal: controller.signal });
+      controller.abort();
+      expect(isDetectionCancelled(await running.catch(e => e))).toBe(true);
+
+      vi.advanceTimersByTime(5000);
+      expect(workers[0].terminated).toBe(true);
+
+      const next = service.detect('basic', 'b', options);
+      workers[1].finish(['b']);
+      await expect(next).resolves.toEqual(['b']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject requests that are already cancelled or fail in the worker', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(isDetectionCancelled(await service.detect('basic', 'a', { ...options, signal: controller.signal }).catch(e => e))).toBe(true);
+
+    const failing = service.detect('basic', 'a', options);
+    const request = workers[0].detectRequests[0];
+    workers[0].reply({ type: 'error', id: request.id, message: 'boom' });
+    await expect(failing).rejects.toThrow('boom');
+  });
+
+  it('should clamp and persist the pool size', () => {
+    service.setPoolSize(20);
+    expect(service.getPoolSize()).toBe(8);
+    expect(new DetectionService().getPoolSize()).toBe(8);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TermMatcher,
+  normalizeForMatching,
+  parseTermList,
+  boundedEditDistance
+} from '../../src/lib/detect/custom/dictionary';
+
+describe('Dictionary term matching', () => {
+  describe('normalizeForMatching', () => {
+    it('should fold case, strip diacritics and collapse whitespace', () => {
+      const normalized = normalizeForMatching('José  MÜLLER\nStraße');
+      expect(normalized.text).toBe('jose muller strasse');
+    });
+
+    it('should map normalized characters back to source offsets', () => {
+      const source = 'Zoë Ångström';
+      const normalized = normalizeForMatching(source);
+      const start = normalized.text.indexOf('angstrom');
+      const end = start + 'angstrom'.length;
+      expect(source.substring(normalized.starts[start], normalized.ends[end - 1])).toBe('Ångström');
+    });
+
+    it('should keep case when case-sensitive', () => {
+      expect(normalizeForMatching('Café', true).text).toBe('Cafe');
+    });
+  });
+
+  describe('parseTermList', () => {
+    it('should parse one term per line and skip comments and blanks', () => {
+      const terms = parseTermList('# employees\nJane Doe\n\nJohn Smith\nJane Doe\n', 'txt');
+      expect(terms).toEqual(['Jane Doe', 'John Smith']);
+    });
+
+    it('should read the first CSV column', () => {
+      const terms = parseTermList('"Doe, Jane",Engineering\nProject Falcon,Codename\n', 'csv');
+      expect(terms).toEqual(['Doe, Jane', 'Project Falcon']);
+    });
+  });
+
+  describe('boundedEditDistance', () => {
+    it('should compute small distances', () => {
+      expect(boundedEditDistance('falcon', 'fa1con', 2)).toBe(1);
+      expect(boundedEditDistance('falcon', 'falcon', 2)).toBe(0);
+    });
+
+    it('should stop once the bound is exceeded', () => {
+      expect(boundedEditDistance('falcon', 'eagle', 1)).toBe(2);
+    });
+  });
+
+  describe('TermMatcher', () => {
+    it('should match terms case- and accent-insensitively', () => {
+      const matcher = new TermMatcher(['José Álvarez']);
+      const matches = matcher.match('Report filed by JOSE ALVAREZ yesterday.');
+      expect(matches).toHaveLength(1);
+      expect(matches[0].text).toBe('JOSE ALVAREZ');
+      expect(matches[0].term).toBe('José Álvarez');
+    });
+
+    it('should only match on word boundaries', () => {
+      const matcher = new TermMatcher(['Ann']);
+      expect(matcher.match('Annual planning with Anna')).toHaveLength(0);
+      expect(matcher.match('Ask Ann first')).toHaveLength(1);
+    });
+
+    it('should include possessive and plural variants', () => {
+      const matcher = new TermMatcher(['Falcon']);
+      const matches = matcher.match("Falcon's budget and the Falcons team; Falcon’s lead");
+      expect(matches.map(m => m.text)).toEqual(["Falcon's", 'Falcons', 'Falcon’s']);
+    });
+
+    it('should not include variants when disabled', () => {
+      const matcher = new TermMatcher(['Falcon'], { matchVariants: false });
+      expect(matcher.match("Falcon's budget")[0].text).toBe('Falcon');
+    });
+
+    it('should match names across line breaks', () => {
+      const matcher = new TermMatcher(['Jane Doe']);
+      const matches = matcher.match('Signed: Jane\nDoe');
+      expect(matches[0].text).toBe('Jane\nDoe');
+    });
+
+    it('should prefer the longest overlapping term', () => {
+      const matcher = new TermMatcher(['Jane', 'Jane Doe']);
+      const matches = matcher.match('Contact Jane Doe today');
+      expect(matches).toHaveLength(1);
+      expect(matches[0].term).toBe('Jane Doe');
+    });
+
+    it('should respect case sensitivity', () => {
+      const matcher = new TermMatcher(['Apex'], { caseSensitive: true });
+      expect(matcher.match('apex of the curve')).toHaveLength(0);
+      expect(matcher.match('Project Apex')).toHaveLength(1);
+    });
+
+    it('should tolerate OCR typos when fuzzy matching is enabled', () => {
+      const matcher = new TermMatcher(['Margaret Thompson'], { maxEditDistance: 2 });
+      const matches = matcher.match('Approved by Margarct Thonpson on Monday');
+      expect(matches).toHaveLength(1);
+      expect(matches[0].text).toBe('Margarct Thonpson');
+      expect(matches[0].distance).toBe(2);
+    });
+
+    it('should not fuzzy match short terms', () => {
+      const matcher = new TermMatcher(['Bob'], { maxEditDistance: 1 });
+      expect(matcher.match('Rob and Bab')).toHaveLength(0);
+    });
+
+    it('should handle large term lists', () => {
+      const terms = Array.from({ length: 5000 }, (_, i) => `Employee ${i}`);
+      const matcher = new TermMatcher([...terms, 'Priya Raman']);
+      expect(matcher.size).toBe(5001);
+      expect(matcher.match('Escalated to Priya Raman and Employee 4321.').map(m => m.term))
+        .toEqual(['Priya Raman', 'Employee 4321']);
+    });
+  });
+});
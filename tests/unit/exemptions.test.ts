@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PDFDocument, PDFArray, PDFStream, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import {
+  FOIA_CODE_SET,
+  parseCodeList,
+  addCustomCodeSet,
+  getCodeSets,
+  getActiveCodeSet,
+  setActiveCodeSet,
+  setTypeExemption,
+  resolveExemption,
+  resolvePageExemptions,
+  summarizeExemptions,
+  formatPageRanges,
+  layoutLabel
+} from '../../src/lib/exemptions';
+import { exportPdfWithRedactionBoxes, exportPdfWithTrueRedaction } from '../../src/lib/pdf/export';
+import { bytesToBinaryString } from '../../src/lib/pdf/content-stream';
+import type { Box } from '../../src/lib/pdf/find';
+
+function box(overrides: Partial<Box> = {}): Box {
+  return { x: 100, y: 100, w: 200, h: 40, text: 'Jane Doe', ...overrides };
+}
+
+async function createPdf(pageCount: number): Promise<ArrayBuffer> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([600, 800]);
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function pageContent(pdfDoc: PDFDocument, pageIndex: number): string {
+  const contents = pdfDoc.getPages()[pageIndex].node.Contents();
+  if (!contents) return '';
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref) as PDFStream)
+    : [contents as PDFStream];
+
+  return streams
+    .map((stream) => bytesToBinaryString(
+      stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+    ))
+    .join('\n');
+}
+
+/** pdf-lib writes standard-font text as WinAnsi hex strings */
+function hex(text: string): RegExp {
+  return new RegExp(`<${Array.from(text, (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('')}>`, 'i');
+}
+
+describe('Exemption codes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should parse pasted codes with and without descriptions', () => {
+    expect(parseCodeList('PRIVILEGED - Attorney-client privilege\nWORK PRODUCT\t Work product\n\nPRIVILEGED\nCONF')).toEqual([
+      { code: 'PRIVILEGED', description: 'Attorney-client privilege' },
+      { code: 'WORK PRODUCT', description: 'Work product' },
+      { code: 'CONF', description: '' }
+    ]);
+  });
+
+  it('should store custom code sets and default to FOIA', () => {
+    expect(getActiveCodeSet().id).toBe(FOIA_CODE_SET.id);
+
+    const set = addCustomCodeSet('Litigation', parseCodeList('PRIVILEGED - Attorney-client privilege'));
+    setActiveCodeSet(set.id);
+
+    expect(getCodeSets().map(s => s.id)).toContain(set.id);
+    expect(getActiveCodeSet()).toMatchObject({ name: 'Litigation', builtIn: false });
+    expect(() => addCustomCodeSet('Empty', [])).toThrow(/at least one code/);
+  });
+
+  it('should prefer a box code over its type default', () => {
+    setTypeExemption('ssn', '(b)(6)');
+    setTypeExemption('manual', '(b)(5)');
+
+    expect(resolveExemption(box({ type: 'SSN' }))).toBe('(b)(6)');
+    expect(resolveExemption(box({ type: 'ssn', exemption: '(b)(7)(C)' }))).toBe('(b)(7)(C)');
+    expect(resolveExemption(box({ text: 'manual', source: 'manual' }))).toBe('(b)(5)');
+    expect(resolveExemption(box({ type: 'email' }))).toBeUndefined();
+
+    setTypeExemption('ssn', null);
+    expect(resolveExemption(box({ type: 'ssn' }))).toBeUndefined();
+  });
+
+  it('should summarize codes in code set order with page ranges', () => {
+    setTypeExemption('email', '(b)(6)');
+    const pageBoxes = resolvePageExemptions(new Map([
+      [0, [box({ type: 'email' }), box({ exemption: '(b)(5)' })]],
+      [1, [box({ type: 'email' }), box({ type: 'email' })]],
+      [2, [box({ type: 'phone' })]],
+      [3, [box({ type: 'email' }), box({ exemption: 'PRIVILEGED' })]]
+    ]));
+
+    const summary = summarizeExemptions(pageBoxes, FOIA_CODE_SET);
+
+    expect(summary.map(e => e.code)).toEqual(['(b)(5)', '(b)(6)', 'PRIVILEGED']);
+    expect(summary[1]).toMatchObject({ count: 4, pages: [0, 1, 3] });
+    expect(summary[1].description).toMatch(/personal privacy/);
+    expect(summary[2].description).toBeUndefined();
+    expect(formatPageRanges(summary[1].pages)).toBe('1–2, 4');
+  });
+
+  it('should move labels that do not fit inside a box beside it', () => {
+    const inside = layoutLabel(3, { x: 100, w: 200, h: 40 }, 'inside', 600, 6);
+    expect(inside.placement).toBe('inside');
+    expect(inside.x + 3 * inside.size).toBeLessThanOrEqual(300);
+
+    const tooSmall = layoutLabel(3, { x: 100, w: 10, h: 8 }, 'inside', 600, 6);
+    expect(tooSmall).toMatchObject({ placement: 'beside', size: 6 });
+    expect(tooSmall.x).toBeGreaterThan(110);
+
+    const atEdge = layoutLabel(3, { x: 560, w: 30, h: 12 }, 'beside', 600, 6);
+    expect(atEdge.x + 3 * atEdge.size).toBeLessThanOrEqual(560);
+  });
+});
+
+describe('PDF export with exemption labels', () => {
+  const pageBoxes = new Map<number, Box[]>([
+    [0, [box({ exemption: '(b)(6)' })]],
+    [1, [box({ exemption: '(b)(6)' }), box({ y: 300, exemption: '(b)(5)' })]]
+  ]);
+  const index = summarizeExemptions(pageBoxes, FOIA_CODE_SET);
+
+  it('should print codes on boxes and append the index page', async () => {
+    const bytes = await exportPdfWithRedactionBoxes(await createPdf(2), pageBoxes, 2, undefined, {
+      placement: 'inside',
+      index
+    });
+    const pdfDoc = await PDFDocument.load(bytes);
+
+    expect(pdfDoc.getPageCount()).toBe(3);
+    expect(pageContent(pdfDoc, 0)).toMatch(hex('(b)(6)'));
+    expect(pageContent(pdfDoc, 1)).toMatch(hex('(b)(5)'));
+
+    const indexPage = pageContent(pdfDoc, 2);
+    expect(indexPage).toMatch(hex('Exemption Index'));
+    expect(indexPage).toMatch(hex('1–2'.replace('–', '\x96')));
+  });
+
+  it('should leave boxes plain and add no page without exemption options', async () => {
+    const bytes = await exportPdfWithRedactionBoxes(await createPdf(2), pageBoxes, 2);
+    const pdfDoc = await PDFDocument.load(bytes);
+
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(pageContent(pdfDoc, 0)).not.toMatch(hex('(b)(6)'));
+  });
+
+  it('should label true-redaction exports', async () => {
+    const { pdfBytes } = await exportPdfWithTrueRedaction(await createPdf(2), pageBoxes, 2, undefined, {
+      placement: 'beside',
+      index
+    });
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    expect(pdfDoc.getPageCount()).toBe(3);
+    expect(pageContent(pdfDoc, 1)).toMatch(hex('(b)(5)'));
+  });
+});
@@ -237,4 +237,47 @@ describe('exif utilities', () => {
       expect(mockCanvas.toBlob).toHaveBeenCalled();
     });
   });
+
+  describe('stripEmbeddedMetadata', () => {
+    it('should drop EXIF and comment segments from JPEG bytes', async () => {
+      const { stripEmbeddedMetadata } = await import('../../src/lib/images/exif');
+
+      const jpeg = new Uint8Array([
+        0xff, 0xd8,
+        0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46, // APP0 (JFIF) is kept
+        0xff, 0xe1, 0x00, 0x04, 0x45, 0x78, // APP1 (EXIF)
+        0xff, 0xfe, 0x00, 0x03, 0x41,       // COM
+        0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9
+      ]);
+
+      expect(Array.from(stripEmbeddedMetadata(jpeg))).toEqual([
+        0xff, 0xd8,
+        0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46,
+        0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9
+      ]);
+    });
+
+    it('should drop text chunks from PNG bytes', async () => {
+      const { stripEmbeddedMetadata } = await import('../../src/lib/images/exif');
+
+      const chunk = (type: string, data: number[]) => [
+        0, 0, 0, data.length, ...Array.from(type, (c) => c.charCodeAt(0)), ...data, 0, 0, 0, 0
+      ];
+      const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+      const png = new Uint8Array([
+        ...signature, ...chunk('IHDR', [1, 2]), ...chunk('tEXt', [65, 0, 66]), ...chunk('IEND', [])
+      ]);
+
+      expect(Array.from(stripEmbeddedMetadata(png))).toEqual([
+        ...signature, ...chunk('IHDR', [1, 2]), ...chunk('IEND', [])
+      ]);
+    });
+
+    it('should return other formats unchanged', async () => {
+      const { stripEmbeddedMetadata } = await import('../../src/lib/images/exif');
+      const gif = new Uint8Array([0x47, 0x49, 0x46, 0x38]);
+
+      expect(stripEmbeddedMetadata(gif)).toBe(gif);
+    });
+  });
 });
@@ -62,6 +62,11 @@ describe('FormatRegistry', () => {
       expect(FormatRegistry.detectFormat(xlsxFile)).toBe('xlsx');
     });
 
+    it('should prefer a known extension over a generic text/plain type', () => {
+      const file = new File(['Oct  1 09:00:00 web-1 sshd[42]: ok'], 'auth.log', { type: 'text/plain' });
+      expect(FormatRegistry.detectFormat(file)).toBe('log');
+    });
+
     it('should return null for unsupported formats', () => {
       const file = new File(['test'], 'test.unknown', { type: 'application/octet-stream' });
       const format = FormatRegistry.detectFormat(file);
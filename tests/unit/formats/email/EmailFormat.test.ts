@@ -0,0 +1,250 @@
+/**
+ * Unit tests for EmailFormat and its MIME helpers
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EmailFormat } from '../../../../src/lib/formats/email/EmailFormat';
+import {
+  decodeHeaderValue,
+  encodeHeaderValue,
+  foldHeader,
+  parseHeaderParams,
+  parseMessage,
+  splitMbox,
+  joinMbox
+} from '../../../../src/lib/formats/email/mime';
+
+const HTML_BODY = '<p>Hi Jane, your case number is <b>CASE-7731</b>.</p><img src="https://example.com/o.gif" width="1" height="1">';
+const CSV_ATTACHMENT = 'name,email\nJane Roe,jane.roe@example.com\nJohn Poe,john@example.com\n';
+
+const MESSAGE = [
+  'Received: from mail.example.com (mail.example.com [203.0.113.7])',
+  '\tby mx.example.org; Tue, 1 Oct 2024 09:00:00 +0000',
+  'DKIM-Signature: v=1; a=rsa-sha256; d=example.com; bh=abc=; b=def=',
+  'From: "Roe, Jane" <jane.roe@example.com>',
+  'To: Legal Team <legal@example.org>, john@example.com',
+  'Subject: =?UTF-8?Q?Caf=C3=A9_meeting?= about CASE-7731',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Hi Jane, your case number is CASE-7731. Caf=C3=A9 at noon, call me on 555-01=',
+  '99.',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa(HTML_BODY),
+  '--inner--',
+  '--outer',
+  'Content-Type: text/csv; name="contacts.csv"',
+  'Content-Disposition: attachment; filename="contacts.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa(CSV_ATTACHMENT),
+  '--outer',
+  'Content-Type: application/octet-stream',
+  'Content-Disposition: attachment; filename*=utf-8\'\'Jane%20Roe%20notes.bin',
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa('\x00\x01binary'),
+  '--outer--',
+  ''
+].join('\r\n');
+
+function createEml(raw = MESSAGE): File {
+  return new File([raw], 'case.eml', { type: 'message/rfc822' });
+}
+
+async function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+describe('mime helpers', () => {
+  it('should decode encoded words and raw UTF-8 in headers', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?Caf=C3=A9_meeting?=')).toBe('Café meeting');
+    expect(decodeHeaderValue('=?ISO-8859-1?B?SvxyZ2Vu?= =?UTF-8?B?IE3DvGxsZXI=?=')).toBe('Jürgen Müller');
+  });
+
+  it('should round-trip redacted header values through encoded words', () => {
+    const encoded = encodeHeaderValue('Meeting with ████ ███ today');
+
+    expect(encoded).toMatch(/^Meeting with =\?UTF-8\?B\?[^ ]+\?= today$/);
+    expect(decodeHeaderValue(encoded)).toBe('Meeting with ████ ███ today');
+  });
+
+  it('should fold long headers at whitespace', () => {
+    const folded = foldHeader('Subject', 'word '.repeat(30).trim());
+
+    expect(folded.split('\r\n').every((line) => line.length <= 76)).toBe(true);
+    expect(folded.split('\r\n')[1]).toMatch(/^ word/);
+  });
+
+  it('should parse quoted and RFC 2231 parameters', () => {
+    const { value, params } = parseHeaderParams('attachment; filename*0*=utf-8\'\'Caf%C3%A9; filename*1=" menu.pdf"; size=10');
+
+    expect(value).toBe('attachment');
+    expect(params.filename).toBe('Café menu.pdf');
+    expect(params.size).toBe('10');
+  });
+
+  it('should split and join mbox files with From escaping', () => {
+    const mbox = 'From a@example.com Mon Jan  1 00:00:00 2024\nSubject: One\n\nBody\n>From here\n\nFrom b@example.com Mon Jan  1 00:00:00 2024\nSubject: Two\n\nSecond\n';
+    const messages = splitMbox(mbox);
+
+    expect(messages).toHaveLength(2);
+    expect(parseMessage(messages[0].message).body).toBe('Body\r\nFrom here');
+    expect(joinMbox(messages)).toContain('>From here');
+  });
+});
+
+describe('EmailFormat', () => {
+  let format: EmailFormat;
+
+  beforeEach(() => {
+    format = new EmailFormat();
+  });
+
+  describe('load and extractText', () => {
+    it('should extract headers, decoded bodies and attachments', async () => {
+      const doc = await format.load(createEml());
+      const { fullText, lineText } = await format.extractText(doc);
+
+      expect(doc.metadata.subject).toBe('Café meeting about CASE-7731');
+      expect(doc.metadata.attachmentCount).toBe(2);
+      expect(lineText).toContain('"Roe, Jane" <jane.roe@example.com>');
+      expect(fullText).toContain('[203.0.113.7]');
+      expect(fullText).toContain('Café at noon, call me on 555-0199.');
+      expect(fullText).toContain('Hi Jane, your case number is CASE-7731.');
+      expect(fullText).toContain('jane.roe@example.com');
+      expect(lineText).toContain('Jane Roe notes.bin');
+      // Structural headers and signatures are not detection targets
+      expect(fullText).not.toContain('boundary=');
+      expect(fullText).not.toContain('rsa-sha256');
+    });
+
+    it('should report routing headers and parts that cannot be redacted', async () => {
+      const doc = await format.load(createEml());
+      const risks = doc.metadata.privacyRisks as Array<{ id: string; details?: string }>;
+
+      expect(risks.map((risk) => risk.id)).toEqual([
+        'email-routing-headers',
+        'email-unredacted-attachments',
+        'email-part-html-scripts-trackers'
+      ]);
+      expect(risks[1].details).toBe('Jane Roe notes.bin');
+    });
+  });
+
+  describe('findTextBoxes and redact', () => {
+    it('should find terms across headers, bodies and attachments', async () => {
+      const doc = await format.load(createEml());
+      const boxes = await format.findTextBoxes(doc, ['jane.roe@example.com']);
+
+      // From header and the CSV attachment
+      expect(boxes).toHaveLength(2);
+    });
+
+    it('should redact every part when no line is given', async () => {
+      const doc = await format.load(createEml());
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: 'CASE-7731' }]);
+
+      const { fullText } = await format.extractText(doc);
+      expect(fullText).not.toContain('CASE-7731');
+      expect(fullText).toContain('about █████████');
+    });
+  });
+
+  describe('export', () => {
+    it('should rebuild a message with redacted headers, bodies and attachments', async () => {
+      const doc = await format.load(createEml());
+      await format.redact(doc, await format.findTextBoxes(doc, ['jane.roe@example.com', 'Jane', 'CASE-7731']));
+
+      const raw = await readBlob(await format.export(doc));
+      const exported = parseMessage(raw);
+      const header = (name: string) => exported.headers.find((h) => h.name === name)?.value ?? '';
+
+      expect(raw).not.toContain('DKIM-Signature');
+      expect(decodeHeaderValue(header('From'))).toBe('Roe ████ <redacted@redacted.invalid>');
+      expect(decodeHeaderValue(header('Subject'))).toBe('Café meeting about █████████');
+      expect(raw).not.toContain('CASE-7731');
+
+      const [alternative, csv, binary] = exported.children;
+      const html = atob(alternative.children[1].body.replace(/\s/g, ''));
+      expect(html).not.toContain('o.gif');
+      expect(csv.headers.find((h) => h.name === 'Content-Transfer-Encoding')?.value).toBe('base64');
+      expect(binary.body).toBe(btoa('\x00\x01binary'));
+    });
+
+    it('should produce an export that loads again without the redacted text', async () => {
+      const doc = await format.load(createEml());
+      await format.redact(doc, await format.findTextBoxes(doc, ['jane.roe@example.com', '555-0199']));
+
+      const reloaded = await format.load(new File([await format.export(doc)], 'case-redacted.eml'));
+      const { fullText } = await format.extractText(reloaded);
+
+      expect(fullText).not.toContain('jane.roe@example.com');
+      expect(fullText).not.toContain('555-0199');
+      expect(fullText).toContain('john@example.com');
+    });
+
+    it('should export mailboxes with anonymized separators', async () => {
+      const mbox = [
+        'From jane.roe@example.com Tue Oct  1 09:00:00 2024',
+        'From: jane.roe@example.com',
+        'Subject: First',
+        '',
+        'Call 555-0199',
+        '',
+        'From john@example.com Tue Oct  1 10:00:00 2024',
+        'From: john@example.com',
+        'Subject: Second',
+        '',
+        '>From the desk of John',
+        ''
+      ].join('\n');
+
+      const doc = await format.load(new File([mbox], 'case.mbox'));
+      expect(doc.metadata.messageCount).toBe(2);
+      expect(await format.findTextBoxes(doc, ['555-0199'], 1)).toHaveLength(0);
+
+      await format.redact(doc, await format.findTextBoxes(doc, ['jane.roe@example.com']));
+      const exported = await readBlob(await format.export(doc));
+
+      expect(exported).not.toContain('jane.roe@example.com');
+      expect(exported).toContain('From - Tue Oct  1 09:00:00 2024');
+      expect(exported).toContain('From: redacted@redacted.invalid');
+      expect(splitMbox(exported)).toHaveLength(2);
+    });
+  });
+
+  describe('render', () => {
+    it('should render headers, bodies and attachments with a section list', async () => {
+      const doc = await format.load(createEml());
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      const titles = Array.from(container.querySelectorAll('.email-sections button')).map((b) => b.textContent);
+      expect(titles).toEqual([
+        'Headers',
+        'Body (text/plain)',
+        'Body (text/html)',
+        'Attachment: contacts.csv',
+        'Attachment: Jane Roe notes.bin'
+      ]);
+      expect(container.querySelector('.email-headers')!.textContent).toContain('Received');
+      expect(container.querySelector('iframe[sandbox]')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Unit tests for DocxFormat
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { DocxFormat } from '../../../../src/lib/formats/office/DocxFormat';
+import type { DocumentFormat } from '../../../../src/lib/formats/base/DocumentFormat';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function createDocx(body: string, extraParts: Record<string, string> = {}): File {
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail" Target="docProps/thumbnail.jpeg"/>
+</Relationships>`,
+    'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/comments" Target="comments.xml"/>
+  <Relationship Id="rId2" Type="${REL}/customXml" Target="../customXml/item1.xml"/>
+</Relationships>`,
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>`,
+    'word/comments.xml': `<?xml version="1.0" encoding="UTF-8"?><w:comments ${W}><w:comment w:id="0" w:author="Jane Reviewer"><w:p><w:r><w:t>Check this</w:t></w:r></w:p></w:comment></w:comments>`,
+    'customXml/item1.xml': '<?xml version="1.0" encoding="UTF-8"?><data><owner>jane@corp.example</owner></data>',
+    'docProps/core.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>Contract</dc:title>
+  <dc:creator>Jane Author</dc:creator>
+  <cp:lastModifiedBy>John Editor</cp:lastModifiedBy>
+</cp:coreProperties>`,
+    'docProps/thumbnail.jpeg': 'Service Agreement for John Doe',
+    ...extraParts
+  };
+
+  const zipped = zipSync(Object.fromEntries(
+    Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])
+  ));
+
+  return new File([zipped], 'contract.docx', {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+}
+
+async function readExport(blob: Blob): Promise<Record<string, string>> {
+  const bytes = new Uint8Array(await new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  }));
+  const files = unzipSync(bytes);
+  return Object.fromEntries(Object.entries(files).map(([path, data]) => [path, strFromU8(data)]));
+}
+
+const BODY = `
+  <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Service Agreement</w:t></w:r></w:p>
+  <w:p>
+    <w:commentRangeStart w:id="0"/>
+    <w:r><w:t xml:space="preserve">Contact: john.</w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>doe@example.com</w:t></w:r>
+    <w:commentRangeEnd w:id="0"/>
+    <w:r><w:commentReference w:id="0"/></w:r>
+  </w:p>
+  <w:p>
+    <w:r><w:t xml:space="preserve">Phone </w:t></w:r>
+    <w:del w:id="1" w:author="John Editor"><w:r><w:delText>555-000-1111</w:delText></w:r></w:del>
+    <w:ins w:id="2" w:author="John Editor"><w:r><w:t>555-123-4567</w:t></w:r></w:ins>
+  </w:p>
+  <w:tbl><w:tr><w:tc><w:p><w:r><w:t>SSN</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>123-45-6789</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+`;
+
+describe('DocxFormat', () => {
+  let format: DocxFormat;
+
+  beforeEach(() => {
+    format = new DocxFormat();
+  });
+
+  it('should have correct format metadata', () => {
+    expect(format.formatId).toBe('docx');
+    expect(format.supportedExtensions).toContain('docx');
+    expect(format.capabilities.supportsDirectExport).toBe(true);
+  });
+
+  describe('load and extractText', () => {
+    it('should extract paragraphs joined across runs and accept tracked changes', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const result = await format.extractText(doc);
+
+      expect(result.lineText).toEqual([
+        'Service Agreement',
+        'Contact: john.doe@example.com',
+        'Phone 555-123-4567',
+        'SSN',
+        '123-45-6789'
+      ]);
+      expect(result.fullText).not.toContain('555-000-1111');
+    });
+
+    it('should map character positions to paragraph and offset', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const { characterPositions, fullText } = await format.extractText(doc);
+
+      const at = fullText.indexOf('doe@');
+      const position = characterPositions!.find((p) => p.index === at)!;
+      expect(position.char).toBe('d');
+      expect(position.line).toBe(1);
+      expect(position.column).toBe('Contact: john.'.length);
+    });
+
+    it('should surface hidden content as privacy risks', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const ids = doc.metadata.privacyRisks.map((risk: { id: string }) => risk.id);
+
+      expect(ids).toEqual(['docx-comments', 'docx-tracked-changes', 'docx-custom-xml', 'docx-author']);
+    });
+
+    it('should reject files that are not zip packages', async () => {
+      const file = new File(['not a zip'], 'broken.docx');
+      await expect(format.load(file)).rejects.toThrow('not a valid Office document');
+    });
+  });
+
+  describe('findTextBoxes', () => {
+    it('should return paragraph-based boxes', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const boxes = await format.findTextBoxes(doc, ['123-45-6789']);
+
+      expect(boxes).toHaveLength(1);
+      expect(boxes[0].line).toBe(4);
+      expect(boxes[0].text).toBe('123-45-6789');
+    });
+  });
+
+  describe('redact and export', () => {
+    it('should replace text spanning multiple runs', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const boxes = await format.findTextBoxes(doc, ['john.doe@example.com']);
+      await format.redact(doc, boxes);
+
+      const { lineText } = await format.extractText(doc);
+      expect(lineText![1]).toBe('Contact: ' + '█'.repeat(20));
+      expect(doc.modified).toBe(true);
+    });
+
+    it('should mask without pseudonyms, and not claim to support them', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const replace = vi.fn(async () => 'user_1@example.invalid');
+      const boxes = await format.findTextBoxes(doc, ['john.doe@example.com']);
+      await (format as DocumentFormat).redact(doc, boxes, { replace });
+
+      const { lineText } = await format.extractText(doc);
+      expect(lineText![1]).toBe('Contact: ' + '█'.repeat(20));
+      expect(replace).not.toHaveBeenCalled();
+      expect(format.capabilities.supportsReplacement).toBeFalsy();
+    });
+
+    it('should export a package without redacted text, comments, history or authors', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const boxes = await format.findTextBoxes(doc, ['john.doe@example.com', '123-45-6789']);
+      await format.redact(doc, boxes);
+
+      const files = await readExport(await format.export(doc));
+      const documentXml = files['word/document.xml'];
+
+      expect(documentXml).not.toContain('doe@example.com');
+      expect(documentXml).not.toContain('123-45-6789');
+      expect(documentXml).not.toContain('555-000-1111');
+      expect(documentXml).not.toContain('w:ins');
+      expect(documentXml).not.toContain('commentRangeStart');
+      expect(documentXml).toContain('Service Agreement');
+
+      expect(files['word/comments.xml']).toBeUndefined();
+      expect(files['customXml/item1.xml']).toBeUndefined();
+      expect(files['word/_rels/document.xml.rels']).not.toContain('comments.xml');
+      expect(files['word/_rels/document.xml.rels']).not.toContain('customXml');
+      expect(files['[Content_Types].xml']).not.toContain('/word/comments.xml');
+
+      expect(files['docProps/core.xml']).not.toContain('Jane Author');
+      expect(files['docProps/core.xml']).not.toContain('John Editor');
+      expect(files['docProps/core.xml']).toContain('Contract');
+
+      expect(files['docProps/thumbnail.jpeg']).toBeUndefined();
+      expect(files['_rels/.rels']).not.toContain('thumbnail');
+    });
+
+    it('should search hyperlink targets and remove links holding redacted values', async () => {
+      const body = `
+        <w:p><w:hyperlink r:id="rId9" xmlns:r="${REL}"><w:r><w:t>Email us</w:t></w:r></w:hyperlink></w:p>
+        <w:p><w:hyperlink r:id="rId10" xmlns:r="${REL}"><w:r><w:t>Our site</w:t></w:r></w:hyperlink></w:p>`;
+      const file = createDocx(body, {
+        'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId9" Type="${REL}/hyperlink" Target="mailto:jane.roe@example.com" TargetMode="External"/>
+  <Relationship Id="rId10" Type="${REL}/hyperlink" Target="https://example.org/about" TargetMode="External"/>
+</Relationships>`
+      });
+      const doc = await format.load(file);
+
+      const { lineText, fullText } = await format.extractText(doc);
+      expect(lineText).toEqual(['Email us', 'Our site', 'mailto:jane.roe@example.com', 'https://example.org/about']);
+      expect(fullText).toContain('jane.roe@example.com');
+
+      const boxes = await format.findTextBoxes(doc, ['jane.roe@example.com']);
+      expect(boxes).toEqual([expect.objectContaining({ line: 2 })]);
+      await format.redact(doc, boxes);
+
+      const files = await readExport(await format.export(doc));
+      expect(files['word/_rels/document.xml.rels']).not.toContain('jane.roe');
+      expect(files['word/_rels/document.xml.rels']).toContain('https://example.org/about');
+      expect(files['word/document.xml']).not.toContain('rId9');
+      expect(files['word/document.xml']).toContain('Email us');
+
+      const reloaded = await format.load(new File([await format.export(doc)], 'contract-redacted.docx'));
+      expect((await format.extractText(reloaded)).fullText).not.toContain('jane.roe');
+    });
+
+    it('should produce an export that loads again', async () => {
+      const doc = await format.load(createDocx(BODY));
+      await format.redact(doc, await format.findTextBoxes(doc, ['555-123-4567']));
+
+      const blob = await format.export(doc);
+      const reloaded = await format.load(new File([blob], 'contract-redacted.docx'));
+      const { lineText } = await format.extractText(reloaded);
+
+      expect(lineText![2]).toBe('Phone ' + '█'.repeat(12));
+      expect(reloaded.metadata.privacyRisks).toEqual([]);
+    });
+  });
+
+  describe('render', () => {
+    it('should render headings, paragraphs and tables', async () => {
+      const doc = await format.load(createDocx(BODY));
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      expect(container.querySelector('h2')?.textContent).toBe('Service Agreement');
+      expect(container.querySelectorAll('td')).toHaveLength(2);
+      expect(container.textContent).toContain('john.doe@example.com');
+      expect(doc.rendered).toBe(true);
+    });
+  });
+});
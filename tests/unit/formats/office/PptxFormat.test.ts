@@ -0,0 +1,261 @@
+/**
+ * Unit tests for PptxFormat
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { PptxFormat } from '../../../../src/lib/formats/office/PptxFormat';
+
+const P_NS = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const A_NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const R_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELS_NS = 'xmlns="http://schemas.openxmlformats.org/package/2006/relationships"';
+
+function textShape(paragraphs: string, xfrm = ''): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Text"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr>${xfrm}</p:spPr><p:txBody><a:bodyPr/>${paragraphs}</p:txBody></p:sp>`;
+}
+
+function slideXml(shapes: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<p:sld ${P_NS} ${A_NS} ${R_NS}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+}
+
+function createPptx(edit?: (parts: Record<string, string | Uint8Array>) => void): File {
+  const parts: Record<string, string | Uint8Array> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="png" ContentType="image/png"/>
+  <Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>
+  <Override PartName="/ppt/notesSlides/notesSlide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml"/>
+  <Override PartName="/ppt/comments/comment1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.comments+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships ${RELS_NS}>
+  <Relationship Id="rId1" Type="${REL}/officeDocument" Target="ppt/presentation.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail" Target="docProps/thumbnail.jpeg"/>
+</Relationships>`,
+    'docProps/core.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:creator>Grace Hopper</dc:creator>
+</cp:coreProperties>`,
+    'docProps/thumbnail.jpeg': new Uint8Array([0xff, 0xd8, 0xff, 0xd9]),
+    'ppt/presentation.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:presentation ${P_NS} ${R_NS}>
+  <p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst>
+  <p:sldSz cx="9144000" cy="6858000"/>
+</p:presentation>`,
+    'ppt/_rels/presentation.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships ${RELS_NS}>
+  <Relationship Id="rId1" Type="${REL}/slide" Target="slides/slide2.xml"/>
+  <Relationship Id="rId2" Type="${REL}/slide" Target="slides/slide1.xml"/>
+  <Relationship Id="rId3" Type="${REL}/commentAuthors" Target="commentAuthors.xml"/>
+</Relationships>`,
+    'ppt/commentAuthors.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:cmAuthorLst ${P_NS}><p:cmAuthor id="0" name="Grace Hopper" initials="GH" lastIdx="1" clrIdx="0"/></p:cmAuthorLst>`,
+    'ppt/slides/slide1.xml': slideXml(
+      textShape(
+        '<a:p><a:r><a:rPr lang="en-US" sz="4400" b="1"/><a:t>Quarterly review</a:t></a:r></a:p>',
+        '<a:xfrm><a:off x="457200" y="274638"/><a:ext cx="8229600" cy="1143000"/></a:xfrm>'
+      ) + textShape(
+        '<a:p><a:r><a:t>Contact </a:t></a:r><a:r><a:t>jane.doe@</a:t></a:r><a:r><a:t>example.com</a:t></a:r></a:p>'
+        + '<a:p><a:r><a:t>Owner: Jane Doe</a:t></a:r></a:p>'
+      ) + `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="4" name="Table"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>
+        <p:xfrm><a:off x="457200" y="3000000"/><a:ext cx="6000000" cy="740000"/></p:xfrm>
+        <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>
+          <a:tr h="370000"><a:tc><a:txBody><a:p><a:r><a:t>Name</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Phone</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+          <a:tr h="370000"><a:tc><a:txBody><a:p><a:r><a:t>Jane Doe</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>555-0100</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+        </a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+    ),
+    'ppt/slides/_rels/slide1.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships ${RELS_NS}>
+  <Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/>
+  <Relationship Id="rId2" Type="${REL}/comments" Target="../comments/comment1.xml"/>
+  <Relationship Id="rId3" Type="${REL}/image" Target="../media/image1.png"/>
+</Relationships>`,
+    'ppt/slides/slide2.xml': slideXml(textShape('<a:p><a:r><a:t>Thanks, Jane Doe</a:t></a:r></a:p>')),
+    'ppt/notesSlides/notesSlide1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:notes ${P_NS} ${A_NS}><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Image"/><p:cNvSpPr/><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>
+  <p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>
+    <p:txBody><a:bodyPr/><a:p><a:r><a:t>Mention SSN 123-45-6789 only verbally</a:t></a:r></a:p></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:cNvPr id="4" name="Number"/><p:cNvSpPr/><p:nvPr><p:ph type="sldNum" idx="5"/></p:nvPr></p:nvSpPr><p:spPr/>
+    <p:txBody><a:bodyPr/><a:p><a:fld id="{1}" type="slidenum"><a:t>1</a:t></a:fld></a:p></p:txBody></p:sp>
+</p:spTree></p:cSld></p:notes>`,
+    'ppt/comments/comment1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:cmLst ${P_NS}><p:cm authorId="0" idx="1"><p:pos x="10" y="10"/><p:text>Check the phone number</p:text></p:cm></p:cmLst>`,
+    'ppt/media/image1.png': new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      0, 0, 0, 2, 0x49, 0x48, 0x44, 0x52, 1, 2, 0, 0, 0, 0,
+      0, 0, 0, 3, 0x74, 0x45, 0x58, 0x74, 65, 0, 66, 0, 0, 0, 0,
+      0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0, 0, 0, 0
+    ])
+  };
+  edit?.(parts);
+
+  const zipped = zipSync(Object.fromEntries(
+    Object.entries(parts).map(([path, data]) => [path, typeof data === 'string' ? strToU8(data) : data])
+  ));
+
+  return new File([zipped], 'review.pptx', {
+    type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  });
+}
+
+async function readExport(blob: Blob): Promise<Record<string, Uint8Array>> {
+  const bytes = new Uint8Array(await new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  }));
+  return unzipSync(bytes);
+}
+
+describe('PptxFormat', () => {
+  let format: PptxFormat;
+
+  beforeEach(() => {
+    format = new PptxFormat();
+  });
+
+  describe('load and extractText', () => {
+    it('should read slides in presentation order with tables and notes', async () => {
+      const doc = await format.load(createPptx());
+      const { pageText, fullText } = await format.extractText(doc);
+
+      expect(doc.metadata.slideCount).toBe(2);
+      expect(pageText!.get(0)).toContain('Contact jane.doe@example.com');
+      expect(pageText!.get(0)).toContain('555-0100');
+      expect(pageText!.get(0)).toContain('SSN 123-45-6789');
+      expect(pageText!.get(1)).toBe('Thanks, Jane Doe');
+      // Slide number placeholders in notes are not notes text
+      expect(fullText.split('\n')).not.toContain('1');
+    });
+
+    it('should surface notes, comments, image metadata and author', async () => {
+      const doc = await format.load(createPptx());
+      const risks = doc.metadata.privacyRisks as Array<{ id: string; details?: string }>;
+
+      expect(risks.map((risk) => risk.id)).toEqual([
+        'pptx-speaker-notes', 'pptx-comments', 'pptx-media-metadata', 'pptx-author'
+      ]);
+      expect(risks[0].details).toBe('Slide(s) 1');
+      expect(risks[3].details).toBe('Grace Hopper');
+    });
+
+    it('should surface SmartArt, charts and embedded files, which are not searched', async () => {
+      const doc = await format.load(createPptx((parts) => {
+        parts['ppt/slides/_rels/slide2.xml.rels'] = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships ${RELS_NS}>
+  <Relationship Id="rId1" Type="${REL}/diagramData" Target="../diagrams/data1.xml"/>
+  <Relationship Id="rId2" Type="${REL}/chart" Target="../charts/chart1.xml"/>
+</Relationships>`;
+        parts['ppt/diagrams/data1.xml'] = '<dgm:dataModel xmlns:dgm="http://schemas.openxmlformats.org/drawingml/2006/diagram"/>';
+        parts['ppt/charts/chart1.xml'] = '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart"/>';
+        parts['ppt/embeddings/Microsoft_Excel_Worksheet.xlsx'] = new Uint8Array([0x50, 0x4b]);
+      }));
+      const risks = doc.metadata.privacyRisks as Array<{ id: string; details?: string }>;
+      const details = (id: string) => risks.find((risk) => risk.id === id)?.details;
+
+      expect(details('pptx-smartart')).toBe('Slide(s) 2');
+      expect(details('pptx-charts')).toBe('Slide(s) 2');
+      expect(details('pptx-embedded-files')).toBe('1 file(s)');
+    });
+  });
+
+  describe('findTextBoxes', () => {
+    it('should find terms on every slide', async () => {
+      const doc = await format.load(createPptx());
+      const boxes = await format.findTextBoxes(doc, ['Jane Doe']);
+
+      expect(boxes.map((box) => box.slide)).toEqual([0, 0, 1]);
+    });
+
+    it('should restrict to one slide when given', async () => {
+      const doc = await format.load(createPptx());
+      const boxes = await format.findTextBoxes(doc, ['Jane Doe'], 1);
+
+      expect(boxes).toHaveLength(1);
+      expect(boxes[0].text).toBe('Jane Doe');
+    });
+
+    it('should position boxes inside their shape', async () => {
+      const doc = await format.load(createPptx());
+      const [box] = await format.findTextBoxes(doc, ['review']);
+
+      // Shape offset 457200 x 274638 EMU, "review" at column 10
+      expect(box.x).toBeCloseTo(457200 / 9525 + 10 * 8);
+      expect(box.y).toBeCloseTo(274638 / 9525);
+    });
+  });
+
+  describe('redact', () => {
+    it('should redact text split across runs', async () => {
+      const doc = await format.load(createPptx());
+      await format.redact(doc, await format.findTextBoxes(doc, ['jane.doe@example.com']));
+
+      const { pageText } = await format.extractText(doc);
+      expect(pageText!.get(0)).toContain('Contact ████████████████████');
+    });
+
+    it('should redact every occurrence when no line is given', async () => {
+      const doc = await format.load(createPptx());
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: 'Jane Doe' }]);
+
+      const { fullText } = await format.extractText(doc);
+      expect(fullText).not.toContain('Jane Doe');
+    });
+  });
+
+  describe('export', () => {
+    it('should strip notes, comments, image metadata and authors', async () => {
+      const doc = await format.load(createPptx());
+      await format.redact(doc, await format.findTextBoxes(doc, ['555-0100']));
+
+      const files = await readExport(await format.export(doc));
+      const text = (path: string) => strFromU8(files[path]);
+
+      expect(text('ppt/slides/slide1.xml')).not.toContain('555-0100');
+      expect(files['ppt/notesSlides/notesSlide1.xml']).toBeUndefined();
+      expect(files['ppt/comments/comment1.xml']).toBeUndefined();
+      expect(files['ppt/commentAuthors.xml']).toBeUndefined();
+      expect(text('ppt/slides/_rels/slide1.xml.rels')).not.toContain('notesSlide');
+      expect(text('[Content_Types].xml')).not.toContain('comment1');
+      expect(text('docProps/core.xml')).not.toContain('Grace Hopper');
+      expect(files['docProps/thumbnail.jpeg']).toBeUndefined();
+      expect(text('_rels/.rels')).not.toContain('thumbnail');
+      expect(files['ppt/media/image1.png']).toHaveLength(34);
+    });
+
+    it('should produce an export that loads again', async () => {
+      const doc = await format.load(createPptx());
+      await format.redact(doc, await format.findTextBoxes(doc, ['Jane Doe']));
+
+      const reloaded = await format.load(new File([await format.export(doc)], 'review-redacted.pptx'));
+      const { fullText } = await format.extractText(reloaded);
+
+      expect(fullText).not.toContain('Jane Doe');
+      expect(fullText).not.toContain('123-45-6789');
+      expect(fullText).toContain('Quarterly review');
+      expect(reloaded.metadata.privacyRisks).toEqual([]);
+    });
+  });
+
+  describe('render', () => {
+    it('should render a thumbnail per slide with notes below', async () => {
+      const doc = await format.load(createPptx());
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      expect(container.querySelectorAll('.pptx-thumbnail')).toHaveLength(2);
+      expect(container.querySelectorAll('.pptx-notes')).toHaveLength(1);
+      expect(container.querySelectorAll('.pptx-thumbnail td')).toHaveLength(4);
+      expect(container.querySelector('.pptx-notes')!.textContent).toContain('123-45-6789');
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Unit tests for XlsxFormat
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { XlsxFormat, columnToIndex, indexToColumn } from '../../../../src/lib/formats/office/XlsxFormat';
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const R_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function sheetXml(rows: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><worksheet ${NS}><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function createXlsx(edit?: (parts: Record<string, string>) => void): File {
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/calcChain.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.calcChain+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/officeDocument" Target="xl/workbook.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail" Target="docProps/thumbnail.jpeg"/>
+</Relationships>`,
+    'docProps/thumbnail.jpeg': 'Ada Lovelace ada@example.com',
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<workbook ${NS} ${R_NS}>
+  <sheets>
+    <sheet name="Staff" sheetId="1" r:id="rId1"/>
+    <sheet name="Payroll" sheetId="2" state="hidden" r:id="rId2"/>
+  </sheets>
+  <definedNames>
+    <definedName name="Salaries">Payroll!$B$2:$B$3</definedName>
+    <definedName name="_xlnm.Print_Area" localSheetId="0">Staff!$A$1:$C$3</definedName>
+  </definedNames>
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="${REL}/worksheet" Target="worksheets/sheet2.xml"/>
+  <Relationship Id="rId3" Type="${REL}/sharedStrings" Target="sharedStrings.xml"/>
+  <Relationship Id="rId4" Type="${REL}/calcChain" Target="calcChain.xml"/>
+</Relationships>`,
+    'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<sst ${NS} count="8" uniqueCount="8">
+  <si><t>Name</t></si><si><t>Email</t></si><si><t>Ada Lovelace</t></si><si><t>ada@example.com</t></si>
+  <si><t>Alan Turing</t></si><si><r><t>alan@</t></r><r><t>example.com</t></r></si><si><t>Employee</t></si><si><t>Salary</t></si>
+</sst>`,
+    'xl/worksheets/sheet1.xml': sheetXml(`
+      <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="str"><v>Contact</v></c></row>
+      <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c><c r="C2" t="str"><f t="shared" ref="C2:C3" si="0">B2</f><v>ada@example.com</v></c></row>
+      <row r="3"><c r="A3" t="s"><v>4</v></c><c r="B3" t="s"><v>5</v></c><c r="C3" t="str"><f t="shared" si="0"/><v>alan@example.com</v></c></row>
+    `),
+    'xl/worksheets/sheet2.xml': sheetXml(`
+      <row r="1"><c r="A1" t="s"><v>6</v></c><c r="B1" t="s"><v>7</v></c></row>
+      <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>120000</v></c></row>
+      <row r="3"><c r="A3" t="s"><v>4</v></c><c r="B3"><v>95000</v></c></row>
+      <row r="5"><c r="B5"><f>SUM(Salaries)</f><v>215000</v></c><c r="C5"><f>LEN("B2")</f><v>2</v></c></row>
+    `),
+    'xl/worksheets/_rels/sheet2.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/comments" Target="../comments1.xml"/>
+</Relationships>`,
+    'xl/comments1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<comments ${NS}><authors><author>HR</author></authors><commentList>
+  <comment ref="B2" authorId="0"><text><t>Raise pending</t></text></comment>
+</commentList></comments>`,
+    'xl/calcChain.xml': `<?xml version="1.0" encoding="UTF-8"?><calcChain ${NS}><c r="C2" i="1"/></calcChain>`
+  };
+  edit?.(parts);
+
+  const zipped = zipSync(Object.fromEntries(
+    Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])
+  ));
+
+  return new File([zipped], 'staff.xlsx', {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+}
+
+/**
+ * Add a pivot table on the Staff sheet and a chart plotting its emails
+ */
+function addPivotTableAndChart(parts: Record<string, string>): void {
+  parts['xl/workbook.xml'] = parts['xl/workbook.xml']
+    .replace('</workbook>', '<pivotCaches><pivotCache cacheId="1" r:id="rId5"/></pivotCaches></workbook>');
+  parts['xl/_rels/workbook.xml.rels'] = parts['xl/_rels/workbook.xml.rels']
+    .replace('</Relationships>', `<Relationship Id="rId5" Type="${REL}/pivotCacheDefinition" Target="pivotCache/pivotCacheDefinition1.xml"/></Relationships>`);
+  parts['xl/pivotCache/pivotCacheDefinition1.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
+<pivotCacheDefinition ${NS} ${R_NS} r:id="rId1" recordCount="2"><cacheFields count="1"><cacheField name="Email">
+  <sharedItems><s v="ada@example.com"/><s v="alan@example.com"/></sharedItems>
+</cacheField></cacheFields></pivotCacheDefinition>`;
+  parts['xl/pivotCache/_rels/pivotCacheDefinition1.xml.rels'] = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/pivotCacheRecords" Target="pivotCacheRecords1.xml"/>
+</Relationships>`;
+  parts['xl/pivotCache/pivotCacheRecords1.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
+<pivotCacheRecords ${NS} count="2"><r><s v="ada@example.com"/></r><r><s v="alan@example.com"/></r></pivotCacheRecords>`;
+  parts['xl/worksheets/_rels/sheet1.xml.rels'] = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/pivotTable" Target="../pivotTables/pivotTable1.xml"/>
+  <Relationship Id="rId2" Type="${REL}/drawing" Target="../drawings/drawing1.xml"/>
+</Relationships>`;
+  parts['xl/pivotTables/pivotTable1.xml'] = `<?xml version="1.0" encoding="UTF-8"?><pivotTableDefinition ${NS} name="PivotTable1" cacheId="1"/>`;
+  parts['xl/pivotTables/_rels/pivotTable1.xml.rels'] = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/pivotCacheDefinition" Target="../pivotCache/pivotCacheDefinition1.xml"/>
+</Relationships>`;
+  parts['xl/drawings/drawing1.xml'] = '<?xml version="1.0" encoding="UTF-8"?><xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing"/>';
+  parts['xl/drawings/_rels/drawing1.xml.rels'] = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL}/chart" Target="../charts/chart1.xml"/>
+</Relationships>`;
+  parts['xl/charts/chart1.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
+<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart><c:plotArea><c:barChart><c:ser>
+  <c:cat><c:strRef><c:f>Staff!$B$2:$B$3</c:f><c:strCache><c:ptCount val="2"/><c:pt idx="0"><c:v>ada@example.com</c:v></c:pt><c:pt idx="1"><c:v>alan@example.com</c:v></c:pt></c:strCache></c:strRef></c:cat>
+</c:ser></c:barChart></c:plotArea></c:chart></c:chartSpace>`;
+}
+
+async function readExport(blob: Blob): Promise<Record<string, string>> {
+  const bytes = new Uint8Array(await new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  }));
+  const files = unzipSync(bytes);
+  return Object.fromEntries(Object.entries(files).map(([path, data]) => [path, strFromU8(data)]));
+}
+
+describe('XlsxFormat', () => {
+  let format: XlsxFormat;
+
+  beforeEach(() => {
+    format = new XlsxFormat();
+  });
+
+  it('should convert between column letters and indices', () => {
+    expect(columnToIndex('A')).toBe(0);
+    expect(columnToIndex('Z')).toBe(25);
+    expect(columnToIndex('AA')).toBe(26);
+    expect(indexToColumn(0)).toBe('A');
+    expect(indexToColumn(27)).toBe('AB');
+  });
+
+  describe('load and extractText', () => {
+    it('should read all sheets including hidden ones', async () => {
+      const doc = await format.load(createXlsx());
+      const { sheetText, fullText } = await format.extractText(doc);
+
+      expect(doc.metadata.sheetCount).toBe(2);
+      expect(doc.metadata.sheetNames).toEqual(['Staff', 'Payroll']);
+      expect(sheetText!.get(0)).toContain('alan@example.com');
+      expect(sheetText!.get(1)).toContain('120000');
+      expect(fullText).toContain('ada@example.com');
+    });
+
+    it('should surface hidden sheets, comments and defined names', async () => {
+      const doc = await format.load(createXlsx());
+      const risks = doc.metadata.privacyRisks as Array<{ id: string; details?: string }>;
+
+      expect(risks.map((risk) => risk.id)).toEqual(['xlsx-hidden-sheets', 'xlsx-comments', 'xlsx-defined-names']);
+      expect(risks[0].details).toBe('Payroll');
+      expect(risks[2].details).toBe('Salaries');
+    });
+
+    it('should surface pivot and chart caches', async () => {
+      const doc = await format.load(createXlsx(addPivotTableAndChart));
+      const risks = doc.metadata.privacyRisks as Array<{ id: string }>;
+
+      expect(risks.map((risk) => risk.id)).toEqual(expect.arrayContaining(['xlsx-pivot-caches', 'xlsx-chart-caches']));
+    });
+  });
+
+  describe('findTextBoxes', () => {
+    it('should map terms to sheet, row and column', async () => {
+      const doc = await format.load(createXlsx());
+      const boxes = await format.findTextBoxes(doc, ['Ada Lovelace']);
+
+      expect(boxes.map((box) => [box.sheet, box.row, box.column])).toEqual([[0, 1, 0], [1, 1, 0]]);
+    });
+
+    it('should restrict to one sheet when given', async () => {
+      const doc = await format.load(createXlsx());
+      const boxes = await format.findTextBoxes(doc, ['Ada Lovelace'], 1);
+
+      expect(boxes).toHaveLength(1);
+      expect(boxes[0].sheet).toBe(1);
+    });
+  });
+
+  describe('redact', () => {
+    it('should neutralize formulas that read redacted cells', async () => {
+      const doc = await format.load(createXlsx());
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: 'ada@example.com', sheet: 0, row: 1, column: 1 }]);
+
+      const { sheetText } = await format.extractText(doc);
+      // B2 redacted, C2 (=B2) neutralized, C3 (=B3) untouched
+      expect(sheetText!.get(0)).not.toContain('ada@example.com');
+      expect(sheetText!.get(0)).toContain('alan@example.com');
+      expect(doc.metadata.neutralizedFormulas).toBe(1);
+    });
+
+    it('should follow defined names to dependent formulas', async () => {
+      const doc = await format.load(createXlsx());
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: '120000', sheet: 1, row: 1, column: 1 }]);
+
+      const { sheetText } = await format.extractText(doc);
+      expect(sheetText!.get(1)).not.toContain('215000');
+      // Strings that merely look like references are ignored
+      expect(doc.metadata.neutralizedFormulas).toBe(1);
+    });
+
+    it('should redact a whole column by header name', async () => {
+      const doc = await format.load(createXlsx());
+      await format.redactColumn(doc, 'Email', 0);
+
+      const { sheetText } = await format.extractText(doc);
+      expect(sheetText!.get(0)).toContain('Email');
+      expect(sheetText!.get(0)).not.toContain('@example.com');
+      expect(doc.metadata.neutralizedFormulas).toBe(2);
+    });
+
+    it('should list the data cells of a column', async () => {
+      const doc = await format.load(createXlsx());
+      const boxes = format.getColumnBoxes(doc, 1, 0);
+
+      expect(boxes.map((box) => [box.sheet, box.row, box.column, box.text])).toEqual([
+        [0, 1, 1, 'ada@example.com'],
+        [0, 2, 1, 'alan@example.com']
+      ]);
+    });
+
+    it('should throw for an unknown column', async () => {
+      const doc = await format.load(createXlsx());
+      await expect(format.redactColumn(doc, 'Missing', 0)).rejects.toThrow('Column "Missing" not found');
+    });
+  });
+
+  describe('export', () => {
+    it('should write redacted values and drop them from shared strings', async () => {
+      const doc = await format.load(createXlsx());
+      await format.redactColumn(doc, 'Email', 0);
+
+      const files = await readExport(await format.export(doc));
+
+      expect(files['xl/sharedStrings.xml']).not.toContain('ada@example.com');
+      expect(files['xl/sharedStrings.xml']).not.toContain('alan@');
+      expect(files['xl/sharedStrings.xml']).toContain('Ada Lovelace');
+      expect(files['xl/worksheets/sheet1.xml']).not.toContain('example.com');
+      expect(files['xl/worksheets/sheet1.xml']).toContain('inlineStr');
+      expect(files['xl/calcChain.xml']).toBeUndefined();
+      expect(files['[Content_Types].xml']).not.toContain('calcChain');
+      expect(files['docProps/thumbnail.jpeg']).toBeUndefined();
+      expect(files['_rels/.rels']).not.toContain('thumbnail');
+    });
+
+    it('should drop pivot caches and empty chart caches once cells are redacted', async () => {
+      const doc = await format.load(createXlsx(addPivotTableAndChart));
+      await format.redactColumn(doc, 'Email', 0);
+
+      const files = await readExport(await format.export(doc));
+      const leaked = Object.entries(files).filter(([, xml]) => xml.includes('example.com')).map(([path]) => path);
+
+      expect(leaked).toEqual([]);
+      expect(Object.keys(files).filter((path) => path.includes('pivot'))).toEqual([]);
+      expect(files['xl/workbook.xml']).not.toContain('pivotCache');
+      expect(files['xl/_rels/workbook.xml.rels']).not.toContain('pivotCache');
+      expect(files['xl/charts/chart1.xml']).toContain('<c:f>Staff!$B$2:$B$3</c:f>');
+      expect(files['xl/charts/chart1.xml']).toContain('<c:ptCount val="0"/>');
+    });
+
+    it('should produce an export that loads again', async () => {
+      const doc = await format.load(createXlsx());
+      await format.redact(doc, await format.findTextBoxes(doc, ['Ada Lovelace']));
+
+      const reloaded = await format.load(new File([await format.export(doc)], 'staff-redacted.xlsx'));
+      const { fullText } = await format.extractText(reloaded);
+
+      expect(fullText).not.toContain('Ada Lovelace');
+      expect(fullText).toContain('Alan Turing');
+    });
+  });
+
+  describe('render', () => {
+    it('should render sheet tabs and the active sheet', async () => {
+      const doc = await format.load(createXlsx());
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      const tabs = container.querySelectorAll('.xlsx-sheet-tabs button');
+      expect(Array.from(tabs).map((tab) => tab.textContent)).toEqual(['Staff', 'Payroll (hidden)']);
+      expect(container.querySelectorAll('td')).toHaveLength(6);
+
+      await format.render(doc, { container, sheet: 1 });
+      expect(container.textContent).toContain('120000');
+    });
+  });
+});
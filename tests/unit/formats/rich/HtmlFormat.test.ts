@@ -0,0 +1,166 @@
+/**
+ * Unit tests for HtmlFormat
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HtmlFormat } from '../../../../src/lib/formats/rich/HtmlFormat';
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="iso-8859-1">
+  <meta name="author" content="Dana Scully">
+  <title>Ticket 4411</title>
+  <script src="https://www.googletagmanager.com/gtag/js?id=G-123"></script>
+  <script>window.user = "fox@example.com";</script>
+  <script type="application/ld+json">{"customer": {"email": "fox@example.com"}}</script>
+</head>
+<body onload="track()">
+  <!-- agent note: caller DOB 1961-10-13 -->
+  <h1>Support ticket</h1>
+  <p>Customer: Fox Mulder (<a href="mailto:fox@example.com?utm_source=mail">email</a>)</p>
+  <img src="avatar.png" alt="Photo of Fox Mulder" data-user-id="FM-1013">
+  <div style="display: none">SSN 123-45-6789</div>
+  <p hidden>Backup phone 555-0199</p>
+  <a href="https://example.com/ticket?id=4411&amp;utm_campaign=x&amp;fbclid=abc#top" onclick="go()">Open</a>
+  <img src="https://example.com/open.gif" width="1" height="1">
+</body>
+</html>`;
+
+function createHtml(html = PAGE): File {
+  return new File([html], 'ticket.html', { type: 'text/html' });
+}
+
+async function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+describe('HtmlFormat', () => {
+  let format: HtmlFormat;
+
+  beforeEach(() => {
+    format = new HtmlFormat();
+  });
+
+  describe('load and extractText', () => {
+    it('should extract visible text, attributes, comments, JSON and hidden nodes', async () => {
+      const doc = await format.load(createHtml());
+      const { fullText, lineText } = await format.extractText(doc);
+
+      expect(doc.metadata.title).toBe('Ticket 4411');
+      expect(fullText).toContain('Customer: Fox Mulder');
+      expect(lineText).toContain('mailto:fox@example.com?utm_source=mail');
+      expect(lineText).toContain('Photo of Fox Mulder');
+      expect(lineText).toContain('FM-1013');
+      expect(lineText).toContain('Dana Scully');
+      expect(fullText).toContain('caller DOB 1961-10-13');
+      expect(fullText).toContain('"email": "fox@example.com"');
+      expect(fullText).toContain('SSN 123-45-6789');
+      expect(fullText).toContain('Backup phone 555-0199');
+    });
+
+    it('should not treat executable scripts or style as text', async () => {
+      const doc = await format.load(createHtml());
+      const { fullText } = await format.extractText(doc);
+
+      expect(fullText).not.toContain('window.user');
+      expect(fullText).not.toContain('track()');
+    });
+
+    it('should report hidden content, comments, embedded data and trackers', async () => {
+      const doc = await format.load(createHtml());
+      const risks = doc.metadata.privacyRisks as Array<{ id: string; details?: string }>;
+
+      expect(risks.map((risk) => risk.id)).toEqual([
+        'html-hidden-content', 'html-comments', 'html-embedded-data', 'html-scripts-trackers'
+      ]);
+      expect(risks[0].details).toBe('2 text node(s)');
+      expect(risks[3].details).toBe('4 script(s), 3 tracker(s)');
+    });
+  });
+
+  describe('findTextBoxes and redact', () => {
+    it('should find a term in text and attributes', async () => {
+      const doc = await format.load(createHtml());
+      const boxes = await format.findTextBoxes(doc, ['Fox Mulder']);
+
+      expect(boxes).toHaveLength(2);
+      expect(new Set(boxes.map((box) => box.line)).size).toBe(2);
+    });
+
+    it('should redact every unit when no line is given', async () => {
+      const doc = await format.load(createHtml());
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: 'fox@example.com' }]);
+
+      const { fullText } = await format.extractText(doc);
+      expect(fullText).not.toContain('fox@example.com');
+      expect(fullText).toContain('mailto:███████████████');
+    });
+  });
+
+  describe('export', () => {
+    it('should remove scripts, trackers, handlers and comments', async () => {
+      const doc = await format.load(createHtml());
+      const html = await readBlob(await format.export(doc));
+
+      expect(html).not.toContain('googletagmanager');
+      expect(html).not.toContain('window.user');
+      expect(html).not.toContain('onload');
+      expect(html).not.toContain('onclick');
+      expect(html).not.toContain('open.gif');
+      expect(html).not.toContain('agent note');
+      expect(html).not.toContain('utm_');
+      expect(html).not.toContain('fbclid');
+      expect(html).toContain('ticket?id=4411#top');
+      expect(html).toContain('application/ld+json');
+      expect(html).toContain('charset="utf-8"');
+    });
+
+    it('should wrap redacted text in spans and rewrite attributes', async () => {
+      const doc = await format.load(createHtml());
+      await format.redact(doc, await format.findTextBoxes(doc, ['Fox Mulder', '123-45-6789', 'FM-1013']));
+
+      const html = await readBlob(await format.export(doc));
+
+      expect(html).not.toContain('Fox Mulder');
+      expect(html).not.toContain('123-45-6789');
+      expect(html).not.toContain('FM-1013');
+      expect(html).toContain('<span class="redacted" style="background: #000; color: #000;">██████████</span>');
+      expect(html).toContain('alt="Photo of ██████████"');
+    });
+
+    it('should produce an export that loads again without its hidden risks', async () => {
+      const doc = await format.load(createHtml());
+      await format.redact(doc, await format.findTextBoxes(doc, ['fox@example.com']));
+
+      const reloaded = await format.load(new File([await format.export(doc)], 'ticket-redacted.html'));
+      const { fullText } = await format.extractText(reloaded);
+      const risks = reloaded.metadata.privacyRisks as Array<{ id: string }>;
+
+      expect(fullText).not.toContain('fox@example.com');
+      expect(risks.map((risk) => risk.id)).not.toContain('html-comments');
+      expect(risks.map((risk) => risk.id)).not.toContain('html-scripts-trackers');
+    });
+  });
+
+  describe('render', () => {
+    it('should render a sandboxed preview and list hidden content', async () => {
+      const doc = await format.load(createHtml());
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      const frame = container.querySelector('iframe')!;
+      expect(frame.getAttribute('sandbox')).toBe('');
+      expect(frame.srcdoc).not.toContain('<script src');
+
+      const panel = container.querySelector('.html-hidden-content')!;
+      expect(panel.textContent).toContain('SSN 123-45-6789');
+      expect(panel.textContent).toContain('<img data-user-id>');
+      expect(panel.textContent).not.toContain('Support ticket');
+    });
+  });
+});
@@ -221,6 +221,17 @@ describe('CsvFormat', () => {
       // Cell should still be redacted once
       expect(doc.content.data[1][0]).toContain('█');
     });
+
+    it('should write replacement text when given a replacer', async () => {
+      const csvContent = 'Owner,Contact\njohn@example.com,john@example.com';
+      const file = new File([csvContent], 'test.csv', { type: 'text/csv' });
+      const doc = await format.load(file);
+
+      const boxes = await format.findTextBoxes(doc, ['john@example.com']);
+      await format.redact(doc, boxes, { replace: async () => 'user_1@example.invalid' });
+
+      expect(doc.content.data[1]).toEqual(['user_1@example.invalid', 'user_1@example.invalid']);
+    });
   });
 
   describe('export', () => {
@@ -0,0 +1,221 @@
+/**
+ * Unit tests for JsonFormat and its JSON tree and path helpers
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JsonFormat } from '../../../../src/lib/formats/structured/JsonFormat';
+import {
+  parseJson,
+  serializeJson,
+  detectIndent,
+  formatJsonPath
+} from '../../../../src/lib/formats/structured/json-tree';
+import { parseJsonPath, matchesJsonPath } from '../../../../src/lib/formats/structured/json-path';
+
+const RESPONSE = `{
+  "requestId": "req-81",
+  "accountId": 12345678901234567890,
+  "users": [
+    {
+      "name": "Jane Roe",
+      "email": "jane.roe@example.com",
+      "phone": 5550199,
+      "active": true,
+      "address": { "city": "Springfield", "zip": "62704" }
+    },
+    {
+      "name": "John Poe",
+      "email": "john@example.com",
+      "phone": null,
+      "active": false,
+      "address": { "city": "Shelbyville", "zip": "62565" }
+    }
+  ],
+  "note": "Escalated by Jane Roe"
+}
+`;
+
+const LOG = [
+  '{"ts":"2024-10-01T09:00:00Z","level":"info","user":{"email":"jane.roe@example.com"},"msg":"login"}',
+  '',
+  '{"ts":"2024-10-01T09:01:00Z","level":"warn","user":{"email":"john@example.com"},"msg":"password reset for john@example.com"}',
+  ''
+].join('\n');
+
+function createJson(text = RESPONSE, name = 'response.json'): File {
+  return new File([text], name, { type: name.endsWith('.json') ? 'application/json' : '' });
+}
+
+async function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+describe('json-tree', () => {
+  it('should round-trip large numbers, duplicate keys and escapes', () => {
+    const text = '{"id":12345678901234567890,"a":1.50,"a":"x\\u00e9\\n","b":[true,null,-2e-3]}';
+
+    expect(serializeJson(parseJson(text))).toBe('{"id":12345678901234567890,"a":1.50,"a":"xé\\n","b":[true,null,-2e-3]}');
+  });
+
+  it('should report the position of invalid JSON', () => {
+    expect(() => parseJson('{"a": [1, 2}')).toThrow('Invalid JSON at position 11');
+    expect(() => parseJson('{"a": 1} x')).toThrow('unexpected content after value');
+  });
+
+  it('should detect indentation', () => {
+    expect(detectIndent(RESPONSE)).toBe('  ');
+    expect(detectIndent('{\n\t"a": 1\n}')).toBe('\t');
+    expect(detectIndent('{"a": 1}')).toBe('');
+  });
+
+  it('should format paths', () => {
+    expect(formatJsonPath(['users', 0, 'email'])).toBe('$.users[0].email');
+    expect(formatJsonPath(['first name'])).toBe('$["first name"]');
+  });
+});
+
+describe('json-path', () => {
+  it('should match keys, indexes, wildcards and descendants', () => {
+    const path = ['users', 1, 'address', 'zip'];
+
+    expect(matchesJsonPath(parseJsonPath('$.users[*].address.zip'), path)).toBe(true);
+    expect(matchesJsonPath(parseJsonPath('$.users[1]'), path)).toBe(true);
+    expect(matchesJsonPath(parseJsonPath('$.users[0]'), path)).toBe(false);
+    expect(matchesJsonPath(parseJsonPath('$..zip'), path)).toBe(true);
+    expect(matchesJsonPath(parseJsonPath("$['users'][*]['address'].*"), path)).toBe(true);
+    expect(matchesJsonPath(parseJsonPath('$.users.*.email'), path)).toBe(false);
+  });
+
+  it('should reject unsupported paths', () => {
+    expect(() => parseJsonPath('users.email')).toThrow('Invalid JSON path "users.email"');
+    expect(() => parseJsonPath('$.users[?(@.active)]')).toThrow('Invalid JSON path');
+  });
+});
+
+describe('JsonFormat', () => {
+  let format: JsonFormat;
+
+  beforeEach(() => {
+    format = new JsonFormat();
+  });
+
+  describe('load and extractText', () => {
+    it('should extract string and number values, one per line', async () => {
+      const doc = await format.load(createJson());
+      const { lineText } = await format.extractText(doc);
+
+      expect(doc.metadata.isJsonLines).toBe(false);
+      expect(lineText).toContain('jane.roe@example.com');
+      expect(lineText).toContain('5550199');
+      expect(lineText).toContain('12345678901234567890');
+      expect(lineText).not.toContain('true');
+      expect(format.getPath(doc, lineText!.indexOf('62565'))).toBe('$.users[1].address.zip');
+    });
+
+    it('should read JSON Lines, including .json log exports', async () => {
+      for (const name of ['events.jsonl', 'events.json']) {
+        const doc = await format.load(createJson(LOG, name));
+
+        expect(doc.metadata.isJsonLines).toBe(true);
+        expect(doc.metadata.recordCount).toBe(2);
+      }
+    });
+
+    it('should reject invalid JSON', async () => {
+      await expect(format.load(createJson('{"a": '))).rejects.toThrow('Invalid JSON');
+      await expect(format.load(createJson('{"a": 1}\n{"b": }\n', 'events.jsonl'))).rejects.toThrow('Line 2');
+    });
+  });
+
+  describe('redact', () => {
+    it('should mask matched characters in strings and zero numbers', async () => {
+      const doc = await format.load(createJson());
+      await format.redact(doc, await format.findTextBoxes(doc, ['Jane Roe', '5550199']));
+
+      const exported = JSON.parse(await readBlob(await format.export(doc)));
+      expect(exported.users[0].name).toBe('████████');
+      expect(exported.users[0].phone).toBe(0);
+      expect(exported.note).toBe('Escalated by ████████');
+      expect(exported.users[1].name).toBe('John Poe');
+    });
+
+    it('should replace whole strings with a placeholder', async () => {
+      format = new JsonFormat({ mode: 'placeholder', placeholder: '[PII]' });
+      const doc = await format.load(createJson());
+      await format.redact(doc, await format.findTextBoxes(doc, ['Jane Roe']));
+
+      const exported = JSON.parse(await readBlob(await format.export(doc)));
+      expect(exported.users[0].name).toBe('[PII]');
+      expect(exported.note).toBe('[PII]');
+    });
+
+    it('should redact every value selected by path rules', async () => {
+      const doc = await format.load(createJson());
+      await format.redactPaths(doc, ['$.users[*].email', '$..address']);
+
+      const exported = JSON.parse(await readBlob(await format.export(doc)));
+      expect(exported.users[0].email).toBe('█'.repeat(20));
+      expect(exported.users[1].email).toBe('█'.repeat(16));
+      expect(exported.users[1].address).toEqual({ city: '███████████', zip: '█████' });
+      expect(exported.users[0].active).toBe(true);
+      expect(exported.requestId).toBe('req-81');
+    });
+
+    it('should apply path rules to each line of a JSON Lines file', async () => {
+      const doc = await format.load(createJson(LOG, 'events.jsonl'));
+      const boxes = format.findPathBoxes(doc, ['$.user.email']);
+
+      expect(boxes.map((box) => box.text)).toEqual(['jane.roe@example.com', 'john@example.com']);
+    });
+  });
+
+  describe('export', () => {
+    it('should keep formatting, key order and large numbers', async () => {
+      const doc = await format.load(createJson());
+
+      expect(await readBlob(await format.export(doc))).toBe(RESPONSE.replace(
+        '"address": { "city": "Springfield", "zip": "62704" }',
+        '"address": {\n        "city": "Springfield",\n        "zip": "62704"\n      }'
+      ).replace(
+        '"address": { "city": "Shelbyville", "zip": "62565" }',
+        '"address": {\n        "city": "Shelbyville",\n        "zip": "62565"\n      }'
+      ));
+    });
+
+    it('should export JSON Lines one record per line', async () => {
+      const doc = await format.load(createJson(LOG, 'events.jsonl'));
+      await format.redact(doc, [{ x: 0, y: 0, w: 0, h: 0, text: 'john@example.com' }]);
+
+      const blob = await format.export(doc);
+      const lines = (await readBlob(blob)).trimEnd().split('\n');
+
+      expect(blob.type).toBe('application/x-ndjson;charset=utf-8');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).msg).toBe('password reset for ████████████████');
+    });
+  });
+
+  describe('render', () => {
+    it('should render a collapsible tree with redacted values', async () => {
+      const doc = await format.load(createJson());
+      await format.redact(doc, await format.findTextBoxes(doc, ['jane.roe@example.com']));
+
+      const container = document.createElement('div');
+      await format.render(doc, { container });
+
+      const details = container.querySelectorAll('details');
+      expect(details[0].querySelector('summary')!.textContent).toBe('{4}');
+      expect(container.textContent).toContain('users: [2]');
+      // Objects below the expanded depth start collapsed
+      expect(Array.from(details).some((element) => !element.open)).toBe(true);
+
+      const email = container.querySelector('[data-line-number="3"]') as HTMLElement;
+      expect(email.textContent).toBe('"████████████████████"');
+      expect(email.style.background).toBe('rgb(0, 0, 0)');
+    });
+  });
+});
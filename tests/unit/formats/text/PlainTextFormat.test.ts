@@ -194,6 +194,17 @@ describe('PlainTextFormat', () => {
       expect(lines[0]).not.toContain('test@example.com');
       expect(lines[1]).not.toContain('user@test.com');
     });
+
+    it('should write replacement text when given a replacer', async () => {
+      const content = 'Email: test@example.com Phone: 555-1234';
+      const file = new File([content], 'test.txt', { type: 'text/plain' });
+      const doc = await format.load(file);
+
+      const boxes = await format.findTextBoxes(doc, ['test@example.com', '555-1234']);
+      await format.redact(doc, boxes, { replace: async (text) => `<${text.length}>` });
+
+      expect(doc.content.fullText).toBe('Email: <16> Phone: <8>');
+    });
   });
 
   describe('export', () => {
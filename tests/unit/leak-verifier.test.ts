@@ -0,0 +1,85 @@
+/**
+ * Tests for post-export leak verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectRedactedTerms,
+  verifyExtractedText,
+  verifyTextExport
+} from '../../src/lib/verify';
+
+describe('collectRedactedTerms', () => {
+  it('should skip disabled items and manual placeholders', () => {
+    const terms = collectRedactedTerms([
+      { text: 'john@example.com', page: 0, type: 'email', enabled: true },
+      { text: '555-123-4567', page: 0, type: 'phone', enabled: false },
+      { text: 'manual', page: 1 },
+      { text: '   ', page: 1 }
+    ]);
+
+    expect(terms).toEqual([{ text: 'john@example.com', page: 0, type: 'email' }]);
+  });
+
+  it('should de-duplicate terms per page', () => {
+    const terms = collectRedactedTerms([
+      { text: 'Jane Doe', page: 0 },
+      { text: 'jane  doe', page: 0 },
+      { text: 'Jane Doe', page: 1 }
+    ]);
+
+    expect(terms).toHaveLength(2);
+  });
+});
+
+describe('verifyExtractedText', () => {
+  it('should pass when no redacted term is present', () => {
+    const report = verifyExtractedText(
+      ['Name: ██████', 'Nothing to see'],
+      [{ text: 'Jane Doe', page: 0 }],
+      'pdf-text'
+    );
+
+    expect(report.passed).toBe(true);
+    expect(report.leakCount).toBe(0);
+    expect(report.checkedTermCount).toBe(1);
+    expect(report.pages.every((page) => page.passed)).toBe(true);
+  });
+
+  it('should report leaks per page and per term', () => {
+    const report = verifyExtractedText(
+      ['Contact jane@example.com', 'Again: JANE@EXAMPLE.COM and 123 45 6789'],
+      [
+        { text: 'jane@example.com', page: 0, type: 'email' },
+        { text: '123-45-6789', page: 1, type: 'ssn' },
+        { text: 'Bob Smith', page: 1 }
+      ],
+      'pdf-text'
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.leakCount).toBe(2);
+    expect(report.terms[0].foundOnPages).toEqual([0, 1]);
+    expect(report.terms[1].foundOnPages).toEqual([1]);
+    expect(report.terms[2].passed).toBe(true);
+    expect(report.pages[1].leakedTerms).toEqual(['jane@example.com', '123-45-6789']);
+  });
+
+  it('should skip terms too short to check', () => {
+    const report = verifyExtractedText(['ab cd'], [{ text: 'ab' }], 'ocr');
+
+    expect(report.passed).toBe(true);
+    expect(report.terms[0].skipped).toBe(true);
+    expect(report.checkedTermCount).toBe(0);
+  });
+});
+
+describe('verifyTextExport', () => {
+  it('should decode the exported blob', async () => {
+    const blob = new Blob(['id,email\n1,jane@example.com\n'], { type: 'text/csv' });
+    const report = await verifyTextExport(blob, [{ text: 'jane@example.com' }]);
+
+    expect(report.method).toBe('decoded-text');
+    expect(report.passed).toBe(false);
+  });
+});
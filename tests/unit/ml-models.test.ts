@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ML_MODELS,
+  DEFAULT_MODEL_ID,
+  getModelInfo,
+  getSelectedModel,
+  setSelectedModel,
+  getLocalModelPath,
+  setLocalModelPath,
+  mapModelLabel
+} from '../../src/lib/detect/models';
+import { DetectionCache } from '../../src/lib/detect/cache';
+import type { MLEntity } from '../../src/lib/detect/ml';
+
+describe('ML model registry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should describe every model', () => {
+    for (const model of ML_MODELS) {
+      expect(model.sizeMB).toBeGreaterThan(0);
+      expect(model.languages.length).toBeGreaterThan(0);
+      expect(Object.keys(model.labelMap).length).toBeGreaterThan(0);
+    }
+    expect(getModelInfo(DEFAULT_MODEL_ID)).toBeDefined();
+  });
+
+  it('should select the default model until another is chosen', () => {
+    expect(getSelectedModel().id).toBe(DEFAULT_MODEL_ID);
+
+    setSelectedModel('Xenova/bert-base-multilingual-cased-ner-hrl');
+    expect(getSelectedModel().languages).toContain('German');
+
+    expect(() => setSelectedModel('unknown/model')).toThrow();
+  });
+
+  it('should fall back to the default for a stale stored model', () => {
+    localStorage.setItem('ml-model-id', 'removed/model');
+    expect(getSelectedModel().id).toBe(DEFAULT_MODEL_ID);
+  });
+
+  it('should store the local model directory with a trailing slash', () => {
+    expect(getLocalModelPath()).toBeNull();
+
+    setLocalModelPath(' /models ');
+    expect(getLocalModelPath()).toBe('/models/');
+
+    setLocalModelPath('');
+    expect(getLocalModelPath()).toBeNull();
+  });
+
+  it('should map model tags into entity types', () => {
+    const ner = getModelInfo(DEFAULT_MODEL_ID)!;
+    expect(mapModelLabel(ner, 'B-PER')).toBe('PER');
+    expect(mapModelLabel(ner, 'I-LOC')).toBe('LOC');
+    expect(mapModelLabel(ner, 'O')).toBeNull();
+
+    const pii = ML_MODELS.find(model => model.labelMap.EMAIL)!;
+    expect(mapModelLabel(pii, 'B-GIVENNAME')).toBe('PER');
+    expect(mapModelLabel(pii, 'I-TELEPHONENUM')).toBe('phone');
+  });
+});
+
+describe('DetectionCache', () => {
+  const entities: MLEntity[] = [{ text: 'Jane', entity: 'PER', score: 0.9, start: 0, end: 4 }];
+
+  it('should keep separate entries per model', () => {
+    const cache = new DetectionCache();
+    const options = { minConfidence: 0.7, modelName: 'model-a' };
+
+    cache.set('doc', 0, 'Jane', entities, options);
+    cache.set('doc', 0, 'Jane', [], { ...options, modelName: 'model-b' });
+
+    expect(cache.get('doc', 0, 'Jane', options)).toEqual(entities);
+    expect(cache.get('doc', 0, 'Jane', { ...options, modelName: 'model-b' })).toEqual([]);
+    expect(cache.get('doc', 0, 'Jane', { ...options, modelName: 'model-c' })).toBeNull();
+
+    cache.clearDocument('doc');
+    expect(cache.getStats().size).toBe(0);
+  });
+});
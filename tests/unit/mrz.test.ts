@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeMRZCheckDigit,
+  normalizeMRZLine,
+  parseMRZ,
+  findMRZ,
+  getVisualZoneValues,
+  findMRZDetections
+} from '../../src/lib/ocr/mrz';
+import { mapPIIToOCRBoxes } from '../../src/lib/ocr/mapper';
+import type { OCRWord } from '../../src/lib/images/ocr';
+
+// ICAO 9303 specimen documents
+const TD3 = ['P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<', 'L898902C36UTO7408122F1204159ZE184226B<<<<<10'];
+const TD2 = ['I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<', 'D231458907UTO7408122F1204159<<<<<<<6'];
+const TD1 = ['I<UTOD231458907<<<<<<<<<<<<<<<', '7408122F1204159UTO<<<<<<<<<<<6', 'ERIKSSON<<ANNA<MARIA<<<<<<<<<<'];
+
+describe('MRZ Check Digits', () => {
+  it('should compute ICAO 9303 check digits', () => {
+    expect(computeMRZCheckDigit('L898902C3')).toBe(6);
+    expect(computeMRZCheckDigit('740812')).toBe(2);
+    expect(computeMRZCheckDigit('120415')).toBe(9);
+    expect(computeMRZCheckDigit('<<<<<<')).toBe(0);
+  });
+
+  it('should normalize OCR look-alikes', () => {
+    expect(normalizeMRZLine('p<uto eriksson««anna')).toBe('P<UTOERIKSSON<<ANNA');
+  });
+});
+
+describe('MRZ Parsing', () => {
+  it('should parse a TD3 passport zone', () => {
+    const data = parseMRZ(TD3);
+
+    expect(data).toMatchObject({
+      format: 'TD3',
+      documentType: 'P',
+      issuingCountry: 'UTO',
+      surname: 'ERIKSSON',
+      givenNames: 'ANNA MARIA',
+      documentNumber: 'L898902C3',
+      nationality: 'UTO',
+      birthDate: '740812',
+      sex: 'F',
+      expiryDate: '120415',
+      optionalData: 'ZE184226B',
+      checkDigitsValid: true
+    });
+  });
+
+  it('should parse TD2 and TD1 zones', () => {
+    expect(parseMRZ(TD2)).toMatchObject({ format: 'TD2', documentNumber: 'D23145890', checkDigitsValid: true });
+    expect(parseMRZ(TD1)).toMatchObject({ format: 'TD1', surname: 'ERIKSSON', checkDigitsValid: true });
+  });
+
+  it('should flag misread check digits', () => {
+    const misread = [TD3[0], TD3[1].replace('L898902C3', 'L898902C8')];
+    expect(parseMRZ(misread)?.checkDigitsValid).toBe(false);
+  });
+
+  it('should tolerate a dropped filler character', () => {
+    const data = parseMRZ([TD3[0].slice(0, -1), TD3[1]]);
+    expect(data?.format).toBe('TD3');
+    expect(data?.checkDigitsValid).toBe(true);
+  });
+
+  it('should reject text that is not an MRZ', () => {
+    expect(parseMRZ(['Surname: ERIKSSON', 'Given names: ANNA MARIA'])).toBeNull();
+  });
+});
+
+describe('MRZ Detection', () => {
+  const PAGE = [
+    'PASSPORT',
+    'Surname ERIKSSON',
+    'Given names ANNA MARIA',
+    'Passport No. L898902C3',
+    'Date of birth 12 AUG 1974',
+    ...TD3
+  ].join('\n');
+
+  it('should locate the block in OCR text', () => {
+    const [match] = findMRZ(PAGE);
+
+    expect(match.lines).toEqual(TD3);
+    expect(PAGE.substring(match.start, match.end)).toBe(TD3.join('\n'));
+  });
+
+  it('should render visual-zone values', () => {
+    const values = getVisualZoneValues(parseMRZ(TD3)!);
+
+    expect(values).toEqual(expect.arrayContaining(['ERIKSSON', 'ANNA', 'MARIA', 'L898902C3', '12 AUG 1974', '12.08.1974']));
+  });
+
+  it('should emit the block and the visual fields printed elsewhere', () => {
+    const detections = findMRZDetections(PAGE);
+
+    expect(detections[0]).toMatchObject({ type: 'mrz', text: TD3.join('\n') });
+    expect(detections.slice(1).map(d => d.text)).toEqual(['ERIKSSON', 'ANNA', 'MARIA', 'L898902C3', '12 AUG 1974']);
+  });
+
+  it('should not emit visual fields when check digits fail', () => {
+    const misread = PAGE.replace('L898902C36', 'L898902C86');
+    const detections = findMRZDetections(misread);
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0].type).toBe('mrz');
+  });
+
+  it('should box the whole MRZ block from OCR words', () => {
+    const words: OCRWord[] = [
+      { text: TD3[0], bbox: { x: 20, y: 400, width: 560, height: 24 }, confidence: 0.9 },
+      { text: TD3[1], bbox: { x: 20, y: 430, width: 560, height: 24 }, confidence: 0.9 }
+    ];
+    const text = TD3.join('\n');
+
+    const boxes = mapPIIToOCRBoxes(findMRZDetections(text), words, text);
+
+    expect(boxes).toHaveLength(1);
+    expect(boxes[0]).toMatchObject({ x: 20, y: 400, w: 560, h: 54, type: 'mrz' });
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * Tests for Regional Pattern Detection
- * Covers European, Asian, Latin American, Crypto, and Investment patterns
+ * Covers European, Asian, Latin American, Canadian, Australasian, Middle Eastern,
+ * African, Crypto, and Investment patterns
  */
 
 import { describe, it, expect } from 'vitest';
@@ -57,6 +58,47 @@ import {
   RUT_CL,
 } from '../../src/lib/detect/patterns-latam';
 
+// Canadian patterns
+import {
+  findSINs,
+  validateSIN,
+  findAllCanadian,
+} from '../../src/lib/detect/patterns-canada';
+
+// Australian and New Zealand patterns
+import {
+  findTFNs,
+  findABNs,
+  findMedicareNumbersAU,
+  findIRDs,
+  validateTFN,
+  validateABN,
+  validateMedicareAU,
+  validateIRD,
+  findAllAustralasian,
+} from '../../src/lib/detect/patterns-australasia';
+
+// Middle Eastern patterns
+import {
+  findEmiratesIDs,
+  findSaudiIDs,
+  findTeudatZehut,
+  validateEmiratesID,
+  validateSaudiID,
+  validateTeudatZehut,
+  findAllMiddleEast,
+} from '../../src/lib/detect/patterns-middle-east';
+
+// African patterns
+import {
+  findSouthAfricanIDs,
+  findNINs,
+  findBVNs,
+  findKenyanIDs,
+  validateSouthAfricanID,
+  findAllAfrican,
+} from '../../src/lib/detect/patterns-africa';
+
 // Crypto patterns
 import {
   findBitcoinAddresses,
@@ -404,6 +446,192 @@ describe('Latin American Pattern Detection', () => {
   });
 });
 
+describe('Canadian Pattern Detection', () => {
+  describe('Social Insurance Number', () => {
+    it('should find SINs with separators', () => {
+      const text = 'SIN: 130 692 544';
+      expect(findSINs(text)).toContain('130 692 544');
+    });
+
+    it('should validate SIN Luhn checksum', () => {
+      expect(validateSIN('130-692-544')).toBe(true);
+      expect(validateSIN('130692545')).toBe(false);
+    });
+
+    it('should reject unassigned leading digits', () => {
+      expect(validateSIN('046454286')).toBe(false); // Luhn-valid, but 0 is not issued
+    });
+  });
+
+  describe('findAllCanadian', () => {
+    it('should return aggregated results', () => {
+      const results = findAllCanadian('SIN 130692544');
+
+      expect(results).toHaveProperty('sin');
+      expect(results.sin).toContain('130692544');
+    });
+  });
+});
+
+describe('Australian and New Zealand Pattern Detection', () => {
+  describe('Australian TFN', () => {
+    it('should find TFNs in text', () => {
+      const text = 'TFN: 123 456 782';
+      expect(findTFNs(text)).toContain('123 456 782');
+    });
+
+    it('should validate TFN checksum', () => {
+      expect(validateTFN('123456782')).toBe(true);
+      expect(validateTFN('123456789')).toBe(false);
+    });
+  });
+
+  describe('Australian ABN', () => {
+    it('should find ABNs in text', () => {
+      const text = 'ABN 51 824 753 556';
+      expect(findABNs(text)).toContain('51 824 753 556');
+    });
+
+    it('should validate ABN checksum', () => {
+      expect(validateABN('51824753556')).toBe(true);
+      expect(validateABN('51824753557')).toBe(false);
+    });
+  });
+
+  describe('Australian Medicare', () => {
+    it('should find Medicare numbers in text', () => {
+      const text = 'Medicare: 2123 45670 1';
+      expect(findMedicareNumbersAU(text)).toContain('2123 45670 1');
+    });
+
+    it('should validate Medicare check digit', () => {
+      expect(validateMedicareAU('2123456701')).toBe(true);
+      expect(validateMedicareAU('2123456711')).toBe(false);
+      expect(validateMedicareAU('7123456701')).toBe(false); // First digit must be 2-6
+    });
+  });
+
+  describe('New Zealand IRD', () => {
+    it('should find IRD numbers in text', () => {
+      const text = 'IRD number 49-091-850';
+      expect(findIRDs(text)).toContain('49-091-850');
+    });
+
+    it('should validate IRD checksum', () => {
+      expect(validateIRD('49091850')).toBe(true);
+      expect(validateIRD('136410132')).toBe(true);
+      expect(validateIRD('136410133')).toBe(false);
+      expect(validateIRD('9125568')).toBe(false); // Below issued range
+    });
+  });
+
+  describe('findAllAustralasian', () => {
+    it('should return aggregated results', () => {
+      const results = findAllAustralasian('ABN 51 824 753 556');
+
+      expect(results).toHaveProperty('tfn');
+      expect(results).toHaveProperty('ird');
+      expect(results.abn).toContain('51 824 753 556');
+    });
+  });
+});
+
+describe('Middle Eastern Pattern Detection', () => {
+  describe('UAE Emirates ID', () => {
+    it('should find Emirates IDs in text', () => {
+      const text = 'Emirates ID: 784-1985-6570305-9';
+      expect(findEmiratesIDs(text)).toContain('784-1985-6570305-9');
+    });
+
+    it('should validate Emirates ID checksum and birth year', () => {
+      expect(validateEmiratesID('784198565703059')).toBe(true);
+      expect(validateEmiratesID('784198565703058')).toBe(false);
+      expect(validateEmiratesID('123198565703059')).toBe(false); // Must start with 784
+    });
+  });
+
+  describe('Saudi National ID', () => {
+    it('should find Saudi IDs in text', () => {
+      const text = 'Iqama 2345678904';
+      expect(findSaudiIDs(text)).toContain('2345678904');
+    });
+
+    it('should validate Saudi ID checksum', () => {
+      expect(validateSaudiID('1087654321')).toBe(true);
+      expect(validateSaudiID('1087654320')).toBe(false);
+      expect(validateSaudiID('3087654321')).toBe(false); // Must start with 1 or 2
+    });
+  });
+
+  describe('Israeli Teudat Zehut', () => {
+    it('should find Teudat Zehut numbers in text', () => {
+      const text = 'ת.ז. 123456782';
+      expect(findTeudatZehut(text)).toContain('123456782');
+    });
+
+    it('should validate Teudat Zehut check digit', () => {
+      expect(validateTeudatZehut('123456782')).toBe(true);
+      expect(validateTeudatZehut('18')).toBe(true); // Left-padded to 000000018
+      expect(validateTeudatZehut('123456789')).toBe(false);
+    });
+  });
+
+  describe('findAllMiddleEast', () => {
+    it('should return aggregated results', () => {
+      const results = findAllMiddleEast('ID 1087654321');
+
+      expect(results).toHaveProperty('emiratesIDs');
+      expect(results).toHaveProperty('israeliIDs');
+      expect(results.saudiIDs).toContain('1087654321');
+    });
+  });
+});
+
+describe('African Pattern Detection', () => {
+  describe('South African ID', () => {
+    it('should find South African IDs in text', () => {
+      const text = 'ID number: 8001015009087';
+      expect(findSouthAfricanIDs(text)).toContain('8001015009087');
+    });
+
+    it('should validate date of birth and Luhn checksum', () => {
+      expect(validateSouthAfricanID('8001015009087')).toBe(true);
+      expect(validateSouthAfricanID('8001015009088')).toBe(false); // Wrong check digit
+      expect(validateSouthAfricanID('8002305009087')).toBe(false); // 30 February
+    });
+  });
+
+  describe('Nigerian NIN and BVN', () => {
+    it('should find labeled NINs', () => {
+      expect(findNINs('NIN: 12345678901')).toContain('12345678901');
+      expect(findNINs('Order 12345678901')).toHaveLength(0);
+    });
+
+    it('should find labeled BVNs starting with 22', () => {
+      expect(findBVNs('BVN 22123456789')).toContain('22123456789');
+      expect(findBVNs('BVN 12123456789')).toHaveLength(0);
+    });
+  });
+
+  describe('Kenyan National ID', () => {
+    it('should find labeled Kenyan IDs', () => {
+      expect(findKenyanIDs('National ID No: 12345678')).toContain('12345678');
+      expect(findKenyanIDs('Invoice 12345678')).toHaveLength(0);
+    });
+  });
+
+  describe('findAllAfrican', () => {
+    it('should return aggregated results', () => {
+      const results = findAllAfrican('ID 8001015009087, BVN: 22123456789');
+
+      expect(results).toHaveProperty('nigerianNINs');
+      expect(results).toHaveProperty('kenyanIDs');
+      expect(results.southAfricanIDs).toContain('8001015009087');
+      expect(results.nigerianBVNs).toContain('22123456789');
+    });
+  });
+});
+
 describe('Cryptocurrency Pattern Detection', () => {
   describe('Bitcoin', () => {
     it('should find legacy Bitcoin addresses', () => {
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Pseudonymizer, inferKind, shiftDate, getProjectSecret, setProjectSecret } from '../../src/lib/pseudonymize';
+import { luhnCheck } from '../../src/lib/detect/luhn';
+
+const SECRET = 'test-project-secret';
+
+describe('inferKind', () => {
+  it('should classify values by shape before detection type', () => {
+    expect(inferKind('jane.doe@corp.com')).toBe('email');
+    expect(inferKind('123-45-6789', 'phone')).toBe('ssn');
+    expect(inferKind('4111 1111 1111 1111')).toBe('card');
+    expect(inferKind('03/15/2024')).toBe('date');
+    expect(inferKind('+1 (415) 555-0134')).toBe('phone');
+    expect(inferKind('Jane Doe')).toBe('name');
+    expect(inferKind('Doe', 'person')).toBe('name');
+    expect(inferKind('ACCT-99812', 'account')).toBe('text');
+  });
+});
+
+describe('shiftDate', () => {
+  it('should keep the format of each date', () => {
+    expect(shiftDate('2024-03-15', 20)).toBe('2024-04-04');
+    expect(shiftDate('3/15/24', -15)).toBe('2/29/24');
+    expect(shiftDate('15.03.2024', 1)).toBe('16.03.2024');
+    expect(shiftDate('March 1st, 2024', 1)).toBe('March 2nd, 2024');
+    expect(shiftDate('31 Dec 2023', 1)).toBe('01 Jan 2024');
+    expect(shiftDate('2024-02-30', 1)).toBeNull();
+  });
+});
+
+describe('Pseudonymizer', () => {
+  let pseudonymizer: Pseudonymizer;
+
+  beforeEach(() => {
+    pseudonymizer = new Pseudonymizer(SECRET);
+  });
+
+  it('should give the same value the same surrogate, and reproduce it from the secret', async () => {
+    const first = await pseudonymizer.pseudonymize('Jane Doe', 'person');
+    expect(first).not.toBe('Jane Doe');
+    expect(await pseudonymizer.pseudonymize('Jane Doe', 'person')).toBe(first);
+    expect(await pseudonymizer.pseudonymize('jane  doe', 'person')).toBe(first);
+
+    // "Last, First" gets the same names, reversed
+    const [firstName, lastName] = first.split(' ');
+    expect(await pseudonymizer.pseudonymize('Doe, Jane', 'person')).toBe(`${lastName}, ${firstName}`);
+
+    // A new instance with the same secret (another file in a later export) agrees
+    expect(await new Pseudonymizer(SECRET).pseudonymize('Jane Doe', 'person')).toBe(first);
+    expect(await new Pseudonymizer('other-secret').pseudonymize('Jane Doe', 'person')).not.toBe(first);
+  });
+
+  it('should give distinct values distinct surrogates', async () => {
+    const emails = await Promise.all(
+      Array.from({ length: 50 }, (_, i) => pseudonymizer.pseudonymize(`person${i}@corp.com`))
+    );
+
+    expect(new Set(emails).size).toBe(50);
+    emails.forEach(email => expect(email).toMatch(/^user_\d+@example\.invalid$/));
+  });
+
+  it('should find unused surrogates for more names than the name lists hold', async () => {
+    const label = (i: number) => `Zq${String.fromCharCode(97 + (i % 26))}${String.fromCharCode(97 + Math.floor(i / 26))}`;
+    const single: string[] = [];
+    const pairs: string[] = [];
+    for (let i = 0; i < 300; i++) {
+      single.push(await pseudonymizer.pseudonymize(label(i), 'person'));
+      pairs.push(await pseudonymizer.pseudonymize(`${label(i)} Doe`, 'person'));
+    }
+
+    expect(new Set(single).size).toBe(300);
+    expect(new Set(pairs).size).toBe(300);
+    single.forEach(name => expect(name).toMatch(/^\p{Lu}\p{Ll}+$/u));
+    pairs.forEach(name => expect(name).toMatch(/^\p{Lu}\p{Ll}+ \p{Lu}\p{Ll}+$/u));
+
+    // Later calls still get the surrogate found the first time
+    expect(await pseudonymizer.pseudonymize(label(299), 'person')).toBe(single[299]);
+  });
+
+  it('should keep SSN and card formats, and cards should pass Luhn', async () => {
+    const ssn = await pseudonymizer.pseudonymize('123-45-6789');
+    expect(ssn).toMatch(/^\d{3}-\d{2}-\d{4}$/);
+    expect(ssn).not.toBe('123-45-6789');
+
+    // The undashed variant maps to the same digits
+    expect(await pseudonymizer.pseudonymize('123456789')).toBe(ssn.replace(/-/g, ''));
+
+    const card = await pseudonymizer.pseudonymize('4111 1111 1111 1111', 'card');
+    expect(card).toMatch(/^4\d{3} \d{4} \d{4} \d{4}$/);
+    expect(luhnCheck(card.replace(/\D/g, ''))).toBe(true);
+  });
+
+  it('should shift every date by the same offset', async () => {
+    const days = await pseudonymizer.getDateShiftDays();
+    expect(days).not.toBe(0);
+    expect(Math.abs(days)).toBeLessThanOrEqual(365);
+
+    const admitted = await pseudonymizer.pseudonymize('2024-01-10', 'date');
+    const discharged = await pseudonymizer.pseudonymize('01/17/2024', 'date');
+    const toTime = (iso: string) => new Date(`${iso}T00:00:00Z`).getTime();
+    const [m, d, y] = discharged.split('/');
+
+    expect(admitted).toBe(shiftDate('2024-01-10', days));
+    expect((toTime(`${y}-${m}-${d}`) - toTime(admitted)) / 86400000).toBe(7);
+  });
+
+  it('should keep character classes of other identifiers', async () => {
+    const id = await pseudonymizer.pseudonymize('AB-12345', 'account');
+    expect(id).toMatch(/^[A-Z]{2}-\d{5}$/);
+
+    const address = await pseudonymizer.pseudonymize('12 Main Street, Springfield', 'address');
+    expect(address).toMatch(/^ADDRESS_[0-9a-f]{6}$/);
+  });
+});
+
+describe('project secret', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should create a secret on first use and keep it', () => {
+    const secret = getProjectSecret();
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(getProjectSecret()).toBe(secret);
+
+    setProjectSecret('  shared-team-secret ');
+    expect(getProjectSecret()).toBe('shared-team-secret');
+    expect(() => setProjectSecret('  ')).toThrow();
+  });
+});
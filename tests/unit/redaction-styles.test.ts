@@ -0,0 +1,141 @@
+/**
+ * Tests for drawing redaction styles into PDFs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFArray, PDFStream, PDFRawStream, StandardFonts, decodePDFRawStream } from 'pdf-lib';
+import { parseContentStream, bytesToBinaryString, type ContentOperation } from '../../src/lib/pdf/content-stream';
+import { exportPdfWithRedactionBoxes } from '../../src/lib/pdf/export';
+import { SolidRedactionStyle, PatternRedactionStyle, TextRedactionStyle } from '../../src/lib/redact/renderers/index';
+import type { PdfStyleResources } from '../../src/lib/redact';
+import type { Box } from '../../src/lib/pdf/find';
+
+const BOX = { x: 100, y: 200, width: 80, height: 30 };
+
+function pageOperations(pdfDoc: PDFDocument, pageIndex = 0): ContentOperation[] {
+  const contents = pdfDoc.getPages()[pageIndex].node.Contents();
+  if (!contents) return [];
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref) as PDFStream)
+    : [contents as PDFStream];
+
+  const content = streams
+    .map((stream) => bytesToBinaryString(
+      stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+    ))
+    .join('\n');
+  return parseContentStream(new Uint8Array([...content].map((c) => c.charCodeAt(0))));
+}
+
+function numbers(op: ContentOperation): number[] {
+  return op.operands.flatMap((operand) => (operand.type === 'number' ? [operand.value] : []));
+}
+
+/** Decode every shown string on the page (pdf-lib writes WinAnsi hex strings) */
+function shownText(ops: ContentOperation[]): string {
+  let text = '';
+  for (const op of ops) {
+    if (op.operator !== 'Tj' && op.operator !== 'TJ') continue;
+    const operands = op.operator === 'TJ' && op.operands[0].type === 'array'
+      ? op.operands[0].items
+      : op.operands;
+    for (const operand of operands) {
+      if (operand.type === 'string') text += operand.value;
+    }
+  }
+  return text;
+}
+
+async function drawStyle(draw: (resources: PdfStyleResources, pdfDoc: PDFDocument) => void) {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([600, 800]);
+  const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  draw({ font, scale: 2 }, pdfDoc);
+  // Content streams are written on save
+  return pageOperations(await PDFDocument.load(await pdfDoc.save()));
+}
+
+async function createTextPdf(): Promise<ArrayBuffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Courier);
+  const page = pdfDoc.addPage([600, 800]);
+  page.drawText('Name: SECRET', { x: 50, y: 700, size: 20, font });
+  const bytes = await pdfDoc.save();
+  return bytes.slice().buffer;
+}
+
+describe('PDF redaction styles', () => {
+  it('should fill solid boxes in the chosen color', async () => {
+    const ops = await drawStyle((resources, pdfDoc) =>
+      new SolidRedactionStyle().exportPdf(pdfDoc.getPages()[0], BOX, resources, { color: '#ff0000' })
+    );
+
+    expect(numbers(ops.find((op) => op.operator === 'rg')!)).toEqual([1, 0, 0]);
+    // pdf-lib draws rectangles as a path translated to the corner
+    expect(numbers(ops.find((op) => op.operator === 'cm')!)).toEqual([1, 0, 0, 1, 100, 200]);
+  });
+
+  it('should keep pattern lines inside the box', async () => {
+    for (const pattern of ['diagonal', 'crosshatch'] as const) {
+      const ops = await drawStyle((resources, pdfDoc) =>
+        new PatternRedactionStyle().exportPdf(pdfDoc.getPages()[0], BOX, resources, { pattern })
+      );
+      // Line endpoints, skipping the background rectangle (drawn under a translation)
+      let translated = false;
+      const points = ops.flatMap((op) => {
+        if (op.operator === 'cm') translated = true;
+        if (op.operator === 'Q') translated = false;
+        return !translated && (op.operator === 'm' || op.operator === 'l') ? [numbers(op)] : [];
+      });
+
+      expect(points.length).toBeGreaterThan(10);
+      for (const [x, y] of points) {
+        expect(x).toBeGreaterThanOrEqual(BOX.x - 1e-6);
+        expect(x).toBeLessThanOrEqual(BOX.x + BOX.width + 1e-6);
+        expect(y).toBeGreaterThanOrEqual(BOX.y - 1e-6);
+        expect(y).toBeLessThanOrEqual(BOX.y + BOX.height + 1e-6);
+      }
+    }
+  });
+
+  it('should print replacement text centered in the box', async () => {
+    const ops = await drawStyle((resources, pdfDoc) =>
+      new TextRedactionStyle().exportPdf(pdfDoc.getPages()[0], BOX, resources, { text: 'WITHHELD' })
+    );
+
+    expect(shownText(ops)).toBe('WITHHELD');
+  });
+});
+
+describe('PDF export with redaction styles', () => {
+  // Canvas coordinates at scale 2 over "SECRET"
+  const boxes: Box[] = [{ x: 242, y: 160, w: 150, h: 60, text: 'SECRET' }];
+
+  it('should keep content under boxes drawn in a perfect-score style', async () => {
+    const bytes = await exportPdfWithRedactionBoxes(await createTextPdf(), new Map([[0, boxes]]), 2, undefined, undefined, {
+      styleId: 'solid'
+    });
+
+    expect(shownText(pageOperations(await PDFDocument.load(bytes)))).toContain('SECRET');
+  });
+
+  it('should remove content under styles that require rasterization', async () => {
+    const bytes = await exportPdfWithRedactionBoxes(await createTextPdf(), new Map([[0, boxes]]), 2, undefined, undefined, {
+      styleId: 'text',
+      options: { text: 'WITHHELD' }
+    });
+    const text = shownText(pageOperations(await PDFDocument.load(bytes)));
+
+    expect(text).not.toContain('SECRET');
+    expect(text).toContain('Name:');
+  });
+
+  it('should honor a style set on the box over the selection', async () => {
+    const styled: Box[] = [{ ...boxes[0], styleId: 'pattern' } as Box];
+    const bytes = await exportPdfWithRedactionBoxes(await createTextPdf(), new Map([[0, styled]]), 2, undefined, undefined, {
+      styleId: 'solid'
+    });
+
+    expect(shownText(pageOperations(await PDFDocument.load(bytes)))).not.toContain('SECRET');
+  });
+});
@@ -26,6 +26,7 @@ describe('StyleRegistry', () => {
     category: securityScore >= 90 ? 'secure' : 'experimental',
     render: vi.fn(),
     export: vi.fn(),
+    exportPdf: vi.fn(),
     getPreview: () => 'data:image/png;base64,test',
   });
 
@@ -172,6 +173,29 @@ describe('StyleRegistry', () => {
     });
   });
 
+  describe('resolve', () => {
+    const box: Box = { x: 0, y: 0, w: 10, h: 10, text: 'secret' };
+
+    it('should prefer the box style, then the selection, then the default', () => {
+      StyleRegistry.register(createMockStyle('solid'));
+      StyleRegistry.register(createMockStyle('box-style'));
+      StyleRegistry.register(createMockStyle('picked-style'));
+      const options: StyleOptions = { text: 'WITHHELD' };
+
+      expect(StyleRegistry.resolve({ ...box, styleId: 'box-style' }, { styleId: 'picked-style' }).style.id).toBe('box-style');
+      expect(StyleRegistry.resolve(box, { styleId: 'picked-style', options })).toMatchObject({
+        style: { id: 'picked-style' },
+        options
+      });
+      expect(StyleRegistry.resolve(box, { styleId: 'missing' }).style.id).toBe(StyleRegistry.getDefault().id);
+    });
+
+    it('should require rasterization below a perfect security score', () => {
+      expect(StyleRegistry.requiresRasterization(createMockStyle('perfect', 100))).toBe(false);
+      expect(StyleRegistry.requiresRasterization(createMockStyle('near', 95))).toBe(true);
+    });
+  });
+
   describe('storage persistence', () => {
     it('should load default from localStorage', () => {
       localStorageMock.getItem.mockReturnValue('saved-style');
@@ -207,6 +231,21 @@ describe('StyleRegistry', () => {
       );
     });
 
+    it('should round-trip style options', () => {
+      localStorageMock.setItem.mockImplementation(() => {});
+      StyleRegistry.saveOptionsToStorage({ text: 'WITHHELD', fontSize: 12 });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'redaction-style-options',
+        JSON.stringify({ text: 'WITHHELD', fontSize: 12 })
+      );
+
+      localStorageMock.getItem.mockImplementation(() => JSON.stringify({ text: 'WITHHELD' }));
+      expect(StyleRegistry.loadOptionsFromStorage()).toEqual({ text: 'WITHHELD' });
+
+      localStorageMock.getItem.mockImplementation(() => 'not json');
+      expect(StyleRegistry.loadOptionsFromStorage()).toEqual({});
+    });
+
     it('should handle localStorage save errors gracefully', () => {
       localStorageMock.setItem.mockImplementation(() => {
         throw new Error('localStorage error');
@@ -0,0 +1,271 @@
+/**
+ * Tests for true PDF content redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PDFDocument,
+  PDFArray,
+  PDFStream,
+  StandardFonts,
+  decodePDFRawStream,
+  PDFRawStream,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  drawObject,
+  PDFName,
+  PDFString
+} from 'pdf-lib';
+import {
+  parseContentStream,
+  removeDictEntries,
+  serializeContentStream,
+  bytesToBinaryString
+} from '../../src/lib/pdf/content-stream';
+import { redactPageContent, removeUnreferencedObjects } from '../../src/lib/pdf/true-redact';
+import { exportPdfWithTrueRedaction } from '../../src/lib/pdf/export';
+import type { Box } from '../../src/lib/pdf/find';
+
+async function createTextPdf(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Courier);
+  const page = pdfDoc.addPage([600, 800]);
+  page.drawText('Name: SECRET', { x: 50, y: 700, size: 20, font });
+  page.drawText('Public line', { x: 50, y: 600, size: 20, font });
+  return pdfDoc.save();
+}
+
+function pageContentText(pdfDoc: PDFDocument, pageIndex = 0): string {
+  const node = pdfDoc.getPages()[pageIndex].node;
+  const contents = node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref) as PDFStream)
+    : [contents as PDFStream];
+
+  return streams
+    .map((stream) => bytesToBinaryString(
+      stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+    ))
+    .join('\n');
+}
+
+/** Every object in a saved file, streams inflated, referenced or not */
+async function allObjectsText(bytes: Uint8Array): Promise<string> {
+  const pdfDoc = await PDFDocument.load(bytes);
+  return pdfDoc.context.enumerateIndirectObjects()
+    .map(([, obj]) => obj instanceof PDFRawStream
+      ? bytesToBinaryString(decodePDFRawStream(obj).decode())
+      : obj.toString())
+    .join('\n');
+}
+
+/** Decode every shown string on the page (pdf-lib writes WinAnsi hex strings) */
+function shownText(content: string): string {
+  const ops = parseContentStream(new Uint8Array([...content].map((c) => c.charCodeAt(0))));
+  let text = '';
+  for (const op of ops) {
+    if (op.operator !== 'Tj' && op.operator !== 'TJ') continue;
+    const operands = op.operator === 'TJ' && op.operands[0].type === 'array'
+      ? op.operands[0].items
+      : op.operands;
+    for (const operand of operands) {
+      if (operand.type === 'string') text += operand.value;
+    }
+  }
+  return text;
+}
+
+describe('content stream parser', () => {
+  it('should parse operators with operands', () => {
+    const bytes = new TextEncoder().encode('BT /F1 12 Tf 100 700 Td (Hello) Tj ET');
+    const ops = parseContentStream(bytes);
+
+    expect(ops.map((op) => op.operator)).toEqual(['BT', 'Tf', 'Td', 'Tj', 'ET']);
+    expect(ops[1].operands).toEqual([
+      { type: 'name', value: '/F1' },
+      { type: 'number', value: 12, raw: '12' }
+    ]);
+    expect(ops[3].operands[0]).toMatchObject({ type: 'string', value: 'Hello' });
+  });
+
+  it('should decode escapes and hex strings', () => {
+    const bytes = new TextEncoder().encode('(a\\(b\\)c\\101) Tj <48 69> Tj');
+    const ops = parseContentStream(bytes);
+
+    expect(ops[0].operands[0]).toMatchObject({ value: 'a(b)cA' });
+    expect(ops[1].operands[0]).toMatchObject({ value: 'Hi', hex: true });
+  });
+
+  it('should parse TJ arrays and dictionaries', () => {
+    const bytes = new TextEncoder().encode('/Span <</ActualText (x)>> BDC [(A) -120 (B)] TJ EMC');
+    const ops = parseContentStream(bytes);
+
+    expect(ops[0].operator).toBe('BDC');
+    expect(ops[0].operands[1]).toEqual({ type: 'dict', raw: '<</ActualText (x)>>' });
+    expect(ops[1].operands[0]).toMatchObject({ type: 'array' });
+  });
+
+  it('should remove dictionary entries and keep the rest as written', () => {
+    const raw = '<</ActualText (a \\) b) /Lang (en) /Alt <4142> /Nested <</E (x)>>>>';
+
+    expect(removeDictEntries(raw, ['/ActualText', '/Alt'])).toBe('<</Lang (en) /Nested <</E (x)>>>>');
+    expect(removeDictEntries(raw, ['/MCID'])).toBe(raw);
+  });
+
+  it('should keep inline images verbatim', () => {
+    const bytes = new TextEncoder().encode('q BI /W 1 /H 1 /BPC 8 /CS /G ID ÿ EI Q');
+    const ops = parseContentStream(bytes);
+
+    expect(ops.map((op) => op.operator)).toEqual(['q', 'BI', 'Q']);
+    expect(ops[1].inlineImage).toContain('ID');
+  });
+
+  it('should round-trip through the serializer', () => {
+    const source = 'q 1 0 0 1 10 20 cm BT /F1 12 Tf (Hi) Tj ET Q';
+    const ops = parseContentStream(new TextEncoder().encode(source));
+    const reparsed = parseContentStream(serializeContentStream(ops));
+
+    expect(reparsed).toEqual(ops);
+  });
+});
+
+describe('true redaction', () => {
+  it('should remove glyphs under a box and keep the rest', async () => {
+    const pdfDoc = await PDFDocument.load(await createTextPdf());
+    const page = pdfDoc.getPages()[0];
+
+    // Courier is 0.6em wide: "Name: " spans x 50-122, "SECRET" spans 122-194
+    const report = redactPageContent(pdfDoc, page, [{ x: 121, y: 690, width: 75, height: 30 }]);
+
+    const text = shownText(pageContentText(pdfDoc));
+    expect(text).not.toContain('SECRET');
+    expect(text).toContain('Name:');
+    expect(text).toContain('Public line');
+    expect(report.glyphsRemoved).toBe(6);
+    expect(report.textOperatorsModified).toBe(1);
+  });
+
+  it('should leave pages without overlapping boxes untouched', async () => {
+    const pdfDoc = await PDFDocument.load(await createTextPdf());
+    const page = pdfDoc.getPages()[0];
+
+    const report = redactPageContent(pdfDoc, page, [{ x: 400, y: 100, width: 50, height: 50 }]);
+
+    expect(report.glyphsRemoved).toBe(0);
+    expect(shownText(pageContentText(pdfDoc))).toContain('SECRET');
+  });
+
+  it('should export a PDF without the redacted text', async () => {
+    const original = await createTextPdf();
+    // Canvas coordinates at scale 2: SECRET baseline at y=100 from top (800-700)
+    const boxes: Box[] = [{ x: 242, y: 160, w: 150, h: 60, text: 'SECRET' }];
+
+    const { pdfBytes, report } = await exportPdfWithTrueRedaction(
+      original.slice().buffer,
+      new Map([[0, boxes]]),
+      2
+    );
+
+    const exported = await PDFDocument.load(pdfBytes);
+    const text = shownText(pageContentText(exported));
+    expect(text).not.toContain('SECRET');
+    expect(text).toContain('Public line');
+    expect(report.glyphsRemoved).toBe(6);
+  });
+
+  it('should not keep the original content in the saved file', async () => {
+    const pdfDoc = await PDFDocument.load(await createTextPdf());
+    const page = pdfDoc.getPages()[0];
+
+    // A grayscale image whose pixel bytes spell a secret, drawn at x 50-150, y 400-450
+    const image = pdfDoc.context.stream(Uint8Array.from('PIXELSECRET', (c) => c.charCodeAt(0)), {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: 11,
+      Height: 1,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: 8
+    });
+    const name = page.node.newXObject('Im', pdfDoc.context.register(image));
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(100, 0, 0, 50, 50, 400),
+      drawObject(name),
+      popGraphicsState()
+    );
+    const original = await pdfDoc.save();
+
+    // Over "SECRET" and the whole image
+    const boxes: Box[] = [
+      { x: 242, y: 160, w: 150, h: 60, text: 'SECRET' },
+      { x: 90, y: 690, w: 220, h: 120, text: 'image' }
+    ];
+    const { pdfBytes, report } = await exportPdfWithTrueRedaction(original.slice().buffer, new Map([[0, boxes]]), 2);
+    const everything = await allObjectsText(pdfBytes);
+
+    expect(report.imagesBlanked + report.imagesRemoved).toBe(1);
+    expect(everything).toContain('Public line'.split('').map((c) => c.charCodeAt(0).toString(16).toUpperCase()).join(''));
+    expect(everything).not.toMatch(/534543524554/i);
+    expect(everything).not.toContain('SECRET');
+  });
+
+  it('should drop the text equivalents of marked content under a box', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Courier);
+    const page = pdfDoc.addPage([600, 800]);
+    const fontName = page.node.newFontDictionary('F', font.ref).asString();
+    const properties = pdfDoc.context.obj({ ActualText: PDFString.of('Jane Roe'), Lang: PDFString.of('en') });
+    page.node.Resources()!.set(PDFName.of('Properties'), pdfDoc.context.obj({ MC0: pdfDoc.context.register(properties) }));
+    page.node.set(PDFName.of('Contents'), pdfDoc.context.register(pdfDoc.context.stream([
+      `BT ${fontName} 20 Tf 50 700 Td /Span <</ActualText (Jane Roe) /Alt (Jane Roe) /Lang (en)>> BDC (Jane Roe) Tj EMC ET`,
+      `BT ${fontName} 20 Tf 50 600 Td /Span /MC0 BDC (Jane Roe) Tj EMC ET`,
+      `BT ${fontName} 20 Tf 50 400 Td /Span <</ActualText (Public)>> BDC (Public) Tj EMC ET`
+    ].join('\n'))));
+
+    const report = redactPageContent(pdfDoc, page, [{ x: 40, y: 590, width: 260, height: 140 }]);
+    removeUnreferencedObjects(pdfDoc);
+    const everything = await allObjectsText(await pdfDoc.save());
+
+    expect(report.markedContentCleared).toBe(2);
+    expect(everything).not.toContain('Jane Roe');
+    expect(everything).toContain('<</ActualText (Public)>>');
+    expect(everything).toContain('/Lang (en)');
+  });
+
+  it('should remove annotations and form fields overlapping a box', async () => {
+    const pdfDoc = await PDFDocument.load(await createTextPdf());
+    const page = pdfDoc.getPages()[0];
+    const { context } = pdfDoc;
+
+    const note = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'FreeText',
+      Rect: [120, 690, 200, 720],
+      Contents: PDFString.of('Jane Roe')
+    }));
+    const popup = context.register(context.obj({ Type: 'Annot', Subtype: 'Popup', Rect: [400, 100, 500, 200], Parent: note }));
+    const link = context.register(context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [50, 100, 150, 120] }));
+    page.node.set(PDFName.of('Annots'), context.obj([note, popup, link]));
+
+    const field = pdfDoc.getForm().createTextField('name');
+    field.setText('Jane Roe');
+    field.addToPage(page, { x: 60, y: 650, width: 200, height: 20 });
+
+    const report = redactPageContent(pdfDoc, page, [{ x: 100, y: 640, width: 200, height: 90 }]);
+    removeUnreferencedObjects(pdfDoc);
+    const saved = await pdfDoc.save();
+    const exported = await PDFDocument.load(saved);
+
+    expect(report.annotationsRemoved).toBe(3);
+    expect(exported.getPages()[0].node.Annots()?.size()).toBe(1);
+    expect(exported.getForm().getFields()).toHaveLength(0);
+    expect(await allObjectsText(saved)).not.toContain('Jane Roe');
+  });
+
+  it('should reject empty input', async () => {
+    await expect(
+      exportPdfWithTrueRedaction(new ArrayBuffer(0), new Map())
+    ).rejects.toThrow('Invalid PDF bytes');
+  });
+});
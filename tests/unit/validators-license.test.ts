@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STATE_LICENSE_FORMATS,
+  validateDriversLicense,
+  findNearbyLicenseLabel,
+  parseAAMVA,
+  findDriversLicenses,
+  findAAMVAValues,
+  findAllLicenses
+} from '../../src/lib/detect/patterns-license';
+
+const AAMVA_TEXT = [
+  '@',
+  '\x1e\rANSI 636014040002DL00410278ZC03190008DLDAQD1234567',
+  'DCSSAMPLE',
+  'DACJANE',
+  'DADNONE',
+  'DBB01071985',
+  'DBA01072030',
+  'DAG123 MAIN STREET',
+  'DAISACRAMENTO',
+  'DAJCA',
+  'DAK958230000',
+  'DCF83D9BN217QO983B1',
+  'ZCZCAGRN'
+].join('\n');
+
+describe('License Validators', () => {
+  it('should cover every state and DC', () => {
+    expect(Object.keys(STATE_LICENSE_FORMATS)).toHaveLength(51);
+  });
+
+  it('should validate numbers against a specific state', () => {
+    expect(validateDriversLicense('D1234567', 'CA')).toBe(true);
+    expect(validateDriversLicense('S123456789012', 'FL')).toBe(true);
+    expect(validateDriversLicense('S123-4567-8901-2', 'FL')).toBe(true);
+    expect(validateDriversLicense('12ABC34567', 'NH')).toBe(true);
+    expect(validateDriversLicense('WDLABCD1234X', 'WA')).toBe(true);
+    expect(validateDriversLicense('12345678', 'CA')).toBe(false);  // CA needs a leading letter
+    expect(validateDriversLicense('D1234567', 'ZZ')).toBe(false);  // Unknown state
+  });
+
+  it('should validate numbers against any state when none is given', () => {
+    expect(validateDriversLicense('D1234567')).toBe(true);
+    expect(validateDriversLicense('123456789')).toBe(true);
+    expect(validateDriversLicense('1234')).toBe(false);            // Too short without a state
+    expect(validateDriversLicense('ABCDEFGH')).toBe(false);        // No digits
+  });
+
+  it('should find labels directly before a number', () => {
+    const text = 'TX DL# 12345678';
+    expect(findNearbyLicenseLabel(text, text.indexOf('1'))).toEqual({ label: 'DL#', state: 'TX' });
+
+    const named = 'California Driver License No. D1234567';
+    expect(findNearbyLicenseLabel(named, named.indexOf('D1'))?.state).toBe('CA');
+
+    const gap = 'DL expires 2030, ref 12345678';
+    expect(findNearbyLicenseLabel(gap, gap.indexOf('123'))).toBeNull();
+  });
+
+  it('should prefer the longest state name', () => {
+    const text = 'West Virginia DL: A123456';
+    expect(findNearbyLicenseLabel(text, text.indexOf('A1'))?.state).toBe('WV');
+  });
+});
+
+describe('AAMVA Barcode Parsing', () => {
+  it('should parse the header and data elements', () => {
+    const barcode = parseAAMVA(AAMVA_TEXT);
+
+    expect(barcode?.issuerId).toBe('636014');
+    expect(barcode?.version).toBe(4);
+    expect(barcode?.elements.DAQ).toBe('D1234567');
+    expect(barcode?.elements.DCS).toBe('SAMPLE');
+    expect(barcode?.elements.DAJ).toBe('CA');
+  });
+
+  it('should return null without a header', () => {
+    expect(parseAAMVA('DAQD1234567\nDCSSAMPLE')).toBeNull();
+  });
+
+  it('should return cardholder values only', () => {
+    const values = findAAMVAValues(AAMVA_TEXT);
+
+    expect(values).toContain('D1234567');
+    expect(values).toContain('JANE');
+    expect(values).toContain('01071985');
+    expect(values).toContain('123 MAIN STREET');
+    expect(values).not.toContain('NONE');      // Placeholder middle name
+    expect(values).not.toContain('01072030');  // Expiry date
+    expect(values).not.toContain('CA');        // Issuing state
+  });
+});
+
+describe('License Detection', () => {
+  it('should find labeled numbers', () => {
+    const text = 'Applicant DL: D1234567, DOB 01/07/1985. Secondary ID: State ID No. 123 456 789';
+    expect(findDriversLicenses(text)).toEqual(['D1234567', '123 456 789']);
+  });
+
+  it('should ignore unlabeled numbers and dates after labels', () => {
+    expect(findDriversLicenses('Order D1234567 shipped')).toEqual([]);
+    expect(findDriversLicenses('License expires 01-07-2030')).toEqual([]);
+    expect(findDriversLicenses('CA DL 12345678')).toEqual([]);
+  });
+
+  it('should combine labeled numbers and barcode values', () => {
+    const licenses = findAllLicenses(`Front: DLN S123456789012\n${AAMVA_TEXT}`);
+
+    expect(licenses.licenseNumbers).toEqual(['S123456789012']);
+    expect(licenses.barcodeValues).toContain('SAMPLE');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateNPI,
+  validateDEA,
+  validateMBI,
+  validateRecordNumber,
+  findNPIs,
+  findDEANumbers,
+  findMBIs,
+  findHealthPlanIDs,
+  findMedicalRecordNumbers,
+  findICD10Codes,
+  findCPTCodes,
+  findAllMedical
+} from '../../src/lib/detect/patterns-medical';
+
+describe('Medical Validators', () => {
+  describe('NPI Validation', () => {
+    it('should validate NPIs with the 80840 prefix check digit', () => {
+      expect(validateNPI('1234567893')).toBe(true);
+      expect(validateNPI('1234567890')).toBe(false);  // Wrong check digit
+      expect(validateNPI('3234567893')).toBe(false);  // Must start with 1 or 2
+      expect(validateNPI('123456789')).toBe(false);   // Too short
+    });
+  });
+
+  describe('DEA Validation', () => {
+    it('should validate DEA numbers with the checksum', () => {
+      expect(validateDEA('AB1234563')).toBe(true);
+      expect(validateDEA('F91234563')).toBe(true);    // Name initial replaced by 9
+      expect(validateDEA('AB1234564')).toBe(false);   // Wrong check digit
+      expect(validateDEA('IB1234563')).toBe(false);   // Invalid registrant type
+    });
+  });
+
+  describe('MBI Validation', () => {
+    it('should validate MBIs with or without dashes', () => {
+      expect(validateMBI('1EG4TE5MK73')).toBe(true);
+      expect(validateMBI('1EG4-TE5-MK73')).toBe(true);
+    });
+
+    it('should reject excluded letters and bad layouts', () => {
+      expect(validateMBI('1SG4TE5MK73')).toBe(false);  // S is excluded
+      expect(validateMBI('0EG4TE5MK73')).toBe(false);  // Leading zero
+      expect(validateMBI('1EG4TE5-MK73')).toBe(false); // Single dash
+    });
+  });
+
+  describe('Record Number Validation', () => {
+    it('should require enough digits', () => {
+      expect(validateRecordNumber('00482913')).toBe(true);
+      expect(validateRecordNumber('A-2291044')).toBe(true);
+      expect(validateRecordNumber('pending')).toBe(false);
+    });
+  });
+});
+
+describe('Medical Detection', () => {
+  const INTAKE = [
+    'Patient Intake Form',
+    'MRN: 00482913   Referring provider NPI: 1234567893',
+    'Prescriber DEA AB1234563',
+    'Medicare MBI 1EG4-TE5-MK73, Member ID: XYZ123456789',
+    'Dx: E11.9, I10. CPT: 99213, 93000',
+    'Call 2125551234 to reschedule.'
+  ].join('\n');
+
+  it('should find each identifier type', () => {
+    expect(findMedicalRecordNumbers(INTAKE)).toEqual(['00482913']);
+    expect(findNPIs(INTAKE)).toEqual(['1234567893']);
+    expect(findDEANumbers(INTAKE)).toEqual(['AB1234563']);
+    expect(findMBIs(INTAKE)).toEqual(['1EG4-TE5-MK73']);
+    expect(findHealthPlanIDs(INTAKE)).toEqual(['XYZ123456789']);
+  });
+
+  it('should only report NPIs next to a label', () => {
+    expect(findNPIs('Call 1234567893 today')).toEqual([]);
+  });
+
+  it('should find diagnosis and procedure codes', () => {
+    expect(findICD10Codes(INTAKE)).toEqual(['E11.9']);
+    expect(findICD10Codes('Diagnosis code J45909')).toEqual(['J45909']);
+    expect(findCPTCodes(INTAKE)).toEqual(['99213', '93000']);
+  });
+
+  it('should only report codes when requested', () => {
+    expect(findAllMedical(INTAKE).icd10Codes).toEqual([]);
+    expect(findAllMedical(INTAKE).cptCodes).toEqual([]);
+    expect(findAllMedical(INTAKE, true).cptCodes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateIPv4,
+  validateIPv6,
+  validateMAC,
+  validateIMEI,
+  validateMEID,
+  validateSensitiveURL,
+  findIPAddresses,
+  findMACAddresses,
+  findIMEIs,
+  findMEIDs,
+  findHostnames,
+  findSensitiveURLs,
+  findAllNetwork
+} from '../../src/lib/detect/patterns-network';
+
+describe('Network Validators', () => {
+  describe('IPv4 Validation', () => {
+    it('should validate addresses and CIDR ranges', () => {
+      expect(validateIPv4('192.168.1.10')).toBe(true);
+      expect(validateIPv4('10.0.0.0/8')).toBe(true);
+      expect(validateIPv4('203.0.113.255')).toBe(true);
+    });
+
+    it('should reject malformed and non-identifying addresses', () => {
+      expect(validateIPv4('256.1.1.1')).toBe(false);     // Octet out of range
+      expect(validateIPv4('10.01.0.1')).toBe(false);     // Leading zero
+      expect(validateIPv4('10.0.0.0/33')).toBe(false);   // Prefix out of range
+      expect(validateIPv4('127.0.0.1')).toBe(false);     // Loopback
+      expect(validateIPv4('255.255.255.0')).toBe(false); // Netmask
+      expect(validateIPv4('0.0.0.0')).toBe(false);       // Unspecified
+    });
+  });
+
+  describe('IPv6 Validation', () => {
+    it('should validate full, compressed and IPv4-mapped forms', () => {
+      expect(validateIPv6('2001:0db8:85a3:0000:0000:8a2e:0370:7334')).toBe(true);
+      expect(validateIPv6('2001:db8::7')).toBe(true);
+      expect(validateIPv6('fe80::1ff:fe23:4567:890a')).toBe(true);
+      expect(validateIPv6('::ffff:192.0.2.128')).toBe(true);
+      expect(validateIPv6('2001:db8::/32')).toBe(true);
+    });
+
+    it('should reject malformed addresses and look-alikes', () => {
+      expect(validateIPv6('2001:db8::1::2')).toBe(false);   // Two compressions
+      expect(validateIPv6('2001:db8:1:2:3:4:5')).toBe(false); // Seven groups without ::
+      expect(validateIPv6('12:30:45')).toBe(false);         // Time of day
+      expect(validateIPv6('00:1A:2B:3C:4D:5E')).toBe(false); // MAC address
+      expect(validateIPv6('a::b')).toBe(false);             // Code, not an address
+      expect(validateIPv6('::1')).toBe(false);              // Loopback
+      expect(validateIPv6('2001:db8::/129')).toBe(false);   // Prefix out of range
+    });
+  });
+
+  describe('MAC Address Validation', () => {
+    it('should validate colon, hyphen and Cisco formats', () => {
+      expect(validateMAC('00:1A:2B:3C:4D:5E')).toBe(true);
+      expect(validateMAC('00-1a-2b-3c-4d-5e')).toBe(true);
+      expect(validateMAC('001A.2B3C.4D5E')).toBe(true);
+    });
+
+    it('should reject placeholder addresses', () => {
+      expect(validateMAC('00:00:00:00:00:00')).toBe(false);
+      expect(validateMAC('FF:FF:FF:FF:FF:FF')).toBe(false);
+    });
+  });
+
+  describe('IMEI and MEID Validation', () => {
+    it('should validate IMEIs with the Luhn check digit', () => {
+      expect(validateIMEI('490154203237518')).toBe(true);
+      expect(validateIMEI('49-015420-323751-8')).toBe(true);
+      expect(validateIMEI('490154203237517')).toBe(false);  // Wrong check digit
+      expect(validateIMEI('378282246310005')).toBe(false);  // American Express test card
+    });
+
+    it('should validate MEIDs and their base-16 check digit', () => {
+      expect(validateMEID('A10000009296F2')).toBe(true);
+      expect(validateMEID('A10000009296F2F')).toBe(true);
+      expect(validateMEID('A10000009296F20')).toBe(false);  // Wrong check digit
+      expect(validateMEID('910000009296F2')).toBe(false);   // Decimal regional code
+    });
+  });
+
+  describe('Sensitive URL Validation', () => {
+    it('should flag token and email query parameters', () => {
+      expect(validateSensitiveURL('https://app.example.com/reset?token=8f14e45fceea167a')).toBe(true);
+      expect(validateSensitiveURL('https://example.com/unsubscribe?u=jane.roe%40example.com')).toBe(true);
+      expect(validateSensitiveURL('https://bucket.s3.amazonaws.com/a.pdf?X-Amz-Signature=abc123')).toBe(true);
+    });
+
+    it('should ignore harmless query strings', () => {
+      expect(validateSensitiveURL('https://example.com/search?q=redaction&page=2')).toBe(false);
+      expect(validateSensitiveURL('https://example.com/?token=')).toBe(false);
+    });
+  });
+});
+
+describe('Network Detection', () => {
+  const INCIDENT = [
+    'At 09:12:45 UTC the gateway 10.20.30.40 (subnet 10.20.0.0/16) dropped traffic from 2001:db8::7.',
+    'Affected host db01.prod.acme.com and build-7.ci.internal; NIC 00:1A:2B:3C:4D:5E.',
+    'Reporter phone IMEI 49-015420-323751-8, tablet MEID: A10000009296F2.',
+    'Reset link https://acme.com/reset?email=jane.roe@example.com&token=9f8e7d6c. Docs at https://acme.com/help?page=2.',
+    'Upgraded from v1.2.3.4 to v1.2.4; see sso.acme.local.'
+  ].join('\n');
+
+  it('should find each identifier type', () => {
+    expect(findIPAddresses(INCIDENT)).toEqual(['10.20.30.40', '10.20.0.0/16', '2001:db8::7']);
+    expect(findMACAddresses(INCIDENT)).toEqual(['00:1A:2B:3C:4D:5E']);
+    expect(findIMEIs(INCIDENT)).toEqual(['49-015420-323751-8']);
+    expect(findMEIDs(INCIDENT)).toEqual(['A10000009296F2']);
+    expect(findHostnames(INCIDENT)).toEqual(['build-7.ci.internal', 'sso.acme.local', 'db01.prod.acme.com']);
+    expect(findSensitiveURLs(INCIDENT)).toEqual(['https://acme.com/reset?email=jane.roe@example.com&token=9f8e7d6c']);
+  });
+
+  it('should not treat emails or public domains as hostnames', () => {
+    expect(findHostnames('Contact ops@db01.corp or visit www.example.com')).toEqual([]);
+  });
+
+  it('should aggregate all network identifiers', () => {
+    const network = findAllNetwork(INCIDENT);
+
+    expect(network.ipv4).toHaveLength(2);
+    expect(network.ipv6).toEqual(['2001:db8::7']);
+    expect(network.sensitiveURLs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlainTextFormat } from '../../src/lib/formats/text/PlainTextFormat';
+import { CsvFormat } from '../../src/lib/formats/structured/CsvFormat';
+import type { RedactionRecord } from '../../src/lib/formats/base/types';
+import {
+  createVault,
+  serializeVault,
+  parseVault,
+  openVault,
+  vaultMatchesFile,
+  restoreFromVault
+} from '../../src/lib/vault';
+
+const PASSPHRASE = 'correct horse battery';
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+/**
+ * Redact terms in a text file and return the export and the records
+ */
+async function redactText(text: string, terms: string[], replace?: (text: string) => Promise<string>) {
+  const format = new PlainTextFormat();
+  const doc = await format.load(new File([text], 'notes.txt', { type: 'text/plain' }));
+  const records: RedactionRecord[] = [];
+
+  await format.redact(doc, await format.findTextBoxes(doc, terms), {
+    replace,
+    onRedacted: (record) => records.push(record)
+  });
+
+  const blob = await format.export(doc);
+  return { file: new File([blob], 'notes-redacted.txt', { type: 'text/plain' }), records };
+}
+
+describe('Redaction vault', () => {
+  let redacted: File;
+  let records: RedactionRecord[];
+
+  beforeEach(async () => {
+    ({ file: redacted, records } = await redactText(
+      'Call Jane Doe at 555-0134.\nJane Doe signed on 2024-03-01.',
+      ['Jane Doe', '555-0134']
+    ));
+  });
+
+  it('should record where each redaction was written', async () => {
+    expect(records).toHaveLength(3);
+    expect(new Set(records.map(r => r.id)).size).toBe(3);
+    expect(records.find(r => r.original === '555-0134')).toMatchObject({ line: 0, offset: 17, replacement: '████████' });
+  });
+
+  it('should keep the redacted file free of the originals', async () => {
+    const text = await readBlob(redacted);
+    const vault = await createVault(records, redacted, redacted.name, PASSPHRASE);
+    const vaultText = await readBlob(serializeVault(vault));
+
+    expect(text).not.toContain('Jane Doe');
+    expect(vaultText).not.toContain('Jane Doe');
+    expect(vaultText).not.toContain('555-0134');
+  });
+
+  it('should round-trip through the vault file and restore selected redactions', async () => {
+    const vault = parseVault(await readBlob(serializeVault(await createVault(records, redacted, redacted.name, PASSPHRASE))));
+    expect(await vaultMatchesFile(vault, redacted)).toBe(true);
+
+    const opened = await openVault(vault, PASSPHRASE);
+    const names = opened.filter(r => r.original === 'Jane Doe');
+    const { blob, restored } = await restoreFromVault(redacted, names);
+
+    expect(restored).toBe(2);
+    expect(await readBlob(blob)).toBe('Call Jane Doe at ████████.\nJane Doe signed on 2024-03-01.');
+  });
+
+  it('should reject a wrong passphrase, a short passphrase and a different file', async () => {
+    const vault = await createVault(records, redacted, redacted.name, PASSPHRASE);
+
+    await expect(openVault(vault, 'wrong passphrase')).rejects.toThrow(/Decryption failed/);
+    await expect(createVault(records, redacted, redacted.name, 'short')).rejects.toThrow(/at least/);
+    expect(await vaultMatchesFile(vault, new File(['other'], 'other.txt'))).toBe(false);
+    expect(() => parseVault('{"format":"something-else"}')).toThrow(/Not a redaction vault/);
+  });
+
+  it('should restore replacements of a different length at their recorded offsets', async () => {
+    const pseudonyms: Record<string, string> = { 'Jane Doe': 'Quinn Marlow', '555-0134': '555-9' };
+    const { file, records: pseudonymRecords } = await redactText(
+      'Jane Doe, 555-0134, Jane Doe',
+      ['Jane Doe', '555-0134'],
+      async (text) => pseudonyms[text]
+    );
+    expect(await readBlob(file)).toBe('Quinn Marlow, 555-9, Quinn Marlow');
+
+    const phone = pseudonymRecords.filter(r => r.original === '555-0134');
+    const { blob } = await restoreFromVault(file, phone);
+    expect(await readBlob(blob)).toBe('Quinn Marlow, 555-0134, Quinn Marlow');
+  });
+
+  it('should restore CSV cells', async () => {
+    const format = new CsvFormat();
+    const doc = await format.load(new File(['Name,Email\nJane,jane@corp.com'], 'people.csv', { type: 'text/csv' }));
+    const csvRecords: RedactionRecord[] = [];
+    await format.redact(doc, await format.findTextBoxes(doc, ['jane@corp.com']), {
+      onRedacted: (record) => csvRecords.push(record)
+    });
+    const file = new File([await format.export(doc)], 'people-redacted.csv', { type: 'text/csv' });
+
+    const { blob, restored } = await restoreFromVault(file, csvRecords);
+    expect(restored).toBe(1);
+    expect(await readBlob(blob)).toContain('"jane@corp.com"');
+  });
+});
@@ -14,5 +14,9 @@ export default defineConfig({
   ],
   build: {
     target: 'es2020'
+  },
+  worker: {
+    // Detection workers are module workers and load code-split chunks
+    format: 'es'
   }
 });